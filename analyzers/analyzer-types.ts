@@ -32,6 +32,8 @@ import type { MpegPsParseResult } from "./mpegps/types.js";
 import type { PcapClassicParseResult } from "./pcap/types.js";
 import type { PcapNgParseResult } from "./pcapng/types.js";
 import type { Iso9660ParseResult } from "./iso9660/types.js";
+import type { CatalogParseResult } from "./catalog/types.js";
+import type { PdbParseResult } from "./pdb/types.js";
 
 export type AnalyzerName =
   | "lnk"
@@ -40,6 +42,8 @@ export type AnalyzerName =
   | "macho"
   | "coff"
   | "pe"
+  | "catalog"
+  | "pdb"
   | "mz"
   | "fb2"
   | "gif"
@@ -68,13 +72,15 @@ export type AnalyzerName =
   | "ani"
   | "asf";
 
-type AnalyzerParseMap = {
+export type AnalyzerParseMap = {
   lnk: LnkParseResult;
   sqlite: SqliteParseResult;
   elf: ElfParseResult;
   macho: MachOParseResult;
   coff: CoffObjectParseResult;
   pe: PeParseResult;
+  catalog: CatalogParseResult;
+  pdb: PdbParseResult;
   mz: MzParseResult;
   fb2: Fb2ParseResult;
   gif: GifParseResult;
@@ -104,11 +110,11 @@ type AnalyzerParseMap = {
   asf: AsfParseResult;
 };
 
-type AnalyzerResultUnion = {
+export type AnalyzerResult = {
   [Name in AnalyzerName]: { analyzer: Name; parsed: AnalyzerParseMap[Name] };
 }[AnalyzerName];
 
-export type ParseForUiResult = AnalyzerResultUnion | { analyzer: null; parsed: null };
+export type ParseForUiResult = AnalyzerResult | { analyzer: null; parsed: null };
 
 export type ParsedByAnalyzer<Name extends AnalyzerName> =
   Extract<ParseForUiResult, { analyzer: Name }>["parsed"];
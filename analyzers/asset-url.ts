@@ -0,0 +1,14 @@
+"use strict";
+
+// Relative asset paths (vendored iced-x86, import metadata) are relative to the page.
+// Workers resolve relative URLs against their own script URL, so they pass the page base in explicitly.
+let assetBaseUrl: string | null = null;
+
+export const setAssetBaseUrl = (baseUrl: string): void => {
+  assetBaseUrl = baseUrl;
+};
+
+export const resolveAssetUrl = (path: string): string => {
+  const baseUrl = assetBaseUrl ?? (typeof location === "undefined" ? null : location.href);
+  return baseUrl ? new URL(path, baseUrl).href : path;
+};
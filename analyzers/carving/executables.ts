@@ -0,0 +1,152 @@
+"use strict";
+
+import type { FileRangeReader } from "../file-range-reader.js";
+import { findBytes } from "./sizes.js";
+import type { CarvedEnd } from "./types.js";
+
+const maxEnd = (ends: readonly number[]): number => ends.reduce((max, end) => Math.max(max, end), 0);
+
+// Microsoft PE format: the image ends after the headers, the last section's raw data or the
+// certificate table, whichever is furthest; debug data outside sections is not counted.
+const PE_SIGNATURE = 0x50450000;
+const PE_SECTION_HEADER_BYTES = 40;
+const PE32_MAGIC = 0x10b;
+const PE32_PLUS_MAGIC = 0x20b;
+const SECURITY_DIRECTORY_INDEX = 4;
+
+export const readPeImageEnd = async (
+  reader: FileRangeReader,
+  start: number,
+  limit: number
+): Promise<CarvedEnd | null> => {
+  const dos = await reader.read(start, 0x40);
+  if (dos.byteLength < 0x40 || dos.getUint16(0, true) !== 0x5a4d) return null;
+  const peOffset = start + dos.getUint32(0x3c, true);
+  const headers = await reader.read(peOffset, 24 + 128);
+  if (headers.byteLength < 24 + 96 || headers.getUint32(0, false) !== PE_SIGNATURE) return null;
+  const sectionCount = headers.getUint16(6, true);
+  const optionalHeaderSize = headers.getUint16(20, true);
+  const magic = headers.getUint16(24, true);
+  if (magic !== PE32_MAGIC && magic !== PE32_PLUS_MAGIC) return null;
+  const directories = magic === PE32_MAGIC ? 24 + 96 : 24 + 112;
+  const directoryCount = headers.getUint32(directories - 4, true);
+  const securityEntry = directories + SECURITY_DIRECTORY_INDEX * 8;
+  const certificateEnd = directoryCount > SECURITY_DIRECTORY_INDEX && securityEntry + 8 <= headers.byteLength
+    ? headers.getUint32(securityEntry, true) + headers.getUint32(securityEntry + 4, true)
+    : 0;
+  const sectionTable = peOffset + 24 + optionalHeaderSize;
+  const sections = await reader.read(sectionTable, sectionCount * PE_SECTION_HEADER_BYTES);
+  if (sections.byteLength < sectionCount * PE_SECTION_HEADER_BYTES) return null;
+  const rawEnds = Array.from({ length: sectionCount }, (_, index) => {
+    const entry = index * PE_SECTION_HEADER_BYTES;
+    const rawSize = sections.getUint32(entry + 16, true);
+    return rawSize ? sections.getUint32(entry + 20, true) + rawSize : 0;
+  });
+  const size = maxEnd([
+    headers.getUint32(24 + 60, true),
+    sectionTable + sections.byteLength - start,
+    certificateEnd,
+    ...rawEnds
+  ]);
+  if (size > limit - start) return null;
+  return { end: start + size, description: "End comes from the PE section table, SizeOfHeaders and certificate table." };
+};
+
+// System V gABI: the object ends after its program header table, section header table or the
+// file contents of a segment or section, whichever is furthest.
+const ELF_NOBITS = 8;
+
+type ElfLayout = {
+  littleEndian: boolean;
+  is64: boolean;
+  headerSize: number;
+  phoff: number;
+  phentsize: number;
+  phnum: number;
+  shoff: number;
+  shentsize: number;
+  shnum: number;
+};
+
+const readElfLayout = (view: DataView): ElfLayout | null => {
+  const elfClass = view.getUint8(4);
+  const data = view.getUint8(5);
+  if ((elfClass !== 1 && elfClass !== 2) || (data !== 1 && data !== 2)) return null;
+  const littleEndian = data === 1;
+  const is64 = elfClass === 2;
+  const word = (offset: number): number =>
+    is64 ? Number(view.getBigUint64(offset, littleEndian)) : view.getUint32(offset, littleEndian);
+  const half = (offset32: number, offset64: number): number => view.getUint16(is64 ? offset64 : offset32, littleEndian);
+  return {
+    littleEndian,
+    is64,
+    headerSize: is64 ? 64 : 52,
+    phoff: word(is64 ? 32 : 28),
+    shoff: word(is64 ? 40 : 32),
+    phentsize: half(42, 54),
+    phnum: half(44, 56),
+    shentsize: half(46, 58),
+    shnum: half(48, 60)
+  };
+};
+
+const readTableEnds = async (
+  reader: FileRangeReader,
+  tableStart: number,
+  count: number,
+  entrySize: number,
+  readEntry: (view: DataView, entry: number) => number
+): Promise<number[] | null> => {
+  if (!count) return [];
+  const view = await reader.read(tableStart, count * entrySize);
+  if (view.byteLength < count * entrySize) return null;
+  return Array.from({ length: count }, (_, index) => readEntry(view, index * entrySize));
+};
+
+export const readElfEnd = async (reader: FileRangeReader, start: number, limit: number): Promise<CarvedEnd | null> => {
+  const header = await reader.read(start, 64);
+  if (header.byteLength < 52 || header.getUint32(0, false) !== 0x7f454c46) return null;
+  const layout = readElfLayout(header);
+  if (!layout || !Number.isSafeInteger(layout.phoff) || !Number.isSafeInteger(layout.shoff)) return null;
+  const { littleEndian, is64 } = layout;
+  const word = (view: DataView, offset: number): number =>
+    is64 ? Number(view.getBigUint64(offset, littleEndian)) : view.getUint32(offset, littleEndian);
+  const segmentEnds = await readTableEnds(reader, start + layout.phoff, layout.phnum, layout.phentsize, (view, entry) =>
+    word(view, entry + (is64 ? 8 : 4)) + word(view, entry + (is64 ? 32 : 16)));
+  const sectionEnds = await readTableEnds(reader, start + layout.shoff, layout.shnum, layout.shentsize, (view, entry) =>
+    view.getUint32(entry + 4, littleEndian) === ELF_NOBITS
+      ? 0
+      : word(view, entry + (is64 ? 24 : 16)) + word(view, entry + (is64 ? 32 : 20)));
+  if (!segmentEnds || !sectionEnds) return null;
+  const size = maxEnd([
+    layout.headerSize,
+    layout.phoff + layout.phnum * layout.phentsize,
+    layout.shoff + layout.shnum * layout.shentsize,
+    ...segmentEnds,
+    ...sectionEnds
+  ]);
+  if (!Number.isSafeInteger(size) || size > limit - start) return null;
+  return { end: start + size, description: "End comes from the ELF program and section header tables." };
+};
+
+// PKWARE APPNOTE 4.3.16: the end of central directory record. Offsets in an embedded archive
+// are either relative to its first local header or absolute in the outer file.
+const ZIP_EOCD_SIGNATURE = [0x50, 0x4b, 0x05, 0x06];
+const ZIP_EOCD_BYTES = 22;
+
+export const readZipEnd = async (reader: FileRangeReader, start: number, limit: number): Promise<CarvedEnd | null> => {
+  for (let from = start; from < limit;) {
+    const eocd = await findBytes(reader, ZIP_EOCD_SIGNATURE, from, limit);
+    if (eocd == null) return null;
+    const view = await reader.read(eocd, ZIP_EOCD_BYTES);
+    if (view.byteLength === ZIP_EOCD_BYTES) {
+      const directoryEnd = view.getUint32(16, true) + view.getUint32(12, true);
+      const end = eocd + ZIP_EOCD_BYTES + view.getUint16(20, true);
+      if ((start + directoryEnd === eocd || directoryEnd === eocd) && end <= limit) {
+        return { end, description: "End comes from the ZIP end of central directory record." };
+      }
+    }
+    from = eocd + 1;
+  }
+  return null;
+};
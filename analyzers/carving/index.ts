@@ -0,0 +1,156 @@
+"use strict";
+
+import type { FileRangeReader } from "../file-range-reader.js";
+import {
+  EMBEDDED_BMP_LABEL,
+  EMBEDDED_CAB_LABEL,
+  EMBEDDED_MIDI_LABEL,
+  EMBEDDED_RAR_LABEL,
+  EMBEDDED_SEVEN_ZIP_LABEL,
+  EMBEDDED_ZIP_LABEL,
+  isEmbeddedCandidateStartByte
+} from "../pe/overlay-embedded.js";
+import { detectEmbeddedPayloadAt } from "../pe/overlay-scan.js";
+import { probeByMagic } from "../probes/magic-probes.js";
+import { readElfEnd, readPeImageEnd, readZipEnd } from "./executables.js";
+import { readGifEnd, readPdfEnd, readPngEnd, readRiffEnd, readSqliteEnd } from "./sizes.js";
+import type { CarvedEnd, CarvedObject, CarvingScanOptions, CarvingScanResult } from "./types.js";
+
+type EndReader = (reader: FileRangeReader, start: number, limit: number) => Promise<CarvedEnd | null>;
+
+// Formats beyond the overlay detectors; the magic probes name them and the end reader
+// validates the structure. Keyed by first byte so most offsets cost one lookup.
+// ELF has no magic probe (the format registry detects it), so it carries its own label.
+const CARVERS = new Map<number, { readEnd: EndReader; fallbackLabel?: string }>([
+  [0x89, { readEnd: readPngEnd }],
+  [0x47, { readEnd: readGifEnd }],
+  [0x52, { readEnd: readRiffEnd }],
+  [0x7f, { readEnd: readElfEnd, fallbackLabel: "ELF binary" }],
+  [0x53, { readEnd: readSqliteEnd }],
+  [0x25, { readEnd: readPdfEnd }]
+]);
+
+// The overlay detectors already read these sizes from the payload headers.
+const SIZED_OVERLAY_TYPES = new Set([
+  EMBEDDED_BMP_LABEL,
+  EMBEDDED_CAB_LABEL,
+  EMBEDDED_MIDI_LABEL,
+  EMBEDDED_RAR_LABEL,
+  EMBEDDED_SEVEN_ZIP_LABEL
+]);
+
+const SCAN_CHUNK_BYTES = 64 * 1024;
+const PROBE_LOOKAHEAD_BYTES = 64 * 1024;
+const UNKNOWN_END_DESCRIPTION = "Length is not known; the object runs to the next carved object or the end of the file.";
+
+type ScanContext = {
+  file: File;
+  reader: FileRangeReader;
+  // Offset from which a search for a ZIP end record already failed; later starts fail too.
+  zipSearchFailedFrom: number;
+};
+
+const unknownEnd = (fileSize: number): CarvedEnd & { lengthKnown: false } =>
+  ({ end: fileSize, description: UNKNOWN_END_DESCRIPTION, lengthKnown: false });
+
+const carveWithOverlayDetectors = async (
+  context: ScanContext,
+  view: DataView,
+  start: number
+): Promise<CarvedObject | null> => {
+  const { file, reader } = context;
+  const finding = await detectEmbeddedPayloadAt(file, reader, { start: 0, end: reader.size }, view, start);
+  if (!finding) return null;
+  let end: CarvedEnd & { lengthKnown?: boolean } | null = SIZED_OVERLAY_TYPES.has(finding.detectedType)
+    ? { end: finding.end, description: finding.endDescription }
+    : null;
+  if (!end && finding.detectedType === EMBEDDED_ZIP_LABEL && start < context.zipSearchFailedFrom) {
+    end = await readZipEnd(reader, start, reader.size);
+    if (!end) context.zipSearchFailedFrom = start;
+  }
+  end ??= await readPeImageEnd(reader, start, reader.size);
+  const { end: objectEnd, description, lengthKnown = true } = end ?? unknownEnd(reader.size);
+  return {
+    start,
+    end: objectEnd,
+    size: objectEnd - start,
+    label: finding.detectedType,
+    endDescription: description,
+    lengthKnown
+  };
+};
+
+const carveWithProbes = async (context: ScanContext, view: DataView, start: number): Promise<CarvedObject | null> => {
+  const carver = CARVERS.get(view.getUint8(0));
+  if (!carver) return null;
+  const label = probeByMagic(view) ?? carver.fallbackLabel;
+  if (!label) return null;
+  const end = await carver.readEnd(context.reader, start, context.reader.size);
+  if (!end) return null;
+  return {
+    start,
+    end: end.end,
+    size: end.end - start,
+    label,
+    endDescription: end.description,
+    lengthKnown: true
+  };
+};
+
+const carveAt = async (context: ScanContext, view: DataView, start: number): Promise<CarvedObject | null> =>
+  (isEmbeddedCandidateStartByte(view.getUint8(0)) ? await carveWithOverlayDetectors(context, view, start) : null) ??
+  (CARVERS.has(view.getUint8(0)) ? await carveWithProbes(context, view, start) : null);
+
+// Objects without a known length end where the next object starts; consecutive hits of the same
+// type without a length (e.g. the local headers of a damaged ZIP) are reported once.
+const settleUnknownEnds = (objects: CarvedObject[], fileSize: number): CarvedObject[] =>
+  objects
+    .filter((object, index) => {
+      const previous = objects[index - 1];
+      return object.lengthKnown || !previous || previous.lengthKnown || previous.label !== object.label;
+    })
+    .map((object, index, kept) => {
+      if (object.lengthKnown) return object;
+      const end = kept[index + 1]?.start ?? fileSize;
+      return { ...object, end, size: end - object.start };
+    });
+
+// Walks the whole file (skipping offset 0, which is the file itself) and skips past every object
+// whose length is known, as the PE overlay scan does. The file is read one window at a time; a
+// window is read again only when an object's end moves the scan past it.
+export const scanEmbeddedContent = async (
+  file: File,
+  reader: FileRangeReader,
+  options: CarvingScanOptions = {}
+): Promise<CarvingScanResult> => {
+  const context: ScanContext = { file, reader, zipSearchFailedFrom: Number.POSITIVE_INFINITY };
+  const objects: CarvedObject[] = [];
+  let cursor = 1;
+  while (cursor < reader.size) {
+    if (options.signal?.aborted) throw new Error("Embedded content scan aborted.");
+    const searchable = Math.min(SCAN_CHUNK_BYTES, reader.size - cursor);
+    const view = await reader.read(cursor, Math.min(searchable + PROBE_LOOKAHEAD_BYTES, reader.size - cursor));
+    let next = cursor + searchable;
+    for (let index = 0; index < searchable; index += 1) {
+      const first = view.getUint8(index);
+      if (!isEmbeddedCandidateStartByte(first) && !CARVERS.has(first)) continue;
+      const probeView = new DataView(view.buffer, view.byteOffset + index, view.byteLength - index);
+      const object = await carveAt(context, probeView, cursor + index);
+      if (!object) continue;
+      objects.push(object);
+      const resume = object.lengthKnown ? Math.max(object.end, object.start + 1) : object.start + 1;
+      if (resume >= next) {
+        next = resume;
+        break;
+      }
+      index = resume - cursor - 1;
+    }
+    cursor = next;
+    options.onProgress?.({
+      bytesScanned: Math.min(cursor, reader.size),
+      totalBytes: reader.size,
+      objectsFound: objects.length
+    });
+  }
+  return { objects: settleUnknownEnds(objects, reader.size), scannedBytes: reader.size };
+};
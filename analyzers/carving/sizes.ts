@@ -0,0 +1,139 @@
+"use strict";
+
+import type { FileRangeReader } from "../file-range-reader.js";
+import type { CarvedEnd } from "./types.js";
+
+// Size readers validate the structure that starts at `start` and return where it ends, or null
+// when the bytes do not form a complete object before `limit`.
+
+const MAX_WALK_STEPS = 1_000_000;
+const SEARCH_CHUNK_BYTES = 64 * 1024;
+
+// W3C PNG 5.3: chunks are length, type, data and CRC; the datastream ends with IEND.
+const PNG_SIGNATURE_BYTES = 8;
+const PNG_CHUNK_OVERHEAD = 12;
+const PNG_IEND = 0x49454e44;
+
+export const readPngEnd = async (reader: FileRangeReader, start: number, limit: number): Promise<CarvedEnd | null> => {
+  let position = start + PNG_SIGNATURE_BYTES;
+  for (let step = 0; step < MAX_WALK_STEPS && position + PNG_CHUNK_OVERHEAD <= limit; step += 1) {
+    const view = await reader.read(position, 8);
+    if (view.byteLength < 8) return null;
+    const end = position + PNG_CHUNK_OVERHEAD + view.getUint32(0, false);
+    if (end > limit) return null;
+    if (view.getUint32(4, false) === PNG_IEND) return { end, description: "End comes from the PNG IEND chunk." };
+    position = end;
+  }
+  return null;
+};
+
+// GIF89a: header and logical screen descriptor, optional global color table, then image
+// descriptors and extensions made of length-prefixed sub-blocks, closed by the 0x3b trailer.
+const GIF_SCREEN_HEADER_BYTES = 13;
+const GIF_IMAGE_DESCRIPTOR_BYTES = 10;
+const GIF_EXTENSION = 0x21;
+const GIF_IMAGE = 0x2c;
+const GIF_TRAILER = 0x3b;
+
+const colorTableBytes = (flags: number): number => (flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0);
+
+const readByte = async (reader: FileRangeReader, position: number): Promise<number | null> => {
+  const view = await reader.read(position, 1);
+  return view.byteLength ? view.getUint8(0) : null;
+};
+
+const skipSubBlocks = async (reader: FileRangeReader, start: number, limit: number): Promise<number | null> => {
+  let position = start;
+  for (let step = 0; step < MAX_WALK_STEPS && position < limit; step += 1) {
+    const size = await readByte(reader, position);
+    if (size == null) return null;
+    position += 1 + size;
+    if (size === 0) return position;
+  }
+  return null;
+};
+
+export const readGifEnd = async (reader: FileRangeReader, start: number, limit: number): Promise<CarvedEnd | null> => {
+  const screen = await reader.read(start, GIF_SCREEN_HEADER_BYTES);
+  if (screen.byteLength < GIF_SCREEN_HEADER_BYTES) return null;
+  let position: number | null = start + GIF_SCREEN_HEADER_BYTES + colorTableBytes(screen.getUint8(10));
+  for (let step = 0; step < MAX_WALK_STEPS && position != null && position < limit; step += 1) {
+    const introducer = await readByte(reader, position);
+    if (introducer === GIF_TRAILER) return { end: position + 1, description: "End comes from the GIF trailer." };
+    if (introducer === GIF_EXTENSION) {
+      position = await skipSubBlocks(reader, position + 2, limit);
+    } else if (introducer === GIF_IMAGE) {
+      const descriptor = await reader.read(position, GIF_IMAGE_DESCRIPTOR_BYTES);
+      if (descriptor.byteLength < GIF_IMAGE_DESCRIPTOR_BYTES) return null;
+      const imageData = position + GIF_IMAGE_DESCRIPTOR_BYTES + colorTableBytes(descriptor.getUint8(9));
+      // The LZW minimum code size byte precedes the image data sub-blocks.
+      position = await skipSubBlocks(reader, imageData + 1, limit);
+    } else {
+      return null;
+    }
+  }
+  return null;
+};
+
+// RIFF: "RIFF", a little-endian size of everything after the first 8 bytes, then the form type.
+const RIFF_HEADER_BYTES = 12;
+
+export const readRiffEnd = async (reader: FileRangeReader, start: number, limit: number): Promise<CarvedEnd | null> => {
+  const view = await reader.read(start, RIFF_HEADER_BYTES);
+  if (view.byteLength < RIFF_HEADER_BYTES) return null;
+  const size = 8 + view.getUint32(4, true);
+  if (size < RIFF_HEADER_BYTES || size > limit - start) return null;
+  return { end: start + size, description: "End comes from the RIFF chunk size field." };
+};
+
+// https://www.sqlite.org/fileformat2.html 1.3: page size at offset 16 (1 means 65536) and the
+// in-header database size at 28, valid when the version-valid-for number matches the change counter.
+const SQLITE_HEADER_BYTES = 100;
+
+export const readSqliteEnd = async (
+  reader: FileRangeReader,
+  start: number,
+  limit: number
+): Promise<CarvedEnd | null> => {
+  const view = await reader.read(start, SQLITE_HEADER_BYTES);
+  if (view.byteLength < SQLITE_HEADER_BYTES) return null;
+  const rawPageSize = view.getUint16(16, false);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  if (pageSize < 512 || (pageSize & (pageSize - 1)) !== 0) return null;
+  const pageCount = view.getUint32(28, false);
+  if (!pageCount || view.getUint32(92, false) !== view.getUint32(24, false)) return null;
+  const size = pageSize * pageCount;
+  if (size > limit - start) return null;
+  return { end: start + size, description: "End comes from the SQLite page size and in-header database size." };
+};
+
+// Returns the offset of the first occurrence of `needle` in [from, limit), reading in chunks.
+export const findBytes = async (
+  reader: FileRangeReader,
+  needle: readonly number[],
+  from: number,
+  limit: number
+): Promise<number | null> => {
+  for (let chunkStart = from; chunkStart < limit; chunkStart += SEARCH_CHUNK_BYTES) {
+    const length = Math.min(SEARCH_CHUNK_BYTES + needle.length - 1, limit - chunkStart);
+    const bytes = await reader.readBytes(chunkStart, length);
+    for (let index = 0; index + needle.length <= bytes.length; index += 1) {
+      if (needle.every((value, offset) => bytes[index + offset] === value)) return chunkStart + index;
+    }
+  }
+  return null;
+};
+
+// ISO 32000-1 7.5.5: the file trailer ends with "%%EOF". Incremental updates append further
+// trailers; only the first one is used, so appended revisions are not part of the object.
+const PDF_EOF = Array.from("%%EOF", char => char.charCodeAt(0));
+
+export const readPdfEnd = async (reader: FileRangeReader, start: number, limit: number): Promise<CarvedEnd | null> => {
+  const marker = await findBytes(reader, PDF_EOF, start, limit);
+  if (marker == null) return null;
+  let end = marker + PDF_EOF.length;
+  const tail = await reader.readBytes(end, Math.min(2, limit - end));
+  if (tail[0] === 0x0d) end += 1;
+  if (tail[end - marker - PDF_EOF.length] === 0x0a) end += 1;
+  return { end, description: "End comes from the first %%EOF marker; later incremental updates are not included." };
+};
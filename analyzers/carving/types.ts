@@ -0,0 +1,34 @@
+"use strict";
+
+// One object found inside the scanned file. `lengthKnown` is false when no size field or end
+// marker was found; such objects run to the next carved object or to the end of the file.
+export interface CarvedObject {
+  start: number;
+  end: number;
+  size: number;
+  label: string;
+  endDescription: string;
+  lengthKnown: boolean;
+}
+
+export interface CarvingScanProgress {
+  bytesScanned: number;
+  totalBytes: number;
+  objectsFound: number;
+}
+
+export interface CarvingScanOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: CarvingScanProgress) => void;
+}
+
+export interface CarvingScanResult {
+  objects: CarvedObject[];
+  scannedBytes: number;
+}
+
+// End of a carved object (exclusive, absolute file offset) and where the length came from.
+export interface CarvedEnd {
+  end: number;
+  description: string;
+}
@@ -0,0 +1,236 @@
+"use strict";
+
+import {
+  TAG_GENERALIZED_TIME,
+  TAG_INTEGER,
+  TAG_OCTET_STRING,
+  TAG_OID,
+  TAG_SEQUENCE,
+  TAG_SET,
+  TAG_UTC_TIME,
+  bytesToHex,
+  decodeDerString,
+  decodeOid,
+  parseAlgorithmIdentifier,
+  parseDerTime,
+  readDerChildren,
+  readDerElement,
+  type DerElement
+} from "../pe/authenticode/der.js";
+import { DIGEST_ALGORITHMS_BY_OID } from "../pe/authenticode/digest-algorithms.js";
+import { SPC_INDIRECT_DATA_OID, describeOid } from "../pe/authenticode/pkcs7-oids.js";
+import type { CatalogAttribute, CatalogMember, CatalogParseResult } from "./types.js";
+
+// Member attributes and catalog extensions defined by mscat.h.
+const CAT_NAMEVALUE_OID = "1.3.6.1.4.1.311.12.2.1";
+const CAT_MEMBERINFO_OID = "1.3.6.1.4.1.311.12.2.2";
+
+const utf16Decoder = new TextDecoder("utf-16le");
+
+export type CertificateTrustList = Pick<
+  CatalogParseResult,
+  | "version"
+  | "subjectUsage"
+  | "listIdentifier"
+  | "sequenceNumber"
+  | "thisUpdate"
+  | "nextUpdate"
+  | "subjectAlgorithm"
+  | "members"
+  | "attributes"
+>;
+
+const contentOf = (bytes: Uint8Array, element: DerElement): Uint8Array =>
+  bytes.subarray(element.start + element.header, element.end);
+
+const isUniversal = (tag: number) => (element: DerElement): boolean =>
+  element.cls === "universal" && element.tag === tag;
+
+const isTime = (element: DerElement): boolean =>
+  isUniversal(TAG_UTC_TIME)(element) || isUniversal(TAG_GENERALIZED_TIME)(element);
+
+const readOid = (bytes: Uint8Array, element: DerElement | undefined): string | null =>
+  element && isUniversal(TAG_OID)(element) ? decodeOid(bytes, element.start + element.header, element.length) : null;
+
+const readSmallInteger = (bytes: Uint8Array, element: DerElement | undefined): number | null => {
+  if (!element || !isUniversal(TAG_INTEGER)(element) || !element.length || element.length > 4) return null;
+  return contentOf(bytes, element).reduce((value, byte) => value * 256 + byte, 0);
+};
+
+const decodeUtf16Text = (raw: Uint8Array): string => utf16Decoder.decode(raw).replace(/\0+$/, "");
+
+// makecat writes the member hash as null-terminated UTF-16LE hex text; other tools store raw bytes.
+const decodeMemberTag = (raw: Uint8Array): string => {
+  const isUtf16 = raw.length >= 2 && raw.length % 2 === 0 &&
+    raw.every((byte, index) => index % 2 === 0 || byte === 0);
+  return isUtf16 ? decodeUtf16Text(raw) : bytesToHex(raw);
+};
+
+// CAT_NAMEVALUE ::= SEQUENCE { tag BMPString, flags INTEGER, value OCTET STRING (UTF-16LE) }
+const parseNameValue = (bytes: Uint8Array, element: DerElement | undefined): CatalogAttribute | null => {
+  if (!element || !isUniversal(TAG_SEQUENCE)(element)) return null;
+  const [nameElement, flagsElement, valueElement] = readDerChildren(bytes, element);
+  const name = nameElement ? decodeDerString(bytes, nameElement) : undefined;
+  if (!name) return null;
+  const value = valueElement && isUniversal(TAG_OCTET_STRING)(valueElement)
+    ? decodeUtf16Text(contentOf(bytes, valueElement))
+    : "";
+  return { name, value, flags: readSmallInteger(bytes, flagsElement) };
+};
+
+// SpcIndirectDataContent ::= SEQUENCE { data SpcAttributeTypeAndOptionalValue, messageDigest DigestInfo }
+const applyIndirectData = (
+  bytes: Uint8Array,
+  element: DerElement,
+  member: CatalogMember,
+  warnings: string[]
+): void => {
+  if (!isUniversal(TAG_SEQUENCE)(element)) return;
+  const [typeAndValue, digestInfo] = readDerChildren(bytes, element);
+  if (typeAndValue && isUniversal(TAG_SEQUENCE)(typeAndValue)) {
+    const type = readOid(bytes, readDerChildren(bytes, typeAndValue)[0]);
+    if (type) member.subjectType = describeOid(type) ?? type;
+  }
+  if (!digestInfo || !isUniversal(TAG_SEQUENCE)(digestInfo)) return;
+  const [algorithmElement, digestElement] = readDerChildren(bytes, digestInfo);
+  const algorithm = parseAlgorithmIdentifier(bytes, algorithmElement, warnings);
+  member.digestAlgorithm = algorithm.oid ? DIGEST_ALGORITHMS_BY_OID[algorithm.oid] ?? null : null;
+  if (digestElement && isUniversal(TAG_OCTET_STRING)(digestElement)) {
+    member.digest = bytesToHex(contentOf(bytes, digestElement));
+  }
+};
+
+const applyMemberAttribute = (
+  bytes: Uint8Array,
+  element: DerElement,
+  member: CatalogMember,
+  warnings: string[]
+): void => {
+  if (!isUniversal(TAG_SEQUENCE)(element)) return;
+  const [typeElement, valuesElement] = readDerChildren(bytes, element);
+  const type = readOid(bytes, typeElement);
+  const value = valuesElement && isUniversal(TAG_SET)(valuesElement)
+    ? readDerChildren(bytes, valuesElement)[0]
+    : undefined;
+  if (!type || !value) return;
+  if (type === CAT_NAMEVALUE_OID) {
+    const attribute = parseNameValue(bytes, value);
+    if (attribute) member.attributes.push(attribute);
+  } else if (type === CAT_MEMBERINFO_OID && isUniversal(TAG_SEQUENCE)(value)) {
+    const guidElement = readDerChildren(bytes, value)[0];
+    member.memberGuid = (guidElement && decodeDerString(bytes, guidElement)) ?? null;
+  } else if (type === SPC_INDIRECT_DATA_OID) {
+    applyIndirectData(bytes, value, member, warnings);
+  }
+};
+
+// TrustedSubject ::= SEQUENCE { subjectIdentifier OCTET STRING, subjectAttributes SET OF Attribute OPTIONAL }
+const parseMember = (bytes: Uint8Array, element: DerElement, warnings: string[]): CatalogMember | null => {
+  if (!isUniversal(TAG_SEQUENCE)(element)) return null;
+  const [identifierElement, attributesElement] = readDerChildren(bytes, element);
+  if (!identifierElement || !isUniversal(TAG_OCTET_STRING)(identifierElement)) {
+    warnings.push("Catalog member has no subject identifier.");
+    return null;
+  }
+  const member: CatalogMember = {
+    tag: decodeMemberTag(contentOf(bytes, identifierElement)),
+    digestAlgorithm: null,
+    digest: null,
+    subjectType: null,
+    memberGuid: null,
+    attributes: []
+  };
+  if (attributesElement && isUniversal(TAG_SET)(attributesElement)) {
+    readDerChildren(bytes, attributesElement).forEach(attribute =>
+      applyMemberAttribute(bytes, attribute, member, warnings));
+  }
+  return member;
+};
+
+// ctlExtensions [0] EXPLICIT Extensions; catalogs keep their own name/value pairs there.
+const parseExtensions = (bytes: Uint8Array, element: DerElement): CatalogAttribute[] => {
+  const extensions = readDerChildren(bytes, element)[0];
+  if (!extensions || !isUniversal(TAG_SEQUENCE)(extensions)) return [];
+  return readDerChildren(bytes, extensions).flatMap(extension => {
+    const children = readDerChildren(bytes, extension);
+    const valueElement = children[children.length - 1];
+    if (readOid(bytes, children[0]) !== CAT_NAMEVALUE_OID) return [];
+    if (!valueElement || !isUniversal(TAG_OCTET_STRING)(valueElement)) return [];
+    const value = contentOf(bytes, valueElement);
+    const attribute = parseNameValue(value, readDerElement(value, 0) ?? undefined);
+    return attribute ? [attribute] : [];
+  });
+};
+
+const describeOids = (bytes: Uint8Array, element: DerElement | undefined): string[] =>
+  element
+    ? readDerChildren(bytes, element).flatMap(child => {
+      const oid = readOid(bytes, child);
+      return oid ? [describeOid(oid) ?? oid] : [];
+    })
+    : [];
+
+// BER allows a constructed OCTET STRING made of primitive segments; join them back together.
+const unwrapOctetString = (bytes: Uint8Array, element: DerElement): Uint8Array => {
+  if (!element.constructed) return contentOf(bytes, element);
+  const segments = readDerChildren(bytes, element).map(segment => contentOf(bytes, segment));
+  const joined = new Uint8Array(segments.reduce((total, segment) => total + segment.length, 0));
+  segments.reduce((offset, segment) => {
+    joined.set(segment, offset);
+    return offset + segment.length;
+  }, 0);
+  return joined;
+};
+
+// CertificateTrustList ::= SEQUENCE { version, subjectUsage, listIdentifier, sequenceNumber,
+// ctlThisUpdate, ctlNextUpdate, subjectAlgorithm, trustedSubjects, ctlExtensions [0] }
+export const parseCertificateTrustList = (
+  content: Uint8Array,
+  warnings: string[]
+): CertificateTrustList | null => {
+  // encapContentInfo [0] holds the list itself or, from CMS encoders, an OCTET STRING around it.
+  let bytes = content;
+  let top = readDerElement(bytes, 0);
+  if (top && isUniversal(TAG_OCTET_STRING)(top)) {
+    bytes = unwrapOctetString(bytes, top);
+    top = readDerElement(bytes, 0);
+  }
+  if (!top || !isUniversal(TAG_SEQUENCE)(top)) {
+    warnings.push("Certificate trust list is not a DER SEQUENCE.");
+    return null;
+  }
+  const children = readDerChildren(bytes, top);
+  let index = 0;
+  const next = (accepts: (element: DerElement) => boolean): DerElement | undefined => {
+    const element = children[index];
+    if (!element || !accepts(element)) return undefined;
+    index += 1;
+    return element;
+  };
+  const version = readSmallInteger(bytes, next(isUniversal(TAG_INTEGER)));
+  const usage = next(isUniversal(TAG_SEQUENCE));
+  const listIdentifier = next(isUniversal(TAG_OCTET_STRING));
+  const sequenceNumber = next(isUniversal(TAG_INTEGER));
+  const thisUpdate = next(isTime);
+  const nextUpdate = next(isTime);
+  const algorithm = next(isUniversal(TAG_SEQUENCE));
+  const subjects = next(isUniversal(TAG_SEQUENCE));
+  const extensions = next(element => element.cls === "context" && element.tag === 0);
+  if (!usage) warnings.push("Certificate trust list has no subject usage.");
+  if (!thisUpdate) warnings.push("Certificate trust list has no thisUpdate time.");
+  if (index < children.length) warnings.push("Certificate trust list has unexpected trailing fields.");
+  const subjectAlgorithm = parseAlgorithmIdentifier(bytes, algorithm, warnings, describeOid);
+  return {
+    version,
+    subjectUsage: describeOids(bytes, usage),
+    listIdentifier: listIdentifier ? bytesToHex(contentOf(bytes, listIdentifier)) : null,
+    sequenceNumber: sequenceNumber ? bytesToHex(contentOf(bytes, sequenceNumber)) : null,
+    thisUpdate: (thisUpdate && parseDerTime(bytes, thisUpdate)) ?? null,
+    nextUpdate: (nextUpdate && parseDerTime(bytes, nextUpdate)) ?? null,
+    subjectAlgorithm: subjectAlgorithm.name ?? subjectAlgorithm.oid ?? null,
+    members: subjects
+      ? readDerChildren(bytes, subjects).flatMap(subject => parseMember(bytes, subject, warnings) ?? [])
+      : [],
+    attributes: extensions ? parseExtensions(bytes, extensions) : []
+  };
+};
@@ -0,0 +1,61 @@
+"use strict";
+
+import { decodePkcs7 } from "../pe/authenticode/index.js";
+import { readPkcs7SignedContent } from "../pe/authenticode/pkcs7.js";
+import { CERTIFICATE_TRUST_LIST_OID } from "../pe/authenticode/pkcs7-oids.js";
+import { verifyPkcs7Signatures } from "../pe/authenticode/pkijs.js";
+import {
+  authenticodeTrustStoreSnapshot,
+  type AuthenticodeTrustStoreSnapshot
+} from "../pe/authenticode/trust-store.js";
+import { parseCertificateTrustList } from "./ctl.js";
+import { describeCatalogTrust } from "./trust.js";
+import type { CatalogParseResult } from "./types.js";
+
+// DER OBJECT IDENTIFIER encodings of PKCS#7 signedData and szOID_CTL.
+const SIGNED_DATA_OID_BYTES = [0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x07, 0x02];
+const CTL_OID_BYTES = [0x06, 0x09, 0x2b, 0x06, 0x01, 0x04, 0x01, 0x82, 0x37, 0x0a, 0x01];
+// Both OIDs sit ahead of the certificates, within the first few dozen bytes of a catalog.
+const SIGNATURE_SEARCH_BYTES = 96;
+
+const indexOfBytes = (view: DataView, pattern: readonly number[], limit: number): number => {
+  const end = Math.min(view.byteLength, limit) - pattern.length;
+  for (let offset = 0; offset <= end; offset += 1) {
+    if (pattern.every((byte, index) => view.getUint8(offset + index) === byte)) return offset;
+  }
+  return -1;
+};
+
+// Windows security catalog (.cat): a PKCS#7 SignedData whose content is a certificate trust list.
+export const hasCatalogSignature = (view: DataView): boolean => {
+  if (view.byteLength < 2 || view.getUint8(0) !== 0x30) return false;
+  const signedData = indexOfBytes(view, SIGNED_DATA_OID_BYTES, SIGNATURE_SEARCH_BYTES);
+  return signedData >= 0 && indexOfBytes(view, CTL_OID_BYTES, SIGNATURE_SEARCH_BYTES) > signedData;
+};
+
+export const parseCatalog = async (
+  file: File,
+  trustStore: AuthenticodeTrustStoreSnapshot = authenticodeTrustStoreSnapshot
+): Promise<CatalogParseResult | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const signature = decodePkcs7(bytes);
+  const { contentType, content } = readPkcs7SignedContent(bytes);
+  if (contentType !== CERTIFICATE_TRUST_LIST_OID || !content) return null;
+  const warnings: string[] = [...(signature.warnings ?? [])];
+  const list = parseCertificateTrustList(content, warnings);
+  if (!list) return null;
+  let verification: CatalogParseResult["verification"] = null;
+  try {
+    verification = await verifyPkcs7Signatures(bytes, trustStore);
+  } catch (error) {
+    warnings.push(`Catalog signature verification failed: ${String(error)}`);
+  }
+  return {
+    size: file.size,
+    signature,
+    ...list,
+    verification,
+    trust: describeCatalogTrust(verification),
+    warnings
+  };
+};
@@ -0,0 +1,59 @@
+"use strict";
+
+import { createFileRangeReader } from "../file-range-reader.js";
+import { isPeWindowsCore, parsePeHeaders } from "../pe/core/index.js";
+import { computePeAuthenticodeDigest } from "../pe/authenticode/digest.js";
+import type { AuthenticodeDigestAlgorithm } from "../pe/authenticode/digest-algorithms.js";
+import type { CatalogMatch, CatalogMember, CatalogParseResult, LoadedCatalog } from "./types.js";
+
+export type CatalogDigests = ReadonlyMap<AuthenticodeDigestAlgorithm, string>;
+
+// Members without SPC_INDIRECT_DATA only carry their hash in the tag, so its length names the algorithm.
+const TAG_ALGORITHMS_BY_LENGTH: Readonly<Record<number, AuthenticodeDigestAlgorithm>> = {
+  40: "SHA-1",
+  64: "SHA-256"
+};
+
+const memberAlgorithm = (member: CatalogMember): AuthenticodeDigestAlgorithm | null =>
+  member.digestAlgorithm ?? (/^[0-9a-f]+$/i.test(member.tag) ? TAG_ALGORITHMS_BY_LENGTH[member.tag.length] : null) ?? null;
+
+const memberDigest = (member: CatalogMember): string => (member.digest ?? member.tag).toLowerCase();
+
+// Digest algorithms the catalogs list members under, in first-seen order.
+export const listCatalogDigestAlgorithms = (
+  catalogs: readonly CatalogParseResult[]
+): AuthenticodeDigestAlgorithm[] => [
+  ...new Set(catalogs.flatMap(catalog => catalog.members.flatMap(member => memberAlgorithm(member) ?? [])))
+];
+
+export const findCatalogMember = (catalog: CatalogParseResult, digests: CatalogDigests): CatalogMember | null =>
+  catalog.members.find(member => {
+    const algorithm = memberAlgorithm(member);
+    return algorithm != null && digests.get(algorithm)?.toLowerCase() === memberDigest(member);
+  }) ?? null;
+
+export const findCatalogMatches = (
+  catalogs: readonly LoadedCatalog[],
+  digests: CatalogDigests
+): CatalogMatch[] =>
+  catalogs.flatMap(source => {
+    const member = findCatalogMember(source.catalog, digests);
+    return member ? [{ source, member }] : [];
+  });
+
+// Authenticode digests of a PE image as a catalog lists it; null when the file is not a Windows PE.
+export const computePeCatalogDigests = async (
+  file: File,
+  algorithms: readonly AuthenticodeDigestAlgorithm[]
+): Promise<Map<AuthenticodeDigestAlgorithm, string> | null> => {
+  const reader = createFileRangeReader(file, 0, file.size);
+  const core = await parsePeHeaders(reader);
+  if (!core || !isPeWindowsCore(core)) return null;
+  const securityDir = core.dataDirs.find(directory => directory.name === "SECURITY");
+  const digests = new Map<AuthenticodeDigestAlgorithm, string>();
+  for (const algorithm of algorithms) {
+    const digest = await computePeAuthenticodeDigest(reader, core, securityDir, algorithm);
+    if (digest) digests.set(algorithm, digest);
+  }
+  return digests;
+};
@@ -0,0 +1,46 @@
+"use strict";
+
+import type { AuthenticodeVerificationInfo } from "../pe/authenticode/index.js";
+import type { CatalogTrust } from "./types.js";
+
+const signerPathIndexes = (verification: AuthenticodeVerificationInfo): number[] =>
+  (verification.signerVerifications ?? []).flatMap(signer => [
+    ...(signer.signerCertificateIndex != null ? [signer.signerCertificateIndex] : []),
+    ...(signer.certificatePathIndexes ?? [])
+  ]);
+
+// A catalog vouches for its members only when every signer verifies, no check failed and a signer
+// chain reaches a root in the bundled trust store; revocation is not checked.
+export const describeCatalogTrust = (verification: AuthenticodeVerificationInfo | null): CatalogTrust => {
+  const signers = verification?.signerVerifications ?? [];
+  if (!verification || !signers.length) return { status: "invalid", reason: "The catalog has no signer." };
+  const unverified = signers.find(signer => signer.signatureVerified !== true);
+  if (unverified) {
+    return {
+      status: "invalid",
+      reason: `Signer ${unverified.index + 1}: CMS signature does not verify` +
+        (unverified.message ? ` (${unverified.message}).` : ".")
+    };
+  }
+  const failed = verification.checks?.find(check => check.status === "fail");
+  if (failed) return { status: "untrusted", reason: `Failed check: ${failed.title}.` };
+  const certificates = verification.trustPolicy?.certificates ?? [];
+  const path = new Set(signerPathIndexes(verification));
+  const revoked = certificates.find(certificate => certificate.status === "revoked");
+  if (revoked) {
+    return { status: "untrusted", reason: `Certificate ${revoked.certificateIndex + 1} is on the disallowed list.` };
+  }
+  const anchored = certificates.find(certificate =>
+    certificate.status === "trusted" && path.has(certificate.certificateIndex));
+  if (!anchored) {
+    return {
+      status: "untrusted",
+      reason: "The signature verifies but its chain does not reach a root in the bundled trust store."
+    };
+  }
+  return {
+    status: "trusted",
+    reason: "The signature verifies and chains to " +
+      (anchored.anchorSubject ?? `certificate ${anchored.certificateIndex + 1}`) + "."
+  };
+};
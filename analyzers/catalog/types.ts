@@ -0,0 +1,63 @@
+"use strict";
+
+import type { AuthenticodeInfo, AuthenticodeVerificationInfo } from "../pe/authenticode/index.js";
+import type { AuthenticodeDigestAlgorithm } from "../pe/authenticode/digest-algorithms.js";
+
+// CAT_NAMEVALUE pair such as "File" = "driver.sys" or "OSAttr" = "2:10.0".
+export interface CatalogAttribute {
+  name: string;
+  value: string;
+  flags: number | null;
+}
+
+// One TrustedSubject of the certificate trust list.
+export interface CatalogMember {
+  // subjectIdentifier as makecat writes it: the member hash as UTF-16 hex text, or raw bytes in hex.
+  tag: string;
+  // SPC_INDIRECT_DATA digest; for PE images this is the Authenticode digest, otherwise the flat file hash.
+  digestAlgorithm: AuthenticodeDigestAlgorithm | null;
+  digest: string | null;
+  // SpcAttributeTypeAndOptionalValue type, e.g. SPC_PE_IMAGE_DATA.
+  subjectType: string | null;
+  // Subject interface package GUID from CAT_MEMBERINFO.
+  memberGuid: string | null;
+  attributes: CatalogAttribute[];
+}
+
+export type CatalogTrustStatus = "trusted" | "untrusted" | "invalid";
+
+export interface CatalogTrust {
+  status: CatalogTrustStatus;
+  reason: string;
+}
+
+export interface CatalogParseResult {
+  size: number;
+  // PKCS#7 envelope: digest algorithms, signers and embedded certificates.
+  signature: AuthenticodeInfo;
+  version: number | null;
+  subjectUsage: string[];
+  listIdentifier: string | null;
+  sequenceNumber: string | null;
+  thisUpdate: string | null;
+  nextUpdate: string | null;
+  subjectAlgorithm: string | null;
+  members: CatalogMember[];
+  // Catalog-wide CAT_NAMEVALUE extensions such as "HWID1" or "OS".
+  attributes: CatalogAttribute[];
+  verification: AuthenticodeVerificationInfo | null;
+  trust: CatalogTrust;
+  warnings: string[];
+}
+
+// A catalog loaded into the session so opened PE images can be checked against it.
+export interface LoadedCatalog {
+  id: string;
+  name: string;
+  catalog: CatalogParseResult;
+}
+
+export interface CatalogMatch {
+  source: LoadedCatalog;
+  member: CatalogMember;
+}
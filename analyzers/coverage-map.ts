@@ -0,0 +1,64 @@
+"use strict";
+
+import type { FileRangeReader } from "./file-range-reader.js";
+import { normalizeFileRanges, subtractFileRanges, type FileRange } from "./pe/layout/file-ranges.js";
+import type { StructureRange } from "./structure-map/index.js";
+
+// A gap between the structures the analyzer interpreted. Gaps of zero bytes only are alignment
+// or slack padding; anything else is listed as unexplained.
+export interface CoverageRegion {
+  start: number;
+  end: number;
+  zeroFilled: boolean;
+}
+
+export interface CoverageMap {
+  fileSize: number;
+  explainedBytes: number;
+  paddingBytes: number;
+  unexplainedBytes: number;
+  regions: CoverageRegion[];
+}
+
+export interface CoverageMapOptions {
+  isCurrent?: () => boolean;
+}
+
+const ZERO_CHECK_CHUNK_BYTES = 1024 * 1024;
+
+const sumLengths = (ranges: readonly FileRange[]): number =>
+  ranges.reduce((total, range) => total + (range.end - range.start), 0);
+
+const isZeroFilled = async (reader: FileRangeReader, range: FileRange): Promise<boolean> => {
+  for (let start = range.start; start < range.end; start += ZERO_CHECK_CHUNK_BYTES) {
+    const view = await reader.read(start, Math.min(ZERO_CHECK_CHUNK_BYTES, range.end - start));
+    const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+    if (bytes.some(byte => byte !== 0)) return false;
+  }
+  return true;
+};
+
+// The PE overlay subtraction (subtractExplainedPeOverlay) applied to the whole file: every byte
+// outside the described structures is a gap, and only gaps that are not all zero are unexplained.
+export const calculateCoverageMap = async (
+  reader: FileRangeReader,
+  structures: readonly StructureRange[],
+  options: CoverageMapOptions = {}
+): Promise<CoverageMap | null> => {
+  const explained = normalizeFileRanges(structures
+    .filter(range => !range.unexplained)
+    .map(range => ({ start: Math.max(0, range.start), end: Math.min(reader.size, range.end) })));
+  const regions: CoverageRegion[] = [];
+  for (const gap of subtractFileRanges([{ start: 0, end: reader.size }], explained)) {
+    if (options.isCurrent && !options.isCurrent()) return null;
+    regions.push({ ...gap, zeroFilled: await isZeroFilled(reader, gap) });
+  }
+  const paddingBytes = sumLengths(regions.filter(region => region.zeroFilled));
+  return {
+    fileSize: reader.size,
+    explainedBytes: sumLengths(explained),
+    paddingBytes,
+    unexplainedBytes: sumLengths(regions) - paddingBytes,
+    regions
+  };
+};
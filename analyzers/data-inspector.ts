@@ -0,0 +1,67 @@
+"use strict";
+
+import { filetimeToIso, guidToString } from "./asf/shared.js";
+import { formatDosDateTime } from "./rar/utils.js";
+
+export type DataInspectorEntry = {
+  label: string;
+  // null when fewer bytes remain before the end of the file than the type needs.
+  value: string | null;
+};
+
+// Enough for every decoded type: GUID is 16 bytes and a 64-bit LEB128 value needs at most 10.
+export const DATA_INSPECTOR_BYTE_LENGTH = 16;
+
+const LEB128_MAX_BYTES = 10;
+
+const readLeb128 = (
+  bytes: Uint8Array,
+  signed: boolean
+): { value: bigint; size: number } | null => {
+  let value = 0n;
+  let shift = 0n;
+  for (let index = 0; index < Math.min(bytes.length, LEB128_MAX_BYTES); index += 1) {
+    const byte = bytes[index] ?? 0;
+    value |= BigInt(byte & 0x7f) << shift;
+    shift += 7n;
+    if ((byte & 0x80) === 0) {
+      if (signed && (byte & 0x40) !== 0) value -= 1n << shift;
+      return { value, size: index + 1 };
+    }
+  }
+  return null;
+};
+
+const formatLeb128 = (bytes: Uint8Array, signed: boolean): string | null => {
+  const decoded = readLeb128(bytes, signed);
+  return decoded ? `${decoded.value} (${decoded.size} byte${decoded.size === 1 ? "" : "s"})` : null;
+};
+
+const formatFiletime = (value: bigint): string =>
+  value === 0n ? "0 (not set)" : filetimeToIso(value) ?? `${value} (out of range)`;
+
+// `bytes` starts at the cursor; every value is decoded from its first byte.
+export const inspectData = (bytes: Uint8Array, littleEndian: boolean): DataInspectorEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ifAvailable = (size: number, decode: () => string): string | null =>
+    view.byteLength >= size ? decode() : null;
+  return [
+    { label: "Int8", value: ifAvailable(1, () => String(view.getInt8(0))) },
+    { label: "UInt8", value: ifAvailable(1, () => String(view.getUint8(0))) },
+    { label: "Int16", value: ifAvailable(2, () => String(view.getInt16(0, littleEndian))) },
+    { label: "UInt16", value: ifAvailable(2, () => String(view.getUint16(0, littleEndian))) },
+    { label: "Int32", value: ifAvailable(4, () => String(view.getInt32(0, littleEndian))) },
+    { label: "UInt32", value: ifAvailable(4, () => String(view.getUint32(0, littleEndian))) },
+    { label: "Int64", value: ifAvailable(8, () => String(view.getBigInt64(0, littleEndian))) },
+    { label: "UInt64", value: ifAvailable(8, () => String(view.getBigUint64(0, littleEndian))) },
+    { label: "Float32", value: ifAvailable(4, () => String(view.getFloat32(0, littleEndian))) },
+    { label: "Float64", value: ifAvailable(8, () => String(view.getFloat64(0, littleEndian))) },
+    { label: "FILETIME", value: ifAvailable(8, () => formatFiletime(view.getBigUint64(0, littleEndian))) },
+    // MS-DOS packs time in the low word and date in the high word, as ZIP and RAR headers store it.
+    { label: "DOS date/time", value: ifAvailable(4, () => formatDosDateTime(view.getUint32(0, littleEndian))) },
+    // Windows GUID layout: the first three groups are little-endian regardless of the byte-order toggle.
+    { label: "GUID", value: ifAvailable(16, () => guidToString(view, 0) ?? "") },
+    { label: "ULEB128", value: formatLeb128(bytes, false) },
+    { label: "SLEB128", value: formatLeb128(bytes, true) }
+  ];
+};
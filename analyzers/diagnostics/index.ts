@@ -0,0 +1,166 @@
+"use strict";
+
+import type { AnalyzerName } from "../analyzer-types.js";
+import { SPEC_REFERENCES } from "./spec-references.js";
+
+export type DiagnosticSeverity = "info" | "warning" | "error";
+
+export const DIAGNOSTIC_SEVERITIES: readonly DiagnosticSeverity[] = ["error", "warning", "info"];
+
+export interface Diagnostic {
+  // Stable identifier: the analyzer plus the message with its variable parts (numbers, names,
+  // quoted values) removed, e.g. "zip.central-directory-entry-truncated".
+  code: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  // Field of the parse result that reported it, e.g. "entries[3].issues".
+  source: string;
+  offset?: number;
+  length?: number;
+  specReference?: string;
+}
+
+// A diagnostic an analyzer records itself, with a code of its own and the bytes concerned, next to
+// the message lists its renderer shows; collectDiagnostics adds the source and spec reference.
+export type ReportedDiagnostic = Omit<Diagnostic, "source" | "specReference">;
+
+// The issue messages a migrated analyzer shows and the diagnostics recorded with them.
+export interface DiagnosticLog {
+  issues: string[];
+  diagnostics: ReportedDiagnostic[];
+}
+
+export const reportDiagnostic = (log: DiagnosticLog, diagnostic: ReportedDiagnostic): void => {
+  log.issues.push(diagnostic.message);
+  log.diagnostics.push(diagnostic);
+};
+
+// Analyzers report problems as string arrays under these keys; the key sets the default severity.
+const MESSAGE_FIELDS: Readonly<Record<string, DiagnosticSeverity>> = {
+  issues: "warning",
+  warnings: "warning",
+  sectionWarnings: "warning",
+  optionalHeaderWarnings: "warning",
+  previewIssues: "warning",
+  notes: "info"
+};
+
+// Problems that mean part of the file could not be parsed at all.
+const ERROR_PATTERN =
+  /truncated|beyond the (?:end|file)|past the end|outside the file|exceeds the file|could not be (?:read|parsed)|cannot be read/i;
+
+const OFFSET_KEYS = ["offset", "fileOffset", "headerOffset", "localHeaderOffset"] as const;
+const LENGTH_KEYS = ["size", "length", "byteLength"] as const;
+const MESSAGE_OFFSET_PATTERN = /\b(?:at|offset)\s+(0x[0-9a-f]+|\d+)\b/i;
+const STOP_WORDS = new Set(["a", "an", "the", "is", "are", "was", "of", "to", "in", "for", "and", "or", "due", "be"]);
+const CODE_WORDS = 6;
+const MAX_VISITED_NODES = 500_000;
+const MAX_DIAGNOSTICS = 5_000;
+
+type Visit = { value: unknown; path: string };
+
+const toOffset = (value: unknown): number | null => {
+  const number = typeof value === "bigint" ? Number(value) : value;
+  return typeof number === "number" && Number.isSafeInteger(number) && number >= 0 ? number : null;
+};
+
+const firstNumericField = (owner: Record<string, unknown>, keys: readonly string[]): number | null => {
+  for (const key of keys) {
+    const value = toOffset(owner[key]);
+    if (value != null) return value;
+  }
+  return null;
+};
+
+export const diagnosticCode = (analyzer: string, message: string): string => {
+  const words = message
+    .replace(/(["'`]).*?\1/g, " ")
+    .split(/\s+/)
+    .map(word => word.replace(/[,.:;!?()]+$/g, "").replace(/^\(+/, "").toLowerCase())
+    .filter(word => /^[a-z][a-z-]*$/.test(word) && !STOP_WORDS.has(word))
+    .slice(0, CODE_WORDS);
+  return `${analyzer}.${words.join("-") || "message"}`;
+};
+
+const classify = (message: string, field: string): DiagnosticSeverity => {
+  const severity = MESSAGE_FIELDS[field] ?? "warning";
+  return severity === "warning" && ERROR_PATTERN.test(message) ? "error" : severity;
+};
+
+// The bytes a message is about: an offset quoted in the message, otherwise the offset and size
+// of the structure whose issue list holds it.
+const locate = (message: string, owner: Record<string, unknown>): Pick<Diagnostic, "offset" | "length"> => {
+  const quoted = MESSAGE_OFFSET_PATTERN.exec(message)?.[1];
+  if (quoted) return { offset: Number(quoted) };
+  const offset = firstNumericField(owner, OFFSET_KEYS);
+  if (offset == null) return {};
+  const length = firstNumericField(owner, LENGTH_KEYS);
+  return length ? { offset, length } : { offset };
+};
+
+const isPlainContainer = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !ArrayBuffer.isView(value) &&
+  !(value instanceof ArrayBuffer) && !(value instanceof Map) && !(value instanceof Set);
+
+const reportedDiagnostics = (parsed: unknown): ReportedDiagnostic[] => {
+  const reported = isPlainContainer(parsed) ? parsed["diagnostics"] : null;
+  return Array.isArray(reported) ? (reported as ReportedDiagnostic[]) : [];
+};
+
+// Diagnostics the analyzer reported itself come first, as recorded. Every other message is then
+// recovered from the parse result's message lists, for analyzers (and parts of analyzers) that do
+// not report diagnostics yet: the result is walked breadth first so top-level messages come before
+// nested ones, and the same message reported for the same bytes twice (e.g. merged PE warnings)
+// is kept once.
+export const collectDiagnostics = (analyzer: AnalyzerName, parsed: unknown): Diagnostic[] => {
+  const reported = reportedDiagnostics(parsed).slice(0, MAX_DIAGNOSTICS);
+  const diagnostics: Diagnostic[] = reported.map(diagnostic => ({
+    ...diagnostic,
+    source: "diagnostics",
+    specReference: SPEC_REFERENCES[analyzer]
+  }));
+  const reportedMessages = new Set(reported.map(diagnostic => diagnostic.message));
+  const seen = new Set<string>();
+  const queue: Visit[] = [{ value: parsed, path: "" }];
+  for (let index = 0; index < queue.length && index < MAX_VISITED_NODES; index += 1) {
+    const { value, path } = queue[index]!;
+    if (Array.isArray(value)) {
+      value.forEach((item, itemIndex) => {
+        if (isPlainContainer(item)) queue.push({ value: item, path: `${path}[${itemIndex}]` });
+      });
+      continue;
+    }
+    if (!isPlainContainer(value)) continue;
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (childPath === "diagnostics") continue;
+      if (Object.hasOwn(MESSAGE_FIELDS, key) && Array.isArray(child)) {
+        for (const message of child) {
+          if (typeof message !== "string" || diagnostics.length >= MAX_DIAGNOSTICS) continue;
+          if (reportedMessages.has(message)) continue;
+          const location = locate(message, value);
+          const dedupeKey = `${message}\u0000${location.offset ?? ""}`;
+          if (seen.has(dedupeKey)) continue;
+          seen.add(dedupeKey);
+          diagnostics.push({
+            code: diagnosticCode(analyzer, message),
+            severity: classify(message, key),
+            message,
+            source: childPath,
+            ...location,
+            specReference: SPEC_REFERENCES[analyzer]
+          });
+        }
+      } else if (isPlainContainer(child)) {
+        queue.push({ value: child, path: childPath });
+      }
+    }
+  }
+  return diagnostics;
+};
+
+export const countDiagnostics = (diagnostics: readonly Diagnostic[]): Record<DiagnosticSeverity, number> => {
+  const counts: Record<DiagnosticSeverity, number> = { error: 0, warning: 0, info: 0 };
+  diagnostics.forEach(diagnostic => { counts[diagnostic.severity] += 1; });
+  return counts;
+};
@@ -0,0 +1,43 @@
+"use strict";
+
+import type { AnalyzerName } from "../analyzer-types.js";
+
+// The document each analyzer follows; diagnostics cite it so a finding can be checked against
+// the format definition rather than against this parser.
+export const SPEC_REFERENCES: Readonly<Record<AnalyzerName, string>> = {
+  lnk: "[MS-SHLLINK] Shell Link (.LNK) Binary File Format",
+  sqlite: "SQLite Database File Format (sqlite.org/fileformat2.html)",
+  elf: "System V ABI, Generic ELF Object File Format",
+  macho: "Apple Mach-O file format (mach-o/loader.h)",
+  coff: "Microsoft PE/COFF Specification, COFF File Header",
+  pe: "Microsoft PE/COFF Specification",
+  catalog: "RFC 2315 PKCS #7 SignedData carrying a Microsoft certificate trust list (mscat.h)",
+  pdb: "Microsoft PDB MSF 7.00 container (microsoft-pdb, LLVM PDB file format documentation)",
+  mz: "MS-DOS EXE header (Microsoft PE/COFF Specification, MS-DOS Stub)",
+  fb2: "FictionBook 2.0 schema",
+  gif: "GIF89a Specification",
+  sevenZip: "7-Zip 7z format (7zFormat.txt)",
+  rar: "RAR archive format (RAR 4.x technote, RAR 5.0 archive format)",
+  tar: "POSIX.1-2017 pax / ustar interchange format",
+  gzip: "RFC 1952, GZIP file format",
+  zip: "PKWARE APPNOTE.TXT",
+  iso9660: "ECMA-119 (ISO 9660)",
+  pdf: "ISO 32000-1, Portable Document Format",
+  png: "W3C Portable Network Graphics (PNG) Specification",
+  bmp: "Microsoft BITMAPFILEHEADER / BITMAPINFOHEADER",
+  tga: "Truevision TGA File Format Specification v2.0",
+  jpeg: "ITU-T T.81 (JPEG) and JFIF 1.02",
+  webp: "WebP Container Specification (RIFF)",
+  webm: "WebM Container Guidelines and RFC 9559 (Matroska)",
+  mkv: "RFC 9559, Matroska Media Container",
+  mp3: "ISO/IEC 11172-3 and ID3v2.4",
+  flac: "RFC 9639, Free Lossless Audio Codec",
+  mp4: "ISO/IEC 14496-12, ISO Base Media File Format",
+  mpegps: "ISO/IEC 13818-1, MPEG-2 Program Stream",
+  pcap: "draft-ietf-opsawg-pcap, PCAP Capture File Format",
+  pcapng: "draft-ietf-opsawg-pcapng, PCAP Next Generation Dump File Format",
+  wav: "Microsoft RIFF WAVE (Multimedia Programming Interface and Data Specifications 1.0)",
+  avi: "Microsoft AVI RIFF File Reference",
+  ani: "Microsoft RIFF ANI (animated cursor) format",
+  asf: "Advanced Systems Format (ASF) Specification"
+};
@@ -0,0 +1,60 @@
+"use strict";
+
+import { createFileRangeReader } from "../file-range-reader.js";
+import type { ByteDiffRange, ByteDiffSummary } from "./types.js";
+
+export const BYTE_DIFF_CHUNK_BYTES = 1024 * 1024;
+export const BYTE_DIFF_RANGE_LIMIT = 1000;
+
+type ByteDiffOptions = {
+  signal?: AbortSignal;
+  onProgress?: (comparedBytes: number, totalBytes: number) => void;
+};
+
+// Compares the common prefix of both files chunk by chunk and records the differing runs.
+export const compareFileBytes = async (
+  left: File,
+  right: File,
+  options: ByteDiffOptions = {}
+): Promise<ByteDiffSummary> => {
+  const leftReader = createFileRangeReader(left, 0, left.size, 0);
+  const rightReader = createFileRangeReader(right, 0, right.size, 0);
+  const commonSize = Math.min(left.size, right.size);
+  const changedRanges: ByteDiffRange[] = [];
+  let changedRangeCount = 0;
+  let changedBytes = 0;
+  let openRangeStart: number | null = null;
+  const closeRange = (end: number): void => {
+    if (openRangeStart == null) return;
+    changedRangeCount += 1;
+    if (changedRanges.length < BYTE_DIFF_RANGE_LIMIT) changedRanges.push({ start: openRangeStart, end });
+    openRangeStart = null;
+  };
+  for (let offset = 0; offset < commonSize; offset += BYTE_DIFF_CHUNK_BYTES) {
+    options.signal?.throwIfAborted();
+    const length = Math.min(BYTE_DIFF_CHUNK_BYTES, commonSize - offset);
+    const [leftBytes, rightBytes] = await Promise.all([
+      leftReader.readBytes(offset, length),
+      rightReader.readBytes(offset, length)
+    ]);
+    for (let index = 0; index < length; index += 1) {
+      if (leftBytes[index] === rightBytes[index]) {
+        closeRange(offset + index);
+        continue;
+      }
+      changedBytes += 1;
+      openRangeStart ??= offset + index;
+    }
+    options.onProgress?.(offset + length, commonSize);
+  }
+  closeRange(commonSize);
+  return {
+    comparedBytes: commonSize,
+    identicalBytes: commonSize - changedBytes,
+    changedBytes,
+    leftOnlyBytes: left.size - commonSize,
+    rightOnlyBytes: right.size - commonSize,
+    changedRanges,
+    changedRangeCount
+  };
+};
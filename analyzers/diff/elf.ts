@@ -0,0 +1,82 @@
+"use strict";
+
+import { toHex32, toHex64 } from "../../binary-utils.js";
+import type { ElfDynamicSymbol, ElfParseResult } from "../elf/types.js";
+import type { FileRangeReader } from "../file-range-reader.js";
+import { createFactTable, hashFileRange } from "./facts.js";
+import type { DiffFactTable } from "./types.js";
+
+type Fact = readonly [string, string];
+
+// ELF gABI: SHT_NOBITS sections occupy no file space, so there is nothing to hash.
+const SHT_NOBITS = 8;
+
+const headerFacts = (elf: ElfParseResult): Fact[] => [
+  ["Class", elf.ident.className],
+  ["Data encoding", elf.ident.dataName],
+  ["OS/ABI", `${elf.ident.osabi} (ABI version ${elf.ident.abiVersion})`],
+  ["Type", elf.header.typeName ?? toHex32(elf.header.type, 4)],
+  ["Machine", elf.header.machineName ?? toHex32(elf.header.machine, 4)],
+  ["Entry point", toHex64(elf.header.entry)],
+  ["Flags", toHex32(elf.header.flags, 8)],
+  ["Program headers", String(elf.header.phnum)],
+  ["Section headers", String(elf.header.shnum)],
+  ...(elf.interpreter ? [["Interpreter", elf.interpreter.path] as Fact] : [])
+];
+
+const segmentFacts = (elf: ElfParseResult): Fact[] =>
+  elf.programHeaders.map((segment): Fact => [
+    `${segment.index}: ${segment.typeName ?? toHex32(segment.type, 8)}`,
+    `offset ${toHex64(segment.offset)}, vaddr ${toHex64(segment.vaddr)}, ` +
+    `file ${segment.filesz} bytes, memory ${segment.memsz} bytes, ${segment.flagNames.join("") || "no flags"}`
+  ]);
+
+const sectionKey = (section: ElfParseResult["sections"][number]): string => section.name || `#${section.index}`;
+
+const sectionFacts = (elf: ElfParseResult): Fact[] =>
+  elf.sections.filter(section => section.index !== 0).map((section): Fact => [
+    sectionKey(section),
+    `${section.typeName ?? toHex32(section.type, 8)}, addr ${toHex64(section.addr)}, ` +
+    `${section.size} bytes, flags ${section.flagNames.join(" ") || "none"}`
+  ]);
+
+const sectionHashFacts = async (reader: FileRangeReader, elf: ElfParseResult): Promise<Fact[]> =>
+  Promise.all(elf.sections
+    .filter(section => section.index !== 0 && section.type !== SHT_NOBITS)
+    .map(async (section): Promise<Fact> => [
+      sectionKey(section),
+      await hashFileRange(reader, Number(section.offset), Number(section.size))
+    ]));
+
+const dynamicFacts = (elf: ElfParseResult): Fact[] => {
+  const dynamic = elf.dynamic;
+  if (!dynamic) return [];
+  return [
+    ...dynamic.needed.map((library): Fact => [`NEEDED ${library}`, "needed"]),
+    ...(dynamic.soname != null ? [["SONAME", dynamic.soname] as Fact] : []),
+    ...(dynamic.rpath != null ? [["RPATH", dynamic.rpath] as Fact] : []),
+    ...(dynamic.runpath != null ? [["RUNPATH", dynamic.runpath] as Fact] : []),
+    ...(dynamic.flags != null ? [["FLAGS", toHex32(dynamic.flags, 8)] as Fact] : []),
+    ...(dynamic.flags1 != null ? [["FLAGS_1", toHex32(dynamic.flags1, 8)] as Fact] : [])
+  ];
+};
+
+const symbolFact = (direction: string, symbol: ElfDynamicSymbol): Fact => [
+  symbol.name || `#${symbol.index}`,
+  `${direction}, ${symbol.typeName} ${symbol.bindName} ${symbol.visibilityName}` +
+  (direction === "export" ? `, ${symbol.size} bytes` : "")
+];
+
+const symbolFacts = (elf: ElfParseResult): Fact[] => [
+  ...(elf.dynSymbols?.importSymbols ?? []).map(symbol => symbolFact("import", symbol)),
+  ...(elf.dynSymbols?.exportSymbols ?? []).map(symbol => symbolFact("export", symbol))
+];
+
+export const describeElfFacts = async (reader: FileRangeReader, elf: ElfParseResult): Promise<DiffFactTable[]> => [
+  createFactTable("Headers", headerFacts(elf)),
+  createFactTable("Segments", segmentFacts(elf)),
+  createFactTable("Sections", sectionFacts(elf)),
+  createFactTable("Section SHA-256", await sectionHashFacts(reader, elf)),
+  createFactTable("Dynamic entries", dynamicFacts(elf)),
+  createFactTable("Dynamic symbols", symbolFacts(elf))
+];
@@ -0,0 +1,35 @@
+"use strict";
+
+import { bufferToHex } from "../../binary-utils.js";
+import type { FileRangeReader } from "../file-range-reader.js";
+import type { DiffFactTable } from "./types.js";
+
+// Hashing reads the whole range into memory; larger sections are compared by size only.
+const MAX_HASHED_RANGE_BYTES = 64 * 1024 * 1024;
+
+// Repeated keys (two sections with the same name, overloaded imports) get an occurrence suffix
+// so the n-th entry on one side is compared with the n-th entry on the other.
+export const createFactTable = (
+  title: string,
+  entries: Iterable<readonly [string, string]>
+): DiffFactTable => {
+  const facts = new Map<string, string>();
+  for (const [key, value] of entries) {
+    let uniqueKey = key;
+    for (let occurrence = 2; facts.has(uniqueKey); occurrence += 1) uniqueKey = `${key} #${occurrence}`;
+    facts.set(uniqueKey, value);
+  }
+  return { title, facts };
+};
+
+export const hashFileRange = async (
+  reader: FileRangeReader,
+  offset: number,
+  size: number
+): Promise<string> => {
+  if (!Number.isSafeInteger(offset) || !Number.isSafeInteger(size) || size <= 0) return "empty";
+  if (size > MAX_HASHED_RANGE_BYTES) return "not hashed (too large)";
+  const bytes = await reader.readBytes(offset, size);
+  const digest = bufferToHex(await crypto.subtle.digest("SHA-256", new Uint8Array(bytes)));
+  return bytes.length < size ? `${digest} (truncated)` : digest;
+};
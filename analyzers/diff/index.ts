@@ -0,0 +1,57 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzer-types.js";
+import { createFileRangeReader } from "../file-range-reader.js";
+import { compareFileBytes } from "./byte-ranges.js";
+import { describeElfFacts } from "./elf.js";
+import { diffFactTables } from "./keyed-diff.js";
+import { describeMachOFacts } from "./macho.js";
+import { describePeFacts } from "./pe.js";
+import { compareFileSimilarity } from "./similarity.js";
+import type { DiffFactTable, StructuralDiff } from "./types.js";
+
+type DiffInput = {
+  file: File;
+  result: ParseForUiResult;
+};
+
+type StructuralDiffOptions = {
+  signal?: AbortSignal;
+  onByteProgress?: (comparedBytes: number, totalBytes: number) => void;
+  onSimilarityProgress?: (hashedBytes: number, totalBytes: number) => void;
+};
+
+// Formats without a describer are still compared byte by byte.
+const describeFacts = async ({ file, result }: DiffInput): Promise<DiffFactTable[]> => {
+  const reader = createFileRangeReader(file, 0, file.size);
+  if (result.analyzer === "pe" && result.parsed) return describePeFacts(reader, result.parsed);
+  if (result.analyzer === "elf" && result.parsed) return describeElfFacts(reader, result.parsed);
+  if (result.analyzer === "macho" && result.parsed) return describeMachOFacts(result.parsed);
+  return [];
+};
+
+export const diffParsedFiles = async (
+  left: DiffInput,
+  right: DiffInput,
+  options: StructuralDiffOptions = {}
+): Promise<StructuralDiff> => {
+  const sameFormat = left.result.analyzer != null && left.result.analyzer === right.result.analyzer;
+  const tables = sameFormat
+    ? diffFactTables(await describeFacts(left), await describeFacts(right))
+    : [];
+  options.signal?.throwIfAborted();
+  return {
+    left: { name: left.file.name, size: left.file.size, analyzer: left.result.analyzer },
+    right: { name: right.file.name, size: right.file.size, analyzer: right.result.analyzer },
+    sameFormat,
+    tables,
+    bytes: await compareFileBytes(left.file, right.file, {
+      ...(options.signal ? { signal: options.signal } : {}),
+      ...(options.onByteProgress ? { onProgress: options.onByteProgress } : {})
+    }),
+    similarity: await compareFileSimilarity(left.file, right.file, {
+      ...(options.signal ? { signal: options.signal } : {}),
+      ...(options.onSimilarityProgress ? { onProgress: options.onSimilarityProgress } : {})
+    })
+  };
+};
@@ -0,0 +1,35 @@
+"use strict";
+
+import type { DiffFactTable, DiffRow, DiffStatus, DiffTable } from "./types.js";
+
+const unionInOrder = (left: Iterable<string>, right: Iterable<string>): string[] => [
+  ...new Set([...left, ...right])
+];
+
+const rowStatus = (left: string | undefined, right: string | undefined): DiffStatus => {
+  if (left === undefined) return "added";
+  if (right === undefined) return "removed";
+  return left === right ? "same" : "changed";
+};
+
+const diffFacts = (title: string, left: Map<string, string>, right: Map<string, string>): DiffTable => {
+  const rows: DiffRow[] = unionInOrder(left.keys(), right.keys()).map(key => {
+    const leftValue = left.get(key);
+    const rightValue = right.get(key);
+    return { key, left: leftValue ?? null, right: rightValue ?? null, status: rowStatus(leftValue, rightValue) };
+  });
+  return { title, rows, changedCount: rows.filter(row => row.status !== "same").length };
+};
+
+// Tables are matched by title and entries by key; order follows the left file, then entries
+// that only the right file has.
+export const diffFactTables = (
+  left: readonly DiffFactTable[],
+  right: readonly DiffFactTable[]
+): DiffTable[] => {
+  const empty = new Map<string, string>();
+  const byTitle = (tables: readonly DiffFactTable[], title: string): Map<string, string> =>
+    tables.find(table => table.title === title)?.facts ?? empty;
+  return unionInOrder(left.map(table => table.title), right.map(table => table.title))
+    .map(title => diffFacts(title, byTitle(left, title), byTitle(right, title)));
+};
@@ -0,0 +1,72 @@
+"use strict";
+
+import { toHex32, toHex64 } from "../../binary-utils.js";
+import { N_EXT, N_STAB, N_TYPE, N_UNDF } from "../macho/commands.js";
+import { formatPackedVersion, formatSourceVersion } from "../macho/format.js";
+import { cpuTypeName, fileTypeName } from "../macho/identity-info.js";
+import { dylibCommandKind, loadCommandName, symbolTypeName } from "../macho/load-command-info.js";
+import type { MachOImage, MachOParseResult } from "../macho/types.js";
+import { createFactTable } from "./facts.js";
+import type { DiffFactTable } from "./types.js";
+
+type Fact = readonly [string, string];
+
+const headerFacts = (image: MachOImage): Fact[] => [
+  ["CPU", cpuTypeName(image.header.cputype)],
+  ["CPU subtype", toHex32(image.header.cpusubtype, 8)],
+  ["File type", fileTypeName(image.header.filetype) ?? toHex32(image.header.filetype, 8)],
+  ["Flags", toHex32(image.header.flags, 8)],
+  ["Load commands", `${image.header.ncmds} (${image.header.sizeofcmds} bytes)`],
+  ["UUID", image.uuid ?? "none"],
+  ["Source version", image.sourceVersion ? formatSourceVersion(image.sourceVersion.value) : "none"],
+  ["Entry point", image.entryPoint ? toHex64(image.entryPoint.entryoff) : "none"]
+];
+
+const loadCommandFacts = (image: MachOImage): Fact[] =>
+  image.loadCommands.map((command): Fact => [loadCommandName(command.cmd), `${command.cmdsize} bytes`]);
+
+const segmentFacts = (image: MachOImage): Fact[] =>
+  image.segments.map((segment): Fact => [
+    segment.name || "(unnamed)",
+    `vmaddr ${toHex64(segment.vmaddr)}, vmsize ${segment.vmsize}, ` +
+    `file ${segment.filesize} bytes at ${toHex64(segment.fileoff)}, ${segment.nsects} sections`
+  ]);
+
+const dylibFacts = (image: MachOImage): Fact[] =>
+  image.dylibs.map((dylib): Fact => [
+    dylib.name,
+    `${dylibCommandKind(dylib.command)}, current ${formatPackedVersion(dylib.currentVersion)}, ` +
+    `compatibility ${formatPackedVersion(dylib.compatibilityVersion)}`
+  ]);
+
+// Debugger (STAB) entries change with every build path, so only real symbols are compared.
+const symbolFacts = (image: MachOImage): Fact[] =>
+  (image.symtab?.symbols ?? [])
+    .filter(symbol => (symbol.type & N_STAB) === 0)
+    .map((symbol): Fact => [
+      symbol.name || `#${symbol.index}`,
+      (symbol.type & N_TYPE) === N_UNDF
+        ? "undefined (imported)"
+        : `${symbolTypeName(symbol.type)}, ${(symbol.type & N_EXT) !== 0 ? "external" : "local"}`
+    ]);
+
+const describeImage = (image: MachOImage, suffix: string): DiffFactTable[] => [
+  createFactTable(`Header${suffix}`, headerFacts(image)),
+  createFactTable(`Load commands${suffix}`, loadCommandFacts(image)),
+  createFactTable(`Segments${suffix}`, segmentFacts(image)),
+  createFactTable(`Dylibs${suffix}`, dylibFacts(image)),
+  createFactTable(`Symbols${suffix}`, symbolFacts(image))
+];
+
+// Universal binaries are compared slice by slice, matched by CPU type.
+export const describeMachOFacts = (macho: MachOParseResult): DiffFactTable[] => {
+  if (macho.kind === "thin") return macho.image ? describeImage(macho.image, "") : [];
+  return [
+    createFactTable("Fat slices", macho.slices.map((slice): Fact => [
+      cpuTypeName(slice.cputype),
+      `subtype ${toHex32(slice.cpusubtype, 8)}, ${slice.size} bytes at ${toHex32(slice.offset, 8)}`
+    ])),
+    ...macho.slices.flatMap(slice =>
+      slice.image ? describeImage(slice.image, ` (${cpuTypeName(slice.cputype)})`) : [])
+  ];
+};
@@ -0,0 +1,128 @@
+"use strict";
+
+import { toHex32, toHex64 } from "../../binary-utils.js";
+import type { FileRangeReader } from "../file-range-reader.js";
+import type { AuthenticodeInfo } from "../pe/authenticode/index.js";
+import { isPeWindowsParseResult, type PeParseResult, type PeWindowsParseResult } from "../pe/index.js";
+import { decodePeMachine } from "../pe/machine.js";
+import { peSectionNameValue } from "../pe/sections/name.js";
+import { createFactTable, hashFileRange } from "./facts.js";
+import type { DiffFactTable } from "./types.js";
+
+type Fact = readonly [string, string];
+
+const OPTIONAL_HEADER_KINDS: Readonly<Record<number, string>> = { 0x10b: "PE32", 0x20b: "PE32+", 0x107: "ROM" };
+
+const headerFacts = (pe: PeParseResult): Fact[] => {
+  const facts: Fact[] = [
+    ["Machine", decodePeMachine(pe.coff.Machine).machineName],
+    ["TimeDateStamp", toHex32(pe.coff.TimeDateStamp, 8)],
+    ["Characteristics", toHex32(pe.coff.Characteristics, 4)],
+    ["NumberOfSections", String(pe.coff.NumberOfSections)]
+  ];
+  if (!pe.opt) return facts;
+  facts.push(
+    ["Optional header", OPTIONAL_HEADER_KINDS[pe.opt.Magic] ?? toHex32(pe.opt.Magic, 4)],
+    ["Linker version", `${pe.opt.LinkerMajor}.${pe.opt.LinkerMinor}`],
+    ["AddressOfEntryPoint", toHex32(pe.opt.AddressOfEntryPoint, 8)],
+    ["SizeOfCode", String(pe.opt.SizeOfCode)]
+  );
+  if (!isPeWindowsParseResult(pe)) return facts;
+  const { opt } = pe;
+  facts.push(
+    ["ImageBase", toHex64(opt.ImageBase)],
+    ["SizeOfImage", toHex32(opt.SizeOfImage, 8)],
+    ["SizeOfHeaders", toHex32(opt.SizeOfHeaders, 8)],
+    ["CheckSum", toHex32(opt.CheckSum, 8)],
+    ["Subsystem", `${opt.Subsystem} (version ${opt.SubsystemVersionMajor}.${opt.SubsystemVersionMinor})`],
+    ["DllCharacteristics", toHex32(opt.DllCharacteristics, 4)],
+    ["OS version", `${opt.OSVersionMajor}.${opt.OSVersionMinor}`],
+    ["Image version", `${opt.ImageVersionMajor}.${opt.ImageVersionMinor}`],
+    ...pe.dirs
+      .filter(directory => directory.rva || directory.size)
+      .map((directory): Fact => [
+        `${directory.name} directory`,
+        `${toHex32(directory.rva, 8)}, ${directory.size} bytes`
+      ])
+  );
+  return facts;
+};
+
+const sectionName = (pe: PeParseResult, index: number): string =>
+  peSectionNameValue(pe.sections[index]!.name) || "(unnamed)";
+
+const sectionLayoutFacts = (pe: PeParseResult): Fact[] =>
+  pe.sections.map((section, index): Fact => [
+    sectionName(pe, index),
+    `RVA ${toHex32(section.virtualAddress, 8)}, virtual size ${section.virtualSize}, ` +
+    `raw ${section.sizeOfRawData} bytes at ${toHex32(section.pointerToRawData, 8)}, ` +
+    `characteristics ${toHex32(section.characteristics, 8)}`
+  ]);
+
+const sectionHashFacts = async (reader: FileRangeReader, pe: PeParseResult): Promise<Fact[]> =>
+  Promise.all(pe.sections.map(async (section, index): Promise<Fact> => [
+    sectionName(pe, index),
+    await hashFileRange(reader, section.pointerToRawData, section.sizeOfRawData)
+  ]));
+
+// DLL names are case-insensitive to the Windows loader.
+const importFacts = (pe: PeWindowsParseResult): Fact[] =>
+  pe.imports.entries.flatMap(entry => entry.functions.map((fn): Fact => [
+    `${entry.dll.toLowerCase()}!${fn.name ?? `#${fn.ordinal ?? "?"}`}`,
+    fn.name ? "by name" : "by ordinal"
+  ]));
+
+const exportFacts = (pe: PeWindowsParseResult): Fact[] =>
+  (pe.exports?.entries ?? []).map((entry): Fact => [
+    entry.name ?? `#${entry.ordinal}`,
+    entry.forwarder
+      ? `ordinal ${entry.ordinal}, forwarded to ${entry.forwarder}`
+      : `ordinal ${entry.ordinal}, RVA ${toHex32(entry.rva, 8)}`
+  ]);
+
+const resourceFacts = async (reader: FileRangeReader, pe: PeWindowsParseResult): Promise<Fact[]> =>
+  Promise.all((pe.resources?.detail ?? []).flatMap(group => group.entries.flatMap(entry =>
+    entry.langs.map(async (lang): Promise<Fact> => [
+      `${group.typeName}/${entry.name ?? entry.id ?? "?"}/${lang.lang ?? "neutral"}`,
+      `${lang.size} bytes, SHA-256 ` +
+      (lang.dataFileOffset == null ? "unavailable" : await hashFileRange(reader, lang.dataFileOffset, lang.size))
+    ]))));
+
+const signerFacts = (authenticode: AuthenticodeInfo): Fact[] =>
+  (authenticode.signers ?? []).map((signer): Fact => {
+    const certificate = authenticode.certificates?.find(candidate =>
+      candidate.serialNumber === signer.serialNumber && candidate.issuer === signer.issuer);
+    return [
+      `${signer.issuer ?? "unknown issuer"}, serial ${signer.serialNumber ?? "?"}`,
+      [
+        certificate?.subject ?? "subject not embedded",
+        signer.digestAlgorithmName ?? signer.digestAlgorithm,
+        signer.signingTime ? `signed ${signer.signingTime}` : null
+      ].filter(Boolean).join(", ")
+    ];
+  });
+
+const richHeaderFacts = (pe: PeParseResult): Fact[] =>
+  (pe.dos.rich?.entries ?? []).map((entry): Fact => [
+    `product ${toHex32(entry.productId, 4)}, build ${entry.buildNumber}`,
+    `${entry.count} object${entry.count === 1 ? "" : "s"}`
+  ]);
+
+export const describePeFacts = async (reader: FileRangeReader, pe: PeParseResult): Promise<DiffFactTable[]> => {
+  const tables = [
+    createFactTable("Headers", headerFacts(pe)),
+    createFactTable("Sections", sectionLayoutFacts(pe)),
+    createFactTable("Section SHA-256", await sectionHashFacts(reader, pe))
+  ];
+  if (isPeWindowsParseResult(pe)) {
+    tables.push(
+      createFactTable("Imports", importFacts(pe)),
+      createFactTable("Exports", exportFacts(pe)),
+      createFactTable("Resources", await resourceFacts(reader, pe)),
+      createFactTable("Authenticode signers", (pe.security?.certs ?? []).flatMap(certificate =>
+        certificate.authenticode ? signerFacts(certificate.authenticode) : []))
+    );
+  }
+  tables.push(createFactTable("Rich header", richHeaderFacts(pe)));
+  return tables;
+};
@@ -0,0 +1,55 @@
+"use strict";
+
+import { createFileRangeReader } from "../file-range-reader.js";
+import { compareSsdeep, createSsdeep } from "../hashes/ssdeep.js";
+import { compareTlsh, createTlsh } from "../hashes/tlsh.js";
+import { BYTE_DIFF_CHUNK_BYTES } from "./byte-ranges.js";
+import type { FuzzyHashes, SimilaritySummary } from "./types.js";
+
+type SimilarityOptions = {
+  signal?: AbortSignal;
+  // Counts the bytes of both files, left first.
+  onProgress?: (hashedBytes: number, totalBytes: number) => void;
+};
+
+// Feeds each chunk to both fuzzy hashers, so every file is read once.
+const hashFile = async (
+  file: File,
+  signal: AbortSignal | undefined,
+  onChunk: (length: number) => void
+): Promise<FuzzyHashes> => {
+  const reader = createFileRangeReader(file, 0, file.size, 0);
+  const ssdeep = createSsdeep();
+  const tlsh = createTlsh();
+  for (let offset = 0; offset < file.size; offset += BYTE_DIFF_CHUNK_BYTES) {
+    signal?.throwIfAborted();
+    const bytes = await reader.readBytes(offset, Math.min(BYTE_DIFF_CHUNK_BYTES, file.size - offset));
+    ssdeep.update(bytes);
+    tlsh.update(bytes);
+    onChunk(bytes.length);
+  }
+  return { ssdeep: ssdeep.digest(), tlsh: tlsh.digest() };
+};
+
+// Fuzzy hashes of both files side by side; unlike the byte ranges they still relate files whose
+// content shifted (a recompiled binary, an edited document).
+export const compareFileSimilarity = async (
+  left: File,
+  right: File,
+  options: SimilarityOptions = {}
+): Promise<SimilaritySummary> => {
+  const totalBytes = left.size + right.size;
+  let hashedBytes = 0;
+  const onChunk = (length: number): void => {
+    hashedBytes += length;
+    options.onProgress?.(hashedBytes, totalBytes);
+  };
+  const leftHashes = await hashFile(left, options.signal, onChunk);
+  const rightHashes = await hashFile(right, options.signal, onChunk);
+  return {
+    left: leftHashes,
+    right: rightHashes,
+    ssdeepScore: compareSsdeep(leftHashes.ssdeep, rightHashes.ssdeep),
+    tlshDistance: compareTlsh(leftHashes.tlsh, rightHashes.tlsh)
+  };
+};
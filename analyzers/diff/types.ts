@@ -0,0 +1,73 @@
+"use strict";
+
+import type { AnalyzerName } from "../analyzer-types.js";
+
+// One comparable aspect of a parsed file: keys identify entries (a section name, an imported
+// function), values are the printable facts compared between the two files.
+export type DiffFactTable = {
+  title: string;
+  facts: Map<string, string>;
+};
+
+export type DiffStatus = "same" | "changed" | "added" | "removed";
+
+export type DiffRow = {
+  key: string;
+  left: string | null;
+  right: string | null;
+  status: DiffStatus;
+};
+
+export type DiffTable = {
+  title: string;
+  rows: DiffRow[];
+  changedCount: number;
+};
+
+export type ByteDiffRange = {
+  start: number;
+  end: number;
+};
+
+export type ByteDiffSummary = {
+  comparedBytes: number;
+  identicalBytes: number;
+  changedBytes: number;
+  // Bytes past the end of the shorter file.
+  leftOnlyBytes: number;
+  rightOnlyBytes: number;
+  // Differing runs inside the common prefix, capped at BYTE_DIFF_RANGE_LIMIT.
+  changedRanges: ByteDiffRange[];
+  changedRangeCount: number;
+};
+
+export type FuzzyHashes = {
+  ssdeep: string;
+  tlsh: string;
+};
+
+export type SimilaritySummary = {
+  left: FuzzyHashes;
+  right: FuzzyHashes;
+  // 0 (unrelated) to 100 (identical); null when a signature could not be parsed.
+  ssdeepScore: number | null;
+  // 0 for near-identical files, growing without bound; null when either file is too small or
+  // too uniform for TLSH.
+  tlshDistance: number | null;
+};
+
+export type DiffFileSummary = {
+  name: string;
+  size: number;
+  analyzer: AnalyzerName | null;
+};
+
+export type StructuralDiff = {
+  left: DiffFileSummary;
+  right: DiffFileSummary;
+  // False when the two files were parsed by different analyzers; only bytes are compared then.
+  sameFormat: boolean;
+  tables: DiffTable[];
+  bytes: ByteDiffSummary;
+  similarity: SimilaritySummary;
+};
@@ -0,0 +1,98 @@
+"use strict";
+
+import {
+  PROGRAM_FLAGS,
+  PROGRAM_TYPES,
+  SECTION_FLAGS,
+  SECTION_TYPES,
+  decodeFlags,
+  decodeOption
+} from "./constants.js";
+import type { ElfProgramHeader, ElfSectionHeader } from "./types.js";
+
+const bigFrom32 = (value: number): bigint => BigInt.asUintN(32, BigInt(value));
+
+export function parseProgramHeader64(view: DataView, littleEndian: boolean): Omit<ElfProgramHeader, "index"> {
+  const u32 = (offset: number): number => view.getUint32(offset, littleEndian);
+  const u64 = (offset: number): bigint => view.getBigUint64(offset, littleEndian);
+  const type = u32(0);
+  const flags = u32(4);
+  return {
+    type,
+    typeName: decodeOption(type, PROGRAM_TYPES) || null,
+    offset: u64(8),
+    vaddr: u64(16),
+    paddr: u64(24),
+    filesz: u64(32),
+    memsz: u64(40),
+    flags,
+    flagNames: decodeFlags(flags, PROGRAM_FLAGS),
+    align: u64(48)
+  };
+}
+
+export function parseProgramHeader32(view: DataView, littleEndian: boolean): Omit<ElfProgramHeader, "index"> {
+  const u32 = (offset: number): number => view.getUint32(offset, littleEndian);
+  const type = u32(0);
+  const offset = bigFrom32(u32(4));
+  const vaddr = bigFrom32(u32(8));
+  const paddr = bigFrom32(u32(12));
+  const filesz = bigFrom32(u32(16));
+  const memsz = bigFrom32(u32(20));
+  const flags = u32(24);
+  return {
+    type,
+    typeName: decodeOption(type, PROGRAM_TYPES) || null,
+    offset,
+    vaddr,
+    paddr,
+    filesz,
+    memsz,
+    flags,
+    flagNames: decodeFlags(flags, PROGRAM_FLAGS),
+    align: bigFrom32(u32(28))
+  };
+}
+
+export function parseSectionHeader64(view: DataView, littleEndian: boolean): Omit<ElfSectionHeader, "index" | "name"> {
+  const u32 = (offset: number): number => view.getUint32(offset, littleEndian);
+  const u64 = (offset: number): bigint => view.getBigUint64(offset, littleEndian);
+  const nameOff = u32(0);
+  const type = u32(4);
+  const flags = u64(8);
+  return {
+    nameOff,
+    type,
+    typeName: decodeOption(type, SECTION_TYPES) || null,
+    flags,
+    flagNames: decodeFlags(Number(flags & 0xffffffffn), SECTION_FLAGS),
+    addr: u64(16),
+    offset: u64(24),
+    size: u64(32),
+    link: u32(40),
+    info: u32(44),
+    addralign: u64(48),
+    entsize: u64(56)
+  };
+}
+
+export function parseSectionHeader32(view: DataView, littleEndian: boolean): Omit<ElfSectionHeader, "index" | "name"> {
+  const u32 = (offset: number): number => view.getUint32(offset, littleEndian);
+  const nameOff = u32(0);
+  const type = u32(4);
+  const flags = bigFrom32(u32(8));
+  return {
+    nameOff,
+    type,
+    typeName: decodeOption(type, SECTION_TYPES) || null,
+    flags,
+    flagNames: decodeFlags(Number(flags), SECTION_FLAGS),
+    addr: bigFrom32(u32(12)),
+    offset: bigFrom32(u32(16)),
+    size: bigFrom32(u32(20)),
+    link: u32(24),
+    info: u32(28),
+    addralign: bigFrom32(u32(32)),
+    entsize: bigFrom32(u32(36))
+  };
+}
@@ -1,28 +1,40 @@
 "use strict";
 
 import { readAsciiString } from "../../binary-utils.js";
+import { reportDiagnostic, type DiagnosticLog } from "../diagnostics/index.js";
 import {
-  PROGRAM_FLAGS,
-  PROGRAM_TYPES,
-  SECTION_FLAGS,
-  SECTION_TYPES,
-  decodeFlags,
-  decodeOption
-} from "./constants.js";
+  parseProgramHeader32,
+  parseProgramHeader64,
+  parseSectionHeader32,
+  parseSectionHeader64
+} from "./header-entries.js";
 import type { ElfHeader, ElfProgramHeader, ElfSectionHeader } from "./types.js";
 
-const bigFrom32 = (value: number): bigint => BigInt.asUintN(32, BigInt(value));
-
-const toSafeNumber = (value: number | bigint, label: string, issues: string[]): number | null => {
+// fieldOffset is where the value is stored in the file.
+const toSafeNumber = (
+  value: number | bigint,
+  label: string,
+  log: DiagnosticLog,
+  fieldOffset: number
+): number | null => {
   if (typeof value === "number") return value;
   const num = Number(value);
   if (!Number.isSafeInteger(num)) {
-    issues.push(`${label} (${value.toString()}) is too large to index into the file.`);
+    reportDiagnostic(log, {
+      code: "elf.offset-out-of-range",
+      severity: "error",
+      message: `${label} (${value.toString()}) is too large to index into the file.`,
+      offset: fieldOffset
+    });
     return null;
   }
   return num;
 };
 
+// File offsets of e_phoff and e_shoff in the ELF header.
+const programHeaderOffsetField = (is64: boolean): number => (is64 ? 0x20 : 0x1c);
+const sectionHeaderOffsetField = (is64: boolean): number => (is64 ? 0x28 : 0x20);
+
 async function sliceView(file: File, offset: number, length: number): Promise<DataView | null> {
   const end = offset + length;
   const bounded = end > file.size ? file.size : end;
@@ -31,91 +43,6 @@ async function sliceView(file: File, offset: number, length: number): Promise<Da
   return new DataView(buffer);
 }
 
-function parseProgramHeader64(view: DataView, littleEndian: boolean): Omit<ElfProgramHeader, "index"> {
-  const u32 = (offset: number): number => view.getUint32(offset, littleEndian);
-  const u64 = (offset: number): bigint => view.getBigUint64(offset, littleEndian);
-  const type = u32(0);
-  const flags = u32(4);
-  return {
-    type,
-    typeName: decodeOption(type, PROGRAM_TYPES) || null,
-    offset: u64(8),
-    vaddr: u64(16),
-    paddr: u64(24),
-    filesz: u64(32),
-    memsz: u64(40),
-    flags,
-    flagNames: decodeFlags(flags, PROGRAM_FLAGS),
-    align: u64(48)
-  };
-}
-
-function parseProgramHeader32(view: DataView, littleEndian: boolean): Omit<ElfProgramHeader, "index"> {
-  const u32 = (offset: number): number => view.getUint32(offset, littleEndian);
-  const type = u32(0);
-  const offset = bigFrom32(u32(4));
-  const vaddr = bigFrom32(u32(8));
-  const paddr = bigFrom32(u32(12));
-  const filesz = bigFrom32(u32(16));
-  const memsz = bigFrom32(u32(20));
-  const flags = u32(24);
-  return {
-    type,
-    typeName: decodeOption(type, PROGRAM_TYPES) || null,
-    offset,
-    vaddr,
-    paddr,
-    filesz,
-    memsz,
-    flags,
-    flagNames: decodeFlags(flags, PROGRAM_FLAGS),
-    align: bigFrom32(u32(28))
-  };
-}
-
-function parseSectionHeader64(view: DataView, littleEndian: boolean): Omit<ElfSectionHeader, "index" | "name"> {
-  const u32 = (offset: number): number => view.getUint32(offset, littleEndian);
-  const u64 = (offset: number): bigint => view.getBigUint64(offset, littleEndian);
-  const nameOff = u32(0);
-  const type = u32(4);
-  const flags = u64(8);
-  return {
-    nameOff,
-    type,
-    typeName: decodeOption(type, SECTION_TYPES) || null,
-    flags,
-    flagNames: decodeFlags(Number(flags & 0xffffffffn), SECTION_FLAGS),
-    addr: u64(16),
-    offset: u64(24),
-    size: u64(32),
-    link: u32(40),
-    info: u32(44),
-    addralign: u64(48),
-    entsize: u64(56)
-  };
-}
-
-function parseSectionHeader32(view: DataView, littleEndian: boolean): Omit<ElfSectionHeader, "index" | "name"> {
-  const u32 = (offset: number): number => view.getUint32(offset, littleEndian);
-  const nameOff = u32(0);
-  const type = u32(4);
-  const flags = bigFrom32(u32(8));
-  return {
-    nameOff,
-    type,
-    typeName: decodeOption(type, SECTION_TYPES) || null,
-    flags,
-    flagNames: decodeFlags(Number(flags), SECTION_FLAGS),
-    addr: bigFrom32(u32(12)),
-    offset: bigFrom32(u32(16)),
-    size: bigFrom32(u32(20)),
-    link: u32(24),
-    info: u32(28),
-    addralign: bigFrom32(u32(32)),
-    entsize: bigFrom32(u32(36))
-  };
-}
-
 function readStringFromTable(tableDv: DataView | null, offset: number): string {
   if (!tableDv || offset >= tableDv.byteLength) return "";
   return readAsciiString(tableDv, offset, tableDv.byteLength - offset);
@@ -125,23 +52,46 @@ async function loadSectionNameTable(
   file: File,
   sections: ElfSectionHeader[],
   header: ElfHeader,
-  issues: string[]
+  is64: boolean,
+  tableOffset: number,
+  log: DiagnosticLog
 ): Promise<DataView | null> {
   if (!sections.length || header.shstrndx >= sections.length) return null;
   const shstr = sections[header.shstrndx];
+  const entryOffset = tableOffset + header.shstrndx * header.shentsize;
   if (!shstr) {
-    issues.push("Section name table header is missing.");
+    reportDiagnostic(log, {
+      code: "elf.section-name-table-header-missing",
+      severity: "error",
+      message: "Section name table header is missing.",
+      offset: entryOffset
+    });
     return null;
   }
-  const off = toSafeNumber(shstr.offset, "Section name table offset", issues);
-  const size = toSafeNumber(shstr.size, "Section name table size", issues);
+  // sh_offset and sh_size within the section header entry.
+  const off = toSafeNumber(shstr.offset, "Section name table offset", log, entryOffset + (is64 ? 24 : 16));
+  const size = toSafeNumber(shstr.size, "Section name table size", log, entryOffset + (is64 ? 32 : 20));
   if (off == null || size == null) return null;
   const dv = await sliceView(file, off, size);
   if (!dv) {
-    issues.push("Section name table falls outside the file.");
+    reportDiagnostic(log, {
+      code: "elf.section-name-table-outside-file",
+      severity: "error",
+      message: "Section name table falls outside the file.",
+      offset: off,
+      length: size
+    });
     return null;
   }
-  if (dv.byteLength < size) issues.push("Section name table is truncated.");
+  if (dv.byteLength < size) {
+    reportDiagnostic(log, {
+      code: "elf.section-name-table-truncated",
+      severity: "error",
+      message: "Section name table is truncated.",
+      offset: off,
+      length: size
+    });
+  }
   return dv;
 }
 
@@ -150,7 +100,7 @@ export async function resolveExtendedHeaderCounts(
   header: ElfHeader,
   is64: boolean,
   littleEndian: boolean,
-  issues: string[],
+  log: DiagnosticLog,
   expectedSectionHeaderSize: number
 ): Promise<ElfHeader> {
   // ELF extended-numbering sentinels: PN_XNUM/SHN_XINDEX=0xffff, SHN_UNDEF=0.
@@ -165,29 +115,42 @@ export async function resolveExtendedHeaderCounts(
     shstrndx: needsShstrndx ? 0 : header.shstrndx
   });
   if (header.shoff === 0n) {
-    issues.push("ELF extended numbering requires section header #0, but the section header table is missing.");
+    reportDiagnostic(log, {
+      code: "elf.extended-numbering-section-table-missing",
+      severity: "error",
+      message: "ELF extended numbering requires section header #0, but the section header table is missing.",
+      offset: sectionHeaderOffsetField(is64)
+    });
     return unresolvedHeader();
   }
   if (header.shentsize < expectedSectionHeaderSize) {
-    issues.push(
-      `Section header entry size (${header.shentsize}) is smaller than ELF${is64 ? "64" : "32"} minimum (${expectedSectionHeaderSize}); cannot resolve extended numbering.`
-    );
+    reportDiagnostic(log, {
+      code: "elf.section-header-entry-size-too-small",
+      severity: "error",
+      message: `Section header entry size (${header.shentsize}) is smaller than ELF${is64 ? "64" : "32"} minimum (${expectedSectionHeaderSize}); cannot resolve extended numbering.`,
+      offset: is64 ? 0x3a : 0x2e,
+      length: 2
+    });
     return unresolvedHeader();
   }
-  const tableOffset = toSafeNumber(header.shoff, "Section header offset", issues);
+  const tableOffset = toSafeNumber(header.shoff, "Section header offset", log, sectionHeaderOffsetField(is64));
   if (tableOffset == null) return unresolvedHeader();
   const dv = await sliceView(file, tableOffset, expectedSectionHeaderSize);
-  if (!dv) {
-    issues.push("Section header #0 falls outside the file; cannot resolve extended numbering.");
-    return unresolvedHeader();
-  }
-  if (dv.byteLength < expectedSectionHeaderSize) {
-    issues.push("Section header #0 is truncated; cannot resolve extended numbering.");
+  if (!dv || dv.byteLength < expectedSectionHeaderSize) {
+    reportDiagnostic(log, {
+      code: dv ? "elf.section-header-zero-truncated" : "elf.section-header-zero-outside-file",
+      severity: "error",
+      message: dv
+        ? "Section header #0 is truncated; cannot resolve extended numbering."
+        : "Section header #0 falls outside the file; cannot resolve extended numbering.",
+      offset: tableOffset,
+      length: expectedSectionHeaderSize
+    });
     return unresolvedHeader();
   }
   const sectionZero = is64 ? parseSectionHeader64(dv, littleEndian) : parseSectionHeader32(dv, littleEndian);
   const resolvedShnum = needsShnum
-    ? (toSafeNumber(sectionZero.size, "Section count from section header #0", issues) ?? 0)
+    ? (toSafeNumber(sectionZero.size, "Section count from section header #0", log, tableOffset + (is64 ? 32 : 20)) ?? 0)
     : header.shnum;
   return {
     ...header,
@@ -202,26 +165,44 @@ export async function parseProgramHeadersWithGuards(
   header: ElfHeader,
   is64: boolean,
   littleEndian: boolean,
-  issues: string[]
+  log: DiagnosticLog
 ): Promise<ElfProgramHeader[]> {
   if (!header.phoff || !header.phnum) return [];
   // ELF program header size from spec: sizeof(Elf32_Phdr)=0x20, sizeof(Elf64_Phdr)=0x38.
   const expectedProgramHeaderSize = is64 ? 0x38 : 0x20;
   if (header.phentsize < expectedProgramHeaderSize) {
-    issues.push(
-      `Program header entry size (${header.phentsize}) is smaller than ELF${is64 ? "64" : "32"} minimum (${expectedProgramHeaderSize}).`
-    );
+    reportDiagnostic(log, {
+      code: "elf.program-header-entry-size-too-small",
+      severity: "error",
+      message: `Program header entry size (${header.phentsize}) is smaller than ELF${is64 ? "64" : "32"} minimum (${expectedProgramHeaderSize}).`,
+      offset: is64 ? 0x36 : 0x2a,
+      length: 2
+    });
     return [];
   }
-  const tableOffset = toSafeNumber(header.phoff, "Program header offset", issues);
+  const tableOffset = toSafeNumber(header.phoff, "Program header offset", log, programHeaderOffsetField(is64));
   if (tableOffset == null) return [];
   const tableSize = header.phentsize * header.phnum;
   const dv = await sliceView(file, tableOffset, tableSize);
   if (!dv) {
-    issues.push("Program header table falls outside the file.");
+    reportDiagnostic(log, {
+      code: "elf.program-header-table-outside-file",
+      severity: "error",
+      message: "Program header table falls outside the file.",
+      offset: tableOffset,
+      length: tableSize
+    });
     return [];
   }
-  if (dv.byteLength < tableSize) issues.push("Program header table is truncated.");
+  if (dv.byteLength < tableSize) {
+    reportDiagnostic(log, {
+      code: "elf.program-header-table-truncated",
+      severity: "error",
+      message: "Program header table is truncated.",
+      offset: tableOffset,
+      length: tableSize
+    });
+  }
   const entries: ElfProgramHeader[] = [];
   const usableCount = Math.min(header.phnum, Math.floor(dv.byteLength / header.phentsize));
   for (let index = 0; index < usableCount; index += 1) {
@@ -238,25 +219,43 @@ export async function parseSectionHeadersWithNames(
   header: ElfHeader,
   is64: boolean,
   littleEndian: boolean,
-  issues: string[],
+  log: DiagnosticLog,
   expectedSectionHeaderSize: number
 ): Promise<ElfSectionHeader[]> {
   if (!header.shoff || !header.shnum) return [];
   if (header.shentsize < expectedSectionHeaderSize) {
-    issues.push(
-      `Section header entry size (${header.shentsize}) is smaller than ELF${is64 ? "64" : "32"} minimum (${expectedSectionHeaderSize}).`
-    );
+    reportDiagnostic(log, {
+      code: "elf.section-header-entry-size-too-small",
+      severity: "error",
+      message: `Section header entry size (${header.shentsize}) is smaller than ELF${is64 ? "64" : "32"} minimum (${expectedSectionHeaderSize}).`,
+      offset: is64 ? 0x3a : 0x2e,
+      length: 2
+    });
     return [];
   }
-  const tableOffset = toSafeNumber(header.shoff, "Section header offset", issues);
+  const tableOffset = toSafeNumber(header.shoff, "Section header offset", log, sectionHeaderOffsetField(is64));
   if (tableOffset == null) return [];
   const tableSize = header.shentsize * header.shnum;
   const dv = await sliceView(file, tableOffset, tableSize);
   if (!dv) {
-    issues.push("Section header table falls outside the file.");
+    reportDiagnostic(log, {
+      code: "elf.section-header-table-outside-file",
+      severity: "error",
+      message: "Section header table falls outside the file.",
+      offset: tableOffset,
+      length: tableSize
+    });
     return [];
   }
-  if (dv.byteLength < tableSize) issues.push("Section header table is truncated.");
+  if (dv.byteLength < tableSize) {
+    reportDiagnostic(log, {
+      code: "elf.section-header-table-truncated",
+      severity: "error",
+      message: "Section header table is truncated.",
+      offset: tableOffset,
+      length: tableSize
+    });
+  }
   const sections: ElfSectionHeader[] = [];
   const usableCount = Math.min(header.shnum, Math.floor(dv.byteLength / header.shentsize));
   for (let index = 0; index < usableCount; index += 1) {
@@ -265,7 +264,7 @@ export async function parseSectionHeadersWithNames(
     const parsed = is64 ? parseSectionHeader64(view, littleEndian) : parseSectionHeader32(view, littleEndian);
     sections.push({ ...parsed, index });
   }
-  const namesTable = await loadSectionNameTable(file, sections, header, issues);
+  const namesTable = await loadSectionNameTable(file, sections, header, is64, tableOffset, log);
   if (namesTable) {
     sections.forEach(section => {
       section.name = readStringFromTable(namesTable, section.nameOff);
@@ -6,6 +6,7 @@ import {
   ELF_MACHINE,
   decodeOption
 } from "./constants.js";
+import { reportDiagnostic, type DiagnosticLog } from "../diagnostics/index.js";
 import { parseElfComment } from "./comment.js";
 import { parseElfDebugLink } from "./debug-link.js";
 import { analyzeElfDwarf } from "./dwarf.js";
@@ -38,7 +39,7 @@ const emptyElfHeader = (): ElfHeader => ({
   shnum: 0,
   shstrndx: 0
 });
-function parseIdent(dv: DataView, issues: string[]): ElfIdent {
+function parseIdent(dv: DataView, log: DiagnosticLog): ElfIdent {
   const cls = dv.getUint8(4);
   const data = dv.getUint8(5);
   const version = dv.getUint8(6);
@@ -46,10 +47,18 @@ function parseIdent(dv: DataView, issues: string[]): ElfIdent {
   const abiVersion = dv.getUint8(8);
   const className = decodeOption(cls, ELF_CLASS) || "Unknown";
   const dataName = decodeOption(data, ELF_DATA) || "Unknown";
-  if (version !== 1) issues.push(`Unexpected ELF version ${version}.`);
+  if (version !== 1) {
+    reportDiagnostic(log, {
+      code: "elf.ident-version-unexpected",
+      severity: "warning",
+      message: `Unexpected ELF version ${version}.`,
+      offset: 6,
+      length: 1
+    });
+  }
   return { classByte: cls, className, dataByte: data, dataName, osabi, abiVersion };
 }
-function parseElfHeader(dv: DataView, is64: boolean, little: boolean, issues: string[]): ElfHeader {
+function parseElfHeader(dv: DataView, is64: boolean, little: boolean, log: DiagnosticLog): ElfHeader {
   const u16 = (offset: number): number => dv.getUint16(offset, little);
   const u32 = (offset: number): number => dv.getUint32(offset, little);
   const u64 = (offset: number): bigint => dv.getBigUint64(offset, little);
@@ -66,7 +75,15 @@ function parseElfHeader(dv: DataView, is64: boolean, little: boolean, issues: st
   const shentsize = u16(is64 ? 0x3a : 0x2e);
   const shnum = u16(is64 ? 0x3c : 0x30);
   const shstrndx = u16(is64 ? 0x3e : 0x32);
-  if (version !== 1) issues.push(`Unexpected ELF header version ${version}.`);
+  if (version !== 1) {
+    reportDiagnostic(log, {
+      code: "elf.header-version-unexpected",
+      severity: "warning",
+      message: `Unexpected ELF header version ${version}.`,
+      offset: 0x14,
+      length: 4
+    });
+  }
   return {
     type,
     typeName: decodeOption(type, ELF_TYPE) || null,
@@ -89,8 +106,8 @@ export async function parseElf(file: File): Promise<ElfParseResult | null> {
   const dv = new DataView(buffer);
   // Minimum ELF header for ident + base fields: sizeof(Elf32_Ehdr) = 0x34.
   if (dv.byteLength < 0x34 || dv.getUint32(0, false) !== ELF_MAGIC) return null;
-  const issues: string[] = [];
-  const ident = parseIdent(dv, issues);
+  const log: DiagnosticLog = { issues: [], diagnostics: [] };
+  const ident = parseIdent(dv, log);
   const is64 = ident.classByte === 2;
   const little = ident.dataByte === 1;
   const buildResult = (
@@ -102,7 +119,7 @@ export async function parseElf(file: File): Promise<ElfParseResult | null> {
     header,
     programHeaders,
     sections,
-    issues,
+    ...log,
     is64,
     littleEndian: little,
     fileSize: file.size
@@ -112,22 +129,40 @@ export async function parseElf(file: File): Promise<ElfParseResult | null> {
   // ELF section header size from spec: sizeof(Elf32_Shdr)=0x28, sizeof(Elf64_Shdr)=0x40.
   const expectedSectionHeaderSize = is64 ? 0x40 : 0x28;
   if (dv.byteLength < minHeaderSize) {
-    issues.push(`ELF${is64 ? "64" : "32"} header is truncated: expected at least ${minHeaderSize} bytes, got ${dv.byteLength}.`);
+    reportDiagnostic(log, {
+      code: "elf.header-truncated",
+      severity: "error",
+      message: `ELF${is64 ? "64" : "32"} header is truncated: expected at least ${minHeaderSize} bytes, got ${dv.byteLength}.`,
+      offset: 0,
+      length: minHeaderSize
+    });
     return buildResult(emptyElfHeader(), [], []);
   }
-  const parsedHeader = parseElfHeader(dv, is64, little, issues);
-  const header = await resolveExtendedHeaderCounts(file, parsedHeader, is64, little, issues, expectedSectionHeaderSize);
+  const parsedHeader = parseElfHeader(dv, is64, little, log);
+  const header = await resolveExtendedHeaderCounts(file, parsedHeader, is64, little, log, expectedSectionHeaderSize);
+  // e_ehsize field offset.
+  const ehsizeOffset = is64 ? 0x34 : 0x28;
   if (header.ehsize < minHeaderSize) {
-    issues.push(
-      `ELF header size e_ehsize (${header.ehsize}) is smaller than ELF${is64 ? "64" : "32"} minimum (${minHeaderSize}).`
-    );
+    reportDiagnostic(log, {
+      code: "elf.header-size-too-small",
+      severity: "error",
+      message: `ELF header size e_ehsize (${header.ehsize}) is smaller than ELF${is64 ? "64" : "32"} minimum (${minHeaderSize}).`,
+      offset: ehsizeOffset,
+      length: 2
+    });
     return buildResult(header, [], []);
   }
   if (header.ehsize > file.size) {
-    issues.push(`ELF header size e_ehsize (${header.ehsize}) exceeds file size (${file.size}).`);
+    reportDiagnostic(log, {
+      code: "elf.header-size-exceeds-file",
+      severity: "warning",
+      message: `ELF header size e_ehsize (${header.ehsize}) exceeds file size (${file.size}).`,
+      offset: ehsizeOffset,
+      length: 2
+    });
   }
-  const programHeaders = await parseProgramHeadersWithGuards(file, header, is64, little, issues);
-  const sections = await parseSectionHeadersWithNames(file, header, is64, little, issues, expectedSectionHeaderSize);
+  const programHeaders = await parseProgramHeadersWithGuards(file, header, is64, little, log);
+  const sections = await parseSectionHeadersWithNames(file, header, is64, little, log, expectedSectionHeaderSize);
   const tls = parseElfTlsInfo(programHeaders, sections);
   const [interpreter, dynamic, dynSymbols, notes, comment, debugLink, dwarf] = await Promise.all([
     parseElfInterpreter(file, programHeaders),
@@ -136,7 +171,7 @@ export async function parseElf(file: File): Promise<ElfParseResult | null> {
     parseElfNotes({ file, programHeaders, sections, littleEndian: little }),
     parseElfComment(file, sections),
     parseElfDebugLink(file, sections, little),
-    analyzeElfDwarf(file, sections, is64 ? "elf64" : "elf32", little, issues)
+    analyzeElfDwarf(file, sections, is64 ? "elf64" : "elf32", little, log.issues)
   ]);
   const result = buildResult(header, programHeaders, sections);
   if (interpreter) result.interpreter = interpreter;
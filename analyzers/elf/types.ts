@@ -1,6 +1,7 @@
 "use strict";
 
 import type { ElfInstructionSetReport } from "./disassembly-types.js";
+import type { ReportedDiagnostic } from "../diagnostics/index.js";
 import type { DwarfAnalysis } from "../dwarf/types.js";
 
 export type ElfOptionEntry = [number, string, string?];
@@ -68,6 +69,7 @@ export interface ElfParseResult {
   programHeaders: ElfProgramHeader[];
   sections: ElfSectionHeader[];
   issues: string[];
+  diagnostics: ReportedDiagnostic[];
   disassembly?: ElfInstructionSetReport;
   interpreter?: ElfInterpreterInfo;
   dynamic?: ElfDynamicInfo;
@@ -0,0 +1,114 @@
+"use strict";
+
+import type { FileRangeReader } from "./file-range-reader.js";
+import { shannonEntropy } from "./section-entropy.js";
+
+// One point of the whole-file chart: Shannon entropy (bits per byte) and the share of each
+// byte class in a window of the file. Control bytes other than tab, CR and LF make up the rest.
+export interface EntropyWindow {
+  offset: number;
+  length: number;
+  entropy: number;
+  zero: number;
+  ascii: number;
+  highBit: number;
+}
+
+export interface EntropyProfile {
+  fileSize: number;
+  // Windows of windowSize bytes start every step bytes, so neighbouring windows overlap; the
+  // last ones are cut short by the end of the file.
+  windowSize: number;
+  step: number;
+  windows: EntropyWindow[];
+}
+
+export interface EntropyProfileOptions {
+  onProgress?: (scannedBytes: number, totalBytes: number) => void;
+  isCurrent?: () => boolean;
+}
+
+export const ENTROPY_PROFILE_MAX_WINDOWS = 1024;
+export const ENTROPY_PROFILE_MIN_STEP_BYTES = 256;
+// Each window spans this many steps, so every byte is counted in that many windows.
+export const ENTROPY_PROFILE_WINDOW_STEPS = 2;
+const ENTROPY_PROFILE_CHUNK_BYTES = 4 * 1024 * 1024;
+
+const ZERO_CLASS = 0;
+const ASCII_CLASS = 1;
+const HIGH_BIT_CLASS = 2;
+const OTHER_CLASS = 3;
+
+const BYTE_CLASSES = Uint8Array.from({ length: 256 }, (_, value) => {
+  if (value === 0) return ZERO_CLASS;
+  if (value >= 0x80) return HIGH_BIT_CLASS;
+  if ((value >= 0x20 && value < 0x7f) || value === 0x09 || value === 0x0a || value === 0x0d) return ASCII_CLASS;
+  return OTHER_CLASS;
+});
+
+// Windows start as close together as the point budget allows but never less than 256 bytes
+// apart, below which entropy says little.
+export const entropyWindowStep = (fileSize: number): number =>
+  Math.max(ENTROPY_PROFILE_MIN_STEP_BYTES, Math.ceil(fileSize / ENTROPY_PROFILE_MAX_WINDOWS));
+
+interface EntropyStep {
+  offset: number;
+  length: number;
+  frequencies: Uint32Array;
+}
+
+const summarizeWindow = (steps: readonly EntropyStep[]): EntropyWindow => {
+  const frequencies = new Uint32Array(256);
+  steps.forEach(step => step.frequencies.forEach((count, value) => {
+    frequencies[value] = (frequencies[value] ?? 0) + count;
+  }));
+  const length = steps.reduce((total, step) => total + step.length, 0);
+  const classes = [0, 0, 0, 0];
+  frequencies.forEach((count, value) => {
+    const byteClass = BYTE_CLASSES[value]!;
+    classes[byteClass] = classes[byteClass]! + count;
+  });
+  return {
+    offset: steps[0]?.offset ?? 0,
+    length,
+    entropy: shannonEntropy(frequencies, length),
+    zero: classes[ZERO_CLASS]! / length,
+    ascii: classes[ASCII_CLASS]! / length,
+    highBit: classes[HIGH_BIT_CLASS]! / length
+  };
+};
+
+// Streams the file once, counting bytes per step and summing the steps a window spans; returns
+// null when superseded.
+export const calculateEntropyProfile = async (
+  reader: FileRangeReader,
+  options: EntropyProfileOptions = {}
+): Promise<EntropyProfile | null> => {
+  const step = entropyWindowStep(reader.size);
+  const windows: EntropyWindow[] = [];
+  // The steps of the window that starts next, oldest first.
+  const open: EntropyStep[] = [];
+  let current: EntropyStep = { offset: 0, length: 0, frequencies: new Uint32Array(256) };
+  const closeStep = (): void => {
+    open.push(current);
+    if (open.length === ENTROPY_PROFILE_WINDOW_STEPS) {
+      windows.push(summarizeWindow(open));
+      open.shift();
+    }
+    current = { offset: current.offset + current.length, length: 0, frequencies: new Uint32Array(256) };
+  };
+  for (let chunkStart = 0; chunkStart < reader.size; chunkStart += ENTROPY_PROFILE_CHUNK_BYTES) {
+    const bytes = await reader.readBytes(chunkStart, ENTROPY_PROFILE_CHUNK_BYTES);
+    if (options.isCurrent && !options.isCurrent()) return null;
+    if (!bytes.length) break;
+    for (const value of bytes) {
+      current.frequencies[value] = (current.frequencies[value] ?? 0) + 1;
+      current.length += 1;
+      if (current.length === step) closeStep();
+    }
+    options.onProgress?.(Math.min(reader.size, chunkStart + bytes.length), reader.size);
+  }
+  if (current.length) open.push(current);
+  for (; open.length; open.shift()) windows.push(summarizeWindow(open));
+  return { fileSize: reader.size, windowSize: step * ENTROPY_PROFILE_WINDOW_STEPS, step, windows };
+};
@@ -0,0 +1,76 @@
+"use strict";
+
+import { hasZipEocdSignature } from "../detection-labels.js";
+import { parseFlac } from "../flac/index.js";
+import { parseMp3, probeMp3 } from "../mp3/index.js";
+import { isShortMp3WithoutSecond, isValidatedMp3 } from "../mp3-labels.js";
+import { hasSqliteSignature, parseSqlite } from "../sqlite/index.js";
+import { parseZip } from "../zip/index.js";
+import type { FormatDescriptor } from "./types.js";
+
+const flacFormat: FormatDescriptor = {
+  id: "flac",
+  parser: {
+    analyzers: ["flac"],
+    // FLAC format specification: streams start with ASCII "fLaC".
+    probe: ({ view }) => view.byteLength >= 4 && view.getUint32(0, false) === 0x664c6143,
+    parse: async ({ file }) => {
+      const flac = await parseFlac(file);
+      return flac && { analyzer: "flac", parsed: flac };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const sqliteFormat: FormatDescriptor = {
+  id: "sqlite",
+  parser: {
+    analyzers: ["sqlite"],
+    probe: ({ view }) => hasSqliteSignature(view),
+    parse: async ({ file }) => {
+      const sqlite = await parseSqlite(file);
+      return sqlite && { analyzer: "sqlite", parsed: sqlite };
+    },
+    nestedAnalysis: false
+  }
+};
+
+// Frame sync is weak evidence, so detection only looks at the first 16 KiB and parsing keeps
+// the result only when frames validate.
+const mp3Format: FormatDescriptor = {
+  id: "mp3",
+  label: ({ view }) => {
+    const mp3ProbeView = new DataView(view.buffer, view.byteOffset, Math.min(view.byteLength, 16 * 1024));
+    return probeMp3(mp3ProbeView) ? "MPEG audio stream (MP3/AAC)" : null;
+  },
+  parser: {
+    analyzers: ["mp3"],
+    probe: ({ view }) => probeMp3(view),
+    parse: async ({ file }) => {
+      const mp3 = await parseMp3(file);
+      return isValidatedMp3(mp3) || isShortMp3WithoutSecond(mp3) ? { analyzer: "mp3", parsed: mp3 } : null;
+    },
+    nestedAnalysis: false
+  }
+};
+
+// ZIP archives with a prefix (self-extractors, appended archives) are found by their end record.
+const zipEndOfCentralDirectoryFormat: FormatDescriptor = {
+  id: "zipEocd",
+  parser: {
+    analyzers: ["zip"],
+    probe: ({ view }) => hasZipEocdSignature(view),
+    parse: async ({ file }) => {
+      const zip = await parseZip(file);
+      return zip && { analyzer: "zip", parsed: zip };
+    },
+    nestedAnalysis: true
+  }
+};
+
+export const audioAndDatabaseFormats: readonly FormatDescriptor[] = [
+  flacFormat,
+  sqliteFormat,
+  mp3Format,
+  zipEndOfCentralDirectoryFormat
+];
@@ -0,0 +1,129 @@
+"use strict";
+
+import { toAsciiFromWholeView } from "../detection-labels.js";
+import type { parseFb2 } from "../fb2/index.js";
+import { isGifSignature, parseGif } from "../gif/index.js";
+import { parseGzip } from "../gzip/index.js";
+import { hasIso9660Signature, parseIso9660 } from "../iso9660/index.js";
+import { hasRarSignature, parseRar } from "../rar/index.js";
+import { hasSevenZipSignature, parseSevenZip } from "../sevenz/index.js";
+import { hasTarSignature, parseTar } from "../tar/index.js";
+import { parseZip } from "../zip/index.js";
+import type { FormatDescriptor } from "./types.js";
+
+const createFb2Format = (parseFb2File: typeof parseFb2): FormatDescriptor => ({
+  id: "fb2",
+  parser: {
+    analyzers: ["fb2"],
+    probe: ({ view }) => toAsciiFromWholeView(view, 8192).toLowerCase().indexOf("<fictionbook") !== -1,
+    parse: async ({ file }) => {
+      const fb2 = await parseFb2File(file);
+      return fb2 && { analyzer: "fb2", parsed: fb2 };
+    },
+    nestedAnalysis: false
+  }
+});
+
+const gifFormat: FormatDescriptor = {
+  id: "gif",
+  parser: {
+    analyzers: ["gif"],
+    probe: ({ view }) => isGifSignature(view),
+    parse: async ({ file }) => {
+      const gif = await parseGif(file);
+      return gif && { analyzer: "gif", parsed: gif };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const sevenZipFormat: FormatDescriptor = {
+  id: "sevenZip",
+  parser: {
+    analyzers: ["sevenZip"],
+    probe: ({ view }) => hasSevenZipSignature(view),
+    parse: async ({ file }) => {
+      const sevenZip = await parseSevenZip(file);
+      return sevenZip?.is7z ? { analyzer: "sevenZip", parsed: sevenZip } : null;
+    },
+    nestedAnalysis: true
+  }
+};
+
+const rarFormat: FormatDescriptor = {
+  id: "rar",
+  parser: {
+    analyzers: ["rar"],
+    probe: ({ view }) => hasRarSignature(view),
+    parse: async ({ file }) => {
+      const rar = await parseRar(file);
+      return rar?.isRar ? { analyzer: "rar", parsed: rar } : null;
+    },
+    nestedAnalysis: false
+  }
+};
+
+const iso9660Format: FormatDescriptor = {
+  id: "iso9660",
+  parser: {
+    analyzers: ["iso9660"],
+    probe: ({ view }) => hasIso9660Signature(view),
+    parse: async ({ file }) => {
+      const iso = await parseIso9660(file);
+      return iso && { analyzer: "iso9660", parsed: iso };
+    },
+    nestedAnalysis: true
+  }
+};
+
+const tarFormat: FormatDescriptor = {
+  id: "tar",
+  parser: {
+    analyzers: ["tar"],
+    probe: ({ view }) => hasTarSignature(view),
+    parse: async ({ file }) => {
+      const tar = await parseTar(file);
+      return tar?.isTar ? { analyzer: "tar", parsed: tar } : null;
+    },
+    nestedAnalysis: false
+  }
+};
+
+const gzipFormat: FormatDescriptor = {
+  id: "gzip",
+  parser: {
+    analyzers: ["gzip"],
+    // RFC 1952 section 2.3.1: ID1 = 0x1f, ID2 = 0x8b.
+    probe: ({ view }) => view.byteLength >= 2 && view.getUint16(0, true) === 0x8b1f,
+    parse: async ({ file }) => {
+      const gzip = await parseGzip(file);
+      return gzip && { analyzer: "gzip", parsed: gzip };
+    },
+    nestedAnalysis: true
+  }
+};
+
+const zipFormat: FormatDescriptor = {
+  id: "zip",
+  parser: {
+    analyzers: ["zip"],
+    // PKWARE APPNOTE 4.3.7: local file header signature 0x04034b50.
+    probe: ({ view }) => view.byteLength >= 4 && view.getUint32(0, true) === 0x04034b50,
+    parse: async ({ file }) => {
+      const zip = await parseZip(file);
+      return zip && { analyzer: "zip", parsed: zip };
+    },
+    nestedAnalysis: true
+  }
+};
+
+export const createContainerFormats = (parseFb2File: typeof parseFb2): readonly FormatDescriptor[] => [
+  createFb2Format(parseFb2File),
+  gifFormat,
+  sevenZipFormat,
+  rarFormat,
+  iso9660Format,
+  tarFormat,
+  gzipFormat,
+  zipFormat
+];
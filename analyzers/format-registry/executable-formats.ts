@@ -0,0 +1,158 @@
+"use strict";
+
+import { hasCatalogSignature, parseCatalog } from "../catalog/index.js";
+import { buildCoffObjectLabel, probeCoffObject } from "../coff/probe.js";
+import { parseCoffObject } from "../coff/index.js";
+import { probeElf } from "../elf/probe.js";
+import { parseElf } from "../elf/index.js";
+import { hasShellLinkSignature, parseLnk } from "../lnk/index.js";
+import { probeMachO } from "../macho/probe.js";
+import { parseMachO } from "../macho/index.js";
+import { probeMzFormat } from "../mz-probe.js";
+import { parsePdb } from "../pdb/index.js";
+import { hasPdbSignature } from "../pdb/msf.js";
+import { parseMz } from "../mz/index.js";
+import { isPeWindowsParseResult, parsePe } from "../pe/index.js";
+import { enrichPeImportMetadata, type PeImportMetadataLookup } from "../pe/imports/winapi-metadata.js";
+import type { ManifestXmlDocumentParser } from "../pe/resources/preview/manifest-xml.js";
+import { peProbe } from "../pe/security/signature.js";
+import { buildMzLabel } from "./labels.js";
+import type { FormatDescriptor } from "./types.js";
+
+const lnkFormat: FormatDescriptor = {
+  id: "lnk",
+  parser: {
+    analyzers: ["lnk"],
+    probe: ({ view }) => hasShellLinkSignature(view),
+    parse: async ({ file }) => {
+      const lnk = await parseLnk(file);
+      return lnk && { analyzer: "lnk", parsed: lnk };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const catalogFormat: FormatDescriptor = {
+  id: "catalog",
+  label: ({ view }) => hasCatalogSignature(view) ? "Windows security catalog (.cat)" : null,
+  parser: {
+    analyzers: ["catalog"],
+    probe: ({ view }) => hasCatalogSignature(view),
+    parse: async ({ file }) => {
+      const catalog = await parseCatalog(file);
+      return catalog && { analyzer: "catalog", parsed: catalog };
+    },
+    nestedAnalysis: false
+  }
+};
+
+// The magic probe already labels PDBs; only MSF 7.00 files are parsed.
+const pdbFormat: FormatDescriptor = {
+  id: "pdb",
+  parser: {
+    analyzers: ["pdb"],
+    probe: ({ view }) => hasPdbSignature(view),
+    parse: async ({ file }) => {
+      const pdb = await parsePdb(file);
+      return pdb && { analyzer: "pdb", parsed: pdb };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const elfFormat: FormatDescriptor = {
+  id: "elf",
+  label: ({ view }) => probeElf(view),
+  parser: {
+    analyzers: ["elf"],
+    probe: ({ view }) => probeElf(view) != null,
+    parse: async ({ file }) => {
+      const elf = await parseElf(file);
+      return elf && { analyzer: "elf", parsed: elf };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const machOFormat: FormatDescriptor = {
+  id: "macho",
+  label: ({ file, view }) => probeMachO(view, file.size),
+  parser: {
+    analyzers: ["macho"],
+    probe: ({ file, view }) => probeMachO(view, file.size) != null,
+    parse: async ({ file }) => {
+      const macho = await parseMachO(file);
+      return macho && { analyzer: "macho", parsed: macho };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const createPeFormat = (
+  parseManifestXmlDocument: ManifestXmlDocumentParser,
+  importMetadataLookup: PeImportMetadataLookup | undefined
+): FormatDescriptor => ({
+  id: "pe",
+  parser: {
+    analyzers: ["pe"],
+    probe: async ({ file, view }) => (await probeMzFormat(file, view))?.kind === "pe",
+    parse: async ({ file }) => {
+      const pe = await parsePe(file, parseManifestXmlDocument);
+      if (!pe) return null;
+      return {
+        analyzer: "pe",
+        parsed: isPeWindowsParseResult(pe) ? await enrichPeImportMetadata(pe, importMetadataLookup) : pe
+      };
+    },
+    nestedAnalysis: true
+  }
+});
+
+// Also catches PE images whose full parse failed, so they still show their DOS header.
+const mzFormat: FormatDescriptor = {
+  id: "mz",
+  label: buildMzLabel,
+  parser: {
+    analyzers: ["mz"],
+    probe: ({ view }) => peProbe(view) != null,
+    parse: async ({ file, view }) => {
+      const mz = await parseMz(file);
+      if (!mz) return null;
+      const mzKind = await probeMzFormat(file, view);
+      if (mzKind && mzKind.kind !== "mz") mz.nextHeader = mzKind.kind;
+      return { analyzer: "mz", parsed: mz };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const coffObjectFormat: FormatDescriptor = {
+  id: "coff",
+  label: ({ file, view }) => {
+    const coffObject = probeCoffObject(view, file.size);
+    return coffObject && buildCoffObjectLabel(coffObject);
+  },
+  parser: {
+    analyzers: ["coff"],
+    probe: ({ file, view }) => probeCoffObject(view, file.size) != null,
+    parse: async ({ file }) => {
+      const coffObject = await parseCoffObject(file);
+      return coffObject && { analyzer: "coff", parsed: coffObject };
+    },
+    nestedAnalysis: false
+  }
+};
+
+export const createExecutableFormats = (
+  parseManifestXmlDocument: ManifestXmlDocumentParser,
+  importMetadataLookup?: PeImportMetadataLookup
+): readonly FormatDescriptor[] => [
+  lnkFormat,
+  catalogFormat,
+  pdbFormat,
+  elfFormat,
+  machOFormat,
+  createPeFormat(parseManifestXmlDocument, importMetadataLookup),
+  mzFormat,
+  coffObjectFormat
+];
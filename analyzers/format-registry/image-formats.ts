@@ -0,0 +1,89 @@
+"use strict";
+
+import { parseBmp } from "../bmp/index.js";
+import { detectPdfVersion } from "../detection-labels.js";
+import { parseJpeg } from "../jpeg/index.js";
+import { parsePdf } from "../pdf/index.js";
+import { parsePng } from "../png/index.js";
+import { parseTga } from "../tga/index.js";
+import { buildTgaLabel, isTgaCandidate } from "./labels.js";
+import type { FormatDescriptor } from "./types.js";
+
+const pdfFormat: FormatDescriptor = {
+  id: "pdf",
+  parser: {
+    analyzers: ["pdf"],
+    probe: ({ view }) => view.byteLength >= 5 && detectPdfVersion(view) != null,
+    parse: async ({ file }) => {
+      const pdf = await parsePdf(file);
+      return pdf && { analyzer: "pdf", parsed: pdf };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const pngFormat: FormatDescriptor = {
+  id: "png",
+  parser: {
+    analyzers: ["png"],
+    // PNG specification 5.2: the signature is 89 50 4E 47 0D 0A 1A 0A.
+    probe: ({ view }) =>
+      view.byteLength >= 8 && view.getUint32(0, false) === 0x89504e47 && view.getUint32(4, false) === 0x0d0a1a0a,
+    parse: async ({ file }) => {
+      const png = await parsePng(file);
+      return png && { analyzer: "png", parsed: png };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const jpegFormat: FormatDescriptor = {
+  id: "jpeg",
+  parser: {
+    analyzers: ["jpeg"],
+    // ITU-T T.81 Annex B.1.1.3: every JPEG stream starts with the SOI marker FF D8.
+    probe: ({ view }) => view.byteLength >= 2 && view.getUint16(0, false) === 0xffd8,
+    parse: async ({ file }) => {
+      const jpeg = await parseJpeg(file);
+      return jpeg && { analyzer: "jpeg", parsed: jpeg };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const bmpFormat: FormatDescriptor = {
+  id: "bmp",
+  parser: {
+    analyzers: ["bmp"],
+    // BITMAPFILEHEADER.bfType is ASCII "BM".
+    probe: ({ view }) => view.byteLength >= 2 && view.getUint16(0, false) === 0x424d,
+    parse: async ({ file }) => {
+      const bmp = await parseBmp(file);
+      return bmp && { analyzer: "bmp", parsed: bmp };
+    },
+    nestedAnalysis: false
+  }
+};
+
+// TGA has no leading magic, so it is recognised by file name or by its optional v2.0 footer.
+const tgaFormat: FormatDescriptor = {
+  id: "tga",
+  label: buildTgaLabel,
+  parser: {
+    analyzers: ["tga"],
+    probe: ({ file }) => isTgaCandidate(file),
+    parse: async ({ file }) => {
+      const tga = await parseTga(file);
+      return tga && { analyzer: "tga", parsed: tga };
+    },
+    nestedAnalysis: false
+  }
+};
+
+export const imageFormats: readonly FormatDescriptor[] = [
+  pdfFormat,
+  pngFormat,
+  jpegFormat,
+  bmpFormat,
+  tgaFormat
+];
@@ -0,0 +1,37 @@
+"use strict";
+
+import { parseFb2 } from "../fb2/index.js";
+import type { PeImportMetadataLookup } from "../pe/imports/winapi-metadata.js";
+import {
+  parseBrowserManifestXmlDocument,
+  type ManifestXmlDocumentParser
+} from "../pe/resources/preview/manifest-xml.js";
+import { audioAndDatabaseFormats } from "./audio-database-formats.js";
+import { createContainerFormats } from "./container-formats.js";
+import { createExecutableFormats } from "./executable-formats.js";
+import { imageFormats } from "./image-formats.js";
+import { heuristicLabelFormats, signatureLabelFormats } from "./label-only-formats.js";
+import { streamingMediaFormats } from "./media-formats.js";
+import type { FormatRegistry } from "./types.js";
+
+// Label-only groups are interleaved so detectBinaryType keeps its historical priority:
+// executables, leading magic, ZIP end record, TGA, VHD, text, and finally MP3 frame sync.
+// XML-backed parsers are injectable because workers and Node have no DOMParser; the import
+// metadata lookup is injectable because Node reads the generated metadata from disk.
+const createFormatRegistry = (
+  parseFb2File: typeof parseFb2 = parseFb2,
+  parseManifestXmlDocument: ManifestXmlDocumentParser = parseBrowserManifestXmlDocument,
+  importMetadataLookup?: PeImportMetadataLookup
+): FormatRegistry => [
+  ...createExecutableFormats(parseManifestXmlDocument, importMetadataLookup),
+  ...signatureLabelFormats,
+  ...createContainerFormats(parseFb2File),
+  ...imageFormats,
+  ...heuristicLabelFormats,
+  ...streamingMediaFormats,
+  ...audioAndDatabaseFormats
+];
+
+const FORMAT_REGISTRY = createFormatRegistry();
+
+export { FORMAT_REGISTRY, createFormatRegistry };
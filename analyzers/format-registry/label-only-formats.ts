@@ -0,0 +1,41 @@
+"use strict";
+
+import { hasZipEocdSignature } from "../detection-labels.js";
+import { probeByMagic, probeTextLike } from "../probes.js";
+import { detectVirtualHardDisk } from "../vhd/probe.js";
+import { refineMagicLabel } from "./labels.js";
+import type { FormatDescriptor } from "./types.js";
+
+// Leading-magic labels for every format in analyzers/probes/, including those parsed above.
+const magicSignatureFormat: FormatDescriptor = {
+  id: "magic",
+  label: ({ view }) => {
+    const magic = probeByMagic(view);
+    return magic && refineMagicLabel(view, magic);
+  }
+};
+
+const zipEndOfCentralDirectoryLabel: FormatDescriptor = {
+  id: "zipEocdLabel",
+  label: ({ view }) => hasZipEocdSignature(view) ? "ZIP archive" : null
+};
+
+const virtualHardDiskFormat: FormatDescriptor = {
+  id: "vhd",
+  label: ({ file, view }) => detectVirtualHardDisk(file, view)
+};
+
+const textFormat: FormatDescriptor = {
+  id: "text",
+  label: ({ view }) => probeTextLike(view)
+};
+
+export const signatureLabelFormats: readonly FormatDescriptor[] = [
+  magicSignatureFormat,
+  zipEndOfCentralDirectoryLabel
+];
+
+export const heuristicLabelFormats: readonly FormatDescriptor[] = [
+  virtualHardDiskFormat,
+  textFormat
+];
@@ -0,0 +1,69 @@
+"use strict";
+
+import { detectPdfVersion, refineCompoundLabel, refineZipLabel } from "../detection-labels.js";
+import { probeMzFormat, type MzProbeResult } from "../mz-probe.js";
+import { mapMachine } from "../pe/security/signature.js";
+import { hasTgaFooterSignature } from "../tga/footer.js";
+import { isTgaFileName } from "../tga/index.js";
+import { TGA_HEADER_SIZE } from "../tga/tga-parsing.js";
+import { readSliceView } from "./probe-context.js";
+import type { FormatProbeContext } from "./types.js";
+
+const buildPeLabel = async (file: File, mz: MzProbeResult): Promise<string> => {
+  const peHeaderOffset = mz.eLfanew >>> 0;
+  const coffHeaderOffset = peHeaderOffset + 4;
+  const coffHeader = await readSliceView(file, coffHeaderOffset, coffHeaderOffset + 20);
+  if (coffHeader.byteLength < 20) return "PE executable (truncated COFF header)";
+  const machine = coffHeader.getUint16(0, true);
+  const characteristics = coffHeader.getUint16(18, true);
+  const magicView = await readSliceView(file, coffHeaderOffset + 20, coffHeaderOffset + 22);
+  if (magicView.byteLength < 2) {
+    return `PE executable for ${mapMachine(machine)} (truncated optional header)`;
+  }
+  const optionalHeaderMagic = magicView.getUint16(0, true);
+  // PE optional-header magic values are defined by Microsoft PE/COFF "Optional Header".
+  // https://learn.microsoft.com/en-us/windows/win32/debug/pe-format#optional-header-image-only
+  if (optionalHeaderMagic === 0x107) return `PE ROM image for ${mapMachine(machine)}`;
+  const peKind = optionalHeaderMagic === 0x20b ? "PE32+" : "PE32";
+  const fileKind = (characteristics & 0x2000) !== 0 ? "DLL" : "executable";
+  return `${peKind} ${fileKind} for ${mapMachine(machine)}`;
+};
+
+export const buildMzLabel = async ({ file, view }: FormatProbeContext): Promise<string | null> => {
+  const mz = await probeMzFormat(file, view);
+  if (!mz) return null;
+  if (mz.kind === "pe") return buildPeLabel(file, mz);
+  if (mz.kind === "ne") return "NE executable (16-bit Windows/OS/2)";
+  if (mz.kind === "le" || mz.kind === "lx") return "Linear executable (LX/LE)";
+  return "MS-DOS MZ executable";
+};
+
+export const refineMagicLabel = (dv: DataView, magic: string): string => {
+  if (magic.startsWith("ZIP archive")) return refineZipLabel(dv) || "ZIP archive";
+  if (magic === "PDF document") {
+    const version = detectPdfVersion(dv);
+    return version ? `PDF document (v${version})` : magic;
+  }
+  if (magic.startsWith("Microsoft Compound File")) return refineCompoundLabel(dv) || magic;
+  return magic;
+};
+
+const buildTgaHeaderLabel = (dv: DataView): string => {
+  if (dv.byteLength < TGA_HEADER_SIZE) return "TGA image";
+  // Source: Truevision TGA File Format Specification v2.0, "Image Header".
+  const imageType = dv.getUint8(2);
+  const width = dv.getUint16(12, true);
+  const height = dv.getUint16(14, true);
+  const pixelDepth = dv.getUint8(16);
+  const parts: string[] = [];
+  if (width && height) parts.push(`${width}x${height}`);
+  if (pixelDepth) parts.push(`${pixelDepth}-bit`);
+  if (imageType === 9 || imageType === 10 || imageType === 11) parts.push("RLE");
+  return parts.length ? `TGA image (${parts.join(", ")})` : "TGA image";
+};
+
+export const isTgaCandidate = async (file: File): Promise<boolean> =>
+  isTgaFileName(file.name) || await hasTgaFooterSignature(file);
+
+export const buildTgaLabel = async ({ file, view }: FormatProbeContext): Promise<string | null> =>
+  await isTgaCandidate(file) ? buildTgaHeaderLabel(view) : null;
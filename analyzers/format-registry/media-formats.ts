@@ -0,0 +1,184 @@
+"use strict";
+
+import { parseAni } from "../ani/index.js";
+import { ASF_HEADER_GUID } from "../asf/constants.js";
+import { parseAsf } from "../asf/index.js";
+import { guidToString as readAsfGuid } from "../asf/shared.js";
+import { parseAvi } from "../avi/index.js";
+import { parseMp4 } from "../mp4/index.js";
+import { parseMpegPs } from "../mpegps/index.js";
+import { parsePcap } from "../pcap/index.js";
+import { parsePcapNg } from "../pcapng/index.js";
+import { readFourCc } from "../riff/index.js";
+import { parseWav } from "../wav/index.js";
+import { parseWebm } from "../webm/index.js";
+import { parseWebp } from "../webp/index.js";
+import type { FormatDescriptor, FormatProbeContext } from "./types.js";
+
+const readRiffFormType = ({ view }: FormatProbeContext): string | null => {
+  if (view.byteLength < 12) return null;
+  const riff = view.getUint32(0, false);
+  // "RIFF" (little-endian chunks) and "RIFX" (big-endian chunks).
+  if (riff !== 0x52494646 && riff !== 0x52494658) return null;
+  return readFourCc(view, 8);
+};
+
+const webpFormat: FormatDescriptor = {
+  id: "webp",
+  parser: {
+    analyzers: ["webp"],
+    probe: context => readRiffFormType(context) === "WEBP",
+    parse: async ({ file }) => {
+      const webp = await parseWebp(file);
+      return webp && { analyzer: "webp", parsed: webp };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const wavFormat: FormatDescriptor = {
+  id: "wav",
+  parser: {
+    analyzers: ["wav"],
+    probe: context => readRiffFormType(context) === "WAVE",
+    parse: async ({ file }) => {
+      const wav = await parseWav(file);
+      return wav && { analyzer: "wav", parsed: wav };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const aviFormat: FormatDescriptor = {
+  id: "avi",
+  parser: {
+    analyzers: ["avi"],
+    probe: context => {
+      const formType = readRiffFormType(context);
+      return formType === "AVI " || formType === "AVIX";
+    },
+    parse: async ({ file }) => {
+      const avi = await parseAvi(file);
+      return avi && { analyzer: "avi", parsed: avi };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const aniFormat: FormatDescriptor = {
+  id: "ani",
+  parser: {
+    analyzers: ["ani"],
+    probe: context => readRiffFormType(context) === "ACON",
+    parse: async ({ file }) => {
+      const ani = await parseAni(file);
+      return ani && { analyzer: "ani", parsed: ani };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const asfFormat: FormatDescriptor = {
+  id: "asf",
+  parser: {
+    analyzers: ["asf"],
+    probe: ({ view }) => view.byteLength >= 16 && readAsfGuid(view, 0) === ASF_HEADER_GUID,
+    parse: async ({ file }) => {
+      const asf = await parseAsf(file);
+      return asf && { analyzer: "asf", parsed: asf };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const pcapNgFormat: FormatDescriptor = {
+  id: "pcapng",
+  parser: {
+    analyzers: ["pcapng"],
+    // pcapng Section Header Block type 0x0A0D0D0A is palindromic, so it reads the same in
+    // either byte order.
+    probe: ({ view }) => view.byteLength >= 4 && view.getUint32(0, false) === 0x0a0d0d0a,
+    parse: async ({ file }) => {
+      const pcapng = await parsePcapNg(file);
+      return pcapng && { analyzer: "pcapng", parsed: pcapng };
+    },
+    nestedAnalysis: false
+  }
+};
+
+// Classic libpcap magic numbers: microsecond and nanosecond variants in both byte orders.
+const PCAP_MAGIC_NUMBERS: readonly number[] = [0xa1b2c3d4, 0xa1b23c4d, 0xd4c3b2a1, 0x4d3cb2a1];
+
+const pcapFormat: FormatDescriptor = {
+  id: "pcap",
+  parser: {
+    analyzers: ["pcap"],
+    probe: ({ view }) => view.byteLength >= 4 && PCAP_MAGIC_NUMBERS.includes(view.getUint32(0, false)),
+    parse: async ({ file }) => {
+      const pcap = await parsePcap(file);
+      return pcap && { analyzer: "pcap", parsed: pcap };
+    },
+    nestedAnalysis: false
+  }
+};
+
+// HEIF/HEIC brands ("heic", "heix", "hevc") share the ftyp box but are not handled by the MP4 parser.
+const HEIF_BRANDS: readonly number[] = [0x68656963, 0x68656978, 0x68657663];
+
+const mp4Format: FormatDescriptor = {
+  id: "mp4",
+  parser: {
+    analyzers: ["mp4"],
+    probe: ({ view }) =>
+      view.byteLength >= 12 &&
+      view.getUint32(4, false) === 0x66747970 &&
+      !HEIF_BRANDS.includes(view.getUint32(8, false)),
+    parse: async ({ file }) => {
+      const mp4 = await parseMp4(file);
+      return mp4 && { analyzer: "mp4", parsed: mp4 };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const mpegPsFormat: FormatDescriptor = {
+  id: "mpegps",
+  parser: {
+    analyzers: ["mpegps"],
+    // ISO/IEC 13818-1 2.5.3.3: pack_start_code 0x000001BA.
+    probe: ({ view }) => view.byteLength >= 4 && view.getUint32(0, false) === 0x000001ba,
+    parse: async ({ file }) => {
+      const mpegps = await parseMpegPs(file);
+      return mpegps && { analyzer: "mpegps", parsed: mpegps };
+    },
+    nestedAnalysis: false
+  }
+};
+
+const matroskaFormat: FormatDescriptor = {
+  id: "matroska",
+  parser: {
+    analyzers: ["webm", "mkv"],
+    // RFC 8794 section 8: EBML header element ID 0x1A45DFA3.
+    probe: ({ view }) => view.byteLength >= 4 && view.getUint32(0, false) === 0x1a45dfa3,
+    parse: async ({ file }) => {
+      const webm = await parseWebm(file);
+      if (!webm) return null;
+      return webm.isWebm ? { analyzer: "webm", parsed: webm } : { analyzer: "mkv", parsed: webm };
+    },
+    nestedAnalysis: false
+  }
+};
+
+export const streamingMediaFormats: readonly FormatDescriptor[] = [
+  webpFormat,
+  wavFormat,
+  aviFormat,
+  aniFormat,
+  asfFormat,
+  pcapNgFormat,
+  pcapFormat,
+  mp4Format,
+  mpegPsFormat,
+  matroskaFormat
+];
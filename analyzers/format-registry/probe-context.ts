@@ -0,0 +1,15 @@
+"use strict";
+
+import { DEFAULT_FILE_READ_WINDOW_BYTES } from "../file-range-reader.js";
+import type { FormatProbeContext } from "./types.js";
+
+export const readSliceView = async (file: File, start: number, end: number): Promise<DataView> => {
+  const safeStart = Math.max(0, Math.min(Math.trunc(start), file.size));
+  const safeEnd = Math.max(safeStart, Math.min(Math.trunc(end), file.size));
+  return new DataView(await file.slice(safeStart, safeEnd).arrayBuffer());
+};
+
+export const createFormatProbeContext = async (file: File): Promise<FormatProbeContext> => ({
+  file,
+  view: await readSliceView(file, 0, Math.min(file.size, DEFAULT_FILE_READ_WINDOW_BYTES))
+});
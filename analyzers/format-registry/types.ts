@@ -0,0 +1,37 @@
+"use strict";
+
+import type { AnalyzerName, AnalyzerResult } from "../analyzer-types.js";
+import type { ProbeResult } from "../probes/probe-types.js";
+
+export interface FormatProbeContext {
+  readonly file: File;
+  // Leading bytes of the file, at most DEFAULT_FILE_READ_WINDOW_BYTES long.
+  readonly view: DataView;
+}
+
+// Cheap guard over the probe window; a full parse runs only when it passes.
+export type FormatProbe = (context: FormatProbeContext) => boolean | Promise<boolean>;
+
+// Full parse; returning null lets routing fall through to later entries.
+export type FormatParse = (context: FormatProbeContext) => Promise<AnalyzerResult | null>;
+
+// Human-readable label for detectBinaryType; null lets detection fall through to later entries.
+export type FormatLabelBuilder = (context: FormatProbeContext) => ProbeResult | Promise<ProbeResult>;
+
+export interface FormatParser {
+  // Every analyzer name `parse` may report; renderers and previews are keyed by these names.
+  readonly analyzers: readonly AnalyzerName[];
+  readonly probe: FormatProbe;
+  readonly parse: FormatParse;
+  // True when parsed results expose inner payloads that can be fed back through parseForUi.
+  readonly nestedAnalysis: boolean;
+}
+
+export interface FormatDescriptor {
+  readonly id: string;
+  readonly label?: FormatLabelBuilder;
+  readonly parser?: FormatParser;
+}
+
+// Registry order is routing priority for both parseForUi and detectBinaryType.
+export type FormatRegistry = readonly FormatDescriptor[];
@@ -0,0 +1,18 @@
+"use strict";
+
+import { DOMParser as XmlDomParser } from "@xmldom/xmldom";
+import { parseFb2WithXmlParser } from "../fb2/index.js";
+import type { PeImportMetadataLookup } from "../pe/imports/winapi-metadata.js";
+import { createFormatRegistry } from "./index.js";
+import type { FormatRegistry } from "./types.js";
+
+// Web Workers and Node have no DOMParser, so FB2 and PE manifest markup go through xmldom there.
+const parseXmlDomDocument = (text: string) =>
+  new XmlDomParser({ onError: () => {} }).parseFromString(text, "application/xml");
+
+export const createXmlDomFormatRegistry = (importMetadataLookup?: PeImportMetadataLookup): FormatRegistry =>
+  createFormatRegistry(
+    file => parseFb2WithXmlParser(file, parseXmlDomDocument),
+    parseXmlDomDocument,
+    importMetadataLookup
+  );
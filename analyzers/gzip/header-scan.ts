@@ -1,4 +1,5 @@
 "use strict";
+import { reportDiagnostic, type DiagnosticLog, type ReportedDiagnostic } from "../diagnostics/index.js";
 import type { GzipHeader, GzipHeaderFlags } from "./types.js";
 import {
   GZIP_BASE_HEADER_BYTES,
@@ -31,15 +32,15 @@ const OS_NAMES: Record<number, string> = {
   255: "Unknown"
 };
 
-export type GzipHeaderScanState = { file: Blob; headerBytes: Uint8Array; issues: string[] };
+export type GzipHeaderScanState = DiagnosticLog & { file: Blob; headerBytes: Uint8Array };
 
 const describeCompressionMethod = (method: number): string | null =>
   method === GZIP_DEFLATE_COMPRESSION_METHOD ? "Deflate" : null;
 const describeOs = (os: number): string | null => OS_NAMES[os] || null;
 
-export const pushGzipIssue = (issues: string[], message: string): void => {
-  if (issues.length >= MAX_ISSUES) return;
-  issues.push(message);
+export const pushGzipIssue = (log: DiagnosticLog, diagnostic: ReportedDiagnostic): void => {
+  if (log.issues.length >= MAX_ISSUES) return;
+  reportDiagnostic(log, diagnostic);
 };
 
 const readUint16le = (bytes: Uint8Array, offset: number): number | null => {
@@ -98,7 +99,12 @@ const readNullTerminatedField = async (
       };
     }
     if (state.headerBytes.length >= MAX_HEADER_SCAN_BYTES) {
-      pushGzipIssue(state.issues, `${fieldLabel} is not NUL-terminated within ${MAX_HEADER_SCAN_BYTES} bytes; stopping header parsing.`);
+      pushGzipIssue(state, {
+        code: "gzip.header-field-unterminated",
+        severity: "error",
+        message: `${fieldLabel} is not NUL-terminated within ${MAX_HEADER_SCAN_BYTES} bytes; stopping header parsing.`,
+        offset: startOffset
+      });
       return null;
     }
     const prevLength = state.headerBytes.length;
@@ -107,7 +113,12 @@ const readNullTerminatedField = async (
       Math.min(MAX_HEADER_SCAN_BYTES, Math.max(state.headerBytes.length * 2, scanOffset + 1))
     );
     if (!(await ensureHeaderBytes(state, nextEnd))) {
-      pushGzipIssue(state.issues, `${fieldLabel} is too large to scan safely; stopping header parsing.`);
+      pushGzipIssue(state, {
+        code: "gzip.header-field-too-large",
+        severity: "error",
+        message: `${fieldLabel} is too large to scan safely; stopping header parsing.`,
+        offset: startOffset
+      });
       return null;
     }
     scanOffset = prevLength;
@@ -156,26 +167,38 @@ export const parseGzipOptionalHeader = async (
     cursor = header.extra ? cursor + 2 + header.extra.dataLength : cursor;
   }
   if (!headerParseFailed && header.flags.fname) {
-    const res = await readNullTerminatedField(state, "Original filename", cursor);
+    const fieldOffset = cursor;
+    const res = await readNullTerminatedField(state, "Original filename", fieldOffset);
     headerParseFailed = !res;
     if (res) {
       header.fileName = res.value;
       cursor = res.endOffset;
       if (res.truncated) {
         headerParseFailed = true;
-        pushGzipIssue(state.issues, "Original filename is not NUL-terminated (truncated).");
+        pushGzipIssue(state, {
+          code: "gzip.file-name-truncated",
+          severity: "error",
+          message: "Original filename is not NUL-terminated (truncated).",
+          offset: fieldOffset
+        });
       }
     }
   }
   if (!headerParseFailed && header.flags.fcomment) {
-    const res = await readNullTerminatedField(state, "Comment", cursor);
+    const fieldOffset = cursor;
+    const res = await readNullTerminatedField(state, "Comment", fieldOffset);
     headerParseFailed = !res;
     if (res) {
       header.comment = res.value;
       cursor = res.endOffset;
       if (res.truncated) {
         headerParseFailed = true;
-        pushGzipIssue(state.issues, "Comment is not NUL-terminated (truncated).");
+        pushGzipIssue(state, {
+          code: "gzip.comment-truncated",
+          severity: "error",
+          message: "Comment is not NUL-terminated (truncated).",
+          offset: fieldOffset
+        });
       }
     }
   }
@@ -184,18 +207,32 @@ export const parseGzipOptionalHeader = async (
   if (!headerParseFailed) header.headerBytesTotal = header.flags.fhcrc ? cursor + 2 : cursor;
 };
 
+const extraLengthMissing = (offset: number): ReportedDiagnostic => ({
+  code: "gzip.extra-length-missing",
+  severity: "error",
+  message: "Extra field length (XLEN) is missing.",
+  offset
+});
+
+const headerCrcMissing = (offset: number): ReportedDiagnostic => ({
+  code: "gzip.header-crc-missing",
+  severity: "error",
+  message: "Header CRC16 (FHCRC) flag is set but bytes are missing.",
+  offset
+});
+
 const parseExtraField = async (
   state: GzipHeaderScanState,
   header: GzipHeader,
   cursor: number
 ): Promise<boolean> => {
   if (!(await ensureHeaderBytes(state, cursor + 2))) {
-    pushGzipIssue(state.issues, "Extra field length (XLEN) is missing.");
+    pushGzipIssue(state, extraLengthMissing(cursor));
     return true;
   }
   const xlen = readUint16le(state.headerBytes, cursor);
   if (xlen == null) {
-    pushGzipIssue(state.issues, "Extra field length (XLEN) is missing.");
+    pushGzipIssue(state, extraLengthMissing(cursor));
     return true;
   }
   const extraStart = cursor + 2;
@@ -204,7 +241,13 @@ const parseExtraField = async (
   const available = Math.max(0, Math.min(state.headerBytes.length, extraEnd) - extraStart);
   header.extra = { xlen, dataLength: available, truncated: !hasExtraData || available < xlen };
   if (!header.extra.truncated) return false;
-  pushGzipIssue(state.issues, `Extra field is truncated (${available}/${xlen} bytes).`);
+  pushGzipIssue(state, {
+    code: "gzip.extra-field-truncated",
+    severity: "error",
+    message: `Extra field is truncated (${available}/${xlen} bytes).`,
+    offset: extraStart,
+    length: xlen
+  });
   return true;
 };
 
@@ -214,12 +257,12 @@ const parseHeaderCrc = async (
   cursor: number
 ): Promise<boolean> => {
   if (!(await ensureHeaderBytes(state, cursor + 2))) {
-    pushGzipIssue(state.issues, "Header CRC16 (FHCRC) flag is set but bytes are missing.");
+    pushGzipIssue(state, headerCrcMissing(cursor));
     return true;
   }
   const crc16 = readUint16le(state.headerBytes, cursor);
   if (crc16 == null) {
-    pushGzipIssue(state.issues, "Header CRC16 (FHCRC) flag is set but bytes are missing.");
+    pushGzipIssue(state, headerCrcMissing(cursor));
     return true;
   }
   header.headerCrc16 = crc16;
@@ -1,4 +1,5 @@
 "use strict";
+import type { DiagnosticLog } from "../diagnostics/index.js";
 import type { GzipParseResult, GzipStreamLayout, GzipTrailer } from "./types.js";
 import {
   type GzipHeaderScanState,
@@ -20,12 +21,18 @@ const readGzipTrailer = async (
   file: Blob,
   trailer: GzipTrailer,
   stream: GzipStreamLayout,
-  issues: string[]
+  log: DiagnosticLog
 ): Promise<void> => {
   if (file.size < TRAILER_SIZE) {
     trailer.truncated = true;
     stream.truncatedFile = true;
-    pushGzipIssue(issues, `Gzip trailer is truncated (${file.size}/${TRAILER_SIZE} bytes).`);
+    pushGzipIssue(log, {
+      code: "gzip.trailer-truncated",
+      severity: "error",
+      message: `Gzip trailer is truncated (${file.size}/${TRAILER_SIZE} bytes).`,
+      offset: 0,
+      length: file.size
+    });
     return;
   }
   const trailerOffset = file.size - TRAILER_SIZE;
@@ -36,7 +43,13 @@ const readGzipTrailer = async (
   if (crc32 == null || isize == null) {
     trailer.truncated = true;
     stream.truncatedFile = true;
-    pushGzipIssue(issues, "Gzip trailer is truncated.");
+    pushGzipIssue(log, {
+      code: "gzip.trailer-truncated",
+      severity: "error",
+      message: "Gzip trailer is truncated.",
+      offset: trailerOffset,
+      length: trailerBytes.length
+    });
   } else {
     trailer.crc32 = crc32;
     trailer.isize = isize;
@@ -48,7 +61,7 @@ const finalizeGzipLayout = (
   headerBytesTotal: number | null,
   trailer: GzipTrailer,
   stream: GzipStreamLayout,
-  issues: string[]
+  log: DiagnosticLog
 ): void => {
   if (
     headerBytesTotal != null &&
@@ -63,23 +76,34 @@ const finalizeGzipLayout = (
   } else if (headerBytesTotal != null) {
     stream.truncatedFile = true;
     trailer.truncated = true;
-    pushGzipIssue(issues, "File is too small to contain both a gzip header and trailer.");
+    pushGzipIssue(log, {
+      code: "gzip.file-too-small",
+      severity: "error",
+      message: "File is too small to contain both a gzip header and trailer.",
+      offset: 0,
+      length: file.size
+    });
   }
   if (stream.compressedSize != null && stream.compressedSize < 0) {
     stream.truncatedFile = true;
-    pushGzipIssue(issues, "Computed compressed stream size is negative (corrupt layout).");
+    pushGzipIssue(log, {
+      code: "gzip.negative-stream-size",
+      severity: "error",
+      message: "Computed compressed stream size is negative (corrupt layout).",
+      offset: headerBytesTotal ?? 0
+    });
     stream.compressedSize = null;
   }
 };
 
 export const parseGzip = async (file: Blob): Promise<GzipParseResult | null> => {
-  const issues: string[] = [];
+  const log: DiagnosticLog = { issues: [], diagnostics: [] };
   const firstBytes = new Uint8Array(
     await file.slice(0, Math.min(file.size, GZIP_BASE_HEADER_BYTES)).arrayBuffer()
   );
   if (firstBytes.length < 2) return null;
   if (firstBytes[0] !== GZIP_ID1 || firstBytes[1] !== GZIP_ID2) return null;
-  const state: GzipHeaderScanState = { file, headerBytes: firstBytes, issues };
+  const state: GzipHeaderScanState = { ...log, file, headerBytes: firstBytes };
   const header = createGzipHeader(firstBytes);
   const trailer: GzipTrailer = { crc32: null, isize: null, truncated: false };
   const stream: GzipStreamLayout = {
@@ -89,28 +113,40 @@ export const parseGzip = async (file: Blob): Promise<GzipParseResult | null> =>
     truncatedFile: false
   };
   if (header.compressionMethod != null && header.compressionMethod !== GZIP_DEFLATE_COMPRESSION_METHOD) {
-    pushGzipIssue(
-      issues,
-      `Unsupported gzip compression method ${header.compressionMethod} ` +
-        `(expected ${GZIP_DEFLATE_COMPRESSION_METHOD}/Deflate).`
-    );
+    pushGzipIssue(log, {
+      code: "gzip.unsupported-compression-method",
+      severity: "warning",
+      message: `Unsupported gzip compression method ${header.compressionMethod} ` +
+        `(expected ${GZIP_DEFLATE_COMPRESSION_METHOD}/Deflate).`,
+      offset: 2,
+      length: 1
+    });
   }
   if (header.flags.reservedBits !== 0) {
-    pushGzipIssue(issues, `Gzip header has reserved flag bits set: 0x${header.flags.reservedBits.toString(16)}.`);
+    pushGzipIssue(log, {
+      code: "gzip.reserved-flags-set",
+      severity: "warning",
+      message: `Gzip header has reserved flag bits set: 0x${header.flags.reservedBits.toString(16)}.`,
+      offset: 3,
+      length: 1
+    });
   }
   if (firstBytes.length < GZIP_BASE_HEADER_BYTES) {
     header.truncated = true;
     trailer.truncated = true;
     stream.truncatedFile = true;
-    pushGzipIssue(
-      issues,
-      `Gzip base header is truncated (${firstBytes.length}/${GZIP_BASE_HEADER_BYTES} bytes).`
-    );
-    return { isGzip: true, fileSize: file.size, header, trailer, stream, issues };
+    pushGzipIssue(log, {
+      code: "gzip.base-header-truncated",
+      severity: "error",
+      message: `Gzip base header is truncated (${firstBytes.length}/${GZIP_BASE_HEADER_BYTES} bytes).`,
+      offset: 0,
+      length: firstBytes.length
+    });
+    return { isGzip: true, fileSize: file.size, header, trailer, stream, ...log };
   }
   await parseGzipOptionalHeader(state, header);
   if (header.truncated) stream.truncatedFile = true;
-  await readGzipTrailer(file, trailer, stream, issues);
-  finalizeGzipLayout(file, header.headerBytesTotal, trailer, stream, issues);
-  return { isGzip: true, fileSize: file.size, header, trailer, stream, issues };
+  await readGzipTrailer(file, trailer, stream, log);
+  finalizeGzipLayout(file, header.headerBytesTotal, trailer, stream, log);
+  return { isGzip: true, fileSize: file.size, header, trailer, stream, ...log };
 };
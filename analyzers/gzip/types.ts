@@ -1,5 +1,7 @@
 "use strict";
 
+import type { ReportedDiagnostic } from "../diagnostics/index.js";
+
 export type GzipHeaderFlags = {
   ftext: boolean;
   fhcrc: boolean;
@@ -51,5 +53,6 @@ export type GzipParseResult = {
   trailer: GzipTrailer;
   stream: GzipStreamLayout;
   issues: string[];
+  diagnostics: ReportedDiagnostic[];
 };
 
@@ -0,0 +1,75 @@
+"use strict";
+
+import { blake3 } from "@noble/hashes/blake3.js";
+import { bufferToHex } from "../../binary-utils.js";
+import { finishCrc32, updateCrc32 } from "../crc32.js";
+import { createSsdeep } from "./ssdeep.js";
+import { createTlsh } from "./tlsh.js";
+import { createXxh64 } from "./xxhash64.js";
+
+// Hashes whose printable form is not a plain digest (fuzzy signatures) or that @noble/hashes
+// lacks. Each one is fed the file chunk by chunk and printed the way its reference tool does.
+export type TextHashId = "crc32" | "xxh64" | "blake3" | "ssdeep" | "tlsh";
+
+export interface TextHasher {
+  update(bytes: Uint8Array): void;
+  digest(): string;
+}
+
+const createCrc32Hasher = (): TextHasher => {
+  let state = 0xffffffff;
+  return {
+    update: bytes => { state = updateCrc32(state, bytes); },
+    digest: () => finishCrc32(state).toString(16).padStart(8, "0")
+  };
+};
+
+const createXxh64Hasher = (): TextHasher => {
+  const state = createXxh64();
+  return {
+    update: bytes => state.update(bytes),
+    digest: () => state.digest().toString(16).padStart(16, "0")
+  };
+};
+
+const createBlake3Hasher = (): TextHasher => {
+  const state = blake3.create();
+  return {
+    update: bytes => { state.update(bytes); },
+    digest: () => bufferToHex(state.digest())
+  };
+};
+
+const TEXT_HASHERS: Readonly<Record<TextHashId, () => TextHasher>> = {
+  crc32: createCrc32Hasher,
+  xxh64: createXxh64Hasher,
+  blake3: createBlake3Hasher,
+  ssdeep: createSsdeep,
+  tlsh: createTlsh
+};
+
+export const isTextHashId = (value: unknown): value is TextHashId =>
+  typeof value === "string" && Object.hasOwn(TEXT_HASHERS, value);
+
+export const createTextHasher = (id: TextHashId): TextHasher => TEXT_HASHERS[id]();
+
+// Streams the file once through every requested hasher.
+export const computeTextHashes = async <Id extends TextHashId>(
+  ids: readonly Id[],
+  file: Blob,
+  signal?: AbortSignal
+): Promise<Record<Id, string>> => {
+  const hashers = ids.map(id => [id, createTextHasher(id)] as const);
+  const reader = file.stream().getReader();
+  try {
+    let result = await reader.read();
+    while (!result.done) {
+      signal?.throwIfAborted();
+      for (const [, hasher] of hashers) hasher.update(result.value);
+      result = await reader.read();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  return Object.fromEntries(hashers.map(([id, hasher]) => [id, hasher.digest()])) as Record<Id, string>;
+};
@@ -0,0 +1,176 @@
+"use strict";
+
+// Context triggered piecewise hashing as implemented by ssdeep/libfuzzy 2.x (fuzzy.c).
+// https://github.com/ssdeep-project/ssdeep
+const ROLLING_WINDOW = 7;
+const MIN_BLOCK_SIZE = 3;
+const BLOCK_HASH_COUNT = 31;
+const SPAMSUM_LENGTH = 64;
+const HASH_INIT = 0x27;
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+const blockSize = (index: number): number => MIN_BLOCK_SIZE * 2 ** index;
+
+// libfuzzy keeps only the low six bits of its FNV-style piece hash; 0x01000193 mod 64 is 19.
+const sumHash = (byte: number, hash: number): number => ((hash * 19) ^ byte) & 0x3f;
+
+// \`pending\` and \`halfDigest\` mirror libfuzzy's digest[dlen] and halfdigest: the character a
+// trigger wrote without advancing the signature, printed when the input ends on a zero roll.
+interface BlockHash {
+  digest: string;
+  pending: string;
+  halfDigest: string;
+  h: number;
+  halfH: number;
+}
+
+export interface SsdeepState {
+  update(bytes: Uint8Array): void;
+  digest(): string;
+}
+
+export const createSsdeep = (): SsdeepState => {
+  const window = new Uint8Array(ROLLING_WINDOW);
+  let h1 = 0;
+  let h2 = 0;
+  let h3 = 0;
+  let rollCount = 0;
+  let totalSize = 0;
+  let start = 0;
+  const blocks: BlockHash[] = [{ digest: "", pending: "", halfDigest: "", h: HASH_INIT, halfH: HASH_INIT }];
+  const fork = (): void => {
+    if (blocks.length >= BLOCK_HASH_COUNT) return;
+    const last = blocks[blocks.length - 1]!;
+    blocks.push({ digest: "", pending: "", halfDigest: "", h: last.h, halfH: last.halfH });
+  };
+  // The smallest block size is dropped once it is too small for the input and the next one
+  // already holds half a signature.
+  const reduce = (): void => {
+    if (blocks.length - start < 2) return;
+    if (blockSize(start) * SPAMSUM_LENGTH >= totalSize) return;
+    if (blocks[start + 1]!.digest.length < SPAMSUM_LENGTH / 2) return;
+    start += 1;
+  };
+  const step = (byte: number): void => {
+    h2 = (h2 - h1 + ROLLING_WINDOW * byte) >>> 0;
+    h1 = (h1 + byte - window[rollCount % ROLLING_WINDOW]!) >>> 0;
+    window[rollCount % ROLLING_WINDOW] = byte;
+    rollCount += 1;
+    h3 = ((h3 << 5) ^ byte) >>> 0;
+    const roll = (h1 + h2 + h3) >>> 0;
+    for (let index = start; index < blocks.length; index += 1) {
+      const block = blocks[index]!;
+      block.h = sumHash(byte, block.h);
+      block.halfH = sumHash(byte, block.halfH);
+    }
+    for (let index = start; index < blocks.length; index += 1) {
+      const size = blockSize(index);
+      // A trigger for one block size implies the trigger for every smaller one.
+      if (roll % size !== size - 1) break;
+      const block = blocks[index]!;
+      if (!block.digest.length) fork();
+      block.pending = BASE64[block.h]!;
+      block.halfDigest = BASE64[block.halfH]!;
+      if (block.digest.length < SPAMSUM_LENGTH - 1) {
+        block.digest += block.pending;
+        block.pending = "";
+        block.h = HASH_INIT;
+        if (block.digest.length < SPAMSUM_LENGTH / 2) {
+          block.halfH = HASH_INIT;
+          block.halfDigest = "";
+        }
+      } else {
+        reduce();
+      }
+    }
+  };
+  return {
+    update: bytes => {
+      for (const byte of bytes) {
+        totalSize += 1;
+        step(byte);
+      }
+    },
+    digest: () => {
+      const hasTail = ((h1 + h2 + h3) >>> 0) !== 0;
+      let index = start;
+      while (blockSize(index) * SPAMSUM_LENGTH < totalSize && index < BLOCK_HASH_COUNT - 1) index += 1;
+      index = Math.min(index, blocks.length - 1);
+      while (index > start && blocks[index]!.digest.length < SPAMSUM_LENGTH / 2) index -= 1;
+      const block = blocks[index]!;
+      let result = `${blockSize(index)}:${block.digest}${hasTail ? BASE64[block.h] : block.pending}:`;
+      const next = blocks[index + 1];
+      if (next) {
+        result += next.digest.slice(0, SPAMSUM_LENGTH / 2 - 1) + (hasTail ? BASE64[next.halfH] : next.halfDigest);
+      } else if (hasTail) {
+        result += BASE64[block.h];
+      }
+      return result;
+    }
+  };
+};
+
+export const ssdeep = (bytes: Uint8Array): string => {
+  const state = createSsdeep();
+  state.update(bytes);
+  return state.digest();
+};
+
+// Runs of more than three identical characters carry little information and are shortened.
+const eliminateSequences = (text: string): string =>
+  text.replace(/(.)\1{3,}/g, "$1$1$1");
+
+const hasCommonSubstring = (left: string, right: string): boolean => {
+  for (let index = 0; index + ROLLING_WINDOW <= left.length; index += 1) {
+    if (right.includes(left.slice(index, index + ROLLING_WINDOW))) return true;
+  }
+  return false;
+};
+
+// Levenshtein distance where a substitution costs as much as a removal plus an insertion.
+const editDistance = (left: string, right: string): number => {
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+  for (let row = 1; row <= left.length; row += 1) {
+    const current = [row];
+    for (let column = 1; column <= right.length; column += 1) {
+      const replace = previous[column - 1]! + (left[row - 1] === right[column - 1] ? 0 : 2);
+      current.push(Math.min(previous[column]! + 1, current[column - 1]! + 1, replace));
+    }
+    previous = current;
+  }
+  return previous[right.length]!;
+};
+
+const scoreStrings = (left: string, right: string, size: number): number => {
+  if (left.length > SPAMSUM_LENGTH || right.length > SPAMSUM_LENGTH) return 0;
+  if (!hasCommonSubstring(left, right)) return 0;
+  const distance = Math.floor((editDistance(left, right) * SPAMSUM_LENGTH) / (left.length + right.length));
+  const penalty = Math.floor((100 * distance) / SPAMSUM_LENGTH);
+  if (penalty >= 100) return 0;
+  const score = 100 - penalty;
+  // Small block sizes cannot claim more similarity than the signatures are long.
+  if (size >= Math.floor((99 + ROLLING_WINDOW) / ROLLING_WINDOW) * MIN_BLOCK_SIZE) return score;
+  return Math.min(score, Math.floor(size / MIN_BLOCK_SIZE) * Math.min(left.length, right.length));
+};
+
+const parseSignature = (signature: string): [number, string, string] | null => {
+  const match = /^(\d+):([A-Za-z0-9+/]*):([A-Za-z0-9+/]*)/.exec(signature.trim());
+  if (!match) return null;
+  return [Number(match[1]), eliminateSequences(match[2]!), eliminateSequences(match[3]!)];
+};
+
+// Match score from 0 to 100 for two signatures, or null when either one is malformed.
+export const compareSsdeep = (left: string, right: string): number | null => {
+  const first = parseSignature(left);
+  const second = parseSignature(right);
+  if (!first || !second) return null;
+  const [size1, first1, first2] = first;
+  const [size2, second1, second2] = second;
+  if (size1 === size2 && first1 === second1 && first2 === second2) return 100;
+  if (size1 === size2) {
+    return Math.max(scoreStrings(first1, second1, size1), scoreStrings(first2, second2, size1 * 2));
+  }
+  if (size1 * 2 === size2) return scoreStrings(second1, first2, size2);
+  if (size2 * 2 === size1) return scoreStrings(first1, second2, size1);
+  return 0;
+};
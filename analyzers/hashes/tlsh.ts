@@ -0,0 +1,156 @@
+"use strict";
+
+// TLSH 4.x with 128 buckets and a one-byte checksum, printed with the "T1" version prefix.
+// https://github.com/trendmicro/tlsh
+const PEARSON_TABLE = Uint8Array.from([
+  1, 87, 49, 12, 176, 178, 102, 166, 121, 193, 6, 84, 249, 230, 44, 163,
+  14, 197, 213, 181, 161, 85, 218, 80, 64, 239, 24, 226, 236, 142, 38, 200,
+  110, 177, 104, 103, 141, 253, 255, 50, 77, 101, 81, 18, 45, 96, 31, 222,
+  25, 107, 190, 70, 86, 237, 240, 34, 72, 242, 20, 214, 244, 227, 149, 235,
+  97, 234, 57, 22, 60, 250, 82, 175, 208, 5, 127, 199, 111, 62, 135, 248,
+  174, 169, 211, 58, 66, 154, 106, 195, 245, 171, 17, 187, 182, 179, 0, 243,
+  132, 56, 148, 75, 128, 133, 158, 100, 130, 126, 91, 13, 153, 246, 216, 219,
+  119, 68, 223, 78, 83, 88, 201, 99, 122, 11, 92, 32, 136, 114, 52, 10,
+  138, 30, 48, 183, 156, 35, 61, 26, 143, 74, 251, 94, 129, 162, 63, 152,
+  170, 7, 115, 167, 241, 206, 3, 150, 55, 59, 151, 220, 90, 53, 23, 131,
+  125, 173, 15, 238, 79, 95, 89, 16, 105, 137, 225, 224, 217, 160, 37, 123,
+  118, 73, 2, 157, 46, 116, 9, 145, 134, 228, 207, 212, 202, 215, 69, 229,
+  27, 188, 67, 124, 168, 252, 42, 4, 29, 108, 21, 247, 19, 205, 39, 203,
+  233, 40, 186, 147, 198, 192, 155, 33, 164, 191, 98, 204, 165, 180, 117, 76,
+  140, 36, 210, 172, 41, 54, 159, 8, 185, 232, 113, 196, 231, 47, 146, 120,
+  51, 65, 28, 144, 254, 221, 93, 189, 194, 139, 112, 43, 71, 109, 184, 209
+]);
+const WINDOW_SIZE = 5;
+const BUCKET_COUNT = 128;
+const CODE_SIZE = BUCKET_COUNT / 4;
+const MIN_DATA_LENGTH = 50;
+// Each triplet picks a salt and two earlier window bytes to pair with the newest byte.
+const TRIPLETS: ReadonlyArray<readonly [number, number, number]> = [
+  [2, 1, 2], [3, 1, 3], [5, 2, 3], [7, 2, 4], [11, 1, 4], [13, 3, 4]
+];
+
+export const TLSH_NULL = "TNULL";
+
+const pearson = (salt: number, first: number, second: number, third: number): number =>
+  PEARSON_TABLE[PEARSON_TABLE[PEARSON_TABLE[PEARSON_TABLE[salt]! ^ first]! ^ second]! ^ third]!;
+
+const swapNibbles = (value: number): number => ((value & 0x0f) << 4) | (value >> 4);
+
+// Log-scaled length so that files of similar size share a value.
+const captureLength = (length: number): number => {
+  const log = Math.log(length);
+  if (length <= 656) return Math.floor(log / 0.4054651) & 0xff;
+  if (length <= 3199) return Math.floor(log / 0.26236426 - 8.72777) & 0xff;
+  return Math.floor(log / 0.09531018 - 62.5472) & 0xff;
+};
+
+const toHex = (bytes: readonly number[]): string =>
+  bytes.map(byte => byte.toString(16).padStart(2, "0")).join("").toUpperCase();
+
+export interface TlshState {
+  update(bytes: Uint8Array): void;
+  digest(): string;
+}
+
+export const createTlsh = (): TlshState => {
+  const buckets = new Uint32Array(256);
+  const window = new Uint8Array(WINDOW_SIZE);
+  let checksum = 0;
+  let length = 0;
+  const at = (back: number): number => window[(length - back + WINDOW_SIZE) % WINDOW_SIZE]!;
+  return {
+    update: bytes => {
+      for (const byte of bytes) {
+        window[length % WINDOW_SIZE] = byte;
+        if (length >= WINDOW_SIZE - 1) {
+          checksum = pearson(0, byte, at(1), checksum);
+          for (const [salt, second, third] of TRIPLETS) buckets[pearson(salt, byte, at(second), at(third))]! += 1;
+        }
+        length += 1;
+      }
+    },
+    digest: () => {
+      if (length < MIN_DATA_LENGTH) return TLSH_NULL;
+      const counts = buckets.subarray(0, BUCKET_COUNT);
+      const sorted = Uint32Array.from(counts).sort();
+      const [q1, q2, q3] = [sorted[CODE_SIZE - 1]!, sorted[CODE_SIZE * 2 - 1]!, sorted[CODE_SIZE * 3 - 1]!];
+      // Mostly empty buckets mean too little variety in the input to say anything.
+      if (q3 === 0 || counts.filter(count => count > 0).length <= BUCKET_COUNT / 2) return TLSH_NULL;
+      const code: number[] = [];
+      for (let index = 0; index < CODE_SIZE; index += 1) {
+        let packed = 0;
+        for (let slot = 0; slot < 4; slot += 1) {
+          const count = counts[index * 4 + slot]!;
+          const level = count > q3 ? 3 : count > q2 ? 2 : count > q1 ? 1 : 0;
+          packed |= level << (slot * 2);
+        }
+        code.push(packed);
+      }
+      const q1Ratio = Math.floor((q1 * 100) / q3) % 16;
+      const q2Ratio = Math.floor((q2 * 100) / q3) % 16;
+      // The C implementation prints each header byte with swapped nibbles and the body reversed.
+      return "T1" + toHex([
+        swapNibbles(checksum),
+        swapNibbles(captureLength(length)),
+        (q1Ratio << 4) | q2Ratio,
+        ...code.reverse()
+      ]);
+    }
+  };
+};
+
+export const tlsh = (bytes: Uint8Array): string => {
+  const state = createTlsh();
+  state.update(bytes);
+  return state.digest();
+};
+
+interface TlshFields {
+  checksum: number;
+  lValue: number;
+  q1Ratio: number;
+  q2Ratio: number;
+  code: number[];
+}
+
+const parseTlsh = (digest: string): TlshFields | null => {
+  const hex = digest.trim().replace(/^T1/i, "");
+  if (!/^[0-9a-f]{70}$/i.test(hex)) return null;
+  const bytes = Array.from({ length: 35 }, (_, index) => Number.parseInt(hex.slice(index * 2, index * 2 + 2), 16));
+  return {
+    checksum: swapNibbles(bytes[0]!),
+    lValue: swapNibbles(bytes[1]!),
+    q1Ratio: bytes[2]! >> 4,
+    q2Ratio: bytes[2]! & 0x0f,
+    code: bytes.slice(3)
+  };
+};
+
+const modDiff = (first: number, second: number, range: number): number => {
+  const distance = Math.abs(first - second);
+  return Math.min(distance, range - distance);
+};
+
+const ratioDiff = (first: number, second: number): number => {
+  const distance = modDiff(first, second, 16);
+  return distance <= 1 ? distance : (distance - 1) * 12;
+};
+
+// Distance between two digests including the length component; 0 means near-identical and
+// values above a few hundred mean unrelated. Null when either digest is not a T1 TLSH.
+export const compareTlsh = (left: string, right: string): number | null => {
+  const first = parseTlsh(left);
+  const second = parseTlsh(right);
+  if (!first || !second) return null;
+  const lengthDiff = modDiff(first.lValue, second.lValue, 256);
+  let distance = lengthDiff <= 1 ? lengthDiff : lengthDiff * 12;
+  distance += ratioDiff(first.q1Ratio, second.q1Ratio) + ratioDiff(first.q2Ratio, second.q2Ratio);
+  if (first.checksum !== second.checksum) distance += 1;
+  first.code.forEach((byte, index) => {
+    for (let shift = 0; shift < 8; shift += 2) {
+      const pair = Math.abs(((byte >> shift) & 3) - ((second.code[index]! >> shift) & 3));
+      distance += pair === 3 ? 6 : pair;
+    }
+  });
+  return distance;
+};
@@ -0,0 +1,88 @@
+"use strict";
+
+// XXH64 with seed 0, as specified in
+// https://github.com/Cyan4973/xxHash/blob/dev/doc/xxhash_spec.md
+const PRIME1 = 0x9e3779b185ebca87n;
+const PRIME2 = 0xc2b2ae3d27d4eb4fn;
+const PRIME3 = 0x165667b19e3779f9n;
+const PRIME4 = 0x85ebca77c2b2ae63n;
+const PRIME5 = 0x27d4eb2f165667c5n;
+const STRIPE_BYTES = 32;
+
+const u64 = (value: bigint): bigint => BigInt.asUintN(64, value);
+
+const rotl = (value: bigint, bits: bigint): bigint => u64((value << bits) | (value >> (64n - bits)));
+
+const round = (accumulator: bigint, lane: bigint): bigint =>
+  u64(rotl(u64(accumulator + lane * PRIME2), 31n) * PRIME1);
+
+const mergeRound = (hash: bigint, accumulator: bigint): bigint =>
+  u64((hash ^ round(0n, accumulator)) * PRIME1 + PRIME4);
+
+export interface Xxh64State {
+  update(bytes: Uint8Array): void;
+  digest(): bigint;
+}
+
+export const createXxh64 = (): Xxh64State => {
+  const lanes = [u64(PRIME1 + PRIME2), PRIME2, 0n, u64(-PRIME1)];
+  // Bytes that did not fill a whole stripe wait here for the next update.
+  const pending = new Uint8Array(STRIPE_BYTES);
+  const pendingView = new DataView(pending.buffer);
+  let pendingLength = 0;
+  let totalLength = 0n;
+  const consumeStripe = (view: DataView, offset: number): void => {
+    for (let lane = 0; lane < 4; lane += 1) {
+      lanes[lane] = round(lanes[lane]!, view.getBigUint64(offset + lane * 8, true));
+    }
+  };
+  return {
+    update: bytes => {
+      totalLength += BigInt(bytes.length);
+      let offset = 0;
+      if (pendingLength) {
+        const taken = Math.min(STRIPE_BYTES - pendingLength, bytes.length);
+        pending.set(bytes.subarray(0, taken), pendingLength);
+        pendingLength += taken;
+        offset = taken;
+        if (pendingLength < STRIPE_BYTES) return;
+        consumeStripe(pendingView, 0);
+        pendingLength = 0;
+      }
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      for (; offset + STRIPE_BYTES <= bytes.length; offset += STRIPE_BYTES) consumeStripe(view, offset);
+      pending.set(bytes.subarray(offset), 0);
+      pendingLength = bytes.length - offset;
+    },
+    digest: () => {
+      const [v1, v2, v3, v4] = lanes as [bigint, bigint, bigint, bigint];
+      let hash = totalLength >= STRIPE_BYTES
+        ? [v1, v2, v3, v4].reduce(mergeRound, u64(rotl(v1, 1n) + rotl(v2, 7n) + rotl(v3, 12n) + rotl(v4, 18n)))
+        : PRIME5;
+      hash = u64(hash + totalLength);
+      let offset = 0;
+      for (; offset + 8 <= pendingLength; offset += 8) {
+        hash ^= round(0n, pendingView.getBigUint64(offset, true));
+        hash = u64(rotl(hash, 27n) * PRIME1 + PRIME4);
+      }
+      if (offset + 4 <= pendingLength) {
+        hash ^= u64(BigInt(pendingView.getUint32(offset, true)) * PRIME1);
+        hash = u64(rotl(hash, 23n) * PRIME2 + PRIME3);
+        offset += 4;
+      }
+      for (; offset < pendingLength; offset += 1) {
+        hash ^= u64(BigInt(pending[offset]!) * PRIME5);
+        hash = u64(rotl(hash, 11n) * PRIME1);
+      }
+      hash = u64((hash ^ (hash >> 33n)) * PRIME2);
+      hash = u64((hash ^ (hash >> 29n)) * PRIME3);
+      return hash ^ (hash >> 32n);
+    }
+  };
+};
+
+export const xxh64 = (bytes: Uint8Array): bigint => {
+  const state = createXxh64();
+  state.update(bytes);
+  return state.digest();
+};
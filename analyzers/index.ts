@@ -1,5 +1,14 @@
 "use strict";
 
-export type { AnalyzerName, ParseForUiResult, ParsedByAnalyzer } from "./analyzer-types.js";
-export { detectBinaryType } from "./detect-binary-type.js";
+export type {
+  AnalyzerName,
+  AnalyzerParseMap,
+  AnalyzerResult,
+  ParseForUiResult,
+  ParsedByAnalyzer
+} from "./analyzer-types.js";
+export { createDetectBinaryType, detectBinaryType } from "./detect-binary-type.js";
+export { FORMAT_REGISTRY, createFormatRegistry } from "./format-registry/index.js";
+export type { FormatDescriptor, FormatParser, FormatRegistry } from "./format-registry/types.js";
 export { createParseForUi, parseForUi } from "./parse-for-ui.js";
+export type { ParseForUiOptions, ParseForUiProgress } from "./parse-for-ui.js";
@@ -0,0 +1,272 @@
+"use strict";
+
+import type { KsyExpression } from "./expression.js";
+import { KaitaiStream } from "./stream.js";
+import type { KaitaiEnumValue, KaitaiNode, KaitaiScalar, KsyType } from "./types.js";
+
+// A parsed user type: its seq fields, parameters and already computed instances.
+export interface KaitaiObject {
+  kind: "object";
+  type: KsyType;
+  fields: Map<string, KaitaiValue>;
+  params: Map<string, KaitaiValue>;
+  parent: KaitaiObject | null;
+  root: KaitaiObject | null;
+  io: KaitaiStream;
+  node: KaitaiNode;
+  // Nesting level of user types, bounded by the interpreter.
+  depth: number;
+}
+
+export type KaitaiValue = KaitaiScalar | KaitaiObject | KaitaiStream | KaitaiValue[] | null;
+
+export interface KaitaiScope {
+  object: KaitaiObject;
+  // `_` inside repeat-until, and `_index` inside repeats.
+  current?: KaitaiValue;
+  index?: number;
+  // Computes an instance of the object on first use.
+  instance: (object: KaitaiObject, name: string) => Promise<KaitaiValue | undefined>;
+}
+
+type Numeric = number | bigint;
+
+const textDecoderFor = (encoding: string): TextDecoder => {
+  try {
+    return new TextDecoder(encoding.toLowerCase() === "ascii" ? "latin1" : encoding);
+  } catch {
+    return new TextDecoder("utf-8");
+  }
+};
+
+export const decodeKaitaiString = (bytes: Uint8Array, encoding: string): string =>
+  textDecoderFor(encoding).decode(bytes);
+
+const isEnumValue = (value: KaitaiValue): value is KaitaiEnumValue =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && "kind" in value && value.kind === "enum";
+
+const isObject = (value: KaitaiValue): value is KaitaiObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && "kind" in value && value.kind === "object";
+
+const describeValue = (value: KaitaiValue): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Uint8Array) return "bytes";
+  if (value instanceof KaitaiStream) return "stream";
+  if (typeof value === "object") return value.kind === "enum" ? "enum" : `object ${value.type.name}`;
+  return typeof value;
+};
+
+export const toKaitaiNumber = (value: KaitaiValue, what: string): number => {
+  const raw = isEnumValue(value) ? value.value : value;
+  if (typeof raw === "number") return raw;
+  if (typeof raw === "bigint" && raw <= BigInt(Number.MAX_SAFE_INTEGER) && raw >= BigInt(Number.MIN_SAFE_INTEGER)) {
+    return Number(raw);
+  }
+  if (typeof raw === "boolean") return raw ? 1 : 0;
+  throw new Error(`${what} must be an integer, got ${describeValue(value)}`);
+};
+
+const toNumeric = (value: KaitaiValue, operator: string): Numeric => {
+  if (isEnumValue(value)) return value.value;
+  if (typeof value === "number" || typeof value === "bigint") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  throw new Error(`operator ${operator} needs numbers, got ${describeValue(value)}`);
+};
+
+export const isKaitaiTruthy = (value: KaitaiValue): boolean => {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  if (typeof value === "bigint") return value !== 0n;
+  return value !== null;
+};
+
+const bytesEqual = (left: Uint8Array, right: Uint8Array): boolean =>
+  left.length === right.length && left.every((byte, index) => byte === right[index]);
+
+const compare = (left: KaitaiValue, right: KaitaiValue): number => {
+  if (typeof left === "string" && typeof right === "string") return left < right ? -1 : left > right ? 1 : 0;
+  if (left instanceof Uint8Array && right instanceof Uint8Array) {
+    const length = Math.min(left.length, right.length);
+    for (let index = 0; index < length; index += 1) {
+      if (left[index] !== right[index]) return left[index]! - right[index]!;
+    }
+    return left.length - right.length;
+  }
+  const a = toNumeric(left, "comparison");
+  const b = toNumeric(right, "comparison");
+  if (typeof a === "bigint" || typeof b === "bigint") {
+    const [x, y] = [BigInt(a), BigInt(b)];
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+  return a - b;
+};
+
+export const isKaitaiEqual = (left: KaitaiValue, right: KaitaiValue): boolean => {
+  if (left instanceof Uint8Array && right instanceof Uint8Array) return bytesEqual(left, right);
+  if (typeof left === "string" || typeof right === "string") return left === right;
+  if (left === null || right === null) return left === right;
+  return compare(left, right) === 0;
+};
+
+// Integer `/` rounds towards negative infinity and `%` is never negative, as in Kaitai.
+const arithmetic = (operator: string, left: Numeric, right: Numeric): Numeric => {
+  if (typeof left === "bigint" || typeof right === "bigint") {
+    const [a, b] = [BigInt(left), BigInt(right)];
+    if ((operator === "/" || operator === "%") && b === 0n) throw new Error("division by zero");
+    const results: Record<string, () => bigint> = {
+      "+": () => a + b, "-": () => a - b, "*": () => a * b,
+      "/": () => (a / b) - ((a % b !== 0n) && ((a < 0n) !== (b < 0n)) ? 1n : 0n),
+      "%": () => ((a % b) + b) % b, "&": () => a & b, "|": () => a | b, "^": () => a ^ b,
+      "<<": () => a << b, ">>": () => a >> b
+    };
+    return results[operator]!();
+  }
+  const integers = Number.isInteger(left) && Number.isInteger(right);
+  const results: Record<string, () => Numeric> = {
+    "+": () => left + right, "-": () => left - right,
+    "*": () => (integers && !Number.isSafeInteger(left * right) ? BigInt(left) * BigInt(right) : left * right),
+    "/": () => (integers ? Math.floor(left / right) : left / right),
+    "%": () => ((left % right) + right) % right,
+    "&": () => Number(BigInt(left) & BigInt(right)), "|": () => Number(BigInt(left) | BigInt(right)),
+    "^": () => Number(BigInt(left) ^ BigInt(right)),
+    "<<": () => arithmetic("<<", BigInt(left), BigInt(right)), ">>": () => Math.floor(left / 2 ** right)
+  };
+  if ((operator === "/" || operator === "%") && right === 0 && integers) throw new Error("division by zero");
+  const result = results[operator]!();
+  return typeof result === "bigint" && result <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(result) : result;
+};
+
+const lookupName = async (scope: KaitaiScope, object: KaitaiObject, name: string): Promise<KaitaiValue> => {
+  if (name === "_root") return object.root ?? object;
+  if (name === "_parent") return object.parent;
+  if (name === "_io") return object.io;
+  const field = object.fields.get(name);
+  if (field !== undefined) return field;
+  const param = object.params.get(name);
+  if (param !== undefined) return param;
+  const instance = await scope.instance(object, name);
+  if (instance !== undefined) return instance;
+  throw new Error(`unknown name "${name}" in ${object.type.name}`);
+};
+
+const findEnum = (type: KsyType, path: readonly string[]): { name: string; labels: Map<string, string> } | null => {
+  const enumName = path[path.length - 1]!;
+  for (let scope: KsyType | null = type; scope; scope = scope.scope) {
+    let owner: KsyType | null = scope;
+    for (const part of path.slice(0, -1)) owner = owner?.types.get(part) ?? null;
+    const labels = owner?.enums.get(enumName);
+    if (labels) return { name: enumName, labels };
+  }
+  return null;
+};
+
+export const toKaitaiEnum = (type: KsyType, enumName: string, value: Numeric): KaitaiEnumValue => {
+  const labels = findEnum(type, enumName.split("::"))?.labels;
+  return { kind: "enum", enumName, value, label: labels?.get(BigInt(value).toString()) ?? null };
+};
+
+const applyMethod = (target: KaitaiValue, name: string, args: KaitaiValue[]): KaitaiValue => {
+  if (target instanceof KaitaiStream) {
+    if (name === "size") return target.size;
+    if (name === "pos") return target.pos;
+    if (name === "eof") return target.eof;
+  }
+  if (isEnumValue(target) && name === "to_i") return target.value;
+  if (typeof target === "string") {
+    if (name === "length") return [...target].length;
+    if (name === "reverse") return [...target].reverse().join("");
+    if (name === "to_i") return Number.parseInt(target, args.length ? toKaitaiNumber(args[0]!, "radix") : 10);
+    if (name === "substring") {
+      return target.slice(toKaitaiNumber(args[0] ?? 0, "start"), toKaitaiNumber(args[1] ?? target.length, "end"));
+    }
+  }
+  if (typeof target === "number" || typeof target === "bigint") {
+    if (name === "to_i") return typeof target === "number" ? Math.trunc(target) : target;
+    if (name === "to_s") return target.toString();
+  }
+  if (typeof target === "boolean" && name === "to_i") return target ? 1 : 0;
+  if (target instanceof Uint8Array || Array.isArray(target)) {
+    const items: KaitaiValue[] = Array.from(target);
+    if (name === "size" || name === "length") return items.length;
+    if (name === "first") return items[0] ?? null;
+    if (name === "last") return items[items.length - 1] ?? null;
+    if (name === "min" || name === "max") {
+      return items.reduce<KaitaiValue>((best, item) =>
+        best === null || (compare(item, best) < 0) === (name === "min") ? item : best, null);
+    }
+    if (name === "to_s" && target instanceof Uint8Array) {
+      return decodeKaitaiString(target, typeof args[0] === "string" ? args[0] : "utf-8");
+    }
+  }
+  throw new Error(`${describeValue(target)} has no member "${name}"`);
+};
+
+export const evaluateKsyExpression = async (expression: KsyExpression, scope: KaitaiScope): Promise<KaitaiValue> => {
+  const evaluate = (inner: KsyExpression): Promise<KaitaiValue> => evaluateKsyExpression(inner, scope);
+  switch (expression.kind) {
+    case "literal":
+      return expression.value;
+    case "array":
+      return Promise.all(expression.items.map(evaluate));
+    case "name":
+      if (expression.name === "_") return scope.current ?? null;
+      if (expression.name === "_index") return scope.index ?? null;
+      return lookupName(scope, scope.object, expression.name);
+    case "enum": {
+      const found = findEnum(scope.object.type, expression.path);
+      const entry = [...(found?.labels ?? [])].find(([, label]) => label === expression.label);
+      if (!found || !entry) throw new Error(`unknown enum value ${[...expression.path, expression.label].join("::")}`);
+      const value = BigInt(entry[0]);
+      return { kind: "enum", enumName: found.name, value: arithmetic("+", value, 0n), label: expression.label };
+    }
+    case "member": {
+      const target = await evaluate(expression.object);
+      return isObject(target)
+        ? lookupName(scope, target, expression.name)
+        : applyMethod(target, expression.name, []);
+    }
+    case "call": {
+      const target = await evaluate(expression.object);
+      return applyMethod(target, expression.name, await Promise.all(expression.args.map(evaluate)));
+    }
+    case "index": {
+      const target = await evaluate(expression.object);
+      const index = toKaitaiNumber(await evaluate(expression.index), "index");
+      if (target instanceof Uint8Array || Array.isArray(target)) {
+        if (index < 0 || index >= target.length) throw new Error(`index ${index} is out of range`);
+        return target[index]!;
+      }
+      throw new Error(`cannot index ${describeValue(target)}`);
+    }
+    case "unary": {
+      const operand = await evaluate(expression.operand);
+      if (expression.operator === "not") return !isKaitaiTruthy(operand);
+      const value = toNumeric(operand, expression.operator);
+      if (expression.operator === "-") return typeof value === "bigint" ? -value : -value;
+      return typeof value === "bigint" ? ~value : ~value;
+    }
+    case "ternary":
+      return isKaitaiTruthy(await evaluate(expression.condition))
+        ? evaluate(expression.then)
+        : evaluate(expression.otherwise);
+    case "binary": {
+      const { operator } = expression;
+      if (operator === "and" || operator === "or") {
+        const left = isKaitaiTruthy(await evaluate(expression.left));
+        if (left === (operator === "or")) return left;
+        return isKaitaiTruthy(await evaluate(expression.right));
+      }
+      const left = await evaluate(expression.left);
+      const right = await evaluate(expression.right);
+      if (operator === "==") return isKaitaiEqual(left, right);
+      if (operator === "!=") return !isKaitaiEqual(left, right);
+      if (["<", "<=", ">", ">="].includes(operator)) {
+        const order = compare(left, right);
+        return operator === "<" ? order < 0 : operator === "<=" ? order <= 0 : operator === ">" ? order > 0 : order >= 0;
+      }
+      if (operator === "+" && typeof left === "string" && typeof right === "string") return left + right;
+      return arithmetic(operator, toNumeric(left, operator), toNumeric(right, operator));
+    }
+  }
+};
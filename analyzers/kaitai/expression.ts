@@ -0,0 +1,197 @@
+"use strict";
+
+// Kaitai Struct expression language: literals, names (_root, _parent, _io, _, _index, fields,
+// instances, params), member access, method calls, indexing, enum references (a::b), `as<type>`
+// casts, unary and binary operators and the ternary conditional.
+export type KsyExpression =
+  | { kind: "literal"; value: number | bigint | string | boolean }
+  | { kind: "array"; items: KsyExpression[] }
+  | { kind: "name"; name: string }
+  | { kind: "enum"; path: string[]; label: string }
+  | { kind: "member"; object: KsyExpression; name: string }
+  | { kind: "call"; object: KsyExpression; name: string; args: KsyExpression[] }
+  | { kind: "index"; object: KsyExpression; index: KsyExpression }
+  | { kind: "unary"; operator: "-" | "not" | "~"; operand: KsyExpression }
+  | { kind: "binary"; operator: string; left: KsyExpression; right: KsyExpression }
+  | { kind: "ternary"; condition: KsyExpression; then: KsyExpression; otherwise: KsyExpression };
+
+interface ExpressionToken {
+  type: "number" | "string" | "name" | "punct" | "eof";
+  text: string;
+  value?: number | bigint | string;
+}
+
+// Binding power of the binary operators below `and`/`or`/`not`; higher binds tighter. As in
+// Python, comparisons bind looser than the bitwise operators.
+const BINARY_PRECEDENCE: Readonly<Record<string, number>> = {
+  "==": 1, "!=": 1, "<": 1, "<=": 1, ">": 1, ">=": 1,
+  "|": 2, "^": 3, "&": 4, "<<": 5, ">>": 5, "+": 6, "-": 6, "*": 7, "/": 7, "%": 7
+};
+const PUNCTUATION = ["::", "<<", ">>", "<=", ">=", "==", "!=", "+", "-", "*", "/", "%", "<", ">", "&", "|", "^",
+  "~", "!", "?", ":", "(", ")", "[", "]", ",", "."];
+const STRING_ESCAPES: Readonly<Record<string, string>> = { n: "\n", t: "\t", r: "\r", "0": "\0", "\\": "\\", "\"": "\"" };
+
+const expressionError = (source: string, message: string): Error =>
+  new Error(`Expression "${source}": ${message}`);
+
+const readNumber = (text: string): number | bigint => {
+  const digits = text.replace(/_/g, "");
+  if (/[.e]/i.test(digits) && !/^0x/i.test(digits)) return Number(digits);
+  const value = BigInt(digits);
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+};
+
+const tokenize = (source: string): ExpressionToken[] => {
+  const tokens: ExpressionToken[] = [];
+  let position = 0;
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+    const number = /^(?:0x[0-9a-f_]+|0b[01_]+|0o[0-7_]+|\d[\d_]*(?:\.\d+)?(?:e[-+]?\d+)?)/i.exec(rest);
+    if (number) {
+      tokens.push({ type: "number", text: number[0], value: readNumber(number[0]) });
+      position += number[0].length;
+      continue;
+    }
+    const name = /^[a-z_][a-z0-9_]*/i.exec(rest);
+    if (name) {
+      tokens.push({ type: "name", text: name[0] });
+      position += name[0].length;
+      continue;
+    }
+    const quote = rest[0];
+    if (quote === "\"" || quote === "'") {
+      let value = "";
+      let index = 1;
+      for (; index < rest.length && rest[index] !== quote; index += 1) {
+        if (quote === "\"" && rest[index] === "\\") {
+          index += 1;
+          value += STRING_ESCAPES[rest[index] ?? ""] ?? rest[index] ?? "";
+        } else value += rest[index];
+      }
+      if (index >= rest.length) throw expressionError(source, "unterminated string");
+      tokens.push({ type: "string", text: rest.slice(0, index + 1), value });
+      position += index + 1;
+      continue;
+    }
+    const punct = PUNCTUATION.find(candidate => rest.startsWith(candidate));
+    if (!punct) throw expressionError(source, `unexpected character "${rest[0]}"`);
+    tokens.push({ type: "punct", text: punct });
+    position += punct.length;
+  }
+  tokens.push({ type: "eof", text: "" });
+  return tokens;
+};
+
+export const parseKsyExpression = (source: string): KsyExpression => {
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = (): ExpressionToken => tokens[index]!;
+  const next = (): ExpressionToken => tokens[index++]!;
+  const accept = (text: string): boolean => {
+    if (peek().type === "eof" || peek().text !== text || peek().type === "string") return false;
+    index += 1;
+    return true;
+  };
+  const expect = (text: string): void => {
+    if (!accept(text)) throw expressionError(source, `expected "${text}"`);
+  };
+  const parseArguments = (close: string): KsyExpression[] => {
+    const args: KsyExpression[] = [];
+    while (!accept(close)) {
+      args.push(parseTernary());
+      if (!accept(",")) {
+        expect(close);
+        break;
+      }
+    }
+    return args;
+  };
+  const parsePrimary = (): KsyExpression => {
+    const token = next();
+    if (token.type === "number" || token.type === "string") return { kind: "literal", value: token.value! };
+    if (token.type === "name") {
+      if (token.text === "true" || token.text === "false") return { kind: "literal", value: token.text === "true" };
+      if (peek().text !== "::") return { kind: "name", name: token.text };
+      const path = [token.text];
+      while (accept("::")) {
+        const part = next();
+        if (part.type !== "name") throw expressionError(source, "expected a name after \"::\"");
+        path.push(part.text);
+      }
+      return { kind: "enum", path: path.slice(0, -1), label: path[path.length - 1]! };
+    }
+    if (token.text === "(") {
+      const inner = parseTernary();
+      expect(")");
+      return inner;
+    }
+    if (token.text === "[") return { kind: "array", items: parseArguments("]") };
+    throw expressionError(source, token.type === "eof" ? "unexpected end" : `unexpected "${token.text}"`);
+  };
+  const parsePostfix = (): KsyExpression => {
+    let expression = parsePrimary();
+    for (;;) {
+      if (accept("[")) {
+        expression = { kind: "index", object: expression, index: parseTernary() };
+        expect("]");
+      } else if (accept(".")) {
+        const member = next();
+        if (member.type !== "name") throw expressionError(source, "expected a member name after \".\"");
+        if (member.text === "as" && accept("<")) {
+          // Casts only guide the compiler's typing; the interpreter already has the runtime value.
+          while (peek().type !== "eof" && !accept(">")) next();
+        } else if (accept("(")) {
+          expression = { kind: "call", object: expression, name: member.text, args: parseArguments(")") };
+        } else expression = { kind: "member", object: expression, name: member.text };
+      } else return expression;
+    }
+  };
+  const parseUnary = (): KsyExpression => {
+    if (accept("-")) return { kind: "unary", operator: "-", operand: parseUnary() };
+    if (accept("~")) return { kind: "unary", operator: "~", operand: parseUnary() };
+    if (accept("!")) return { kind: "unary", operator: "not", operand: parseUnary() };
+    return parsePostfix();
+  };
+  const parseBinary = (minimum: number): KsyExpression => {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      const precedence = token.type === "punct" ? BINARY_PRECEDENCE[token.text] : undefined;
+      if (precedence === undefined || precedence < minimum) return left;
+      index += 1;
+      left = { kind: "binary", operator: token.text, left, right: parseBinary(precedence + 1) };
+    }
+  };
+  const parseNot = (): KsyExpression =>
+    accept("not") ? { kind: "unary", operator: "not", operand: parseNot() } : parseBinary(1);
+  const parseLogical = (operator: "and" | "or"): KsyExpression => {
+    let left = operator === "or" ? parseLogical("and") : parseNot();
+    while (accept(operator)) {
+      left = { kind: "binary", operator, left, right: operator === "or" ? parseLogical("and") : parseNot() };
+    }
+    return left;
+  };
+  function parseTernary(): KsyExpression {
+    const condition = parseLogical("or");
+    if (!accept("?")) return condition;
+    const then = parseTernary();
+    expect(":");
+    return { kind: "ternary", condition, then, otherwise: parseTernary() };
+  }
+  const expression = parseTernary();
+  if (peek().type !== "eof") throw expressionError(source, `unexpected "${peek().text}"`);
+  return expression;
+};
+
+// YAML already typed plain numbers and booleans; everything else is expression source.
+export const toKsyExpression = (value: unknown): KsyExpression => {
+  if (typeof value === "number" || typeof value === "bigint" || typeof value === "boolean") {
+    return { kind: "literal", value };
+  }
+  return parseKsyExpression(String(value));
+};
@@ -0,0 +1,31 @@
+"use strict";
+
+import type { FileRangeReader } from "../file-range-reader.js";
+import { KaitaiInterpreter } from "./interpreter.js";
+import { KaitaiStream } from "./stream.js";
+import type { KaitaiNode, KaitaiResult, KsySpec } from "./types.js";
+
+export interface KaitaiOptions {
+  isCurrent?: () => boolean;
+}
+
+// Interprets a compiled definition against the file. A field that fails to parse keeps its issue
+// and stops the parse; everything read before it stays in the tree.
+export const interpretKsy = async (
+  reader: FileRangeReader,
+  spec: KsySpec,
+  options: KaitaiOptions = {}
+): Promise<KaitaiResult | null> => {
+  const interpreter = new KaitaiInterpreter(options.isCurrent ?? (() => true));
+  const root: KaitaiNode = { name: spec.id, typeName: spec.root.name, offset: 0, size: 0 };
+  interpreter.nodeCount = 1;
+  const io = new KaitaiStream(reader, 0, reader.size);
+  try {
+    await interpreter.parseObject(io, spec.root, null, new Map(), root);
+  } catch (error) {
+    if (interpreter.cancelled) return null;
+    interpreter.report(error, root, spec.id);
+    root.size = io.pos;
+  }
+  return { root, issues: interpreter.issues, nodeCount: interpreter.nodeCount };
+};
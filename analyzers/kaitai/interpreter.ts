@@ -0,0 +1,296 @@
+"use strict";
+
+import {
+  decodeKaitaiString,
+  evaluateKsyExpression,
+  isKaitaiEqual,
+  isKaitaiTruthy,
+  toKaitaiEnum,
+  toKaitaiNumber,
+  type KaitaiObject,
+  type KaitaiScope,
+  type KaitaiValue
+} from "./evaluate.js";
+import { findKaitaiPrimitive, isKaitaiStringType } from "./primitives.js";
+import { KaitaiStream } from "./stream.js";
+import type { KaitaiNode, KsyAttribute, KsyType, KsyTypeReference } from "./types.js";
+import { describeError } from "../../error-utils.js";
+
+// A definition run against the wrong file can describe millions of fields or recurse forever.
+export const KAITAI_NODE_LIMIT = 50_000;
+const MAX_TYPE_DEPTH = 64;
+// Raw byte fields larger than this keep only their first bytes as the value.
+const RAW_VALUE_LIMIT = 64 * 1024;
+
+interface InstanceEntry {
+  value?: KaitaiValue;
+  node?: KaitaiNode;
+  error?: unknown;
+  pending?: boolean;
+}
+
+const isScalar = (value: KaitaiValue): value is NonNullable<KaitaiNode["value"]> =>
+  value !== null && !Array.isArray(value) && !(value instanceof KaitaiStream) &&
+  (typeof value !== "object" || value instanceof Uint8Array || value.kind === "enum");
+
+const findUserType = (scope: KsyType, name: string): KsyType | null => {
+  const path = name.split("::");
+  for (let type: KsyType | null = scope; type; type = type.scope) {
+    let owner: KsyType | null = type;
+    for (const part of path) owner = owner?.types.get(part) ?? null;
+    if (owner) return owner;
+    if (!type.scope && path.length === 1 && type.name === name) return type;
+  }
+  return null;
+};
+
+const describeAttributeType = (attribute: KsyAttribute): string => {
+  if (!attribute.type) return attribute.contents ? "contents" : "bytes";
+  return "on" in attribute.type ? "switch" : attribute.type.name;
+};
+
+const toEnumIfNamed = (type: KsyType, attribute: KsyAttribute, value: KaitaiValue): KaitaiValue =>
+  attribute.enumName && (typeof value === "number" || typeof value === "bigint")
+    ? toKaitaiEnum(type, attribute.enumName, value)
+    : value;
+
+// One run of a definition over one file. Every field becomes a node as soon as its read starts, so
+// a failed read leaves the fields before it, and the failing one with its issue, in the tree.
+export class KaitaiInterpreter {
+  readonly issues: string[] = [];
+  nodeCount = 0;
+  cancelled = false;
+  readonly #isCurrent: () => boolean;
+  // Errors already attached to the node of the field that raised them.
+  readonly #reported = new WeakSet<object>();
+  readonly #instances = new WeakMap<KaitaiObject, Map<string, InstanceEntry>>();
+
+  constructor(isCurrent: () => boolean) {
+    this.#isCurrent = isCurrent;
+  }
+
+  report(error: unknown, node: KaitaiNode, path: string): void {
+    if (typeof error !== "object" || error === null || this.#reported.has(error) || this.cancelled) return;
+    this.#reported.add(error);
+    Object.assign(node, { issue: describeError(error) });
+    this.issues.push(`${path}: ${describeError(error)}`);
+  }
+
+  async parseObject(
+    io: KaitaiStream,
+    type: KsyType,
+    parent: KaitaiObject | null,
+    params: Map<string, KaitaiValue>,
+    node: KaitaiNode
+  ): Promise<KaitaiObject> {
+    const depth = parent ? parent.depth + 1 : 0;
+    if (depth > MAX_TYPE_DEPTH) throw new Error(`types nest deeper than ${MAX_TYPE_DEPTH} levels`);
+    const children: KaitaiNode[] = [];
+    Object.assign(node, { children, offset: io.absolutePos });
+    const object: KaitaiObject = {
+      kind: "object", type, fields: new Map(), params, parent, root: parent?.root ?? parent, io, node, depth
+    };
+    for (const attribute of type.seq) {
+      const path = `${type.name}.${attribute.id}`;
+      object.fields.set(attribute.id, await this.#readAttribute(object, attribute, children, path));
+    }
+    node.size = io.absolutePos - node.offset;
+    for (const id of type.instances.keys()) {
+      const entry = await this.#showInstance(object, id);
+      if (entry?.node) children.push(entry.node);
+    }
+    return object;
+  }
+
+  #createNode(name: string, typeName: string, offset: number): KaitaiNode {
+    if (!this.#isCurrent()) {
+      this.cancelled = true;
+      throw new Error("cancelled");
+    }
+    this.nodeCount += 1;
+    if (this.nodeCount > KAITAI_NODE_LIMIT) throw new Error(`more than ${KAITAI_NODE_LIMIT} fields`);
+    return { name, typeName, offset, size: 0 };
+  }
+
+  #scope(object: KaitaiObject, extra: Partial<KaitaiScope> = {}): KaitaiScope {
+    return { object, instance: (owner, name) => this.#readInstance(owner, name), ...extra };
+  }
+
+  async #resolveType(attribute: KsyAttribute, scope: KaitaiScope): Promise<KsyTypeReference | null> {
+    const { type } = attribute;
+    if (!type || !("on" in type)) return type;
+    const on = await evaluateKsyExpression(type.on, scope);
+    for (const entry of type.cases) {
+      if (entry.key && isKaitaiEqual(on, await evaluateKsyExpression(entry.key, scope))) return entry.type;
+    }
+    return type.cases.find(entry => entry.key === null)?.type ?? null;
+  }
+
+  async #readBytes(io: KaitaiStream, attribute: KsyAttribute, typeName: string | null, size: number | null) {
+    const terminator = attribute.terminator ?? (typeName === "strz" ? 0 : undefined);
+    if (size === null) {
+      if (terminator === undefined) throw new Error("a raw field needs size, size-eos or a terminator");
+      return io.readBytesTerm(terminator, attribute.include, attribute.consume);
+    }
+    const whole = (typeName !== null && isKaitaiStringType(typeName)) || terminator !== undefined;
+    const bytes = whole ? await io.readBytes(size) : await io.readBytesPrefix(size, RAW_VALUE_LIMIT);
+    if (terminator === undefined) return bytes;
+    const end = bytes.indexOf(terminator);
+    return end < 0 ? bytes : bytes.subarray(0, end + (attribute.include ? 1 : 0));
+  }
+
+  // One value of an attribute: a built-in number, a string, raw bytes or a nested user type.
+  async #readItem(object: KaitaiObject, attribute: KsyAttribute, node: KaitaiNode, scope: KaitaiScope) {
+    if (attribute.process) throw new Error(`process "${attribute.process}" is not supported`);
+    const { io, type } = object;
+    const reference = await this.#resolveType(attribute, scope);
+    const typeName = reference?.name ?? null;
+    node.typeName = typeName ?? (attribute.contents ? "contents" : "bytes");
+    if (attribute.contents) {
+      const expected = attribute.contents;
+      const bytes = await io.readBytes(expected.length);
+      node.value = bytes;
+      if (!bytes.every((byte, index) => byte === expected[index])) throw new Error("contents do not match");
+      return bytes;
+    }
+    const size = attribute.sizeEos
+      ? io.size - io.pos
+      : attribute.size ? toKaitaiNumber(await evaluateKsyExpression(attribute.size, scope), "size") : null;
+    // A switch without a matching case reads nothing unless the field has a size.
+    if (!reference && attribute.type && size === null && attribute.terminator === undefined) {
+      node.typeName = "none";
+      return null;
+    }
+    const primitive = typeName === null ? null : findKaitaiPrimitive(typeName);
+    let value: KaitaiValue;
+    if (typeName === null || isKaitaiStringType(typeName)) {
+      const bytes = await this.#readBytes(io, attribute, typeName, size);
+      value = typeName === null ? bytes : decodeKaitaiString(bytes, attribute.encoding ?? type.encoding ?? "utf-8");
+    } else if (primitive) {
+      value = toEnumIfNamed(type, attribute, await primitive(size === null ? io : io.substream(size), type.endian));
+    } else {
+      const userType = findUserType(type, typeName);
+      if (!userType) throw new Error(`unknown type "${typeName}"`);
+      const args = await Promise.all((reference?.args ?? []).map(arg => evaluateKsyExpression(arg, scope)));
+      const params = new Map(userType.params.map((param, index) => [param, args[index] ?? null]));
+      return this.parseObject(size === null ? io : io.substream(size), userType, object, params, node);
+    }
+    if (isScalar(value)) node.value = value;
+    return value;
+  }
+
+  async #readRepeat(object: KaitaiObject, attribute: KsyAttribute, node: KaitaiNode): Promise<KaitaiValue[]> {
+    const { io } = object;
+    const items: KaitaiValue[] = [];
+    const children: KaitaiNode[] = [];
+    node.children = children;
+    const count = attribute.repeat === "expr" && attribute.repeatExpr
+      ? toKaitaiNumber(await evaluateKsyExpression(attribute.repeatExpr, this.#scope(object)), "repeat-expr")
+      : Infinity;
+    for (let index = 0; index < count; index += 1) {
+      if (attribute.repeat === "eos" && io.eof) break;
+      const item = this.#createNode(`[${index}]`, node.typeName, io.absolutePos);
+      children.push(item);
+      const value = await this.#readItem(object, attribute, item, this.#scope(object, { index }));
+      item.size = io.absolutePos - item.offset;
+      items.push(value);
+      if (attribute.repeat === "until") {
+        if (!attribute.repeatUntil) throw new Error("repeat: until needs repeat-until");
+        const scope = this.#scope(object, { current: value, index });
+        if (isKaitaiTruthy(await evaluateKsyExpression(attribute.repeatUntil, scope))) break;
+      }
+    }
+    return items;
+  }
+
+  async #readAttribute(
+    object: KaitaiObject,
+    attribute: KsyAttribute,
+    into: KaitaiNode[],
+    path: string
+  ): Promise<KaitaiValue> {
+    const scope = this.#scope(object);
+    if (attribute.condition && !isKaitaiTruthy(await evaluateKsyExpression(attribute.condition, scope))) return null;
+    const { io } = object;
+    const node = this.#createNode(attribute.id, describeAttributeType(attribute), io.absolutePos);
+    if (attribute.doc) node.doc = attribute.doc;
+    into.push(node);
+    try {
+      return attribute.repeat
+        ? await this.#readRepeat(object, attribute, node)
+        : await this.#readItem(object, attribute, node, scope);
+    } catch (error) {
+      this.report(error, node, path);
+      throw error;
+    } finally {
+      node.size = Math.max(0, io.absolutePos - node.offset);
+    }
+  }
+
+  async #computeInstance(object: KaitaiObject, attribute: KsyAttribute, entry: InstanceEntry): Promise<void> {
+    const path = `${object.type.name}.${attribute.id}`;
+    if (attribute.value) {
+      const node = this.#createNode(attribute.id, "value", object.node.offset);
+      entry.node = node;
+      try {
+        const value = toEnumIfNamed(object.type, attribute,
+          await evaluateKsyExpression(attribute.value, this.#scope(object)));
+        if (isScalar(value)) node.value = value;
+        entry.value = value;
+      } catch (error) {
+        this.report(error, node, path);
+        throw error;
+      }
+      return;
+    }
+    const { io } = object;
+    const saved = io.pos;
+    const nodes: KaitaiNode[] = [];
+    try {
+      if (attribute.pos) {
+        io.seek(toKaitaiNumber(await evaluateKsyExpression(attribute.pos, this.#scope(object)), "pos"));
+      }
+      entry.value = await this.#readAttribute(object, attribute, nodes, path);
+    } finally {
+      io.seek(saved);
+      const [node] = nodes;
+      if (node) entry.node = node;
+    }
+  }
+
+  // Instances are parsed on first use, from an expression or when the type is shown.
+  async #readInstance(object: KaitaiObject, name: string): Promise<KaitaiValue | undefined> {
+    const attribute = object.type.instances.get(name);
+    if (!attribute) return undefined;
+    const entries = this.#instances.get(object) ?? new Map<string, InstanceEntry>();
+    this.#instances.set(object, entries);
+    const known = entries.get(name);
+    if (known?.pending) throw new Error(`instance ${name} depends on itself`);
+    if (known) {
+      if (known.error !== undefined) throw known.error;
+      return known.value ?? null;
+    }
+    const entry: InstanceEntry = { pending: true };
+    entries.set(name, entry);
+    try {
+      await this.#computeInstance(object, attribute, entry);
+    } catch (error) {
+      entry.error = error;
+      throw error;
+    } finally {
+      entry.pending = false;
+      if (entry.node) entry.node.instance = true;
+    }
+    return entry.value ?? null;
+  }
+
+  // Shown instances that fail keep their issue without stopping the parse of the type.
+  async #showInstance(object: KaitaiObject, name: string): Promise<InstanceEntry | undefined> {
+    try {
+      await this.#readInstance(object, name);
+    } catch (error) {
+      if (this.cancelled) throw error;
+    }
+    return this.#instances.get(object)?.get(name);
+  }
+}
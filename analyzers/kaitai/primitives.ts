@@ -0,0 +1,37 @@
+"use strict";
+
+import type { KaitaiStream } from "./stream.js";
+import type { KsyEndian } from "./types.js";
+
+type PrimitiveReader = (io: KaitaiStream, defaultEndian: KsyEndian | null) => Promise<number | bigint>;
+
+const littleEndianFor = (name: string, suffix: string | undefined, defaultEndian: KsyEndian | null): boolean => {
+  const endian = suffix ?? defaultEndian;
+  if (!endian) throw new Error(`${name} needs an endianness: add meta.endian or use ${name}le / ${name}be`);
+  return endian === "le";
+};
+
+// Readers for the built-in numeric types (u1..u8, s1..s8, f4, f8, b1..b64 with optional le/be),
+// or null for `str`, `strz`, user types and names that are not built in.
+export const findKaitaiPrimitive = (name: string): PrimitiveReader | null => {
+  const integer = /^([us])([1248])(le|be)?$/.exec(name);
+  if (integer) {
+    const [, sign, length, suffix] = integer;
+    const size = Number(length);
+    return (io, endian) =>
+      io.readInteger(size, sign === "s", size === 1 || littleEndianFor(`${sign}${length}`, suffix, endian));
+  }
+  const float = /^f([48])(le|be)?$/.exec(name);
+  if (float) {
+    const [, length, suffix] = float;
+    return (io, endian) => io.readFloat(length === "4" ? 4 : 8, littleEndianFor(`f${length}`, suffix, endian));
+  }
+  const bits = /^b([1-9]\d?)(le|be)?$/.exec(name);
+  if (bits && Number(bits[1]) <= 64) {
+    // Bit fields are big-endian unless asked otherwise; meta.bit-endian is not read.
+    return io => io.readBits(Number(bits[1]), bits[2] === "le");
+  }
+  return null;
+};
+
+export const isKaitaiStringType = (name: string): boolean => name === "str" || name === "strz";
@@ -0,0 +1,208 @@
+"use strict";
+
+import { parseKsyExpression, toKsyExpression, type KsyExpression } from "./expression.js";
+import type { KsyAttribute, KsyCompileResult, KsyEndian, KsySwitchType, KsyType, KsyTypeReference } from "./types.js";
+import { parseYaml, type YamlMapping, type YamlValue } from "./yaml.js";
+import { isKaitaiStringType } from "./primitives.js";
+import { describeError } from "../../error-utils.js";
+
+const utf8Encoder = new TextEncoder();
+
+// Attribute and meta keys the interpreter reads or that only document the format; any other key
+// changes how data parses, so it is reported rather than silently dropped. Keys starting with "-"
+// are tool-specific annotations.
+const ATTRIBUTE_KEYS = new Set([
+  "id", "type", "size", "size-eos", "contents", "encoding", "terminator", "consume", "include", "repeat",
+  "repeat-expr", "repeat-until", "if", "enum", "process", "pos", "value", "doc", "doc-ref"
+]);
+const META_KEYS = new Set([
+  "id", "title", "endian", "encoding", "imports", "application", "file-extension", "xref", "license",
+  "ks-version", "ks-debug", "ks-opaque-types", "tags"
+]);
+
+const reportUnsupportedKeys = (
+  value: YamlMapping,
+  known: ReadonlySet<string>,
+  issues: string[],
+  where: string
+): void => {
+  Object.keys(value)
+    .filter(key => !known.has(key) && !key.startsWith("-"))
+    .forEach(key => issues.push(`${where}: "${key}" is not supported and is ignored`));
+};
+
+const isMapping = (value: YamlValue | undefined): value is YamlMapping =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Collects problems with one key instead of failing the whole definition.
+const tryCompile = <T>(issues: string[], where: string, compile: () => T): T | undefined => {
+  try {
+    return compile();
+  } catch (error) {
+    issues.push(`${where}: ${describeError(error)}`);
+    return undefined;
+  }
+};
+
+const parseTypeReference = (text: string): KsyTypeReference => {
+  const open = text.indexOf("(");
+  if (open < 0) return { name: text.trim(), args: [] };
+  if (!text.trimEnd().endsWith(")")) throw new Error(`unbalanced parentheses in type "${text}"`);
+  const args = parseKsyExpression(`[${text.slice(open + 1, text.trimEnd().length - 1)}]`);
+  return { name: text.slice(0, open).trim(), args: args.kind === "array" ? args.items : [] };
+};
+
+const compileSwitch = (value: YamlMapping): KsySwitchType => {
+  const cases = value["cases"];
+  if (!isMapping(cases)) throw new Error("switch type needs a cases mapping");
+  return {
+    on: toKsyExpression(value["switch-on"]),
+    cases: Object.entries(cases).map(([key, type]) => ({
+      key: key === "_" ? null : parseKsyExpression(key),
+      type: parseTypeReference(String(type))
+    }))
+  };
+};
+
+const toContents = (value: YamlValue): Uint8Array => {
+  const parts = Array.isArray(value) ? value : [value];
+  const bytes: number[] = [];
+  for (const part of parts) {
+    if (typeof part === "number" && part >= 0 && part <= 0xff) bytes.push(part);
+    else if (typeof part === "string") bytes.push(...utf8Encoder.encode(part));
+    else throw new Error("contents must be bytes (0-255) or strings");
+  }
+  return Uint8Array.from(bytes);
+};
+
+const optionalExpression = (value: YamlValue | undefined): KsyExpression | undefined =>
+  value === undefined || value === null ? undefined : toKsyExpression(value);
+
+const compileAttribute = (id: string, value: YamlMapping, issues: string[], where: string): KsyAttribute => {
+  const type = value["type"];
+  const size = value["size"];
+  const repeat = value["repeat"];
+  if (repeat != null && repeat !== "eos" && repeat !== "expr" && repeat !== "until") {
+    throw new Error(`unknown repeat "${String(repeat)}"`);
+  }
+  reportUnsupportedKeys(value, ATTRIBUTE_KEYS, issues, where);
+  // The terminator only cuts string and raw byte values; typed fields would read past it.
+  const bytesLike = type == null || (typeof type === "string" && isKaitaiStringType(parseTypeReference(type).name));
+  if (value["terminator"] != null && !bytesLike) {
+    issues.push(`${where}: "terminator" is only supported on str, strz and raw byte fields and is ignored`);
+  }
+  const attribute: KsyAttribute = {
+    id,
+    type: isMapping(type) ? compileSwitch(type) : type == null ? null : parseTypeReference(String(type)),
+    consume: value["consume"] !== false,
+    include: value["include"] === true
+  };
+  const extras: { [Key in keyof KsyAttribute]?: KsyAttribute[Key] | undefined } = {
+    size: optionalExpression(size),
+    sizeEos: value["size-eos"] === true ? true : undefined,
+    contents: value["contents"] == null ? undefined : toContents(value["contents"]),
+    encoding: typeof value["encoding"] === "string" ? value["encoding"] : undefined,
+    terminator: typeof value["terminator"] === "number" ? value["terminator"] : undefined,
+    repeat: repeat == null ? undefined : repeat,
+    repeatExpr: optionalExpression(value["repeat-expr"]),
+    repeatUntil: optionalExpression(value["repeat-until"]),
+    condition: optionalExpression(value["if"]),
+    enumName: typeof value["enum"] === "string" ? value["enum"] : undefined,
+    process: typeof value["process"] === "string" ? value["process"] : undefined,
+    pos: optionalExpression(value["pos"]),
+    value: optionalExpression(value["value"]),
+    doc: typeof value["doc"] === "string" ? value["doc"].trim() : undefined
+  };
+  Object.entries(extras).forEach(([key, extra]) => {
+    if (extra !== undefined) Object.assign(attribute, { [key]: extra });
+  });
+  return attribute;
+};
+
+const compileEnums = (
+  value: YamlValue | undefined,
+  issues: string[],
+  where: string
+): Map<string, Map<string, string>> => {
+  const enums = new Map<string, Map<string, string>>();
+  if (!isMapping(value)) return enums;
+  for (const [name, members] of Object.entries(value)) {
+    if (!isMapping(members)) {
+      issues.push(`${where} enum ${name}: expected a mapping of values to names`);
+      continue;
+    }
+    const labels = new Map<string, string>();
+    Object.entries(members).forEach(([key, member]) => {
+      const label = isMapping(member) ? member["id"] : member;
+      const numeric = tryCompile(issues, `${where} enum ${name}`, () => BigInt(key.replace(/_/g, "")));
+      if (numeric !== undefined && label != null) labels.set(numeric.toString(), String(label));
+    });
+    enums.set(name, labels);
+  }
+  return enums;
+};
+
+const readEndian = (meta: YamlValue | undefined, issues: string[], where: string): KsyEndian | null => {
+  if (isMapping(meta)) reportUnsupportedKeys(meta, META_KEYS, issues, `${where} meta`);
+  const endian = isMapping(meta) ? meta["endian"] : undefined;
+  if (endian === "le" || endian === "be") return endian;
+  if (endian != null) issues.push(`${where}: only fixed "le" or "be" endianness is supported`);
+  return null;
+};
+
+const compileType = (name: string, value: YamlMapping, scope: KsyType | null, issues: string[]): KsyType => {
+  const meta = value["meta"];
+  const type: KsyType = {
+    name,
+    endian: readEndian(meta, issues, name) ?? scope?.endian ?? null,
+    encoding: (isMapping(meta) && typeof meta["encoding"] === "string" ? meta["encoding"] : null) ?? scope?.encoding ?? null,
+    params: Array.isArray(value["params"])
+      ? value["params"].flatMap(param => (isMapping(param) && param["id"] != null ? [String(param["id"])] : []))
+      : [],
+    seq: [],
+    instances: new Map(),
+    enums: compileEnums(value["enums"], issues, name),
+    types: new Map(),
+    scope
+  };
+  const seq = value["seq"];
+  if (seq != null && !Array.isArray(seq)) issues.push(`${name}: seq must be a list`);
+  (Array.isArray(seq) ? seq : []).forEach((entry, index) => {
+    if (!isMapping(entry)) {
+      issues.push(`${name} seq[${index}]: expected a mapping`);
+      return;
+    }
+    const id = entry["id"] == null ? `_unnamed${index}` : String(entry["id"]);
+    const where = `${name}.${id}`;
+    const attribute = tryCompile(issues, where, () => compileAttribute(id, entry, issues, where));
+    if (attribute) type.seq.push(attribute);
+  });
+  const instances = value["instances"];
+  Object.entries(isMapping(instances) ? instances : {}).forEach(([id, entry]) => {
+    if (!isMapping(entry)) return;
+    const where = `${name}.${id}`;
+    const attribute = tryCompile(issues, where, () => compileAttribute(id, entry, issues, where));
+    if (attribute) type.instances.set(id, attribute);
+  });
+  const types = value["types"];
+  Object.entries(isMapping(types) ? types : {}).forEach(([id, entry]) => {
+    if (isMapping(entry)) type.types.set(id, compileType(id, entry, type, issues));
+  });
+  return type;
+};
+
+// Parses .ksy source. Definitions that use unsupported features still compile; the features are
+// reported and the fields that need them show an issue when interpreted.
+export const compileKsy = (source: string): KsyCompileResult => {
+  const issues: string[] = [];
+  const document = tryCompile(issues, "YAML", () => parseYaml(source));
+  if (document === undefined) return { spec: null, issues };
+  if (!isMapping(document)) return { spec: null, issues: ["The definition must be a YAML mapping with meta and seq."] };
+  const meta = document["meta"];
+  const id = isMapping(meta) && meta["id"] != null ? String(meta["id"]) : null;
+  if (!id) issues.push("meta.id is missing; the root type is named \"root\".");
+  if (isMapping(meta) && meta["imports"] != null) issues.push("meta.imports is not supported; imported types are unknown.");
+  const root = compileType(id ?? "root", document, null, issues);
+  const title = isMapping(meta) && typeof meta["title"] === "string" ? meta["title"] : null;
+  return { spec: { id: id ?? "root", title, root }, issues };
+};
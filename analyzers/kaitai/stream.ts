@@ -0,0 +1,129 @@
+"use strict";
+
+import type { FileRangeReader } from "../file-range-reader.js";
+
+export const kaitaiEndOfStream = (offset: number, needed: number): Error =>
+  new Error(`end of stream: ${needed} byte${needed === 1 ? "" : "s"} needed at 0x${offset.toString(16)}`);
+
+// A window [base, base + size) of the file with its own position, as Kaitai's KaitaiStream:
+// positions are relative to the window, bit reads keep their partial byte until the next
+// byte-aligned read.
+export class KaitaiStream {
+  pos = 0;
+  readonly base: number;
+  readonly size: number;
+  readonly #reader: FileRangeReader;
+  #bits = 0n;
+  #bitCount = 0;
+
+  constructor(reader: FileRangeReader, base: number, size: number) {
+    this.#reader = reader;
+    this.base = base;
+    this.size = Math.max(0, Math.min(size, reader.size - base));
+  }
+
+  get eof(): boolean {
+    return this.pos >= this.size && this.#bitCount === 0;
+  }
+
+  get absolutePos(): number {
+    return this.base + this.pos;
+  }
+
+  substream(size: number): KaitaiStream {
+    this.alignToByte();
+    if (size < 0 || this.pos + size > this.size) throw kaitaiEndOfStream(this.absolutePos, size);
+    const stream = new KaitaiStream(this.#reader, this.absolutePos, size);
+    this.pos += size;
+    return stream;
+  }
+
+  seek(pos: number): void {
+    this.alignToByte();
+    this.pos = pos;
+  }
+
+  alignToByte(): void {
+    this.#bits = 0n;
+    this.#bitCount = 0;
+  }
+
+  async readBytes(length: number): Promise<Uint8Array> {
+    this.alignToByte();
+    if (!Number.isSafeInteger(length) || length < 0 || this.pos + length > this.size) {
+      throw kaitaiEndOfStream(this.absolutePos, length);
+    }
+    const bytes = await this.#reader.readBytes(this.absolutePos, length);
+    this.pos += length;
+    return bytes;
+  }
+
+  // Skips `length` bytes and returns only the first `limit` of them, for large raw fields.
+  async readBytesPrefix(length: number, limit: number): Promise<Uint8Array> {
+    if (length <= limit) return this.readBytes(length);
+    if (this.pos + length > this.size) throw kaitaiEndOfStream(this.absolutePos, length);
+    const prefix = await this.readBytes(limit);
+    this.pos += length - limit;
+    return prefix;
+  }
+
+  // Bytes up to the terminator; without `include` the terminator is left out of the value, and
+  // without `consume` the position stays on it.
+  async readBytesTerm(terminator: number, include: boolean, consume: boolean): Promise<Uint8Array> {
+    this.alignToByte();
+    const start = this.pos;
+    for (let chunkStart = start; chunkStart < this.size; chunkStart += 4096) {
+      const chunk = await this.#reader.readBytes(this.base + chunkStart, Math.min(4096, this.size - chunkStart));
+      const index = chunk.indexOf(terminator);
+      if (index < 0) continue;
+      const end = chunkStart + index;
+      const value = await this.#reader.readBytes(this.base + start, end - start + (include ? 1 : 0));
+      this.pos = end + (consume ? 1 : 0);
+      return value;
+    }
+    throw new Error(`terminator 0x${terminator.toString(16)} not found after 0x${(this.base + start).toString(16)}`);
+  }
+
+  async readInteger(length: number, signed: boolean, littleEndian: boolean): Promise<number | bigint> {
+    const bytes = await this.readBytes(length);
+    let value = 0n;
+    for (let index = 0; index < length; index += 1) {
+      value = (value << 8n) | BigInt(bytes[littleEndian ? length - 1 - index : index]!);
+    }
+    const result = signed ? BigInt.asIntN(length * 8, value) : value;
+    return length < 8 || (result <= BigInt(Number.MAX_SAFE_INTEGER) && result >= BigInt(Number.MIN_SAFE_INTEGER))
+      ? Number(result)
+      : result;
+  }
+
+  async readFloat(length: 4 | 8, littleEndian: boolean): Promise<number> {
+    const bytes = await this.readBytes(length);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return length === 4 ? view.getFloat32(0, littleEndian) : view.getFloat64(0, littleEndian);
+  }
+
+  // Big-endian bit order fills from the most significant bit of each byte, little-endian from
+  // the least significant one (Kaitai `bXbe` / `bXle`).
+  async readBits(count: number, littleEndian: boolean): Promise<number | bigint> {
+    while (this.#bitCount < count) {
+      if (this.pos >= this.size) throw kaitaiEndOfStream(this.absolutePos, 1);
+      const [byte] = await this.#reader.readBytes(this.absolutePos, 1);
+      this.pos += 1;
+      this.#bits = littleEndian
+        ? this.#bits | (BigInt(byte ?? 0) << BigInt(this.#bitCount))
+        : (this.#bits << 8n) | BigInt(byte ?? 0);
+      this.#bitCount += 8;
+    }
+    const mask = (1n << BigInt(count)) - 1n;
+    let value: bigint;
+    if (littleEndian) {
+      value = this.#bits & mask;
+      this.#bits >>= BigInt(count);
+    } else {
+      value = (this.#bits >> BigInt(this.#bitCount - count)) & mask;
+      this.#bits &= (1n << BigInt(this.#bitCount - count)) - 1n;
+    }
+    this.#bitCount -= count;
+    return count <= 52 ? Number(value) : value;
+  }
+}
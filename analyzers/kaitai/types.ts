@@ -0,0 +1,92 @@
+"use strict";
+
+import type { KsyExpression } from "./expression.js";
+
+export type KsyEndian = "le" | "be";
+
+// `type: {switch-on: expr, cases: {key: type}}`; a `_` case is the default.
+export interface KsySwitchType {
+  on: KsyExpression;
+  cases: Array<{ key: KsyExpression | null; type: KsyTypeReference }>;
+}
+
+// A type name as written (`u4`, `str`, `header`, `outer::inner`) with its call arguments.
+export interface KsyTypeReference {
+  name: string;
+  args: KsyExpression[];
+}
+
+export interface KsyAttribute {
+  id: string;
+  type: KsyTypeReference | KsySwitchType | null;
+  size?: KsyExpression;
+  sizeEos?: boolean;
+  contents?: Uint8Array;
+  encoding?: string;
+  terminator?: number;
+  consume: boolean;
+  include: boolean;
+  repeat?: "eos" | "expr" | "until";
+  repeatExpr?: KsyExpression;
+  repeatUntil?: KsyExpression;
+  condition?: KsyExpression;
+  enumName?: string;
+  process?: string;
+  // Instances only: `pos` seeks before reading, `value` computes without reading.
+  pos?: KsyExpression;
+  value?: KsyExpression;
+  doc?: string;
+}
+
+export interface KsyType {
+  name: string;
+  endian: KsyEndian | null;
+  encoding: string | null;
+  params: string[];
+  seq: KsyAttribute[];
+  instances: Map<string, KsyAttribute>;
+  enums: Map<string, Map<string, string>>;
+  types: Map<string, KsyType>;
+  // Enclosing type, searched when a type or enum name is not declared locally.
+  scope: KsyType | null;
+}
+
+export interface KsySpec {
+  id: string;
+  title: string | null;
+  root: KsyType;
+}
+
+export interface KsyCompileResult {
+  spec: KsySpec | null;
+  issues: string[];
+}
+
+export interface KaitaiEnumValue {
+  kind: "enum";
+  enumName: string;
+  value: number | bigint;
+  label: string | null;
+}
+
+export type KaitaiScalar = number | bigint | boolean | string | Uint8Array | KaitaiEnumValue;
+
+// One row of the field tree. Offsets are absolute file offsets, also inside size-limited substreams.
+export interface KaitaiNode {
+  name: string;
+  typeName: string;
+  offset: number;
+  size: number;
+  value?: KaitaiScalar;
+  // Members of a user type or elements of a repeated field.
+  children?: KaitaiNode[];
+  instance?: boolean;
+  issue?: string;
+  doc?: string;
+}
+
+export interface KaitaiResult {
+  root: KaitaiNode;
+  issues: string[];
+  nodeCount: number;
+}
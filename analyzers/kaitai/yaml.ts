@@ -0,0 +1,269 @@
+"use strict";
+
+// The YAML subset .ksy files are written in: block mappings and sequences, flow [..] and {..}
+// collections, plain, quoted and block (| >) scalars, and # comments. Anchors, tags and multi-line
+// plain scalars are not supported.
+export type YamlValue = null | boolean | number | bigint | string | YamlValue[] | YamlMapping;
+export interface YamlMapping {
+  [key: string]: YamlValue;
+}
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+interface YamlCursor {
+  lines: YamlLine[];
+  index: number;
+  // Raw source lines, for block scalars whose text must keep its comments and blank lines.
+  raw: string[];
+}
+
+const INTEGER_PATTERN = /^[-+]?(?:0x[0-9a-f_]+|0o[0-7_]+|0b[01_]+|[0-9][0-9_]*)$/i;
+const FLOAT_PATTERN = /^[-+]?(?:\d+\.\d*|\.\d+|\d+)(?:e[-+]?\d+)?$/i;
+const DOUBLE_QUOTE_ESCAPES: Readonly<Record<string, string>> = {
+  n: "\n", t: "\t", r: "\r", "0": "\0", "\\": "\\", "\"": "\"", "/": "/", " ": " ", e: "\x1b", a: "\x07", b: "\b"
+};
+
+export const yamlSyntaxError = (line: number, message: string): Error => new Error(`Line ${line}: ${message}`);
+
+const parseInteger = (text: string): number | bigint => {
+  const negative = text.startsWith("-");
+  const digits = text.replace(/^[-+]/, "").replace(/_/g, "");
+  const value = BigInt(/^0o/i.test(digits) ? `0o${digits.slice(2)}` : digits);
+  const signed = negative ? -value : value;
+  return signed >= BigInt(Number.MIN_SAFE_INTEGER) && signed <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(signed)
+    : signed;
+};
+
+const resolvePlainScalar = (text: string): YamlValue => {
+  if (text === "" || text === "~" || text === "null") return null;
+  if (text === "true") return true;
+  if (text === "false") return false;
+  if (INTEGER_PATTERN.test(text)) return parseInteger(text);
+  if (FLOAT_PATTERN.test(text)) return Number(text);
+  return text;
+};
+
+// Index of the first character outside quotes and brackets matching the predicate, or -1.
+const findUnquoted = (text: string, matches: (text: string, index: number) => boolean): number => {
+  let quote = "";
+  let depth = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index]!;
+    if (quote) {
+      if (char === "\\" && quote === "\"") index += 1;
+      else if (char === quote) quote = "";
+      continue;
+    }
+    if ((char === "\"" || char === "'") && (index === 0 || /[\s[{,:]/.test(text[index - 1]!))) quote = char;
+    else if (char === "[" || char === "{") depth += 1;
+    else if (char === "]" || char === "}") depth -= 1;
+    else if (depth === 0 && matches(text, index)) return index;
+  }
+  return -1;
+};
+
+const stripComment = (text: string): string => {
+  const index = findUnquoted(text, (line, at) => line[at] === "#" && (at === 0 || /\s/.test(line[at - 1]!)));
+  return (index < 0 ? text : text.slice(0, index)).trimEnd();
+};
+
+const findMappingColon = (text: string): number =>
+  findUnquoted(text, (line, at) => line[at] === ":" && (at === line.length - 1 || /\s/.test(line[at + 1]!)));
+
+const readQuoted = (text: string, start: number, line: number): { value: string; end: number } => {
+  const quote = text[start]!;
+  let value = "";
+  for (let index = start + 1; index < text.length; index += 1) {
+    const char = text[index]!;
+    if (quote === "'" && char === "'") {
+      if (text[index + 1] === "'") {
+        value += "'";
+        index += 1;
+        continue;
+      }
+      return { value, end: index + 1 };
+    }
+    if (quote === "\"" && char === "\"") return { value, end: index + 1 };
+    if (quote === "\"" && char === "\\") {
+      const escape = text[index + 1] ?? "";
+      const hexLength = escape === "x" ? 2 : escape === "u" ? 4 : escape === "U" ? 8 : 0;
+      if (hexLength) {
+        value += String.fromCodePoint(Number.parseInt(text.slice(index + 2, index + 2 + hexLength), 16));
+        index += 1 + hexLength;
+      } else {
+        value += DOUBLE_QUOTE_ESCAPES[escape] ?? escape;
+        index += 1;
+      }
+      continue;
+    }
+    value += char;
+  }
+  throw yamlSyntaxError(line, "unterminated quoted string");
+};
+
+const parseFlow = (text: string, line: number): YamlValue => {
+  let position = 0;
+  const skipSpace = (): void => {
+    while (position < text.length && /\s/.test(text[position]!)) position += 1;
+  };
+  const parseItem = (terminators: string): YamlValue => {
+    skipSpace();
+    const char = text[position];
+    if (char === "[" || char === "{") return parseCollection();
+    if (char === "\"" || char === "'") {
+      const quoted = readQuoted(text, position, line);
+      position = quoted.end;
+      return quoted.value;
+    }
+    const start = position;
+    while (position < text.length && !terminators.includes(text[position]!) &&
+      !(text[position] === ":" && /[\s,]/.test(text[position + 1] ?? " ") && terminators.includes(":"))) {
+      position += 1;
+    }
+    return resolvePlainScalar(text.slice(start, position).trim());
+  };
+  const expect = (char: string): void => {
+    skipSpace();
+    if (text[position] !== char) throw yamlSyntaxError(line, `expected "${char}" in flow collection`);
+    position += 1;
+  };
+  const parseCollection = (): YamlValue => {
+    const sequence = text[position] === "[";
+    position += 1;
+    const items: YamlValue[] = [];
+    const mapping: YamlMapping = {};
+    skipSpace();
+    while (text[position] !== (sequence ? "]" : "}")) {
+      if (position >= text.length) throw yamlSyntaxError(line, "unterminated flow collection");
+      if (sequence) items.push(parseItem(",]"));
+      else {
+        const key = parseItem(",}:");
+        expect(":");
+        mapping[String(key)] = parseItem(",}");
+      }
+      skipSpace();
+      if (text[position] === ",") position += 1;
+      skipSpace();
+    }
+    position += 1;
+    return sequence ? items : mapping;
+  };
+  const value = parseItem("");
+  skipSpace();
+  if (position < text.length) throw yamlSyntaxError(line, "unexpected text after flow value");
+  return value;
+};
+
+const isUnbalancedFlow = (text: string): boolean => {
+  const opened = (text.match(/[[{]/g) ?? []).length;
+  const closed = (text.match(/[\]}]/g) ?? []).length;
+  return /^[[{]/.test(text) && opened > closed;
+};
+
+const parseBlockScalar = (cursor: YamlCursor, indicator: string, parentIndent: number): string => {
+  const startLine = cursor.lines[cursor.index - 1]!.number;
+  const lines: string[] = [];
+  while (cursor.index < cursor.lines.length && cursor.lines[cursor.index]!.indent > parentIndent) cursor.index += 1;
+  const endLine = cursor.index < cursor.lines.length ? cursor.lines[cursor.index]!.number - 1 : cursor.raw.length;
+  const body = cursor.raw.slice(startLine, endLine);
+  const indent = Math.min(...body.filter(text => text.trim()).map(text => text.length - text.trimStart().length));
+  body.forEach(text => lines.push(text.slice(Number.isFinite(indent) ? indent : 0)));
+  while (lines.length && !lines[lines.length - 1]!.trim()) lines.pop();
+  const joined = indicator.startsWith(">") ? lines.join(" ").replace(/ {2,}/g, " ") : lines.join("\n");
+  return indicator.endsWith("-") ? joined : `${joined}\n`;
+};
+
+const parseInlineValue = (cursor: YamlCursor, text: string, indent: number): YamlValue => {
+  const line = cursor.lines[cursor.index - 1]!.number;
+  if (/^[|>][-+]?$/.test(text)) return parseBlockScalar(cursor, text, indent);
+  let flow = text;
+  while (isUnbalancedFlow(flow) && cursor.index < cursor.lines.length) {
+    flow += ` ${cursor.lines[cursor.index]!.text}`;
+    cursor.index += 1;
+  }
+  if (/^[[{]/.test(flow)) return parseFlow(flow, line);
+  if (/^["']/.test(flow)) {
+    const quoted = readQuoted(flow, 0, line);
+    if (flow.slice(quoted.end).trim()) throw yamlSyntaxError(line, "unexpected text after quoted string");
+    return quoted.value;
+  }
+  return resolvePlainScalar(flow);
+};
+
+const parseKey = (text: string, line: number): string =>
+  /^["']/.test(text) ? readQuoted(text, 0, line).value : text.trim();
+
+// A nested block starts on the next line: deeper than its key, or a sequence at the key's indent.
+const parseNested = (cursor: YamlCursor, indent: number): YamlValue => {
+  const next = cursor.lines[cursor.index];
+  if (!next) return null;
+  if (next.indent > indent) return parseBlock(cursor, next.indent);
+  if (next.indent === indent && /^-(\s|$)/.test(next.text)) return parseSequence(cursor, indent);
+  return null;
+};
+
+const parseMapping = (cursor: YamlCursor, indent: number): YamlMapping => {
+  const mapping: YamlMapping = {};
+  while (cursor.index < cursor.lines.length) {
+    const line = cursor.lines[cursor.index]!;
+    if (line.indent < indent || /^-(\s|$)/.test(line.text)) break;
+    if (line.indent > indent) throw yamlSyntaxError(line.number, "unexpected indentation");
+    const colon = findMappingColon(line.text);
+    if (colon < 0) throw yamlSyntaxError(line.number, "expected \"key: value\"");
+    const key = parseKey(line.text.slice(0, colon), line.number);
+    const rest = line.text.slice(colon + 1).trim();
+    cursor.index += 1;
+    mapping[key] = rest ? parseInlineValue(cursor, rest, indent) : parseNested(cursor, indent);
+  }
+  return mapping;
+};
+
+const parseSequence = (cursor: YamlCursor, indent: number): YamlValue[] => {
+  const items: YamlValue[] = [];
+  while (cursor.index < cursor.lines.length) {
+    const line = cursor.lines[cursor.index]!;
+    if (line.indent !== indent || !/^-(\s|$)/.test(line.text)) break;
+    const content = line.text.slice(1).trimStart();
+    if (!content) {
+      cursor.index += 1;
+      items.push(parseNested(cursor, indent));
+      continue;
+    }
+    const contentIndent = indent + line.text.length - content.length;
+    if (findMappingColon(content) > 0 && !/^[[{"']/.test(content)) {
+      // "- key: value" opens a mapping whose keys line up with the first one.
+      cursor.lines[cursor.index] = { indent: contentIndent, text: content, number: line.number };
+      items.push(parseMapping(cursor, contentIndent));
+      continue;
+    }
+    cursor.index += 1;
+    items.push(parseInlineValue(cursor, content, indent));
+  }
+  return items;
+};
+
+const parseBlock = (cursor: YamlCursor, indent: number): YamlValue => {
+  const line = cursor.lines[cursor.index];
+  if (!line) return null;
+  return /^-(\s|$)/.test(line.text) ? parseSequence(cursor, indent) : parseMapping(cursor, indent);
+};
+
+export const parseYaml = (source: string): YamlValue => {
+  const raw = source.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+  const lines: YamlLine[] = [];
+  raw.forEach((text, index) => {
+    const stripped = stripComment(text);
+    if (!stripped.trim() || stripped.trim() === "---") return;
+    lines.push({ indent: stripped.length - stripped.trimStart().length, text: stripped.trim(), number: index + 1 });
+  });
+  const cursor: YamlCursor = { lines, index: 0, raw };
+  const value = parseBlock(cursor, lines[0]?.indent ?? 0);
+  const extra = cursor.lines[cursor.index];
+  if (extra) throw yamlSyntaxError(extra.number, "unexpected indentation");
+  return value;
+};
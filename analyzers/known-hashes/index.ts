@@ -0,0 +1,37 @@
+"use strict";
+
+import { md5, sha1 } from "@noble/hashes/legacy.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bufferToHex } from "../../binary-utils.js";
+import type { KnownHashAlgorithm, KnownHashMatch, KnownHashVerdict } from "./types.js";
+
+const DIGESTS = { md5, sha1, sha256 } as const;
+
+export const isKnownHashAlgorithm = (value: unknown): value is KnownHashAlgorithm =>
+  typeof value === "string" && Object.hasOwn(DIGESTS, value);
+
+// A file on any deny list is known bad even when an allow list also has it.
+export const summarizeKnownHashVerdict = (matches: readonly KnownHashMatch[]): KnownHashVerdict | null => {
+  if (matches.some(match => match.list.verdict === "bad")) return "bad";
+  return matches.length ? "good" : null;
+};
+
+// Streams the file once through each requested digest; used where the hash panel is not involved
+// (folder listings).
+export const digestFile = async (
+  file: Blob,
+  algorithms: readonly KnownHashAlgorithm[]
+): Promise<Array<[KnownHashAlgorithm, string]>> => {
+  const hashes = algorithms.map(algorithm => [algorithm, DIGESTS[algorithm].create()] as const);
+  const reader = file.stream().getReader();
+  try {
+    let result = await reader.read();
+    while (!result.done) {
+      for (const [, hash] of hashes) hash.update(result.value);
+      result = await reader.read();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  return hashes.map(([algorithm, hash]) => [algorithm, bufferToHex(hash.digest())]);
+};
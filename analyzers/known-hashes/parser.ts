@@ -0,0 +1,162 @@
+"use strict";
+
+import type { KnownHashAlgorithm, KnownHashEntry, KnownHashListFormat, KnownHashParseResult } from "./types.js";
+
+const ALGORITHM_BY_LENGTH: Readonly<Record<number, KnownHashAlgorithm>> = { 32: "md5", 40: "sha1", 64: "sha256" };
+const HEX_DIGEST = /^(?:[0-9a-f]{32}|[0-9a-f]{40}|[0-9a-f]{64})$/i;
+// Header names are compared with case and punctuation removed ("SHA-1", "sha1", "SHA1Hash").
+const HASH_COLUMNS: Readonly<Record<string, KnownHashAlgorithm | null>> = {
+  md5: "md5", md5hash: "md5", sha1: "sha1", sha1hash: "sha1", sha256: "sha256", sha256hash: "sha256",
+  hash: null, digest: null, checksum: null
+};
+const NAME_COLUMNS = new Set(["filename", "name", "file", "path", "filepath"]);
+
+const normalizeHeader = (cell: string): string => cell.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const isComment = (line: string): boolean => /^\s*(?:#|\/\/|;)/.test(line);
+
+const toEntry = (digest: string, name: string | null, algorithm?: KnownHashAlgorithm | null): KnownHashEntry | null => {
+  if (!HEX_DIGEST.test(digest)) return null;
+  const detected = ALGORITHM_BY_LENGTH[digest.length]!;
+  if (algorithm && algorithm !== detected) return null;
+  return { algorithm: detected, digest: digest.toLowerCase(), name: name || null };
+};
+
+// RFC 4180 fields on a single line; NSRL RDS files quote every text field.
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index]!;
+    if (quoted) {
+      if (char !== "\"") cell += char;
+      else if (line[index + 1] === "\"") {
+        cell += "\"";
+        index += 1;
+      } else quoted = false;
+    } else if (char === "\"") quoted = true;
+    else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else cell += char;
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+// `sha256sum` ("digest  name", "digest *name"), BSD `shasum --tag` ("SHA256 (name) = digest")
+// and bare digests, one per line.
+const parseTextLine = (line: string): KnownHashEntry | null => {
+  const tagged = /^(MD5|SHA1|SHA256)\s*\((.*)\)\s*=\s*([0-9a-f]+)$/i.exec(line);
+  if (tagged) {
+    return toEntry(tagged[3]!, tagged[2]!, tagged[1]!.toLowerCase() as KnownHashAlgorithm);
+  }
+  const match = /^([0-9a-f]+)(?:\s+\*?(.*))?$/i.exec(line);
+  return match ? toEntry(match[1]!, match[2]?.trim() ?? null) : null;
+};
+
+const parseCsvLine = (
+  columns: readonly { index: number; algorithm: KnownHashAlgorithm | null }[],
+  nameColumn: number,
+  line: string
+): KnownHashEntry[] => {
+  const cells = splitCsvLine(line);
+  const name = nameColumn >= 0 ? cells[nameColumn] ?? null : null;
+  return columns.flatMap(({ index, algorithm }) => toEntry(cells[index] ?? "", name, algorithm) ?? []);
+};
+
+const parseListLine = (line: string): KnownHashEntry | null => {
+  const [first = "", ...rest] = splitCsvLine(line);
+  return parseTextLine(line) ?? toEntry(first, rest.find(Boolean) ?? null);
+};
+
+const removeDuplicates = (entries: readonly KnownHashEntry[]): KnownHashEntry[] => {
+  const seen = new Set<string>();
+  return entries.filter(entry => {
+    const key = `${entry.algorithm}:${entry.digest}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export interface KnownHashListParser {
+  // Parses the complete lines of the next chunk of text; a partial last line waits for the
+  // following chunk.
+  write(chunk: string): KnownHashEntry[];
+  // Parses what is left after the last chunk.
+  end(): KnownHashEntry[];
+  format(): KnownHashListFormat;
+  skippedLines(): number;
+}
+
+// Incremental form of parseKnownHashList for lists too large to hold as one string (NSRL RDS
+// files run to gigabytes). The first non-comment line decides between CSV and plain text.
+// Duplicates are not removed here; stores keyed by digest drop them on write.
+export const createKnownHashListParser = (): KnownHashListParser => {
+  let pending = "";
+  let started = false;
+  let format: KnownHashListFormat = "text";
+  let skippedLines = 0;
+  let parseLine: ((line: string) => KnownHashEntry[]) | null = null;
+  const selectFormat = (line: string): boolean => {
+    const header = splitCsvLine(line);
+    const normalized = header.map(normalizeHeader);
+    if (header.length < 2 || !normalized.some(column => Object.hasOwn(HASH_COLUMNS, column))) {
+      parseLine = text => {
+        const entry = parseListLine(text);
+        return entry ? [entry] : [];
+      };
+      return false;
+    }
+    format = normalized.includes("sha1") && normalized.includes("md5") && normalized.includes("productcode")
+      ? "nsrl"
+      : "csv";
+    const columns = normalized.flatMap((column, index) =>
+      Object.hasOwn(HASH_COLUMNS, column) ? [{ index, algorithm: HASH_COLUMNS[column]! }] : []);
+    const nameColumn = normalized.findIndex(column => NAME_COLUMNS.has(column));
+    parseLine = text => parseCsvLine(columns, nameColumn, text);
+    return true;
+  };
+  const parseLines = (lines: readonly string[]): KnownHashEntry[] => {
+    const entries: KnownHashEntry[] = [];
+    for (const raw of lines) {
+      const line = raw.trim();
+      if (!line || isComment(line)) continue;
+      if (!parseLine && selectFormat(line)) continue;
+      const found = parseLine!(line);
+      if (found.length) entries.push(...found);
+      else skippedLines += 1;
+    }
+    return entries;
+  };
+  return {
+    write: chunk => {
+      let text = pending + chunk;
+      if (!started && text) {
+        started = true;
+        text = text.replace(/^\uFEFF/, "");
+      }
+      // A "\r\n" split across chunks leaves an empty line, which is skipped like any other.
+      const lines = text.split(/\r\n|\r|\n/);
+      pending = lines.pop() ?? "";
+      return parseLines(lines);
+    },
+    end: () => {
+      const last = pending;
+      pending = "";
+      return parseLines([last]);
+    },
+    format: () => format,
+    skippedLines: () => skippedLines
+  };
+};
+
+// Reads a hash list as exported by common tools: plain digests or checksum-tool output, CSV with a
+// header naming the hash columns, or an NSRL RDS file ("SHA-1","MD5","CRC32","FileName",...).
+export const parseKnownHashList = (source: string): KnownHashParseResult => {
+  const parser = createKnownHashListParser();
+  const entries = [...parser.write(source), ...parser.end()];
+  return { format: parser.format(), entries: removeDuplicates(entries), skippedLines: parser.skippedLines() };
+};
@@ -0,0 +1,36 @@
+"use strict";
+
+export type KnownHashAlgorithm = "md5" | "sha1" | "sha256";
+export type KnownHashVerdict = "good" | "bad";
+export type KnownHashListFormat = "text" | "csv" | "nsrl";
+
+export interface KnownHashEntry {
+  algorithm: KnownHashAlgorithm;
+  // Lowercase hex.
+  digest: string;
+  // File name given next to the digest, when the list has one.
+  name: string | null;
+}
+
+export interface KnownHashParseResult {
+  format: KnownHashListFormat;
+  entries: KnownHashEntry[];
+  // Non-empty, non-comment lines without a recognisable digest.
+  skippedLines: number;
+}
+
+// One imported list; its entries are stored separately and only looked up by digest.
+export interface KnownHashList {
+  id: string;
+  name: string;
+  verdict: KnownHashVerdict;
+  format: KnownHashListFormat;
+  algorithms: KnownHashAlgorithm[];
+  entryCount: number;
+  importedAt: string;
+}
+
+export interface KnownHashMatch {
+  list: KnownHashList;
+  entry: KnownHashEntry;
+}
@@ -0,0 +1,29 @@
+"use strict";
+
+import type { ParseForUiResult } from "./analyzer-types.js";
+import type { PeParseResult } from "./pe/index.js";
+import { rebuildPeRvaToOffset } from "./pe/sections/index.js";
+
+type WithoutRvaMapper<Result> = Result extends unknown ? Omit<Result, "rvaToOff"> : never;
+
+// Parse results are plain data except for the PE RVA mapper, which structured clone cannot carry.
+export type TransferableParseResult =
+  | Exclude<ParseForUiResult, { analyzer: "pe" }>
+  | { analyzer: "pe"; parsed: WithoutRvaMapper<PeParseResult> | null };
+
+export const toTransferableParseResult = (result: ParseForUiResult): TransferableParseResult => {
+  if (result.analyzer !== "pe" || !result.parsed) return result;
+  const { rvaToOff: _rvaToOff, ...parsed } = result.parsed;
+  return { analyzer: "pe", parsed };
+};
+
+export const fromTransferableParseResult = (
+  result: TransferableParseResult,
+  fileSize: number
+): ParseForUiResult => {
+  if (result.analyzer !== "pe" || !result.parsed) return result as ParseForUiResult;
+  return {
+    analyzer: "pe",
+    parsed: { ...result.parsed, rvaToOff: rebuildPeRvaToOffset(result.parsed, fileSize) } as PeParseResult
+  };
+};
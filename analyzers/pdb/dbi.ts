@@ -0,0 +1,171 @@
+"use strict";
+
+import { readCString } from "./msf.js";
+import type {
+  PdbDbiStream,
+  PdbModule,
+  PdbNamedStream,
+  PdbSectionHeader
+} from "./types.js";
+
+// DBI stream (stream 3), per LLVM's "The DBI Stream": a 64-byte header whose substream sizes
+// give the layout of the module list, section contributions, section map, file info, type
+// server map, EC substream and optional debug header that follow it in that order.
+const DBI_HEADER_SIZE = 64;
+const MODULE_HEADER_SIZE = 64;
+const CONTRIBUTION_SIZE = 28;
+const CONTRIBUTION_V2_SIZE = 32;
+const CONTRIBUTION_VER60 = 0xeffe0000 + 19970605;
+const CONTRIBUTION_V2 = 0xeffe0000 + 20140516;
+const SECTION_HEADER_SIZE = 40;
+const NIL_STREAM_INDEX = 0xffff;
+export const PDB_CONTRIBUTION_LIMIT = 16384;
+
+// DbgHeaderType order of the optional debug header's stream indices.
+const DEBUG_STREAM_NAMES = [
+  "FPO",
+  "Exception",
+  "Fixup",
+  "OmapToSrc",
+  "OmapFromSrc",
+  "SectionHdr",
+  "TokenRidMap",
+  "Xdata",
+  "Pdata",
+  "NewFPO",
+  "SectionHdrOrig"
+];
+
+const streamIndex = (value: number): number | null => value === NIL_STREAM_INDEX ? null : value;
+
+// ModInfo: Unused, SectionContr (28), Flags, ModuleSymStream, SymByteSize, C11ByteSize,
+// C13ByteSize, SourceFileCount, padding, Unused, two name indices, then ModuleName and
+// ObjFileName, padded to 4 bytes.
+const readModules = (
+  bytes: Uint8Array,
+  view: DataView,
+  start: number,
+  end: number,
+  warnings: string[]
+): PdbModule[] => {
+  const modules: PdbModule[] = [];
+  let pos = start;
+  while (pos + MODULE_HEADER_SIZE <= end) {
+    const moduleName = readCString(bytes, pos + MODULE_HEADER_SIZE, end);
+    const objectName = readCString(bytes, moduleName.next, end);
+    modules.push({
+      index: modules.length,
+      moduleName: moduleName.text,
+      objectName: objectName.text,
+      section: view.getUint16(pos + 4, true),
+      offset: view.getInt32(pos + 8, true),
+      size: view.getInt32(pos + 12, true),
+      symbolStream: streamIndex(view.getUint16(pos + 34, true)),
+      symbolBytes: view.getUint32(pos + 36, true),
+      lineBytes: view.getUint32(pos + 40, true) + view.getUint32(pos + 44, true),
+      sourceFileCount: view.getUint16(pos + 48, true)
+    });
+    pos = (objectName.next + 3) & ~3;
+  }
+  if (pos < end) warnings.push("DBI module info substream ends with a partial module record.");
+  return modules;
+};
+
+const readContributions = (
+  view: DataView,
+  start: number,
+  end: number,
+  dbi: PdbDbiStream,
+  warnings: string[]
+): void => {
+  if (start + 4 > end) return;
+  const version = view.getUint32(start, true);
+  const entrySize = version === CONTRIBUTION_V2 ? CONTRIBUTION_V2_SIZE : CONTRIBUTION_SIZE;
+  if (version !== CONTRIBUTION_VER60 && version !== CONTRIBUTION_V2) {
+    warnings.push(`DBI section contribution version 0x${version.toString(16)} is not recognised.`);
+    return;
+  }
+  dbi.sectionContributionCount = Math.floor((end - start - 4) / entrySize);
+  for (let pos = start + 4; pos + entrySize <= end; pos += entrySize) {
+    if (dbi.sectionContributions.length >= PDB_CONTRIBUTION_LIMIT) break;
+    dbi.sectionContributions.push({
+      section: view.getUint16(pos, true),
+      offset: view.getInt32(pos + 4, true),
+      size: view.getInt32(pos + 8, true),
+      characteristics: view.getUint32(pos + 12, true),
+      module: view.getUint16(pos + 16, true)
+    });
+  }
+};
+
+const readDebugStreams = (view: DataView, start: number, end: number): PdbNamedStream[] => {
+  const streams: PdbNamedStream[] = [];
+  DEBUG_STREAM_NAMES.forEach((name, index) => {
+    const pos = start + index * 2;
+    const stream = pos + 2 <= end ? streamIndex(view.getUint16(pos, true)) : null;
+    if (stream != null) streams.push({ name, stream });
+  });
+  return streams;
+};
+
+const createDbi = (view: DataView): PdbDbiStream => {
+  const build = view.getUint16(14, true);
+  return {
+    version: view.getUint32(4, true),
+    age: view.getUint32(8, true),
+    buildMajor: (build >>> 8) & 0x7f,
+    buildMinor: build & 0xff,
+    pdbDllVersion: view.getUint16(18, true),
+    machine: view.getUint16(58, true),
+    flags: view.getUint16(56, true),
+    globalStream: streamIndex(view.getUint16(12, true)),
+    publicStream: streamIndex(view.getUint16(16, true)),
+    symbolRecordStream: streamIndex(view.getUint16(20, true)),
+    modules: [],
+    sectionContributions: [],
+    sectionContributionCount: 0,
+    sections: [],
+    debugStreams: []
+  };
+};
+
+export const parseDbiStream = (bytes: Uint8Array | null, warnings: string[]): PdbDbiStream | null => {
+  if (!bytes) return null;
+  if (bytes.length < DBI_HEADER_SIZE) {
+    warnings.push("DBI stream (stream 3) is shorter than its header.");
+    return null;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const dbi = createDbi(view);
+  // ModInfo, SectionContribution, SectionMap, SourceInfo, TypeServerMap, then EC before DbgHeader.
+  const sizes = [24, 28, 32, 36, 40, 52, 48].map(offset => Math.max(0, view.getInt32(offset, true)));
+  const starts: number[] = [];
+  let pos = DBI_HEADER_SIZE;
+  sizes.forEach(size => {
+    starts.push(pos);
+    pos += size;
+  });
+  if (pos > bytes.length) warnings.push("DBI substreams extend past the end of the DBI stream.");
+  const bounded = (index: number): [number, number] => {
+    const start = Math.min(starts[index] ?? 0, bytes.length);
+    return [start, Math.min(start + (sizes[index] ?? 0), bytes.length)];
+  };
+  dbi.modules = readModules(bytes, view, ...bounded(0), warnings);
+  readContributions(view, ...bounded(1), dbi, warnings);
+  dbi.debugStreams = readDebugStreams(view, ...bounded(6));
+  return dbi;
+};
+
+export const parseSectionHeaders = (bytes: Uint8Array | null): PdbSectionHeader[] => {
+  if (!bytes) return [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const sections: PdbSectionHeader[] = [];
+  for (let pos = 0; pos + SECTION_HEADER_SIZE <= bytes.length; pos += SECTION_HEADER_SIZE) {
+    sections.push({
+      name: readCString(bytes, pos, pos + 8).text,
+      virtualSize: view.getUint32(pos + 8, true),
+      virtualAddress: view.getUint32(pos + 12, true)
+    });
+  }
+  return sections;
+};
@@ -0,0 +1,94 @@
+"use strict";
+
+import { parseDbiStream, parseSectionHeaders } from "./dbi.js";
+import { parsePdbInfoStream } from "./info-stream.js";
+import { openMsf, PDB_STREAM_READ_LIMIT, type MsfFile } from "./msf.js";
+import { GSI_STREAM_PREFIX_SIZE, readHashCounts, readSymbolRecords } from "./symbols.js";
+import { parseTypeStream } from "./tpi.js";
+import type { PdbDbiStream, PdbParseResult, PdbStream, PdbSymbolStreams } from "./types.js";
+
+// Fixed stream indices of an MSF 7.00 PDB.
+const INFO_STREAM = 1;
+const TPI_STREAM = 2;
+const DBI_STREAM = 3;
+const IPI_STREAM = 4;
+
+const FIXED_STREAM_NAMES: Readonly<Record<number, string>> = {
+  0: "Old stream directory",
+  [INFO_STREAM]: "PDB info",
+  [TPI_STREAM]: "TPI (types)",
+  [DBI_STREAM]: "DBI (debug info)",
+  [IPI_STREAM]: "IPI (item ids)"
+};
+
+const readLimited = async (msf: MsfFile, index: number, label: string, warnings: string[]) => {
+  const size = msf.streamSizes[index];
+  if (size != null && size > PDB_STREAM_READ_LIMIT) {
+    warnings.push(`${label} stream is larger than 64 MiB; only its first 64 MiB were read.`);
+  }
+  return msf.readStream(index);
+};
+
+const readSymbols = async (
+  msf: MsfFile,
+  dbi: PdbDbiStream,
+  warnings: string[]
+): Promise<PdbSymbolStreams | null> => {
+  if (dbi.symbolRecordStream == null) return null;
+  const records = await readLimited(msf, dbi.symbolRecordStream, "Symbol record", warnings);
+  if (!records) return null;
+  const symbols = readSymbolRecords(records, dbi.sections, warnings);
+  const globals = dbi.globalStream == null ? null : await msf.readStream(dbi.globalStream, GSI_STREAM_PREFIX_SIZE);
+  const publics = dbi.publicStream == null ? null : await msf.readStream(dbi.publicStream, GSI_STREAM_PREFIX_SIZE);
+  readHashCounts(symbols, globals, publics);
+  return symbols;
+};
+
+const readSections = async (msf: MsfFile, dbi: PdbDbiStream, warnings: string[]): Promise<void> => {
+  const sectionStream = dbi.debugStreams.find(stream => stream.name === "SectionHdr")?.stream;
+  if (sectionStream == null) return;
+  dbi.sections = parseSectionHeaders(await msf.readStream(sectionStream));
+  if (dbi.debugStreams.some(stream => stream.name === "OmapFromSrc")) {
+    warnings.push("PDB has OMAP tables; public symbol addresses are pre-optimisation and may not match the image.");
+  }
+};
+
+const nameStreams = (msf: MsfFile, result: PdbParseResult): PdbStream[] => {
+  const names = new Map<number, string>(Object.entries(FIXED_STREAM_NAMES).map(([index, name]) => [+index, name]));
+  const setName = (index: number | null | undefined, name: string) => {
+    if (index != null && !names.has(index)) names.set(index, name);
+  };
+  result.info?.namedStreams.forEach(stream => setName(stream.stream, stream.name));
+  const { dbi, types, ids } = result;
+  setName(dbi?.globalStream, "Global symbol hash");
+  setName(dbi?.publicStream, "Public symbol hash");
+  setName(dbi?.symbolRecordStream, "Symbol records");
+  dbi?.debugStreams.forEach(stream => setName(stream.stream, `Debug header: ${stream.name}`));
+  dbi?.modules.forEach(module => setName(module.symbolStream, `Module: ${module.moduleName}`));
+  setName(types?.hashStream, "TPI hash");
+  setName(ids?.hashStream, "IPI hash");
+  return msf.streamSizes.map((size, index) => ({ index, size, name: names.get(index) ?? null }));
+};
+
+export const parsePdb = async (file: File): Promise<PdbParseResult | null> => {
+  const warnings: string[] = [];
+  const msf = await openMsf(file, warnings);
+  if (!msf) return null;
+  const result: PdbParseResult = {
+    size: file.size,
+    msf: msf.info,
+    streams: [],
+    info: parsePdbInfoStream(await msf.readStream(INFO_STREAM), warnings),
+    dbi: parseDbiStream(await readLimited(msf, DBI_STREAM, "DBI", warnings), warnings),
+    symbols: null,
+    types: parseTypeStream(await readLimited(msf, TPI_STREAM, "TPI", warnings), "TPI", warnings),
+    ids: parseTypeStream(await readLimited(msf, IPI_STREAM, "IPI", warnings), "IPI", warnings),
+    warnings
+  };
+  if (result.dbi) {
+    await readSections(msf, result.dbi, warnings);
+    result.symbols = await readSymbols(msf, result.dbi, warnings);
+  }
+  result.streams = nameStreams(msf, result);
+  return result;
+};
@@ -0,0 +1,97 @@
+"use strict";
+
+import { readCString } from "./msf.js";
+import type { PdbInfoStream, PdbNamedStream } from "./types.js";
+
+// PDB info stream (stream 1), per LLVM's "The PDB Info Stream": Version, Signature, Age and,
+// from VC70 on, the GUID; then the named stream map and a list of feature codes.
+const PDB_VERSION_VC70 = 20000404;
+const HEADER_SIZE_VC70 = 28;
+const HEADER_SIZE_OLD = 12;
+// Named stream map bounds the hash table; anything larger is treated as corrupt.
+const NAMED_STREAM_LIMIT = 4096;
+
+const FEATURE_NAMES: ReadonlyMap<number, string> = new Map([
+  [20091201, "VC110"],
+  [20140508, "VC140"],
+  [0x4d544f4e, "NoTypeMerge"],
+  [0x494e494d, "MinimalDebugInfo"]
+]);
+
+const hexByte = (byte: number): string => byte.toString(16).padStart(2, "0");
+
+// Same text form as RSDS CodeView records: Data1-Data2-Data3 little-endian, Data4 as bytes.
+export const formatPdbGuid = (bytes: Uint8Array, offset: number): string => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + offset, 16);
+  const data4 = [...bytes.subarray(offset + 8, offset + 16)].map(hexByte);
+  return [
+    view.getUint32(0, true).toString(16).padStart(8, "0"),
+    view.getUint16(4, true).toString(16).padStart(4, "0"),
+    view.getUint16(6, true).toString(16).padStart(4, "0"),
+    data4.slice(0, 2).join(""),
+    data4.slice(2).join("")
+  ].join("-");
+};
+
+// Hash table: Size, Capacity, present and deleted bit vectors, then Size (key, value) pairs where
+// the key is an offset into the string buffer and the value a stream index.
+const readNamedStreams = (
+  bytes: Uint8Array,
+  view: DataView,
+  start: number,
+  warnings: string[]
+): { streams: PdbNamedStream[]; end: number } => {
+  const fail = (): { streams: PdbNamedStream[]; end: number } => {
+    warnings.push("PDB info stream named stream map is truncated.");
+    return { streams: [], end: bytes.length };
+  };
+  if (start + 4 > bytes.length) return fail();
+  const stringsSize = view.getUint32(start, true);
+  const strings = start + 4;
+  let pos = strings + stringsSize;
+  if (pos + 8 > bytes.length) return fail();
+  const size = view.getUint32(pos, true);
+  pos += 8;
+  for (let vector = 0; vector < 2; vector += 1) {
+    if (pos + 4 > bytes.length) return fail();
+    pos += 4 + view.getUint32(pos, true) * 4;
+  }
+  if (size > NAMED_STREAM_LIMIT || pos + size * 8 > bytes.length) return fail();
+  const streams: PdbNamedStream[] = [];
+  for (let index = 0; index < size; index += 1, pos += 8) {
+    const key = view.getUint32(pos, true);
+    if (key >= stringsSize) continue;
+    const name = readCString(bytes, strings + key, strings + stringsSize).text;
+    streams.push({ name, stream: view.getUint32(pos + 4, true) });
+  }
+  streams.sort((left, right) => left.stream - right.stream);
+  return { streams, end: pos };
+};
+
+const readFeatures = (view: DataView, start: number): string[] => {
+  const features: string[] = [];
+  for (let pos = start; pos + 4 <= view.byteLength; pos += 4) {
+    const code = view.getUint32(pos, true);
+    features.push(FEATURE_NAMES.get(code) ?? `0x${code.toString(16)}`);
+  }
+  return features;
+};
+
+export const parsePdbInfoStream = (bytes: Uint8Array | null, warnings: string[]): PdbInfoStream | null => {
+  if (!bytes || bytes.length < HEADER_SIZE_OLD) {
+    warnings.push("PDB info stream (stream 1) is missing or truncated.");
+    return null;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint32(0, true);
+  const hasGuid = version >= PDB_VERSION_VC70 && bytes.length >= HEADER_SIZE_VC70;
+  const { streams, end } = readNamedStreams(bytes, view, hasGuid ? HEADER_SIZE_VC70 : HEADER_SIZE_OLD, warnings);
+  return {
+    version,
+    signature: view.getUint32(4, true),
+    age: view.getUint32(8, true),
+    guid: hasGuid ? formatPdbGuid(bytes, 12) : null,
+    namedStreams: streams,
+    features: readFeatures(view, end)
+  };
+};
@@ -0,0 +1,156 @@
+"use strict";
+
+import type { PdbMsfInfo } from "./types.js";
+
+// MSF 7.00 superblock, as in LLVM's MSFCommon.h and microsoft-pdb msf.cpp: a 32-byte magic
+// followed by BlockSize, FreeBlockMapBlock, NumBlocks, NumDirectoryBytes, Unknown and BlockMapAddr.
+const MSF7_MAGIC = "Microsoft C/C++ MSF 7.00\r\n\x1aDS\0\0\0";
+export const MSF_SUPERBLOCK_SIZE = 56;
+const VALID_BLOCK_SIZES = [512, 1024, 2048, 4096, 8192, 16384, 32768];
+const NIL_STREAM_SIZE = 0xffffffff;
+// Streams above this size are read only up to it; the rest is reported as skipped.
+export const PDB_STREAM_READ_LIMIT = 64 * 1024 * 1024;
+
+const utf8 = new TextDecoder("utf-8", { fatal: false });
+
+export const hasPdbSignature = (view: DataView): boolean => {
+  if (view.byteLength < MSF7_MAGIC.length) return false;
+  for (let index = 0; index < MSF7_MAGIC.length; index += 1) {
+    if (view.getUint8(index) !== MSF7_MAGIC.charCodeAt(index)) return false;
+  }
+  return true;
+};
+
+// NUL-terminated UTF-8 string; returns the text and the offset just past the terminator.
+export const readCString = (bytes: Uint8Array, offset: number, end: number): { text: string; next: number } => {
+  let terminator = offset;
+  while (terminator < end && bytes[terminator] !== 0) terminator += 1;
+  return { text: utf8.decode(bytes.subarray(offset, terminator)), next: Math.min(end, terminator + 1) };
+};
+
+export interface MsfFile {
+  info: PdbMsfInfo;
+  // Stream sizes in directory order; null marks a nil stream.
+  streamSizes: (number | null)[];
+  // Reads up to `limit` bytes of a stream, or null when the stream is nil or absent.
+  readStream: (index: number, limit?: number) => Promise<Uint8Array | null>;
+}
+
+const readSuperBlock = (view: DataView): PdbMsfInfo => ({
+  blockSize: view.getUint32(32, true),
+  freeBlockMapBlock: view.getUint32(36, true),
+  blockCount: view.getUint32(40, true),
+  directoryBytes: view.getUint32(44, true),
+  blockMapAddress: view.getUint32(52, true),
+  streamCount: 0
+});
+
+// Reads the listed blocks, coalescing runs of consecutive block numbers into one slice.
+const readBlocks = async (
+  file: File,
+  blockSize: number,
+  blocks: readonly number[],
+  length: number
+): Promise<Uint8Array> => {
+  const out = new Uint8Array(length);
+  let written = 0;
+  for (let index = 0; index < blocks.length && written < length;) {
+    let runEnd = index + 1;
+    while (runEnd < blocks.length && blocks[runEnd] === (blocks[runEnd - 1] ?? 0) + 1) runEnd += 1;
+    const start = (blocks[index] ?? 0) * blockSize;
+    const runLength = Math.min((runEnd - index) * blockSize, length - written);
+    const chunk = new Uint8Array(await file.slice(start, start + runLength).arrayBuffer());
+    out.set(chunk, written);
+    written += runLength;
+    index = runEnd;
+  }
+  return out;
+};
+
+const blockCountFor = (bytes: number, blockSize: number): number => Math.ceil(bytes / blockSize);
+
+const readDirectory = async (
+  file: File,
+  info: PdbMsfInfo,
+  warnings: string[]
+): Promise<DataView | null> => {
+  const { blockSize, directoryBytes, blockMapAddress } = info;
+  const directoryBlocks = blockCountFor(directoryBytes, blockSize);
+  if (directoryBlocks * 4 > blockSize || (blockMapAddress + 1) * blockSize > file.size) {
+    warnings.push("MSF stream directory block map lies outside the file.");
+    return null;
+  }
+  const mapView = new DataView(
+    await file.slice(blockMapAddress * blockSize, blockMapAddress * blockSize + directoryBlocks * 4).arrayBuffer()
+  );
+  const blocks: number[] = [];
+  for (let index = 0; index < directoryBlocks; index += 1) {
+    const block = mapView.getUint32(index * 4, true);
+    if ((block + 1) * blockSize > file.size) {
+      warnings.push("MSF stream directory block lies outside the file.");
+      return null;
+    }
+    blocks.push(block);
+  }
+  const bytes = await readBlocks(file, blockSize, blocks, directoryBytes);
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+};
+
+// Directory: NumStreams, StreamSizes[NumStreams], then each stream's block list in order.
+const readStreamBlockLists = (
+  directory: DataView,
+  info: PdbMsfInfo,
+  warnings: string[]
+): { sizes: (number | null)[]; blocks: number[][] } => {
+  const sizes: (number | null)[] = [];
+  const blocks: number[][] = [];
+  const streamCount = directory.byteLength >= 4 ? directory.getUint32(0, true) : 0;
+  if (4 + streamCount * 4 > directory.byteLength) {
+    warnings.push("MSF stream directory is shorter than its stream count.");
+    return { sizes, blocks };
+  }
+  let pos = 4 + streamCount * 4;
+  for (let index = 0; index < streamCount; index += 1) {
+    const size = directory.getUint32(4 + index * 4, true);
+    const count = size === NIL_STREAM_SIZE ? 0 : blockCountFor(size, info.blockSize);
+    if (pos + count * 4 > directory.byteLength) {
+      warnings.push(`MSF stream directory is truncated at stream ${index}.`);
+      break;
+    }
+    const list: number[] = [];
+    for (let block = 0; block < count; block += 1, pos += 4) list.push(directory.getUint32(pos, true));
+    sizes.push(size === NIL_STREAM_SIZE ? null : size);
+    blocks.push(list);
+  }
+  return { sizes, blocks };
+};
+
+export const openMsf = async (file: File, warnings: string[]): Promise<MsfFile | null> => {
+  if (file.size < MSF_SUPERBLOCK_SIZE) return null;
+  const header = new DataView(await file.slice(0, MSF_SUPERBLOCK_SIZE).arrayBuffer());
+  if (!hasPdbSignature(header)) return null;
+  const info = readSuperBlock(header);
+  const empty: MsfFile = { info, streamSizes: [], readStream: () => Promise.resolve(null) };
+  if (!VALID_BLOCK_SIZES.includes(info.blockSize)) {
+    warnings.push(`MSF block size ${info.blockSize} is not a supported power of two.`);
+    return empty;
+  }
+  if (info.blockCount * info.blockSize > file.size) {
+    warnings.push("MSF block count extends past the end of the file; the PDB may be truncated.");
+  }
+  const directory = await readDirectory(file, info, warnings);
+  if (!directory) return empty;
+  const { sizes, blocks } = readStreamBlockLists(directory, info, warnings);
+  info.streamCount = sizes.length;
+  const readStream = async (index: number, limit = PDB_STREAM_READ_LIMIT): Promise<Uint8Array | null> => {
+    const size = sizes[index];
+    const list = blocks[index];
+    if (size == null || !list) return null;
+    if (list.some(block => (block + 1) * info.blockSize > file.size)) {
+      warnings.push(`MSF stream ${index} has blocks outside the file.`);
+      return null;
+    }
+    return readBlocks(file, info.blockSize, list, Math.min(size, limit));
+  };
+  return { info, streamSizes: sizes, readStream };
+};
@@ -0,0 +1,28 @@
+"use strict";
+
+import type { PeWindowsParseResult } from "../pe/core/parse-result.js";
+import type { PdbParseResult, PePdbSymbols } from "./types.js";
+
+export type PdbPeMatch = "match" | "no-rsds" | "guid-mismatch" | "age-mismatch";
+
+// Debuggers pair an image with its PDB by the RSDS GUID and age. The linker bumps the info
+// stream age on every incremental write, so the DBI age is the one the image records.
+export const pdbMatchAge = (pdb: PdbParseResult): number | null => pdb.dbi?.age ?? pdb.info?.age ?? null;
+
+export const matchPdbToPe = (pdb: PdbParseResult, pe: PeWindowsParseResult): PdbPeMatch => {
+  const reference = pe.debug?.entry;
+  if (reference?.signature !== "RSDS" || !pdb.info?.guid) return "no-rsds";
+  if (reference.guid.toLowerCase() !== pdb.info.guid.toLowerCase()) return "guid-mismatch";
+  return reference.age === pdbMatchAge(pdb) ? "match" : "age-mismatch";
+};
+
+export const createPePdbSymbols = (pdb: PdbParseResult, fileName: string): PePdbSymbols => {
+  const names = new Map<number, string>();
+  const publics = pdb.symbols?.publics ?? [];
+  // Function publics first so they win over data labels at the same address.
+  [...publics.filter(symbol => symbol.isFunction), ...publics.filter(symbol => !symbol.isFunction)]
+    .forEach(symbol => {
+      if (symbol.rva != null && symbol.name && !names.has(symbol.rva)) names.set(symbol.rva, symbol.name);
+    });
+  return { fileName, guid: pdb.info?.guid ?? "", age: pdbMatchAge(pdb) ?? 0, names };
+};
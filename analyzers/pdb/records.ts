@@ -0,0 +1,30 @@
+"use strict";
+
+import type { PdbSymbolKindCount } from "./types.js";
+
+// CodeView symbol and type records share one framing: RecordLength (2, excluding itself) and
+// RecordKind (2), followed by the record data.
+export const walkCodeViewRecords = (
+  view: DataView,
+  start: number,
+  end: number,
+  visit: (kind: number, pos: number, recordEnd: number) => void
+): boolean => {
+  let pos = start;
+  while (pos + 4 <= end) {
+    const recordLength = view.getUint16(pos, true);
+    const recordEnd = pos + 2 + recordLength;
+    if (recordLength < 2 || recordEnd > end) return false;
+    visit(view.getUint16(pos + 2, true), pos, recordEnd);
+    pos = recordEnd;
+  }
+  return true;
+};
+
+export const listKindCounts = (
+  counts: ReadonlyMap<number, number>,
+  names: ReadonlyMap<number, string>
+): PdbSymbolKindCount[] =>
+  [...counts]
+    .map(([kind, count]) => ({ kind, name: names.get(kind) ?? `0x${kind.toString(16)}`, count }))
+    .sort((left, right) => right.count - left.count || left.kind - right.kind);
@@ -0,0 +1,121 @@
+"use strict";
+
+import { readCString } from "./msf.js";
+import { listKindCounts, walkCodeViewRecords } from "./records.js";
+import type { PdbPublicSymbol, PdbSectionHeader, PdbSymbolStreams } from "./types.js";
+
+// Symbol record stream (named by the DBI header) holding the S_PUB32 records the publics
+// stream hashes and the global records (data, procedure references, UDTs) the globals stream hashes.
+const S_PUB32 = 0x110e;
+const PUB32_NAME_OFFSET = 14;
+const PUBLIC_FLAG_CODE = 0x1;
+const PUBLIC_FLAG_FUNCTION = 0x2;
+// GSIHashHeader: VerSignature, VerHdr, HrSize, NumBuckets; hash records are 8 bytes each.
+const GSI_HEADER_SIZE = 16;
+const GSI_HASH_RECORD_SIZE = 8;
+// PublicsStreamHeader: SymHash, AddrMap, NumThunks, SizeOfThunk, ISectThunkTable, OffThunkTable, NumSections.
+const PUBLICS_HEADER_SIZE = 28;
+export const PDB_PUBLIC_LIMIT = 100000;
+
+const SYMBOL_KIND_NAMES: ReadonlyMap<number, string> = new Map([
+  [0x1107, "S_CONSTANT"],
+  [0x1108, "S_UDT"],
+  [0x110c, "S_LDATA32"],
+  [0x110d, "S_GDATA32"],
+  [0x110e, "S_PUB32"],
+  [0x1112, "S_LTHREAD32"],
+  [0x1113, "S_GTHREAD32"],
+  [0x1124, "S_UNAMESPACE"],
+  [0x1125, "S_PROCREF"],
+  [0x1126, "S_DATAREF"],
+  [0x1127, "S_LPROCREF"],
+  [0x1128, "S_ANNOTATIONREF"],
+  [0x1129, "S_TOKENREF"],
+  [0x112a, "S_GMANPROC"],
+  [0x112b, "S_LMANPROC"]
+]);
+
+export const resolvePdbRva = (
+  sections: readonly PdbSectionHeader[],
+  segment: number,
+  offset: number
+): number | null => {
+  const section = sections[segment - 1];
+  return section ? (section.virtualAddress + offset) >>> 0 : null;
+};
+
+const readPublic = (
+  bytes: Uint8Array,
+  view: DataView,
+  pos: number,
+  recordEnd: number,
+  sections: readonly PdbSectionHeader[]
+): PdbPublicSymbol | null => {
+  if (pos + 4 + PUB32_NAME_OFFSET > recordEnd) return null;
+  const data = pos + 4;
+  const flags = view.getUint32(data, true);
+  const offset = view.getUint32(data + 4, true);
+  const segment = view.getUint16(data + 8, true);
+  return {
+    name: readCString(bytes, data + 10, recordEnd).text,
+    segment,
+    offset,
+    rva: resolvePdbRva(sections, segment, offset),
+    isFunction: (flags & PUBLIC_FLAG_FUNCTION) !== 0,
+    isCode: (flags & PUBLIC_FLAG_CODE) !== 0
+  };
+};
+
+export const readSymbolRecords = (
+  bytes: Uint8Array,
+  sections: readonly PdbSectionHeader[],
+  warnings: string[]
+): PdbSymbolStreams => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const result: PdbSymbolStreams = {
+    publics: [],
+    publicCount: 0,
+    recordCount: 0,
+    globalKinds: [],
+    globalHashRecords: null,
+    publicHashRecords: null,
+    addressMapEntries: null
+  };
+  const counts = new Map<number, number>();
+  const complete = walkCodeViewRecords(view, 0, bytes.length, (kind, pos, recordEnd) => {
+    result.recordCount += 1;
+    if (kind !== S_PUB32) {
+      counts.set(kind, (counts.get(kind) ?? 0) + 1);
+      return;
+    }
+    const symbol = readPublic(bytes, view, pos, recordEnd, sections);
+    if (!symbol) return;
+    result.publicCount += 1;
+    if (result.publics.length < PDB_PUBLIC_LIMIT) result.publics.push(symbol);
+  });
+  if (!complete) warnings.push("PDB symbol record stream ends with a truncated record.");
+  result.globalKinds = listKindCounts(counts, SYMBOL_KIND_NAMES);
+  return result;
+};
+
+const hashRecordCount = (view: DataView, start: number): number | null =>
+  start + GSI_HEADER_SIZE <= view.byteLength
+    ? Math.floor(view.getUint32(start + 8, true) / GSI_HASH_RECORD_SIZE)
+    : null;
+
+export const GSI_STREAM_PREFIX_SIZE = PUBLICS_HEADER_SIZE + GSI_HEADER_SIZE;
+
+// Only the stream headers are needed for the hash and address map counts.
+export const readHashCounts = (
+  symbols: PdbSymbolStreams,
+  globals: Uint8Array | null,
+  publics: Uint8Array | null
+): void => {
+  if (globals) {
+    symbols.globalHashRecords = hashRecordCount(new DataView(globals.buffer, globals.byteOffset, globals.length), 0);
+  }
+  if (!publics || publics.length < PUBLICS_HEADER_SIZE) return;
+  const view = new DataView(publics.buffer, publics.byteOffset, publics.byteLength);
+  symbols.addressMapEntries = Math.floor(view.getUint32(4, true) / 4);
+  symbols.publicHashRecords = hashRecordCount(view, PUBLICS_HEADER_SIZE);
+};
@@ -0,0 +1,68 @@
+"use strict";
+
+import { listKindCounts, walkCodeViewRecords } from "./records.js";
+import type { PdbTypeStream } from "./types.js";
+
+// TPI (stream 2) and IPI (stream 4) share one header, per LLVM's "The PDB TPI and IPI Streams":
+// Version, HeaderSize, TypeIndexBegin, TypeIndexEnd, TypeRecordBytes, HashStreamIndex, ...
+const TYPE_STREAM_HEADER_SIZE = 56;
+const NIL_STREAM_INDEX = 0xffff;
+
+const LEAF_KIND_NAMES: ReadonlyMap<number, string> = new Map([
+  [0x000a, "LF_VTSHAPE"],
+  [0x000e, "LF_LABEL"],
+  [0x1001, "LF_MODIFIER"],
+  [0x1002, "LF_POINTER"],
+  [0x1008, "LF_PROCEDURE"],
+  [0x1009, "LF_MFUNCTION"],
+  [0x1201, "LF_ARGLIST"],
+  [0x1203, "LF_FIELDLIST"],
+  [0x1205, "LF_BITFIELD"],
+  [0x1206, "LF_METHODLIST"],
+  [0x1503, "LF_ARRAY"],
+  [0x1504, "LF_CLASS"],
+  [0x1505, "LF_STRUCTURE"],
+  [0x1506, "LF_UNION"],
+  [0x1507, "LF_ENUM"],
+  [0x1519, "LF_INTERFACE"],
+  [0x151d, "LF_VFTABLE"],
+  [0x1601, "LF_FUNC_ID"],
+  [0x1602, "LF_MFUNC_ID"],
+  [0x1603, "LF_BUILDINFO"],
+  [0x1604, "LF_SUBSTR_LIST"],
+  [0x1605, "LF_STRING_ID"],
+  [0x1606, "LF_UDT_SRC_LINE"],
+  [0x1607, "LF_UDT_MOD_SRC_LINE"]
+]);
+
+export const parseTypeStream = (
+  bytes: Uint8Array | null,
+  label: string,
+  warnings: string[]
+): PdbTypeStream | null => {
+  if (!bytes) return null;
+  if (bytes.length < TYPE_STREAM_HEADER_SIZE) {
+    warnings.push(`${label} stream is shorter than its header.`);
+    return null;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerSize = view.getUint32(4, true);
+  const recordBytes = view.getUint32(16, true);
+  const hashStream = view.getUint16(20, true);
+  const counts = new Map<number, number>();
+  const start = Math.min(headerSize, bytes.length);
+  const end = Math.min(bytes.length, start + recordBytes);
+  const complete = walkCodeViewRecords(view, start, end, kind => counts.set(kind, (counts.get(kind) ?? 0) + 1));
+  if (!complete || start + recordBytes > bytes.length) {
+    warnings.push(`${label} type records are truncated; leaf counts are partial.`);
+  }
+  return {
+    version: view.getUint32(0, true),
+    headerSize,
+    typeIndexBegin: view.getUint32(8, true),
+    typeIndexEnd: view.getUint32(12, true),
+    recordBytes,
+    hashStream: hashStream === NIL_STREAM_INDEX ? null : hashStream,
+    leafKinds: listKindCounts(counts, LEAF_KIND_NAMES)
+  };
+};
@@ -0,0 +1,148 @@
+"use strict";
+
+// MSF 7.00 container ("big MSF"): a superblock followed by fixed-size blocks; streams are lists
+// of block numbers recorded in the stream directory.
+export interface PdbMsfInfo {
+  blockSize: number;
+  blockCount: number;
+  freeBlockMapBlock: number;
+  directoryBytes: number;
+  blockMapAddress: number;
+  streamCount: number;
+}
+
+export interface PdbStream {
+  index: number;
+  // null for nil streams (size 0xffffffff in the directory).
+  size: number | null;
+  // What the stream holds, from its fixed index, the named stream map or the DBI header.
+  name: string | null;
+}
+
+export interface PdbNamedStream {
+  name: string;
+  stream: number;
+}
+
+// PDB info stream (stream 1): the signature, age and GUID an image's RSDS record points at.
+export interface PdbInfoStream {
+  version: number;
+  signature: number;
+  age: number;
+  guid: string | null;
+  namedStreams: PdbNamedStream[];
+  features: string[];
+}
+
+export interface PdbModule {
+  index: number;
+  moduleName: string;
+  objectName: string;
+  // First section contribution recorded in the module header.
+  section: number;
+  offset: number;
+  size: number;
+  symbolStream: number | null;
+  symbolBytes: number;
+  // C11 plus C13 line information bytes.
+  lineBytes: number;
+  sourceFileCount: number;
+}
+
+export interface PdbSectionContribution {
+  section: number;
+  offset: number;
+  size: number;
+  characteristics: number;
+  module: number;
+}
+
+// Original IMAGE_SECTION_HEADER copies from the DBI optional debug header; they map
+// section:offset pairs to RVAs without the image.
+export interface PdbSectionHeader {
+  name: string;
+  virtualAddress: number;
+  virtualSize: number;
+}
+
+export interface PdbDbiStream {
+  version: number;
+  age: number;
+  buildMajor: number;
+  buildMinor: number;
+  pdbDllVersion: number;
+  machine: number;
+  flags: number;
+  globalStream: number | null;
+  publicStream: number | null;
+  symbolRecordStream: number | null;
+  modules: PdbModule[];
+  sectionContributions: PdbSectionContribution[];
+  // Total; the listing stops at PDB_CONTRIBUTION_LIMIT.
+  sectionContributionCount: number;
+  sections: PdbSectionHeader[];
+  // Streams named by the optional debug header (FPO, section headers, OMAP, ...).
+  debugStreams: PdbNamedStream[];
+}
+
+export interface PdbPublicSymbol {
+  name: string;
+  segment: number;
+  offset: number;
+  // Resolved through the DBI section headers; null when the segment is unknown.
+  rva: number | null;
+  isFunction: boolean;
+  isCode: boolean;
+}
+
+export interface PdbSymbolKindCount {
+  kind: number;
+  name: string;
+  count: number;
+}
+
+export interface PdbSymbolStreams {
+  publics: PdbPublicSymbol[];
+  // Totals; the public listing stops at PDB_PUBLIC_LIMIT.
+  publicCount: number;
+  recordCount: number;
+  // Non-public records in the symbol record stream, by kind (S_GDATA32, S_PROCREF, S_UDT, ...).
+  globalKinds: PdbSymbolKindCount[];
+  // Hash records in the GSI streams and entries in the publics address map.
+  globalHashRecords: number | null;
+  publicHashRecords: number | null;
+  addressMapEntries: number | null;
+}
+
+// TPI (stream 2) and IPI (stream 4) headers plus a per-leaf-kind record count.
+export interface PdbTypeStream {
+  version: number;
+  headerSize: number;
+  typeIndexBegin: number;
+  typeIndexEnd: number;
+  recordBytes: number;
+  hashStream: number | null;
+  leafKinds: PdbSymbolKindCount[];
+}
+
+export interface PdbParseResult {
+  size: number;
+  msf: PdbMsfInfo;
+  streams: PdbStream[];
+  info: PdbInfoStream | null;
+  dbi: PdbDbiStream | null;
+  symbols: PdbSymbolStreams | null;
+  types: PdbTypeStream | null;
+  ids: PdbTypeStream | null;
+  warnings: string[];
+}
+
+// Public symbol names from a PDB whose GUID and age match a PE image's RSDS record, attached to
+// that image's parse result so its export and disassembly views can name functions.
+export interface PePdbSymbols {
+  fileName: string;
+  guid: string;
+  age: number;
+  // Function names keyed by RVA; the first public at an address wins.
+  names: ReadonlyMap<number, string>;
+}
@@ -1,6 +1,21 @@
 "use strict";
 import type { PdfHeader } from "./types.js";
 
+// Offset just past the line break (CR, LF or CRLF) that ends the line starting at position.
+const nextLineStart = (text: string, position: number): number => {
+  const match = /\r\n|\r|\n/.exec(text.slice(position));
+  return match ? position + match.index + match[0].length : text.length;
+};
+
+// ISO 32000-1 7.5.2: the header line may be followed by a comment line of binary bytes; both
+// belong to the header.
+const findHeaderEnd = (text: string): number => {
+  const headerEnd = nextLineStart(text, 0);
+  return text.startsWith("%", headerEnd) && !text.startsWith("%%EOF", headerEnd)
+    ? nextLineStart(text, headerEnd)
+    : headerEnd;
+};
+
 const parseHeader = (text: string, issues: string[]): PdfHeader => {
   const firstLineEnd = text.indexOf("\n");
   const headerLine =
@@ -8,12 +23,12 @@ const parseHeader = (text: string, issues: string[]): PdfHeader => {
   const match = headerLine.match(/^%PDF-([0-9]+\.[0-9]+)/);
   if (!match) {
     issues.push("Missing or malformed %PDF- header.");
-    return { headerLine, version: null };
+    return { headerLine, version: null, headerEnd: 0 };
   }
   const binaryMarker = text.slice(0, 256).match(/%[^\n]{4,}/);
   const version = match[1] || null;
   const marker = binaryMarker?.[0] ?? null;
-  return { headerLine, version, binaryMarker: marker };
+  return { headerLine, version, binaryMarker: marker, headerEnd: findHeaderEnd(text) };
 };
 
 const parseStartxref = (text: string, issues: string[]): number | null => {
@@ -36,4 +51,12 @@ const parseStartxref = (text: string, issues: string[]): number | null => {
   return Number.parseInt(offsetText, 10);
 };
 
-export { parseHeader, parseStartxref };
+// End of the last %%EOF marker and its end-of-line; bytes after it belong to no revision.
+const findEofMarkerEnd = (text: string): number | null => {
+  const idx = text.lastIndexOf("%%EOF");
+  if (idx === -1) return null;
+  const eol = /^(?:\r\n|\r|\n)?/.exec(text.slice(idx + 5, idx + 7))?.[0] ?? "";
+  return idx + 5 + eol.length;
+};
+
+export { findEofMarkerEnd, parseHeader, parseStartxref };
@@ -5,8 +5,9 @@ import {
   parsePagesDictionary,
   readObjectText
 } from "./dictionary.js";
-import { parseHeader, parseStartxref } from "./header.js";
+import { findEofMarkerEnd, parseHeader, parseStartxref } from "./header.js";
 import { buildOffsetMap, parseXref } from "./xref.js";
+import { decodeXrefStreamEntries } from "./xref-stream.js";
 import type {
   PdfCatalog,
   PdfInfoDictionary,
@@ -24,6 +25,9 @@ const parsePdf = async (file: File): Promise<PdfParseResult | null> => {
   const header = parseHeader(text, issues);
   const startxref = parseStartxref(text, issues);
   const xref = parseXref(text, startxref, issues);
+  if (xref?.kind === "stream") {
+    xref.entries = await decodeXrefStreamEntries(new Uint8Array(buffer), text, xref, issues);
+  }
   const trailer: PdfTrailer | null = xref && "trailer" in xref ? xref.trailer || null : null;
   const offsets = buildOffsetMap(xref);
 
@@ -52,6 +56,7 @@ const parsePdf = async (file: File): Promise<PdfParseResult | null> => {
     size: buffer.byteLength,
     header,
     startxref,
+    eofMarkerEnd: findEofMarkerEnd(text),
     xref,
     trailer,
     info,
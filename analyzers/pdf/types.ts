@@ -9,6 +9,8 @@ export interface PdfHeader {
   headerLine: string;
   version: string | null;
   binaryMarker?: string | null;
+  // End of the header line and the binary comment line after it; 0 when the header is malformed.
+  headerEnd: number;
 }
 
 export interface PdfXrefEntry {
@@ -46,6 +48,8 @@ export interface PdfXrefStream {
   objectNumber: number;
   generation: number;
   trailer: PdfTrailer;
+  // Free and in-use entries decoded from the stream data; empty when it could not be decoded.
+  entries: PdfXrefEntry[];
 }
 
 export type PdfXref = PdfXrefTable | PdfXrefStream;
@@ -78,6 +82,8 @@ export interface PdfParseResult {
   size: number;
   header: PdfHeader;
   startxref: number | null;
+  // End of the last %%EOF marker (and its line break), or null when there is none.
+  eofMarkerEnd: number | null;
   xref: PdfXref | null;
   trailer: PdfTrailer | null;
   info: PdfInfoDictionary | null;
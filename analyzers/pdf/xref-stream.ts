@@ -0,0 +1,150 @@
+"use strict";
+import { describeError } from "../../error-utils.js";
+import { extractDictionary } from "./dictionary.js";
+import type { PdfXrefEntry, PdfXrefStream } from "./types.js";
+
+// Cross-reference data beyond this size is not a plausible xref stream (20 bytes per object
+// would already describe about 800,000 objects).
+const MAX_DECODED_BYTES = 16 * 1024 * 1024;
+const MAX_ENTRIES = 20000;
+
+// ISO 32000-1 7.3.8.1: the data starts after "stream" and its EOL and runs for /Length bytes. An
+// indirect /Length is not resolved; the data then ends at "endstream".
+const readStreamData = (bytes: Uint8Array, text: string, dictEnd: number, dict: string): Uint8Array => {
+  const keyword = /^\s*stream\r?\n/.exec(text.slice(dictEnd, dictEnd + 32));
+  if (!keyword) throw new Error("stream keyword is missing");
+  const start = dictEnd + keyword[0].length;
+  const length = /\/Length\s+(\d+)\b(?!\s+\d+\s+R)/.exec(dict)?.[1];
+  if (length !== undefined) {
+    const end = start + Number.parseInt(length, 10);
+    if (end > bytes.length) throw new Error("stream data runs past the end of the file");
+    return bytes.subarray(start, end);
+  }
+  const endstream = text.indexOf("endstream", start);
+  if (endstream < 0) throw new Error("endstream is missing");
+  return bytes.subarray(start, start + text.slice(start, endstream).replace(/\r?\n$/, "").length);
+};
+
+const inflate = async (compressed: Uint8Array): Promise<Uint8Array> => {
+  if (typeof DecompressionStream !== "function") throw new Error("browser does not provide DecompressionStream");
+  const reader = new Blob([compressed.slice().buffer]).stream().pipeThrough(new DecompressionStream("deflate"))
+    .getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    total += chunk.value.length;
+    if (total > MAX_DECODED_BYTES) {
+      await reader.cancel();
+      throw new Error(`decoded data exceeds ${MAX_DECODED_BYTES} bytes`);
+    }
+    chunks.push(chunk.value);
+  }
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
+
+const paeth = (left: number, up: number, upLeft: number): number => {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+};
+
+// PNG predictors (/Predictor 10-15) prefix every row with its filter type; xref streams use one
+// 8-bit component per byte, so the left neighbour is the previous byte.
+const removePngPrediction = (data: Uint8Array, columns: number): Uint8Array => {
+  const rowCount = Math.floor(data.length / (columns + 1));
+  const output = new Uint8Array(rowCount * columns);
+  for (let row = 0; row < rowCount; row += 1) {
+    const filter = data[row * (columns + 1)];
+    for (let column = 0; column < columns; column += 1) {
+      const at = row * columns + column;
+      const raw = data[row * (columns + 1) + 1 + column] ?? 0;
+      const left = column ? output[at - 1] ?? 0 : 0;
+      const up = row ? output[at - columns] ?? 0 : 0;
+      const upLeft = row && column ? output[at - columns - 1] ?? 0 : 0;
+      const predicted = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter ?? 0];
+      if (predicted === undefined) throw new Error(`unknown PNG predictor filter ${filter}`);
+      output[at] = (raw + predicted) & 0xff;
+    }
+  }
+  return output;
+};
+
+const decodeData = async (data: Uint8Array, dict: string): Promise<Uint8Array> => {
+  const filter = /\/Filter\s*(\[[^\]]*\]|\/\w+)/.exec(dict)?.[1];
+  if (filter !== undefined && !/^(?:\/FlateDecode|\[\s*\/FlateDecode\s*\])$/.test(filter)) {
+    throw new Error(`filter ${filter} is not supported`);
+  }
+  const decoded = filter === undefined ? data : await inflate(data);
+  const predictor = Number.parseInt(/\/Predictor\s+(\d+)/.exec(dict)?.[1] ?? "1", 10);
+  if (predictor === 1) return decoded;
+  if (predictor < 10) throw new Error(`predictor ${predictor} is not supported`);
+  return removePngPrediction(decoded, Number.parseInt(/\/Columns\s+(\d+)/.exec(dict)?.[1] ?? "1", 10));
+};
+
+const readField = (data: Uint8Array, offset: number, width: number): number => {
+  let value = 0;
+  for (let index = 0; index < width; index += 1) value = value * 256 + (data[offset + index] ?? 0);
+  return value;
+};
+
+// ISO 32000-1 7.5.8.3: rows of /W-sized fields for the object numbers in /Index. Free (type 0)
+// and in-use (type 1) objects are returned; objects inside object streams (type 2) have no file
+// offset of their own and are covered by their object stream's entry.
+const readEntries = (data: Uint8Array, dict: string, declaredSize: number | null): PdfXrefEntry[] => {
+  const widths = /\/W\s*\[\s*(\d+)\s+(\d+)\s+(\d+)\s*\]/.exec(dict)?.slice(1).map(Number);
+  if (!widths) throw new Error("/W is missing");
+  const [typeWidth = 0, offsetWidth = 0, generationWidth = 0] = widths;
+  const rowWidth = typeWidth + offsetWidth + generationWidth;
+  if (!rowWidth) throw new Error("/W describes empty rows");
+  const index = /\/Index\s*\[([\d\s]*)\]/.exec(dict)?.[1]?.trim().split(/\s+/).map(Number) ?? [0, declaredSize ?? 0];
+  const entries: PdfXrefEntry[] = [];
+  let row = 0;
+  for (let pair = 0; pair + 1 < index.length; pair += 2) {
+    const [first = 0, count = 0] = [index[pair], index[pair + 1]];
+    for (let objectNumber = first; objectNumber < first + count; objectNumber += 1, row += 1) {
+      const offset = row * rowWidth;
+      if (offset + rowWidth > data.length) throw new Error("data ends before the last /Index entry");
+      if (entries.length >= MAX_ENTRIES) return entries;
+      const type = typeWidth ? readField(data, offset, typeWidth) : 1;
+      if (type !== 0 && type !== 1) continue;
+      entries.push({
+        objectNumber,
+        offset: readField(data, offset + typeWidth, offsetWidth),
+        generation: readField(data, offset + typeWidth + offsetWidth, generationWidth),
+        inUse: type === 1
+      });
+    }
+  }
+  return entries;
+};
+
+// Decodes the entries of a cross-reference stream; problems are reported and leave the entries
+// empty, as for a stream the parser does not understand.
+export const decodeXrefStreamEntries = async (
+  bytes: Uint8Array,
+  text: string,
+  xref: PdfXrefStream,
+  issues: string[]
+): Promise<PdfXrefEntry[]> => {
+  try {
+    const dictStart = text.indexOf("<<", xref.startOffset);
+    const dict = dictStart < 0 ? null : extractDictionary(text, dictStart);
+    if (dict === null) throw new Error("stream dictionary is missing");
+    const data = await decodeData(readStreamData(bytes, text, dictStart + dict.length, dict), dict);
+    const entries = readEntries(data, dict, xref.trailer.size);
+    if (entries.length >= MAX_ENTRIES) issues.push("xref entry limit reached; further entries are omitted.");
+    return entries;
+  } catch (error) {
+    issues.push(`Cross-reference stream entries could not be decoded: ${describeError(error)}.`);
+    return [];
+  }
+};
@@ -89,7 +89,7 @@ const parseXrefTable = (text: string, startOffset: number, issues: string[]): Pd
   return { kind: "table", startOffset, sections, entries, trailerText };
 };
 
-const parseXrefStream = (text: string, startOffset: number, issues: string[]): PdfXref | null => {
+const parseXrefStream = (text: string, startOffset: number): PdfXref | null => {
   const pos = skipWhitespace(text, startOffset);
   const objectMatch = text.slice(pos, pos + 64).match(/(\d+)\s+(\d+)\s+obj/);
   if (!objectMatch) return null;
@@ -98,13 +98,13 @@ const parseXrefStream = (text: string, startOffset: number, issues: string[]): P
   if (!objectNumberText || !generationText) return null;
   const dict = extractDictionary(text, pos);
   if (!dict || dict.indexOf("/XRef") === -1) return null;
-  issues.push("Cross-reference stream detected; detailed entries are not decoded yet.");
   return {
     kind: "stream",
     startOffset,
     objectNumber: Number.parseInt(objectNumberText, 10),
     generation: Number.parseInt(generationText, 10),
-    trailer: parseTrailerDictionary(dict)
+    trailer: parseTrailerDictionary(dict),
+    entries: []
   };
 };
 
@@ -119,7 +119,7 @@ const parseXref = (text: string, startOffset: number | null, issues: string[]):
     const trailer = parseTrailerDictionary(table.trailerText || "");
     return { ...table, trailer };
   }
-  const stream = parseXrefStream(text, startOffset, issues);
+  const stream = parseXrefStream(text, startOffset);
   if (stream) return stream;
   issues.push("Unable to read cross-reference information at startxref offset.");
   return null;
@@ -92,7 +92,7 @@ const computeHeaderHashEnd = (
   return Math.max(afterSecurityEntry, limitedHeaderEnd);
 };
 
-const hasParsedPeHashContext = (
+export const hasParsedPeHashContext = (
   core: PeAuthenticodeBestEffortCore | PeAuthenticodeParsedCore
 ): core is PeAuthenticodeParsedCore =>
   Array.isArray((core as Partial<PeAuthenticodeParsedCore>).sections) &&
@@ -116,9 +116,39 @@ export interface AuthenticodeTrustPolicyInfo {
   warnings?: string[];
 }
 
+export interface AuthenticodePageHashEntry {
+  offset: number;
+  digest: string;
+}
+
+// SpcPeImagePageHashes from SPC_PE_IMAGE_DATA; the last entry only marks where the hashed image ends.
+export interface AuthenticodePageHashes {
+  version: 1 | 2;
+  algorithmName: "SHA-1" | "SHA-256";
+  entries: AuthenticodePageHashEntry[];
+}
+
+export interface AuthenticodePageHashResult {
+  offset: number;
+  // Bytes of file data in the page before zero padding.
+  length: number;
+  section: string;
+  expectedDigest?: string;
+  computedDigest?: string;
+  matches: boolean;
+}
+
+export interface AuthenticodePageHashVerification {
+  algorithmName: AuthenticodePageHashes["algorithmName"];
+  pageSize: number;
+  pages: AuthenticodePageHashResult[];
+  mismatchCount: number;
+}
+
 export interface AuthenticodeVerificationInfo {
   computedFileDigest?: string;
   fileDigestMatches?: boolean;
+  pageHashes?: AuthenticodePageHashVerification;
   signerVerifications?: AuthenticodeSignerVerificationInfo[];
   checks?: AuthenticodeVerificationCheck[];
   trustPolicy?: AuthenticodeTrustPolicyInfo;
@@ -136,6 +166,7 @@ export interface AuthenticodeInfo {
   fileDigestAlgorithm?: string;
   fileDigestAlgorithmName?: string;
   fileDigest?: string;
+  pageHashes?: AuthenticodePageHashes;
   signers?: AuthenticodeSignerInfo[];
   certificates?: X509CertificateInfo[];
   verification?: AuthenticodeVerificationInfo;
@@ -0,0 +1,156 @@
+"use strict";
+
+import { bufferToHex } from "../../../binary-utils.js";
+import type { FileRangeReader } from "../../file-range-reader.js";
+import { peSectionNameValue } from "../sections/name.js";
+import type { PeDataDirectory } from "../types.js";
+import { computeDigest } from "./digest-algorithms.js";
+import type { DigestFunction, PeAuthenticodeParsedCore } from "./digest.js";
+import type {
+  AuthenticodePageHashes,
+  AuthenticodePageHashResult,
+  AuthenticodePageHashVerification,
+  AuthenticodeVerificationCheck
+} from "./index.js";
+
+// Windows hashes the image in 4 KiB pages regardless of SectionAlignment.
+export const AUTHENTICODE_PAGE_SIZE = 0x1000;
+// Section data is read this many pages at a time rather than one read per page.
+const PAGES_PER_READ = 256;
+
+interface ImagePage {
+  offset: number;
+  length: number;
+  section: string;
+}
+
+// Pages in the order Windows emits them: the header page at offset 0, then every section in
+// header order, each split into 4 KiB pages whose last one is zero padded.
+const listImagePages = (core: PeAuthenticodeParsedCore, fileSize: number): ImagePage[] => {
+  const pages: ImagePage[] = [
+    { offset: 0, length: Math.min(fileSize, core.opt.SizeOfHeaders >>> 0), section: "Headers" }
+  ];
+  for (const section of core.sections) {
+    const start = section.pointerToRawData >>> 0;
+    const end = Math.min(fileSize, start + (section.sizeOfRawData >>> 0));
+    for (let offset = start; offset < end; offset += AUTHENTICODE_PAGE_SIZE) {
+      pages.push({
+        offset,
+        length: Math.min(AUTHENTICODE_PAGE_SIZE, end - offset),
+        section: peSectionNameValue(section.name)
+      });
+    }
+  }
+  return pages;
+};
+
+const sectionAt = (pages: readonly ImagePage[], offset: number): string =>
+  pages.find(page => offset >= page.offset && offset < page.offset + AUTHENTICODE_PAGE_SIZE)?.section ?? "-";
+
+// The header page leaves out CheckSum and the certificate table entry, like the image digest does.
+const readHeaderPage = async (
+  reader: FileRangeReader,
+  core: PeAuthenticodeParsedCore,
+  securityDir: PeDataDirectory | undefined,
+  length: number
+): Promise<Uint8Array> => {
+  const headers = await reader.readBytes(0, length);
+  const checksumOff = core.optOff + 64;
+  const securityIndex = securityDir?.index ?? core.dataDirs.find(d => d.name === "SECURITY")?.index ?? 4;
+  const securityEntryOff = core.optOff + core.ddStartRel + securityIndex * 8;
+  const skipped: Array<[number, number]> = [[checksumOff, checksumOff + 4], [securityEntryOff, securityEntryOff + 8]];
+  const kept: Uint8Array[] = [];
+  let cursor = 0;
+  for (const [start, end] of skipped) {
+    kept.push(headers.subarray(cursor, Math.max(cursor, Math.min(start, length))));
+    cursor = Math.max(cursor, Math.min(end, length));
+  }
+  kept.push(headers.subarray(cursor));
+  const keptLength = kept.reduce((total, part) => total + part.length, 0);
+  // Short headers are zero padded so the page, minus the skipped fields, still spans 4 KiB.
+  const page = new Uint8Array(Math.max(keptLength, AUTHENTICODE_PAGE_SIZE - (length - keptLength)));
+  kept.reduce((position, part) => {
+    page.set(part, position);
+    return position + part.length;
+  }, 0);
+  return page;
+};
+
+const hashPage = async (algorithm: AlgorithmIdentifier, page: Uint8Array, digest: DigestFunction): Promise<string> =>
+  bufferToHex(await digest(algorithm, page.slice().buffer));
+
+const computeImagePageDigests = async (
+  reader: FileRangeReader,
+  core: PeAuthenticodeParsedCore,
+  securityDir: PeDataDirectory | undefined,
+  pages: readonly ImagePage[],
+  algorithm: AlgorithmIdentifier,
+  digest: DigestFunction
+): Promise<string[]> => {
+  const digests: string[] = [];
+  let chunk: { offset: number; bytes: Uint8Array } | null = null;
+  for (const [index, page] of pages.entries()) {
+    if (index === 0) {
+      digests.push(await hashPage(algorithm, await readHeaderPage(reader, core, securityDir, page.length), digest));
+      continue;
+    }
+    if (!chunk || page.offset < chunk.offset || page.offset + page.length > chunk.offset + chunk.bytes.length) {
+      const chunkLength = Math.min(reader.size - page.offset, AUTHENTICODE_PAGE_SIZE * PAGES_PER_READ);
+      chunk = { offset: page.offset, bytes: await reader.readBytes(page.offset, chunkLength) };
+    }
+    const padded = new Uint8Array(AUTHENTICODE_PAGE_SIZE);
+    const start = page.offset - chunk.offset;
+    padded.set(chunk.bytes.subarray(start, start + page.length));
+    digests.push(await hashPage(algorithm, padded, digest));
+  }
+  return digests;
+};
+
+export const verifyAuthenticodePageHashes = async (
+  reader: FileRangeReader,
+  core: PeAuthenticodeParsedCore,
+  securityDir: PeDataDirectory | undefined,
+  pageHashes: AuthenticodePageHashes,
+  digestFunction?: DigestFunction
+): Promise<AuthenticodePageHashVerification> => {
+  const pages = listImagePages(core, reader.size);
+  const computed = await computeImagePageDigests(
+    reader, core, securityDir, pages, pageHashes.algorithmName, digestFunction ?? computeDigest
+  );
+  // The final entry carries a zero digest and only records where the hashed image ends.
+  const last = pageHashes.entries[pageHashes.entries.length - 1];
+  const listed = last && /^0*$/.test(last.digest) ? pageHashes.entries.slice(0, -1) : pageHashes.entries;
+  const expectedByOffset = new Map(listed.map(entry => [entry.offset, entry.digest]));
+  const results: AuthenticodePageHashResult[] = pages.map((page, index) => {
+    const expectedDigest = expectedByOffset.get(page.offset);
+    expectedByOffset.delete(page.offset);
+    return {
+      ...page,
+      ...(expectedDigest ? { expectedDigest } : {}),
+      ...(computed[index] ? { computedDigest: computed[index] } : {}),
+      matches: expectedDigest != null && expectedDigest === computed[index]
+    };
+  });
+  expectedByOffset.forEach((expectedDigest, offset) =>
+    results.push({ offset, length: 0, section: sectionAt(pages, offset), expectedDigest, matches: false }));
+  results.sort((left, right) => left.offset - right.offset);
+  return {
+    algorithmName: pageHashes.algorithmName,
+    pageSize: AUTHENTICODE_PAGE_SIZE,
+    pages: results,
+    mismatchCount: results.filter(result => !result.matches).length
+  };
+};
+
+export const createPageHashCheck = (result: AuthenticodePageHashVerification): AuthenticodeVerificationCheck => {
+  const mismatches = result.pages.filter(page => !page.matches);
+  const sections = [...new Set(mismatches.map(page => page.section))];
+  return {
+    id: "page-hashes",
+    status: mismatches.length ? "fail" : "pass",
+    title: "Embedded page hashes match the image pages",
+    detail: mismatches.length
+      ? `${mismatches.length} of ${result.pages.length} pages differ (${sections.join(", ")}).`
+      : `${result.pages.length} ${result.algorithmName} page hashes match.`
+  };
+};
@@ -0,0 +1,96 @@
+"use strict";
+
+import {
+  TAG_OCTET_STRING,
+  TAG_OID,
+  TAG_SEQUENCE,
+  TAG_SET,
+  bytesToHex,
+  decodeOid,
+  readDerChildren,
+  readDerElement,
+  type DerElement
+} from "./der.js";
+import type { AuthenticodePageHashEntry, AuthenticodePageHashes } from "./index.js";
+
+const SPC_PE_IMAGE_DATA_OID = "1.3.6.1.4.1.311.2.1.15";
+// SpcSerializedObject.classId that marks a page hash moniker (a6b586d5-b4a1-2466-ae05-a217da8e60d6).
+const PAGE_HASHES_CLASS_ID = "a6b586d5b4a12466ae05a217da8e60d6";
+
+const PAGE_HASH_FORMATS: Readonly<Record<string, Pick<AuthenticodePageHashes, "version" | "algorithmName">>> = {
+  "1.3.6.1.4.1.311.2.3.1": { version: 1, algorithmName: "SHA-1" },
+  "1.3.6.1.4.1.311.2.3.2": { version: 2, algorithmName: "SHA-256" }
+};
+
+const DIGEST_LENGTHS: Readonly<Record<AuthenticodePageHashes["algorithmName"], number>> = {
+  "SHA-1": 20,
+  "SHA-256": 32
+};
+
+const contentOf = (bytes: Uint8Array, element: DerElement): Uint8Array =>
+  bytes.subarray(element.start + element.header, element.end);
+
+const readOid = (bytes: Uint8Array, element: DerElement | undefined): string | undefined =>
+  element?.tag === TAG_OID ? decodeOid(bytes, element.start + element.header, element.length) ?? undefined : undefined;
+
+// Each entry is a little-endian file offset followed by the page digest.
+const decodePageHashTable = (
+  table: Uint8Array,
+  format: Pick<AuthenticodePageHashes, "version" | "algorithmName">,
+  warnings: string[]
+): AuthenticodePageHashes => {
+  const entrySize = 4 + DIGEST_LENGTHS[format.algorithmName];
+  if (table.length % entrySize !== 0) {
+    warnings.push(`Page hash table length is not a multiple of the ${entrySize}-byte entry size.`);
+  }
+  const view = new DataView(table.buffer, table.byteOffset, table.byteLength);
+  const entries: AuthenticodePageHashEntry[] = [];
+  for (let offset = 0; offset + entrySize <= table.length; offset += entrySize) {
+    entries.push({
+      offset: view.getUint32(offset, true),
+      digest: bytesToHex(table.subarray(offset + 4, offset + entrySize))
+    });
+  }
+  return { ...format, entries };
+};
+
+// serializedData ::= SET OF SpcAttributeTypeAndOptionalValue { type page-hash OID, value SET OF OCTET STRING }
+const readSerializedPageHashes = (
+  serialized: Uint8Array,
+  warnings: string[]
+): AuthenticodePageHashes | undefined => {
+  const set = readDerElement(serialized, 0);
+  if (!set || set.tag !== TAG_SET) return undefined;
+  for (const attribute of readDerChildren(serialized, set)) {
+    if (attribute.tag !== TAG_SEQUENCE) continue;
+    const [typeElement, valuesElement] = readDerChildren(serialized, attribute);
+    const format = PAGE_HASH_FORMATS[readOid(serialized, typeElement) ?? ""];
+    const table = valuesElement?.tag === TAG_SET ? readDerChildren(serialized, valuesElement)[0] : undefined;
+    if (format && table?.tag === TAG_OCTET_STRING) {
+      return decodePageHashTable(contentOf(serialized, table), format, warnings);
+    }
+  }
+  return undefined;
+};
+
+// SpcIndirectDataContent.data for PE images:
+// SpcAttributeTypeAndOptionalValue { SPC_PE_IMAGE_DATA, SpcPeImageData { flags, file [0] SpcLink } },
+// where SpcLink is moniker [1] SpcSerializedObject { classId, serializedData } when page hashes are present.
+export const parseSpcPeImagePageHashes = (
+  bytes: Uint8Array,
+  data: DerElement | undefined,
+  warnings: string[]
+): AuthenticodePageHashes | undefined => {
+  if (!data || data.tag !== TAG_SEQUENCE) return undefined;
+  const [typeElement, imageData] = readDerChildren(bytes, data);
+  if (readOid(bytes, typeElement) !== SPC_PE_IMAGE_DATA_OID || imageData?.tag !== TAG_SEQUENCE) return undefined;
+  const file = readDerChildren(bytes, imageData).find(child => child.cls === "context" && child.tag === 0);
+  const moniker = file ? readDerChildren(bytes, file)[0] : undefined;
+  if (!moniker || moniker.cls !== "context" || moniker.tag !== 1) return undefined;
+  const [classId, serialized] = readDerChildren(bytes, moniker);
+  if (classId?.tag !== TAG_OCTET_STRING || serialized?.tag !== TAG_OCTET_STRING) return undefined;
+  if (bytesToHex(contentOf(bytes, classId)) !== PAGE_HASHES_CLASS_ID) return undefined;
+  const pageHashes = readSerializedPageHashes(contentOf(bytes, serialized), warnings);
+  if (!pageHashes) warnings.push("SpcPeImageData page hash moniker has no recognised page hash table.");
+  return pageHashes;
+};
@@ -18,7 +18,8 @@ import {
   type DerElement
 } from "./der.js";
 import { describeOid, NAME_OID_KEYS, SIGNING_TIME_OID } from "./pkcs7-oids.js";
-import type { AuthenticodeSignerInfo, X509CertificateInfo } from "./index.js";
+import type { AuthenticodePageHashes, AuthenticodeSignerInfo, X509CertificateInfo } from "./index.js";
+import { parseSpcPeImagePageHashes } from "./page-hashes.js";
 
 const bytesToBase64 = (bytes: Uint8Array): string => {
   let binary = "";
@@ -30,10 +31,17 @@ const bytesToBase64 = (bytes: Uint8Array): string => {
   return btoa(binary);
 };
 
+interface SpcIndirectDataContent {
+  algorithmOid?: string;
+  algorithmName?: string;
+  digestHex?: string;
+  pageHashes?: AuthenticodePageHashes;
+}
+
 export const parseSpcIndirectDataContent = (
   payloadBytes: Uint8Array,
   warnings: string[]
-): { algorithmOid?: string; algorithmName?: string; digestHex?: string } => {
+): SpcIndirectDataContent => {
   const top = readDerElement(payloadBytes, 0);
   const inner =
     top && top.tag === TAG_OCTET_STRING
@@ -41,12 +49,13 @@ export const parseSpcIndirectDataContent = (
       : payloadBytes;
   const seq = readDerElement(inner, 0);
   if (!seq || seq.tag !== TAG_SEQUENCE) return {};
-  const digestInfo = readDerChildren(inner, seq)[1];
-  if (!digestInfo || digestInfo.tag !== TAG_SEQUENCE) return {};
+  const [data, digestInfo] = readDerChildren(inner, seq);
+  const pageHashes = parseSpcPeImagePageHashes(inner, data, warnings);
+  if (!digestInfo || digestInfo.tag !== TAG_SEQUENCE) return pageHashes ? { pageHashes } : {};
   const digestChildren = readDerChildren(inner, digestInfo);
   const alg = parseAlgorithmIdentifier(inner, digestChildren[0], warnings, oid => describeOid(oid));
   const digestEl = digestChildren[1];
-  const result: { algorithmOid?: string; algorithmName?: string; digestHex?: string } = {};
+  const result: SpcIndirectDataContent = pageHashes ? { pageHashes } : {};
   if (alg.oid) {
     result.algorithmOid = alg.oid;
     const algorithmName = alg.name || describeOid(alg.oid);
@@ -80,7 +89,7 @@ const parseName = (bytes: Uint8Array, element: DerElement, warnings: string[]):
   return parts.length ? parts.join(", ") : undefined;
 };
 
-const parseX509Certificate = (
+export const parseX509Certificate = (
   bytes: Uint8Array,
   element: DerElement,
   warnings: string[]
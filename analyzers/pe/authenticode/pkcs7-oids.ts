@@ -4,6 +4,17 @@ const OID_NAMES: Record<string, string> = {
   "1.2.840.113549.1.7.1": "PKCS#7 data",
   "1.2.840.113549.1.7.2": "PKCS#7 signedData",
   "1.3.6.1.4.1.311.2.1.4": "SPC_INDIRECT_DATA",
+  "1.3.6.1.4.1.311.2.1.15": "SPC_PE_IMAGE_DATA",
+  "1.3.6.1.4.1.311.2.1.25": "SPC_CAB_DATA",
+  "1.3.6.1.4.1.311.2.3.1": "SPC_PE_IMAGE_PAGE_HASHES_V1",
+  "1.3.6.1.4.1.311.2.3.2": "SPC_PE_IMAGE_PAGE_HASHES_V2",
+  "1.3.6.1.4.1.311.10.1": "certificateTrustList",
+  "1.3.6.1.4.1.311.12.1.1": "catalogList",
+  "1.3.6.1.4.1.311.12.1.2": "catalogListMember",
+  "1.3.6.1.4.1.311.12.1.3": "catalogListMemberV2",
+  "1.3.6.1.4.1.311.12.2.1": "catalogNameValue",
+  "1.3.6.1.4.1.311.12.2.2": "catalogMemberInfo",
+  "1.3.6.1.4.1.311.12.2.3": "catalogMemberInfo2",
   "1.2.840.113549.2.5": "md5",
   "1.3.14.3.2.26": "sha1",
   "2.16.840.1.101.3.4.2.1": "sha256",
@@ -51,4 +62,5 @@ export const NAME_OID_KEYS: Record<string, string> = {
 
 export const SPC_INDIRECT_DATA_OID = "1.3.6.1.4.1.311.2.1.4";
 export const SIGNING_TIME_OID = "1.2.840.113549.1.9.5";
+export const CERTIFICATE_TRUST_LIST_OID = "1.3.6.1.4.1.311.10.1";
 
@@ -6,6 +6,7 @@ import {
   TAG_OID,
   TAG_INTEGER,
   readDerElement,
+  readDerChildren,
   decodeOid,
   type DerElement
 } from "./der.js";
@@ -113,6 +114,7 @@ const parseSignedData = (bytes: Uint8Array, warnings: string[]): Partial<Authent
     if (spc.algorithmOid) result.fileDigestAlgorithm = spc.algorithmOid;
     if (spc.algorithmName) result.fileDigestAlgorithmName = spc.algorithmName;
     if (spc.digestHex) result.fileDigest = spc.digestHex;
+    if (spc.pageHashes) result.pageHashes = spc.pageHashes;
   }
   let certificateCount: number | undefined;
   const maybeCerts = readDerElement(bytes, pos);
@@ -172,3 +174,20 @@ export const decodePkcs7 = (payload: Uint8Array): AuthenticodeInfo => {
   const signed = parseSignedData(inner, warnings);
   return warnings.length ? { ...info, ...signed, warnings } : { ...info, ...signed };
 };
+
+// Signed content of a SignedData ContentInfo as the DER element found in encapContentInfo [0].
+// Security catalogs sign a certificate trust list here instead of SPC_INDIRECT_DATA.
+export const readPkcs7SignedContent = (
+  payload: Uint8Array
+): { contentType?: string; content?: Uint8Array } => {
+  const warnings: string[] = [];
+  const top = readDerElement(payload, 0);
+  if (!top || top.tag !== TAG_SEQUENCE) return {};
+  const { payload: inner } = parseContentInfo(payload, top, warnings);
+  const signedData = inner ? readDerElement(inner, 0) : null;
+  if (!inner || !signedData || signedData.tag !== TAG_SEQUENCE) return {};
+  const encapContentInfo = readDerChildren(inner, signedData)[2];
+  if (!encapContentInfo || encapContentInfo.tag !== TAG_SEQUENCE) return {};
+  const { contentType, payload: content } = parseContentInfo(inner, encapContentInfo, warnings);
+  return { ...(contentType ? { contentType } : {}), ...(content ? { content } : {}) };
+};
@@ -3,7 +3,8 @@
 import { bufferToHex } from "../../../binary-utils.js";
 import type {
   AuthenticodeCertificateTrustInfo,
-  AuthenticodeTrustPolicyInfo
+  AuthenticodeTrustPolicyInfo,
+  X509CertificateInfo
 } from "./index.js";
 import { Certificate, fromBER } from "./pkijs-runtime.js";
 import {
@@ -60,11 +61,9 @@ const base64ToArrayBuffer = (value: string): ArrayBuffer => {
   return bytes.buffer;
 };
 
-const parseTrustAnchor = (
-  certificate: AuthenticodeTrustStoreCertificate
-): Certificate | undefined => {
-  if (!certificate.derBase64) return undefined;
-  const asn1 = fromBER(base64ToArrayBuffer(certificate.derBase64));
+const parseCertificateDer = (derBase64: string | undefined): Certificate | undefined => {
+  if (!derBase64) return undefined;
+  const asn1 = fromBER(base64ToArrayBuffer(derBase64));
   if (asn1.offset === -1 || !asn1.result) return undefined;
   return new Certificate({ schema: asn1.result });
 };
@@ -89,7 +88,7 @@ const indexTrustAnchors = (
   for (const [thumbprint, source] of anchors) {
     if (!source.derBase64) continue;
     try {
-      const certificate = parseTrustAnchor(source);
+      const certificate = parseCertificateDer(source.derBase64);
       if (!certificate) continue;
       normalizeLegacyCertificateSignatureAlgorithm(certificate);
       addParsedTrustAnchor(index, { certificate, source, thumbprint });
@@ -211,7 +210,7 @@ const resolveUnknownCertificateTrust = async (
 };
 
 export const evaluateAuthenticodeTrustPolicy = async (
-  certificates: Certificate[],
+  certificates: ReadonlyArray<Certificate | undefined>,
   trustStore: AuthenticodeTrustStoreSnapshot | undefined
 ): Promise<AuthenticodeTrustPolicyInfo | undefined> => {
   if (!trustStore?.generatedAt) return undefined;
@@ -270,3 +269,20 @@ export const evaluateAuthenticodeTrustPolicy = async (
     ...(mergedWarnings ? { warnings: mergedWarnings } : {})
   };
 };
+
+// Evaluates the embedded certificates of an already verified signature against another store, such
+// as a user trust profile. Certificate indexes stay aligned with AuthenticodeInfo.certificates.
+export const evaluateAuthenticodeTrustProfile = (
+  certificates: readonly X509CertificateInfo[],
+  trustStore: AuthenticodeTrustStoreSnapshot
+): Promise<AuthenticodeTrustPolicyInfo | undefined> =>
+  evaluateAuthenticodeTrustPolicy(
+    certificates.map(certificate => {
+      try {
+        return parseCertificateDer(certificate.derBase64);
+      } catch {
+        return undefined;
+      }
+    }),
+    trustStore
+  );
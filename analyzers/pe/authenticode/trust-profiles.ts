@@ -0,0 +1,165 @@
+"use strict";
+
+import { bufferToHex } from "../../../binary-utils.js";
+import { TAG_OID, TAG_SEQUENCE, readDerChildren, readDerElement } from "./der.js";
+import type {
+  AuthenticodeSignerVerificationInfo,
+  AuthenticodeTrustPolicyInfo,
+  AuthenticodeVerificationInfo,
+  X509CertificateInfo
+} from "./index.js";
+import { decodePkcs7 } from "./pkcs7.js";
+import { parseX509Certificate } from "./pkcs7-details.js";
+import type { AuthenticodeTrustStoreCertificate, AuthenticodeTrustStoreSnapshot } from "./trust-store.js";
+
+// A named set of user supplied root and intermediate certificates, kept in the browser.
+export interface AuthenticodeTrustProfile {
+  id: string;
+  name: string;
+  importedAt: string;
+  certificates: AuthenticodeTrustStoreCertificate[];
+  // Opened files are evaluated against every selected profile.
+  selected: boolean;
+}
+
+export interface TrustProfileCertificates {
+  certificates: AuthenticodeTrustStoreCertificate[];
+  warnings: string[];
+}
+
+export type AuthenticodeTrustVerdictStatus = "trusted" | "revoked" | "untrusted" | "invalid";
+
+export interface AuthenticodeTrustVerdict {
+  status: AuthenticodeTrustVerdictStatus;
+  reason: string;
+}
+
+const PEM_BLOCK_PATTERN = /-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/g;
+const PEM_CERTIFICATE_LABELS = new Set(["CERTIFICATE", "X509 CERTIFICATE", "TRUSTED CERTIFICATE", "PKCS7"]);
+
+const base64ToBytes = (value: string): Uint8Array => {
+  const binary = atob(value.replace(/\s+/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) bytes[index] = binary.charCodeAt(index);
+  return bytes;
+};
+
+// PEM files may bundle several certificates; anything else is read as one DER object.
+const splitPemBlocks = (bytes: Uint8Array, warnings: string[]): Uint8Array[] => {
+  const text = new TextDecoder("latin1").decode(bytes);
+  if (!text.includes("-----BEGIN ")) return [bytes];
+  const blocks: Uint8Array[] = [];
+  for (const [, label = "", body = ""] of text.matchAll(PEM_BLOCK_PATTERN)) {
+    if (!PEM_CERTIFICATE_LABELS.has(label)) {
+      warnings.push(`Skipped PEM block "${label}".`);
+      continue;
+    }
+    try {
+      blocks.push(base64ToBytes(body));
+    } catch {
+      warnings.push(`PEM block "${label}" is not valid base64.`);
+    }
+  }
+  return blocks;
+};
+
+// A certificate starts with its tbsCertificate SEQUENCE; PKCS#7 ContentInfo starts with an OID.
+const readDerCertificates = (der: Uint8Array, warnings: string[]): X509CertificateInfo[] => {
+  const top = readDerElement(der, 0);
+  if (!top || top.tag !== TAG_SEQUENCE) {
+    warnings.push("Input is not a DER encoded certificate or PKCS#7 bundle.");
+    return [];
+  }
+  const first = readDerChildren(der, top)[0];
+  if (first?.tag === TAG_OID) {
+    const pkcs7 = decodePkcs7(der);
+    if (pkcs7.warnings?.length) warnings.push(...pkcs7.warnings);
+    return pkcs7.certificates ?? [];
+  }
+  const certificate = parseX509Certificate(der, top, warnings);
+  if (!certificate) warnings.push("DER object is not an X.509 certificate.");
+  return certificate ? [certificate] : [];
+};
+
+const toTrustStoreCertificate = async (
+  certificate: X509CertificateInfo
+): Promise<AuthenticodeTrustStoreCertificate | null> => {
+  if (!certificate.derBase64) return null;
+  const der = base64ToBytes(certificate.derBase64);
+  const thumbprint = bufferToHex(await crypto.subtle.digest("SHA-1", der.slice().buffer)).toUpperCase();
+  const selfIssued = certificate.subject != null && certificate.subject === certificate.issuer;
+  return {
+    thumbprint,
+    ...(certificate.subject ? { subject: certificate.subject } : {}),
+    ...(certificate.issuer ? { issuer: certificate.issuer } : {}),
+    ...(certificate.serialNumber ? { serialNumber: certificate.serialNumber } : {}),
+    ...(certificate.notBefore ? { notBefore: certificate.notBefore } : {}),
+    ...(certificate.notAfter ? { notAfter: certificate.notAfter } : {}),
+    derBase64: certificate.derBase64,
+    stores: [selfIssued ? "Root" : "CA"]
+  };
+};
+
+// Reads PEM (one or more blocks), DER certificates and PKCS#7 .p7b bundles; duplicates are dropped.
+export const parseTrustProfileCertificates = async (
+  files: readonly Uint8Array[]
+): Promise<TrustProfileCertificates> => {
+  const warnings: string[] = [];
+  const byThumbprint = new Map<string, AuthenticodeTrustStoreCertificate>();
+  for (const bytes of files) {
+    for (const der of splitPemBlocks(bytes, warnings)) {
+      for (const info of readDerCertificates(der, warnings)) {
+        const certificate = await toTrustStoreCertificate(info);
+        if (certificate && !byThumbprint.has(certificate.thumbprint)) {
+          byThumbprint.set(certificate.thumbprint, certificate);
+        }
+      }
+    }
+  }
+  return { certificates: [...byThumbprint.values()], warnings };
+};
+
+// Profiles have no disallowed list; every imported certificate is a trust anchor.
+export const trustProfileSnapshot = (profile: AuthenticodeTrustProfile): AuthenticodeTrustStoreSnapshot => ({
+  schemaVersion: 1,
+  generatedAt: profile.importedAt,
+  source: profile.name,
+  trustedCAs: profile.certificates,
+  revokedCAs: []
+});
+
+const signerPathIndexes = (signer: AuthenticodeSignerVerificationInfo): number[] => [
+  ...(signer.signerCertificateIndex != null ? [signer.signerCertificateIndex] : []),
+  ...(signer.certificatePathIndexes ?? [])
+];
+
+// Verdict of one trust store for a signature the parser already verified: the signature and image
+// digest must hold, and every signer chain must reach an anchor of the store without a disallowed CA.
+export const describeAuthenticodeTrustVerdict = (
+  verification: AuthenticodeVerificationInfo | undefined,
+  trustPolicy: AuthenticodeTrustPolicyInfo | undefined
+): AuthenticodeTrustVerdict => {
+  const signers = verification?.signerVerifications ?? [];
+  if (!signers.length) return { status: "invalid", reason: "The signature has no verifiable signer." };
+  const unverified = signers.find(signer => signer.signatureVerified !== true);
+  if (unverified) return { status: "invalid", reason: `Signer ${unverified.index + 1}: CMS signature does not verify.` };
+  if (verification?.fileDigestMatches === false) {
+    return { status: "invalid", reason: "The image digest does not match the signed digest." };
+  }
+  const certificates = trustPolicy?.certificates ?? [];
+  const anchors: string[] = [];
+  for (const signer of signers) {
+    const path = new Set(signerPathIndexes(signer));
+    const inPath = certificates.filter(certificate => path.has(certificate.certificateIndex));
+    const revoked = inPath.find(certificate => certificate.status === "revoked");
+    if (revoked) {
+      return { status: "revoked", reason: `Certificate ${revoked.certificateIndex + 1} is on the disallowed list.` };
+    }
+    const anchor = inPath.find(certificate => certificate.status === "trusted");
+    if (!anchor) {
+      return { status: "untrusted", reason: `Signer ${signer.index + 1}: the chain does not reach a trusted anchor.` };
+    }
+    anchors.push(anchor.anchorSubject ?? `certificate ${anchor.certificateIndex + 1}`);
+  }
+  return { status: "trusted", reason: `Chains to ${[...new Set(anchors)].join(", ")}.` };
+};
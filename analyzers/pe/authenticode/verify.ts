@@ -15,8 +15,10 @@ import {
   type DigestLookup,
   type PeAuthenticodeBestEffortCore,
   type PeAuthenticodeParsedCore,
+  hasParsedPeHashContext,
   verifyAuthenticodeFileDigest
 } from "./digest.js";
+import { createPageHashCheck, verifyAuthenticodePageHashes } from "./page-hash-verify.js";
 import { verifyPkcs7Signatures } from "./pkijs.js";
 import { mergeWarnings } from "./pkijs-support.js";
 import type { PeDataDirectory } from "../types.js";
@@ -44,7 +46,7 @@ const TRUST_GAPS: AuthenticodeTrustGap[] = [
     id: "platform-policy",
     title: "Platform trust policy",
     detail:
-      "This analyzer does not execute WinVerifyTrust / Authenticode policy, catalog lookup, Microsoft root-program rules, or local machine policy."
+      "This analyzer does not execute WinVerifyTrust / Authenticode policy, Microsoft root-program rules, or local machine policy. Catalog lookup only covers security catalogs loaded into this session."
   },
   {
     id: "timestamp-trust",
@@ -150,6 +152,15 @@ export const verifyAuthenticode = async (
   if (digestVerification.fileDigestMatches != null) {
     verification.fileDigestMatches = digestVerification.fileDigestMatches;
   }
+  if (auth.pageHashes && hasParsedPeHashContext(core)) {
+    try {
+      verification.pageHashes =
+        await verifyAuthenticodePageHashes(reader, core, securityDir, auth.pageHashes, digestFunction);
+      checks.unshift(createPageHashCheck(verification.pageHashes));
+    } catch (error) {
+      warnings.push(`Page hash verification failed: ${String(error)}`);
+    }
+  }
   checks.unshift(createDigestCheck(auth, digestVerification));
   if (digestVerification.warnings?.length) warnings.push(...digestVerification.warnings);
 
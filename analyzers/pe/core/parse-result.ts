@@ -1,9 +1,11 @@
 "use strict";
 
 import type { CoffDebugInfo } from "../../coff/debug-types.js";
+import type { ReportedDiagnostic } from "../../diagnostics/index.js";
 import type { DwarfAnalysis } from "../../dwarf/types.js";
 import type { GoRuntimeMetadata } from "../../go-runtime/types.js";
-import type { PeCodeViewEntry, PeDebugDirectoryEntry } from "../debug/directory.js";
+import type { PePdbSymbols } from "../../pdb/types.js";
+import type { PeCodeViewPdbReference, PeDebugDirectoryEntry } from "../debug/directory.js";
 import type { PeEntrypointDisassemblyReport, PeInstructionSetReport } from "../disassembly/index.js";
 import type { PeImportLinkingResult } from "../imports/linking.js";
 import type { PeImportParseResult } from "../imports/index.js";
@@ -38,7 +40,7 @@ import type { parseDelayImports32 } from "../imports/delay.js";
 import { ROM_OPTIONAL_HEADER_MAGIC } from "../optional-header/magic.js";
 
 export interface PeDebugSection {
-  entry: PeCodeViewEntry | null;
+  entry: PeCodeViewPdbReference | null;
   entries?: PeDebugDirectoryEntry[];
   notes?: string[];
   warning?: string;
@@ -56,6 +58,8 @@ interface PeParseResultBase {
   subtype?: PeSubtype;
   opt: PeRomOptionalHeader | PeWindowsOptionalHeader | null;
   warnings?: string[];
+  // Layout warnings with the header field or file bytes each one concerns.
+  diagnostics?: ReportedDiagnostic[];
   dirs: PeDataDirectory[];
   sections: PeSection[];
   entrySection: PeCore["entrySection"];
@@ -92,6 +96,8 @@ export interface PeWindowsParseResult extends PeParseResultBase {
   nativeAotCandidate?: PeNativeAotCandidate | null;
   linuxBoot?: PeLinuxBootProtocol | null;
   goRuntime?: GoRuntimeMetadata;
+  // Set in the UI when a PDB matching the RSDS record was opened in the same session.
+  pdbSymbols?: PePdbSymbols;
 }
 
 export interface PeHeaderParseResult extends PeParseResultBase {
@@ -0,0 +1,270 @@
+"use strict";
+
+import type { FileRangeReader } from "../../file-range-reader.js";
+import {
+  readCodeViewSymbols,
+  readLengthPrefixedName,
+  type CodeViewSymbolSink,
+  type PeCodeViewSymbol
+} from "./codeview-symbols.js";
+
+// Embedded CodeView 4/5 debug information (NB09, NB11), as VC4-VC6 link /debugtype:cv writes it.
+// Layout per "Microsoft Symbol and Type Information" section 7: the signature is followed by
+// lfoDirectory, the offset from the signature to the subsection directory.
+const DIRECTORY_HEADER_MIN_SIZE = 16;
+const DIRECTORY_ENTRY_MIN_SIZE = 12;
+// Larger payloads are listed by subsection only; decoding them would hold the whole block in memory.
+const EMBEDDED_DECODE_MAX_SIZE = 64 * 1024 * 1024;
+export const CODEVIEW_SYMBOL_LIMIT = 4096;
+export const CODEVIEW_LINE_LIMIT = 8192;
+
+const SST_MODULE = 0x120;
+const SST_ALIGN_SYM = 0x125;
+const SST_SRC_MODULE = 0x127;
+const SST_GLOBAL_SYM = 0x129;
+const SST_GLOBAL_PUB = 0x12a;
+const SST_STATIC_SYM = 0x134;
+
+const SUBSECTION_NAMES: Readonly<Record<number, string>> = {
+  0x120: "sstModule",
+  0x121: "sstTypes",
+  0x122: "sstPublic",
+  0x123: "sstPublicSym",
+  0x124: "sstSymbols",
+  0x125: "sstAlignSym",
+  0x126: "sstSrcLnSeg",
+  0x127: "sstSrcModule",
+  0x128: "sstLibraries",
+  0x129: "sstGlobalSym",
+  0x12a: "sstGlobalPub",
+  0x12b: "sstGlobalTypes",
+  0x12c: "sstMPC",
+  0x12d: "sstSegMap",
+  0x12e: "sstSegName",
+  0x12f: "sstPreComp",
+  0x130: "sstPreCompMap",
+  0x131: "sstOffsetMap16",
+  0x132: "sstOffsetMap32",
+  0x133: "sstFileIndex",
+  0x134: "sstStaticSym"
+};
+
+export interface PeCodeViewSubsection {
+  type: number;
+  typeName: string;
+  module: number;
+  offset: number;
+  size: number;
+}
+
+export interface PeCodeViewSegmentRange {
+  segment: number;
+  offset: number;
+  size: number;
+}
+
+export interface PeCodeViewModule {
+  index: number;
+  name: string;
+  library: number;
+  segments: PeCodeViewSegmentRange[];
+}
+
+export interface PeCodeViewLine {
+  segment: number;
+  offset: number;
+  line: number;
+}
+
+export interface PeCodeViewSourceFile {
+  module: number;
+  name: string;
+  lines: PeCodeViewLine[];
+}
+
+export interface PeCodeViewEmbeddedEntry {
+  signature: "NB09" | "NB11";
+  directoryOffset: number;
+  subsections: PeCodeViewSubsection[];
+  modules: PeCodeViewModule[];
+  symbols: PeCodeViewSymbol[];
+  sourceFiles: PeCodeViewSourceFile[];
+  // Totals; the symbol and line listings stop at CODEVIEW_SYMBOL_LIMIT and CODEVIEW_LINE_LIMIT.
+  symbolCount: number;
+  lineCount: number;
+}
+
+interface LineSink {
+  count: number;
+  kept: number;
+}
+
+const readDirectory = (
+  view: DataView,
+  directoryOffset: number,
+  addWarning: (message: string) => void
+): PeCodeViewSubsection[] => {
+  if (directoryOffset < 8 || directoryOffset + DIRECTORY_HEADER_MIN_SIZE > view.byteLength) {
+    addWarning("CodeView subsection directory offset is outside the debug payload.");
+    return [];
+  }
+  const headerSize = view.getUint16(directoryOffset, true);
+  const entrySize = view.getUint16(directoryOffset + 2, true);
+  const count = view.getUint32(directoryOffset + 4, true);
+  if (headerSize < DIRECTORY_HEADER_MIN_SIZE || entrySize < DIRECTORY_ENTRY_MIN_SIZE) {
+    addWarning("CodeView subsection directory header is malformed.");
+    return [];
+  }
+  const subsections: PeCodeViewSubsection[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const pos = directoryOffset + headerSize + index * entrySize;
+    if (pos + DIRECTORY_ENTRY_MIN_SIZE > view.byteLength) {
+      addWarning("CodeView subsection directory is truncated.");
+      break;
+    }
+    const type = view.getUint16(pos, true);
+    subsections.push({
+      type,
+      typeName: SUBSECTION_NAMES[type] ?? `0x${type.toString(16)}`,
+      module: view.getUint16(pos + 2, true),
+      offset: view.getUint32(pos + 4, true),
+      size: view.getUint32(pos + 8, true)
+    });
+  }
+  return subsections;
+};
+
+// sstModule: ovlNumber, iLib, cSeg, style "CV", cSeg x {seg, pad, offset, cbSeg}, name.
+const readModule = (bytes: Uint8Array, view: DataView, start: number, end: number, index: number): PeCodeViewModule => {
+  const library = view.getUint16(start + 2, true);
+  const segmentCount = view.getUint16(start + 4, true);
+  const segments: PeCodeViewSegmentRange[] = [];
+  let pos = start + 8;
+  for (let segment = 0; segment < segmentCount && pos + 12 <= end; segment += 1, pos += 12) {
+    segments.push({
+      segment: view.getUint16(pos, true),
+      offset: view.getUint32(pos + 4, true),
+      size: view.getUint32(pos + 8, true)
+    });
+  }
+  return { index, name: readLengthPrefixedName(bytes, pos, end) ?? "", library, segments };
+};
+
+// Line block: seg, cPair, cPair offsets (4 bytes each), then cPair line numbers (2 bytes each).
+const readLineBlock = (view: DataView, pos: number, end: number, lines: PeCodeViewLine[], sink: LineSink): void => {
+  if (pos + 4 > end) return;
+  const segment = view.getUint16(pos, true);
+  const pairCount = view.getUint16(pos + 2, true);
+  const offsets = pos + 4;
+  const numbers = offsets + pairCount * 4;
+  const available = Math.max(0, Math.min(pairCount, Math.floor((end - numbers) / 2)));
+  for (let pair = 0; pair < available; pair += 1) {
+    sink.count += 1;
+    if (sink.kept >= CODEVIEW_LINE_LIMIT) continue;
+    sink.kept += 1;
+    lines.push({
+      segment,
+      offset: view.getUint32(offsets + pair * 4, true),
+      line: view.getUint16(numbers + pair * 2, true)
+    });
+  }
+};
+
+// sstSrcModule: cFile, cSeg, baseSrcFile[cFile], ...; each file is cSeg, pad, baseSrcLn[cSeg],
+// start/end[cSeg], name. All base offsets are relative to the subsection start.
+const readSourceModule = (
+  bytes: Uint8Array,
+  view: DataView,
+  start: number,
+  end: number,
+  module: number,
+  sink: LineSink
+): PeCodeViewSourceFile[] => {
+  if (start + 4 > end) return [];
+  const fileCount = view.getUint16(start, true);
+  const files: PeCodeViewSourceFile[] = [];
+  for (let file = 0; file < fileCount && start + 4 + file * 4 + 4 <= end; file += 1) {
+    const fileStart = start + view.getUint32(start + 4 + file * 4, true);
+    if (fileStart + 4 > end) continue;
+    const segmentCount = view.getUint16(fileStart, true);
+    const nameOffset = fileStart + 4 + segmentCount * 12;
+    const lines: PeCodeViewLine[] = [];
+    for (let segment = 0; segment < segmentCount && fileStart + 8 + segment * 4 <= end; segment += 1) {
+      readLineBlock(view, start + view.getUint32(fileStart + 4 + segment * 4, true), end, lines, sink);
+    }
+    files.push({ module, name: readLengthPrefixedName(bytes, nameOffset, end) ?? "", lines });
+  }
+  return files;
+};
+
+// sstGlobalPub, sstGlobalSym and sstStaticSym: symhash, addrhash, cbSymbol, cbSymHash, cbAddrHash, symbols.
+const readHashedSymbols = (
+  view: DataView,
+  start: number,
+  end: number,
+  sink: CodeViewSymbolSink,
+  addWarning: (message: string) => void
+): void => {
+  if (start + 16 > end) return;
+  const symbolBytes = view.getUint32(start + 4, true);
+  readCodeViewSymbols(view, start + 16, Math.min(end, start + 16 + symbolBytes), null, sink, addWarning);
+};
+
+const decodeSubsections = (
+  bytes: Uint8Array,
+  entry: PeCodeViewEmbeddedEntry,
+  addWarning: (message: string) => void
+): void => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const symbols: CodeViewSymbolSink = { symbols: entry.symbols, count: 0, limit: CODEVIEW_SYMBOL_LIMIT };
+  const lines: LineSink = { count: 0, kept: 0 };
+  for (const subsection of entry.subsections) {
+    const start = subsection.offset;
+    const end = start + subsection.size;
+    if (end > bytes.length || start >= end) {
+      addWarning(`CodeView ${subsection.typeName} subsection lies outside the debug payload.`);
+      continue;
+    }
+    if (subsection.type === SST_MODULE && start + 8 <= end) {
+      entry.modules.push(readModule(bytes, view, start, end, subsection.module));
+    } else if (subsection.type === SST_SRC_MODULE) {
+      entry.sourceFiles.push(...readSourceModule(bytes, view, start, end, subsection.module, lines));
+    } else if (subsection.type === SST_ALIGN_SYM) {
+      // The per-module symbol block starts with a 4-byte CV_SIGNATURE.
+      readCodeViewSymbols(view, start + 4, end, subsection.module, symbols, addWarning);
+    } else if ([SST_GLOBAL_PUB, SST_GLOBAL_SYM, SST_STATIC_SYM].includes(subsection.type)) {
+      readHashedSymbols(view, start, end, symbols, addWarning);
+    }
+  }
+  entry.symbolCount = symbols.count;
+  entry.lineCount = lines.count;
+};
+
+export const parseEmbeddedCodeView = async (
+  reader: FileRangeReader,
+  signature: PeCodeViewEmbeddedEntry["signature"],
+  dataOffset: number,
+  dataSize: number,
+  addWarning: (message: string) => void
+): Promise<PeCodeViewEmbeddedEntry> => {
+  const header = await reader.read(dataOffset, 8);
+  const entry: PeCodeViewEmbeddedEntry = {
+    signature,
+    directoryOffset: header.getUint32(4, true),
+    subsections: [],
+    modules: [],
+    symbols: [],
+    sourceFiles: [],
+    symbolCount: 0,
+    lineCount: 0
+  };
+  if (dataSize > EMBEDDED_DECODE_MAX_SIZE) {
+    addWarning(`CodeView ${signature} payload is larger than 64 MiB; subsections were not decoded.`);
+    return entry;
+  }
+  const bytes = await reader.readBytes(dataOffset, dataSize);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  entry.subsections = readDirectory(view, entry.directoryOffset, addWarning);
+  decodeSubsections(bytes, entry, addWarning);
+  return entry;
+};
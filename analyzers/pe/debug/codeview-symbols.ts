@@ -0,0 +1,100 @@
+"use strict";
+
+// CodeView 4 (NB09) and CodeView 5 (NB11) symbol records, from "Microsoft Symbol and Type
+// Information" (Tool Interface Standards 1.0), section 2 and cvinfo.h. NB09 tools write the
+// 16-bit type index layouts (S_*_16t); VC5/VC6 NB11 images use the 32-bit *_ST layouts.
+// Every record is reclen (2, excluding itself) + rectyp (2) + data; names are length-prefixed.
+
+export type PeCodeViewSymbolKind = "public" | "data" | "procedure";
+
+export interface PeCodeViewSymbol {
+  kind: PeCodeViewSymbolKind;
+  name: string;
+  segment: number;
+  offset: number;
+  // Module the record came from (sstAlignSym); null for the global tables.
+  module: number | null;
+}
+
+interface SymbolLayout {
+  kind: PeCodeViewSymbolKind;
+  offset: number;
+  segment: number;
+  name: number;
+}
+
+// Field offsets relative to the record data (after reclen and rectyp).
+const DATA_16T: Omit<SymbolLayout, "kind"> = { offset: 0, segment: 4, name: 8 };
+// pParent, pEnd, pNext, len, DbgStart, DbgEnd, then off, seg, typind (2) and flags (1).
+const PROC_16T: Omit<SymbolLayout, "kind"> = { offset: 24, segment: 28, name: 33 };
+// typind (4) comes first in the *_ST data and public records.
+const DATA_ST: Omit<SymbolLayout, "kind"> = { offset: 4, segment: 8, name: 10 };
+// Six dwords, typind (4), off, seg and flags (1).
+const PROC_ST: Omit<SymbolLayout, "kind"> = { offset: 28, segment: 32, name: 35 };
+
+const SYMBOL_LAYOUTS: ReadonlyMap<number, SymbolLayout> = new Map([
+  [0x0201, { kind: "data", ...DATA_16T }], // S_LDATA32_16t
+  [0x0202, { kind: "data", ...DATA_16T }], // S_GDATA32_16t
+  [0x0203, { kind: "public", ...DATA_16T }], // S_PUB32_16t
+  [0x0204, { kind: "procedure", ...PROC_16T }], // S_LPROC32_16t
+  [0x0205, { kind: "procedure", ...PROC_16T }], // S_GPROC32_16t
+  [0x1007, { kind: "data", ...DATA_ST }], // S_LDATA32_ST
+  [0x1008, { kind: "data", ...DATA_ST }], // S_GDATA32_ST
+  [0x1009, { kind: "public", ...DATA_ST }], // S_PUB32_ST
+  [0x100a, { kind: "procedure", ...PROC_ST }], // S_LPROC32_ST
+  [0x100b, { kind: "procedure", ...PROC_ST }] // S_GPROC32_ST
+]);
+
+export const readLengthPrefixedName = (bytes: Uint8Array, offset: number, end: number): string | null => {
+  if (offset >= end) return null;
+  const length = bytes[offset] ?? 0;
+  if (offset + 1 + length > end) return null;
+  return String.fromCharCode(...bytes.subarray(offset + 1, offset + 1 + length));
+};
+
+export interface CodeViewSymbolSink {
+  symbols: PeCodeViewSymbol[];
+  // Every decoded symbol, including those past the listing limit.
+  count: number;
+  limit: number;
+}
+
+// Walks the records in [start, end) and collects publics, data and procedures; other record
+// types (S_UDT, S_PROCREF, S_ALIGN, ...) are skipped.
+export const readCodeViewSymbols = (
+  view: DataView,
+  start: number,
+  end: number,
+  module: number | null,
+  sink: CodeViewSymbolSink,
+  addWarning: (message: string) => void
+): void => {
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  let pos = start;
+  while (pos + 4 <= end) {
+    const recordLength = view.getUint16(pos, true);
+    const recordEnd = pos + 2 + recordLength;
+    if (recordLength < 2 || recordEnd > end) {
+      addWarning("CodeView symbol record runs past the end of its subsection.");
+      return;
+    }
+    const layout = SYMBOL_LAYOUTS.get(view.getUint16(pos + 2, true));
+    const data = pos + 4;
+    if (layout && data + layout.name < recordEnd) {
+      const name = readLengthPrefixedName(bytes, data + layout.name, recordEnd);
+      if (name != null) {
+        sink.count += 1;
+        if (sink.symbols.length < sink.limit) {
+          sink.symbols.push({
+            kind: layout.kind,
+            name,
+            segment: view.getUint16(data + layout.segment, true),
+            offset: view.getUint32(data + layout.offset, true),
+            module
+          });
+        }
+      }
+    }
+    pos = recordEnd;
+  }
+};
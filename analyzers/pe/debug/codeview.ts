@@ -4,17 +4,21 @@ import { toHex32 } from "../../../binary-utils.js";
 import type { FileRangeReader } from "../../file-range-reader.js";
 import { readMappedNullTerminatedAsciiString } from "../strings/mapped-ascii-string.js";
 import type { RvaToOffset } from "../types.js";
+import { parseEmbeddedCodeView, type PeCodeViewEmbeddedEntry } from "./codeview-embedded.js";
 
 // Microsoft PE/COFF debug data:
 // https://learn.microsoft.com/en-us/windows/win32/debug/pe-format#debug-type
 // RSDS CodeView records are:
 // signature (4) + GUID (16) + age (4) + NUL-terminated path.
 // Legacy NB10 records are documented by dotnet/runtime PE-COFF.md,
-// section "CodeView Debug Directory Entry (type 2)".
+// section "CodeView Debug Directory Entry (type 2)": signature (4) + offset (4) + PDB 2.0
+// signature (4) + age (4) + NUL-terminated path. NB09/NB11 carry the CodeView data itself.
 const CODEVIEW_RSDS_MIN_SIZE = 24;
 const CODEVIEW_NB10_MIN_SIZE = 16;
 const CODEVIEW_SIGNATURE_RSDS = 0x53445352;
 const CODEVIEW_SIGNATURE_NB10 = 0x3031424e;
+const CODEVIEW_SIGNATURE_NB09 = 0x3930424e;
+const CODEVIEW_SIGNATURE_NB11 = 0x3131424e;
 const CODEVIEW_RSDS_OFF_GUID_DATA1 = 4;
 const CODEVIEW_RSDS_OFF_GUID_DATA2 = 8;
 const CODEVIEW_RSDS_OFF_GUID_DATA3 = 10;
@@ -43,13 +47,21 @@ export interface PeCodeViewNb10Entry {
   path: string;
 }
 
-export type PeCodeViewEntry = PeCodeViewRsdsEntry | PeCodeViewNb10Entry;
+// RSDS and NB10 only point at a separate PDB; NB09/NB11 carry the debug information themselves.
+export type PeCodeViewPdbReference = PeCodeViewRsdsEntry | PeCodeViewNb10Entry;
+
+export type PeCodeViewEntry = PeCodeViewPdbReference | PeCodeViewEmbeddedEntry;
+
+export const isEmbeddedCodeViewEntry = (entry: PeCodeViewEntry): entry is PeCodeViewEmbeddedEntry =>
+  entry.signature === "NB09" || entry.signature === "NB11";
 
 const readCodeViewPathFromMappedData = async (
   reader: FileRangeReader,
   fileSize: number,
   rvaToOff: RvaToOffset,
   addressOfRawDataRva: number,
+  signature: "RSDS" | "NB10",
+  headerSize: number,
   pathByteLength: number,
   addWarning: (message: string) => void
 ): Promise<string> => {
@@ -57,16 +69,16 @@ const readCodeViewPathFromMappedData = async (
     reader,
     fileSize,
     rvaToOff,
-    (addressOfRawDataRva + CODEVIEW_RSDS_MIN_SIZE) >>> 0,
+    (addressOfRawDataRva + headerSize) >>> 0,
     pathByteLength,
     CODEVIEW_PATH_READ_CHUNK_SIZE
   );
   if (!pathInfo) {
-    addWarning("CodeView RSDS path does not map to file data.");
+    addWarning(`CodeView ${signature} path does not map to file data.`);
     return "";
   }
   if (!pathInfo.terminated) {
-    addWarning("CodeView RSDS path is not NUL-terminated within SizeOfData.");
+    addWarning(`CodeView ${signature} path is not NUL-terminated within SizeOfData.`);
   }
   return pathInfo.text;
 };
@@ -135,23 +147,35 @@ export const parseCodeViewEntry = async (
     return null;
   }
   const signature = header.getUint32(0, true);
+  // Mapped (AddressOfRawData-only) records are read through the section table, as the loader would.
+  const readPath = (label: "RSDS" | "NB10", headerSize: number): Promise<string> =>
+    pointerToRawDataOff === 0 && addressOfRawDataRva !== 0
+      ? readCodeViewPathFromMappedData(
+          reader,
+          fileSize,
+          rvaToOff,
+          addressOfRawDataRva,
+          label,
+          headerSize,
+          dataSize - headerSize,
+          addWarning
+        )
+      : readCodeViewPathFromFilePointer(reader, dataOffset, dataSize, headerSize, addWarning);
   if (signature === CODEVIEW_SIGNATURE_NB10) {
     return {
       signature: "NB10",
       offset: header.getUint32(CODEVIEW_NB10_OFF_OFFSET, true),
       timestamp: header.getUint32(CODEVIEW_NB10_OFF_TIMESTAMP, true),
       age: header.getUint32(CODEVIEW_NB10_OFF_AGE, true),
-      path: await readCodeViewPathFromFilePointer(
-        reader,
-        dataOffset,
-        dataSize,
-        CODEVIEW_NB10_MIN_SIZE,
-        addWarning
-      )
+      path: await readPath("NB10", CODEVIEW_NB10_MIN_SIZE)
     };
   }
+  if (signature === CODEVIEW_SIGNATURE_NB09 || signature === CODEVIEW_SIGNATURE_NB11) {
+    const label = signature === CODEVIEW_SIGNATURE_NB09 ? "NB09" : "NB11";
+    return parseEmbeddedCodeView(reader, label, dataOffset, dataSize, addWarning);
+  }
   if (signature !== CODEVIEW_SIGNATURE_RSDS) {
-    addWarning("CodeView debug entry signature is not RSDS or NB10.");
+    addWarning("CodeView debug entry signature is not RSDS, NB10, NB09 or NB11.");
     return null;
   }
   if (header.byteLength < CODEVIEW_RSDS_MIN_SIZE) {
@@ -170,23 +194,6 @@ export const parseCodeViewEntry = async (
     `${[...sigTail.slice(0, 2)].map(b => b.toString(16).padStart(2, "0")).join("")}-` +
     `${[...sigTail.slice(2)].map(b => b.toString(16).padStart(2, "0")).join("")}`.toLowerCase();
   const age = header.getUint32(CODEVIEW_RSDS_OFF_AGE, true);
-  const pathByteLength = dataSize - CODEVIEW_RSDS_MIN_SIZE;
-  const path =
-    pointerToRawDataOff === 0 && addressOfRawDataRva !== 0
-      ? await readCodeViewPathFromMappedData(
-          reader,
-          fileSize,
-          rvaToOff,
-          addressOfRawDataRva,
-          pathByteLength,
-          addWarning
-        )
-      : await readCodeViewPathFromFilePointer(
-          reader,
-          dataOffset,
-          dataSize,
-          CODEVIEW_RSDS_MIN_SIZE,
-          addWarning
-        );
+  const path = await readPath("RSDS", CODEVIEW_RSDS_MIN_SIZE);
   return { signature: "RSDS", guid, age, path };
 };
@@ -1,12 +1,12 @@
 "use strict";
 
 import type { FileRangeReader } from "../../file-range-reader.js";
-import type { PeCodeViewEntry } from "./codeview.js";
+import { isEmbeddedCodeViewEntry, type PeCodeViewPdbReference } from "./codeview.js";
 import { decodeDebugEntryPayload, type PeDebugPayloads } from "./entry-decoders.js";
 import { DEBUG_TYPE_NAMES } from "./types.js";
 import type { PeDataDirectory, RvaToOffset } from "../types.js";
 
-export type { PeCodeViewEntry } from "./codeview.js";
+export type { PeCodeViewEntry, PeCodeViewPdbReference } from "./codeview.js";
 export type { PeEmbeddedPortablePdbInfo } from "./embedded-portable-pdb.js";
 export type { PeExDllCharacteristicsInfo } from "./ex-dll-characteristics.js";
 export type { PeFpoInfo, PeFpoRecord } from "./fpo.js";
@@ -148,7 +148,7 @@ export async function parseDebugDirectory(
   rvaToOff: RvaToOffset,
   machine: number
 ): Promise<{
-  entry: PeCodeViewEntry | null;
+  entry: PeCodeViewPdbReference | null;
   entries: PeDebugDirectoryEntry[];
   warning: string | null;
   rawDataRanges: FileRange[];
@@ -202,7 +202,7 @@ export async function parseDebugDirectory(
   const maxEntries = Math.floor(availableDirSize / IMAGE_DEBUG_DIRECTORY_ENTRY_SIZE);
   const rawDataRanges: FileRange[] = [];
   const entries: PeDebugDirectoryEntry[] = [];
-  let entry: PeCodeViewEntry | null = null;
+  let entry: PeCodeViewPdbReference | null = null;
   addWarning(
     availableDirSize < debugDir.size
       ? "Debug directory is shorter than recorded size (possible truncation)."
@@ -215,7 +215,8 @@ export async function parseDebugDirectory(
     const view = await readDebugDirectoryEntry(reader, rvaToOff, debugDir.rva, index, addWarning);
     if (!view) break;
     const currentEntry = await decodeDebugDirectoryEntry(reader, rvaToOff, view, machine, addWarning, rawDataRanges);
-    if (currentEntry.codeView && !entry) entry = currentEntry.codeView;
+    const { codeView } = currentEntry;
+    if (codeView && !entry && !isEmbeddedCodeViewEntry(codeView)) entry = codeView;
     entries.push(currentEntry);
   }
   return {
@@ -1,5 +1,6 @@
 "use strict";
 
+import { resolveAssetUrl } from "../../asset-url.js";
 import type { PeWindowsParseResult } from "../core/parse-result.js";
 import type { PeDelayImportEntry } from "./delay.js";
 import type { PeDelayImportFunction } from "./delay-thunk-table.js";
@@ -52,7 +53,7 @@ const parseJsonResponse = async (response: Response): Promise<unknown> =>
 const fetchJson: FetchJson = async (path: string): Promise<unknown | null> => {
   if (typeof fetch !== "function") return null;
   try {
-    const response = await fetch(path);
+    const response = await fetch(resolveAssetUrl(path));
     return response.ok ? await parseJsonResponse(response) : null;
   } catch {
     return null;
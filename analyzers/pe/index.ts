@@ -6,7 +6,7 @@ import {
   type ManifestXmlDocumentParser
 } from "./resources/preview/manifest-xml.js";
 import { buildHeaderOnlyPeParseResult } from "./core/header-only-result.js";
-import { collectPeLayoutWarnings } from "./layout/warnings.js";
+import { collectPeLayoutDiagnostics } from "./layout/warnings.js";
 import { parseWindowsPe } from "./parse-windows.js";
 import { analyzePeDwarf } from "./dwarf.js";
 export {
@@ -31,8 +31,10 @@ const appendUniqueMessages = (existing: string[] | undefined, messages: string[]
   messages.length ? [...new Set([...(existing ?? []), ...messages])] : existing;
 
 const withLayoutWarnings = <T extends PeParseResult>(result: T, fileSize: number): T => {
-  const mergedWarnings = appendUniqueMessages(result.warnings, collectPeLayoutWarnings(result, fileSize));
-  return mergedWarnings?.length ? { ...result, warnings: mergedWarnings } : result;
+  const layoutDiagnostics = collectPeLayoutDiagnostics(result, fileSize);
+  if (!layoutDiagnostics.length) return result;
+  const warnings = appendUniqueMessages(result.warnings, layoutDiagnostics.map(diagnostic => diagnostic.message));
+  return { ...result, warnings, diagnostics: [...(result.diagnostics ?? []), ...layoutDiagnostics] };
 };
 
 export async function parsePe(
@@ -0,0 +1,78 @@
+"use strict";
+
+import type { ReportedDiagnostic } from "../../diagnostics/index.js";
+import { isPeWindowsParseResult, type PeParseResult } from "../core/parse-result.js";
+import { PE32_PLUS_OPTIONAL_HEADER_MAGIC } from "../optional-header/magic.js";
+import {
+  COFF_FILE_HEADER_BYTE_LENGTH,
+  COFF_FILE_HEADER_FIELDS,
+  COFF_SECTION_HEADER_BYTE_LENGTH,
+  COFF_SECTION_HEADER_FIELDS
+} from "../../coff/layout.js";
+
+// IMAGE_DOS_HEADER field offsets.
+// https://learn.microsoft.com/en-us/windows/win32/debug/pe-format#ms-dos-stub-image-only
+export const DOS_HEADER_FIELD_OFFSETS = {
+  e_cblp: 0x02,
+  e_cp: 0x04,
+  e_crlc: 0x06,
+  e_cparhdr: 0x08,
+  e_minalloc: 0x0a,
+  e_maxalloc: 0x0c,
+  e_ip: 0x14,
+  e_cs: 0x16,
+  e_lfarlc: 0x18,
+  e_lfanew: 0x3c
+} as const;
+
+// Optional header field offsets as [PE32, PE32+]; the data directories follow the fixed fields.
+// https://learn.microsoft.com/en-us/windows/win32/debug/pe-format#optional-header-windows-specific-fields-image-only
+const OPTIONAL_HEADER_FIELD_OFFSETS = {
+  ImageBase: [28, 24],
+  SectionAlignment: [32, 32],
+  FileAlignment: [36, 36],
+  Win32VersionValue: [52, 52],
+  SizeOfImage: [56, 56],
+  SizeOfHeaders: [60, 60],
+  DllCharacteristics: [70, 70],
+  SizeOfStackCommit: [76, 80],
+  SizeOfHeapCommit: [84, 96],
+  LoaderFlags: [88, 104],
+  DataDirectories: [96, 112]
+} as const;
+const DATA_DIRECTORY_BYTE_LENGTH = 8;
+
+const getCoffHeaderOffset = (pe: PeParseResult): number => pe.dos.e_lfanew + 4;
+
+export const getCoffFieldOffset = (pe: PeParseResult, field: keyof typeof COFF_FILE_HEADER_FIELDS): number =>
+  getCoffHeaderOffset(pe) + COFF_FILE_HEADER_FIELDS[field].offset;
+
+export const getOptionalHeaderFieldOffset = (
+  pe: PeParseResult,
+  field: keyof typeof OPTIONAL_HEADER_FIELD_OFFSETS
+): number => {
+  const isPe32Plus = isPeWindowsParseResult(pe) && pe.opt.Magic === PE32_PLUS_OPTIONAL_HEADER_MAGIC;
+  return getCoffHeaderOffset(pe) + COFF_FILE_HEADER_BYTE_LENGTH +
+    OPTIONAL_HEADER_FIELD_OFFSETS[field][isPe32Plus ? 1 : 0];
+};
+
+export const getDataDirectoryOffset = (pe: PeParseResult, index: number): number =>
+  getOptionalHeaderFieldOffset(pe, "DataDirectories") + index * DATA_DIRECTORY_BYTE_LENGTH;
+
+export const getSectionFieldOffset = (
+  pe: PeParseResult,
+  index: number,
+  field: keyof typeof COFF_SECTION_HEADER_FIELDS
+): number =>
+  getCoffHeaderOffset(pe) + COFF_FILE_HEADER_BYTE_LENGTH + pe.coff.SizeOfOptionalHeader +
+  index * COFF_SECTION_HEADER_BYTE_LENGTH + COFF_SECTION_HEADER_FIELDS[field].offset;
+
+// Layout findings are warnings about the header field or file bytes at offset.
+export const pushLayoutWarning = (
+  warnings: ReportedDiagnostic[],
+  code: string,
+  offset: number,
+  message: string
+): void => {
+  warnings.push({ code, severity: "warning", message, offset });
+};
@@ -1,6 +1,8 @@
 "use strict";
 
+import type { ReportedDiagnostic } from "../../diagnostics/index.js";
 import type { PeDosHeader } from "../types.js";
+import { DOS_HEADER_FIELD_OFFSETS, pushLayoutWarning } from "./diagnostics.js";
 
 // MS-DOS EXE header: the fixed header is 28 bytes and relocation entries are 4 bytes.
 // The PE IMAGE_DOS_HEADER layout extends this to 64 bytes so e_lfanew can live at 0x3c.
@@ -30,18 +32,20 @@ const computeMzDeclaredSize = (e_cp: number, e_cblp: number): number | null => {
   return (pages - 1) * DOS_PAGE_BYTES + lastPageBytes;
 };
 
-const addHeaderSpanWarnings = (dos: PeDosHeader, warnings: string[]): number | null => {
+const addHeaderSpanWarnings = (dos: PeDosHeader, warnings: ReportedDiagnostic[]): number | null => {
   const paragraphs = validU16(dos.e_cparhdr);
   if (paragraphs == null) return null;
   const headerBytes = paragraphs * DOS_HEADER_PARAGRAPH_BYTES;
   if (paragraphs < MIN_PE_DOS_HEADER_PARAGRAPHS) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.dos-header-paragraphs-too-small", DOS_HEADER_FIELD_OFFSETS.e_cparhdr,
       `DOS header size e_cparhdr ${paragraphs} paragraph(s) is smaller than the fixed ` +
         `${MIN_PE_DOS_HEADER_PARAGRAPHS}-paragraph IMAGE_DOS_HEADER; DOS stub entrypoint fields may be unreliable.`
     );
   }
   if (headerBytes > dos.e_lfanew) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.dos-header-overlaps-pe-header", DOS_HEADER_FIELD_OFFSETS.e_cparhdr,
       `DOS header size ${formatHex(headerBytes)} extends past PE header offset e_lfanew ` +
         `${formatHex(dos.e_lfanew)}.`
     );
@@ -49,12 +53,17 @@ const addHeaderSpanWarnings = (dos: PeDosHeader, warnings: string[]): number | n
   return headerBytes;
 };
 
-const addRelocationWarnings = (dos: PeDosHeader, headerBytes: number | null, warnings: string[]): void => {
+const addRelocationWarnings = (
+  dos: PeDosHeader,
+  headerBytes: number | null,
+  warnings: ReportedDiagnostic[]
+): void => {
   const relocationCount = validU16(dos.e_crlc);
   const relocationTableOffset = validU16(dos.e_lfarlc);
   if (relocationCount == null || relocationTableOffset == null || relocationCount === 0) return;
   if (relocationTableOffset < DOS_FIXED_EXE_HEADER_BYTES) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.dos-relocation-table-inside-header", DOS_HEADER_FIELD_OFFSETS.e_lfarlc,
       `DOS relocation table offset e_lfarlc ${formatHex(relocationTableOffset)} points inside the fixed MZ header.`
     );
   }
@@ -62,20 +71,26 @@ const addRelocationWarnings = (dos: PeDosHeader, headerBytes: number | null, war
   const relocationTableEnd = safeAdd(relocationTableOffset, relocationTableBytes);
   if (relocationTableEnd == null) return;
   if (headerBytes != null && relocationTableEnd > headerBytes) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.dos-relocation-table-past-header", DOS_HEADER_FIELD_OFFSETS.e_lfarlc,
       `DOS relocation table ends at ${formatHex(relocationTableEnd)}, beyond declared DOS header size ` +
         `${formatHex(headerBytes)}.`
     );
   }
   if (relocationTableEnd > dos.e_lfanew) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.dos-relocation-table-past-pe-header", DOS_HEADER_FIELD_OFFSETS.e_lfarlc,
       `DOS relocation table ends at ${formatHex(relocationTableEnd)}, beyond PE header offset e_lfanew ` +
         `${formatHex(dos.e_lfanew)}.`
     );
   }
 };
 
-const addEntrypointWarnings = (dos: PeDosHeader, headerBytes: number | null, warnings: string[]): void => {
+const addEntrypointWarnings = (
+  dos: PeDosHeader,
+  headerBytes: number | null,
+  warnings: ReportedDiagnostic[]
+): void => {
   const codeSegment = validU16(dos.e_cs);
   const instructionPointer = validU16(dos.e_ip);
   if (headerBytes == null || headerBytes < DOS_FIXED_HEADER_BYTES) return;
@@ -83,39 +98,57 @@ const addEntrypointWarnings = (dos: PeDosHeader, headerBytes: number | null, war
   const loadModuleOffset = codeSegment * DOS_HEADER_PARAGRAPH_BYTES + instructionPointer;
   const entryFileOffset = safeAdd(headerBytes, loadModuleOffset);
   if (entryFileOffset != null && entryFileOffset >= dos.e_lfanew) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.dos-entrypoint-outside-stub", DOS_HEADER_FIELD_OFFSETS.e_ip,
       `DOS entrypoint CS:IP resolves to ${formatHex(entryFileOffset)}, outside the DOS stub bytes before ` +
         `e_lfanew ${formatHex(dos.e_lfanew)}.`
     );
   }
 };
 
-const addDeclaredSizeWarnings = (dos: PeDosHeader, headerBytes: number | null, warnings: string[]): void => {
+const addDeclaredSizeWarnings = (
+  dos: PeDosHeader,
+  headerBytes: number | null,
+  warnings: ReportedDiagnostic[]
+): void => {
   if (dos.e_cblp > DOS_PAGE_BYTES) {
-    warnings.push(`DOS e_cblp ${dos.e_cblp} exceeds the ${DOS_PAGE_BYTES}-byte page size.`);
+    pushLayoutWarning(
+      warnings, "pe.dos-last-page-size-too-large", DOS_HEADER_FIELD_OFFSETS.e_cblp,
+      `DOS e_cblp ${dos.e_cblp} exceeds the ${DOS_PAGE_BYTES}-byte page size.`
+    );
   }
   if (dos.e_cp === 0) {
-    warnings.push("DOS e_cp is zero, so the MZ-declared file size is not meaningful.");
+    pushLayoutWarning(
+      warnings, "pe.dos-page-count-zero", DOS_HEADER_FIELD_OFFSETS.e_cp,
+      "DOS e_cp is zero, so the MZ-declared file size is not meaningful."
+    );
     return;
   }
   const declaredSize = computeMzDeclaredSize(dos.e_cp, dos.e_cblp);
   if (declaredSize == null) return;
   if (headerBytes != null && declaredSize < headerBytes) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.dos-declared-size-too-small", DOS_HEADER_FIELD_OFFSETS.e_cp,
       `MZ-declared file size ${formatHex(declaredSize)} is smaller than declared DOS header size ` +
         `${formatHex(headerBytes)}.`
     );
   }
 };
 
-export const collectPeDosHeaderWarnings = (dos: PeDosHeader): string[] => {
-  const warnings: string[] = [];
+export const collectPeDosHeaderDiagnostics = (dos: PeDosHeader): ReportedDiagnostic[] => {
+  const warnings: ReportedDiagnostic[] = [];
   const headerBytes = addHeaderSpanWarnings(dos, warnings);
   addRelocationWarnings(dos, headerBytes, warnings);
   addEntrypointWarnings(dos, headerBytes, warnings);
   addDeclaredSizeWarnings(dos, headerBytes, warnings);
   if (dos.e_maxalloc !== 0 && dos.e_minalloc > dos.e_maxalloc) {
-    warnings.push(`DOS e_minalloc ${dos.e_minalloc} is greater than e_maxalloc ${dos.e_maxalloc}.`);
+    pushLayoutWarning(
+      warnings, "pe.dos-min-alloc-exceeds-max-alloc", DOS_HEADER_FIELD_OFFSETS.e_minalloc,
+      `DOS e_minalloc ${dos.e_minalloc} is greater than e_maxalloc ${dos.e_maxalloc}.`
+    );
   }
   return warnings;
 };
+
+export const collectPeDosHeaderWarnings = (dos: PeDosHeader): string[] =>
+  collectPeDosHeaderDiagnostics(dos).map(warning => warning.message);
@@ -1,9 +1,16 @@
 "use strict";
 
+import type { ReportedDiagnostic } from "../../diagnostics/index.js";
 import type { PeParseResult } from "../core/parse-result.js";
 import { isPeWindowsParseResult } from "../core/parse-result.js";
 import { PE32_OPTIONAL_HEADER_MAGIC, PE32_PLUS_OPTIONAL_HEADER_MAGIC } from "../optional-header/magic.js";
 import { COFF_FILE_CHARACTERISTICS } from "../../coff/layout.js";
+import {
+  getCoffFieldOffset,
+  getDataDirectoryOffset,
+  getOptionalHeaderFieldOffset,
+  pushLayoutWarning
+} from "./diagnostics.js";
 
 // Microsoft PE/COFF, "COFF File Header": the Windows loader limits images to 96 sections.
 // https://learn.microsoft.com/en-us/windows/win32/debug/pe-format#coff-file-header-object-and-image
@@ -56,14 +63,16 @@ const isIlOnlyClrImage = (pe: PeParseResult): boolean =>
   pe.clr != null &&
   ((pe.clr.Flags >>> 0) & COMIMAGE_FLAGS_ILONLY) !== 0;
 
-const addCoffWarnings = (pe: PeParseResult, warnings: string[]): void => {
+const addCoffWarnings = (pe: PeParseResult, warnings: ReportedDiagnostic[]): void => {
   if ((pe.coff.NumberOfSections >>> 0) > WINDOWS_LOADER_SECTION_LIMIT) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.section-count-exceeds-loader-limit", getCoffFieldOffset(pe, "NumberOfSections"),
       "NumberOfSections is greater than 96; the Windows loader limits image section count to 96."
     );
   }
   if (((pe.coff.Characteristics >>> 0) & COFF_FILE_CHARACTERISTICS.EXECUTABLE_IMAGE) === 0) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.executable-image-flag-missing", getCoffFieldOffset(pe, "Characteristics"),
       "COFF Characteristics does not set IMAGE_FILE_EXECUTABLE_IMAGE; the PE spec says this indicates a linker error."
     );
   }
@@ -72,30 +81,42 @@ const addCoffWarnings = (pe: PeParseResult, warnings: string[]): void => {
     pe.coff.Characteristics
   );
   if (nonStandardCoffCharacteristics.length) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.coff-characteristics-deprecated", getCoffFieldOffset(pe, "Characteristics"),
       `COFF Characteristics contains deprecated or reserved bits: ${nonStandardCoffCharacteristics}.`
     );
   }
 };
 
-const addReservedDataDirectoryWarnings = (pe: PeParseResult, warnings: string[]): void => {
-  for (const directory of pe.dirs) {
+const addReservedDataDirectoryWarnings = (pe: PeParseResult, warnings: ReportedDiagnostic[]): void => {
+  for (const [position, directory] of pe.dirs.entries()) {
+    const directoryOffset = getDataDirectoryOffset(pe, directory.index ?? position);
     if (directory.name === "ARCHITECTURE" && isNonZeroDataDirectory(directory.rva, directory.size)) {
-      warnings.push("ARCHITECTURE data directory is reserved and must be zero.");
+      pushLayoutWarning(
+        warnings, "pe.reserved-data-directory-set", directoryOffset,
+        "ARCHITECTURE data directory is reserved and must be zero."
+      );
     }
     if (directory.name === "GLOBALPTR" && (directory.size >>> 0) !== 0) {
-      warnings.push("GLOBALPTR data directory Size must be zero.");
+      pushLayoutWarning(
+        warnings, "pe.globalptr-size-set", directoryOffset + 4,
+        "GLOBALPTR data directory Size must be zero."
+      );
     }
     if (directory.name === "RESERVED" && isNonZeroDataDirectory(directory.rva, directory.size)) {
-      warnings.push("Reserved data directory is reserved and must be zero.");
+      pushLayoutWarning(
+        warnings, "pe.reserved-data-directory-set", directoryOffset,
+        "Reserved data directory is reserved and must be zero."
+      );
     }
   }
 };
 
-const addAlignmentWarnings = (pe: PeParseResult, warnings: string[]): void => {
+const addAlignmentWarnings = (pe: PeParseResult, warnings: ReportedDiagnostic[]): void => {
   if (!isPeWindowsParseResult(pe)) return;
   if ((pe.opt.SectionAlignment >>> 0) < (pe.opt.FileAlignment >>> 0)) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.section-alignment-below-file-alignment", getOptionalHeaderFieldOffset(pe, "SectionAlignment"),
       "SectionAlignment is smaller than FileAlignment; PE images require SectionAlignment >= FileAlignment."
     );
   }
@@ -104,47 +125,67 @@ const addAlignmentWarnings = (pe: PeParseResult, warnings: string[]): void => {
     (pe.opt.FileAlignment >>> 0) < MINIMUM_FILE_ALIGNMENT ||
     (pe.opt.FileAlignment >>> 0) > MAXIMUM_FILE_ALIGNMENT
   ) {
-    warnings.push("FileAlignment is not a power of two between 512 and 64K inclusive.");
+    pushLayoutWarning(
+      warnings, "pe.file-alignment-invalid", getOptionalHeaderFieldOffset(pe, "FileAlignment"),
+      "FileAlignment is not a power of two between 512 and 64K inclusive."
+    );
   }
   if (typeof pe.opt.ImageBase === "bigint" && pe.opt.ImageBase % IMAGE_BASE_ALIGNMENT !== 0n) {
-    warnings.push("ImageBase is not a multiple of 64K.");
+    pushLayoutWarning(
+      warnings, "pe.image-base-misaligned", getOptionalHeaderFieldOffset(pe, "ImageBase"),
+      "ImageBase is not a multiple of 64K."
+    );
   }
 };
 
-const addOptionalFieldWarnings = (pe: PeParseResult, warnings: string[]): void => {
+const addOptionalFieldWarnings = (pe: PeParseResult, warnings: ReportedDiagnostic[]): void => {
   if (!isPeWindowsParseResult(pe)) return;
   if (pe.opt.Magic === PE32_PLUS_OPTIONAL_HEADER_MAGIC && (pe.opt.SizeOfImage >>> 0) > MAXIMUM_PE32_PLUS_IMAGE_SIZE) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.image-size-too-large", getOptionalHeaderFieldOffset(pe, "SizeOfImage"),
       "PE32+ SizeOfImage exceeds 2 GiB; PE32+ images are documented as limited to a 2 GiB image size."
     );
   }
   if ((pe.opt.Win32VersionValue >>> 0) !== 0) {
-    warnings.push("Win32VersionValue is reserved and must be zero.");
+    pushLayoutWarning(
+      warnings, "pe.win32-version-value-set", getOptionalHeaderFieldOffset(pe, "Win32VersionValue"),
+      "Win32VersionValue is reserved and must be zero."
+    );
   }
   if ((pe.opt.LoaderFlags >>> 0) !== 0) {
-    warnings.push("LoaderFlags is reserved and must be zero.");
+    pushLayoutWarning(
+      warnings, "pe.loader-flags-set", getOptionalHeaderFieldOffset(pe, "LoaderFlags"),
+      "LoaderFlags is reserved and must be zero."
+    );
   }
   if (
     typeof pe.opt.SizeOfStackCommit === "bigint" &&
     typeof pe.opt.SizeOfStackReserve === "bigint" &&
     pe.opt.SizeOfStackCommit > pe.opt.SizeOfStackReserve
   ) {
-    warnings.push("Stack/heap commit size exceeds reserve size.");
+    pushLayoutWarning(
+      warnings, "pe.commit-exceeds-reserve", getOptionalHeaderFieldOffset(pe, "SizeOfStackCommit"),
+      "Stack/heap commit size exceeds reserve size."
+    );
   }
   if (
     typeof pe.opt.SizeOfHeapCommit === "bigint" &&
     typeof pe.opt.SizeOfHeapReserve === "bigint" &&
     pe.opt.SizeOfHeapCommit > pe.opt.SizeOfHeapReserve &&
-    !warnings.includes("Stack/heap commit size exceeds reserve size.")
+    !warnings.some(warning => warning.message === "Stack/heap commit size exceeds reserve size.")
   ) {
-    warnings.push("Stack/heap commit size exceeds reserve size.");
+    pushLayoutWarning(
+      warnings, "pe.commit-exceeds-reserve", getOptionalHeaderFieldOffset(pe, "SizeOfHeapCommit"),
+      "Stack/heap commit size exceeds reserve size."
+    );
   }
 };
 
-const addDllCharacteristicWarnings = (pe: PeParseResult, warnings: string[]): void => {
+const addDllCharacteristicWarnings = (pe: PeParseResult, warnings: ReportedDiagnostic[]): void => {
   if (!isPeWindowsParseResult(pe)) return;
   if (((pe.opt.DllCharacteristics >>> 0) & RESERVED_DLL_CHARACTERISTICS_MASK) !== 0) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.dll-characteristics-reserved", getOptionalHeaderFieldOffset(pe, "DllCharacteristics"),
       `DllCharacteristics has reserved bits set: ${formatHex16(pe.opt.DllCharacteristics)}. ` +
         "Reserved bits 0x0001, 0x0002, 0x0004, and 0x0008 must be zero."
     );
@@ -158,30 +199,37 @@ const addDllCharacteristicWarnings = (pe: PeParseResult, warnings: string[]): vo
     // https://learn.microsoft.com/en-us/dotnet/csharp/language-reference/compiler-options/security#highentropyva
     !isIlOnlyClrImage(pe)
   ) {
-    warnings.push(
+    pushLayoutWarning(
+      warnings, "pe.high-entropy-va-on-pe32", getOptionalHeaderFieldOffset(pe, "DllCharacteristics"),
       "HIGH_ENTROPY_VA is set on PE32, but the flag describes support for high-entropy 64-bit virtual address space."
     );
   }
 };
 
-const addDirectoryConflictWarnings = (pe: PeParseResult, warnings: string[]): void => {
+const addDirectoryConflictWarnings = (pe: PeParseResult, warnings: ReportedDiagnostic[]): void => {
   if (!isPeWindowsParseResult(pe)) return;
   if (
     ((pe.coff.Characteristics >>> 0) & COFF_FILE_CHARACTERISTICS.RELOCS_STRIPPED) !== 0 &&
     (hasDataDirectory(pe, "BASERELOC") || (pe.reloc?.totalEntries ?? 0) > 0)
   ) {
-    warnings.push("RELOCS_STRIPPED is set, but the image declares base relocations.");
+    pushLayoutWarning(
+      warnings, "pe.relocs-stripped-with-relocations", getCoffFieldOffset(pe, "Characteristics"),
+      "RELOCS_STRIPPED is set, but the image declares base relocations."
+    );
   }
   if (
     ((pe.opt.DllCharacteristics >>> 0) & IMAGE_DLLCHARACTERISTICS_NO_BIND) !== 0 &&
     (hasDataDirectory(pe, "BOUND_IMPORT") || (pe.boundImports?.entries.length ?? 0) > 0)
   ) {
-    warnings.push("NO_BIND is set, but the image contains bound import metadata.");
+    pushLayoutWarning(
+      warnings, "pe.no-bind-with-bound-imports", getOptionalHeaderFieldOffset(pe, "DllCharacteristics"),
+      "NO_BIND is set, but the image contains bound import metadata."
+    );
   }
 };
 
-export const collectPeHeaderFieldWarnings = (pe: PeParseResult): string[] => {
-  const warnings: string[] = [];
+export const collectPeHeaderFieldDiagnostics = (pe: PeParseResult): ReportedDiagnostic[] => {
+  const warnings: ReportedDiagnostic[] = [];
   addCoffWarnings(pe, warnings);
   addAlignmentWarnings(pe, warnings);
   addOptionalFieldWarnings(pe, warnings);
@@ -190,3 +238,6 @@ export const collectPeHeaderFieldWarnings = (pe: PeParseResult): string[] => {
   addDirectoryConflictWarnings(pe, warnings);
   return warnings;
 };
+
+export const collectPeHeaderFieldWarnings = (pe: PeParseResult): string[] =>
+  collectPeHeaderFieldDiagnostics(pe).map(warning => warning.message);
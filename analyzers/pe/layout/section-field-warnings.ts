@@ -1,9 +1,11 @@
 "use strict";
 
+import type { ReportedDiagnostic } from "../../diagnostics/index.js";
 import type { PeParseResult } from "../core/parse-result.js";
 import { peSectionNameValue } from "../sections/name.js";
 import type { PeSection } from "../types.js";
 import { formatSectionCharacteristicFlags } from "../constants.js";
+import { getSectionFieldOffset, pushLayoutWarning } from "./diagnostics.js";
 
 // Microsoft PE/COFF, "Section Flags": TYPE_NO_PAD, LNK_* contribution flags,
 // and IMAGE_SCN_ALIGN_* flags are object-file-only or obsolete object syntax.
@@ -34,9 +36,15 @@ const hasObjectRelocationOrLineNumberFields = (section: PeSection): boolean =>
   ((section.numberOfRelocations ?? 0) >>> 0) !== 0 ||
   ((section.numberOfLinenumbers ?? 0) >>> 0) !== 0;
 
-const addObjectFieldWarning = (section: PeSection, index: number, warnings: string[]): void => {
+const addObjectFieldWarning = (
+  pe: PeParseResult,
+  section: PeSection,
+  index: number,
+  warnings: ReportedDiagnostic[]
+): void => {
   if (!hasObjectRelocationOrLineNumberFields(section)) return;
-  warnings.push(
+  pushLayoutWarning(
+    warnings, "pe.section-object-fields-set", getSectionFieldOffset(pe, index, "PointerToRelocations"),
     `Section ${getSectionLabel(section, index)} has COFF object relocation/line-number fields set; ` +
     "these fields should be zero in executable images."
   );
@@ -44,9 +52,15 @@ const addObjectFieldWarning = (section: PeSection, index: number, warnings: stri
 
 // Microsoft PE/COFF, "Grouped Sections": "$" is object-file syntax, never image syntax.
 // https://learn.microsoft.com/en-us/windows/win32/debug/pe-format#grouped-sections-object-only
-const addGroupedNameWarning = (section: PeSection, warnings: string[]): void => {
+const addGroupedNameWarning = (
+  pe: PeParseResult,
+  section: PeSection,
+  index: number,
+  warnings: ReportedDiagnostic[]
+): void => {
   if (!peSectionNameValue(section.name).includes("$")) return;
-  warnings.push(
+  pushLayoutWarning(
+    warnings, "pe.section-name-grouped", getSectionFieldOffset(pe, index, "Name"),
     "Section name contains \"$\"; grouped section names are object-file syntax and image section names never " +
     "contain \"$\"."
   );
@@ -58,40 +72,61 @@ const getObjectOnlySectionFlags = (section: PeSection): number => {
   return ((section.characteristics >>> 0) & OBJECT_ONLY_SECTION_FLAGS_MASK) | validAlignmentFlags;
 };
 
-const addObjectOnlyFlagWarning = (section: PeSection, index: number, warnings: string[]): void => {
+const addObjectOnlyFlagWarning = (
+  pe: PeParseResult,
+  section: PeSection,
+  index: number,
+  warnings: ReportedDiagnostic[]
+): void => {
   const flags = getObjectOnlySectionFlags(section);
   if (!flags) return;
-  warnings.push(
+  pushLayoutWarning(
+    warnings, "pe.section-object-only-flags", getSectionFieldOffset(pe, index, "Characteristics"),
     `Section ${getSectionLabel(section, index)} has object-only section flags set: ` +
     `${formatSectionCharacteristicFlags(flags).join(", ")}.`
   );
 };
 
-const addReservedFlagWarning = (section: PeSection, index: number, warnings: string[]): void => {
+const addReservedFlagWarning = (
+  pe: PeParseResult,
+  section: PeSection,
+  index: number,
+  warnings: ReportedDiagnostic[]
+): void => {
   const flags = (section.characteristics >>> 0) & RESERVED_SECTION_FLAGS_MASK;
   if (!flags) return;
-  warnings.push(
+  pushLayoutWarning(
+    warnings, "pe.section-reserved-flags", getSectionFieldOffset(pe, index, "Characteristics"),
     `Section ${getSectionLabel(section, index)} has reserved section flags set: ` +
     `${formatSectionCharacteristicFlags(flags).join(", ")}.`
   );
 };
 
-const addGprelWarning = (section: PeSection, index: number, warnings: string[]): void => {
+const addGprelWarning = (
+  pe: PeParseResult,
+  section: PeSection,
+  index: number,
+  warnings: ReportedDiagnostic[]
+): void => {
   if (((section.characteristics >>> 0) & IMAGE_SCN_GPREL) === 0) return;
-  warnings.push(
+  pushLayoutWarning(
+    warnings, "pe.section-gprel-flag", getSectionFieldOffset(pe, index, "Characteristics"),
     `Section ${getSectionLabel(section, index)} has IMAGE_SCN_GPREL set; this flag is object-file-only ` +
     "and must not be set in image files."
   );
 };
 
-export const collectPeSectionFieldWarnings = (pe: PeParseResult): string[] => {
-  const warnings: string[] = [];
+export const collectPeSectionFieldDiagnostics = (pe: PeParseResult): ReportedDiagnostic[] => {
+  const warnings: ReportedDiagnostic[] = [];
   pe.sections.forEach((section, index) => {
-    addObjectFieldWarning(section, index, warnings);
-    addGroupedNameWarning(section, warnings);
-    addObjectOnlyFlagWarning(section, index, warnings);
-    addReservedFlagWarning(section, index, warnings);
-    addGprelWarning(section, index, warnings);
+    addObjectFieldWarning(pe, section, index, warnings);
+    addGroupedNameWarning(pe, section, index, warnings);
+    addObjectOnlyFlagWarning(pe, section, index, warnings);
+    addReservedFlagWarning(pe, section, index, warnings);
+    addGprelWarning(pe, section, index, warnings);
   });
   return warnings;
 };
+
+export const collectPeSectionFieldWarnings = (pe: PeParseResult): string[] =>
+  collectPeSectionFieldDiagnostics(pe).map(warning => warning.message);
@@ -0,0 +1,95 @@
+"use strict";
+
+import type { ReportedDiagnostic } from "../../diagnostics/index.js";
+import {
+  isPeWindowsParseResult,
+  type PeParseResult,
+  type PeWindowsParseResult
+} from "../core/parse-result.js";
+import { pushLayoutWarning } from "./diagnostics.js";
+import { getMappedImageRanges, getUnmappedFileRanges } from "./file-ranges.js";
+
+const formatHex = (value: number): string => `0x${Math.max(0, Math.trunc(value)).toString(16).padStart(8, "0")}`;
+const getKnownFileSize = (fileSize?: number): number | null =>
+  Number.isSafeInteger(fileSize) && fileSize != null && fileSize >= 0 ? fileSize : null;
+const getUnmappedDebugRanges = (pe: PeWindowsParseResult, mappedRanges: ReturnType<typeof getMappedImageRanges>) =>
+  getUnmappedFileRanges(pe.debug?.rawDataRanges ?? [], mappedRanges);
+
+// The attachment certificate table and unmapped debug data belong after the mapped image, in that
+// order, reaching the end of the file.
+// headerSpanEnd is where the headers end in the file, including any SizeOfHeaders padding.
+export const addSecurityAndDebugTailWarnings = (
+  pe: PeParseResult,
+  headerSpanEnd: number,
+  warnings: ReportedDiagnostic[],
+  fileSize?: number
+): void => {
+  if (!isPeWindowsParseResult(pe)) return;
+  const knownFileSize = getKnownFileSize(fileSize);
+  const mappedRanges = getMappedImageRanges(headerSpanEnd, pe.sections, knownFileSize);
+  const rawMappedEnd = mappedRanges.length ? mappedRanges[mappedRanges.length - 1]!.end : 0;
+  const fileEnd = knownFileSize ?? pe.overlay?.ranges.at(-1)?.end ?? rawMappedEnd;
+  const securityDir = pe.dirs.find(directory => directory.name === "SECURITY");
+  const securityStart = securityDir?.size ? securityDir.rva >>> 0 : null;
+  const securityEnd =
+    securityDir?.size && securityStart != null ? securityStart + (securityDir.size >>> 0) : null;
+  if (securityStart != null && securityEnd != null && securityStart < rawMappedEnd) {
+    pushLayoutWarning(
+      warnings, "pe.certificate-table-overlaps-image", securityStart,
+      `Attribute certificate table starts at ${formatHex(securityStart)}, which overlaps mapped image ` +
+        `bytes ending at ${formatHex(rawMappedEnd)}.`
+    );
+  }
+  const debugRanges = getUnmappedDebugRanges(pe, mappedRanges);
+  if (!debugRanges.length) {
+    if (securityEnd != null && securityEnd !== fileEnd) pushLayoutWarning(
+      warnings, "pe.certificate-table-not-at-end", securityEnd,
+      `Attribute certificate table is not placed at the end of the file tail ` +
+        `(${formatHex(securityEnd)} != ${formatHex(fileEnd)}).`
+    );
+    return;
+  }
+  const firstDebugStart = debugRanges[0]!.start;
+  const lastDebugEnd = debugRanges[debugRanges.length - 1]!.end;
+  if (firstDebugStart < rawMappedEnd) {
+    pushLayoutWarning(
+      warnings, "pe.debug-data-overlaps-image", firstDebugStart,
+      `Debug raw data begins at ${formatHex(firstDebugStart)}, which overlaps mapped image bytes ` +
+        `ending at ${formatHex(rawMappedEnd)}.`
+    );
+  }
+  if (
+    securityStart != null &&
+    securityEnd != null &&
+    debugRanges.some(range => range.start < securityEnd && range.end > securityStart)
+  ) {
+    pushLayoutWarning(
+      warnings, "pe.certificate-table-overlaps-debug-data", securityStart,
+      "Attribute certificate table and debug raw data overlap in the file tail."
+    );
+  }
+  if (securityEnd != null && firstDebugStart !== securityEnd) {
+    pushLayoutWarning(
+      warnings, "pe.certificate-table-not-before-debug-data", securityEnd,
+      `Attribute certificate table does not immediately precede debug raw data ` +
+        `(${formatHex(securityEnd)} -> ${formatHex(firstDebugStart)}).`
+    );
+  }
+  for (let index = 1; index < debugRanges.length; index += 1) {
+    const previous = debugRanges[index - 1];
+    const current = debugRanges[index];
+    if (!previous || !current || current.start <= previous.end) continue;
+    pushLayoutWarning(
+      warnings, "pe.debug-data-gap", previous.end,
+      `Debug raw data has a gap in the file tail ` +
+        `(${formatHex(previous.end)} -> ${formatHex(current.start)}).`
+    );
+  }
+  if (lastDebugEnd !== fileEnd) {
+    pushLayoutWarning(
+      warnings, "pe.debug-data-not-at-end", lastDebugEnd,
+      `Debug raw data is not placed at the end of the file tail ` +
+        `(${formatHex(lastDebugEnd)} != ${formatHex(fileEnd)}).`
+    );
+  }
+};
@@ -1,13 +1,16 @@
 "use strict";
-import { getMappedImageRanges, getUnmappedFileRanges } from "./file-ranges.js";
+import { isPeWindowsParseResult, type PeParseResult } from "../core/parse-result.js";
+import type { ReportedDiagnostic } from "../../diagnostics/index.js";
 import {
-  isPeWindowsParseResult,
-  type PeParseResult,
-  type PeWindowsParseResult
-} from "../core/parse-result.js";
-import { collectPeDosHeaderWarnings } from "./dos-header-warnings.js";
-import { collectPeHeaderFieldWarnings } from "./header-field-warnings.js";
-import { collectPeSectionFieldWarnings } from "./section-field-warnings.js";
+  DOS_HEADER_FIELD_OFFSETS,
+  getOptionalHeaderFieldOffset,
+  getSectionFieldOffset,
+  pushLayoutWarning
+} from "./diagnostics.js";
+import { collectPeDosHeaderDiagnostics } from "./dos-header-warnings.js";
+import { collectPeHeaderFieldDiagnostics } from "./header-field-warnings.js";
+import { collectPeSectionFieldDiagnostics } from "./section-field-warnings.js";
+import { addSecurityAndDebugTailWarnings } from "./tail-warnings.js";
 import { isPeClrNativeImage, isPeWinmd } from "../subtype.js";
 import { isReadyToRunOsOverriddenMachine } from "../machine.js";
 import { peSectionNameValue } from "../sections/name.js";
@@ -39,8 +42,6 @@ const getHeaderSpanEnd = (pe: PeParseResult): number =>
   !isPeWindowsParseResult(pe)
     ? getActualHeaderEnd(pe)
     : Math.max(getActualHeaderEnd(pe), pe.opt.SizeOfHeaders >>> 0);
-const getKnownFileSize = (fileSize?: number): number | null =>
-  Number.isSafeInteger(fileSize) && fileSize != null && fileSize >= 0 ? fileSize : null;
 const getArchitecturePageSize = (machine: number): number =>
   machine === IMAGE_FILE_MACHINE_IA64 ? ITANIUM_PAGE_SIZE : COMMON_ARCH_PAGE_SIZE;
 const usesWindowsSectionAlignmentRules = (pe: PeParseResult): boolean =>
@@ -53,8 +54,6 @@ const isUninitializedDataOnlySection = (section: PeSection): boolean =>
   ((section.characteristics >>> 0) & COFF_SECTION_CHARACTERISTICS.CNT_UNINITIALIZED_DATA) !== 0 &&
   ((section.characteristics >>> 0) &
     (COFF_SECTION_CHARACTERISTICS.CNT_CODE | COFF_SECTION_CHARACTERISTICS.CNT_INITIALIZED_DATA)) === 0;
-const getUnmappedDebugRanges = (pe: PeWindowsParseResult, mappedRanges: ReturnType<typeof getMappedImageRanges>) =>
-  getUnmappedFileRanges(pe.debug?.rawDataRanges ?? [], mappedRanges);
 const getMappedSectionSpan = (section: PeSection): number =>
   (section.virtualSize >>> 0) || (section.sizeOfRawData >>> 0);
 const getVirtualEndAligned = (section: PeSection, sectionAlignment: number): number | null =>
@@ -70,40 +69,45 @@ const getNamedSectionRanges = (pe: PeParseResult): NamedSectionRange[] =>
     ),
     rawStart: section.pointerToRawData >>> 0, rawEnd: (section.pointerToRawData >>> 0) + (section.sizeOfRawData >>> 0)
   }));
-const addSectionHeaderWarnings = (pe: PeParseResult, warnings: Set<string>): void => {
+const addSectionHeaderWarnings = (pe: PeParseResult, warnings: ReportedDiagnostic[]): void => {
   if ((pe.dos.e_lfanew & (PE_HEADER_ALIGNMENT - 1)) !== 0) {
-    warnings.add(
+    pushLayoutWarning(
+      warnings, "pe.pe-header-misaligned", DOS_HEADER_FIELD_OFFSETS.e_lfanew,
       `PE header offset e_lfanew ${formatHex(pe.dos.e_lfanew)} is not ${PE_HEADER_ALIGNMENT}-byte aligned.`
     );
   }
   if (!isPeWindowsParseResult(pe)) return;
   const actualHeaderEnd = getActualHeaderEnd(pe);
   if ((pe.opt.SizeOfHeaders >>> 0) !== 0 && (pe.opt.SizeOfHeaders >>> 0) < actualHeaderEnd) {
-    warnings.add(
+    pushLayoutWarning(
+      warnings, "pe.size-of-headers-too-small", getOptionalHeaderFieldOffset(pe, "SizeOfHeaders"),
       `SizeOfHeaders ${formatHex(pe.opt.SizeOfHeaders)} is smaller than the actual header span ` +
         `ending at ${formatHex(actualHeaderEnd)}.`
     );
   }
   if ((pe.opt.FileAlignment >>> 0) !== 0 && (pe.opt.SizeOfHeaders >>> 0) % (pe.opt.FileAlignment >>> 0) !== 0) {
-    warnings.add(
+    pushLayoutWarning(
+      warnings, "pe.size-of-headers-misaligned", getOptionalHeaderFieldOffset(pe, "SizeOfHeaders"),
       `SizeOfHeaders ${formatHex(pe.opt.SizeOfHeaders)} is not a multiple of FileAlignment ` +
         `${formatHex(pe.opt.FileAlignment)}.`
     );
   }
   if (usesLowSectionAlignmentLayout(pe) && (pe.opt.FileAlignment >>> 0) !== (pe.opt.SectionAlignment >>> 0)) {
-    warnings.add(
+    pushLayoutWarning(
+      warnings, "pe.low-alignment-file-alignment-mismatch", getOptionalHeaderFieldOffset(pe, "FileAlignment"),
       `FileAlignment ${formatHex(pe.opt.FileAlignment)} must match SectionAlignment ` +
         `${formatHex(pe.opt.SectionAlignment)} when SectionAlignment is below the architecture page size.`
     );
   }
 };
-const addSectionVirtualLayoutWarnings = (pe: PeParseResult, warnings: Set<string>): void => {
+const addSectionVirtualLayoutWarnings = (pe: PeParseResult, warnings: ReportedDiagnostic[]): void => {
   if (!isPeWindowsParseResult(pe)) return;
   const sectionAlignment = pe.opt.SectionAlignment >>> 0;
   const ranges = getNamedSectionRanges(pe);
   for (const range of ranges) {
     if (sectionAlignment !== 0 && range.virtualAddress % sectionAlignment !== 0) {
-      warnings.add(
+      pushLayoutWarning(
+        warnings, "pe.section-virtual-address-misaligned", getSectionFieldOffset(pe, range.index, "VirtualAddress"),
         `Section ${range.label} VirtualAddress ${formatHex(range.virtualAddress)} is not a multiple ` +
           `of SectionAlignment ${formatHex(sectionAlignment)}.`
       );
@@ -113,7 +117,8 @@ const addSectionVirtualLayoutWarnings = (pe: PeParseResult, warnings: Set<string
     const previous = ranges[index - 1];
     const current = ranges[index];
     if (previous && current && current.virtualAddress < previous.virtualAddress) {
-      warnings.add(
+      pushLayoutWarning(
+        warnings, "pe.section-headers-out-of-order", getSectionFieldOffset(pe, current.index, "VirtualAddress"),
         `Section headers are not in ascending VirtualAddress order: ${previous.label} at ` +
           `${formatHex(previous.virtualAddress)} appears before ${current.label} at ` +
           `${formatHex(current.virtualAddress)}.`
@@ -129,27 +134,30 @@ const addSectionVirtualLayoutWarnings = (pe: PeParseResult, warnings: Set<string
     const current = sortedRanges[index];
     if (!previous || !current || previous.virtualEndAligned == null) continue;
     if (current.virtualAddress < previous.virtualEndAligned) {
-      warnings.add(
+      pushLayoutWarning(
+        warnings, "pe.sections-overlap-in-image", getSectionFieldOffset(pe, current.index, "VirtualAddress"),
         `Sections ${previous.label} and ${current.label} overlap in the loaded image RVA layout ` +
           `(${formatHex(current.virtualAddress)} < ${formatHex(previous.virtualEndAligned)}).`
       );
       continue;
     }
     if (usesWindowsSectionAlignmentRules(pe) && current.virtualAddress > previous.virtualEndAligned) {
-      warnings.add(
+      pushLayoutWarning(
+        warnings, "pe.sections-not-adjacent", getSectionFieldOffset(pe, current.index, "VirtualAddress"),
         `Sections ${previous.label} and ${current.label} are not adjacent in RVA order; expected ` +
           `${formatHex(previous.virtualEndAligned)} but found ${formatHex(current.virtualAddress)}.`
       );
     }
   }
 };
-const addSectionRawLayoutWarnings = (pe: PeParseResult, warnings: Set<string>): void => {
+const addSectionRawLayoutWarnings = (pe: PeParseResult, warnings: ReportedDiagnostic[]): void => {
   const ranges = getNamedSectionRanges(pe).filter(range => range.rawEnd > range.rawStart);
   const headerSpanEnd = getHeaderSpanEnd(pe);
   const fileAlignment = isPeWindowsParseResult(pe) ? pe.opt.FileAlignment >>> 0 : 0;
   for (const range of ranges) {
     if (fileAlignment !== 0 && range.rawStart % fileAlignment !== 0) {
-      warnings.add(
+      pushLayoutWarning(
+        warnings, "pe.section-raw-pointer-misaligned", getSectionFieldOffset(pe, range.index, "PointerToRawData"),
         `Section ${range.label} PointerToRawData ${formatHex(range.rawStart)} is not a multiple of ` +
           `FileAlignment ${formatHex(fileAlignment)}.`
       );
@@ -159,13 +167,15 @@ const addSectionRawLayoutWarnings = (pe: PeParseResult, warnings: Set<string>):
       (pe.sections[range.index]?.sizeOfRawData ?? 0) !== 0 &&
       (pe.sections[range.index]?.sizeOfRawData ?? 0) % fileAlignment !== 0
     ) {
-      warnings.add(
+      pushLayoutWarning(
+        warnings, "pe.section-raw-size-misaligned", getSectionFieldOffset(pe, range.index, "SizeOfRawData"),
         `Section ${range.label} SizeOfRawData ${formatHex(pe.sections[range.index]!.sizeOfRawData)} is not ` +
           `a multiple of FileAlignment ${formatHex(fileAlignment)}.`
       );
     }
     if (range.rawStart < headerSpanEnd) {
-      warnings.add(
+      pushLayoutWarning(
+        warnings, "pe.section-raw-data-overlaps-headers", range.rawStart,
         `Section ${range.label} raw data starts at ${formatHex(range.rawStart)}, which overlaps the ` +
           `headers ending at ${formatHex(headerSpanEnd)}.`
       );
@@ -179,116 +189,67 @@ const addSectionRawLayoutWarnings = (pe: PeParseResult, warnings: Set<string>):
     const current = sortedRanges[index];
     if (!previous || !current) continue;
     if (current.rawStart < previous.rawStart) {
-      warnings.add(
+      pushLayoutWarning(
+        warnings, "pe.section-raw-data-out-of-order", current.rawStart,
         `Section raw data is not ordered by RVA: ${current.label} starts at ${formatHex(current.rawStart)} ` +
           `after ${previous.label} at ${formatHex(previous.virtualAddress)} starts at ` +
           `${formatHex(previous.rawStart)}.`
       );
     }
     if (current.rawStart < previous.rawEnd) {
-      warnings.add(
+      pushLayoutWarning(
+        warnings, "pe.sections-overlap-in-file", current.rawStart,
         `Sections ${previous.label} and ${current.label} overlap in file data ` +
           `(${formatHex(current.rawStart)} < ${formatHex(previous.rawEnd)}).`
       );
     }
   }
 };
-const addSectionConsistencyWarnings = (pe: PeParseResult, warnings: Set<string>): void => {
+const addSectionConsistencyWarnings = (pe: PeParseResult, warnings: ReportedDiagnostic[]): void => {
   const lowSectionAlignmentLayout = usesLowSectionAlignmentLayout(pe);
   const ranges = getNamedSectionRanges(pe);
   for (const range of ranges) {
     const section = pe.sections[range.index];
     if (!section) continue;
     if (lowSectionAlignmentLayout && range.rawEnd > range.rawStart && range.rawStart !== range.virtualAddress) {
-      warnings.add(
+      pushLayoutWarning(
+        warnings, "pe.low-alignment-raw-offset-mismatch", getSectionFieldOffset(pe, range.index, "PointerToRawData"),
         `Section ${range.label} raw data offset ${formatHex(range.rawStart)} must match its VirtualAddress ` +
           `${formatHex(range.virtualAddress)} when SectionAlignment is below the architecture page size.`
       );
     }
     if (!isUninitializedDataOnlySection(section)) continue;
-    if ((section.sizeOfRawData >>> 0) !== 0) warnings.add(
+    if ((section.sizeOfRawData >>> 0) !== 0) pushLayoutWarning(
+      warnings, "pe.uninitialized-section-has-raw-size", getSectionFieldOffset(pe, range.index, "SizeOfRawData"),
       `Section ${range.label} contains only uninitialized data but SizeOfRawData is ` +
         `${formatHex(section.sizeOfRawData)} instead of zero.`
     );
-    if ((section.pointerToRawData >>> 0) !== 0) warnings.add(
+    if ((section.pointerToRawData >>> 0) !== 0) pushLayoutWarning(
+      warnings, "pe.uninitialized-section-has-raw-pointer", getSectionFieldOffset(pe, range.index, "PointerToRawData"),
       `Section ${range.label} contains only uninitialized data but PointerToRawData is ` +
         `${formatHex(section.pointerToRawData)} instead of zero.`
     );
   }
 };
-const addSecurityAndDebugTailWarnings = (pe: PeParseResult, warnings: Set<string>, fileSize?: number): void => {
-  if (!isPeWindowsParseResult(pe)) return;
-  const knownFileSize = getKnownFileSize(fileSize);
-  const mappedRanges = getMappedImageRanges(getHeaderSpanEnd(pe), pe.sections, knownFileSize);
-  const rawMappedEnd = mappedRanges.length ? mappedRanges[mappedRanges.length - 1]!.end : 0;
-  const fileEnd = knownFileSize ?? pe.overlay?.ranges.at(-1)?.end ?? rawMappedEnd;
-  const securityDir = pe.dirs.find(directory => directory.name === "SECURITY");
-  const securityStart = securityDir?.size ? securityDir.rva >>> 0 : null;
-  const securityEnd =
-    securityDir?.size && securityStart != null ? securityStart + (securityDir.size >>> 0) : null;
-  if (securityStart != null && securityEnd != null && securityStart < rawMappedEnd) {
-    warnings.add(
-      `Attribute certificate table starts at ${formatHex(securityStart)}, which overlaps mapped image ` +
-        `bytes ending at ${formatHex(rawMappedEnd)}.`
-    );
-  }
-  const debugRanges = getUnmappedDebugRanges(pe, mappedRanges);
-  if (!debugRanges.length) {
-    if (securityEnd != null && securityEnd !== fileEnd) warnings.add(
-      `Attribute certificate table is not placed at the end of the file tail ` +
-        `(${formatHex(securityEnd)} != ${formatHex(fileEnd)}).`
-    );
-    return;
-  }
-  const firstDebugStart = debugRanges[0]!.start;
-  const lastDebugEnd = debugRanges[debugRanges.length - 1]!.end;
-  if (firstDebugStart < rawMappedEnd) {
-    warnings.add(
-      `Debug raw data begins at ${formatHex(firstDebugStart)}, which overlaps mapped image bytes ` +
-        `ending at ${formatHex(rawMappedEnd)}.`
-    );
-  }
-  if (
-    securityStart != null &&
-    securityEnd != null &&
-    debugRanges.some(range => range.start < securityEnd && range.end > securityStart)
-  ) {
-    warnings.add("Attribute certificate table and debug raw data overlap in the file tail.");
-  }
-  if (securityEnd != null && firstDebugStart !== securityEnd) {
-    warnings.add(
-      `Attribute certificate table does not immediately precede debug raw data ` +
-        `(${formatHex(securityEnd)} -> ${formatHex(firstDebugStart)}).`
-    );
-  }
-  for (let index = 1; index < debugRanges.length; index += 1) {
-    const previous = debugRanges[index - 1];
-    const current = debugRanges[index];
-    if (!previous || !current || current.start <= previous.end) continue;
-    warnings.add(
-      `Debug raw data has a gap in the file tail ` +
-        `(${formatHex(previous.end)} -> ${formatHex(current.start)}).`
-    );
-  }
-  if (lastDebugEnd !== fileEnd) {
-    warnings.add(
-      `Debug raw data is not placed at the end of the file tail ` +
-        `(${formatHex(lastDebugEnd)} != ${formatHex(fileEnd)}).`
-    );
-  }
-};
-
 const shouldSkipDosStubWarnings = (pe: PeParseResult): boolean =>
   isPeWinmd(pe) || isPeClrNativeImage(pe);
 
-export const collectPeLayoutWarnings = (pe: PeParseResult, fileSize?: number): string[] => {
-  const warnings = new Set(shouldSkipDosStubWarnings(pe) ? [] : collectPeDosHeaderWarnings(pe.dos));
-  collectPeHeaderFieldWarnings(pe).forEach(warning => warnings.add(warning));
-  collectPeSectionFieldWarnings(pe).forEach(warning => warnings.add(warning));
+export const collectPeLayoutDiagnostics = (pe: PeParseResult, fileSize?: number): ReportedDiagnostic[] => {
+  const warnings = shouldSkipDosStubWarnings(pe) ? [] : collectPeDosHeaderDiagnostics(pe.dos);
+  warnings.push(...collectPeHeaderFieldDiagnostics(pe), ...collectPeSectionFieldDiagnostics(pe));
   addSectionHeaderWarnings(pe, warnings);
   addSectionVirtualLayoutWarnings(pe, warnings);
   addSectionRawLayoutWarnings(pe, warnings);
   addSectionConsistencyWarnings(pe, warnings);
-  addSecurityAndDebugTailWarnings(pe, warnings, fileSize);
-  return [...warnings];
+  addSecurityAndDebugTailWarnings(pe, getHeaderSpanEnd(pe), warnings, fileSize);
+  // A message two checks both produce is reported once, with the first check's offset.
+  const messages = new Set<string>();
+  return warnings.filter(warning => {
+    if (messages.has(warning.message)) return false;
+    messages.add(warning.message);
+    return true;
+  });
 };
+
+export const collectPeLayoutWarnings = (pe: PeParseResult, fileSize?: number): string[] =>
+  collectPeLayoutDiagnostics(pe, fileSize).map(warning => warning.message);
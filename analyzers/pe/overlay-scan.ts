@@ -196,6 +196,21 @@ export const findEmbeddedPayloadsInRangePrefix = async (
   );
 };
 
+// Runs the embedded payload detectors on the bytes in `view`, which start at `offset` inside
+// `range`; the finding ends at `range.end` when its length is not known.
+export const detectEmbeddedPayloadAt = async (
+  file: File,
+  reader: FileRangeReader,
+  range: FileRange,
+  view: DataView,
+  offset: number
+): Promise<PeOverlayFinding | null> => {
+  const candidateType = detectEmbeddedCandidateType(view, range.end - offset);
+  if (!candidateType) return null;
+  const detectedType = await resolveEmbeddedCandidateType(file, range, offset, candidateType);
+  return detectedType ? createOverlayFinding(file, reader, range, offset, detectedType) : null;
+};
+
 const scanChunk = async (
   file: File,
   reader: FileRangeReader,
@@ -210,17 +225,8 @@ const scanChunk = async (
     throwIfAborted(options.signal);
     if (!isEmbeddedCandidateStartByte(view.getUint8(index))) continue;
     const probeView = new DataView(view.buffer, view.byteOffset + index, view.byteLength - index);
-    const candidateType = detectEmbeddedCandidateType(probeView, range.end - cursor - index);
-    if (!candidateType) continue;
     const detectedOffset = cursor + index;
-    const detectedType = await resolveEmbeddedCandidateType(
-      file,
-      range,
-      detectedOffset,
-      candidateType
-    );
-    if (!detectedType) continue;
-    const finding = await createOverlayFinding(file, reader, range, detectedOffset, detectedType);
+    const finding = await detectEmbeddedPayloadAt(file, reader, range, probeView, detectedOffset);
     if (!finding) continue;
     findings.push(finding);
     return Math.max(detectedOffset + 1, finding.end);
@@ -1,7 +1,7 @@
 "use strict";
 
 import type { PeDebugSection, PeWindowsParseResult } from "./core/parse-result.js";
-import { collectPeLayoutWarnings } from "./layout/warnings.js";
+import { collectPeLayoutDiagnostics } from "./layout/warnings.js";
 import type {
   PeDebugArtifacts,
   PeDirectoryArtifacts,
@@ -17,8 +17,10 @@ export const withWindowsPeLayoutWarnings = <T extends PeWindowsParseResult>(
   result: T,
   fileSize: number
 ): T => {
-  const mergedWarnings = appendUniqueMessages(result.warnings, collectPeLayoutWarnings(result, fileSize));
-  return mergedWarnings?.length ? { ...result, warnings: mergedWarnings } : result;
+  const layoutDiagnostics = collectPeLayoutDiagnostics(result, fileSize);
+  if (!layoutDiagnostics.length) return result;
+  const warnings = appendUniqueMessages(result.warnings, layoutDiagnostics.map(diagnostic => diagnostic.message));
+  return { ...result, warnings, diagnostics: [...(result.diagnostics ?? []), ...layoutDiagnostics] };
 };
 
 export const buildWindowsPeResult = (
@@ -152,19 +152,27 @@ export const analyzePePayloads = async (
   return entries.length ? { entries } : null;
 };
 
-const explainedRanges = (
+// Overlay bytes accounted for by installer data and validated payloads, labelled for the
+// structure map.
+export const explainedPeOverlayRanges = (
   packers: PePackerAnalysis | null | undefined,
   payloads: PePayloadAnalysis | null | undefined
-): FileRange[] => [
+): Array<FileRange & { label: string }> => [
   ...innoFindings(packers).map(finding => ({
     start: finding.dataOffset,
-    end: finding.totalSize
+    end: finding.totalSize,
+    label: "Inno Setup data"
   })),
   ...nsisFindings(packers).map(finding => ({
     start: finding.firstHeaderOffset,
-    end: finding.firstHeaderOffset + finding.followingDataSize
+    end: finding.firstHeaderOffset + finding.followingDataSize,
+    label: "NSIS installer data"
   })),
-  ...(payloads?.entries ?? []).map(payload => ({ start: payload.start, end: payload.end }))
+  ...(payloads?.entries ?? []).map(payload => ({
+    start: payload.start,
+    end: payload.end,
+    label: `Embedded ${payload.format} payload`
+  }))
 ];
 
 const readCertificateAlignmentPadding = async (
@@ -197,7 +205,7 @@ export const subtractExplainedPeOverlay = async (
   payloads: PePayloadAnalysis | null | undefined
 ): Promise<PeOverlayAnalysis | null> => {
   if (!overlay) return null;
-  const explained = explainedRanges(packers, payloads);
+  const explained = explainedPeOverlayRanges(packers, payloads);
   const remaining = subtractFileRanges(overlay.ranges, explained);
   const padding = await readCertificateAlignmentPadding(
     reader,
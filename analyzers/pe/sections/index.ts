@@ -3,6 +3,7 @@
 import type { FileRangeReader } from "../../file-range-reader.js";
 import { parseCoffSectionHeaders } from "../../coff/section-headers.js";
 import { COFF_SECTION_HEADER_BYTE_LENGTH } from "../../coff/layout.js";
+import type { PeParseResult } from "../core/parse-result.js";
 import type { PeSection, RvaToOffset } from "../types.js";
 import { PE_RVA_EXCLUSIVE_LIMIT } from "../layout/rva-limits.js";
 
@@ -58,6 +59,18 @@ const createRvaToOffsetMapper = (
   };
 };
 
+// Structured clone drops functions, so results posted from a parse worker rebuild the mapper on arrival.
+// Section headers follow the 4-byte PE signature, the 20-byte COFF file header and the optional header;
+// header-only images were mapped without a SizeOfHeaders span, matching parsePeHeaders.
+export const rebuildPeRvaToOffset = (pe: Omit<PeParseResult, "rvaToOff">, fileSize: number): RvaToOffset =>
+  createRvaToOffsetMapper(
+    pe.sections,
+    fileSize,
+    pe.opt && "SizeOfHeaders" in pe.opt ? pe.opt.SizeOfHeaders : 0,
+    pe.dos.e_lfanew + 24 + pe.coff.SizeOfOptionalHeader +
+      (pe.coff.NumberOfSections >>> 0) * COFF_SECTION_HEADER_BYTE_LENGTH
+  );
+
 const appendPeImageWarnings = (
   warnings: string[],
   pointerToSymbolTable: number,
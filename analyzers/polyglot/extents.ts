@@ -0,0 +1,129 @@
+"use strict";
+
+import type { CarvedEnd } from "../carving/types.js";
+import type { FileRangeReader } from "../file-range-reader.js";
+
+// Extent readers for interpretations that are not anchored where their signature is: a ZIP
+// archive is located from its end record, a PDF is closed by its last %%EOF and an ISO-9660
+// image is sized by its primary volume descriptor. Each returns null when the structure is
+// not consistent.
+
+export interface ZipClaim {
+  start: number;
+  end: number;
+  // Central directory bytes, which hold every entry name (used to refine the label).
+  directory: DataView;
+}
+
+const SEARCH_CHUNK_BYTES = 64 * 1024;
+
+// Offset of the last occurrence of `needle` that lies inside [from, limit), searching backwards
+// chunk by chunk.
+export const findLastBytes = async (
+  reader: FileRangeReader,
+  needle: readonly number[],
+  from: number,
+  limit: number
+): Promise<number | null> => {
+  for (let chunkEnd = limit; chunkEnd > from; chunkEnd -= SEARCH_CHUNK_BYTES) {
+    const chunkStart = Math.max(from, chunkEnd - SEARCH_CHUNK_BYTES);
+    const bytes = await reader.readBytes(chunkStart, Math.min(chunkEnd + needle.length - 1, limit) - chunkStart);
+    for (let index = Math.min(bytes.length - needle.length, chunkEnd - 1 - chunkStart); index >= 0; index -= 1) {
+      if (needle.every((value, offset) => bytes[index + offset] === value)) return chunkStart + index;
+    }
+  }
+  return null;
+};
+
+// PKWARE APPNOTE 4.3.16: the end of central directory record is in the last 64 KiB + 22 bytes,
+// which is where ZIP readers look for it regardless of what precedes the archive.
+const ZIP_EOCD_SIGNATURE = [0x50, 0x4b, 0x05, 0x06];
+const ZIP_EOCD_BYTES = 22;
+const ZIP_MAX_COMMENT_BYTES = 0xffff;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP_CENTRAL_HEADER_BYTES = 46;
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP_MAX_DIRECTORY_BYTES = 16 * 1024 * 1024;
+
+// Smallest local header offset named by the central directory, or null when it is malformed.
+const firstLocalHeaderOffset = (directory: DataView, entryCount: number): number | null => {
+  let first = Number.POSITIVE_INFINITY;
+  let position = 0;
+  for (let entry = 0; entry < entryCount; entry += 1) {
+    if (position + ZIP_CENTRAL_HEADER_BYTES > directory.byteLength) return null;
+    if (directory.getUint32(position, true) !== ZIP_CENTRAL_HEADER_SIGNATURE) return null;
+    first = Math.min(first, directory.getUint32(position + 42, true));
+    position += ZIP_CENTRAL_HEADER_BYTES + directory.getUint16(position + 28, true) +
+      directory.getUint16(position + 30, true) + directory.getUint16(position + 32, true);
+  }
+  return Number.isFinite(first) ? first : null;
+};
+
+// Directory offsets are relative to the archive when it was appended as is, or absolute after
+// `zip -A`; the gap between the directory and the end record tells which (see readZipEnd).
+export const readZipClaim = async (reader: FileRangeReader): Promise<ZipClaim | null> => {
+  const tailStart = Math.max(0, reader.size - ZIP_EOCD_BYTES - ZIP_MAX_COMMENT_BYTES);
+  const eocd = await findLastBytes(
+    reader, ZIP_EOCD_SIGNATURE, tailStart, reader.size - ZIP_EOCD_BYTES + ZIP_EOCD_SIGNATURE.length
+  );
+  if (eocd == null) return null;
+  const record = await reader.read(eocd, ZIP_EOCD_BYTES);
+  const entryCount = record.getUint16(10, true);
+  const directorySize = record.getUint32(12, true);
+  const directoryOffset = record.getUint32(16, true);
+  const end = eocd + ZIP_EOCD_BYTES + record.getUint16(20, true);
+  const base = eocd - directorySize - directoryOffset;
+  if (end > reader.size || base < 0 || !entryCount || directorySize > ZIP_MAX_DIRECTORY_BYTES) return null;
+  const directory = await reader.read(base + directoryOffset, directorySize);
+  const firstLocal = firstLocalHeaderOffset(directory, entryCount);
+  if (firstLocal == null) return null;
+  const start = base + firstLocal;
+  const local = await reader.read(start, 4);
+  if (local.byteLength < 4 || local.getUint32(0, true) !== ZIP_LOCAL_HEADER_SIGNATURE) return null;
+  return { start, end, directory };
+};
+
+// ISO 32000-1 7.5.5 and Annex H: readers take the last %%EOF; incremental updates append trailers.
+const PDF_EOF = Array.from("%%EOF", char => char.charCodeAt(0));
+
+export const readPdfLastEnd = async (reader: FileRangeReader, start: number): Promise<CarvedEnd | null> => {
+  const marker = await findLastBytes(reader, PDF_EOF, start, reader.size);
+  if (marker == null) return null;
+  let end = marker + PDF_EOF.length;
+  const eol = await reader.readBytes(end, Math.min(2, reader.size - end));
+  if (eol[0] === 0x0d) end += 1;
+  if (eol[end - marker - PDF_EOF.length] === 0x0a) end += 1;
+  return { end, description: "Ends at the last %%EOF marker." };
+};
+
+// ECMA-119 8.4: volume descriptors start at sector 16; the primary one (type 1) holds the volume
+// space size (both-endian, little-endian half at 80) and the logical block size (at 128).
+const ISO_SECTOR_BYTES = 2048;
+const ISO_FIRST_DESCRIPTOR = 16 * ISO_SECTOR_BYTES;
+const ISO_MAX_DESCRIPTORS = 32;
+const ISO_TERMINATOR = 0xff;
+
+export const readIso9660End = async (reader: FileRangeReader, start: number): Promise<CarvedEnd | null> => {
+  for (let index = 0; index < ISO_MAX_DESCRIPTORS; index += 1) {
+    const descriptor = await reader.read(start + ISO_FIRST_DESCRIPTOR + index * ISO_SECTOR_BYTES, 136);
+    if (descriptor.byteLength < 136) return null;
+    const type = descriptor.getUint8(0);
+    if (type === ISO_TERMINATOR) return null;
+    if (type !== 1) continue;
+    const size = descriptor.getUint32(80, true) * descriptor.getUint16(128, true);
+    if (!size || size > reader.size - start) return null;
+    return { end: start + size, description: "Volume space size from the primary volume descriptor." };
+  }
+  return null;
+};
+
+// MS-DOS EXE header: blocks in file (512 bytes each) at 4 and bytes in the last block at 2.
+export const readDosImageEnd = async (reader: FileRangeReader, start: number): Promise<CarvedEnd | null> => {
+  const header = await reader.read(start, 6);
+  if (header.byteLength < 6) return null;
+  const blocks = header.getUint16(4, true);
+  const lastBlockBytes = header.getUint16(2, true);
+  const size = lastBlockBytes ? (blocks - 1) * 512 + lastBlockBytes : blocks * 512;
+  if (size <= 0 || size > reader.size - start) return null;
+  return { end: start + size, description: "Load image size from the MZ header." };
+};
@@ -0,0 +1,158 @@
+"use strict";
+
+import { readElfEnd, readPeImageEnd } from "../carving/executables.js";
+import { readGifEnd, readPngEnd, readRiffEnd, readSqliteEnd } from "../carving/sizes.js";
+import type { CarvedEnd } from "../carving/types.js";
+import { refineZipLabel } from "../detection-labels.js";
+import { probeElf } from "../elf/probe.js";
+import { createFileRangeReader, type FileRangeReader } from "../file-range-reader.js";
+import { buildMzLabel, refineMagicLabel } from "../format-registry/labels.js";
+import { createFormatProbeContext } from "../format-registry/probe-context.js";
+import type { FormatProbeContext } from "../format-registry/types.js";
+import { probeMachO } from "../macho/probe.js";
+import { probeMzFormat } from "../mz-probe.js";
+import { EMBEDDED_ZIP_LABEL } from "../pe/overlay-embedded.js";
+import { detectEmbeddedPayloadAt } from "../pe/overlay-scan.js";
+import { MAGIC_PROBES } from "../probes/magic-probes.js";
+import { readDosImageEnd, readIso9660End, readPdfLastEnd, readZipClaim } from "./extents.js";
+
+// One way to read the file: a parser that accepts these bytes would see `label` in
+// [start, end). `extentKnown` is false when only the signature was checked; the claim then
+// runs to the end of the file and is left out of overlap checks.
+export interface PolyglotInterpretation {
+  label: string;
+  // Which signature or record supports this reading, e.g. "Signature at offset 0".
+  evidence: string;
+  start: number;
+  end: number;
+  extentKnown: boolean;
+  extentDescription: string;
+}
+
+// Two interpretations (indexes into `interpretations`) that claim the same bytes.
+export interface PolyglotOverlap {
+  first: number;
+  second: number;
+  start: number;
+  end: number;
+}
+
+export interface PolyglotAnalysis {
+  interpretations: PolyglotInterpretation[];
+  overlaps: PolyglotOverlap[];
+}
+
+type Finder = (context: FormatProbeContext, reader: FileRangeReader) => Promise<PolyglotInterpretation[]>;
+
+// Acrobat and most PDF readers accept the header anywhere in the first 1024 bytes.
+const PDF_HEADER_SEARCH_BYTES = 1024;
+const UNKNOWN_EXTENT = "Extent not known; claimed up to the end of the file.";
+
+// Signature hits whose extent can be read from the structure; other hits claim the rest of the file.
+const MAGIC_EXTENTS: ReadonlyArray<readonly [RegExp, (reader: FileRangeReader) => Promise<CarvedEnd | null>]> = [
+  [/^PNG image$/, reader => readPngEnd(reader, 0, reader.size)],
+  [/^GIF image$/, reader => readGifEnd(reader, 0, reader.size)],
+  [/^(WebP image|Windows animated cursor|WAVE audio|AVI\/DivX video)/, reader => readRiffEnd(reader, 0, reader.size)],
+  [/^SQLite 3\.x database$/, reader => readSqliteEnd(reader, 0, reader.size)],
+  [/^ISO-9660/, reader => readIso9660End(reader, 0)]
+];
+
+// Labels that the structural finders report themselves, with a better extent.
+const STRUCTURAL_MAGIC_LABELS = [/^ZIP archive/, /^PDF document$/];
+
+const interpretation = (
+  label: string,
+  evidence: string,
+  start: number,
+  extent: CarvedEnd | null,
+  fileSize: number
+): PolyglotInterpretation => ({
+  label,
+  evidence,
+  start,
+  end: extent?.end ?? fileSize,
+  extentKnown: extent != null,
+  extentDescription: extent?.description ?? UNKNOWN_EXTENT
+});
+
+const atOffset = (offset: number): string => `Signature at offset 0x${offset.toString(16)}`;
+
+const findExecutable: Finder = async (context, reader) => {
+  const { file, view } = context;
+  const elf = probeElf(view);
+  if (elf) return [interpretation(elf, atOffset(0), 0, await readElfEnd(reader, 0, reader.size), reader.size)];
+  const machO = probeMachO(view, file.size);
+  if (machO) return [interpretation(machO, atOffset(0), 0, null, reader.size)];
+  const mz = await probeMzFormat(file, view);
+  const label = mz && await buildMzLabel(context);
+  if (!mz || !label) return [];
+  if (mz.kind !== "pe") return [interpretation(label, atOffset(0), 0, await readDosImageEnd(reader, 0), reader.size)];
+  const image = await readPeImageEnd(reader, 0, reader.size);
+  const found = [interpretation(label, atOffset(0), 0, image, reader.size)];
+  // Self-extractors and installers keep their payload at the overlay start; ZIP is found from its end record.
+  if (image && image.end < reader.size) {
+    const overlay = { start: image.end, end: reader.size };
+    const payloadView = await reader.read(image.end, Math.min(64 * 1024, reader.size - image.end));
+    const payload = await detectEmbeddedPayloadAt(file, reader, overlay, payloadView, image.end);
+    if (payload && payload.detectedType !== EMBEDDED_ZIP_LABEL) {
+      found.push(interpretation(payload.detectedType, `Signature at the PE overlay start (0x${image.end.toString(16)})`,
+        image.end, { end: payload.end, description: payload.endDescription }, reader.size));
+    }
+  }
+  return found;
+};
+
+const findPdf: Finder = async (_context, reader) => {
+  const head = await reader.readBytes(0, Math.min(PDF_HEADER_SEARCH_BYTES, reader.size));
+  const start = String.fromCharCode(...head).indexOf("%PDF-");
+  if (start < 0) return [];
+  const label = refineMagicLabel(await reader.read(start, 32), "PDF document");
+  const evidence = start ? `PDF header at offset 0x${start.toString(16)}` : atOffset(0);
+  return [interpretation(label, evidence, start, await readPdfLastEnd(reader, start), reader.size)];
+};
+
+const findZip: Finder = async (_context, reader) => {
+  const claim = await readZipClaim(reader);
+  if (!claim) return [];
+  const label = refineZipLabel(claim.directory) || "ZIP archive";
+  return [interpretation(label, "End of central directory record in the last 64 KiB", claim.start,
+    { end: claim.end, description: "From the first local header to the end of central directory record." },
+    reader.size)];
+};
+
+const findMagic: Finder = async ({ view }, reader) => {
+  const labels = MAGIC_PROBES.map(probe => probe(view))
+    .filter((label): label is string => label != null && !STRUCTURAL_MAGIC_LABELS.some(pattern => pattern.test(label)));
+  return Promise.all(labels.map(async label => {
+    const readExtent = MAGIC_EXTENTS.find(([pattern]) => pattern.test(label))?.[1];
+    return interpretation(refineMagicLabel(view, label), atOffset(0), 0,
+      readExtent ? await readExtent(reader) : null, reader.size);
+  }));
+};
+
+const FINDERS: readonly Finder[] = [findExecutable, findMagic, findPdf, findZip];
+
+const findOverlaps = (interpretations: readonly PolyglotInterpretation[]): PolyglotOverlap[] => {
+  const overlaps: PolyglotOverlap[] = [];
+  interpretations.forEach((first, firstIndex) => {
+    interpretations.slice(firstIndex + 1).forEach((second, offset) => {
+      if (!first.extentKnown || !second.extentKnown) return;
+      const start = Math.max(first.start, second.start);
+      const end = Math.min(first.end, second.end);
+      if (start < end) overlaps.push({ first: firstIndex, second: firstIndex + 1 + offset, start, end });
+    });
+  });
+  return overlaps;
+};
+
+// Runs every signature and structural probe at the offsets where parsers look for them (the file
+// start, the PE overlay, the first KiB for PDF, the tail for ZIP) instead of stopping at the first
+// match as parseForUi does.
+export const analyzePolyglot = async (file: File): Promise<PolyglotAnalysis> => {
+  if (!file.size) return { interpretations: [], overlaps: [] };
+  const context = await createFormatProbeContext(file);
+  const reader = createFileRangeReader(file, 0, file.size);
+  const found = (await Promise.all(FINDERS.map(finder => finder(context, reader)))).flat();
+  const interpretations = found.sort((left, right) => left.start - right.start || right.end - left.end);
+  return { interpretations, overlaps: findOverlaps(interpretations) };
+};
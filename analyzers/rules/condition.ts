@@ -0,0 +1,167 @@
+"use strict";
+
+import {
+  acceptKeyword,
+  decodeRuleString,
+  describeToken,
+  expect,
+  expectPunct,
+  isKeyword,
+  isPunct,
+  ruleSyntaxError
+} from "./lexer.js";
+import type { RuleLexer, RuleToken } from "./lexer.js";
+import type { RuleComparison, RuleExpression, RuleFieldOperator, RuleIntegerReader } from "./types.js";
+
+const COMPARISONS: readonly string[] = ["==", "!=", "<", "<=", ">", ">="];
+const INTEGER_READERS: readonly string[] = ["uint8", "uint16", "uint32", "uint16be", "uint32be"];
+// YARA spells the file length `filesize`; everything else is addressed as `<analyzer>.<field>`.
+const FIELD_ALIASES: Readonly<Record<string, string>> = { filesize: "file.size" };
+
+interface ConditionParser {
+  lexer: RuleLexer;
+  patternIds: readonly string[];
+}
+
+const expectNumber = (lexer: RuleLexer): number => expect(lexer, token => token.type === "number", "a number").number;
+
+const expectComparison = (lexer: RuleLexer): RuleComparison =>
+  expect(lexer, token => token.type === "punct" && COMPARISONS.includes(token.value), "a comparison")
+    .value as RuleComparison;
+
+const knownPatternId = (parser: ConditionParser, token: RuleToken): string => {
+  if (!parser.patternIds.includes(token.value)) throw ruleSyntaxError(token.line, `undefined string $${token.value}`);
+  return token.value;
+};
+
+// `$a*` selects every string whose id starts with `a`.
+const resolvePatternSet = (parser: ConditionParser, token: RuleToken): string[] => {
+  if (!token.value.endsWith("*")) return [knownPatternId(parser, token)];
+  const prefix = token.value.slice(0, -1);
+  const ids = parser.patternIds.filter(id => id.startsWith(prefix));
+  if (!ids.length) throw ruleSyntaxError(token.line, `no strings match $${token.value}`);
+  return ids;
+};
+
+const parseOf = (parser: ConditionParser, quantity: "any" | "all" | "none" | number, line: number): RuleExpression => {
+  const { lexer } = parser;
+  expect(lexer, token => isKeyword(token, "of"), "\"of\"");
+  let ids: string[] = [...parser.patternIds];
+  if (!acceptKeyword(lexer, "them")) {
+    expectPunct(lexer, "(");
+    ids = [];
+    for (;;) {
+      ids.push(...resolvePatternSet(parser, expect(lexer, token => token.type === "variable", "a string")));
+      if (expect(lexer, token => isPunct(token, ",") || isPunct(token, ")"), "\",\" or \")\"").value === ")") break;
+    }
+  }
+  if (!ids.length) throw ruleSyntaxError(line, "rule has no strings to count");
+  if (typeof quantity === "number" && quantity > ids.length) {
+    throw ruleSyntaxError(line, `${quantity} of ${ids.length} strings can never match`);
+  }
+  return { kind: "of", quantity, ids: [...new Set(ids)] };
+};
+
+const parseStringCondition = (parser: ConditionParser, token: RuleToken): RuleExpression => {
+  const { lexer } = parser;
+  const id = knownPatternId(parser, token);
+  if (acceptKeyword(lexer, "at")) return { kind: "string", id, at: expectNumber(lexer) };
+  if (!acceptKeyword(lexer, "in")) return { kind: "string", id };
+  if (acceptKeyword(lexer, "section")) {
+    const name = expect(lexer, next => next.type === "string", "a section name");
+    return { kind: "string", id, section: decodeRuleString(name.value) };
+  }
+  expectPunct(lexer, "(");
+  const start = expectNumber(lexer);
+  expectPunct(lexer, "..");
+  const end = expectNumber(lexer);
+  expectPunct(lexer, ")");
+  return { kind: "string", id, range: { start, end } };
+};
+
+const parseFieldValue = (lexer: RuleLexer, operator: RuleFieldOperator): string | number | RegExp => {
+  if (operator === "matches") {
+    const token = expect(lexer, next => next.type === "regex", "a regular expression");
+    try {
+      return new RegExp(token.value, token.flags);
+    } catch (error) {
+      throw ruleSyntaxError(token.line, `invalid regular expression: ${(error as Error).message}`);
+    }
+  }
+  const allowsNumber = operator !== "contains";
+  const token = expect(lexer, next => next.type === "string" || (allowsNumber && next.type === "number"),
+    allowsNumber ? "a string or number" : "a string");
+  return token.type === "number" ? token.number : decodeRuleString(token.value);
+};
+
+const parseFieldCondition = (lexer: RuleLexer, token: RuleToken): RuleExpression => {
+  const field = FIELD_ALIASES[token.value] ?? token.value;
+  const next = lexer.peek();
+  let operator: RuleFieldOperator;
+  if (isKeyword(next, "contains") || isKeyword(next, "matches")) operator = next.value as RuleFieldOperator;
+  else if (next.type === "punct" && COMPARISONS.includes(next.value)) operator = next.value as RuleComparison;
+  else return { kind: "defined", field };
+  lexer.next();
+  return { kind: "field", field, operator, value: parseFieldValue(lexer, operator) };
+};
+
+const parseIntegerCondition = (lexer: RuleLexer, reader: RuleIntegerReader): RuleExpression => {
+  expectPunct(lexer, "(");
+  const offset = expectNumber(lexer);
+  expectPunct(lexer, ")");
+  const operator = expectComparison(lexer);
+  return { kind: "integer", reader, offset, operator, value: expectNumber(lexer) };
+};
+
+const parseIdentifierCondition = (parser: ConditionParser, token: RuleToken): RuleExpression => {
+  const { lexer } = parser;
+  if (token.value === "true" || token.value === "false") return { kind: "boolean", value: token.value === "true" };
+  if (token.value === "any" || token.value === "all" || token.value === "none") {
+    return parseOf(parser, token.value, token.line);
+  }
+  if (token.value === "defined") {
+    const field = expect(lexer, next => next.type === "identifier", "a field name").value;
+    return { kind: "defined", field: FIELD_ALIASES[field] ?? field };
+  }
+  if (INTEGER_READERS.includes(token.value) && isPunct(lexer.peek(), "(")) {
+    return parseIntegerCondition(lexer, token.value as RuleIntegerReader);
+  }
+  return parseFieldCondition(lexer, token);
+};
+
+const parsePrimary = (parser: ConditionParser): RuleExpression => {
+  const { lexer } = parser;
+  const token = lexer.next();
+  if (isPunct(token, "(")) {
+    const expression = parseOr(parser);
+    expectPunct(lexer, ")");
+    return expression;
+  }
+  if (token.type === "variable") return parseStringCondition(parser, token);
+  if (token.type === "count") {
+    const id = knownPatternId(parser, token);
+    return { kind: "count", id, operator: expectComparison(lexer), value: expectNumber(lexer) };
+  }
+  if (token.type === "number") return parseOf(parser, token.number, token.line);
+  if (token.type === "identifier") return parseIdentifierCondition(parser, token);
+  throw ruleSyntaxError(token.line, `unexpected ${describeToken(token)} in condition`);
+};
+
+const parseNot = (parser: ConditionParser): RuleExpression =>
+  acceptKeyword(parser.lexer, "not") ? { kind: "not", operand: parseNot(parser) } : parsePrimary(parser);
+
+const parseAnd = (parser: ConditionParser): RuleExpression => {
+  let expression = parseNot(parser);
+  while (acceptKeyword(parser.lexer, "and")) expression = { kind: "and", left: expression, right: parseNot(parser) };
+  return expression;
+};
+
+function parseOr(parser: ConditionParser): RuleExpression {
+  let expression = parseAnd(parser);
+  while (acceptKeyword(parser.lexer, "or")) expression = { kind: "or", left: expression, right: parseAnd(parser) };
+  return expression;
+}
+
+// Parses a condition up to (not including) the closing brace of its rule.
+export const parseRuleCondition = (lexer: RuleLexer, patternIds: readonly string[]): RuleExpression =>
+  parseOr({ lexer, patternIds });
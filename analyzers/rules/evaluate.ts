@@ -0,0 +1,118 @@
+"use strict";
+
+import type { RuleFacts } from "./fields.js";
+import type {
+  RuleComparison,
+  RuleExpression,
+  RuleFieldValue,
+  RuleIntegerReader,
+  RulePatternMatch
+} from "./types.js";
+
+export interface RuleContext {
+  // Matches of the rule's own strings, by id.
+  matches: ReadonlyMap<string, readonly RulePatternMatch[]>;
+  facts: RuleFacts;
+  // Values read for `uintN(offset)`, keyed by integerKey; missing when the offset is past the end.
+  integers: ReadonlyMap<string, number>;
+}
+
+export const integerKey = (reader: RuleIntegerReader, offset: number): string => `${reader}@${offset}`;
+
+const compare = <T extends number | bigint | string>(left: T, operator: RuleComparison, right: T): boolean => {
+  switch (operator) {
+    case "==": return left === right;
+    case "!=": return left !== right;
+    case "<": return left < right;
+    case "<=": return left <= right;
+    case ">": return left > right;
+    case ">=": return left >= right;
+  }
+};
+
+const compareNumber = (value: RuleFieldValue, operator: RuleComparison, expected: number): boolean => {
+  if (typeof value === "bigint") {
+    return Number.isInteger(expected)
+      ? compare(value, operator, BigInt(expected))
+      : compare(Number(value), operator, expected);
+  }
+  if (typeof value === "boolean") return compare(value ? 1 : 0, operator, expected);
+  return typeof value === "number" && compare(value, operator, expected);
+};
+
+// Numbers compare numerically (64-bit fields stay exact); strings compare case-insensitively
+// and only for equality.
+const valueEquals = (value: RuleFieldValue, expected: string | number): boolean => {
+  if (typeof expected === "string") return typeof value === "string" && value.toLowerCase() === expected.toLowerCase();
+  return compareNumber(value, "==", expected);
+};
+
+// A field may hold several values (every import, every section name): a test holds when any
+// value passes it, and `!=` holds when no value equals the operand.
+const evaluateField = (
+  values: readonly RuleFieldValue[],
+  expression: Extract<RuleExpression, { kind: "field" }>
+): boolean => {
+  const { operator, value: expected } = expression;
+  if (expected instanceof RegExp) return values.some(value => expected.test(String(value)));
+  if (operator === "contains") {
+    const needle = String(expected).toLowerCase();
+    return values.some(value => String(value).toLowerCase().includes(needle));
+  }
+  if (operator === "==") return values.some(value => valueEquals(value, expected));
+  if (operator === "!=") return values.length > 0 && !values.some(value => valueEquals(value, expected));
+  if (operator === "matches" || typeof expected === "string") return false;
+  return values.some(value => compareNumber(value, operator, expected));
+};
+
+const evaluateString = (
+  context: RuleContext,
+  expression: Extract<RuleExpression, { kind: "string" }>
+): boolean => {
+  const matches = context.matches.get(expression.id) ?? [];
+  const { at, range, section } = expression;
+  const sections = section === undefined ? [] : context.facts.sections.filter(candidate => candidate.name === section);
+  return matches.some(match => {
+    if (at !== undefined) return match.offset === at;
+    if (range) return range.start <= match.offset && match.offset <= range.end;
+    if (section !== undefined) {
+      return sections.some(candidate => candidate.start <= match.offset && match.offset < candidate.end);
+    }
+    return true;
+  });
+};
+
+const evaluateOf = (context: RuleContext, expression: Extract<RuleExpression, { kind: "of" }>): boolean => {
+  const matched = expression.ids.filter(id => (context.matches.get(id)?.length ?? 0) > 0).length;
+  if (expression.quantity === "any") return matched > 0;
+  if (expression.quantity === "all") return matched === expression.ids.length;
+  if (expression.quantity === "none") return matched === 0;
+  return matched >= expression.quantity;
+};
+
+export const evaluateRuleExpression = (context: RuleContext, expression: RuleExpression): boolean => {
+  switch (expression.kind) {
+    case "and":
+      return evaluateRuleExpression(context, expression.left) && evaluateRuleExpression(context, expression.right);
+    case "or":
+      return evaluateRuleExpression(context, expression.left) || evaluateRuleExpression(context, expression.right);
+    case "not":
+      return !evaluateRuleExpression(context, expression.operand);
+    case "boolean":
+      return expression.value;
+    case "string":
+      return evaluateString(context, expression);
+    case "count":
+      return compare(context.matches.get(expression.id)?.length ?? 0, expression.operator, expression.value);
+    case "of":
+      return evaluateOf(context, expression);
+    case "integer": {
+      const value = context.integers.get(integerKey(expression.reader, expression.offset));
+      return value !== undefined && compare(value, expression.operator, expression.value);
+    }
+    case "defined":
+      return context.facts.lookup(expression.field).length > 0;
+    case "field":
+      return evaluateField(context.facts.lookup(expression.field), expression);
+  }
+};
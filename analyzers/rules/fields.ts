@@ -0,0 +1,125 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzer-types.js";
+import type { ElfParseResult } from "../elf/types.js";
+import type { MachOImage, MachOParseResult } from "../macho/types.js";
+import { isPeWindowsParseResult, type PeParseResult } from "../pe/index.js";
+import { peSectionNameValue } from "../pe/sections/name.js";
+import type { RuleFieldValue, RuleSection } from "./types.js";
+
+const ELF_SHT_NOBITS = 8;
+// Bounds for the generic `<analyzer>.<path>` lookup over parse results.
+const MAX_FIELD_DEPTH = 8;
+const MAX_FIELD_VALUES = 10000;
+
+export interface RuleFacts {
+  // Values of a field, or an empty list when the file has no such field.
+  lookup(field: string): RuleFieldValue[];
+  sections: RuleSection[];
+}
+
+type FieldTable = Map<string, RuleFieldValue[]>;
+
+const addSection = (sections: RuleSection[], name: string, start: number, size: number): void => {
+  if (!Number.isSafeInteger(start) || !Number.isSafeInteger(size) || size <= 0) return;
+  sections.push({ name, start, end: start + size });
+};
+
+// DLL names are case-insensitive to the Windows loader, so both forms are lowercased:
+// `pe.imports contains "kernel32.dll"` and `pe.imports == "kernel32.dll!virtualalloc"` both work.
+const describePe = (pe: PeParseResult, fields: FieldTable, sections: RuleSection[]): void => {
+  fields.set("pe.machine", [pe.coff.Machine]);
+  fields.set("pe.timestamp", [pe.coff.TimeDateStamp]);
+  if (pe.opt) fields.set("pe.entry_point", [pe.opt.AddressOfEntryPoint]);
+  const names = pe.sections.map(section => peSectionNameValue(section.name));
+  fields.set("pe.sections", names);
+  pe.sections.forEach((section, index) =>
+    addSection(sections, names[index] ?? "", section.pointerToRawData, section.sizeOfRawData));
+  if (!isPeWindowsParseResult(pe)) return;
+  fields.set("pe.imports", pe.imports.entries.flatMap(entry => {
+    const dll = entry.dll.toLowerCase();
+    return [dll, ...entry.functions.map(fn => `${dll}!${(fn.name ?? `#${fn.ordinal ?? "?"}`).toLowerCase()}`)];
+  }));
+  fields.set("pe.exports", (pe.exports?.entries ?? []).map(entry => entry.name ?? `#${entry.ordinal}`));
+  fields.set("pe.packers", (pe.packers?.reports ?? []).filter(report => report.findings.length).map(report => report.id));
+};
+
+const describeElf = (elf: ElfParseResult, fields: FieldTable, sections: RuleSection[]): void => {
+  fields.set("elf.type", [elf.header.type]);
+  fields.set("elf.machine", [elf.header.machine]);
+  fields.set("elf.entry_point", [elf.header.entry]);
+  fields.set("elf.sections", elf.sections.map(section => section.name ?? ""));
+  fields.set("elf.dynamic.needed", elf.dynamic?.needed ?? []);
+  if (elf.dynamic?.soname) fields.set("elf.soname", [elf.dynamic.soname]);
+  if (elf.interpreter) fields.set("elf.interpreter", [elf.interpreter.path]);
+  fields.set("elf.imports", (elf.dynSymbols?.importSymbols ?? []).map(symbol => symbol.name));
+  fields.set("elf.exports", (elf.dynSymbols?.exportSymbols ?? []).map(symbol => symbol.name));
+  elf.sections
+    .filter(section => section.type !== ELF_SHT_NOBITS && section.name)
+    .forEach(section => addSection(sections, section.name ?? "", Number(section.offset), Number(section.size)));
+};
+
+// Section offsets inside a fat slice are relative to the slice.
+const describeMachOImage = (image: MachOImage, base: number, fields: FieldTable, sections: RuleSection[]): void => {
+  const append = (field: string, values: RuleFieldValue[]): void => {
+    fields.set(field, [...fields.get(field) ?? [], ...values]);
+  };
+  append("macho.dylibs", image.dylibs.map(dylib => dylib.name));
+  append("macho.segments", image.segments.map(segment => segment.name));
+  append("macho.rpaths", image.rpaths.map(rpath => rpath.path));
+  if (image.uuid) append("macho.uuid", [image.uuid]);
+  image.segments.forEach(segment => segment.sections.forEach(section =>
+    addSection(sections, section.sectionName, base + section.offset, Number(section.size))));
+};
+
+// Fat files answer for every slice, so `macho.dylibs contains "x"` holds if any architecture links it.
+const describeMachO = (macho: MachOParseResult, fields: FieldTable, sections: RuleSection[]): void => {
+  if (macho.image) describeMachOImage(macho.image, 0, fields, sections);
+  macho.slices.forEach(slice => {
+    if (slice.image) describeMachOImage(slice.image, slice.offset, fields, sections);
+  });
+};
+
+const isLeaf = (value: unknown): value is RuleFieldValue =>
+  typeof value === "string" || typeof value === "number" || typeof value === "bigint" || typeof value === "boolean";
+
+// Walks `path` through objects and arrays (each element in turn), collecting primitive values.
+// Typed arrays hold raw bytes rather than fields and are not entered.
+const collectPathValues = (value: unknown, path: readonly string[], depth: number, out: RuleFieldValue[]): void => {
+  if (out.length >= MAX_FIELD_VALUES || depth > MAX_FIELD_DEPTH || value == null) return;
+  if (Array.isArray(value)) {
+    value.forEach(item => collectPathValues(item, path, depth + 1, out));
+    return;
+  }
+  const [head, ...rest] = path;
+  if (head === undefined) {
+    if (isLeaf(value)) out.push(value);
+    return;
+  }
+  if (typeof value !== "object" || ArrayBuffer.isView(value) || value instanceof Map) return;
+  collectPathValues((value as Record<string, unknown>)[head], rest, depth + 1, out);
+};
+
+// Curated fields give stable names for the common cases; any other `<analyzer>.<path>` is
+// looked up in the parse result as shown in the page, e.g. `elf.header.flags` or `zip.entries.fileName`.
+export const collectRuleFacts = (result: ParseForUiResult, file: { name: string; size: number }): RuleFacts => {
+  const fields: FieldTable = new Map([
+    ["file.size", [file.size]],
+    ["file.name", [file.name]]
+  ]);
+  const sections: RuleSection[] = [];
+  if (result.analyzer) fields.set("file.analyzer", [result.analyzer]);
+  if (result.analyzer === "pe" && result.parsed) describePe(result.parsed, fields, sections);
+  if (result.analyzer === "elf" && result.parsed) describeElf(result.parsed, fields, sections);
+  if (result.analyzer === "macho" && result.parsed) describeMachO(result.parsed, fields, sections);
+  const lookup = (field: string): RuleFieldValue[] => {
+    const known = fields.get(field);
+    if (known) return known;
+    const [prefix, ...path] = field.split(".");
+    if (!result.analyzer || prefix !== result.analyzer || !path.length) return [];
+    const values: RuleFieldValue[] = [];
+    collectPathValues(result.parsed, path, 0, values);
+    return values;
+  };
+  return { lookup, sections };
+};
@@ -0,0 +1,96 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzer-types.js";
+import { createFileRangeReader, type FileRangeReader } from "../file-range-reader.js";
+import { evaluateRuleExpression, integerKey } from "./evaluate.js";
+import { collectRuleFacts } from "./fields.js";
+import { scanRulePatterns } from "./scan.js";
+import type {
+  DetectionRule,
+  RuleEvaluation,
+  RuleExpression,
+  RuleIntegerReader,
+  RuleMatch,
+  RulePatternMatch,
+  RuleSet
+} from "./types.js";
+
+const INTEGER_SIZES: Readonly<Record<RuleIntegerReader, number>> = {
+  uint8: 1,
+  uint16: 2,
+  uint32: 4,
+  uint16be: 2,
+  uint32be: 4
+};
+
+const readInteger = (view: DataView, reader: RuleIntegerReader): number => {
+  const littleEndian = !reader.endsWith("be");
+  if (reader === "uint8") return view.getUint8(0);
+  return INTEGER_SIZES[reader] === 2 ? view.getUint16(0, littleEndian) : view.getUint32(0, littleEndian);
+};
+
+const collectIntegerReads = (
+  expression: RuleExpression,
+  reads: Map<string, { reader: RuleIntegerReader; offset: number }>
+): void => {
+  if (expression.kind === "and" || expression.kind === "or") {
+    collectIntegerReads(expression.left, reads);
+    collectIntegerReads(expression.right, reads);
+  } else if (expression.kind === "not") {
+    collectIntegerReads(expression.operand, reads);
+  } else if (expression.kind === "integer") {
+    reads.set(integerKey(expression.reader, expression.offset), expression);
+  }
+};
+
+// Conditions are evaluated synchronously, so every `uintN(offset)` they mention is read up front.
+const readRuleIntegers = async (
+  reader: FileRangeReader,
+  rules: readonly DetectionRule[]
+): Promise<Map<string, number>> => {
+  const reads = new Map<string, { reader: RuleIntegerReader; offset: number }>();
+  rules.forEach(rule => collectIntegerReads(rule.condition, reads));
+  const values = new Map<string, number>();
+  for (const [key, read] of reads) {
+    const size = INTEGER_SIZES[read.reader];
+    const view = await reader.read(read.offset, size);
+    if (view.byteLength < size) continue;
+    values.set(key, readInteger(view, read.reader));
+  }
+  return values;
+};
+
+// Scans the file once for the strings of every rule, then evaluates each condition against the
+// matches, the parse result and the integers it reads. Returns null when superseded.
+export const evaluateRules = async (
+  ruleSet: RuleSet,
+  file: File,
+  parseResult: ParseForUiResult,
+  isCurrent: () => boolean = () => true
+): Promise<RuleEvaluation | null> => {
+  const reader = createFileRangeReader(file, 0, file.size);
+  const scan = await scanRulePatterns(reader, ruleSet.rules.flatMap(rule => rule.patterns), isCurrent);
+  if (!scan) return null;
+  const integers = await readRuleIntegers(reader, ruleSet.rules);
+  if (!isCurrent()) return null;
+  const facts = collectRuleFacts(parseResult, file);
+  const matches: RuleMatch[] = [];
+  for (const rule of ruleSet.rules) {
+    const ruleMatches = new Map<string, RulePatternMatch[]>(
+      rule.patterns.map(pattern => [pattern.id, scan.matches.get(pattern) ?? []])
+    );
+    if (!evaluateRuleExpression({ matches: ruleMatches, facts, integers }, rule.condition)) continue;
+    matches.push({
+      rule,
+      matches: [...ruleMatches.values()].flat().sort((left, right) => left.offset - right.offset)
+    });
+  }
+  return {
+    matches,
+    ruleCount: ruleSet.rules.length,
+    scannedBytes: scan.scannedBytes,
+    truncatedPatterns: ruleSet.rules.flatMap(rule =>
+      rule.patterns.filter(pattern => scan.truncated.has(pattern)).map(pattern => `${rule.name}: $${pattern.id}`)),
+    issues: [...ruleSet.issues]
+  };
+};
@@ -0,0 +1,177 @@
+"use strict";
+
+export type RuleTokenType = "identifier" | "variable" | "count" | "string" | "regex" | "number" | "punct" | "eof";
+
+export interface RuleToken {
+  type: RuleTokenType;
+  // Identifier/keyword text, variable name without `$`/`#`, regex source or punctuation. Strings hold
+  // one character per byte, as YARA compares them: literal text is UTF-8 encoded, `\xNN` is a raw byte.
+  value: string;
+  number: number;
+  flags: string;
+  line: number;
+}
+
+export interface RuleLexer {
+  peek(): RuleToken;
+  next(): RuleToken;
+  // Returns the raw text of a hex string after its opening `{` has been consumed.
+  readHexBody(): string;
+}
+
+const PUNCTUATION = ["==", "!=", "<=", ">=", "..", "(", ")", ",", ":", "=", "<", ">", "{", "}", "*"];
+const SIZE_SUFFIXES: Readonly<Record<string, number>> = { KB: 1024, MB: 1024 * 1024 };
+const ESCAPES: Readonly<Record<string, string>> = { n: "\n", r: "\r", t: "\t", "\\": "\\", "\"": "\"" };
+
+const utf8Encoder = new TextEncoder();
+
+export const ruleSyntaxError = (line: number, message: string): Error => new Error(`Line ${line}: ${message}`);
+
+// Turns a string token back into text for comparisons with parsed (already decoded) field values.
+export const decodeRuleString = (bytes: string): string =>
+  new TextDecoder().decode(Uint8Array.from(bytes, char => char.charCodeAt(0)));
+
+interface LexerCursor {
+  readonly text: string;
+  position: number;
+  line: number;
+}
+
+const createToken = (type: RuleTokenType, value: string, line: number, extra: Partial<RuleToken> = {}): RuleToken =>
+  ({ type, value, number: 0, flags: "", line, ...extra });
+
+const advance = (cursor: LexerCursor, count: number): string => {
+  const consumed = cursor.text.slice(cursor.position, cursor.position + count);
+  cursor.line += consumed.split("\n").length - 1;
+  cursor.position += count;
+  return consumed;
+};
+
+const skipSpaceAndComments = (cursor: LexerCursor): void => {
+  const { text } = cursor;
+  for (;;) {
+    const space = /^\s+/.exec(text.slice(cursor.position, cursor.position + 4096));
+    if (space) advance(cursor, space[0].length);
+    else if (text.startsWith("//", cursor.position)) {
+      const end = text.indexOf("\n", cursor.position);
+      advance(cursor, (end < 0 ? text.length : end) - cursor.position);
+    } else if (text.startsWith("/*", cursor.position)) {
+      const end = text.indexOf("*/", cursor.position + 2);
+      const startLine = cursor.line;
+      advance(cursor, (end < 0 ? text.length : end + 2) - cursor.position);
+      if (end < 0) throw ruleSyntaxError(startLine, "unterminated comment");
+    } else return;
+  }
+};
+
+const readString = (cursor: LexerCursor): RuleToken => {
+  const startLine = cursor.line;
+  let value = "";
+  advance(cursor, 1);
+  for (;;) {
+    const codePoint = cursor.text.codePointAt(cursor.position);
+    if (codePoint === undefined || codePoint === 0x0a) throw ruleSyntaxError(startLine, "unterminated string");
+    const char = advance(cursor, String.fromCodePoint(codePoint).length);
+    if (char === "\"") return createToken("string", value, startLine);
+    if (char !== "\\") {
+      value += codePoint < 0x80 ? char : String.fromCharCode(...utf8Encoder.encode(char));
+      continue;
+    }
+    const escape = advance(cursor, 1);
+    if (escape === "x" && /^[0-9a-fA-F]{2}$/.test(cursor.text.slice(cursor.position, cursor.position + 2))) {
+      value += String.fromCharCode(parseInt(advance(cursor, 2), 16));
+    } else if (ESCAPES[escape] !== undefined) value += ESCAPES[escape];
+    else throw ruleSyntaxError(cursor.line, `unknown escape \\${escape} in string`);
+  }
+};
+
+const readRegex = (cursor: LexerCursor): RuleToken => {
+  const startLine = cursor.line;
+  let source = "";
+  let inClass = false;
+  advance(cursor, 1);
+  for (;;) {
+    const char = cursor.text[cursor.position];
+    if (char === undefined || char === "\n") throw ruleSyntaxError(startLine, "unterminated regular expression");
+    advance(cursor, 1);
+    if (char === "\\") source += char + advance(cursor, 1);
+    else if (char === "/" && !inClass) break;
+    else {
+      if (char === "[") inClass = true;
+      else if (char === "]") inClass = false;
+      source += char;
+    }
+  }
+  const flags = /^[a-z]*/.exec(cursor.text.slice(cursor.position))?.[0] ?? "";
+  advance(cursor, flags.length);
+  if (/[^is]/.test(flags)) throw ruleSyntaxError(startLine, `unsupported regular expression flags "${flags}"`);
+  return createToken("regex", source, startLine, { flags });
+};
+
+const readToken = (cursor: LexerCursor): RuleToken => {
+  skipSpaceAndComments(cursor);
+  const rest = cursor.text.slice(cursor.position, cursor.position + 256);
+  if (!rest) return createToken("eof", "", cursor.line);
+  if (rest[0] === "\"") return readString(cursor);
+  if (rest[0] === "/") return readRegex(cursor);
+  const variable = /^([$#])([A-Za-z0-9_]*\*?)/.exec(rest);
+  if (variable) {
+    advance(cursor, variable[0].length);
+    return createToken(variable[1] === "$" ? "variable" : "count", variable[2] ?? "", cursor.line);
+  }
+  const number = /^(0x[0-9a-fA-F]+|\d+)(KB|MB)?\b/.exec(rest);
+  if (number) {
+    advance(cursor, number[0].length);
+    const value = Number(number[1]) * (SIZE_SUFFIXES[number[2] ?? ""] ?? 1);
+    return createToken("number", number[0], cursor.line, { number: value });
+  }
+  const identifier = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(rest);
+  if (identifier) return createToken("identifier", advance(cursor, identifier[0].length), cursor.line);
+  const punct = PUNCTUATION.find(candidate => rest.startsWith(candidate));
+  if (punct) return createToken("punct", advance(cursor, punct.length), cursor.line);
+  advance(cursor, 1);
+  throw ruleSyntaxError(cursor.line, `unexpected character "${rest[0]}"`);
+};
+
+// Every error consumes input, so a parser that skips ahead after an error always makes progress.
+export const createRuleLexer = (text: string): RuleLexer => {
+  const cursor: LexerCursor = { text, position: 0, line: 1 };
+  let lookahead: RuleToken | null = null;
+  return {
+    peek: () => (lookahead ??= readToken(cursor)),
+    next: () => {
+      const current = lookahead ?? readToken(cursor);
+      lookahead = null;
+      return current;
+    },
+    readHexBody: () => {
+      if (lookahead) throw ruleSyntaxError(cursor.line, "hex string must follow its opening brace");
+      const end = text.indexOf("}", cursor.position);
+      const startLine = cursor.line;
+      const body = advance(cursor, (end < 0 ? text.length : end) - cursor.position);
+      if (end < 0) throw ruleSyntaxError(startLine, "unterminated hex string");
+      advance(cursor, 1);
+      return body;
+    }
+  };
+};
+
+export const isKeyword = (token: RuleToken, keyword: string): boolean => token.type === "identifier" && token.value === keyword;
+export const isPunct = (token: RuleToken, value: string): boolean => token.type === "punct" && token.value === value;
+
+export const describeToken = (token: RuleToken): string => (token.type === "eof" ? "end of file" : `"${token.value}"`);
+
+export const expect = (lexer: RuleLexer, matches: (token: RuleToken) => boolean, what: string): RuleToken => {
+  const token = lexer.next();
+  if (!matches(token)) throw ruleSyntaxError(token.line, `expected ${what} but found ${describeToken(token)}`);
+  return token;
+};
+
+export const expectPunct = (lexer: RuleLexer, value: string): RuleToken =>
+  expect(lexer, token => isPunct(token, value), `"${value}"`);
+
+export const acceptKeyword = (lexer: RuleLexer, keyword: string): boolean => {
+  if (!isKeyword(lexer.peek(), keyword)) return false;
+  lexer.next();
+  return true;
+};
@@ -0,0 +1,155 @@
+"use strict";
+
+import { parseRuleCondition } from "./condition.js";
+import {
+  acceptKeyword,
+  createRuleLexer,
+  decodeRuleString,
+  describeToken,
+  expect,
+  expectPunct,
+  isKeyword,
+  isPunct,
+  ruleSyntaxError
+} from "./lexer.js";
+import type { RuleLexer, RuleToken } from "./lexer.js";
+import {
+  TEXT_PATTERN_MODIFIERS,
+  compileHexPattern,
+  compileRegexPattern,
+  compileTextPattern,
+  type TextPatternModifier
+} from "./patterns.js";
+import type { DetectionRule, RuleExpression, RulePattern, RuleSet } from "./types.js";
+import { describeError } from "../../error-utils.js";
+
+const SECTION_KEYWORDS: readonly string[] = ["meta", "strings", "condition"];
+// Accepted for compatibility with YARA rule files; they do not change how a rule is evaluated here.
+const IGNORED_RULE_MODIFIERS: readonly string[] = ["private", "global"];
+
+const isSectionStart = (token: RuleToken): boolean =>
+  token.type === "identifier" && SECTION_KEYWORDS.includes(token.value);
+
+const isRuleModifier = (token: RuleToken): boolean =>
+  token.type === "identifier" && IGNORED_RULE_MODIFIERS.includes(token.value);
+
+const isTextModifier = (value: string): value is TextPatternModifier =>
+  (TEXT_PATTERN_MODIFIERS as readonly string[]).includes(value);
+
+const parseMeta = (lexer: RuleLexer): Array<[string, string]> => {
+  const meta: Array<[string, string]> = [];
+  while (lexer.peek().type === "identifier" && !isSectionStart(lexer.peek())) {
+    const key = lexer.next().value;
+    expectPunct(lexer, "=");
+    const value = expect(lexer, token => token.type === "string" || token.type === "number" ||
+      isKeyword(token, "true") || isKeyword(token, "false"), "a string, number or boolean");
+    meta.push([key, value.type === "string" ? decodeRuleString(value.value) : value.value]);
+  }
+  return meta;
+};
+
+const readTextModifiers = (lexer: RuleLexer): Set<TextPatternModifier> => {
+  const modifiers = new Set<TextPatternModifier>();
+  while (lexer.peek().type === "identifier" && !isSectionStart(lexer.peek())) {
+    const token = lexer.next();
+    if (!isTextModifier(token.value)) throw ruleSyntaxError(token.line, `unsupported string modifier "${token.value}"`);
+    modifiers.add(token.value);
+  }
+  return modifiers;
+};
+
+const parsePattern = (lexer: RuleLexer, id: string): RulePattern => {
+  const token = lexer.next();
+  if (token.type === "string") return compileTextPattern(id, token.value, readTextModifiers(lexer), token.line);
+  if (token.type === "regex") return compileRegexPattern(id, token.value, token.flags, token.line);
+  if (isPunct(token, "{")) return compileHexPattern(id, lexer.readHexBody(), token.line);
+  throw ruleSyntaxError(token.line, `expected a string, hex string or regular expression for $${id}`);
+};
+
+const parseStrings = (lexer: RuleLexer): RulePattern[] => {
+  const patterns: RulePattern[] = [];
+  while (lexer.peek().type === "variable") {
+    const token = lexer.next();
+    if (!/^[A-Za-z0-9_]+$/.test(token.value)) throw ruleSyntaxError(token.line, "strings need a name such as $a");
+    if (patterns.some(pattern => pattern.id === token.value)) {
+      throw ruleSyntaxError(token.line, `duplicate string $${token.value}`);
+    }
+    expectPunct(lexer, "=");
+    patterns.push(parsePattern(lexer, token.value));
+  }
+  return patterns;
+};
+
+const parseTags = (lexer: RuleLexer): string[] => {
+  const tags: string[] = [];
+  if (!isPunct(lexer.peek(), ":")) return tags;
+  lexer.next();
+  while (lexer.peek().type === "identifier") tags.push(lexer.next().value);
+  return tags;
+};
+
+const parseRule = (lexer: RuleLexer): DetectionRule => {
+  while (isRuleModifier(lexer.peek())) lexer.next();
+  const ruleToken = expect(lexer, token => isKeyword(token, "rule"), "\"rule\"");
+  const name = expect(lexer, token => token.type === "identifier" && !token.value.includes("."), "a rule name").value;
+  const tags = parseTags(lexer);
+  expectPunct(lexer, "{");
+  let meta: Array<[string, string]> = [];
+  let patterns: RulePattern[] = [];
+  let condition: RuleExpression | null = null;
+  // Peeking first leaves a following `rule` keyword in place when the closing brace is missing.
+  for (let token = lexer.peek(); !isPunct(token, "}"); token = lexer.peek()) {
+    if (!isSectionStart(token) || (condition && token.value !== "condition")) {
+      throw ruleSyntaxError(token.line, `expected "meta:", "strings:", "condition:" or "}" but found ${describeToken(token)}`);
+    }
+    lexer.next();
+    expectPunct(lexer, ":");
+    if (token.value === "meta") meta = parseMeta(lexer);
+    else if (token.value === "strings") patterns = parseStrings(lexer);
+    else condition = parseRuleCondition(lexer, patterns.map(pattern => pattern.id));
+  }
+  lexer.next();
+  if (!condition) throw ruleSyntaxError(ruleToken.line, `rule ${name} has no condition`);
+  return { name, tags, meta, patterns, condition, line: ruleToken.line };
+};
+
+// Skips to the next `rule` (or rule modifier) after a syntax error; false at the end of the text.
+const skipToNextRule = (lexer: RuleLexer): boolean => {
+  for (;;) {
+    try {
+      const token = lexer.peek();
+      if (token.type === "eof") return false;
+      if (isKeyword(token, "rule") || isRuleModifier(token)) return true;
+      lexer.next();
+    } catch {
+      // The lexer consumed the offending text; keep skipping.
+    }
+  }
+};
+
+// Parses a YARA-style rule file. Broken rules are reported in `issues` and skipped; the others load.
+export const parseRuleSource = (text: string): RuleSet => {
+  const lexer = createRuleLexer(text);
+  const rules: DetectionRule[] = [];
+  const issues: string[] = [];
+  for (;;) {
+    try {
+      const token = lexer.peek();
+      if (token.type === "eof") break;
+      if (acceptKeyword(lexer, "import")) {
+        expect(lexer, next => next.type === "string", "a module name");
+        continue;
+      }
+      const rule = parseRule(lexer);
+      if (rules.some(existing => existing.name === rule.name)) {
+        issues.push(`Line ${rule.line}: duplicate rule name "${rule.name}"`);
+      } else {
+        rules.push(rule);
+      }
+    } catch (error) {
+      issues.push(describeError(error));
+      if (!skipToNextRule(lexer)) break;
+    }
+  }
+  return { rules, issues };
+};
@@ -0,0 +1,105 @@
+"use strict";
+
+import { ruleSyntaxError } from "./lexer.js";
+import type { RulePattern } from "./types.js";
+
+export const TEXT_PATTERN_MODIFIERS = ["ascii", "wide", "nocase", "fullword"] as const;
+export type TextPatternModifier = typeof TEXT_PATTERN_MODIFIERS[number];
+
+const ANY_BYTE = "[\\s\\S]";
+// Hex tokens: jumps, grouping, byte pairs (with ? nibble wildcards), then anything else as an error.
+const HEX_TOKEN_PATTERN = /\[[^\]]*\]|[()|]|[0-9A-Fa-f?]{2}|\S/g;
+const JUMP_PATTERN = /^\[\s*(\d*)\s*(?:(-)\s*(\d*))?\s*\]$/;
+
+const byteSource = (value: number): string => `\\x${value.toString(16).padStart(2, "0")}`;
+
+const hexByteSource = (pair: string): string => {
+  const high = pair[0] ?? "?";
+  const low = pair[1] ?? "?";
+  if (high === "?" && low === "?") return ANY_BYTE;
+  if (low === "?") {
+    const base = parseInt(high, 16) << 4;
+    return `[${byteSource(base)}-${byteSource(base | 0x0f)}]`;
+  }
+  if (high === "?") {
+    const lowValue = parseInt(low, 16);
+    return `[${Array.from({ length: 16 }, (_, index) => byteSource((index << 4) | lowValue)).join("")}]`;
+  }
+  return byteSource(parseInt(pair, 16));
+};
+
+// [n] skips exactly n bytes, [n-m] between n and m, [n-] at least n and [-] any number.
+const jumpSource = (jump: string, line: number): string => {
+  const parts = JUMP_PATTERN.exec(jump);
+  if (!parts || (!parts[1] && !parts[2])) throw ruleSyntaxError(line, `invalid jump ${jump} in hex string`);
+  const min = Number(parts[1] || 0);
+  const max = parts[2] ? parts[3] : parts[1];
+  if (max && Number(max) < min) throw ruleSyntaxError(line, `jump ${jump} has its bounds reversed`);
+  return `${ANY_BYTE}{${min},${max ?? ""}}`;
+};
+
+const compileHexSource = (body: string, line: number): string => {
+  let source = "";
+  let depth = 0;
+  let byteCount = 0;
+  for (const part of body.match(HEX_TOKEN_PATTERN) ?? []) {
+    if (part === "(") {
+      depth += 1;
+      source += "(?:";
+    } else if (part === ")" || part === "|") {
+      if (depth === 0) throw ruleSyntaxError(line, `unexpected "${part}" in hex string`);
+      if (part === ")") depth -= 1;
+      source += part;
+    } else if (part.startsWith("[")) {
+      source += jumpSource(part, line);
+    } else if (/^[0-9A-Fa-f?]{2}$/.test(part)) {
+      byteCount += 1;
+      source += hexByteSource(part);
+    } else {
+      throw ruleSyntaxError(line, `unexpected "${part}" in hex string`);
+    }
+  }
+  if (depth !== 0) throw ruleSyntaxError(line, "unbalanced parentheses in hex string");
+  if (byteCount === 0) throw ruleSyntaxError(line, "hex string has no bytes");
+  return source;
+};
+
+export const compileHexPattern = (id: string, body: string, line: number): RulePattern => ({
+  id,
+  kind: "hex",
+  source: `{ ${body.trim().replace(/\s+/g, " ")} }`,
+  regex: new RegExp(compileHexSource(body, line), "g")
+});
+
+// `bytes` holds one character per byte. Without modifiers a string is matched as ASCII;
+// `wide` interleaves zero bytes like YARA (UTF-16LE for ASCII text).
+export const compileTextPattern = (
+  id: string,
+  bytes: string,
+  modifiers: ReadonlySet<TextPatternModifier>,
+  line: number
+): RulePattern => {
+  if (!bytes) throw ruleSyntaxError(line, `string $${id} is empty`);
+  const codes = Array.from(bytes, char => char.charCodeAt(0));
+  const forms = [
+    modifiers.has("ascii") || !modifiers.has("wide") ? codes.map(byteSource).join("") : null,
+    modifiers.has("wide") ? codes.map(code => `${byteSource(code)}\\x00`).join("") : null
+  ].filter((form): form is string => form != null);
+  const alternatives = forms.length > 1 ? `(?:${forms.join("|")})` : forms.join("");
+  const source = modifiers.has("fullword") ? `(?<![A-Za-z0-9])${alternatives}(?![A-Za-z0-9])` : alternatives;
+  const printable = bytes.replace(/[^\x20-\x7e]/g, char => byteSource(char.charCodeAt(0)));
+  return {
+    id,
+    kind: "text",
+    source: [`"${printable}"`, ...modifiers].join(" "),
+    regex: new RegExp(source, modifiers.has("nocase") ? "gi" : "g")
+  };
+};
+
+export const compileRegexPattern = (id: string, source: string, flags: string, line: number): RulePattern => {
+  try {
+    return { id, kind: "regex", source: `/${source}/${flags}`, regex: new RegExp(source, `g${flags}`) };
+  } catch (error) {
+    throw ruleSyntaxError(line, `invalid regular expression for $${id}: ${(error as Error).message}`);
+  }
+};
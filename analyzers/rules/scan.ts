@@ -0,0 +1,75 @@
+"use strict";
+
+import { decodeLatin1 } from "../../binary-utils.js";
+import type { FileRangeReader } from "../file-range-reader.js";
+import type { RulePattern, RulePatternMatch } from "./types.js";
+
+export const RULE_SCAN_CHUNK_BYTES = 4 * 1024 * 1024;
+// Each chunk is read with this much of the next one, so matches up to this length are found even
+// when they cross a chunk boundary; longer matches that cross one are missed.
+export const RULE_SCAN_OVERLAP_BYTES = 64 * 1024;
+// Offsets recorded per pattern; `#a` counts and `all of` still work, they just saturate here.
+export const RULE_MATCH_LIMIT = 1000;
+const PREVIEW_BYTES = 32;
+
+export interface RuleScanResult {
+  matches: Map<RulePattern, RulePatternMatch[]>;
+  truncated: Set<RulePattern>;
+  scannedBytes: number;
+}
+
+const previewMatch = (text: string): string => {
+  const printable = text.slice(0, PREVIEW_BYTES).replace(/[^\x20-\x7e]/g, ".");
+  return text.length > PREVIEW_BYTES ? `${printable}…` : printable;
+};
+
+// Matches may overlap, as in YARA: the search resumes one byte after each match start.
+const collectChunkMatches = (
+  pattern: RulePattern,
+  text: string,
+  chunkStart: number,
+  startLimit: number,
+  result: RuleScanResult
+): void => {
+  const found = result.matches.get(pattern) ?? [];
+  result.matches.set(pattern, found);
+  const { regex } = pattern;
+  regex.lastIndex = 0;
+  for (let match = regex.exec(text); match && match.index < startLimit; match = regex.exec(text)) {
+    if (found.length >= RULE_MATCH_LIMIT) {
+      result.truncated.add(pattern);
+      return;
+    }
+    found.push({
+      id: pattern.id,
+      offset: chunkStart + match.index,
+      length: match[0].length,
+      preview: previewMatch(match[0])
+    });
+    regex.lastIndex = match.index + 1;
+  }
+};
+
+// Returns null when `isCurrent` reports that the scan was superseded.
+export const scanRulePatterns = async (
+  reader: FileRangeReader,
+  patterns: readonly RulePattern[],
+  isCurrent: () => boolean = () => true
+): Promise<RuleScanResult | null> => {
+  const result: RuleScanResult = {
+    matches: new Map(patterns.map(pattern => [pattern, []])),
+    truncated: new Set(),
+    scannedBytes: 0
+  };
+  if (!patterns.length) return result;
+  for (let chunkStart = 0; chunkStart < reader.size; chunkStart += RULE_SCAN_CHUNK_BYTES) {
+    const bytes = await reader.readBytes(chunkStart, RULE_SCAN_CHUNK_BYTES + RULE_SCAN_OVERLAP_BYTES);
+    if (!isCurrent()) return null;
+    const text = decodeLatin1(bytes);
+    const isLastChunk = chunkStart + RULE_SCAN_CHUNK_BYTES >= reader.size;
+    const startLimit = isLastChunk ? text.length : RULE_SCAN_CHUNK_BYTES;
+    patterns.forEach(pattern => collectChunkMatches(pattern, text, chunkStart, startLimit, result));
+    result.scannedBytes = Math.min(reader.size, chunkStart + RULE_SCAN_CHUNK_BYTES);
+  }
+  return result;
+};
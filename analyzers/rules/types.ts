@@ -0,0 +1,72 @@
+"use strict";
+
+// Every string kind is compiled to a RegExp over the file bytes decoded one byte per character
+// (latin1), so hex jumps/alternatives, UTF-16 text and user regexes share one scanner.
+export interface RulePattern {
+  id: string;
+  kind: "hex" | "text" | "regex";
+  // The pattern as written in the rule, shown next to matches.
+  source: string;
+  regex: RegExp;
+}
+
+export type RuleComparison = "==" | "!=" | "<" | "<=" | ">" | ">=";
+export type RuleFieldOperator = RuleComparison | "contains" | "matches";
+export type RuleIntegerReader = "uint8" | "uint16" | "uint32" | "uint16be" | "uint32be";
+
+export type RuleExpression =
+  | { kind: "and" | "or"; left: RuleExpression; right: RuleExpression }
+  | { kind: "not"; operand: RuleExpression }
+  | { kind: "boolean"; value: boolean }
+  | { kind: "string"; id: string; at?: number; range?: { start: number; end: number }; section?: string }
+  | { kind: "count"; id: string; operator: RuleComparison; value: number }
+  | { kind: "of"; quantity: "any" | "all" | "none" | number; ids: string[] }
+  | { kind: "integer"; reader: RuleIntegerReader; offset: number; operator: RuleComparison; value: number }
+  | { kind: "defined"; field: string }
+  | { kind: "field"; field: string; operator: RuleFieldOperator; value: string | number | RegExp };
+
+export interface DetectionRule {
+  name: string;
+  tags: string[];
+  meta: Array<[string, string]>;
+  patterns: RulePattern[];
+  condition: RuleExpression;
+  // Line of the `rule` keyword, used in issues.
+  line: number;
+}
+
+export interface RuleSet {
+  rules: DetectionRule[];
+  issues: string[];
+}
+
+export type RuleFieldValue = string | number | bigint | boolean;
+
+// A named file range (PE/ELF section, Mach-O section) used by `$id in section "name"`.
+export interface RuleSection {
+  name: string;
+  start: number;
+  end: number;
+}
+
+export interface RulePatternMatch {
+  id: string;
+  offset: number;
+  length: number;
+  // Printable rendering of the matched bytes (truncated).
+  preview: string;
+}
+
+export interface RuleMatch {
+  rule: DetectionRule;
+  matches: RulePatternMatch[];
+}
+
+export interface RuleEvaluation {
+  matches: RuleMatch[];
+  ruleCount: number;
+  scannedBytes: number;
+  // Ids of patterns that hit the per-pattern match limit.
+  truncatedPatterns: string[];
+  issues: string[];
+}
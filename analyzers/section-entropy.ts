@@ -22,7 +22,7 @@ const validatedSectionRange = (
   return { start: pointerToRawData, end };
 };
 
-const shannonEntropy = (frequencies: Uint32Array, totalBytes: number): number => {
+export const shannonEntropy = (frequencies: Uint32Array, totalBytes: number): number => {
   let entropy = 0;
   for (let value = 0; value < frequencies.length; value += 1) {
     const count = frequencies[value]!;
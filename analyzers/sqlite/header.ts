@@ -1,5 +1,6 @@
 "use strict";
 
+import { reportDiagnostic, type DiagnosticLog } from "../diagnostics/index.js";
 import type { SqliteHeader } from "./types.js";
 
 const SQLITE_HEADER = "SQLite format 3\u0000";
@@ -17,10 +18,16 @@ const readUint16BE = (
   view: DataView,
   offset: number,
   label: string,
-  issues: string[]
+  log: DiagnosticLog
 ): number | null => {
   if (offset + 2 > view.byteLength) {
-    issues.push(`${label} is truncated.`);
+    reportDiagnostic(log, {
+      code: "sqlite.header-field-truncated",
+      severity: "error",
+      message: `${label} is truncated.`,
+      offset,
+      length: 2
+    });
     return null;
   }
   return view.getUint16(offset, false);
@@ -30,23 +37,33 @@ const readUint32BE = (
   view: DataView,
   offset: number,
   label: string,
-  issues: string[]
+  log: DiagnosticLog
 ): number | null => {
   if (offset + 4 > view.byteLength) {
-    issues.push(`${label} is truncated.`);
+    reportDiagnostic(log, {
+      code: "sqlite.header-field-truncated",
+      severity: "error",
+      message: `${label} is truncated.`,
+      offset,
+      length: 4
+    });
     return null;
   }
   return view.getUint32(offset, false);
 };
 
-const normalizePageSize = (raw: number | null, issues: string[]): number | null => {
+const normalizePageSize = (raw: number | null, log: DiagnosticLog): number | null => {
   if (raw == null) return null;
   const size = raw === 1 ? 65536 : raw;
   const isPowerOfTwo = (size & (size - 1)) === 0;
   if (!size || size < 512 || size > 65536 || !isPowerOfTwo) {
-    issues.push(
-      `Page size ${size} bytes is invalid; expected a power of two between 512 and 65536.`
-    );
+    reportDiagnostic(log, {
+      code: "sqlite.page-size-invalid",
+      severity: "warning",
+      message: `Page size ${size} bytes is invalid; expected a power of two between 512 and 65536.`,
+      offset: 16,
+      length: 2
+    });
     return null;
   }
   return size;
@@ -75,12 +92,18 @@ const describeVacuumMode = (value: number | null): string | null => {
   return "Reserved/invalid auto-vacuum setting";
 };
 
-const describeEncoding = (code: number | null, issues: string[]): string | null => {
+const describeEncoding = (code: number | null, log: DiagnosticLog): string | null => {
   if (code === 1) return "UTF-8";
   if (code === 2) return "UTF-16LE";
   if (code === 3) return "UTF-16BE";
   if (code == null) return null;
-  issues.push(`Unknown text encoding code ${code}; treating text as UTF-8.`);
+  reportDiagnostic(log, {
+    code: "sqlite.text-encoding-unknown",
+    severity: "warning",
+    message: `Unknown text encoding code ${code}; treating text as UTF-8.`,
+    offset: 56,
+    length: 4
+  });
   return "UTF-8";
 };
 
@@ -93,18 +116,38 @@ const toVersionString = (value: number | null): string | null => {
   return `${major}.${minor}.${patch}`;
 };
 
-const parseDatabaseHeader = (view: DataView, fileSize: number, issues: string[]): SqliteHeader => {
-  const rawPageSize = readUint16BE(view, 16, "Page size", issues);
-  const pageSize = normalizePageSize(rawPageSize, issues);
-  const reservedSpace = view.byteLength >= 21 ? view.getUint8(20) : null;
-  if (reservedSpace == null) issues.push("Reserved space per page is missing.");
-  const usablePageSize =
-    pageSize != null && reservedSpace != null && reservedSpace < pageSize
-      ? pageSize - reservedSpace
-      : null;
-  if (usablePageSize == null && pageSize != null && reservedSpace != null) {
-    issues.push("Reserved space is not smaller than the page size.");
+const computeUsablePageSize = (
+  pageSize: number | null,
+  reservedSpace: number | null,
+  log: DiagnosticLog
+): number | null => {
+  if (reservedSpace == null) {
+    reportDiagnostic(log, {
+      code: "sqlite.reserved-space-missing",
+      severity: "error",
+      message: "Reserved space per page is missing.",
+      offset: 20,
+      length: 1
+    });
+    return null;
   }
+  if (pageSize == null) return null;
+  if (reservedSpace < pageSize) return pageSize - reservedSpace;
+  reportDiagnostic(log, {
+    code: "sqlite.reserved-space-too-large",
+    severity: "warning",
+    message: "Reserved space is not smaller than the page size.",
+    offset: 20,
+    length: 1
+  });
+  return null;
+};
+
+const parseDatabaseHeader = (view: DataView, fileSize: number, log: DiagnosticLog): SqliteHeader => {
+  const rawPageSize = readUint16BE(view, 16, "Page size", log);
+  const pageSize = normalizePageSize(rawPageSize, log);
+  const reservedSpace = view.byteLength >= 21 ? view.getUint8(20) : null;
+  const usablePageSize = computeUsablePageSize(pageSize, reservedSpace, log);
 
   const writeVersion = view.byteLength >= 19 ? view.getUint8(18) : null;
   const readVersion = view.byteLength >= 20 ? view.getUint8(19) : null;
@@ -113,8 +156,8 @@ const parseDatabaseHeader = (view: DataView, fileSize: number, issues: string[])
   const minPayloadFraction = view.byteLength >= 23 ? view.getUint8(22) : null;
   const leafPayloadFraction = view.byteLength >= 24 ? view.getUint8(23) : null;
 
-  const fileChangeCounter = readUint32BE(view, 24, "File change counter", issues);
-  const databaseSizePages = readUint32BE(view, 28, "Database size", issues);
+  const fileChangeCounter = readUint32BE(view, 24, "File change counter", log);
+  const databaseSizePages = readUint32BE(view, 28, "Database size", log);
   const databaseSizeBytes =
     pageSize != null && databaseSizePages != null ? pageSize * databaseSizePages : null;
   if (
@@ -123,22 +166,28 @@ const parseDatabaseHeader = (view: DataView, fileSize: number, issues: string[])
   ) {
     const declared = `Declared database size (${databaseSizeBytes} bytes)`;
     const actual = `file size (${fileSize} bytes).`;
-    issues.push(`${declared} does not match ${actual}`);
+    reportDiagnostic(log, {
+      code: "sqlite.database-size-mismatch",
+      severity: "warning",
+      message: `${declared} does not match ${actual}`,
+      offset: 28,
+      length: 4
+    });
   }
 
-  const firstFreelistTrunkPage = readUint32BE(view, 32, "First freelist trunk page", issues);
-  const totalFreelistPages = readUint32BE(view, 36, "Total freelist pages", issues);
-  const schemaCookie = readUint32BE(view, 40, "Schema cookie", issues);
-  const schemaFormat = readUint32BE(view, 44, "Schema format number", issues);
-  const defaultPageCacheSize = readUint32BE(view, 48, "Default page cache size", issues);
-  const largestRootPage = readUint32BE(view, 52, "Largest root b-tree page", issues);
-  const textEncoding = readUint32BE(view, 56, "Text encoding", issues);
-  const textEncodingName = describeEncoding(textEncoding, issues);
-  const userVersion = readUint32BE(view, 60, "User version", issues);
-  const vacuumMode = readUint32BE(view, 64, "Auto-vacuum mode", issues);
-  const applicationId = readUint32BE(view, 68, "Application ID", issues);
-  const versionValidFor = readUint32BE(view, 92, "Version-valid-for", issues);
-  const sqliteVersion = readUint32BE(view, 96, "SQLite library version", issues);
+  const firstFreelistTrunkPage = readUint32BE(view, 32, "First freelist trunk page", log);
+  const totalFreelistPages = readUint32BE(view, 36, "Total freelist pages", log);
+  const schemaCookie = readUint32BE(view, 40, "Schema cookie", log);
+  const schemaFormat = readUint32BE(view, 44, "Schema format number", log);
+  const defaultPageCacheSize = readUint32BE(view, 48, "Default page cache size", log);
+  const largestRootPage = readUint32BE(view, 52, "Largest root b-tree page", log);
+  const textEncoding = readUint32BE(view, 56, "Text encoding", log);
+  const textEncodingName = describeEncoding(textEncoding, log);
+  const userVersion = readUint32BE(view, 60, "User version", log);
+  const vacuumMode = readUint32BE(view, 64, "Auto-vacuum mode", log);
+  const applicationId = readUint32BE(view, 68, "Application ID", log);
+  const versionValidFor = readUint32BE(view, 92, "Version-valid-for", log);
+  const sqliteVersion = readUint32BE(view, 96, "SQLite library version", log);
   const sqliteVersionString = toVersionString(sqliteVersion);
 
   const readMeaning = describeJournalMode(readVersion);
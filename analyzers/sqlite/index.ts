@@ -1,5 +1,6 @@
 "use strict";
 
+import { reportDiagnostic, type DiagnosticLog } from "../diagnostics/index.js";
 import { HEADER_SIZE, hasSqliteSignature, parseDatabaseHeader } from "./header.js";
 import { parseSchemaPage } from "./page.js";
 import type { SqlitePage, SqliteParseResult } from "./types.js";
@@ -13,20 +14,26 @@ const parseSqlite = async (file: File): Promise<SqliteParseResult | null> => {
   );
   if (!hasSqliteSignature(headerView)) return null;
 
-  const issues: string[] = [];
-  const header = parseDatabaseHeader(headerView, file.size, issues);
+  const log: DiagnosticLog = { issues: [], diagnostics: [] };
+  const header = parseDatabaseHeader(headerView, file.size, log);
 
   let schemaPage: SqlitePage | null = null;
   if (header.pageSizeBytes && header.pageSizeBytes >= HEADER_SIZE) {
     const pageView = new DataView(
       await file.slice(0, Math.min(file.size, header.pageSizeBytes)).arrayBuffer()
     );
-    schemaPage = parseSchemaPage(pageView, header, issues);
+    schemaPage = parseSchemaPage(pageView, header, log);
   } else {
-    issues.push("Page size is not available; skipping schema page decode.");
+    reportDiagnostic(log, {
+      code: "sqlite.schema-page-skipped",
+      severity: "warning",
+      message: "Page size is not available; skipping schema page decode.",
+      offset: 16,
+      length: 2
+    });
   }
 
-  return { isSqlite: true, header, schemaPage, issues };
+  return { isSqlite: true, header, schemaPage, ...log };
 };
 
 const buildSqliteLabel = (parsed: SqliteParseResult | null): string | null => {
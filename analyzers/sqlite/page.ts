@@ -1,5 +1,6 @@
 "use strict";
 
+import { reportDiagnostic, type DiagnosticLog } from "../diagnostics/index.js";
 import { HEADER_SIZE } from "./header.js";
 import { parseRecord, readVarint, safeNumber } from "./record.js";
 import type {
@@ -15,21 +16,26 @@ const parseLeafCell = (
   view: DataView,
   cellOffset: number,
   encoding: string | null,
-  issues: string[],
+  log: DiagnosticLog,
   columnNames: string[]
 ): SqliteLeafTableCell | null => {
   if (cellOffset >= view.byteLength) {
-    issues.push(`Cell offset ${cellOffset} is outside the page.`);
+    reportDiagnostic(log, {
+      code: "sqlite.cell-offset-out-of-page",
+      severity: "warning",
+      message: `Cell offset ${cellOffset} is outside the page.`,
+      offset: cellOffset
+    });
     return null;
   }
   const payloadInfo = readVarint(view, cellOffset);
-  const payloadSize = safeNumber(payloadInfo.value, "Payload size", issues);
+  const payloadSize = safeNumber(payloadInfo, cellOffset, "Payload size", log);
   if (payloadSize == null) return null;
   const rowIdInfo = readVarint(view, cellOffset + payloadInfo.length);
   const rowId = rowIdInfo.truncated ? null : rowIdInfo.value;
   const payloadOffset = cellOffset + payloadInfo.length + rowIdInfo.length;
   const payloadAvailable = Math.max(0, view.byteLength - payloadOffset);
-  const record = parseRecord(view, payloadOffset, payloadSize, encoding, issues, columnNames);
+  const record = parseRecord(view, payloadOffset, payloadSize, encoding, log, columnNames);
   const overflow = payloadAvailable < payloadSize;
   return {
     offset: cellOffset,
@@ -52,16 +58,27 @@ const describePageType = (pageType: number | null): string | null => {
 const parseBtreeHeader = (
   view: DataView,
   offset: number,
-  issues: string[]
+  log: DiagnosticLog
 ): SqliteBtreeHeader | null => {
   if (offset + 1 > view.byteLength) {
-    issues.push("B-tree header is missing.");
+    reportDiagnostic(log, {
+      code: "sqlite.btree-header-missing",
+      severity: "error",
+      message: "B-tree header is missing.",
+      offset
+    });
     return null;
   }
   const pageType = view.getUint8(offset);
   const headerSize = pageType === 2 || pageType === 5 ? 12 : 8;
   if (offset + headerSize > view.byteLength) {
-    issues.push("B-tree header is truncated.");
+    reportDiagnostic(log, {
+      code: "sqlite.btree-header-truncated",
+      severity: "error",
+      message: "B-tree header is truncated.",
+      offset,
+      length: headerSize
+    });
     return null;
   }
   const firstFreeblock = view.getUint16(offset + 1, false);
@@ -85,16 +102,28 @@ const parseBtreeHeader = (
 const parseSchemaPage = (
   view: DataView,
   header: SqliteHeader,
-  issues: string[]
+  log: DiagnosticLog
 ): SqlitePage | null => {
   if (view.byteLength <= HEADER_SIZE) {
-    issues.push("Page 1 is smaller than the required 100-byte header.");
+    reportDiagnostic(log, {
+      code: "sqlite.schema-page-truncated",
+      severity: "error",
+      message: "Page 1 is smaller than the required 100-byte header.",
+      offset: 0,
+      length: HEADER_SIZE
+    });
     return null;
   }
-  const btreeHeader = parseBtreeHeader(view, HEADER_SIZE, issues);
+  const btreeHeader = parseBtreeHeader(view, HEADER_SIZE, log);
   if (!btreeHeader) return null;
   if (btreeHeader.pageType !== 13) {
-    issues.push("Page 1 is not a table leaf b-tree; schema entries may be elsewhere.");
+    reportDiagnostic(log, {
+      code: "sqlite.schema-page-not-table-leaf",
+      severity: "warning",
+      message: "Page 1 is not a table leaf b-tree; schema entries may be elsewhere.",
+      offset: HEADER_SIZE,
+      length: 1
+    });
   }
   const totalCells = btreeHeader.cellCount ?? 0;
   const limitedByCellCount = totalCells > MAX_SCHEMA_CELLS;
@@ -104,7 +133,13 @@ const parseSchemaPage = (
   const pointersStart = HEADER_SIZE + btreeHeader.headerSize;
   const pointerBytesNeeded = cellEntries * 2;
   if (pointersStart + pointerBytesNeeded > view.byteLength) {
-    issues.push("Cell pointer array is truncated.");
+    reportDiagnostic(log, {
+      code: "sqlite.cell-pointer-array-truncated",
+      severity: "error",
+      message: "Cell pointer array is truncated.",
+      offset: pointersStart,
+      length: pointerBytesNeeded
+    });
   }
   for (let index = 0; index < cellEntries; index += 1) {
     const ptrOffset = pointersStart + index * 2;
@@ -115,7 +150,7 @@ const parseSchemaPage = (
       view,
       cellOffset,
       header.textEncodingName,
-      issues,
+      log,
       ["type", "name", "tbl_name", "rootpage", "sql"]
     );
     if (cell) cells.push(cell);
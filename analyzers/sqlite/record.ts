@@ -1,5 +1,6 @@
 "use strict";
 
+import { reportDiagnostic, type DiagnosticLog } from "../diagnostics/index.js";
 import type { SqliteRecord, SqliteRecordValue } from "./types.js";
 
 type Varint = { value: bigint; length: number; truncated: boolean };
@@ -25,10 +26,22 @@ const readVarint = (view: DataView, offset: number): Varint => {
   return { value, length, truncated: truncated || length === 0 };
 };
 
-const safeNumber = (value: bigint, label: string, issues: string[]): number | null => {
-  const num = Number(value);
+// varint is the value as read at offset, so its length covers the field.
+const safeNumber = (
+  varint: Varint,
+  offset: number,
+  label: string,
+  log: DiagnosticLog
+): number | null => {
+  const num = Number(varint.value);
   if (!Number.isSafeInteger(num)) {
-    issues.push(`${label} exceeds JavaScript's safe integer range.`);
+    reportDiagnostic(log, {
+      code: "sqlite.varint-out-of-range",
+      severity: "warning",
+      message: `${label} exceeds JavaScript's safe integer range.`,
+      offset,
+      length: varint.length
+    });
     return null;
   }
   return num;
@@ -64,8 +77,9 @@ const storageClass = (serialType: number): string => {
 
 const decodeText = (
   bytes: Uint8Array,
+  offset: number,
   encoding: string | null,
-  issues: string[],
+  log: DiagnosticLog,
   context: string
 ): string => {
   const decoderName = encoding || "UTF-8";
@@ -74,7 +88,13 @@ const decodeText = (
     return decoder.decode(bytes);
   } catch (error) {
     const reason = error instanceof Error ? error.message : String(error);
-    issues.push(`Failed to decode ${context} as ${decoderName}: ${reason}`);
+    reportDiagnostic(log, {
+      code: "sqlite.text-decode-failed",
+      severity: "error",
+      message: `Failed to decode ${context} as ${decoderName}: ${reason}`,
+      offset,
+      length: bytes.length
+    });
     return "";
   }
 };
@@ -114,7 +134,7 @@ const decodeRecordText = (
   dataOffset: number,
   bytesToUse: number,
   encoding: string | null,
-  issues: string[]
+  log: DiagnosticLog
 ): string => {
   if (bytesToUse <= 0 || view.byteOffset + dataOffset >= view.buffer.byteLength) return "";
   const sliceLength = Math.min(
@@ -123,8 +143,9 @@ const decodeRecordText = (
   );
   return decodeText(
     new Uint8Array(view.buffer, view.byteOffset + dataOffset, Math.max(0, sliceLength)),
+    dataOffset,
     encoding,
-    issues,
+    log,
     "record text"
   );
 };
@@ -136,7 +157,7 @@ const decodeRecordValue = (
   expectedSize: number,
   bytesToUse: number,
   encoding: string | null,
-  issues: string[]
+  log: DiagnosticLog
 ): { value: string | number | bigint | ArrayBuffer | SharedArrayBuffer | null; description: string } => {
   if (serialType === 0) return { value: null, description: "NULL" };
   if (serialType === 7 && bytesToUse === 8) {
@@ -156,7 +177,7 @@ const decodeRecordValue = (
   }
   if (serialType >= 13 && serialType % 2 === 1) {
     return {
-      value: decodeRecordText(view, dataOffset, bytesToUse, encoding, issues),
+      value: decodeRecordText(view, dataOffset, bytesToUse, encoding, log),
       description: `Text using ${encoding || "UTF-8"}`
     };
   }
@@ -168,12 +189,12 @@ const parseRecord = (
   payloadOffset: number,
   payloadSize: number,
   encoding: string | null,
-  issues: string[],
+  log: DiagnosticLog,
   columnNames: string[]
 ): SqliteRecord => {
   const payloadLimit = Math.min(payloadSize, view.byteLength - payloadOffset);
   const headerVarint = readVarint(view, payloadOffset);
-  const headerSizeNumber = safeNumber(headerVarint.value, "Record header size", issues);
+  const headerSizeNumber = safeNumber(headerVarint, payloadOffset, "Record header size", log);
   const headerSize = headerSizeNumber ?? payloadLimit;
   const headerEnd = payloadOffset + Math.min(headerSize, payloadLimit);
   const headerTruncated = headerVarint.truncated || headerSize > payloadLimit;
@@ -183,7 +204,7 @@ const parseRecord = (
   while (cursor < headerEnd) {
     const serial = readVarint(view, cursor);
     if (serial.length === 0) break;
-    const code = safeNumber(serial.value, "Serial type", issues);
+    const code = safeNumber(serial, cursor, "Serial type", log);
     if (code != null) serialTypes.push(code);
     cursor += serial.length;
     if (serial.truncated) break;
@@ -218,7 +239,7 @@ const parseRecord = (
       expectedSize,
       bytesToUse,
       encoding,
-      issues
+      log
     );
     values.push({
       name: columnNames[index] ?? null,
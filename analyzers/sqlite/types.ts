@@ -1,5 +1,7 @@
 "use strict";
 
+import type { ReportedDiagnostic } from "../diagnostics/index.js";
+
 export type SqliteHeader = {
   pageSizeField: number | null;
   pageSizeBytes: number | null;
@@ -84,4 +86,5 @@ export type SqliteParseResult = {
   header: SqliteHeader;
   schemaPage: SqlitePage | null;
   issues: string[];
+  diagnostics: ReportedDiagnostic[];
 };
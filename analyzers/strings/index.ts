@@ -0,0 +1,153 @@
+"use strict";
+
+import { decodeLatin1 } from "../../binary-utils.js";
+import type { FileRangeReader } from "../file-range-reader.js";
+
+export type StringEncoding = "ascii" | "utf8" | "utf16le" | "utf16be";
+
+export const STRING_ENCODINGS: readonly StringEncoding[] = ["ascii", "utf8", "utf16le", "utf16be"];
+
+export interface ExtractedString {
+  offset: number;
+  byteLength: number;
+  encoding: StringEncoding;
+  // Decoded text, clipped to STRING_TEXT_LIMIT characters for very long runs.
+  text: string;
+}
+
+export interface StringExtractionOptions {
+  // Minimum number of characters (not bytes) in a reported string.
+  minLength: number;
+  encodings: readonly StringEncoding[];
+  onProgress?: (scannedBytes: number, totalBytes: number) => void;
+  isCurrent?: () => boolean;
+}
+
+export interface StringExtraction {
+  strings: ExtractedString[];
+  scannedBytes: number;
+  // True when STRING_RESULT_LIMIT was reached and the rest of the file was not scanned.
+  truncated: boolean;
+}
+
+export const STRING_SCAN_CHUNK_BYTES = 4 * 1024 * 1024;
+// Strings longer than this that cross a chunk boundary are still joined (see mergeOrAppend).
+const STRING_SCAN_OVERLAP_BYTES = 64 * 1024;
+export const STRING_RESULT_LIMIT = 200_000;
+export const STRING_TEXT_LIMIT = 1024;
+
+const PRINTABLE = "\\t\\x20-\\x7e";
+// UTF-16 code units are limited to Latin-1 text (high byte zero), as in `strings -e l`; wider
+// ranges turn pairs of ASCII bytes into CJK noise.
+const UTF16_UNIT = `[${PRINTABLE}\\xa0-\\xff]`;
+// Well-formed UTF-8 sequences of two to four bytes (RFC 3629 lead bytes; overlong forms are
+// left to the decoder, which replaces them).
+const UTF8_MULTIBYTE = "[\\xc2-\\xdf][\\x80-\\xbf]|[\\xe0-\\xef][\\x80-\\xbf]{2}|[\\xf0-\\xf4][\\x80-\\xbf]{3}";
+
+interface StringScanner {
+  regex: RegExp;
+  classify: (match: string) => StringEncoding | null;
+  decode: (match: string) => string;
+  // End offset of the last string recorded by this scanner, for joining across chunks.
+  coveredUntil: number;
+  last: ExtractedString | null;
+}
+
+const utf8Decoder = new TextDecoder("utf-8");
+
+const decodeUtf16 = (match: string, lowByteIndex: number): string => {
+  let text = "";
+  for (let index = lowByteIndex; index < match.length && text.length < STRING_TEXT_LIMIT; index += 2) {
+    text += match[index];
+  }
+  return text;
+};
+
+const createScanners = (minLength: number, encodings: ReadonlySet<StringEncoding>): StringScanner[] => {
+  const scanners: StringScanner[] = [];
+  const scanner = (source: string, classify: StringScanner["classify"], decode: StringScanner["decode"]): void => {
+    scanners.push({ regex: new RegExp(`(?:${source}){${minLength},}`, "g"), classify, decode, coveredUntil: 0, last: null });
+  };
+  const wantsAscii = encodings.has("ascii");
+  if (encodings.has("utf8")) {
+    // One pass finds both: runs without multi-byte sequences are reported as ASCII.
+    scanner(`[${PRINTABLE}]|${UTF8_MULTIBYTE}`, match => (/[\x80-\xff]/.test(match) ? "utf8" : wantsAscii ? "ascii" : null),
+      match => utf8Decoder.decode(Uint8Array.from(match.slice(0, STRING_TEXT_LIMIT * 4), char => char.charCodeAt(0)))
+        .slice(0, STRING_TEXT_LIMIT));
+  } else if (wantsAscii) {
+    scanner(`[${PRINTABLE}]`, () => "ascii", match => match.slice(0, STRING_TEXT_LIMIT));
+  }
+  if (encodings.has("utf16le")) scanner(`${UTF16_UNIT}\\x00`, () => "utf16le", match => decodeUtf16(match, 0));
+  if (encodings.has("utf16be")) scanner(`\\x00${UTF16_UNIT}`, () => "utf16be", match => decodeUtf16(match, 1));
+  return scanners;
+};
+
+// A match that starts inside the previous string of the same scanner is that string continuing
+// past the end of the previous read, so it extends the string instead of adding its tail. The
+// text grows with it until it reaches STRING_TEXT_LIMIT; matches start on a character boundary of
+// the run they continue, so the part past the previous read decodes on its own.
+const mergeOrAppend = (scanner: StringScanner, offset: number, match: string, strings: ExtractedString[]): void => {
+  const end = offset + match.length;
+  const { last } = scanner;
+  if (last && offset < scanner.coveredUntil) {
+    if (end > scanner.coveredUntil) {
+      if (last.text.length < STRING_TEXT_LIMIT) {
+        const tail = scanner.decode(match.slice(scanner.coveredUntil - offset));
+        last.text = (last.text + tail).slice(0, STRING_TEXT_LIMIT);
+      }
+      last.byteLength = end - last.offset;
+      scanner.coveredUntil = end;
+    }
+    return;
+  }
+  const encoding = scanner.classify(match);
+  if (!encoding) return;
+  scanner.last = { offset, byteLength: match.length, encoding, text: scanner.decode(match) };
+  scanner.coveredUntil = end;
+  strings.push(scanner.last);
+};
+
+// UTF-16LE text read one byte late looks like UTF-16BE text (and the reverse); of two overlapping
+// UTF-16 strings only the one that starts first is kept.
+const dropShiftedUtf16 = (strings: ExtractedString[]): ExtractedString[] => {
+  let lastUtf16: ExtractedString | null = null;
+  return strings.filter(entry => {
+    if (entry.encoding !== "utf16le" && entry.encoding !== "utf16be") return true;
+    if (lastUtf16 && entry.encoding !== lastUtf16.encoding && entry.offset < lastUtf16.offset + lastUtf16.byteLength) {
+      return false;
+    }
+    lastUtf16 = entry;
+    return true;
+  });
+};
+
+// Streams the file in chunks and returns strings ordered by offset, or null when superseded.
+export const extractStrings = async (
+  reader: FileRangeReader,
+  options: StringExtractionOptions
+): Promise<StringExtraction | null> => {
+  const scanners = createScanners(Math.max(1, Math.floor(options.minLength)), new Set(options.encodings));
+  const strings: ExtractedString[] = [];
+  let scannedBytes = 0;
+  let truncated = false;
+  for (let chunkStart = 0; chunkStart < reader.size && scanners.length; chunkStart += STRING_SCAN_CHUNK_BYTES) {
+    const bytes = await reader.readBytes(chunkStart, STRING_SCAN_CHUNK_BYTES + STRING_SCAN_OVERLAP_BYTES);
+    if (options.isCurrent && !options.isCurrent()) return null;
+    const text = decodeLatin1(bytes);
+    const startLimit = Math.min(text.length, STRING_SCAN_CHUNK_BYTES);
+    for (const scanner of scanners) {
+      scanner.regex.lastIndex = 0;
+      for (let match = scanner.regex.exec(text); match && match.index < startLimit; match = scanner.regex.exec(text)) {
+        mergeOrAppend(scanner, chunkStart + match.index, match[0], strings);
+      }
+    }
+    scannedBytes = Math.min(reader.size, chunkStart + STRING_SCAN_CHUNK_BYTES);
+    options.onProgress?.(scannedBytes, reader.size);
+    if (strings.length >= STRING_RESULT_LIMIT) {
+      truncated = scannedBytes < reader.size;
+      break;
+    }
+  }
+  strings.sort((left, right) => left.offset - right.offset);
+  return { strings: dropShiftedUtf16(strings).slice(0, STRING_RESULT_LIMIT), scannedBytes, truncated };
+};
@@ -0,0 +1,42 @@
+"use strict";
+
+import type { ElfParseResult } from "../elf/types.js";
+import type { StructureRange } from "./types.js";
+
+// ELF gABI: SHT_NOBITS sections occupy no file space even though sh_offset is set.
+const SHT_NOBITS = 8;
+
+const toSafeOffset = (value: bigint): number | null =>
+  value >= 0n && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : null;
+
+const tableRange = (offset: bigint, count: number, entrySize: number, label: string): StructureRange[] => {
+  const start = toSafeOffset(offset);
+  return start != null && start > 0 && count > 0 ? [{ start, end: start + count * entrySize, label }] : [];
+};
+
+const contentRange = (offset: bigint, size: bigint, label: string): StructureRange[] => {
+  const start = toSafeOffset(offset);
+  const length = toSafeOffset(size);
+  return start != null && length ? [{ start, end: start + length, label }] : [];
+};
+
+export const describeElfStructures = (elf: ElfParseResult): StructureRange[] => {
+  const { header } = elf;
+  return [
+    { start: 0, end: header.ehsize, label: "ELF header" },
+    ...tableRange(header.phoff, header.phnum, header.phentsize, "Program header table"),
+    ...tableRange(header.shoff, header.shnum, header.shentsize, "Section header table"),
+    ...elf.programHeaders.flatMap(programHeader => contentRange(
+      programHeader.offset,
+      programHeader.filesz,
+      `Segment ${programHeader.index} (${programHeader.typeName ?? `type 0x${programHeader.type.toString(16)}`})`
+    )),
+    ...elf.sections
+      .filter(section => section.type !== SHT_NOBITS)
+      .flatMap(section => contentRange(
+        section.offset,
+        section.size,
+        `Section ${section.name || `#${section.index}`}`
+      ))
+  ];
+};
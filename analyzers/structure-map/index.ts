@@ -0,0 +1,58 @@
+"use strict";
+
+import type { AnalyzerName, AnalyzerParseMap, ParseForUiResult } from "../analyzer-types.js";
+import { describeElfStructures } from "./elf.js";
+import { describeMachOStructures } from "./macho.js";
+import { describeMp4Structures } from "./mp4.js";
+import { describePdfStructures } from "./pdf.js";
+import { describePeStructures } from "./pe.js";
+import { describePngStructures } from "./png.js";
+import { describeSevenZipStructures } from "./seven-zip.js";
+import type { StructureRange } from "./types.js";
+import { describeZipStructures } from "./zip.js";
+
+type StructureDescriber<Name extends AnalyzerName> = (parsed: AnalyzerParseMap[Name]) => StructureRange[];
+
+type StructureDescriberMap = { readonly [Name in AnalyzerName]?: StructureDescriber<Name> };
+
+// Formats listed here can answer "which structure owns this byte"; others have no map yet.
+const STRUCTURE_DESCRIBERS: StructureDescriberMap = {
+  pe: describePeStructures,
+  elf: describeElfStructures,
+  macho: describeMachOStructures,
+  mp4: describeMp4Structures,
+  zip: describeZipStructures,
+  sevenZip: describeSevenZipStructures,
+  png: describePngStructures,
+  pdf: describePdfStructures
+};
+
+const describeKnownStructures = <Name extends AnalyzerName>(
+  result: { analyzer: Name; parsed: AnalyzerParseMap[Name] }
+): StructureRange[] => {
+  const describe = STRUCTURE_DESCRIBERS[result.analyzer] as StructureDescriber<Name> | undefined;
+  return describe ? describe(result.parsed) : [];
+};
+
+const hasStructureMap = (result: ParseForUiResult): boolean =>
+  result.analyzer != null && result.parsed != null && Object.hasOwn(STRUCTURE_DESCRIBERS, result.analyzer);
+
+// Ranges are clipped to the file, empty ones dropped, and ordered by start with enclosing
+// ranges before the ranges they contain.
+const describeStructures = (result: ParseForUiResult, fileSize: number): StructureRange[] => {
+  if (!result.analyzer || !result.parsed) return [];
+  return describeKnownStructures(result)
+    .filter(range => Number.isSafeInteger(range.start) && Number.isSafeInteger(range.end))
+    .map(range => ({ ...range, start: Math.max(0, range.start), end: Math.min(fileSize, range.end) }))
+    .filter(range => range.end > range.start)
+    .sort((left, right) => left.start - right.start || right.end - left.end);
+};
+
+// Outermost first, so the last entry is the most specific owner of the byte.
+const findStructuresAt = (ranges: readonly StructureRange[], offset: number): StructureRange[] =>
+  ranges
+    .filter(range => range.start <= offset && offset < range.end)
+    .sort((left, right) => (right.end - right.start) - (left.end - left.start));
+
+export { STRUCTURE_DESCRIBERS, describeStructures, findStructuresAt, hasStructureMap };
+export type { StructureDescriber, StructureRange };
@@ -0,0 +1,55 @@
+"use strict";
+
+import type { MachOImage, MachOParseResult } from "../macho/types.js";
+import type { StructureRange } from "./types.js";
+
+// <mach-o/loader.h>: mach_header is 28 bytes, mach_header_64 adds a reserved word.
+const MACH_HEADER_BYTE_LENGTH = 28;
+const MACH_HEADER_64_BYTE_LENGTH = 32;
+// <mach-o/fat.h>: fat_header followed by fat_arch (20 bytes) or fat_arch_64 (32 bytes) entries.
+const FAT_HEADER_BYTE_LENGTH = 8;
+const FAT_ARCH_BYTE_LENGTH = 20;
+const FAT_ARCH_64_BYTE_LENGTH = 32;
+
+const toSafeLength = (value: bigint): number | null =>
+  value >= 0n && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : null;
+
+// Segment and section file offsets are relative to the image, which starts at its slice in fat files.
+const describeImage = (image: MachOImage, prefix: string): StructureRange[] => {
+  const headerEnd = image.offset +
+    (image.header.is64 ? MACH_HEADER_64_BYTE_LENGTH : MACH_HEADER_BYTE_LENGTH);
+  const ranges: StructureRange[] = [
+    { start: image.offset, end: headerEnd, label: `${prefix}Mach-O header` },
+    { start: headerEnd, end: headerEnd + image.header.sizeofcmds, label: `${prefix}Load commands` }
+  ];
+  image.segments.forEach(segment => {
+    const fileOffset = toSafeLength(segment.fileoff);
+    const fileSize = toSafeLength(segment.filesize);
+    if (fileOffset != null && fileSize) {
+      const start = image.offset + fileOffset;
+      ranges.push({ start, end: start + fileSize, label: `${prefix}Segment ${segment.name || "(unnamed)"}` });
+    }
+    segment.sections.forEach(section => {
+      const size = toSafeLength(section.size);
+      if (!section.offset || !size) return;
+      const start = image.offset + section.offset;
+      ranges.push({ start, end: start + size, label: `${prefix}Section ${section.segmentName},${section.sectionName}` });
+    });
+  });
+  return ranges;
+};
+
+export const describeMachOStructures = (macho: MachOParseResult): StructureRange[] => {
+  if (macho.kind === "thin") return macho.image ? describeImage(macho.image, "") : [];
+  const header = macho.fatHeader;
+  const archSize = header?.is64 ? FAT_ARCH_64_BYTE_LENGTH : FAT_ARCH_BYTE_LENGTH;
+  return [
+    ...(header
+      ? [{ start: 0, end: FAT_HEADER_BYTE_LENGTH + header.nfatArch * archSize, label: "Fat header" }]
+      : []),
+    ...macho.slices.flatMap(slice => [
+      { start: slice.offset, end: slice.offset + slice.size, label: `Slice ${slice.index}` },
+      ...(slice.image ? describeImage(slice.image, `Slice ${slice.index}: `) : [])
+    ])
+  ];
+};
@@ -0,0 +1,8 @@
+"use strict";
+
+import type { Mp4ParseResult } from "../mp4/types.js";
+import type { StructureRange } from "./types.js";
+
+// ISO/IEC 14496-12 4.2: top-level boxes tile the file; nested boxes are not tracked yet.
+export const describeMp4Structures = (mp4: Mp4ParseResult): StructureRange[] =>
+  mp4.topLevelBoxes.map(box => ({ start: box.start, end: box.end, label: `Box ${box.type}` }));
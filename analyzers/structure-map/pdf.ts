@@ -0,0 +1,32 @@
+"use strict";
+
+import type { PdfParseResult } from "../pdf/types.js";
+import type { StructureRange } from "./types.js";
+
+// ISO 32000-1 7.5: header line, body objects at the offsets the cross-reference table or stream
+// gives, then the cross-reference section, trailer, startxref and %%EOF. Objects are taken to run
+// up to the next object (or the cross-reference section) because the parser does not look for
+// endobj; objects compressed into object streams lie inside their object stream's range.
+export const describePdfStructures = (pdf: PdfParseResult): StructureRange[] => {
+  const ranges: StructureRange[] = [{ start: 0, end: pdf.header.headerEnd, label: "PDF header" }];
+  const xrefStart = pdf.xref?.startOffset ?? pdf.startxref;
+  if (pdf.xref) {
+    const objects = pdf.xref.entries
+      .filter(entry => entry.inUse && entry.offset > 0 && entry.offset < pdf.size)
+      .sort((left, right) => left.offset - right.offset);
+    objects.forEach((entry, index) => {
+      const end = objects[index + 1]?.offset ?? xrefStart ?? pdf.size;
+      if (end > entry.offset) {
+        ranges.push({ start: entry.offset, end, label: `Object ${entry.objectNumber} ${entry.generation}` });
+      }
+    });
+  }
+  if (xrefStart != null && pdf.eofMarkerEnd != null && pdf.eofMarkerEnd > xrefStart) {
+    ranges.push({
+      start: xrefStart,
+      end: pdf.eofMarkerEnd,
+      label: pdf.xref?.kind === "stream" ? "Cross-reference stream and trailer" : "Cross-reference table and trailer"
+    });
+  }
+  return ranges;
+};
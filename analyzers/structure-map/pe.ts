@@ -0,0 +1,65 @@
+"use strict";
+
+import { COFF_SECTION_HEADER_BYTE_LENGTH } from "../coff/layout.js";
+import { isPeWindowsParseResult, type PeParseResult } from "../pe/index.js";
+import { explainedPeOverlayRanges } from "../pe/payloads.js";
+import { peSectionNameValue } from "../pe/sections/name.js";
+import type { StructureRange } from "./types.js";
+
+// Microsoft PE format: IMAGE_DOS_HEADER is 64 bytes, the signature is "PE\0\0" and
+// IMAGE_FILE_HEADER is 20 bytes; COFF symbol records are 18 bytes each.
+const DOS_HEADER_BYTE_LENGTH = 64;
+const PE_SIGNATURE_BYTE_LENGTH = 4;
+const COFF_FILE_HEADER_BYTE_LENGTH = 20;
+const COFF_SYMBOL_BYTE_LENGTH = 18;
+
+const directoryRanges = (pe: PeParseResult): StructureRange[] =>
+  pe.dirs.flatMap(directory => {
+    const rva = directory.rva >>> 0;
+    const size = directory.size >>> 0;
+    if (!rva || !size) return [];
+    // The certificate table entry holds a file pointer rather than an RVA.
+    const start = directory.name === "SECURITY" ? rva : pe.rvaToOff(rva);
+    return start == null ? [] : [{ start, end: start + size, label: `${directory.name} directory` }];
+  });
+
+export const describePeStructures = (pe: PeParseResult): StructureRange[] => {
+  const signatureStart = pe.dos.e_lfanew >>> 0;
+  const fileHeaderStart = signatureStart + PE_SIGNATURE_BYTE_LENGTH;
+  const optionalHeaderStart = fileHeaderStart + COFF_FILE_HEADER_BYTE_LENGTH;
+  const sectionTableStart = optionalHeaderStart + (pe.coff.SizeOfOptionalHeader >>> 0);
+  const symbolTableStart = pe.coff.PointerToSymbolTable >>> 0;
+  const ranges: StructureRange[] = [
+    { start: 0, end: DOS_HEADER_BYTE_LENGTH, label: "DOS header" },
+    { start: DOS_HEADER_BYTE_LENGTH, end: signatureStart, label: "DOS stub" },
+    { start: signatureStart, end: fileHeaderStart, label: "PE signature" },
+    { start: fileHeaderStart, end: optionalHeaderStart, label: "COFF file header" },
+    { start: optionalHeaderStart, end: sectionTableStart, label: "Optional header" },
+    {
+      start: sectionTableStart,
+      end: sectionTableStart + pe.sections.length * COFF_SECTION_HEADER_BYTE_LENGTH,
+      label: "Section table"
+    },
+    ...pe.sections.map(section => ({
+      start: section.pointerToRawData >>> 0,
+      end: (section.pointerToRawData >>> 0) + (section.sizeOfRawData >>> 0),
+      label: `Section ${peSectionNameValue(section.name) || "(unnamed)"}`
+    })),
+    ...directoryRanges(pe),
+    ...(isPeWindowsParseResult(pe) ? explainedPeOverlayRanges(pe.packers, pe.payloads) : []),
+    ...(pe.overlay?.ranges ?? []).map(range => ({
+      start: range.start,
+      end: range.end,
+      label: "Overlay",
+      unexplained: true
+    }))
+  ];
+  if (symbolTableStart) {
+    ranges.push({
+      start: symbolTableStart,
+      end: symbolTableStart + (pe.coff.NumberOfSymbols >>> 0) * COFF_SYMBOL_BYTE_LENGTH,
+      label: "COFF symbol table"
+    });
+  }
+  return ranges;
+};
@@ -0,0 +1,17 @@
+"use strict";
+
+import type { PngParseResult } from "../png/types.js";
+import type { StructureRange } from "./types.js";
+
+// PNG 5.2/5.3: an 8-byte signature, then chunks of length, type, data and CRC (12 bytes plus data).
+const PNG_SIGNATURE_BYTE_LENGTH = 8;
+const CHUNK_OVERHEAD_BYTE_LENGTH = 12;
+
+export const describePngStructures = (png: PngParseResult): StructureRange[] => [
+  { start: 0, end: PNG_SIGNATURE_BYTE_LENGTH, label: "PNG signature" },
+  ...png.chunks.map(chunk => ({
+    start: chunk.offset,
+    end: chunk.offset + CHUNK_OVERHEAD_BYTE_LENGTH + chunk.length,
+    label: `Chunk ${chunk.type ?? "(unreadable)"}`
+  }))
+];
@@ -0,0 +1,39 @@
+"use strict";
+
+import { SEVENZIP_SIGNATURE_HEADER_SIZE_NUMBER } from "../sevenz/layout.js";
+import type { SevenZipPackInfo, SevenZipParseResult } from "../sevenz/types.js";
+import type { StructureRange } from "./types.js";
+
+const toSafeOffset = (value: bigint | null | undefined): number | null =>
+  value != null && value >= 0n && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : null;
+
+// 7zFormat.txt: PackPos counts from the end of the 32-byte signature header and the pack
+// streams follow each other in order.
+const packStreamRanges = (packInfo: SevenZipPackInfo | undefined, label: string): StructureRange[] => {
+  const packPos = toSafeOffset(packInfo?.packPos);
+  if (!packInfo || packPos == null) return [];
+  let start = SEVENZIP_SIGNATURE_HEADER_SIZE_NUMBER + packPos;
+  return packInfo.packSizes.flatMap((packSize, index) => {
+    const size = toSafeOffset(packSize);
+    if (size == null) return [];
+    const range = { start, end: start + size, label: `${label} ${index}` };
+    start += size;
+    return [range];
+  });
+};
+
+export const describeSevenZipStructures = (sevenZip: SevenZipParseResult): StructureRange[] => {
+  const ranges: StructureRange[] = [{ start: 0, end: SEVENZIP_SIGNATURE_HEADER_SIZE_NUMBER, label: "Signature header" }];
+  const nextHeaderStart = toSafeOffset(sevenZip.startHeader?.absoluteNextHeaderOffset);
+  const nextHeaderSize = toSafeOffset(sevenZip.startHeader?.nextHeaderSize);
+  if (nextHeaderStart != null && nextHeaderSize) {
+    ranges.push({ start: nextHeaderStart, end: nextHeaderStart + nextHeaderSize, label: "Next header" });
+  }
+  const parsed = sevenZip.nextHeader?.parsed;
+  if (parsed?.kind === "encoded") ranges.push(...packStreamRanges(parsed.headerStreams.packInfo, "Packed header stream"));
+  const header = sevenZip.decodedHeader ?? parsed;
+  if (header?.kind === "header") {
+    ranges.push(...packStreamRanges(header.sections.mainStreamsInfo?.packInfo, "Pack stream"));
+  }
+  return ranges;
+};
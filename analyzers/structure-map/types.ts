@@ -0,0 +1,11 @@
+"use strict";
+
+// A labelled byte range [start, end) of the inspected file owned by a parsed structure.
+export type StructureRange = {
+  start: number;
+  end: number;
+  label: string;
+  // Located but not interpreted (the PE overlay the analyzer could not attribute); the coverage
+  // map lists these bytes as unexplained.
+  unexplained?: boolean;
+};
@@ -0,0 +1,49 @@
+"use strict";
+
+import type { ZipParseResult } from "../zip/types.js";
+import type { StructureRange } from "./types.js";
+
+// PKWARE APPNOTE 4.3.16: the end of central directory record is 22 bytes plus its comment;
+// 4.3.14/4.3.15: the ZIP64 record and locator precede it.
+const EOCD_FIXED_BYTE_LENGTH = 22;
+const ZIP64_LOCATOR_BYTE_LENGTH = 20;
+
+const entryRanges = (zip: ZipParseResult): StructureRange[] =>
+  (zip.centralDirectory?.entries ?? []).flatMap(entry => {
+    const headerStart = Number(entry.localHeaderOffset);
+    const name = entry.fileName || `#${entry.index}`;
+    const ranges: StructureRange[] = [];
+    if (entry.dataOffset != null && Number.isSafeInteger(headerStart)) {
+      ranges.push({ start: headerStart, end: entry.dataOffset, label: `Local header: ${name}` });
+    }
+    if (entry.dataOffset != null && entry.dataEnd != null) {
+      ranges.push({ start: entry.dataOffset, end: entry.dataEnd, label: `File data: ${name}` });
+    }
+    return ranges;
+  });
+
+export const describeZipStructures = (zip: ZipParseResult): StructureRange[] => [
+  ...entryRanges(zip),
+  ...(zip.centralDirectory
+    ? [{
+      start: zip.centralDirectory.offset,
+      end: zip.centralDirectory.offset + zip.centralDirectory.size,
+      label: "Central directory"
+    }]
+    : []),
+  ...(zip.zip64
+    ? [{ start: zip.zip64.offset, end: zip.zip64.offset + zip.zip64.size, label: "ZIP64 end of central directory" }]
+    : []),
+  ...(zip.zip64Locator
+    ? [{
+      start: zip.zip64Locator.offset,
+      end: zip.zip64Locator.offset + ZIP64_LOCATOR_BYTE_LENGTH,
+      label: "ZIP64 end of central directory locator"
+    }]
+    : []),
+  {
+    start: zip.eocd.offset,
+    end: zip.eocd.offset + EOCD_FIXED_BYTE_LENGTH + zip.eocd.commentLength,
+    label: "End of central directory"
+  }
+];
@@ -0,0 +1,33 @@
+"use strict";
+
+import { type CsvValue, toCsvField } from "../../csv-utils.js";
+import { toStableJson } from "../../json-utils.js";
+import type { TriageRecord } from "./types.js";
+
+const CSV_COLUMNS: ReadonlyArray<readonly [string, (record: TriageRecord) => CsvValue]> = [
+  ["path", record => record.path],
+  ["size", record => record.size],
+  ["mime_type", record => record.mimeType],
+  ["modified", record => record.lastModified],
+  ["detected_type", record => record.detectedType],
+  ["error", record => record.error],
+  ["md5", record => record.hashes.md5 ?? null],
+  ["sha1", record => record.hashes.sha1 ?? null],
+  ["sha256", record => record.hashes.sha256 ?? null],
+  ["known_hash", record => record.knownHash],
+  ["analyzer", record => record.facts?.analyzer ?? null],
+  ["machine", record => record.facts?.machine ?? null],
+  ["subsystem", record => record.facts?.subsystem ?? null],
+  ["signed", record => record.facts?.signed ?? null],
+  ["packer", record => record.facts?.packer ?? null],
+  ["interpreter", record => record.facts?.interpreter ?? null],
+  ["archive_entries", record => record.facts?.archiveEntries ?? null]
+];
+
+export const renderTriageCsv = (records: readonly TriageRecord[]): string =>
+  [CSV_COLUMNS.map(([name]) => name), ...records.map(record => CSV_COLUMNS.map(([, read]) => read(record)))]
+    .map(row => row.map(toCsvField).join(","))
+    .join("\r\n") + "\r\n";
+
+export const renderTriageJsonLines = (records: readonly TriageRecord[]): string =>
+  records.map(record => `${toStableJson(record)}\n`).join("");
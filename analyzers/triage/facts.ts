@@ -0,0 +1,60 @@
+"use strict";
+
+import { toHex32 } from "../../binary-utils.js";
+import type { ParseForUiResult } from "../analyzer-types.js";
+import { SUBSYSTEMS } from "../pe/constants.js";
+import { isPeWindowsParseResult, type PeParseResult } from "../pe/index.js";
+import { decodePeMachine } from "../pe/machine.js";
+import type { TriageFacts } from "./types.js";
+
+const EMPTY_FACTS: Omit<TriageFacts, "analyzer"> = {
+  machine: null,
+  subsystem: null,
+  signed: null,
+  packer: null,
+  interpreter: null,
+  archiveEntries: null
+};
+
+const describePe = (pe: PeParseResult): Partial<TriageFacts> => {
+  const facts: Partial<TriageFacts> = { machine: decodePeMachine(pe.coff.Machine).machineName, signed: pe.hasCert };
+  if (!isPeWindowsParseResult(pe)) return facts;
+  const subsystem = pe.opt.Subsystem;
+  const packers = pe.packers?.reports.flatMap(report => report.findings.map(finding => finding.name)) ?? [];
+  return {
+    ...facts,
+    subsystem: SUBSYSTEMS.find(([code]) => code === subsystem)?.[1] ?? `Subsystem ${subsystem}`,
+    packer: packers.length ? [...new Set(packers)].join(", ") : null
+  };
+};
+
+const describeFormat = (result: ParseForUiResult): Partial<TriageFacts> => {
+  switch (result.analyzer) {
+    case "pe":
+      return describePe(result.parsed);
+    case "elf":
+      return {
+        machine: result.parsed.header.machineName ?? toHex32(result.parsed.header.machine, 4),
+        interpreter: result.parsed.interpreter?.path ?? null
+      };
+    case "zip":
+      return { archiveEntries: result.parsed.centralDirectory?.entries.length ?? null };
+    case "sevenZip":
+      return { archiveEntries: result.parsed.structure?.files.length ?? null };
+    case "tar":
+      return { archiveEntries: result.parsed.entries.length };
+    case "rar":
+      return { archiveEntries: result.parsed.entries.length };
+    case "iso9660":
+      return { archiveEntries: result.parsed.traversal?.scannedFiles ?? null };
+    default:
+      return {};
+  }
+};
+
+// Reduces a parse result to the handful of facts a folder overview groups and exports by.
+export const describeTriageFacts = (result: ParseForUiResult): TriageFacts => ({
+  ...EMPTY_FACTS,
+  ...describeFormat(result),
+  analyzer: result.analyzer
+});
@@ -0,0 +1,60 @@
+"use strict";
+
+import type { TriageBucket, TriageRecord, TriageStatistics } from "./types.js";
+
+const KIB = 1024;
+const MIB = 1024 * KIB;
+
+const SIZE_BUCKETS: ReadonlyArray<readonly [number, string]> = [
+  [4 * KIB, "Under 4 KB"],
+  [MIB, "4 KB to 1 MB"],
+  [16 * MIB, "1 MB to 16 MB"],
+  [256 * MIB, "16 MB to 256 MB"],
+  [Infinity, "256 MB and larger"]
+];
+
+type ReadableRecord = TriageRecord & { size: number };
+
+// The last bucket has no upper limit, so every size finds one.
+const sizeLabel = (size: number): string => SIZE_BUCKETS.find(([limit]) => size < limit)?.[1] ?? "";
+
+const isReadable = (record: TriageRecord): record is ReadableRecord => record.size != null;
+
+const signingLabel = (record: TriageRecord): string => {
+  if (!record.facts) return "Not parsed";
+  if (record.facts.signed == null) return "Not a PE file";
+  return record.facts.signed ? "Signed" : "Unsigned";
+};
+
+const groupBy = (
+  records: readonly ReadableRecord[],
+  labelOf: (record: ReadableRecord) => string
+): Map<string, TriageBucket> => {
+  const buckets = new Map<string, TriageBucket>();
+  for (const record of records) {
+    const label = labelOf(record);
+    const bucket = buckets.get(label) ?? { label, count: 0, bytes: 0 };
+    bucket.count += 1;
+    bucket.bytes += record.size;
+    buckets.set(label, bucket);
+  }
+  return buckets;
+};
+
+const byCount = (first: TriageBucket, second: TriageBucket): number =>
+  second.count - first.count || first.label.localeCompare(second.label);
+
+// Groups the readable files of a scan by detected type, size range and Authenticode status.
+// Size ranges keep their natural order and list empty ranges too so that charts line up.
+export const summarizeTriage = (records: readonly TriageRecord[]): TriageStatistics => {
+  const readable = records.filter(isReadable);
+  const sizes = groupBy(readable, record => sizeLabel(record.size));
+  return {
+    files: readable.length,
+    totalBytes: readable.reduce((total, record) => total + record.size, 0),
+    unreadable: records.length - readable.length,
+    byType: [...groupBy(readable, record => record.detectedType ?? "Unknown").values()].sort(byCount),
+    bySize: SIZE_BUCKETS.map(([, label]) => sizes.get(label) ?? { label, count: 0, bytes: 0 }),
+    bySigning: [...groupBy(readable, signingLabel).values()].sort(byCount)
+  };
+};
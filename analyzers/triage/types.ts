@@ -0,0 +1,44 @@
+"use strict";
+
+import type { AnalyzerName } from "../analyzer-types.js";
+import type { KnownHashAlgorithm, KnownHashVerdict } from "../known-hashes/types.js";
+
+// Per-format facts worth comparing across a folder; null where the format has no such field.
+export interface TriageFacts {
+  analyzer: AnalyzerName | null;
+  machine: string | null;
+  subsystem: string | null;
+  // Authenticode signature present (PE only).
+  signed: boolean | null;
+  packer: string | null;
+  interpreter: string | null;
+  archiveEntries: number | null;
+}
+
+// One row of a folder scan as exported. Hashes and facts are only filled in by a deep scan.
+export interface TriageRecord {
+  path: string;
+  size: number | null;
+  mimeType: string | null;
+  lastModified: string | null;
+  detectedType: string | null;
+  error: string | null;
+  hashes: Partial<Record<KnownHashAlgorithm, string>>;
+  knownHash: KnownHashVerdict | null;
+  facts: TriageFacts | null;
+}
+
+export interface TriageBucket {
+  label: string;
+  count: number;
+  bytes: number;
+}
+
+export interface TriageStatistics {
+  files: number;
+  totalBytes: number;
+  unreadable: number;
+  byType: TriageBucket[];
+  bySize: TriageBucket[];
+  bySigning: TriageBucket[];
+}
@@ -1,7 +1,9 @@
 "use strict";
 
+import { resolveAssetUrl } from "../asset-url.js";
+
 const getIcedX86ModuleUrl = (): string =>
-  new URL(`${import.meta.env.BASE_URL}vendor/iced-x86/iced_x86.js`, window.location.href).href;
+  resolveAssetUrl(`${import.meta.env.BASE_URL}vendor/iced-x86/iced_x86.js`);
 
 export const loadIcedX86 = async (): Promise<unknown> =>
   import(/* @vite-ignore */ getIcedX86ModuleUrl());
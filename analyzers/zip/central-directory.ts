@@ -1,6 +1,7 @@
 "use strict";
 
 import { formatUnixSecondsOrDash } from "../../binary-utils.js";
+import { reportDiagnostic, type DiagnosticLog } from "../diagnostics/index.js";
 import {
   CENTRAL_DIR_SIGNATURE,
   COMPRESSION_METHODS,
@@ -50,9 +51,11 @@ const parseZip64Extra = (
   }
 };
 
+// `baseOffset` is the file offset of the first byte of `dv`, for the diagnostics.
 const parseCentralDirectoryEntries = (
   dv: DataView,
-  issues: string[]
+  baseOffset: number,
+  log: DiagnosticLog
 ): ZipCentralDirectoryEntry[] => {
   const entries: ZipCentralDirectoryEntry[] = [];
   let cursor = 0;
@@ -75,7 +78,13 @@ const parseCentralDirectoryEntries = (
     const localHeaderOffset = dv.getUint32(cursor + 42, true);
     const totalLength = 46 + nameLength + extraLength + commentLength;
     if (cursor + totalLength > dv.byteLength) {
-      issues.push("Central directory entry is truncated.");
+      reportDiagnostic(log, {
+        code: "zip.central-directory-entry-truncated",
+        severity: "error",
+        message: "Central directory entry is truncated.",
+        offset: baseOffset + cursor,
+        length: dv.byteLength - cursor
+      });
       break;
     }
     const nameBytes = new Uint8Array(
@@ -133,7 +142,13 @@ const parseCentralDirectoryEntries = (
     index += 1;
   }
   if (cursor < dv.byteLength) {
-    issues.push("Central directory parsing stopped early due to unexpected data.");
+    reportDiagnostic(log, {
+      code: "zip.central-directory-unexpected-data",
+      severity: "warning",
+      message: "Central directory parsing stopped early due to unexpected data.",
+      offset: baseOffset + cursor,
+      length: dv.byteLength - cursor
+    });
   }
   return entries;
 };
@@ -1,6 +1,7 @@
 "use strict";
 
 import { readAsciiString } from "../../binary-utils.js";
+import { reportDiagnostic, type DiagnosticLog } from "../diagnostics/index.js";
 import {
   EOCD_SIGNATURE,
   MAX_EOCD_SCAN,
@@ -74,31 +75,58 @@ const findZip64Locator = (dv: DataView, baseOffset: number): Zip64Locator | null
 const parseZip64Eocd = async (
   file: File,
   locator: Zip64Locator,
-  issues: string[]
+  log: DiagnosticLog
 ): Promise<Zip64EndOfCentralDirectory | null> => {
   const offsetNumber = getSafeNumber(locator.zip64EocdOffset);
   if (offsetNumber == null) {
-    issues.push("ZIP64 EOCD offset exceeds supported range.");
+    reportDiagnostic(log, {
+      code: "zip.zip64-eocd-offset-unsupported",
+      severity: "error",
+      message: "ZIP64 EOCD offset exceeds supported range.",
+      offset: locator.offset
+    });
     return null;
   }
   const headerView = await readDataView(file, offsetNumber, 12);
   if (!headerView || headerView.byteLength < 12) {
-    issues.push("ZIP64 EOCD record is truncated or missing.");
+    reportDiagnostic(log, {
+      code: "zip.zip64-eocd-missing",
+      severity: "error",
+      message: "ZIP64 EOCD record is truncated or missing.",
+      offset: offsetNumber
+    });
     return null;
   }
   if (headerView.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
-    issues.push("ZIP64 EOCD signature mismatch.");
+    reportDiagnostic(log, {
+      code: "zip.zip64-eocd-signature-mismatch",
+      severity: "error",
+      message: "ZIP64 EOCD signature mismatch.",
+      offset: offsetNumber,
+      length: 4
+    });
     return null;
   }
   const recordSize = headerView.getBigUint64(4, true);
   const totalSize = getSafeNumber(recordSize + 12n);
   if (totalSize == null || totalSize > 1048576) {
-    issues.push("ZIP64 EOCD record is too large to inspect.");
+    reportDiagnostic(log, {
+      code: "zip.zip64-eocd-too-large",
+      severity: "warning",
+      message: "ZIP64 EOCD record is too large to inspect.",
+      offset: offsetNumber
+    });
     return null;
   }
   const dv = await readDataView(file, offsetNumber, totalSize);
   if (!dv || dv.byteLength < 56) {
-    issues.push("ZIP64 EOCD record is truncated.");
+    reportDiagnostic(log, {
+      code: "zip.zip64-eocd-truncated",
+      severity: "error",
+      message: "ZIP64 EOCD record is truncated.",
+      offset: offsetNumber,
+      length: totalSize
+    });
     return null;
   }
   const result: Zip64EndOfCentralDirectory = {
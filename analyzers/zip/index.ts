@@ -4,18 +4,19 @@ import {
   MAX_CENTRAL_DIRECTORY_BYTES,
   MIN_LOCAL_HEADER_SIZE
 } from "./constants.js";
+import { reportDiagnostic, type DiagnosticLog } from "../diagnostics/index.js";
 import { annotateEntryDataOffsets, parseCentralDirectoryEntries } from "./central-directory.js";
 import { getSafeNumber, readDataView } from "./io.js";
 import { findZip64Locator, parseEocd, parseZip64Eocd, readTailForEocd } from "./eocd.js";
 import type { ZipParseResult } from "./types.js";
 
 const parseZip = async (file: File): Promise<ZipParseResult | null> => {
-  const issues: string[] = [];
+  const log: DiagnosticLog = { issues: [], diagnostics: [] };
   const { baseOffset, dv: tailView } = await readTailForEocd(file);
   const eocd = parseEocd(tailView, baseOffset);
   if (!eocd) return null;
   const zip64Locator = findZip64Locator(tailView, baseOffset);
-  const zip64 = zip64Locator ? await parseZip64Eocd(file, zip64Locator, issues) : null;
+  const zip64 = zip64Locator ? await parseZip64Eocd(file, zip64Locator, log) : null;
   const expectsZip64 =
     eocd.entriesThisDisk === 0xffff ||
     eocd.totalEntries === 0xffff ||
@@ -23,13 +24,19 @@ const parseZip = async (file: File): Promise<ZipParseResult | null> => {
     eocd.centralDirOffset === 0xffffffff;
   if (expectsZip64) {
     if (!zip64Locator) {
-      issues.push(
-        "EOCD fields use ZIP64 placeholders but ZIP64 locator was not found."
-      );
+      reportDiagnostic(log, {
+        code: "zip.zip64-locator-missing",
+        severity: "error",
+        message: "EOCD fields use ZIP64 placeholders but ZIP64 locator was not found.",
+        offset: eocd.offset
+      });
     } else if (!zip64) {
-      issues.push(
-        "ZIP64 metadata could not be read even though EOCD fields require it."
-      );
+      reportDiagnostic(log, {
+        code: "zip.zip64-metadata-unreadable",
+        severity: "error",
+        message: "ZIP64 metadata could not be read even though EOCD fields require it.",
+        offset: zip64Locator.offset
+      });
     }
   }
   const cdOffsetSource = zip64?.centralDirOffset ?? eocd.centralDirOffset;
@@ -37,26 +44,46 @@ const parseZip = async (file: File): Promise<ZipParseResult | null> => {
   const cdOffset = getSafeNumber(cdOffsetSource);
   const cdSize = getSafeNumber(cdSizeSource);
   if (cdOffset == null || cdSize == null) {
-    issues.push("Central directory offset or size is outside supported range.");
-    return { eocd, zip64Locator, zip64, centralDirectory: null, issues };
+    reportDiagnostic(log, {
+      code: "zip.central-directory-range-unsupported",
+      severity: "error",
+      message: "Central directory offset or size is outside supported range.",
+      offset: zip64?.offset ?? eocd.offset
+    });
+    return { eocd, zip64Locator, zip64, centralDirectory: null, ...log };
   }
   const cdEnd = cdOffset + cdSize;
   const fileSize = file.size || 0;
   const truncated = cdEnd > fileSize;
   if (truncated) {
-    issues.push("Central directory extends beyond the file size.");
+    reportDiagnostic(log, {
+      code: "zip.central-directory-truncated",
+      severity: "error",
+      message: "Central directory extends beyond the file size.",
+      offset: cdOffset,
+      length: cdSize
+    });
   }
   const limitedSize = Math.min(cdSize, MAX_CENTRAL_DIRECTORY_BYTES, fileSize - cdOffset);
   const cdView = await readDataView(file, cdOffset, limitedSize);
   if (!cdView) {
-    issues.push("Central directory could not be read.");
-    return { eocd, zip64Locator, zip64, centralDirectory: null, issues };
+    reportDiagnostic(log, {
+      code: "zip.central-directory-unreadable",
+      severity: "error",
+      message: "Central directory could not be read.",
+      offset: cdOffset,
+      length: cdSize
+    });
+    return { eocd, zip64Locator, zip64, centralDirectory: null, ...log };
   }
-  const entries = parseCentralDirectoryEntries(cdView, issues);
+  const entries = parseCentralDirectoryEntries(cdView, cdOffset, log);
   if (eocd && entries.length !== eocd.totalEntries) {
-    issues.push(
-      `EOCD reports ${eocd.totalEntries} entries but parsed ${entries.length}.`
-    );
+    reportDiagnostic(log, {
+      code: "zip.entry-count-mismatch",
+      severity: "warning",
+      message: `EOCD reports ${eocd.totalEntries} entries but parsed ${entries.length}.`,
+      offset: eocd.offset
+    });
   }
   await annotateEntryDataOffsets(file, entries);
   const result: ZipParseResult = {
@@ -70,7 +97,7 @@ const parseZip = async (file: File): Promise<ZipParseResult | null> => {
       truncated,
       entries
     },
-    issues
+    ...log
   };
   return result;
 };
@@ -1,5 +1,7 @@
 "use strict";
 
+import type { ReportedDiagnostic } from "../diagnostics/index.js";
+
 export interface ZipEndOfCentralDirectory {
   offset: number;
   diskNumber: number;
@@ -77,4 +79,5 @@ export interface ZipParseResult {
   zip64: Zip64EndOfCentralDirectory | null;
   centralDirectory: ZipCentralDirectoryInfo | null;
   issues: string[];
+  diagnostics: ReportedDiagnostic[];
 }
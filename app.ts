@@ -1,32 +1,41 @@
 "use strict";
 import { nowIsoString, formatHumanSize } from "./binary-utils.js";
-import { detectBinaryType, parseForUi, type ParseForUiResult } from "./analyzers/index.js";
+import { detectBinaryType, type ParseForUiResult } from "./analyzers/index.js";
 import { renderAnalysisIntoUi as renderParsedResult } from "./ui/render-analysis.js";
 import { attachPreviewGuards, buildPreviewHtml } from "./ui/preview.js";
-import { HASH_ALGORITHMS, computeAndDisplayHash, copyHashToClipboard, resetHashDisplay } from "./ui/hash-controls.js";
+import { bindHashPanel } from "./ui/hash-panel.js";
+import { bindKnownHashesPanel } from "./ui/known-hashes.js";
+import { bindCatalogsPanel } from "./ui/catalogs.js";
+import { bindTrustProfilesPanel } from "./ui/trust-profiles.js";
+import { createPdbSymbolSession } from "./ui/pdb-symbols.js";
 import { createFileActionClickHandler } from "./ui/file-actions.js";
-import { isPeWindowsParseResult } from "./analyzers/pe/index.js";
+import { createFileParseController } from "./ui/parse-worker-client.js";
 import { handlePeEntrypointJumpClick } from "./ui/pe-entrypoint-navigation.js";
 import { createAnalysisPanelActions } from "./ui/analysis-panel-actions.js";
-import {
-  refreshElfInstructionSetsPanel,
-  refreshPeEntrypointDisassemblyPanel,
-  refreshPeInstructionSetsPanel
-} from "./ui/analysis-panel-refresh.js";
 import { copyManifestPreviewToClipboard } from "./ui/manifest-preview-copy.js";
 import { handleManifestTreeActionClick, syncManifestTreeControls } from "./ui/manifest-tree-controls.js";
 import { captureOpenDetails, restoreOpenDetails } from "./ui/details-open-state.js";
 import { enhanceSortableTables, handleSortableTableClick } from "./ui/sortable-tables.js";
+import { handleFindingsFilterClick } from "./ui/findings-filter.js";
 import { enhanceAnalysisEntrypointExplorer, enhanceAnalysisPagedTables } from "./ui/analysis-paged-tables.js";
 import { capturePagedSortableTableState } from "./ui/paged-sortable-tables.js";
 import { enhancePeLazySections } from "./ui/pe-lazy-sections.js";
 import { createDirectoryInspectionController, type DirectoryInspectionController } from "./ui/directory-inspection.js";
+import { bindDirectoryTriagePanel } from "./ui/directory-triage.js";
 import { createInspectionNavigationController } from "./ui/inspection-navigation.js";
 import { attachSelectionInputs } from "./ui/selection-inputs.js";
 import { createFileInspectionContext } from "./ui/file-inspection-context.js";
 import { setFileBinaryTypeLabel, setFileSubtypeLabel } from "./ui/file-type-label.js";
-import { addAccessibleTooltip, addAccessibleTooltipToButton, enhanceAccessibleTooltips } from "./ui/accessible-tooltips.js";
+import { addAccessibleTooltip, enhanceAccessibleTooltips } from "./ui/accessible-tooltips.js";
 import { attachPeFileIconGuard, renderPeFileIcon } from "./ui/pe-file-icon.js";
+import { createReportExportClickHandler } from "./ui/report-export.js";
+import { createHexViewerController } from "./ui/hex-viewer.js";
+import { createDetectionRulesController } from "./ui/detection-rules.js";
+import { bindFilePanels } from "./ui/file-panels.js";
+import { createFileCompareController } from "./ui/file-compare.js";
+import { createWorkspaceTabsController } from "./ui/workspace-tabs.js";
+import { createWorkspaceStore } from "./ui/workspace-store.js";
+import type { WorkspaceViewState } from "./ui/workspace-model.js";
 const getElement = (id: string) => document.getElementById(id)!;
 const html = (id: string): HTMLElement => getElement(id) as HTMLElement;
 const dropZoneElement = getElement("dropZone") as HTMLElement,
@@ -47,20 +56,30 @@ const dropZoneElement = getElement("dropZone") as HTMLElement,
   analysisValueElement = getElement("analysisValue") as HTMLElement,
   hashDetailsElement = getElement("hashDetails") as HTMLDetailsElement;
 attachPeFileIconGuard(fileIconElement, fileIconWrapElement);
-const fileInspectionContext = createFileInspectionContext(html);
-const hashControls = HASH_ALGORITHMS.map(algorithm => ({
-  algorithm,
-  label: algorithm.label,
-  valueElement: getElement(`${algorithm.id}Value`) as HTMLElement,
-  buttonElement: getElement(`${algorithm.id}ComputeButton`) as HTMLButtonElement,
-  copyButtonElement: getElement(`${algorithm.id}CopyButton`) as HTMLButtonElement,
-  nativeHashBadgeElement: document.getElementById(`${algorithm.id}NativeBadge`) as HTMLButtonElement | null ?? undefined
-}));
-hashControls.forEach(control => {
-  if (control.nativeHashBadgeElement) addAccessibleTooltipToButton(
-    control.nativeHashBadgeElement, control.nativeHashBadgeElement.title
-  );
+const hexViewer = createHexViewerController(getElement("hexDetails") as HTMLDetailsElement, analysisValueElement);
+const detectionRules = createDetectionRulesController({
+  detailsElement: getElement("rulesDetails") as HTMLDetailsElement,
+  sourceElement: getElement("rulesSource") as HTMLTextAreaElement,
+  applyButtonElement: getElement("rulesApplyButton") as HTMLButtonElement,
+  loadButtonElement: getElement("rulesLoadButton") as HTMLButtonElement,
+  fileInputElement: getElement("rulesFileInput") as HTMLInputElement,
+  summaryElement: html("rulesSummaryCount"),
+  resultsElement: html("rulesResults")
+});
+hexViewer.linkRanges(html("rulesResults"));
+const fileInspectionContext =
+  createFileInspectionContext(html, (file, context) => inspectionNavigation.openFile(file, context));
+const filePanels = bindFilePanels(html, {
+  analysisElement: analysisValueElement, linkRanges: element => hexViewer.linkRanges(element),
+  analyzeEntry: fileInspectionContext.openEntry
 });
+const catalogs = bindCatalogsPanel(html);
+const trustProfiles = bindTrustProfilesPanel(html);
+void trustProfiles.restore();
+const pdbSymbols = createPdbSymbolSession();
+const resetFilePanels = (): void => {
+  hexViewer.reset(); detectionRules.reset(); filePanels.reset(); catalogs.reset(); trustProfiles.reset();
+};
 let currentFile: File | null = null; let currentPreviewUrl: string | null = null;
 let currentTypeLabel = ""; let currentParseResult: ParseForUiResult = { analyzer: null, parsed: null };
 let fileInspectionGeneration = 0;
@@ -69,11 +88,17 @@ const setPreviewUrl = (url: string | null): void => {
   currentPreviewUrl = url;
 };
 const setStatusMessage = (message: string | null | undefined): void => { statusElement.textContent = message || ""; };
+const knownHashes = bindKnownHashesPanel(html);
+void knownHashes.restore();
+const hashPanel = bindHashPanel(html, { getCurrentFile: () => currentFile, setStatusMessage, knownHashes });
 const formatAnalysisDuration = (durationMs: number): string =>
   durationMs < 1000 ? `${Math.max(0, Math.round(durationMs))} ms` : `${(durationMs / 1000).toFixed(2)} s`;
-const renderResult = (result: ParseForUiResult): void => {
-  const openDetails = captureOpenDetails(analysisValueElement);
-  const pagedTables = capturePagedSortableTableState(analysisValueElement);
+const captureAnalysisView = (): WorkspaceViewState => ({
+  openDetails: captureOpenDetails(analysisValueElement),
+  pagedTables: capturePagedSortableTableState(analysisValueElement)
+});
+const renderResult = (result: ParseForUiResult, savedView: WorkspaceViewState | null): void => {
+  const { openDetails, pagedTables } = savedView ?? captureAnalysisView();
   renderParsedResult(result, {
     buildPreview: () =>
       buildPreviewHtml({ file: currentFile, typeLabel: currentTypeLabel, setPreviewUrl }),
@@ -90,16 +115,21 @@ const renderResult = (result: ParseForUiResult): void => {
 };
 const getCurrentFile = (): File | null => currentFile;
 const getCurrentParseResult = (): ParseForUiResult => currentParseResult;
-const { peDisassembly, peEntrypointDisassembly, peOverlayScan, elfDisassembly } =
-  createAnalysisPanelActions(getCurrentFile, getCurrentParseResult, setStatusMessage);
+const analysisPanels = createAnalysisPanelActions(getCurrentFile, getCurrentParseResult, setStatusMessage);
+const { peDisassembly, peEntrypointDisassembly, peOverlayScan, elfDisassembly } = analysisPanels;
 const fileActionClickHandler = createFileActionClickHandler({
-  getParseResult: getCurrentParseResult, getFile: getCurrentFile, setStatusMessage
+  getParseResult: getCurrentParseResult, getFile: getCurrentFile, setStatusMessage,
+  analyzeEntry: fileInspectionContext.openEntry
+});
+const fileParse = createFileParseController();
+const fileCompare = createFileCompareController({
+  openButtonElement: getElement("compareOpenButton") as HTMLButtonElement,
+  inputElement: getElement("compareFileInput") as HTMLInputElement,
+  cardElement: html("compareCard"), bodyElement: html("compareBody"),
+  beforeShow: () => { directoryInspection.hide(); resetFileInspectionView(); }, setStatusMessage
 });
 const cancelActiveAnalysis = (): void => {
-  peDisassembly.cancel();
-  peEntrypointDisassembly.cancel();
-  peOverlayScan.cancel();
-  elfDisassembly.cancel();
+  [fileParse, peDisassembly, peEntrypointDisassembly, peOverlayScan, elfDisassembly].forEach(task => task.cancel());
 };
 const resetFileInspectionView = (): void => {
   fileInspectionGeneration += 1;
@@ -116,7 +146,9 @@ const resetFileInspectionView = (): void => {
   analysisValueElement.innerHTML = "";
   fileAnalysisDurationDetailElement.textContent = "";
   hashDetailsElement.open = false;
-  resetHashDisplay(...hashControls);
+  hashPanel.reset();
+  resetFilePanels();
+  fileCompare.hide();
   fileInspectionContext.clear();
 };
 const showEmptyInspection = (message: string | null): void => {
@@ -127,7 +159,8 @@ const showEmptyInspection = (message: string | null): void => {
 const inspectionNavigation = createInspectionNavigationController({
   openDirectoryRoute: route => { void directoryInspection.showRoute(route); },
   openEmptyRoute: showEmptyInspection,
-  openFileRoute: showFileInfo
+  openFileRoute: showFileInfo,
+  onOpenRoute: route => workspace.handleRoute(route)
 });
 const directoryInspection: DirectoryInspectionController = createDirectoryInspectionController({
   openButtonElement: getElement("directoryOpenButton") as HTMLButtonElement,
@@ -147,9 +180,22 @@ const directoryInspection: DirectoryInspectionController = createDirectoryInspec
   resetFileInspection: resetFileInspectionView,
   setStatusMessage,
   openFile: inspectionNavigation.openFile,
-  openDirectory: inspectionNavigation.openDirectory
+  openDirectory: inspectionNavigation.openDirectory,
+  lookupKnownHashes: knownHashes.lookupFile,
+  triage: bindDirectoryTriagePanel(html)
+});
+const workspace = createWorkspaceTabsController({
+  barElement: html("workspaceBar"), tabListElement: html("workspaceTabs"),
+  persistToggleElement: getElement("workspacePersistToggle") as HTMLInputElement,
+  forgetButtonElement: getElement("workspaceForgetButton") as HTMLButtonElement,
+  preferenceRoot: document, store: createWorkspaceStore(),
+  captureView: () => analysisValueElement.hidden ? null : captureAnalysisView(),
+  openFile: inspectionNavigation.openFile,
+  openDirectory: route => { inspectionNavigation.openDirectory(route); void directoryInspection.showRoute(route); },
+  openEmpty: () => showEmptyInspection(null), setStatusMessage
 });
 inspectionNavigation.initialize();
+void workspace.restore();
 attachSelectionInputs({
   directoryInspection,
   dropZoneElement,
@@ -169,70 +215,14 @@ analysisValueElement.addEventListener("click", event => {
   }
   if (handleManifestTreeActionClick(targetElement)) { event.preventDefault(); return; }
   if (handleSortableTableClick(targetElement)) { event.preventDefault(); return; }
+  if (handleFindingsFilterClick(targetElement)) { event.preventDefault(); return; }
   if (handlePeEntrypointJumpClick(targetElement, analysisValueElement)) { event.preventDefault(); return; }
-  const peAnalyzeButton = targetElement?.closest("#peInstructionSetsAnalyzeButton");
-  const peCancelButton = targetElement?.closest("#peInstructionSetsCancelButton");
-  const peEntrypointButton = targetElement?.closest("#peEntrypointDisassembleButton");
-  const elfAnalyzeButton = targetElement?.closest("#elfInstructionSetsAnalyzeButton");
-  const elfCancelButton = targetElement?.closest("#elfInstructionSetsCancelButton");
-  if (peAnalyzeButton) {
-    event.preventDefault();
-    if (!currentFile) return;
-    if (
-      currentParseResult.analyzer !== "pe" ||
-      !currentParseResult.parsed ||
-      !isPeWindowsParseResult(currentParseResult.parsed)
-    ) {
-      return;
-    }
-    delete currentParseResult.parsed.disassembly;
-    refreshPeInstructionSetsPanel(currentParseResult.parsed);
-    peDisassembly.start(currentFile, currentParseResult.parsed);
-    return;
-  }
-  if (peCancelButton) {
-    event.preventDefault();
-    peDisassembly.cancel();
-    return;
-  }
-  if (peEntrypointButton) {
-    event.preventDefault();
-    if (!currentFile) return;
-    if (
-      currentParseResult.analyzer !== "pe" ||
-      !currentParseResult.parsed ||
-      !isPeWindowsParseResult(currentParseResult.parsed)
-    ) {
-      return;
-    }
-    delete currentParseResult.parsed.entrypointDisassembly;
-    refreshPeEntrypointDisassemblyPanel(currentParseResult.parsed);
-    peEntrypointDisassembly.start(currentFile, currentParseResult.parsed);
-    return;
-  }
-  if (peOverlayScan.handleClick(targetElement)) {
-    event.preventDefault();
-    return;
-  }
-  if (elfAnalyzeButton) {
-    event.preventDefault();
-    if (!currentFile) return;
-    if (currentParseResult.analyzer !== "elf" || !currentParseResult.parsed) return;
-    delete currentParseResult.parsed.disassembly;
-    refreshElfInstructionSetsPanel(currentParseResult.parsed);
-    elfDisassembly.start(currentFile, currentParseResult.parsed);
-    return;
-  }
-  if (elfCancelButton) {
-    event.preventDefault();
-    elfDisassembly.cancel();
-    return;
-  }
+  if (analysisPanels.handleClick(targetElement)) { event.preventDefault(); return; }
   fileActionClickHandler(event);
 });
 const syncToggledManifestTree = (event: Event): void => syncManifestTreeControls(event.target as Element | null);
 analysisValueElement.addEventListener("toggle", syncToggledManifestTree, true);
-async function showFileInfo(file: File, context: Parameters<typeof fileInspectionContext.render>[0]): Promise<void> {
+async function showFileInfo(file: File, context: Parameters<typeof fileInspectionContext.render>[1]): Promise<void> {
   const currentGeneration = fileInspectionGeneration + 1;
   fileInspectionGeneration = currentGeneration;
   cancelActiveAnalysis();
@@ -241,7 +231,9 @@ async function showFileInfo(file: File, context: Parameters<typeof fileInspectio
   currentParseResult = { analyzer: null, parsed: null };
   renderPeFileIcon(null, "", fileIconElement, fileIconWrapElement);
   hashDetailsElement.open = false;
-  resetHashDisplay(...hashControls);
+  hashPanel.reset();
+  resetFilePanels();
+  fileCompare.hide();
   try {
     setPreviewUrl(null);
     fileInfoCardElement.hidden = true;
@@ -258,20 +250,27 @@ async function showFileInfo(file: File, context: Parameters<typeof fileInspectio
     fileNameDetailElement.textContent = file.name || "";
     fileSizeDetailElement.textContent = sizeText;
     fileTimestampDetailElement.textContent = timestampIso;
-    fileInspectionContext.render(context);
+    fileInspectionContext.render(file, context);
     setFileBinaryTypeLabel(fileBinaryTypeDetailElement, typeLabel, addAccessibleTooltip);
     setFileSubtypeLabel(fileSubtypeTermElement, fileSubtypeDetailElement, currentParseResult);
     fileMimeTypeDetailElement.textContent = mimeType;
     fileInfoCardElement.hidden = false;
-    setStatusMessage("Parsing file details...");
+    hashPanel.show(file);
     const analysisStart = performance.now();
-    const parsedResult = await parseForUi(file);
+    const parsedResult = workspace.cachedParseResult(file) ?? await fileParse.parse(file, setStatusMessage);
     if (fileInspectionGeneration !== currentGeneration) return;
+    workspace.storeParseResult(file, parsedResult);
     setFileSubtypeLabel(fileSubtypeTermElement, fileSubtypeDetailElement, parsedResult);
     fileAnalysisDurationDetailElement.textContent = formatAnalysisDuration(performance.now() - analysisStart);
+    pdbSymbols.observe(file, parsedResult);
     currentParseResult = parsedResult;
     renderPeFileIcon(parsedResult, file.name, fileIconElement, fileIconWrapElement);
-    renderResult(parsedResult);
+    renderResult(parsedResult, workspace.savedView(file));
+    hexViewer.show(file, parsedResult);
+    void detectionRules.show(file, parsedResult);
+    filePanels.show(file, parsedResult);
+    void catalogs.show(file, parsedResult);
+    void trustProfiles.show(parsedResult);
     setStatusMessage(null);
   } catch (error) {
     if (fileInspectionGeneration !== currentGeneration) return;
@@ -287,14 +286,7 @@ async function showFileInfo(file: File, context: Parameters<typeof fileInspectio
     analysisValueElement.innerHTML = "";
   }
 }
-hashControls.forEach(control => {
-  control.buttonElement.addEventListener("click", () => {
-    const file = currentFile;
-    void computeAndDisplayHash(control.algorithm, file, control, () => currentFile === file);
-  });
-  control.copyButtonElement.addEventListener("click", () => {
-    void copyHashToClipboard(control.valueElement).then(status => {
-      setStatusMessage(status === "copied" ? `${control.label} copied.` : "Clipboard copy failed.");
-    });
-  });
-});
+getElement("reportExportActions").addEventListener("click", createReportExportClickHandler({
+  detailsListElement: html("fileDetailsList"), analysisValueElement, hashControls: hashPanel.controls,
+  getFile: getCurrentFile, getParseResult: getCurrentParseResult, getTypeLabel: () => currentTypeLabel, setStatusMessage
+}));
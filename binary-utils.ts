@@ -72,6 +72,18 @@ export const bufferToHex = (arrayBuffer: ArrayBuffer | ArrayBufferView): string
     .map(byteValue => byteValue.toString(16).padStart(2, "0"))
     .join("");
 
+// String.fromCharCode takes one argument per byte, so long inputs are decoded in slices.
+const LATIN1_DECODE_SLICE = 0x2000;
+
+// Maps every byte to the character with the same code, so string offsets equal byte offsets.
+export const decodeLatin1 = (bytes: Uint8Array): string => {
+  let text = "";
+  for (let offset = 0; offset < bytes.length; offset += LATIN1_DECODE_SLICE) {
+    text += String.fromCharCode(...bytes.subarray(offset, offset + LATIN1_DECODE_SLICE));
+  }
+  return text;
+};
+
 export const alignUpTo = (value: number, alignment: number): number => {
   const normalizedAlignment = alignment >>> 0;
   if (!normalizedAlignment) return value >>> 0;
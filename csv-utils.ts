@@ -0,0 +1,14 @@
+"use strict";
+
+export type CsvValue = string | number | boolean | null;
+
+// Text cells a spreadsheet would read as a formula (file names, extracted strings and parser output
+// come from untrusted files) get a leading apostrophe, as OWASP's CSV injection guidance recommends.
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+// RFC 4180: fields with separators, quotes or line breaks are quoted and quotes are doubled.
+export const toCsvField = (value: CsvValue): string => {
+  const raw = value == null ? "" : String(value);
+  const text = typeof value === "string" && FORMULA_TRIGGER.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+};
@@ -0,0 +1,6 @@
+"use strict";
+
+// Text for a caught value in status lines and warnings: the Error message, or the value itself
+// when it is not an Error or carries no message.
+export const describeError = (error: unknown): string =>
+  error instanceof Error && error.message ? error.message : String(error);
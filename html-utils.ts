@@ -58,3 +58,13 @@ export const renderFlagChips = (
   return `<div class="optionsRow">${chips.join("")}
   </div>`;
 };
+
+// Marks markup that describes a byte range of the inspected file; the hex viewer selects
+// that range when the element is clicked.
+export const renderFileRangeAttributes = (start: number | bigint, size: number | bigint): string => {
+  const first = Number(start);
+  const length = Number(size);
+  return Number.isSafeInteger(first) && Number.isSafeInteger(length) && first >= 0 && length > 0
+    ? ` data-file-range-start="${first}" data-file-range-end="${first + length}"`
+    : "";
+};
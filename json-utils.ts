@@ -0,0 +1,25 @@
+"use strict";
+
+import { bufferToHex } from "./binary-utils.js";
+
+const toByteView = (value: ArrayBuffer | ArrayBufferView): Uint8Array =>
+  value instanceof ArrayBuffer
+    ? new Uint8Array(value)
+    : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+
+// Analyzer results use types JSON cannot represent. They are mapped deterministically:
+// bigint -> decimal string with an "n" suffix (as scripts/rustPeMatrix-analyze.ts writes them),
+// Map -> [key, value] entries in insertion order, Set -> array,
+// ArrayBuffer and views -> lowercase hex of the viewed bytes, Error -> { name, message }.
+// Functions and undefined are dropped as JSON.stringify always does.
+export const stableJsonReplacer = (_key: string, value: unknown): unknown => {
+  if (typeof value === "bigint") return `${value}n`;
+  if (value instanceof Map) return [...value.entries()];
+  if (value instanceof Set) return [...value];
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) return bufferToHex(toByteView(value));
+  if (value instanceof Error) return { name: value.name, message: value.message };
+  return value;
+};
+
+export const toStableJson = (value: unknown, indent?: number): string =>
+  JSON.stringify(value, stableJsonReplacer, indent);
@@ -0,0 +1,31 @@
+"use strict";
+
+import type { CarvedObject } from "../analyzers/carving/types.js";
+import { hex, humanSize } from "../binary-utils.js";
+import { escapeHtml, renderFileRangeAttributes } from "../html-utils.js";
+import { renderAnalyzeEntryButton, renderDownloadButton } from "./download-button.js";
+
+const carvedObjectAttributes = (object: CarvedObject): Array<readonly [string, number]> => [
+  ["data-carved-start", object.start],
+  ["data-carved-end", object.end]
+];
+
+const renderCarvedObjectRow = (object: CarvedObject, index: number): string =>
+  `<tr${renderFileRangeAttributes(object.start, object.size)}><td>${index + 1}</td>` +
+  `<td><span class="mono">${hex(object.start, 8)}</span>` +
+  `<div class="smallNote">to ${hex(object.end, 8)}</div></td>` +
+  `<td>${humanSize(object.size)}</td>` +
+  `<td>${escapeHtml(object.label)}<div class="smallNote">${escapeHtml(object.endDescription)}</div></td>` +
+  `<td>${renderDownloadButton(`Download carved object ${index + 1}`, [["data-carved-download"], ...carvedObjectAttributes(object)])} ` +
+  `${renderAnalyzeEntryButton("", [["data-carved-download"], ...carvedObjectAttributes(object)])}</td></tr>`;
+
+export const renderCarvedObjects = (objects: readonly CarvedObject[]): string => {
+  if (!objects.length) return `<p class="smallNote">No embedded file signature with a valid structure was found.</p>`;
+  const unknown = objects.filter(object => !object.lengthKnown).length;
+  return `<p class="smallNote">${objects.length} embedded object${objects.length === 1 ? "" : "s"} found` +
+    (unknown ? `; ${unknown} without a known length.` : ".") + `</p>` +
+    `<div class="tableWrap"><table class="table carvedObjectsTable"><thead><tr><th>#</th><th>Offset</th>` +
+    `<th>Length</th><th>Type</th><th>Action</th></tr></thead><tbody>` +
+    objects.map(renderCarvedObjectRow).join("") +
+    `</tbody></table></div>`;
+};
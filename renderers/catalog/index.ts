@@ -0,0 +1,118 @@
+"use strict";
+
+import { escapeHtml, renderDefinitionRow } from "../../html-utils.js";
+import { formatHumanSize } from "../../binary-utils.js";
+import type {
+  CatalogAttribute,
+  CatalogMember,
+  CatalogParseResult,
+  CatalogTrust,
+  CatalogTrustStatus
+} from "../../analyzers/catalog/types.js";
+import { renderAuthenticodeTree } from "../pe/security-tree.js";
+
+const MEMBER_ROW_LIMIT = 500;
+
+const TRUST_LABELS: Readonly<Record<CatalogTrustStatus, string>> = {
+  trusted: "Trusted",
+  untrusted: "Not trusted",
+  invalid: "Invalid signature"
+};
+
+export const renderCatalogTrustBadge = (trust: CatalogTrust): string =>
+  `<span class="catalogTrustBadge catalogTrustBadge--${trust.status}" title="${escapeHtml(trust.reason)}">` +
+  `${TRUST_LABELS[trust.status]}</span>`;
+
+const renderAttributes = (attributes: readonly CatalogAttribute[]): string =>
+  attributes.length
+    ? attributes.map(attribute =>
+      `<span class="mono">${escapeHtml(attribute.name)}</span>=${escapeHtml(attribute.value)}`).join("<br>")
+    : "-";
+
+const renderOverview = (catalog: CatalogParseResult, out: string[]): void => {
+  out.push(`<section>`);
+  out.push(`<h4 style="margin:0 0 .5rem 0;font-size:.9rem">Catalog overview</h4>`);
+  out.push(`<dl>`);
+  out.push(renderDefinitionRow(
+    "Trust",
+    `${renderCatalogTrustBadge(catalog.trust)} ${escapeHtml(catalog.trust.reason)}`,
+    "Trusted catalogs vouch for their members: a PE whose Authenticode digest is listed counts as signed."
+  ));
+  out.push(renderDefinitionRow("Size", escapeHtml(formatHumanSize(catalog.size))));
+  out.push(renderDefinitionRow("Version", catalog.version != null ? `v${catalog.version + 1}` : "v1 (default)"));
+  out.push(renderDefinitionRow("Subject usage", escapeHtml(catalog.subjectUsage.join(", ") || "-")));
+  out.push(renderDefinitionRow("List identifier", `<span class="mono">${escapeHtml(catalog.listIdentifier ?? "-")}</span>`));
+  out.push(renderDefinitionRow("Sequence number", `<span class="mono">${escapeHtml(catalog.sequenceNumber ?? "-")}</span>`));
+  out.push(renderDefinitionRow("This update", escapeHtml(catalog.thisUpdate ?? "-")));
+  out.push(renderDefinitionRow("Next update", escapeHtml(catalog.nextUpdate ?? "-")));
+  out.push(renderDefinitionRow("Member format", escapeHtml(catalog.subjectAlgorithm ?? "-")));
+  out.push(renderDefinitionRow("Members", String(catalog.members.length)));
+  out.push(renderDefinitionRow("Catalog attributes", renderAttributes(catalog.attributes)));
+  out.push(`</dl>`);
+  out.push(`</section>`);
+};
+
+const renderSignature = (catalog: CatalogParseResult, out: string[]): void => {
+  // The signature tree is shared with PE Authenticode; a catalog is the whole file.
+  const tree = renderAuthenticodeTree({
+    offset: 0,
+    length: catalog.size,
+    availableBytes: catalog.size,
+    revision: 0,
+    revisionName: "",
+    certificateType: 0,
+    typeName: "Security catalog",
+    authenticode: {
+      ...catalog.signature,
+      ...(catalog.verification ? { verification: catalog.verification } : {})
+    }
+  });
+  out.push(`<section>`);
+  out.push(`<h4 style="margin:0 0 .5rem 0;font-size:.9rem">Signature</h4>`);
+  out.push(tree || `<div class="smallNote">No signer information.</div>`);
+  out.push(`</section>`);
+};
+
+const memberFileName = (member: CatalogMember): string =>
+  member.attributes.find(attribute => attribute.name.toLowerCase() === "file")?.value ?? "";
+
+const renderMemberRow = (member: CatalogMember, index: number): string => {
+  const digest = member.digest ?? member.tag;
+  const otherAttributes = member.attributes.filter(attribute => attribute.name.toLowerCase() !== "file");
+  return `<tr><td>${index + 1}</td><td>${escapeHtml(memberFileName(member) || "-")}</td>` +
+    `<td>${escapeHtml(member.digestAlgorithm ?? "-")}</td>` +
+    `<td class="mono">${escapeHtml(digest)}</td>` +
+    `<td>${escapeHtml(member.subjectType ?? "-")}</td>` +
+    `<td>${renderAttributes(otherAttributes)}</td></tr>`;
+};
+
+const renderMembers = (catalog: CatalogParseResult, out: string[]): void => {
+  if (!catalog.members.length) return;
+  const visible = catalog.members.slice(0, MEMBER_ROW_LIMIT);
+  out.push(`<section>`);
+  out.push(`<h4 style="margin:0 0 .5rem 0;font-size:.9rem">Members</h4>`);
+  out.push(
+    `<div class="tableWrap"><table class="table"><thead><tr>` +
+    `<th>#</th><th>File</th><th>Algorithm</th><th>Digest</th><th>Subject type</th><th>Attributes</th>` +
+    `</tr></thead><tbody>${visible.map(renderMemberRow).join("")}</tbody></table></div>`
+  );
+  if (catalog.members.length > visible.length) {
+    out.push(`<div class="smallNote">Showing the first ${visible.length} of ${catalog.members.length} members.</div>`);
+  }
+  out.push(`</section>`);
+};
+
+export function renderCatalog(catalog: CatalogParseResult | null): string {
+  if (!catalog) return "";
+  const out: string[] = [];
+  renderOverview(catalog, out);
+  renderSignature(catalog, out);
+  renderMembers(catalog, out);
+  if (catalog.warnings.length) {
+    out.push(`<section>`);
+    out.push(`<h4 style="margin:0 0 .5rem 0;font-size:.9rem">Warnings</h4>`);
+    out.push(`<ul>${catalog.warnings.map(warning => `<li>${escapeHtml(warning)}</li>`).join("")}</ul>`);
+    out.push(`</section>`);
+  }
+  return out.join("");
+}
@@ -0,0 +1,44 @@
+"use strict";
+
+import type { CatalogMatch, LoadedCatalog } from "../../analyzers/catalog/types.js";
+import { escapeHtml } from "../../html-utils.js";
+import { renderCatalogTrustBadge } from "./index.js";
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const describeMatch = ({ source, member }: CatalogMatch): string => {
+  const file = member.attributes.find(attribute => attribute.name.toLowerCase() === "file")?.value;
+  return `catalog ${escapeHtml(source.name)}` +
+    (file ? ` (listed as <span class="mono">${escapeHtml(file)}</span>)` : "");
+};
+
+// The file info card row: the catalogs that list the shown PE image, trusted ones first.
+export const renderCatalogStatus = (
+  matches: readonly CatalogMatch[] | null,
+  catalogCount: number
+): string => {
+  if (!matches) return `<span class="dim">Checking against ${plural(catalogCount, "catalog")}...</span>`;
+  const trusted = matches.filter(match => match.source.catalog.trust.status === "trusted");
+  if (trusted.length) {
+    return `${renderCatalogTrustBadge(trusted[0]!.source.catalog.trust)} Signed via ` +
+      trusted.map(describeMatch).join("; ");
+  }
+  if (matches.length) {
+    return matches.map(match =>
+      `${renderCatalogTrustBadge(match.source.catalog.trust)} Listed in ${describeMatch(match)}, ` +
+      `which is not trusted: ${escapeHtml(match.source.catalog.trust.reason)}`).join("<br>");
+  }
+  return `<span class="dim">Authenticode digest is not listed in any of ${plural(catalogCount, "catalog")}</span>`;
+};
+
+export const renderLoadedCatalogs = (catalogs: readonly LoadedCatalog[]): string =>
+  catalogs.length
+    ? `<div class="tableWrap"><table class="table catalogs__lists"><thead><tr>` +
+      `<th>Catalog</th><th>Trust</th><th>Members</th><th>This update</th><th></th></tr></thead><tbody>` +
+      catalogs.map(({ id, name, catalog }) =>
+        `<tr><td>${escapeHtml(name)}</td><td>${renderCatalogTrustBadge(catalog.trust)}</td>` +
+        `<td>${catalog.members.length}</td><td>${escapeHtml(catalog.thisUpdate ?? "-")}</td>` +
+        `<td><button type="button" class="actionButton" data-catalog-remove="${escapeHtml(id)}">Remove</button>` +
+        `</td></tr>`).join("") +
+      `</tbody></table></div>`
+    : `<div class="smallNote">No catalogs loaded.</div>`;
@@ -0,0 +1,66 @@
+"use strict";
+
+import type { CoverageMap, CoverageRegion } from "../analyzers/coverage-map.js";
+import { humanSize } from "../binary-utils.js";
+import { escapeHtml, renderFileRangeAttributes } from "../html-utils.js";
+import { formatHexOffset } from "./hex-view.js";
+
+const CHART_WIDTH = 1000;
+const CHART_HEIGHT = 24;
+const MAX_TABLE_ROWS = 1000;
+
+const coordinate = (value: number): string => value.toFixed(2).replace(/\.?0+$/, "");
+
+const share = (bytes: number, fileSize: number): string =>
+  `${(fileSize ? (bytes / fileSize) * 100 : 0).toFixed(1)}%`;
+
+export const describeCoverageSummary = (map: CoverageMap): string => {
+  const unexplained = map.regions.filter(region => !region.zeroFilled).length;
+  return `${share(map.explainedBytes, map.fileSize)} interpreted, ` +
+    `${unexplained} unexplained region${unexplained === 1 ? "" : "s"}`;
+};
+
+// The bar starts fully "explained"; gaps are drawn over it, at least half a unit wide so a
+// single stray byte in a large file stays visible.
+const renderRegionRect = (region: CoverageRegion, fileSize: number): string => {
+  const x = fileSize ? (region.start / fileSize) * CHART_WIDTH : 0;
+  const width = Math.max(fileSize ? ((region.end - region.start) / fileSize) * CHART_WIDTH : 0, 0.5);
+  const kind = region.zeroFilled ? "padding" : "unexplained";
+  return `<rect class="coverageMap__${kind}" x="${coordinate(x)}" y="0" width="${coordinate(width)}" ` +
+    `height="${CHART_HEIGHT}"><title>${kind === "padding" ? "Zero padding" : "Unexplained"}: ` +
+    `0x${formatHexOffset(region.start)}-0x${formatHexOffset(region.end)}</title></rect>`;
+};
+
+const renderRegionRow = (region: CoverageRegion): string =>
+  `<tr${renderFileRangeAttributes(region.start, region.end - region.start)}>` +
+  `<td class="mono">0x${formatHexOffset(region.start)}</td>` +
+  `<td class="mono">0x${formatHexOffset(region.end)}</td>` +
+  `<td>${escapeHtml(humanSize(region.end - region.start))}</td></tr>`;
+
+const renderUnexplainedTable = (regions: readonly CoverageRegion[]): string => {
+  if (!regions.length) return `<p class="smallNote">Every byte outside zero padding belongs to a parsed structure.</p>`;
+  const shown = regions.slice(0, MAX_TABLE_ROWS);
+  return `<div class="tableWrap"><table class="table coverageMap__table"><thead><tr><th>Start</th><th>End</th>` +
+    `<th>Size</th></tr></thead><tbody>${shown.map(renderRegionRow).join("")}</tbody></table></div>` +
+    (regions.length > shown.length
+      ? `<p class="smallNote">Showing the first ${shown.length} of ${regions.length} unexplained regions.</p>`
+      : "");
+};
+
+export const renderCoverageMap = (map: CoverageMap): string => {
+  if (!map.fileSize) return `<p class="smallNote">The file is empty.</p>`;
+  const unexplained = map.regions.filter(region => !region.zeroFilled);
+  return `<p class="smallNote">${share(map.explainedBytes, map.fileSize)} of the file is interpreted by the ` +
+    `analyzer, ${share(map.paddingBytes, map.fileSize)} is zero padding and ` +
+    `${share(map.unexplainedBytes, map.fileSize)} (${escapeHtml(humanSize(map.unexplainedBytes))}) is unexplained.</p>` +
+    `<div class="coverageMap__legend"><span class="coverageMap__legendItem coverageMap__legendItem--explained">` +
+    `Interpreted</span><span class="coverageMap__legendItem coverageMap__legendItem--padding">Zero padding</span>` +
+    `<span class="coverageMap__legendItem coverageMap__legendItem--unexplained">Unexplained</span></div>` +
+    `<svg class="coverageMap__chart" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" preserveAspectRatio="none" ` +
+    `width="100%" height="${CHART_HEIGHT}" role="img" aria-label="Interpreted and unexplained bytes across the file">` +
+    `<rect class="coverageMap__explained" x="0" y="0" width="${CHART_WIDTH}" height="${CHART_HEIGHT}" />` +
+    map.regions.map(region => renderRegionRect(region, map.fileSize)).join("") +
+    `</svg>` +
+    `<p class="coverageMap__heading">Unexplained regions</p>` +
+    renderUnexplainedTable(unexplained);
+};
@@ -0,0 +1,56 @@
+"use strict";
+
+import { formatHumanSize } from "../binary-utils.js";
+import { escapeHtml, renderDefinitionRow, renderFileRangeAttributes } from "../html-utils.js";
+import { RULE_MATCH_LIMIT } from "../analyzers/rules/scan.js";
+import type { RuleEvaluation, RuleMatch, RulePattern, RulePatternMatch } from "../analyzers/rules/types.js";
+import { formatHexOffset } from "./hex-view.js";
+
+export const renderRuleIssues = (issues: readonly string[]): string =>
+  issues.length
+    ? `<ul class="smallNote detectionRules__issues">${issues.map(issue => `<li>${escapeHtml(issue)}</li>`).join("")}</ul>`
+    : "";
+
+const renderMatchRow = (match: RulePatternMatch, patterns: ReadonlyMap<string, RulePattern>): string =>
+  `<tr${renderFileRangeAttributes(match.offset, match.length)}>` +
+  `<td class="mono">0x${formatHexOffset(match.offset)}</td>` +
+  `<td class="mono" title="${escapeHtml(patterns.get(match.id)?.source ?? "")}">$${escapeHtml(match.id)}</td>` +
+  `<td>${match.length}</td>` +
+  `<td class="mono">${escapeHtml(match.preview)}</td></tr>`;
+
+// Conditions that only test parsed fields match without any string offsets to list.
+const renderMatches = (ruleMatch: RuleMatch): string => {
+  if (!ruleMatch.matches.length) return `<div class="smallNote dim">Matched on parsed fields only.</div>`;
+  const patterns = new Map(ruleMatch.rule.patterns.map(pattern => [pattern.id, pattern]));
+  return `<div class="tableWrap"><table class="table detectionRules__matches"><thead><tr>` +
+    `<th>Offset</th><th>String</th><th>Length</th><th>Data</th></tr></thead>` +
+    `<tbody>${ruleMatch.matches.map(match => renderMatchRow(match, patterns)).join("")}</tbody></table></div>`;
+};
+
+const renderRuleMatch = (ruleMatch: RuleMatch): string => {
+  const { rule } = ruleMatch;
+  const tags = rule.tags.map(tag => `<span class="opt sel">${escapeHtml(tag)}</span>`).join("");
+  const meta = rule.meta.map(([key, value]) => renderDefinitionRow(escapeHtml(key), escapeHtml(value))).join("");
+  const count = ruleMatch.matches.length;
+  return `<details class="detectionRules__rule" open><summary><b>${escapeHtml(rule.name)}</b>` +
+    (count ? ` <span class="smallNote">${count} string match${count === 1 ? "" : "es"}</span>` : "") +
+    `</summary>` +
+    (tags ? `<div class="optionsRow">${tags}</div>` : "") +
+    (meta ? `<dl>${meta}</dl>` : "") +
+    renderMatches(ruleMatch) +
+    `</details>`;
+};
+
+export const renderRuleEvaluation = (evaluation: RuleEvaluation): string => {
+  const { matches, ruleCount } = evaluation;
+  const summary = `${matches.length} of ${ruleCount} rule${ruleCount === 1 ? "" : "s"} matched ` +
+    `(${formatHumanSize(evaluation.scannedBytes)} scanned).`;
+  const truncated = evaluation.truncatedPatterns.length
+    ? `<div class="smallNote">Only the first ${RULE_MATCH_LIMIT} matches were recorded for ` +
+      `${evaluation.truncatedPatterns.map(escapeHtml).join(", ")}; counts above that are not exact.</div>`
+    : "";
+  return `<div class="smallNote">${summary}</div>` +
+    truncated +
+    renderRuleIssues(evaluation.issues) +
+    matches.map(renderRuleMatch).join("");
+};
@@ -0,0 +1,53 @@
+"use strict";
+
+import type { TriageBucket, TriageStatistics } from "../analyzers/triage/types.js";
+import { formatHumanSize } from "../binary-utils.js";
+import { escapeHtml } from "../html-utils.js";
+
+// Long type lists are cut so the chart stays readable; the export keeps every file.
+const MAX_TYPE_ROWS = 12;
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const renderBucketRow = (bucket: TriageBucket, maxCount: number): string => {
+  const percent = maxCount ? Math.round((bucket.count / maxCount) * 1000) / 10 : 0;
+  return `<tr><td>${escapeHtml(bucket.label)}</td>` +
+    `<td class="directoryTriage__barCell"><span class="directoryTriage__bar" style="width:${percent}%"></span></td>` +
+    `<td class="directoryNumericCell">${bucket.count}</td>` +
+    `<td class="directoryNumericCell">${formatHumanSize(bucket.bytes)}</td></tr>`;
+};
+
+const renderChart = (title: string, buckets: readonly TriageBucket[]): string => {
+  const maxCount = Math.max(0, ...buckets.map(bucket => bucket.count));
+  return `<figure class="directoryTriage__chart"><figcaption>${title}</figcaption>` +
+    `<table class="table"><thead><tr><th scope="col">Group</th><th scope="col"></th>` +
+    `<th scope="col">Files</th><th scope="col">Size</th></tr></thead><tbody>` +
+    buckets.map(bucket => renderBucketRow(bucket, maxCount)).join("") +
+    `</tbody></table></figure>`;
+};
+
+const collapseTypes = (buckets: readonly TriageBucket[]): TriageBucket[] => {
+  if (buckets.length <= MAX_TYPE_ROWS) return [...buckets];
+  const rest = buckets.slice(MAX_TYPE_ROWS - 1);
+  return [
+    ...buckets.slice(0, MAX_TYPE_ROWS - 1),
+    {
+      label: plural(rest.length, "other type"),
+      count: rest.reduce((total, bucket) => total + bucket.count, 0),
+      bytes: rest.reduce((total, bucket) => total + bucket.bytes, 0)
+    }
+  ];
+};
+
+// Folder overview: file counts and sizes by detected type, size range and signing status.
+export const renderTriageStatistics = (statistics: TriageStatistics): string => {
+  if (!statistics.files) return `<p class="smallNote">No readable files.</p>`;
+  const unreadable = statistics.unreadable ? `; ${plural(statistics.unreadable, "file")} could not be read` : "";
+  return `<p class="smallNote">${plural(statistics.files, "file")}, ` +
+    `${escapeHtml(formatHumanSize(statistics.totalBytes))}${unreadable}.</p>` +
+    `<div class="directoryTriage__charts">` +
+    renderChart("By detected type", collapseTypes(statistics.byType)) +
+    renderChart("By size", statistics.bySize) +
+    renderChart("By signing status", statistics.bySigning) +
+    `</div>`;
+};
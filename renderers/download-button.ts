@@ -19,3 +19,15 @@ export const renderDownloadButton = (
   `<path d="M8 2.5v7"></path><path d="M5 6.8 8 9.8l3-3"></path>` +
   `<path d="M3 12.5h10"></path>` +
   `</svg></button>`;
+
+// Marks a button that opens the same bytes as its sibling download button in the analyzer
+// instead of saving them.
+export const ANALYZE_ENTRY_ATTRIBUTE = "data-entry-analyze";
+
+export const renderAnalyzeEntryButton = (
+  className: string,
+  attributes: readonly DownloadButtonAttribute[],
+  label = "Analyze"
+): string =>
+  `<button type="button" class="tableButton analyzeEntryButton${className ? ` ${className}` : ""}"` +
+  `${attributes.map(renderAttribute).join("")} ${ANALYZE_ENTRY_ATTRIBUTE}>${escapeHtml(label)}</button>`;
@@ -1,6 +1,6 @@
 "use strict";
 
-import { renderDefinitionRow, renderOptionChips, escapeHtml } from "../../html-utils.js";
+import { renderDefinitionRow, renderOptionChips, escapeHtml, renderFileRangeAttributes } from "../../html-utils.js";
 import {
   ELF_CLASS,
   ELF_DATA,
@@ -47,6 +47,7 @@ const SECTION_HINTS: Record<string, string> = {
 const knownSectionName = (name: string): string | null => SECTION_HINTS[name.toLowerCase()] || null;
 
 const SHT_RELA = 4;
+const SHT_NOBITS = 8;
 const SHT_DYNAMIC = 6;
 const SHT_REL = 9;
 const SHT_SYMTAB = 2;
@@ -185,7 +186,8 @@ function renderProgramHeaders(elf: ElfParseResult, out: string[]): void {
     const typeTitle = opt?.[2] ? `${typeLabel} - ${opt[2]}` : typeLabel;
     const flags = formatElfList(ph.flagNames);
     out.push(
-      `<tr><td>${ph.index}</td><td><span title="${escapeHtml(typeTitle)}">${escapeHtml(typeLabel)}</span></td>` +
+      `<tr${renderFileRangeAttributes(ph.offset, ph.filesz)}>` +
+        `<td>${ph.index}</td><td><span title="${escapeHtml(typeTitle)}">${escapeHtml(typeLabel)}</span></td>` +
         `<td>${escapeHtml(formatElfHex(ph.offset))}</td>` +
         `<td>${escapeHtml(formatElfHex(ph.vaddr))}</td>` +
         `<td>${formatElfMaybeHumanSize(ph.filesz)}</td>` +
@@ -231,7 +233,8 @@ function renderSectionHeaders(elf: ElfParseResult, out: string[]): void {
       : escapeHtml(sec.name || "");
     const flags = formatElfList(sec.flagNames);
     out.push(
-      `<tr><td>${sec.index}</td><td>${nameCell}</td>` +
+      `<tr${sec.type === SHT_NOBITS ? "" : renderFileRangeAttributes(sec.offset, sec.size)}>` +
+        `<td>${sec.index}</td><td>${nameCell}</td>` +
         `<td><span title="${escapeHtml(typeTitle)}">${escapeHtml(typeLabel)}</span></td><td>${escapeHtml(formatElfHex(sec.offset))}</td>` +
         `<td>${formatElfMaybeHumanSize(sec.size)}</td>` +
         `<td>${escapeHtml(formatElfHex(sec.addr))}</td>` +
@@ -0,0 +1,125 @@
+"use strict";
+
+import type { EntropyProfile, EntropyWindow } from "../analyzers/entropy-profile.js";
+import type { StructureRange } from "../analyzers/structure-map/index.js";
+import { escapeHtml } from "../html-utils.js";
+import { formatHexOffset } from "./hex-view.js";
+import { SECTION_ENTROPY_TOOLTIP } from "./section-entropy.js";
+
+// Windows at or above this many bits per byte are shaded as likely compressed or encrypted.
+export const HIGH_ENTROPY_THRESHOLD = 7.2;
+const CHART_WIDTH = 1000;
+const CHART_HEIGHT = 120;
+const LANE_HEIGHT = 12;
+const MAX_LANES = 3;
+const MAX_STRUCTURE_BANDS = 2000;
+
+type ByteClassKey = "zero" | "ascii" | "highBit";
+
+const SERIES: ReadonlyArray<{ key: ByteClassKey | "entropy"; label: string }> = [
+  { key: "entropy", label: "Entropy" },
+  { key: "zero", label: "Zero bytes" },
+  { key: "ascii", label: "ASCII text" },
+  { key: "highBit", label: "High-bit bytes" }
+];
+
+type StructureBand = StructureRange & { lane: number };
+
+const coordinate = (value: number): string => value.toFixed(2).replace(/\.?0+$/, "");
+
+const xAt = (offset: number, fileSize: number): number => (fileSize ? (offset / fileSize) * CHART_WIDTH : 0);
+
+const seriesValue = (window: EntropyWindow, key: ByteClassKey | "entropy"): number =>
+  key === "entropy" ? window.entropy / 8 : window[key];
+
+const renderSeries = (profile: EntropyProfile, key: ByteClassKey | "entropy"): string => {
+  const points = profile.windows.map(window => {
+    const x = xAt(window.offset + window.length / 2, profile.fileSize);
+    return `${coordinate(x)},${coordinate((1 - seriesValue(window, key)) * CHART_HEIGHT)}`;
+  });
+  return `<polyline class="entropyProfile__series entropyProfile__series--${key}" points="${points.join(" ")}" ` +
+    `vector-effect="non-scaling-stroke" />`;
+};
+
+// Windows overlap, so each one shades only the step it starts, up to where the next one starts.
+const stepEnd = (profile: EntropyProfile, window: EntropyWindow): number =>
+  Math.min(window.offset + profile.step, profile.fileSize);
+
+const renderHotWindows = (profile: EntropyProfile): string =>
+  profile.windows
+    .filter(window => window.entropy >= HIGH_ENTROPY_THRESHOLD)
+    .map(window => {
+      const x = xAt(window.offset, profile.fileSize);
+      const width = xAt(stepEnd(profile, window), profile.fileSize) - x;
+      return `<rect class="entropyProfile__hot" x="${coordinate(x)}" y="0" width="${coordinate(width)}" ` +
+        `height="${CHART_HEIGHT}" />`;
+    })
+    .join("");
+
+// Ranges arrive ordered by start with enclosing ranges first, so a stack of open ranges gives
+// each one its nesting depth; deeper ranges than the lanes shown are left out.
+const layoutStructureBands = (ranges: readonly StructureRange[]): StructureBand[] => {
+  const open: StructureRange[] = [];
+  const bands: StructureBand[] = [];
+  for (const range of ranges) {
+    while (open.length && open[open.length - 1]!.end <= range.start) open.pop();
+    if (open.length < MAX_LANES) bands.push({ ...range, lane: open.length });
+    open.push(range);
+    if (bands.length >= MAX_STRUCTURE_BANDS) break;
+  }
+  return bands;
+};
+
+const renderStructureBand = (band: StructureBand, fileSize: number): string => {
+  const x = xAt(band.start, fileSize);
+  const width = Math.max(xAt(band.end, fileSize) - x, 0.5);
+  const y = CHART_HEIGHT + 4 + band.lane * LANE_HEIGHT;
+  const title = `${band.label}: 0x${formatHexOffset(band.start)}-0x${formatHexOffset(band.end)}`;
+  return `<rect class="entropyProfile__structure entropyProfile__structure--lane${band.lane}" ` +
+    `x="${coordinate(x)}" y="${y}" width="${coordinate(width)}" height="${LANE_HEIGHT - 2}" ` +
+    `data-entropy-structure-start="${band.start}" data-entropy-structure-end="${band.end}">` +
+    `<title>${escapeHtml(title)}</title></rect>`;
+};
+
+const renderBoundaries = (bands: readonly StructureBand[], fileSize: number): string =>
+  bands
+    .filter(band => band.lane === 0)
+    .map(band => {
+      const x = coordinate(xAt(band.start, fileSize));
+      return `<line class="entropyProfile__boundary" x1="${x}" y1="0" x2="${x}" y2="${CHART_HEIGHT}" ` +
+        `vector-effect="non-scaling-stroke" />`;
+    })
+    .join("");
+
+const describeProfile = (profile: EntropyProfile): string => {
+  const hotBytes = profile.windows
+    .filter(window => window.entropy >= HIGH_ENTROPY_THRESHOLD)
+    .reduce((total, window) => total + stepEnd(profile, window) - window.offset, 0);
+  const maxEntropy = profile.windows.reduce((max, window) => Math.max(max, window.entropy), 0);
+  const hotShare = profile.fileSize ? (hotBytes / profile.fileSize) * 100 : 0;
+  return `${profile.windows.length} windows of ${profile.windowSize} bytes, one every ${profile.step} bytes; ` +
+    `highest entropy ${maxEntropy.toFixed(2)} bits/byte; ${hotShare.toFixed(1)}% of the file at or above ` +
+    `${HIGH_ENTROPY_THRESHOLD} bits/byte.`;
+};
+
+export const renderEntropyProfile = (profile: EntropyProfile, structures: readonly StructureRange[]): string => {
+  if (!profile.windows.length) return `<p class="smallNote">The file is empty.</p>`;
+  const bands = layoutStructureBands(structures);
+  const lanes = bands.reduce((count, band) => Math.max(count, band.lane + 1), 0);
+  const height = CHART_HEIGHT + (lanes ? 4 + lanes * LANE_HEIGHT : 0);
+  const legend = SERIES.map(series =>
+    `<span class="entropyProfile__legendItem entropyProfile__legendItem--${series.key}">${series.label}</span>`
+  ).join("");
+  return `<p class="smallNote" title="${escapeHtml(SECTION_ENTROPY_TOOLTIP)}">${escapeHtml(describeProfile(profile))}</p>` +
+    `<div class="entropyProfile__legend">${legend}</div>` +
+    `<svg class="entropyProfile__chart" viewBox="0 0 ${CHART_WIDTH} ${height}" preserveAspectRatio="none" ` +
+    `width="100%" height="${height}" role="img" aria-label="Entropy and byte classes across the file" ` +
+    `data-entropy-profile-size="${profile.fileSize}">` +
+    renderHotWindows(profile) +
+    renderBoundaries(bands, profile.fileSize) +
+    SERIES.slice(1).map(series => renderSeries(profile, series.key)).join("") +
+    renderSeries(profile, "entropy") +
+    bands.map(band => renderStructureBand(band, profile.fileSize)).join("") +
+    `</svg>` +
+    (lanes ? `<p class="smallNote">Click the chart or a structure band to jump to its table row.</p>` : "");
+};
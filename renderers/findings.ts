@@ -0,0 +1,58 @@
+"use strict";
+
+import {
+  DIAGNOSTIC_SEVERITIES,
+  countDiagnostics,
+  type Diagnostic,
+  type DiagnosticSeverity
+} from "../analyzers/diagnostics/index.js";
+import { escapeHtml, renderFileRangeAttributes } from "../html-utils.js";
+import { formatHexOffset } from "./hex-view.js";
+
+export const FINDINGS_SEVERITY_ATTRIBUTE = "data-findings-severity";
+export const FINDING_ROW_SEVERITY_ATTRIBUTE = "data-finding-severity";
+
+const SEVERITY_LABELS: Readonly<Record<DiagnosticSeverity, [string, string]>> = {
+  error: ["error", "errors"],
+  warning: ["warning", "warnings"],
+  info: ["note", "notes"]
+};
+
+const renderSeverityToggle = (severity: DiagnosticSeverity, count: number): string => {
+  const [singular, plural] = SEVERITY_LABELS[severity];
+  return `<button type="button" class="tableButton findings__toggle findings__toggle--${severity}" ` +
+    `${FINDINGS_SEVERITY_ATTRIBUTE}="${severity}" aria-pressed="true"${count ? "" : " disabled"}>` +
+    `${count} ${count === 1 ? singular : plural}</button>`;
+};
+
+const renderOffset = (diagnostic: Diagnostic): string =>
+  diagnostic.offset == null ? "-" : `0x${formatHexOffset(diagnostic.offset)}`;
+
+const renderFindingRow = (diagnostic: Diagnostic): string =>
+  `<tr ${FINDING_ROW_SEVERITY_ATTRIBUTE}="${diagnostic.severity}"` +
+  `${diagnostic.offset == null ? "" : renderFileRangeAttributes(diagnostic.offset, diagnostic.length ?? 1)}>` +
+  `<td><span class="findings__severity findings__severity--${diagnostic.severity}">` +
+  `${SEVERITY_LABELS[diagnostic.severity][0]}</span></td>` +
+  `<td class="mono" title="${escapeHtml(diagnostic.source)}">${escapeHtml(diagnostic.code)}</td>` +
+  `<td>${escapeHtml(diagnostic.message)}</td>` +
+  `<td class="mono">${renderOffset(diagnostic)}</td>` +
+  `<td class="smallNote">${escapeHtml(diagnostic.specReference ?? "")}</td></tr>`;
+
+// Rendered above every analysis: one toggle per severity filters the rows below it (see
+// ui/findings-filter.ts), and rows with an offset reveal their bytes in the hex view.
+export const renderFindings = (diagnostics: readonly Diagnostic[]): string => {
+  if (!diagnostics.length) {
+    return `<section class="findings"><span class="findings__title">Findings</span> ` +
+      `<span class="smallNote">The analyzer reported no problems.</span></section>`;
+  }
+  const counts = countDiagnostics(diagnostics);
+  const sorted = [...diagnostics].sort((left, right) =>
+    DIAGNOSTIC_SEVERITIES.indexOf(left.severity) - DIAGNOSTIC_SEVERITIES.indexOf(right.severity));
+  return `<section class="findings"><div class="findings__header"><span class="findings__title">Findings</span>` +
+    DIAGNOSTIC_SEVERITIES.map(severity => renderSeverityToggle(severity, counts[severity])).join("") +
+    `</div><details class="findings__details"${counts.error ? " open" : ""}>` +
+    `<summary>${diagnostics.length} finding${diagnostics.length === 1 ? "" : "s"}</summary>` +
+    `<div class="tableWrap"><table class="table findings__table"><thead><tr><th>Severity</th><th>Code</th>` +
+    `<th>Message</th><th>Offset</th><th>Specification</th></tr></thead>` +
+    `<tbody>${sorted.map(renderFindingRow).join("")}</tbody></table></div></details></section>`;
+};
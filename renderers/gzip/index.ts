@@ -2,6 +2,7 @@
 
 import { renderDefinitionRow, escapeHtml } from "../../html-utils.js";
 import { formatHumanSize, formatUnixSecondsOrDash, toHex32 } from "../../binary-utils.js";
+import { renderAnalyzeEntryButton } from "../download-button.js";
 import type { GzipParseResult } from "../../analyzers/gzip/types.js";
 
 const renderFlag = (label: string, active: boolean, tooltip?: string): string => {
@@ -87,7 +88,8 @@ export function renderGzip(parsed: GzipParseResult | null | unknown): string {
 
   out.push("<h4>Actions</h4>");
   out.push(
-    `<button type="button" class="tableButton gzipDecompressButton" data-gzip-action="decompress">Decompress</button>`
+    `<button type="button" class="tableButton gzipDecompressButton" data-gzip-action="decompress">Decompress</button> ` +
+      renderAnalyzeEntryButton("gzipDecompressButton", [["data-gzip-action", "decompress"]])
   );
 
   out.push(renderIssues(data.issues));
@@ -0,0 +1,91 @@
+"use strict";
+
+import type { DataInspectorEntry } from "../analyzers/data-inspector.js";
+import type { StructureRange } from "../analyzers/structure-map/index.js";
+import { escapeHtml } from "../html-utils.js";
+
+export type HexRowsView = {
+  bytes: Uint8Array;
+  // File offset of bytes[0]; always a multiple of bytesPerRow.
+  offset: number;
+  bytesPerRow: number;
+  selection: { start: number; end: number } | null;
+  cursor: number | null;
+};
+
+export const formatHexOffset = (offset: number): string => offset.toString(16).padStart(8, "0");
+
+const ASCII_ENTITIES: Readonly<Record<number, string>> = { 0x22: "&quot;", 0x26: "&amp;", 0x3c: "&lt;", 0x3e: "&gt;" };
+
+const asciiCharacter = (byte: number): string =>
+  byte >= 0x20 && byte < 0x7f ? ASCII_ENTITIES[byte] ?? String.fromCharCode(byte) : ".";
+
+const byteClassName = (base: string, offset: number, view: HexRowsView): string => {
+  const selected = view.selection && offset >= view.selection.start && offset < view.selection.end;
+  return `${base}${selected ? " hexCell--selected" : ""}${offset === view.cursor ? " hexCell--cursor" : ""}`;
+};
+
+const renderRow = (view: HexRowsView, rowStart: number): string => {
+  const hexCells: string[] = [];
+  const asciiCells: string[] = [];
+  for (let column = 0; column < view.bytesPerRow; column += 1) {
+    const index = rowStart + column;
+    const byte = view.bytes[index];
+    if (byte == null) {
+      hexCells.push(`<span class="hexCell hexCell--empty"></span>`);
+      continue;
+    }
+    const offset = view.offset + index;
+    hexCells.push(
+      `<span class="${byteClassName("hexCell", offset, view)}" data-hex-offset="${offset}">` +
+      `${byte.toString(16).padStart(2, "0")}</span>`
+    );
+    asciiCells.push(
+      `<span class="${byteClassName("hexCell hexCell--ascii", offset, view)}" data-hex-offset="${offset}">` +
+      `${asciiCharacter(byte)}</span>`
+    );
+  }
+  return `<div class="hexRow"><span class="hexRow__offset">${formatHexOffset(view.offset + rowStart)}</span>` +
+    `<span class="hexRow__bytes">${hexCells.join("")}</span>` +
+    `<span class="hexRow__ascii">${asciiCells.join("")}</span></div>`;
+};
+
+export const renderHexRows = (view: HexRowsView): string => {
+  const rows: string[] = [];
+  for (let rowStart = 0; rowStart < view.bytes.length; rowStart += view.bytesPerRow) {
+    rows.push(renderRow(view, rowStart));
+  }
+  return rows.join("");
+};
+
+export const renderStructurePath = (structures: readonly StructureRange[]): string =>
+  structures.length
+    ? `<ol class="hexStructurePath">${structures.map(structure =>
+      `<li><span>${escapeHtml(structure.label)}</span> ` +
+      `<span class="hexStructurePath__range">${formatHexOffset(structure.start)}-` +
+      `${formatHexOffset(structure.end - 1)}</span></li>`
+    ).join("")}</ol>`
+    : `<div class="smallNote">No parsed structure covers this byte.</div>`;
+
+export const renderDataInspector = (offset: number, entries: readonly DataInspectorEntry[]): string =>
+  `<table class="table hexInspectorTable"><caption>Offset 0x${formatHexOffset(offset)} (${offset})</caption>` +
+  `<tbody>${entries.map(entry =>
+    `<tr><th scope="row">${escapeHtml(entry.label)}</th>` +
+    `<td class="mono">${entry.value == null ? `<span class="dim">-</span>` : escapeHtml(entry.value)}</td></tr>`
+  ).join("")}</tbody></table>`;
+
+export const HEX_STRUCTURES_PLACEHOLDER_HTML = `<div class="smallNote">Click a byte to inspect it.</div>`;
+
+export const renderHexViewerShell = (): string =>
+  `<div class="hexViewer__toolbar">` +
+  `<label class="hexViewer__goto">Go to offset ` +
+  `<input type="text" class="hexViewer__offsetInput" data-hex-goto placeholder="0x0" ` +
+  `spellcheck="false" autocomplete="off"></label>` +
+  `<label class="hexViewer__endianness"><input type="checkbox" data-hex-big-endian data-workspace-preference="hexBigEndian"> Big-endian</label>` +
+  `<span class="smallNote" data-hex-selection-label></span></div>` +
+  `<div class="hexViewer__body">` +
+  `<div class="hexViewer__viewport" data-hex-viewport tabindex="0" aria-label="File bytes">` +
+  `<div class="hexViewer__rows" data-hex-rows></div><div data-hex-spacer></div></div>` +
+  `<aside class="hexViewer__inspector" aria-live="polite">` +
+  `<div data-hex-structures>${HEX_STRUCTURES_PLACEHOLDER_HTML}</div>` +
+  `<div data-hex-inspector></div></aside></div>`;
@@ -24,6 +24,8 @@ export { renderRar } from "./rar/index.js";
 export { renderIso9660 } from "./iso9660/index.js";
 export { renderMz } from "./mz/index.js";
 export { renderLnk } from "./lnk/index.js";
+export { renderCatalog } from "./catalog/index.js";
+export { renderPdb } from "./pdb/index.js";
 export { renderWav } from "./wav/index.js";
 export { renderAvi } from "./avi/index.js";
 export { renderAni } from "./ani/index.js";
@@ -2,6 +2,7 @@
 
 import { formatHumanSize, toHex32, toHex64 } from "../../binary-utils.js";
 import { renderDefinitionRow, renderFlagChips, escapeHtml } from "../../html-utils.js";
+import { renderAnalyzeEntryButton } from "../download-button.js";
 import type {
   Iso9660DirectoryEntrySummary,
   Iso9660ParseResult,
@@ -170,7 +171,8 @@ const renderRootDirectory = (iso: Iso9660ParseResult, out: string[]): void => {
       }
       return (
         `<button type="button" class="tableButton isoExtractButton" data-iso-action="extract"` +
-          ` data-iso-entry="${escapeHtml(String(index))}">Download</button>`
+          ` data-iso-entry="${escapeHtml(String(index))}">Download</button> ` +
+        renderAnalyzeEntryButton("isoExtractButton", [["data-iso-action", "extract"], ["data-iso-entry", index]])
       );
     };
     root.entries.forEach((entry: Iso9660DirectoryEntrySummary, index: number) => {
@@ -0,0 +1,83 @@
+"use strict";
+
+import type { KaitaiNode, KaitaiResult, KaitaiScalar } from "../analyzers/kaitai/types.js";
+import { escapeHtml, renderFileRangeAttributes } from "../html-utils.js";
+import { formatHexOffset } from "./hex-view.js";
+
+const MAX_RENDERED_ROWS = 5000;
+const BYTES_PREVIEW = 16;
+const STRING_PREVIEW = 200;
+
+export const renderKaitaiIssues = (issues: readonly string[]): string =>
+  issues.length
+    ? `<ul class="smallNote kaitai__issues">${issues.map(issue => `<li>${escapeHtml(issue)}</li>`).join("")}</ul>`
+    : "";
+
+const formatInteger = (value: number | bigint): string =>
+  (typeof value === "number" && !Number.isInteger(value)) || value < 0 || value < 10
+    ? String(value)
+    : `${value} (0x${value.toString(16)})`;
+
+export const formatKaitaiValue = (value: KaitaiScalar): string => {
+  if (value instanceof Uint8Array) {
+    const preview = Array.from(value.subarray(0, BYTES_PREVIEW), byte => byte.toString(16).padStart(2, "0")).join(" ");
+    return value.length > BYTES_PREVIEW ? `${preview} …` : preview;
+  }
+  if (typeof value === "string") {
+    return JSON.stringify(value.length > STRING_PREVIEW ? `${value.slice(0, STRING_PREVIEW)}…` : value);
+  }
+  if (typeof value === "object") {
+    return `${value.label ?? "unknown"} (${formatInteger(value.value)})`;
+  }
+  return typeof value === "boolean" ? String(value) : formatInteger(value);
+};
+
+const countLabel = (node: KaitaiNode): string => {
+  const count = node.children?.length ?? 0;
+  // Repeated fields hold elements named [0], [1], ...
+  const noun = node.children?.[0]?.name.startsWith("[") ? "item" : "field";
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+};
+
+// Rows are rendered depth-first until the budget runs out, so a huge tree still shows its top.
+const createRenderer = () => {
+  let rows = 0;
+  const renderRow = (node: KaitaiNode): string => {
+    rows += 1;
+    const value = node.children
+      ? renderTable(node, false)
+      : node.value === undefined ? "" : `<span class="mono">${escapeHtml(formatKaitaiValue(node.value))}</span>`;
+    const issue = node.issue ? `<div class="kaitai__issue">${escapeHtml(node.issue)}</div>` : "";
+    const title = node.doc ? ` title="${escapeHtml(node.doc)}"` : "";
+    return `<tr${renderFileRangeAttributes(node.offset, node.size)}${node.issue ? ` class="kaitai__failed"` : ""}>` +
+      `<td${title}>${escapeHtml(node.name)}${node.instance ? ` <span class="dim">(instance)</span>` : ""}</td>` +
+      `<td class="mono">${escapeHtml(node.typeName)}</td>` +
+      `<td class="mono">0x${formatHexOffset(node.offset)}</td>` +
+      `<td>${node.size}</td>` +
+      `<td>${value}${issue}</td></tr>`;
+  };
+  function renderTable(node: KaitaiNode, open: boolean): string {
+    const children = node.children ?? [];
+    let body = "";
+    for (const child of children) {
+      if (rows >= MAX_RENDERED_ROWS) {
+        body += `<tr><td colspan="5" class="smallNote">Not shown: rendering stops after ${MAX_RENDERED_ROWS} fields.</td></tr>`;
+        break;
+      }
+      body += renderRow(child);
+    }
+    return `<details class="kaitai__node"${open ? " open" : ""}><summary>${escapeHtml(countLabel(node))}</summary>` +
+      `<div class="tableWrap"><table class="table kaitai__table"><thead><tr><th>Field</th><th>Type</th>` +
+      `<th>Offset</th><th>Size</th><th>Value</th></tr></thead><tbody>${body}</tbody></table></div></details>`;
+  }
+  return (root: KaitaiNode): string => renderTable(root, true);
+};
+
+export const renderKaitaiResult = (result: KaitaiResult): string => {
+  const { root } = result;
+  return `<p class="smallNote">${escapeHtml(root.name)} (<span class="mono">${escapeHtml(root.typeName)}</span>): ` +
+    `${result.nodeCount} field${result.nodeCount === 1 ? "" : "s"} over ${root.size} byte${root.size === 1 ? "" : "s"}` +
+    ` from 0x${formatHexOffset(root.offset)}.</p>` +
+    renderKaitaiIssues(result.issues) +
+    (root.issue && !root.children?.length ? "" : createRenderer()(root));
+};
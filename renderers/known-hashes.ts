@@ -0,0 +1,65 @@
+"use strict";
+
+import type {
+  KnownHashAlgorithm,
+  KnownHashList,
+  KnownHashMatch,
+  KnownHashVerdict
+} from "../analyzers/known-hashes/types.js";
+import { escapeHtml } from "../html-utils.js";
+
+export const KNOWN_HASH_ALGORITHM_LABELS: Readonly<Record<KnownHashAlgorithm, string>> = {
+  md5: "MD5",
+  sha1: "SHA-1",
+  sha256: "SHA-256"
+};
+
+export const KNOWN_HASH_VERDICT_LABELS: Readonly<Record<KnownHashVerdict, string>> = {
+  good: "Known good",
+  bad: "Known bad"
+};
+
+const FORMAT_LABELS: Readonly<Record<KnownHashList["format"], string>> = {
+  text: "Text",
+  csv: "CSV",
+  nsrl: "NSRL RDS"
+};
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+export const renderKnownHashBadge = (verdict: KnownHashVerdict): string =>
+  `<span class="knownHashBadge knownHashBadge--${verdict}">${KNOWN_HASH_VERDICT_LABELS[verdict]}</span>`;
+
+const describeMatch = ({ list, entry }: KnownHashMatch): string =>
+  `${escapeHtml(list.name)} (${KNOWN_HASH_ALGORITHM_LABELS[entry.algorithm]}` +
+  `${entry.name ? `, listed as <span class="mono">${escapeHtml(entry.name)}</span>` : ""})`;
+
+// The file info card row: a verdict with the lists that matched, or what was checked so far.
+export const renderKnownHashStatus = (
+  verdict: KnownHashVerdict | null,
+  matches: readonly KnownHashMatch[],
+  checked: readonly KnownHashAlgorithm[],
+  listCount: number
+): string => {
+  if (verdict) {
+    const lists = matches.filter(match => match.list.verdict === verdict).map(describeMatch);
+    return `${renderKnownHashBadge(verdict)} ${lists.join("; ")}`;
+  }
+  if (!checked.length) return `<span class="dim">Checking against ${plural(listCount, "list")}...</span>`;
+  return `<span class="dim">Not on any of ${plural(listCount, "list")} ` +
+    `(${checked.map(algorithm => KNOWN_HASH_ALGORITHM_LABELS[algorithm]).join(", ")} checked)</span>`;
+};
+
+export const renderKnownHashLists = (lists: readonly KnownHashList[]): string =>
+  lists.length
+    ? `<div class="tableWrap"><table class="table knownHashes__lists"><thead><tr>` +
+      `<th>List</th><th>Verdict</th><th>Format</th><th>Hashes</th><th>Imported (UTC)</th><th></th></tr></thead><tbody>` +
+      lists.map(list =>
+        `<tr><td>${escapeHtml(list.name)}</td><td>${renderKnownHashBadge(list.verdict)}</td>` +
+        `<td>${FORMAT_LABELS[list.format]}</td>` +
+        `<td>${list.entryCount} (${list.algorithms.map(algorithm => KNOWN_HASH_ALGORITHM_LABELS[algorithm]).join(", ")})</td>` +
+        `<td>${escapeHtml(list.importedAt)}</td>` +
+        `<td><button type="button" class="actionButton" data-known-hash-remove="${escapeHtml(list.id)}">Remove</button>` +
+        `</td></tr>`).join("") +
+      `</tbody></table></div>`
+    : `<div class="smallNote">No lists imported.</div>`;
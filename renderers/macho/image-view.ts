@@ -1,6 +1,6 @@
 "use strict";
 
-import { renderDefinitionRow, escapeHtml } from "../../html-utils.js";
+import { renderDefinitionRow, escapeHtml, renderFileRangeAttributes } from "../../html-utils.js";
 import { resolveEntryVirtualAddress } from "../../analyzers/macho/format.js";
 import {
   dylibCommandKind,
@@ -204,7 +204,8 @@ const renderSegments = (image: MachOImage, segments: MachOSegment[]): string =>
     const initProtection = vmProtectionNames(segment.initprot).join("/") || "-";
     const maxProtection = vmProtectionNames(segment.maxprot).join("/") || "-";
     out.push(
-      `<tr><td>${escapeHtml(segment.name || "<unnamed>")}</td>` +
+      `<tr${renderFileRangeAttributes(BigInt(image.offset) + segment.fileoff, segment.filesize)}>` +
+        `<td>${escapeHtml(segment.name || "<unnamed>")}</td>` +
         `<td><span class="mono">${escapeHtml(formatHex(segment.vmaddr))}</span> / ${escapeHtml(formatByteSize(segment.vmsize))}</td>` +
         `<td><span class="mono">${escapeHtml(formatFileOffset(image.offset, segment.fileoff))}</span> / ${escapeHtml(formatByteSize(segment.filesize))}</td>` +
         `<td>init: ${escapeHtml(initProtection)}<br>max: ${escapeHtml(maxProtection)}</td>` +
@@ -218,7 +219,8 @@ const renderSegments = (image: MachOImage, segments: MachOSegment[]): string =>
     out.push(`<div class="tableWrap"><table class="table"><thead><tr><th>#</th><th>Section</th><th>Segment</th><th>Address</th><th>Size</th><th>Offset</th><th>Type</th><th>Attributes</th></tr></thead><tbody>`);
     for (const section of sections) {
       out.push(
-        `<tr><td>${section.index}</td><td>${escapeHtml(section.sectionName)}</td><td>${escapeHtml(section.segmentName)}</td>` +
+        `<tr${section.offset ? renderFileRangeAttributes(image.offset + section.offset, section.size) : ""}>` +
+          `<td>${section.index}</td><td>${escapeHtml(section.sectionName)}</td><td>${escapeHtml(section.segmentName)}</td>` +
           `<td><span class="mono">${escapeHtml(formatHex(section.addr))}</span></td>` +
           `<td>${escapeHtml(formatByteSize(section.size))}</td>` +
           `<td><span class="mono">${escapeHtml(formatFileOffset(image.offset, section.offset))}</span></td>` +
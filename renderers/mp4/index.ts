@@ -1,6 +1,6 @@
 "use strict";
 
-import { escapeHtml, renderDefinitionRow } from "../../html-utils.js";
+import { escapeHtml, renderDefinitionRow, renderFileRangeAttributes } from "../../html-utils.js";
 import { formatHumanSize, toHex32 } from "../../binary-utils.js";
 import type { Mp4ParseResult, Mp4Track } from "../../analyzers/mp4/types.js";
 
@@ -101,7 +101,7 @@ const renderTopLevelBoxes = (boxes: Mp4ParseResult["topLevelBoxes"]): string =>
       const sizeHex = toHex32(box.size, 8);
       const note = box.truncated ? "truncated" : "";
       return (
-        "<tr>" +
+        `<tr${renderFileRangeAttributes(box.start, box.end - box.start)}>` +
         `<td>${escapeHtml(box.type)}</td>` +
         `<td>${escapeHtml(box.start)} (${startHex})</td>` +
         `<td>${escapeHtml(box.size)} (${sizeHex})</td>` +
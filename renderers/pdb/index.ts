@@ -0,0 +1,174 @@
+"use strict";
+
+import { formatHumanSize, hex } from "../../binary-utils.js";
+import { escapeHtml, renderDefinitionRow } from "../../html-utils.js";
+import { decodePeMachine } from "../../analyzers/pe/machine.js";
+import type {
+  PdbDbiStream,
+  PdbInfoStream,
+  PdbParseResult,
+  PdbSymbolKindCount,
+  PdbSymbolStreams,
+  PdbTypeStream
+} from "../../analyzers/pdb/types.js";
+import { renderAutoPagedSortableTable } from "../paged-sortable-table.js";
+import {
+  getPdbPagedTableModel,
+  PDB_CONTRIBUTIONS_TABLE_ID,
+  PDB_MODULES_TABLE_ID,
+  PDB_PUBLICS_TABLE_ID,
+  PDB_STREAMS_TABLE_ID
+} from "./paged-tables.js";
+
+// Version stamps from microsoft-pdb's PDBImpVer, DBIImpv and TPI impv enumerations.
+const INFO_VERSIONS: ReadonlyMap<number, string> = new Map([
+  [19941610, "VC2"], [19950623, "VC4"], [19950814, "VC41"], [19960307, "VC50"], [19970604, "VC98"],
+  [19990604, "VC70Dep"], [20000404, "VC70"], [20030901, "VC80"], [20091201, "VC110"], [20140508, "VC140"]
+]);
+const DBI_VERSIONS: ReadonlyMap<number, string> = new Map([
+  [930803, "VC41"], [19960307, "V50"], [19970606, "V60"], [19990903, "V70"], [20091201, "V110"]
+]);
+const TYPE_VERSIONS: ReadonlyMap<number, string> = new Map([
+  [19950410, "V40"], [19951122, "V41"], [19961031, "V50"], [19990903, "V70"], [20040203, "V80"]
+]);
+const KIND_COUNT_LIMIT = 12;
+
+const heading = (title: string): string => `<h4 style="margin:0 0 .5rem 0;font-size:.9rem">${title}</h4>`;
+
+const formatVersion = (version: number, names: ReadonlyMap<number, string>): string => {
+  const name = names.get(version);
+  return name ? `${version} (${name})` : String(version);
+};
+
+const renderKindCounts = (kinds: readonly PdbSymbolKindCount[]): string => {
+  if (!kinds.length) return "-";
+  const listed = kinds.slice(0, KIND_COUNT_LIMIT).map(kind => `${escapeHtml(kind.name)} &times; ${kind.count}`);
+  if (kinds.length > KIND_COUNT_LIMIT) listed.push(`${kinds.length - KIND_COUNT_LIMIT} more kinds`);
+  return listed.join(", ");
+};
+
+const renderTable = (pdb: PdbParseResult, tableId: string): string => {
+  const model = getPdbPagedTableModel(pdb, tableId);
+  return model ? renderAutoPagedSortableTable(model) : "";
+};
+
+const renderContainer = (pdb: PdbParseResult, out: string[]): void => {
+  out.push(`<section>${heading("MSF container")}<dl>`);
+  out.push(renderDefinitionRow("Size", escapeHtml(formatHumanSize(pdb.size))));
+  out.push(renderDefinitionRow("Block size", `${pdb.msf.blockSize} bytes`));
+  out.push(renderDefinitionRow("Blocks", String(pdb.msf.blockCount)));
+  out.push(renderDefinitionRow(
+    "Free block map",
+    `block ${pdb.msf.freeBlockMapBlock}`,
+    "Active copy of the free page map; MSF alternates between blocks 1 and 2 on commit."
+  ));
+  out.push(renderDefinitionRow("Stream directory", `${pdb.msf.directoryBytes} bytes via block ${pdb.msf.blockMapAddress}`));
+  out.push(renderDefinitionRow("Streams", String(pdb.msf.streamCount)));
+  out.push(`</dl></section>`);
+};
+
+const renderInfo = (info: PdbInfoStream, out: string[]): void => {
+  out.push(`<section>${heading("PDB info stream")}<dl>`);
+  out.push(renderDefinitionRow("Version", escapeHtml(formatVersion(info.version, INFO_VERSIONS))));
+  out.push(renderDefinitionRow(
+    "GUID",
+    `<span class="mono">${escapeHtml(info.guid?.toUpperCase() ?? "-")}</span>`,
+    "Must equal the GUID in the image's RSDS CodeView record."
+  ));
+  out.push(renderDefinitionRow("Age", String(info.age), "Bumped each time the linker writes the PDB."));
+  out.push(renderDefinitionRow("Signature", `<span class="mono">${escapeHtml(hex(info.signature, 8))}</span>`));
+  out.push(renderDefinitionRow(
+    "Named streams",
+    escapeHtml(info.namedStreams.map(stream => `${stream.name} (#${stream.stream})`).join(", ") || "-")
+  ));
+  out.push(renderDefinitionRow("Features", escapeHtml(info.features.join(", ") || "-")));
+  out.push(`</dl></section>`);
+};
+
+const describeDbiFlags = (flags: number): string => {
+  const names: string[] = [];
+  if (flags & 0x1) names.push("incrementally linked");
+  if (flags & 0x2) names.push("private symbols stripped");
+  if (flags & 0x4) names.push("conflicting types");
+  return names.join(", ") || "-";
+};
+
+const renderDbi = (dbi: PdbDbiStream, out: string[]): void => {
+  out.push(`<section>${heading("DBI stream")}<dl>`);
+  out.push(renderDefinitionRow("Version", escapeHtml(formatVersion(dbi.version, DBI_VERSIONS))));
+  out.push(renderDefinitionRow("Age", String(dbi.age), "The age an image's RSDS record has to carry."));
+  out.push(renderDefinitionRow("Toolchain", `${dbi.buildMajor}.${dbi.buildMinor} (mspdb DLL build ${dbi.pdbDllVersion})`));
+  out.push(renderDefinitionRow("Machine", escapeHtml(decodePeMachine(dbi.machine).machineName)));
+  out.push(renderDefinitionRow("Flags", escapeHtml(describeDbiFlags(dbi.flags))));
+  out.push(renderDefinitionRow("Modules", String(dbi.modules.length)));
+  out.push(renderDefinitionRow(
+    "Section contributions",
+    dbi.sectionContributions.length < dbi.sectionContributionCount
+      ? `${dbi.sectionContributionCount} (first ${dbi.sectionContributions.length} listed)`
+      : String(dbi.sectionContributionCount)
+  ));
+  out.push(renderDefinitionRow(
+    "Sections",
+    escapeHtml(dbi.sections.map(section => `${section.name} @ ${hex(section.virtualAddress, 8)}`).join(", ") || "-"),
+    "Image section headers copied into the PDB; they turn section:offset addresses into RVAs."
+  ));
+  out.push(`</dl></section>`);
+};
+
+const renderSymbols = (pdb: PdbParseResult, symbols: PdbSymbolStreams, out: string[]): void => {
+  out.push(`<section>${heading("Public and global symbols")}<dl>`);
+  out.push(renderDefinitionRow(
+    "Public symbols",
+    symbols.publics.length < symbols.publicCount
+      ? `${symbols.publicCount} (first ${symbols.publics.length} listed)`
+      : String(symbols.publicCount),
+    "S_PUB32 records. Open the matching PE image afterwards to name its exports and disassembled functions."
+  ));
+  out.push(renderDefinitionRow("Symbol records", String(symbols.recordCount)));
+  out.push(renderDefinitionRow("Global record kinds", renderKindCounts(symbols.globalKinds)));
+  out.push(renderDefinitionRow("Global hash records", String(symbols.globalHashRecords ?? "-")));
+  out.push(renderDefinitionRow("Public hash records", String(symbols.publicHashRecords ?? "-")));
+  out.push(renderDefinitionRow("Address map entries", String(symbols.addressMapEntries ?? "-")));
+  out.push(`</dl>`);
+  if (symbols.publics.length) out.push(renderTable(pdb, PDB_PUBLICS_TABLE_ID));
+  out.push(`</section>`);
+};
+
+const renderTypes = (label: string, types: PdbTypeStream, out: string[]): void => {
+  out.push(`<section>${heading(`${label} stream`)}<dl>`);
+  out.push(renderDefinitionRow("Version", escapeHtml(formatVersion(types.version, TYPE_VERSIONS))));
+  out.push(renderDefinitionRow(
+    "Records",
+    `${Math.max(0, types.typeIndexEnd - types.typeIndexBegin)} ` +
+      `(indices ${hex(types.typeIndexBegin, 0)}-${hex(Math.max(types.typeIndexBegin, types.typeIndexEnd - 1), 0)})`
+  ));
+  out.push(renderDefinitionRow("Record bytes", String(types.recordBytes)));
+  out.push(renderDefinitionRow("Leaf kinds", renderKindCounts(types.leafKinds)));
+  out.push(`</dl></section>`);
+};
+
+export function renderPdb(pdb: PdbParseResult | null): string {
+  if (!pdb) return "";
+  const out: string[] = [];
+  renderContainer(pdb, out);
+  if (pdb.info) renderInfo(pdb.info, out);
+  if (pdb.dbi) {
+    renderDbi(pdb.dbi, out);
+    if (pdb.dbi.modules.length) {
+      out.push(`<section>${heading("Modules")}${renderTable(pdb, PDB_MODULES_TABLE_ID)}</section>`);
+    }
+    if (pdb.dbi.sectionContributions.length) {
+      out.push(`<section>${heading("Section contributions")}${renderTable(pdb, PDB_CONTRIBUTIONS_TABLE_ID)}</section>`);
+    }
+  }
+  if (pdb.symbols) renderSymbols(pdb, pdb.symbols, out);
+  if (pdb.types) renderTypes("TPI", pdb.types, out);
+  if (pdb.ids) renderTypes("IPI", pdb.ids, out);
+  out.push(`<section>${heading("Streams")}${renderTable(pdb, PDB_STREAMS_TABLE_ID)}</section>`);
+  if (pdb.warnings.length) {
+    out.push(`<section>${heading("Warnings")}`);
+    out.push(`<ul>${pdb.warnings.map(warning => `<li>${escapeHtml(warning)}</li>`).join("")}</ul>`);
+    out.push(`</section>`);
+  }
+  return out.join("");
+}
@@ -0,0 +1,108 @@
+"use strict";
+
+import { hex } from "../../binary-utils.js";
+import { escapeHtml } from "../../html-utils.js";
+import type {
+  PdbModule,
+  PdbParseResult,
+  PdbPublicSymbol,
+  PdbSectionContribution,
+  PdbStream
+} from "../../analyzers/pdb/types.js";
+import type { PagedSortableTableCell, PagedSortableTableModel } from "../paged-sortable-table.js";
+
+const PDB_PAGE_SIZE = 250; // UI page size, not a PDB format value.
+
+export const PDB_PUBLICS_TABLE_ID = "pdb-publics";
+export const PDB_MODULES_TABLE_ID = "pdb-modules";
+export const PDB_CONTRIBUTIONS_TABLE_ID = "pdb-contributions";
+export const PDB_STREAMS_TABLE_ID = "pdb-streams";
+
+export const formatPdbAddress = (segment: number, offset: number): string =>
+  `${segment.toString(16).padStart(4, "0")}:${(offset >>> 0).toString(16).padStart(8, "0")}`.toUpperCase();
+
+const cell = (text: string, sortValue = text): PagedSortableTableCell =>
+  ({ html: escapeHtml(text), sortValue });
+
+const monoCell = (text: string, sortValue = text): PagedSortableTableCell =>
+  ({ html: `<span class="mono">${escapeHtml(text)}</span>`, sortValue });
+
+const numberCell = (value: number): PagedSortableTableCell => cell(String(value));
+
+const createModel = <T>(
+  tableId: string,
+  labels: string[],
+  rows: readonly T[],
+  cellsFor: (row: T) => PagedSortableTableCell[]
+): PagedSortableTableModel => ({
+  columns: labels.map(label => ({ label })),
+  id: tableId,
+  pageSize: PDB_PAGE_SIZE,
+  rowAt: rowIndex => {
+    const row = rows[rowIndex];
+    return row ? { cells: cellsFor(row) } : null;
+  },
+  rowCount: rows.length,
+  sortValueAt: (rowIndex, columnIndex) => {
+    const row = rows[rowIndex];
+    return row ? cellsFor(row)[columnIndex]?.sortValue ?? "" : "";
+  }
+});
+
+const publicKind = (symbol: PdbPublicSymbol): string =>
+  symbol.isFunction ? "function" : symbol.isCode ? "code" : "data";
+
+const publicCells = (symbol: PdbPublicSymbol): PagedSortableTableCell[] => [
+  cell(symbol.name),
+  cell(publicKind(symbol)),
+  monoCell(formatPdbAddress(symbol.segment, symbol.offset)),
+  symbol.rva == null ? cell("-", "") : monoCell(hex(symbol.rva, 8))
+];
+
+const moduleCells = (module: PdbModule): PagedSortableTableCell[] => [
+  numberCell(module.index),
+  cell(module.moduleName || "(unnamed)"),
+  cell(module.objectName === module.moduleName ? "-" : module.objectName || "-"),
+  module.size > 0
+    ? monoCell(`${formatPdbAddress(module.section, module.offset)} +${hex(module.size, 0)}`)
+    : cell("-"),
+  module.symbolStream == null ? cell("-", "") : numberCell(module.symbolStream),
+  numberCell(module.symbolBytes),
+  numberCell(module.lineBytes),
+  numberCell(module.sourceFileCount)
+];
+
+const moduleName = (pdb: PdbParseResult, index: number): string =>
+  pdb.dbi?.modules[index]?.moduleName || `#${index}`;
+
+const contributionCells = (pdb: PdbParseResult, entry: PdbSectionContribution): PagedSortableTableCell[] => [
+  monoCell(formatPdbAddress(entry.section, entry.offset)),
+  numberCell(entry.size),
+  monoCell(hex(entry.characteristics, 8)),
+  cell(moduleName(pdb, entry.module))
+];
+
+const streamCells = (stream: PdbStream): PagedSortableTableCell[] => [
+  numberCell(stream.index),
+  stream.size == null ? cell("nil", "") : numberCell(stream.size),
+  cell(stream.name ?? "-")
+];
+
+export const getPdbPagedTableModel = (pdb: PdbParseResult, tableId: string): PagedSortableTableModel | null => {
+  if (tableId === PDB_PUBLICS_TABLE_ID) {
+    return createModel(tableId, ["Name", "Kind", "Address", "RVA"], pdb.symbols?.publics ?? [], publicCells);
+  }
+  if (tableId === PDB_MODULES_TABLE_ID) {
+    const labels = ["#", "Module", "Object or library", "Contribution", "Symbol stream", "Symbol bytes",
+      "Line bytes", "Source files"];
+    return createModel(tableId, labels, pdb.dbi?.modules ?? [], moduleCells);
+  }
+  if (tableId === PDB_CONTRIBUTIONS_TABLE_ID) {
+    return createModel(tableId, ["Address", "Size", "Characteristics", "Module"],
+      pdb.dbi?.sectionContributions ?? [], entry => contributionCells(pdb, entry));
+  }
+  if (tableId === PDB_STREAMS_TABLE_ID) {
+    return createModel(tableId, ["#", "Size", "Contents"], pdb.streams, streamCells);
+  }
+  return null;
+};
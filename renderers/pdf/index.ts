@@ -22,12 +22,14 @@ function renderCrossReference(xref: PdfXref | null): string {
   if (xref.kind === "stream") {
     return (
       "<h4>Cross-reference</h4>" +
-      "<p>Found cross-reference stream; entry decoding is not implemented yet.</p>" +
+      "<p>Found cross-reference stream; objects stored in object streams are not listed.</p>" +
       "<dl>" +
       renderDefinitionRow("Object", `${xref.objectNumber} ${xref.generation} R`) +
       (xref.trailer && xref.trailer.size
         ? renderDefinitionRow("Declared objects", String(xref.trailer.size))
         : "") +
+      renderDefinitionRow("Entries parsed", String(xref.entries.length)) +
+      renderDefinitionRow("Free entries", String(xref.entries.filter(e => !e.inUse).length)) +
       "</dl>"
     );
   }
@@ -0,0 +1,186 @@
+"use strict";
+
+import { hex } from "../../binary-utils.js";
+import { escapeHtml, renderDefinitionRow } from "../../html-utils.js";
+import { isEmbeddedCodeViewEntry, type PeCodeViewEntry } from "../../analyzers/pe/debug/codeview.js";
+import type {
+  PeCodeViewEmbeddedEntry,
+  PeCodeViewLine,
+  PeCodeViewSourceFile
+} from "../../analyzers/pe/debug/codeview-embedded.js";
+import type { PeCodeViewSymbol } from "../../analyzers/pe/debug/codeview-symbols.js";
+import {
+  renderAutoPagedSortableTable,
+  type PagedSortableTableCell,
+  type PagedSortableTableModel
+} from "../paged-sortable-table.js";
+
+const CODEVIEW_PAGE_SIZE = 250; // UI page size, not a CodeView format value.
+
+type CodeViewLineRow = { file: PeCodeViewSourceFile; line: PeCodeViewLine };
+
+const symbolTableId = (tableIdPrefix: string): string => `${tableIdPrefix}-symbols`;
+const lineTableId = (tableIdPrefix: string): string => `${tableIdPrefix}-lines`;
+
+const formatAddress = (segment: number, offset: number): string =>
+  `${segment.toString(16).padStart(4, "0")}:${offset.toString(16).padStart(8, "0")}`.toUpperCase();
+
+const moduleName = (info: PeCodeViewEmbeddedEntry, index: number | null): string =>
+  index == null ? "(global)" : info.modules.find(module => module.index === index)?.name || `#${index}`;
+
+const cell = (text: string, sortValue = text): PagedSortableTableCell => ({ html: escapeHtml(text), sortValue });
+
+const symbolCells = (info: PeCodeViewEmbeddedEntry, symbol: PeCodeViewSymbol): PagedSortableTableCell[] => [
+  cell(symbol.name),
+  cell(symbol.kind),
+  {
+    html: `<span class="mono">${formatAddress(symbol.segment, symbol.offset)}</span>`,
+    sortValue: formatAddress(symbol.segment, symbol.offset)
+  },
+  cell(moduleName(info, symbol.module))
+];
+
+const lineCells = (row: CodeViewLineRow): PagedSortableTableCell[] => [
+  cell(row.file.name || "(unnamed)"),
+  cell(String(row.line.line)),
+  {
+    html: `<span class="mono">${formatAddress(row.line.segment, row.line.offset)}</span>`,
+    sortValue: formatAddress(row.line.segment, row.line.offset)
+  }
+];
+
+const createModel = <T>(
+  tableId: string,
+  labels: string[],
+  rows: readonly T[],
+  cellsFor: (row: T) => PagedSortableTableCell[]
+): PagedSortableTableModel => ({
+  columns: labels.map(label => ({ label })),
+  id: tableId,
+  pageSize: CODEVIEW_PAGE_SIZE,
+  rowAt: rowIndex => {
+    const row = rows[rowIndex];
+    return row ? { cells: cellsFor(row) } : null;
+  },
+  rowCount: rows.length,
+  sortValueAt: (rowIndex, columnIndex) => {
+    const row = rows[rowIndex];
+    return row ? cellsFor(row)[columnIndex]?.sortValue ?? "" : "";
+  }
+});
+
+const lineRows = (info: PeCodeViewEmbeddedEntry): CodeViewLineRow[] =>
+  info.sourceFiles.flatMap(file => file.lines.map(line => ({ file, line })));
+
+const createSymbolTableModel = (info: PeCodeViewEmbeddedEntry, tableId: string): PagedSortableTableModel =>
+  createModel(tableId, ["Name", "Kind", "Address", "Module"], info.symbols, symbol => symbolCells(info, symbol));
+
+const createLineTableModel = (info: PeCodeViewEmbeddedEntry, tableId: string): PagedSortableTableModel =>
+  createModel(tableId, ["Source file", "Line", "Address"], lineRows(info), lineCells);
+
+export const getCodeViewTableModel = (
+  codeView: PeCodeViewEntry,
+  tableId: string,
+  tableIdPrefix: string
+): PagedSortableTableModel | null => {
+  if (!isEmbeddedCodeViewEntry(codeView)) return null;
+  if (tableId === symbolTableId(tableIdPrefix)) return createSymbolTableModel(codeView, tableId);
+  if (tableId === lineTableId(tableIdPrefix)) return createLineTableModel(codeView, tableId);
+  return null;
+};
+
+const formatListedCount = (total: number, listed: number): string =>
+  listed < total ? `${total} (first ${listed} listed)` : String(total);
+
+const renderSubsectionCounts = (info: PeCodeViewEmbeddedEntry): string => {
+  const counts = new Map<string, number>();
+  info.subsections.forEach(subsection => {
+    counts.set(subsection.typeName, (counts.get(subsection.typeName) ?? 0) + 1);
+  });
+  return [...counts].map(([name, count]) => `${escapeHtml(name)} &times; ${count}`).join(", ") || "none";
+};
+
+const renderModules = (info: PeCodeViewEmbeddedEntry, out: string[]): void => {
+  if (!info.modules.length) return;
+  out.push(
+    `<table class="table" style="margin-top:.35rem"><thead><tr><th>#</th>` +
+      `<th>Module</th><th>Library</th><th>Contributions</th></tr></thead><tbody>`
+  );
+  info.modules.forEach(module => {
+    const segments = module.segments
+      .map(segment => `${formatAddress(segment.segment, segment.offset)} +${hex(segment.size, 0)}`)
+      .join(", ");
+    out.push(
+      `<tr><td>${module.index}</td><td>${escapeHtml(module.name || "(unnamed)")}</td>` +
+        `<td>${module.library || "-"}</td><td class="mono">${escapeHtml(segments || "-")}</td></tr>`
+    );
+  });
+  out.push(`</tbody></table>`);
+};
+
+const renderEmbeddedCodeView = (info: PeCodeViewEmbeddedEntry, out: string[], tableIdPrefix: string): void => {
+  out.push(`<dl>`);
+  out.push(renderDefinitionRow(
+    "Signature",
+    info.signature,
+    info.signature === "NB09"
+      ? "CodeView 4 debug information embedded in the image (no PDB)."
+      : "CodeView 5 debug information embedded in the image (no PDB)."
+  ));
+  out.push(renderDefinitionRow("Directory offset", escapeHtml(hex(info.directoryOffset, 8))));
+  out.push(renderDefinitionRow("Subsections", renderSubsectionCounts(info)));
+  out.push(renderDefinitionRow("Modules", String(info.modules.length)));
+  out.push(renderDefinitionRow(
+    "Symbols",
+    formatListedCount(info.symbolCount, info.symbols.length),
+    "Publics, data and procedures from sstGlobalPub, sstGlobalSym, sstStaticSym and sstAlignSym."
+  ));
+  out.push(renderDefinitionRow(
+    "Line numbers",
+    formatListedCount(info.lineCount, lineRows(info).length),
+    "Source line to segment:offset pairs from sstSrcModule."
+  ));
+  out.push(`</dl>`);
+  renderModules(info, out);
+  if (info.symbols.length) {
+    out.push(renderAutoPagedSortableTable(createSymbolTableModel(info, symbolTableId(tableIdPrefix))));
+  }
+  if (info.lineCount) {
+    out.push(renderAutoPagedSortableTable(createLineTableModel(info, lineTableId(tableIdPrefix))));
+  }
+};
+
+export const renderCodeViewFields = (codeView: PeCodeViewEntry, out: string[], tableIdPrefix: string): void => {
+  if (isEmbeddedCodeViewEntry(codeView)) {
+    renderEmbeddedCodeView(codeView, out, tableIdPrefix);
+    return;
+  }
+  out.push(`<dl>`);
+  if (codeView.signature === "NB10") {
+    out.push(renderDefinitionRow("Signature", "NB10", "PDB 2.0 record format used by VC++ 2.0-6.0 toolchains."));
+    out.push(renderDefinitionRow(
+      "Offset",
+      escapeHtml(hex(codeView.offset, 8)),
+      "Offset of the CodeView data in the PDB; always 0 for a separate PDB."
+    ));
+    out.push(renderDefinitionRow(
+      "PDB signature",
+      escapeHtml(hex(codeView.timestamp, 8)),
+      "Time stamp the PDB must also carry to match this image."
+    ));
+  } else {
+    out.push(renderDefinitionRow(
+      "Signature",
+      "RSDS",
+      "Modern CodeView/PDB record format used by Microsoft tools."
+    ));
+    out.push(renderDefinitionRow(
+      "GUID",
+      escapeHtml(codeView.guid.toUpperCase()),
+      "PDB identity GUID used to match the correct PDB file."
+    ));
+  }
+  out.push(renderDefinitionRow("Age", escapeHtml(String(codeView.age))));
+  out.push(renderDefinitionRow("Path", escapeHtml(codeView.path || "(no path)")));
+  out.push(`</dl>`);
+};
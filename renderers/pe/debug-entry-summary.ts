@@ -2,6 +2,7 @@
 
 import type { PeWindowsParseResult } from "../../analyzers/pe/index.js";
 import type { PeDebugDirectoryEntry } from "../../analyzers/pe/debug/directory.js";
+import { isEmbeddedCodeViewEntry } from "../../analyzers/pe/debug/codeview.js";
 import { getDebugTypeInfo } from "./debug-type-info.js";
 
 type DebugStorageInfo = { label: string; description: string };
@@ -64,9 +65,13 @@ const formatParsedPrimarySymbolCount = (count: number): string =>
 export const getEntrySummary = (entry: PeDebugDirectoryEntry): string => {
   if (entry.coff) return `COFF symbol table with ${formatParsedPrimarySymbolCount(entry.coff.symbols.length)}.`;
   if (entry.codeView) {
-    return entry.codeView.signature === "NB10"
-      ? "CodeView NB10 record with PDB identity and path."
-      : "CodeView RSDS record with PDB identity and path.";
+    const { signature } = entry.codeView;
+    if (isEmbeddedCodeViewEntry(entry.codeView)) {
+      return `Embedded CodeView ${signature} debug information with ${entry.codeView.modules.length} module` +
+        `${entry.codeView.modules.length === 1 ? "" : "s"} and ${entry.codeView.symbolCount} symbol` +
+        `${entry.codeView.symbolCount === 1 ? "" : "s"}.`;
+    }
+    return `CodeView ${signature} record with PDB identity and path.`;
   }
   if (entry.fpo) return `Frame-pointer omission table with ${entry.fpo.records.length} records.`;
   if (entry.misc) return "Legacy DBG-file location record.";
@@ -8,6 +8,7 @@ import { EX_DLL_CHARACTERISTICS_FLAGS } from "../../analyzers/pe/constants.js";
 import { getDebugTypeInfo } from "./debug-type-info.js";
 import { getDebugStorageInfo, getEntrySummary } from "./debug-entry-summary.js";
 import { renderCoffDebugInfo } from "../coff/debug.js";
+import { renderCodeViewFields } from "./debug-codeview.js";
 import { renderException } from "./exception.js";
 
 const hasDecodedPayload = (entry: PeDebugDirectoryEntry): boolean =>
@@ -48,30 +49,6 @@ const renderEntryCommonFields = (
   out.push(`</dl>`);
 };
 
-const renderCodeViewFields = (entry: PeDebugDirectoryEntry, out: string[]): void => {
-  if (!entry.codeView) return;
-  out.push(`<dl>`);
-  if (entry.codeView.signature === "NB10") {
-    out.push(renderDefinitionRow("Signature", "NB10", "Legacy CodeView/PDB record format."));
-    out.push(renderDefinitionRow("Offset", escapeHtml(hex(entry.codeView.offset ?? 0, 8))));
-    out.push(renderDefinitionRow("Timestamp", escapeHtml(hex(entry.codeView.timestamp ?? 0, 8))));
-  } else {
-    out.push(renderDefinitionRow(
-      "Signature",
-      "RSDS",
-      "Modern CodeView/PDB record format used by Microsoft tools."
-    ));
-    out.push(renderDefinitionRow(
-      "GUID",
-      escapeHtml(entry.codeView.guid.toUpperCase()),
-      "PDB identity GUID used to match the correct PDB file."
-    ));
-  }
-  out.push(renderDefinitionRow("Age", escapeHtml(String(entry.codeView.age))));
-  out.push(renderDefinitionRow("Path", escapeHtml(entry.codeView.path || "(no path)")));
-  out.push(`</dl>`);
-};
-
 const renderCoffFields = (
   entry: PeDebugDirectoryEntry,
   entryIndex: number,
@@ -265,7 +242,7 @@ export const renderDecodedEntryDetails = (
     );
     renderEntryCommonFields(pe, entry, out);
     renderCoffFields(entry, entryIndex, out);
-    renderCodeViewFields(entry, out);
+    if (entry.codeView) renderCodeViewFields(entry.codeView, out, `pe-debug-entry-${entryIndex}-codeview`);
     renderFpoFields(entry, out);
     renderMiscFields(entry, out);
     renderVcFeatureFields(entry, out);
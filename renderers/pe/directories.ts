@@ -135,7 +135,8 @@ const renderTlsFields = (tls: PeTlsSection, out: string[]): void => {
   out.push(`</tbody></table></div>`);
 };
 
-export function renderExports(ex: PeExportSection, out: string[]): void {
+// pdbNames: public symbol names by RVA from a matching PDB opened earlier in the session.
+export function renderExports(ex: PeExportSection, out: string[], pdbNames?: ReadonlyMap<number, string>): void {
   out.push(
     renderPeSectionStart(
       "Export directory",
@@ -154,9 +155,12 @@ export function renderExports(ex: PeExportSection, out: string[]): void {
     out.push(`</ul>`);
   }
   if (ex.entries?.length) {
-    out.push(`<table class="table" style="margin-top:.35rem"><thead><tr><th>#</th><th>Ordinal</th><th>Name</th><th>RVA</th><th>Forwarder</th></tr></thead><tbody>`);
+    const pdbHeader = pdbNames ? `<th>PDB symbol</th>` : "";
+    out.push(`<table class="table" style="margin-top:.35rem"><thead><tr><th>#</th><th>Ordinal</th><th>Name</th><th>RVA</th>${pdbHeader}<th>Forwarder</th></tr></thead><tbody>`);
     ex.entries.forEach((e, index) => {
-      out.push(`<tr><td>${index + 1}</td><td>${e.ordinal}</td><td>${e.name ? escapeHtml(e.name) : "-"}</td><td>${hex(e.rva, 8)}</td><td>${e.forwarder ? escapeHtml(e.forwarder) : "-"}</td></tr>`);
+      const pdbName = e.forwarder ? null : pdbNames?.get(e.rva);
+      const pdbCell = pdbNames ? `<td>${pdbName ? escapeHtml(pdbName) : "-"}</td>` : "";
+      out.push(`<tr><td>${index + 1}</td><td>${e.ordinal}</td><td>${e.name ? escapeHtml(e.name) : "-"}</td><td>${hex(e.rva, 8)}</td>${pdbCell}<td>${e.forwarder ? escapeHtml(e.forwarder) : "-"}</td></tr>`);
     });
     out.push(`</tbody></table>`);
   }
@@ -99,9 +99,10 @@ const renderEntrypointNotes = (instruction: PeEntrypointInstruction): string =>
 
 export const renderEntrypointExplorer = (
   report: PeEntrypointDisassemblyReport,
-  state: PeEntrypointExplorerState = DEFAULT_PE_ENTRYPOINT_EXPLORER_STATE
+  state: PeEntrypointExplorerState = DEFAULT_PE_ENTRYPOINT_EXPLORER_STATE,
+  symbolNames?: ReadonlyMap<number, string>
 ): string => {
-  const blocks = visibleEntrypointBlocks(report.blocks);
+  const blocks = visibleEntrypointBlocks(report.blocks, symbolNames);
   if (!blocks.length) return "";
   const normalized = normalizeEntrypointExplorerState(blocks, state);
   return `<div class="peEntrypointExplorer" data-pe-entrypoint-explorer ` +
@@ -178,7 +179,7 @@ const renderBlockIndexRow = (
     `<td class="mono peNumeric"><button type="button" class="peEntrypointBlockSelect" ` +
     `data-pe-entrypoint-block-select="${blockIndex}"${ariaCurrent}>` +
     `${hex(block.block.startRva, 8)}</button></td>` +
-    `<td>${escapeHtml(renderEntrypointBlockKind(block))}</td>` +
+    `<td>${escapeHtml(renderEntrypointBlockKind(block))}${renderSymbolName(block, "<br>")}</td>` +
     `<td>${renderEntrypointSourcesPreview(block)}</td>` +
     `<td class="mono peNumeric">${escapeHtml(String(block.block.instructions.length))}</td>` +
     `<td class="mono peNumeric">${hex(block.block.fileOffsetStart, 8)}</td></tr>`;
@@ -216,9 +217,13 @@ const renderSelectedBlockHeader = (block: PeEntrypointRenderBlock, blockIndex: n
   `<div class="smallNote peEntrypointBlock" tabindex="-1" data-pe-entrypoint-block-index="` +
   `${blockIndex}" data-pe-entrypoint-block-rva="${block.block.startRva}" ` +
   `data-pe-entrypoint-rva="${block.block.startRva}"><strong>` +
-  `${escapeHtml(renderEntrypointBlockLabel(block))}</strong>: RVA ${hex(block.block.startRva, 8)}, ` +
+  `${escapeHtml(renderEntrypointBlockLabel(block))}</strong>${renderSymbolName(block, " ")}: ` +
+  `RVA ${hex(block.block.startRva, 8)}, ` +
   `file offset ${hex(block.block.fileOffsetStart, 8)}.</div>`;
 
+const renderSymbolName = (block: PeEntrypointRenderBlock, separator: string): string =>
+  block.symbolName ? `${separator}<span class="mono">${escapeHtml(block.symbolName)}</span>` : "";
+
 const renderSelectedBlockSources = (
   block: PeEntrypointRenderBlock,
   sourcePageIndex: number
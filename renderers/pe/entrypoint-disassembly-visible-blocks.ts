@@ -10,6 +10,8 @@ export type PeEntrypointRenderBlock = {
   block: PeEntrypointDisassemblyBlock;
   duplicateCount: number;
   sources: number[];
+  // Name of the function starting at the block, from a matching PDB's publics.
+  symbolName?: string;
 };
 
 type SignatureScalar = string | number | boolean | null;
@@ -23,7 +25,8 @@ type InstructionSignature = {
 };
 
 export const visibleEntrypointBlocks = (
-  blocks: readonly PeEntrypointDisassemblyBlock[]
+  blocks: readonly PeEntrypointDisassemblyBlock[],
+  symbolNames?: ReadonlyMap<number, string>
 ): PeEntrypointRenderBlock[] => {
   const out: PeEntrypointRenderBlock[] = [];
   const bySignature = new Map<string, PeEntrypointRenderBlock>();
@@ -34,10 +37,12 @@ export const visibleEntrypointBlocks = (
       existing.duplicateCount += 1;
       existing.sources = uniqueSourceRvas(existing, block.sourceInstructionRva);
     } else {
-      const rendered = {
+      const symbolName = symbolNames?.get(block.startRva);
+      const rendered: PeEntrypointRenderBlock = {
         block,
         duplicateCount: 1,
-        sources: block.sourceInstructionRva == null ? [] : [block.sourceInstructionRva]
+        sources: block.sourceInstructionRva == null ? [] : [block.sourceInstructionRva],
+        ...(symbolName ? { symbolName } : {})
       };
       bySignature.set(signature, rendered);
       out.push(rendered);
@@ -46,7 +46,7 @@ const renderEntrypointReport = (pe: PeWindowsParseResult, out: string[]): void =
     `${report.instructionCount} instruction(s), ${formatHumanSize(report.bytesDecoded)}, ` +
     `RVA ${hex(report.entrypointRva, 8)}.</div>`
   );
-  out.push(renderEntrypointExplorer(report));
+  out.push(renderEntrypointExplorer(report, undefined, pe.pdbSymbols?.names));
   if (!report.blocks.length && report.issues.length) {
     const items = report.issues.map(issue => `<li>${escapeHtml(issue)}</li>`).join("");
     out.push(`<ul class="smallNote">${items}</ul>`);
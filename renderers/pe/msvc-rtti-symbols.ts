@@ -68,5 +68,6 @@ export const collectPeExactSymbolNames = (
   addCoffNames(pe, pe.coffDebug, names);
   pe.debug?.entries?.forEach(entry => addCoffNames(pe, entry.coff, names));
   addGoRuntimeNames(pe, names);
+  pe.pdbSymbols?.names.forEach((name, rva) => addName(names, rva, name));
   return names;
 };
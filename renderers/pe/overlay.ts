@@ -6,7 +6,7 @@ import {
   type PeParseResult
 } from "../../analyzers/pe/index.js";
 import type { PeOverlayRange } from "../../analyzers/pe/overlay.js";
-import { renderDownloadButton } from "../download-button.js";
+import { renderAnalyzeEntryButton, renderDownloadButton } from "../download-button.js";
 import { renderPeDiagnostics } from "./diagnostics.js";
 import { renderPeSectionEnd, renderPeSectionStart } from "./collapsible-section.js";
 
@@ -15,12 +15,17 @@ export const PE_OVERLAY_PANEL_ID = "peOverlayPanel";
 const getUnexplainedOverlaySize = (pe: PeParseResult): number =>
   pe.overlay?.ranges.reduce((total, range) => total + range.size, 0) ?? 0;
 
+const overlayRangeAttributes = (start: number, end: number): Array<readonly [string, number?]> => [
+  ["data-pe-overlay-download"],
+  ["data-overlay-start", start],
+  ["data-overlay-end", end]
+];
+
 export const renderOverlayDownloadButton = (start: number, end: number, label: string): string =>
-  renderDownloadButton(label, [
-    ["data-pe-overlay-download"],
-    ["data-overlay-start", start],
-    ["data-overlay-end", end]
-  ]);
+  renderDownloadButton(label, overlayRangeAttributes(start, end));
+
+const renderOverlayAnalyzeButton = (start: number, end: number): string =>
+  renderAnalyzeEntryButton("", overlayRangeAttributes(start, end));
 
 const overlayScanElementId = (range: PeOverlayRange, suffix: string): string =>
   `peOverlayScan_${range.start}_${range.end}_${suffix}`;
@@ -75,7 +80,8 @@ const renderFindingRows = (range: PeOverlayRange): string =>
     `<div class="smallNote">${hex(finding.start, 8)}-${hex(finding.end, 8)}</div></td>` +
     `<td>${humanSize(finding.size)}</td><td>${escapeHtml(finding.detectedType)}` +
     `<div class="smallNote">${escapeHtml(finding.endDescription)}</div></td>` +
-    `<td>${renderOverlayDownloadButton(finding.start, finding.end, `Download detected payload ${index + 1}`)}</td></tr>`
+    `<td>${renderOverlayDownloadButton(finding.start, finding.end, `Download detected payload ${index + 1}`)} ` +
+    `${renderOverlayAnalyzeButton(finding.start, finding.end)}</td></tr>`
   ).join("");
 
 const renderOverlayRangeContent = (range: PeOverlayRange, index: number): string => {
@@ -85,7 +91,8 @@ const renderOverlayRangeContent = (range: PeOverlayRange, index: number): string
     `<div class="peOverlayRangeHeader"><div><b>True overlay #${index + 1}</b>` +
     `<div class="smallNote">${hex(range.start, 8)}-${hex(range.end, 8)}; ` +
     `${humanSize(range.size)}</div></div>` +
-    renderOverlayDownloadButton(range.start, range.end, `Download complete overlay ${index + 1}`) +
+    `<div>${renderOverlayDownloadButton(range.start, range.end, `Download complete overlay ${index + 1}`)} ` +
+    `${renderOverlayAnalyzeButton(range.start, range.end)}</div>` +
     `</div>`
   );
   out.push(renderCoverageBar(range));
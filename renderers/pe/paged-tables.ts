@@ -11,6 +11,7 @@ import {
   directIatReferenceCounts
 } from "./direct-iat-references.js";
 import { getCoffDebugTableModel } from "../coff/debug.js";
+import { getCodeViewTableModel } from "./debug-codeview.js";
 import { getPeDisassemblyStringTableModel } from "./disassembly-strings.js";
 import { createImportFunctionTableModel } from "./import-function-table.js";
 import { getPeResourceTableModel } from "./resources.js";
@@ -73,10 +74,12 @@ const getPeDebugCoffTableModel = (
     : null;
   if (topLevel) return topLevel;
   if (!isPeWindowsParseResult(pe)) return null;
-  const match = tableId.match(/^pe-debug-entry-(\d+)-coff-/);
+  const match = tableId.match(/^pe-debug-entry-(\d+)-(coff|codeview)-/);
   if (!match?.[1]) return null;
   const entry = pe.debug?.entries?.[Number(match[1])];
-  return entry?.coff ? getCoffDebugTableModel(entry.coff, tableId, match[0].slice(0, -1)) : null;
+  const prefix = match[0].slice(0, -1);
+  if (match[2] === "codeview") return entry?.codeView ? getCodeViewTableModel(entry.codeView, tableId, prefix) : null;
+  return entry?.coff ? getCoffDebugTableModel(entry.coff, tableId, prefix) : null;
 };
 
 export const getPePagedTableModel = (
@@ -9,7 +9,7 @@ import type {
   PePayloadProvenance
 } from "../../analyzers/pe/payloads.js";
 import { knownResourceType } from "../../analyzers/pe/resources/type-names.js";
-import { renderDownloadButton } from "../download-button.js";
+import { renderAnalyzeEntryButton, renderDownloadButton } from "../download-button.js";
 import { renderPeSectionEnd, renderPeSectionStart } from "./collapsible-section.js";
 
 type PePayloadSection = "appended" | "resource";
@@ -54,13 +54,16 @@ const payloadValidation = (payload: PeExtractedPayload): string =>
       ? "7z SignatureHeader and NextHeader bounds and checksums establish the exact range."
       : "MZ, bounded e_lfanew, and PE signature only; this is not a recursive PE parse.";
 
+const payloadAttributes = (payload: PeExtractedPayload): Array<readonly [string, (number | string)?]> => [
+  ["data-pe-payload-download"],
+  ["data-payload-start", payload.start],
+  ["data-payload-end", payload.end],
+  ["data-payload-format", payload.format]
+];
+
 const renderPayloadDownloadButton = (payload: PeExtractedPayload): string =>
-  renderDownloadButton(`Download ${PAYLOAD_FORMAT_LABELS[payload.format]}`, [
-    ["data-pe-payload-download"],
-    ["data-payload-start", payload.start],
-    ["data-payload-end", payload.end],
-    ["data-payload-format", payload.format]
-  ]);
+  renderDownloadButton(`Download ${PAYLOAD_FORMAT_LABELS[payload.format]}`, payloadAttributes(payload)) +
+  ` ${renderAnalyzeEntryButton("", payloadAttributes(payload))}`;
 
 const renderPayloadRow = (payload: PeExtractedPayload): string =>
   `<tr><td><b>${PAYLOAD_FORMAT_LABELS[payload.format]}</b><br><span class="smallNote">` +
@@ -1,6 +1,6 @@
 "use strict";
 
-import { escapeHtml } from "../../html-utils.js";
+import { escapeHtml, renderFileRangeAttributes } from "../../html-utils.js";
 import { hex, humanSize } from "../../binary-utils.js";
 import { formatSectionCharacteristicFlags } from "../../analyzers/pe/constants.js";
 import { isPeWindowsParseResult, type PeParseResult } from "../../analyzers/pe/index.js";
@@ -81,7 +81,7 @@ export const renderSections = (pe: PeParseResult, out: string[]): void => {
       coffStringTableOffset != null && sectionName !== `/${coffStringTableOffset}`
         ? `${baseNameCell}<div class="smallNote dim">COFF name /${coffStringTableOffset}</div>`
         : baseNameCell;
-    out.push(`<tr>
+    out.push(`<tr${renderFileRangeAttributes(section.pointerToRawData, section.sizeOfRawData)}>
         <td>${nameCell}</td>
         <td>${humanSize(section.virtualSize)}</td>
         <td>${hex(section.virtualAddress, 8)}</td>
@@ -0,0 +1,67 @@
+"use strict";
+
+import { hex } from "../../binary-utils.js";
+import type {
+  AuthenticodeInfo,
+  AuthenticodePageHashResult
+} from "../../analyzers/pe/authenticode/index.js";
+import { escapeHtml } from "../../html-utils.js";
+import {
+  createInfoBadge,
+  createRoleBadge,
+  createStatusBadge,
+  renderTreeMeta,
+  renderTreeNode
+} from "./security-tree-markup.js";
+
+// Mismatched pages are always listed; matching ones only up to this many rows.
+const MATCHING_PAGE_ROW_LIMIT = 256;
+
+const renderPageRow = (page: AuthenticodePageHashResult): string =>
+  `<tr${page.matches ? "" : ` class="peSecurityPageHash--mismatch"`}>` +
+  `<td class="mono">${hex(page.offset, 8)}</td>` +
+  `<td>${escapeHtml(page.section)}</td>` +
+  `<td>${page.length}</td>` +
+  `<td class="mono">${escapeHtml(page.expectedDigest ?? "-")}</td>` +
+  `<td class="mono">${escapeHtml(page.computedDigest ?? "-")}</td>` +
+  `<td>${page.matches ? "Match" : page.expectedDigest ? "Mismatch" : "Not listed"}</td></tr>`;
+
+const renderPageTable = (pages: readonly AuthenticodePageHashResult[], mismatchCount: number): string => {
+  const rows = pages.filter((page, index) => !page.matches || index < MATCHING_PAGE_ROW_LIMIT);
+  return `<details class="peSecurityPageHashes"${mismatchCount ? " open" : ""}>` +
+    `<summary class="smallNote">${pages.length} pages` +
+    `${mismatchCount ? `, ${mismatchCount} mismatched` : ""}</summary>` +
+    `<div class="tableWrap"><table class="table"><thead><tr>` +
+    `<th>Offset</th><th>Section</th><th>Bytes</th><th>Embedded digest</th><th>Computed digest</th><th>Status</th>` +
+    `</tr></thead><tbody>${rows.map(renderPageRow).join("")}</tbody></table></div>` +
+    (rows.length < pages.length
+      ? `<div class="smallNote">Showing ${rows.length} of ${pages.length} pages; every mismatch is listed.</div>`
+      : "") +
+    `</details>`;
+};
+
+export const renderPageHashesNode = (auth: AuthenticodeInfo): string => {
+  const table = auth.pageHashes;
+  if (!table) return "";
+  const result = auth.verification?.pageHashes;
+  const mismatchedSections = [...new Set(result?.pages.filter(page => !page.matches).map(page => page.section))];
+  return renderTreeNode(
+    "Page hashes",
+    [
+      createRoleBadge("Pages", "certificate"),
+      result
+        ? createStatusBadge(
+          result.mismatchCount ? `${result.mismatchCount} mismatch` : "Match",
+          result.mismatchCount ? "fail" : "pass",
+          "Each 4 KiB page of the image is hashed as Windows does and compared to the signed page hash table."
+        )
+        : createStatusBadge("Not checked", "unknown", "Page hashes were not recomputed for this image."),
+      createInfoBadge(`${table.algorithmName} (v${table.version})`),
+      createInfoBadge(`${table.entries.length} entries`)
+    ],
+    [
+      renderTreeMeta("Mismatched sections", mismatchedSections.join(", ") || undefined),
+      result ? renderPageTable(result.pages, result.mismatchCount) : ""
+    ]
+  );
+};
@@ -35,6 +35,7 @@ import {
   renderTreeMeta,
   renderTreeNode
 } from "./security-tree-markup.js";
+import { renderPageHashesNode } from "./security-page-hashes.js";
 
 const findCheck = (auth: AuthenticodeInfo, id: string) =>
   auth.verification?.checks?.find(check => check.id === id);
@@ -217,6 +218,7 @@ export const renderAuthenticodeTree = (certificate: ParsedWinCertificate): strin
     ...Array.from({ length: signerCount }, (_, index) =>
       renderSignerNode(auth, signers[index], signerVerifications[index], index)
     ),
+    renderPageHashesNode(auth),
     renderAdditionalCertificatesNode(auth),
     renderTrustGapsNode(auth.verification?.trustGaps),
     renderWarningsNode("Trust snapshot warnings", auth.verification?.trustPolicy?.warnings),
@@ -234,6 +236,7 @@ export const renderAuthenticodeTree = (certificate: ParsedWinCertificate): strin
       filterBadges([
         createRoleBadge("PKCS#7", "signer"),
         createCheckBadge(auth, "file-digest-match", "Digest"),
+        createCheckBadge(auth, "page-hashes", "Pages"),
         createSignerSignatureSummaryBadge(auth),
         createTrustSnapshotBadge(auth),
         auth.fileDigestAlgorithmName || auth.fileDigestAlgorithm
@@ -0,0 +1,50 @@
+"use strict";
+
+import type { PolyglotAnalysis, PolyglotInterpretation, PolyglotOverlap } from "../analyzers/polyglot/index.js";
+import { humanSize } from "../binary-utils.js";
+import { escapeHtml, renderFileRangeAttributes } from "../html-utils.js";
+import { formatHexOffset } from "./hex-view.js";
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+// Text for the panel summary; overlapping claims are what makes a file a polyglot rather than
+// a file with appended data, so they are called out there.
+export const describePolyglotSummary = (analysis: PolyglotAnalysis): string => {
+  const count = analysis.interpretations.length;
+  if (!count) return "No known format";
+  if (!analysis.overlaps.length) return plural(count, "interpretation");
+  return `${plural(count, "interpretation")}, ${plural(analysis.overlaps.length, "overlapping claim")}`;
+};
+
+const renderOverlap = (overlap: PolyglotOverlap, interpretations: readonly PolyglotInterpretation[]): string => {
+  const first = interpretations[overlap.first]?.label ?? "";
+  const second = interpretations[overlap.second]?.label ?? "";
+  return `<li${renderFileRangeAttributes(overlap.start, overlap.end - overlap.start)}>` +
+    `${escapeHtml(first)} and ${escapeHtml(second)} both claim ` +
+    `<span class="mono">0x${formatHexOffset(overlap.start)}-0x${formatHexOffset(overlap.end)}</span> ` +
+    `(${humanSize(overlap.end - overlap.start)}).</li>`;
+};
+
+const renderInterpretationRow = (entry: PolyglotInterpretation): string =>
+  `<tr${renderFileRangeAttributes(entry.start, entry.end - entry.start)}>` +
+  `<td>${escapeHtml(entry.label)}</td>` +
+  `<td>${escapeHtml(entry.evidence)}</td>` +
+  `<td class="mono">0x${formatHexOffset(entry.start)}-0x${formatHexOffset(entry.end)}</td>` +
+  `<td>${humanSize(entry.end - entry.start)}` +
+  `<div class="smallNote${entry.extentKnown ? "" : " dim"}">${escapeHtml(entry.extentDescription)}</div></td></tr>`;
+
+export const renderPolyglotAnalysis = (analysis: PolyglotAnalysis): string => {
+  const { interpretations, overlaps } = analysis;
+  if (!interpretations.length) return `<p class="smallNote">No signature or structure matched this file.</p>`;
+  const warning = overlaps.length
+    ? `<div class="polyglot__warning"><b>Overlapping claims:</b> these bytes are read differently by different ` +
+      `parsers.<ul>${overlaps.map(overlap => renderOverlap(overlap, interpretations)).join("")}</ul></div>`
+    : "";
+  const note = interpretations.length > 1 && !overlaps.length
+    ? `<p class="smallNote">The interpretations claim separate byte ranges (e.g. appended data).</p>`
+    : "";
+  return warning + note +
+    `<div class="tableWrap"><table class="table polyglot__table"><thead><tr><th>Interpretation</th>` +
+    `<th>Evidence</th><th>Bytes</th><th>Length</th></tr></thead>` +
+    `<tbody>${interpretations.map(renderInterpretationRow).join("")}</tbody></table></div>`;
+};
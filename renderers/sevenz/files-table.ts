@@ -2,6 +2,7 @@
 
 import { escapeHtml } from "../../html-utils.js";
 import { toHex32 } from "../../binary-utils.js";
+import { renderAnalyzeEntryButton } from "../download-button.js";
 import type { SevenZipFileSummary, SevenZipParseResult } from "../../analyzers/sevenz/index.js";
 import { FILE_FLAG_DEFS, renderFlagsOrNone } from "./flags-view.js";
 import { describeCoders, describeFileType } from "./semantics.js";
@@ -86,5 +87,6 @@ const renderActionCell = (file: SevenZipFileSummary, showActions: boolean): stri
   if (file.hasStream === false || file.isDirectory) return "<td>-</td>";
   if (file.extractError) return `<td><span class="smallNote">${escapeHtml(file.extractError)}</span></td>`;
   return `<td><button type="button" class="tableButton sevenZipExtractButton" ` +
-    `data-sevenzip-entry="${file.index}">Extract</button></td>`;
+    `data-sevenzip-entry="${file.index}">Extract</button> ` +
+    `${renderAnalyzeEntryButton("sevenZipExtractButton", [["data-sevenzip-entry", file.index]])}</td>`;
 };
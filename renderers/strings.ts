@@ -0,0 +1,87 @@
+"use strict";
+
+import type { ExtractedString, StringEncoding } from "../analyzers/strings/index.js";
+import { toCsvField } from "../csv-utils.js";
+import { escapeHtml, renderFileRangeAttributes } from "../html-utils.js";
+import { formatHexOffset } from "./hex-view.js";
+import type { PagedSortableTableModel, PagedSortableTableRow } from "./paged-sortable-table.js";
+
+export const STRINGS_TABLE_ID = "file-strings";
+export const STRINGS_PAGE_SIZE = 500;
+const DISPLAY_TEXT_LIMIT = 160;
+
+const ENCODING_LABELS: Readonly<Record<StringEncoding, string>> = {
+  ascii: "ASCII",
+  utf8: "UTF-8",
+  utf16le: "UTF-16LE",
+  utf16be: "UTF-16BE"
+};
+
+// Returns the label of the structure that owns a file offset, or "" outside every structure.
+export type StringOwnerLookup = (offset: number) => string;
+
+type StringCellValues = [string, string, string, string, string];
+
+// Control characters other than tab never occur in extracted strings; tabs are shown as `\t`.
+const displayText = (text: string): string => text.replace(/\t/g, "\\t");
+
+const cellValues = (entry: ExtractedString, owner: StringOwnerLookup): StringCellValues => [
+  String(entry.offset),
+  ENCODING_LABELS[entry.encoding],
+  String(entry.byteLength),
+  owner(entry.offset),
+  entry.text
+];
+
+const renderCells = (entry: ExtractedString, owner: StringOwnerLookup): PagedSortableTableRow["cells"] => {
+  const values = cellValues(entry, owner);
+  const text = displayText(entry.text);
+  const clipped = text.length > DISPLAY_TEXT_LIMIT ? `${text.slice(0, DISPLAY_TEXT_LIMIT - 3)}...` : text;
+  return [
+    {
+      html: `<span class="mono"${renderFileRangeAttributes(entry.offset, entry.byteLength)}>` +
+        `0x${formatHexOffset(entry.offset)}</span>`,
+      sortValue: values[0]
+    },
+    { html: escapeHtml(values[1]), sortValue: values[1] },
+    { html: escapeHtml(values[2]), sortValue: values[2], className: "peNumeric" },
+    { html: escapeHtml(values[3] || "-"), sortValue: values[3] },
+    { html: `<code title="${escapeHtml(text)}">${escapeHtml(clipped)}</code>`, sortValue: values[4] }
+  ];
+};
+
+export const createStringsTableModel = (
+  strings: readonly ExtractedString[],
+  owner: StringOwnerLookup
+): PagedSortableTableModel => ({
+  id: STRINGS_TABLE_ID,
+  rowCount: strings.length,
+  pageSize: STRINGS_PAGE_SIZE,
+  tableClassName: "stringsTable",
+  columns: [
+    { label: "Offset" },
+    { label: "Encoding" },
+    { label: "Bytes", className: "peNumeric" },
+    { label: "Owner", tooltip: "Parsed structure (section, segment or entry) that contains the string" },
+    { label: "Text" }
+  ],
+  rowAt: rowIndex => {
+    const entry = strings[rowIndex];
+    return entry ? { cells: renderCells(entry, owner) } : null;
+  },
+  sortValueAt: (rowIndex, columnIndex) => {
+    const entry = strings[rowIndex];
+    return entry ? cellValues(entry, owner)[columnIndex] ?? "" : "";
+  }
+});
+
+// RFC 4180 CSV with the same columns as the table; offsets are hexadecimal and text that would
+// run as a spreadsheet formula is neutralized.
+export const renderStringsCsv = (strings: readonly ExtractedString[], owner: StringOwnerLookup): string =>
+  ["offset,encoding,bytes,owner,text", ...strings.map(entry => [
+    `0x${formatHexOffset(entry.offset)}`,
+    ENCODING_LABELS[entry.encoding],
+    String(entry.byteLength),
+    owner(entry.offset),
+    entry.text
+  ].map(toCsvField).join(","))].join("\r\n") + "\r\n";
@@ -0,0 +1,130 @@
+"use strict";
+
+import { formatHumanSize, toHex32 } from "../binary-utils.js";
+import { renderDefinitionRow, escapeHtml } from "../html-utils.js";
+import { BYTE_DIFF_RANGE_LIMIT } from "../analyzers/diff/byte-ranges.js";
+import type {
+  ByteDiffSummary,
+  DiffFileSummary,
+  DiffRow,
+  DiffStatus,
+  DiffTable,
+  SimilaritySummary,
+  StructuralDiff
+} from "../analyzers/diff/types.js";
+
+const STATUS_LABELS: Readonly<Record<DiffStatus, string>> = {
+  same: "Same",
+  changed: "Changed",
+  added: "Only right",
+  removed: "Only left"
+};
+
+const describeFile = (file: DiffFileSummary): string =>
+  `<b>${escapeHtml(file.name || "(unnamed)")}</b> &middot; ${formatHumanSize(file.size)}` +
+  ` &middot; ${escapeHtml(file.analyzer ?? "no parser")}`;
+
+const percentOf = (part: number, total: number): string =>
+  total ? `${((part / total) * 100).toFixed(2)}%` : "-";
+
+const renderValue = (value: string | null): string =>
+  value == null ? `<span class="dim">-</span>` : `<span class="mono">${escapeHtml(value)}</span>`;
+
+const renderRow = (row: DiffRow): string =>
+  `<tr class="diffRow diffRow--${row.status}"><td>${escapeHtml(row.key)}</td>` +
+  `<td>${renderValue(row.left)}</td><td>${renderValue(row.right)}</td>` +
+  `<td>${STATUS_LABELS[row.status]}</td></tr>`;
+
+const renderRowsTable = (rows: readonly DiffRow[]): string =>
+  `<div class="tableWrap"><table class="table diffTable"><thead><tr>` +
+  `<th>Entry</th><th>Left</th><th>Right</th><th>Status</th></tr></thead>` +
+  `<tbody>${rows.map(renderRow).join("")}</tbody></table></div>`;
+
+// Changed entries are listed first; identical ones stay folded so large import or symbol
+// tables do not bury the differences.
+const renderDiffTable = (table: DiffTable): string => {
+  const changedRows = table.rows.filter(row => row.status !== "same");
+  const sameRows = table.rows.filter(row => row.status === "same");
+  const summary = table.rows.length
+    ? `${table.changedCount} of ${table.rows.length} entries differ`
+    : "no entries in either file";
+  return `<details class="diffSection"${table.changedCount ? " open" : ""}>` +
+    `<summary><b>${escapeHtml(table.title)}</b> <span class="smallNote">${summary}</span></summary>` +
+    (changedRows.length ? renderRowsTable(changedRows) : "") +
+    (sameRows.length
+      ? `<details class="diffSection__same"><summary>${sameRows.length} identical ` +
+        `entr${sameRows.length === 1 ? "y" : "ies"}</summary>${renderRowsTable(sameRows)}</details>`
+      : "") +
+    `</details>`;
+};
+
+const renderChangedRanges = (bytes: ByteDiffSummary): string => {
+  if (!bytes.changedRanges.length) return "";
+  const hidden = bytes.changedRangeCount - bytes.changedRanges.length;
+  return `<div class="tableWrap"><table class="table diffTable"><thead><tr>` +
+    `<th>Start</th><th>End</th><th>Length</th></tr></thead><tbody>` +
+    bytes.changedRanges.map(range =>
+      `<tr><td class="mono">${toHex32(range.start, 8)}</td><td class="mono">${toHex32(range.end - 1, 8)}</td>` +
+      `<td>${range.end - range.start}</td></tr>`
+    ).join("") +
+    `</tbody></table></div>` +
+    (hidden > 0
+      ? `<div class="smallNote">${hidden} more changed ranges not shown ` +
+        `(only the first ${BYTE_DIFF_RANGE_LIMIT} are listed).</div>`
+      : "");
+};
+
+const renderByteSummary = (bytes: ByteDiffSummary): string =>
+  `<section class="diffBytes"><h3>Byte ranges</h3><dl>` +
+  renderDefinitionRow("Identical", `${bytes.identicalBytes} of ${bytes.comparedBytes} common bytes ` +
+    `(${percentOf(bytes.identicalBytes, bytes.comparedBytes)})`) +
+  renderDefinitionRow("Changed", `${bytes.changedBytes} bytes in ${bytes.changedRangeCount} ` +
+    `range${bytes.changedRangeCount === 1 ? "" : "s"}`) +
+  (bytes.leftOnlyBytes ? renderDefinitionRow("Only in left", `${bytes.leftOnlyBytes} trailing bytes`) : "") +
+  (bytes.rightOnlyBytes ? renderDefinitionRow("Only in right", `${bytes.rightOnlyBytes} trailing bytes`) : "") +
+  `</dl>${renderChangedRanges(bytes)}</section>`;
+
+const describeSsdeepScore = (score: number | null): string =>
+  score == null ? "not comparable" : `${score} of 100${score === 100 ? " (identical signatures)" : ""}`;
+
+// TLSH distances below about 100 usually mean related files; 0 is a near-identical pair.
+const describeTlshDistance = (distance: number | null): string =>
+  distance == null ? "not available (TLSH needs at least 50 varied bytes in both files)" : `${distance}`;
+
+const renderSimilarity = (similarity: SimilaritySummary): string =>
+  `<section class="diffSimilarity"><h3>Similarity</h3>` +
+  `<div class="tableWrap"><table class="table diffTable"><thead><tr>` +
+  `<th>Hash</th><th>Left</th><th>Right</th><th>Comparison</th></tr></thead><tbody>` +
+  `<tr><td>ssdeep</td><td>${renderValue(similarity.left.ssdeep)}</td>` +
+  `<td>${renderValue(similarity.right.ssdeep)}</td>` +
+  `<td>Match score ${describeSsdeepScore(similarity.ssdeepScore)}</td></tr>` +
+  `<tr><td>TLSH</td><td>${renderValue(similarity.left.tlsh)}</td>` +
+  `<td>${renderValue(similarity.right.tlsh)}</td>` +
+  `<td>Distance ${describeTlshDistance(similarity.tlshDistance)}</td></tr>` +
+  `</tbody></table></div></section>`;
+
+const renderStructureSection = (diff: StructuralDiff): string => {
+  if (!diff.sameFormat) {
+    return `<div class="smallNote">The files were parsed as ` +
+      `${escapeHtml(diff.left.analyzer ?? "unknown")} and ${escapeHtml(diff.right.analyzer ?? "unknown")}; ` +
+      `only their bytes are compared.</div>`;
+  }
+  if (!diff.tables.length) {
+    return `<div class="smallNote">Structural comparison is available for PE, ELF and Mach-O files; ` +
+      `only the bytes of these files are compared.</div>`;
+  }
+  const changedTables = diff.tables.filter(table => table.changedCount).length;
+  return `<section class="diffStructures"><h3>Structures</h3>` +
+    `<div class="smallNote">${changedTables} of ${diff.tables.length} structure groups differ.</div>` +
+    diff.tables.map(renderDiffTable).join("") +
+    `</section>`;
+};
+
+export const renderStructuralDiff = (diff: StructuralDiff): string =>
+  `<dl class="diffFiles">` +
+  renderDefinitionRow("Left", describeFile(diff.left)) +
+  renderDefinitionRow("Right", describeFile(diff.right)) +
+  `</dl>` +
+  renderStructureSection(diff) +
+  renderByteSummary(diff.bytes) +
+  renderSimilarity(diff.similarity);
@@ -0,0 +1,63 @@
+"use strict";
+
+import type {
+  AuthenticodeTrustProfile,
+  AuthenticodeTrustVerdict,
+  AuthenticodeTrustVerdictStatus
+} from "../analyzers/pe/authenticode/trust-profiles.js";
+import { escapeHtml } from "../html-utils.js";
+
+// One store the shown signature was evaluated against; verdict is null while it is being evaluated.
+export interface TrustProfileVerdictRow {
+  label: string;
+  detail: string;
+  verdict: AuthenticodeTrustVerdict | null;
+}
+
+const VERDICT_LABELS: Readonly<Record<AuthenticodeTrustVerdictStatus, string>> = {
+  trusted: "Trusted",
+  revoked: "Disallowed",
+  untrusted: "Not trusted",
+  invalid: "Invalid signature"
+};
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+export const renderTrustVerdictBadge = (verdict: AuthenticodeTrustVerdict): string =>
+  `<span class="trustVerdictBadge trustVerdictBadge--${verdict.status}" title="${escapeHtml(verdict.reason)}">` +
+  `${VERDICT_LABELS[verdict.status]}</span>`;
+
+// The file info card row: the bundled Windows snapshot next to each selected profile.
+export const renderTrustProfileVerdicts = (rows: readonly TrustProfileVerdictRow[]): string =>
+  `<table class="table trustProfiles__verdicts"><thead><tr>` +
+  `<th>Trust store</th><th>Verdict</th><th>Reason</th></tr></thead><tbody>` +
+  rows.map(({ label, detail, verdict }) =>
+    `<tr><td>${escapeHtml(label)}<div class="smallNote">${escapeHtml(detail)}</div></td>` +
+    (verdict
+      ? `<td>${renderTrustVerdictBadge(verdict)}</td><td>${escapeHtml(verdict.reason)}</td>`
+      : `<td class="dim">Evaluating...</td><td></td>`) +
+    `</tr>`).join("") +
+  `</tbody></table>`;
+
+const describeCertificates = (profile: AuthenticodeTrustProfile): string => {
+  const roots = profile.certificates.filter(certificate => certificate.stores?.includes("Root")).length;
+  const intermediates = profile.certificates.length - roots;
+  return [roots ? plural(roots, "root") : "", intermediates ? plural(intermediates, "intermediate") : ""]
+    .filter(Boolean).join(", ");
+};
+
+export const renderTrustProfiles = (profiles: readonly AuthenticodeTrustProfile[]): string =>
+  profiles.length
+    ? `<div class="tableWrap"><table class="table trustProfiles__lists"><thead><tr>` +
+      `<th>Evaluate</th><th>Profile</th><th>Certificates</th><th>Imported (UTC)</th><th></th></tr></thead><tbody>` +
+      profiles.map(profile =>
+        `<tr><td><input type="checkbox" data-trust-profile-select="${escapeHtml(profile.id)}"` +
+        `${profile.selected ? " checked" : ""} aria-label="Evaluate against ${escapeHtml(profile.name)}" /></td>` +
+        `<td>${escapeHtml(profile.name)}</td>` +
+        `<td title="${escapeHtml(profile.certificates.map(certificate =>
+          certificate.subject ?? certificate.thumbprint).join("\n"))}">${describeCertificates(profile)}</td>` +
+        `<td>${escapeHtml(profile.importedAt)}</td>` +
+        `<td><button type="button" class="actionButton" data-trust-profile-remove="${escapeHtml(profile.id)}">` +
+        `Remove</button></td></tr>`).join("") +
+      `</tbody></table></div>`
+    : `<div class="smallNote">No trust profiles imported.</div>`;
@@ -1,7 +1,8 @@
 "use strict";
 
-import { renderDefinitionRow, escapeHtml } from "../../html-utils.js";
+import { renderDefinitionRow, escapeHtml, renderFileRangeAttributes } from "../../html-utils.js";
 import { formatHumanSize, toHex32 } from "../../binary-utils.js";
+import { renderAnalyzeEntryButton } from "../download-button.js";
 import type {
   ZipCentralDirectoryEntry,
   ZipParseResult
@@ -94,6 +95,12 @@ const describeFlags = (entry: ZipCentralDirectoryEntry): string => {
   return flags.length ? flags.join(", ") : "-";
 };
 
+// Local header through the end of the entry data, when the data location is known.
+const renderEntryFileRange = (entry: ZipCentralDirectoryEntry): string => {
+  const start = Number(entry.localHeaderOffset);
+  return entry.dataEnd != null ? renderFileRangeAttributes(start, entry.dataEnd - start) : "";
+};
+
 const renderEntries = (zip: ZipParseResult, out: string[]): void => {
   const cd = zip.centralDirectory;
   if (!cd?.entries?.length) return;
@@ -115,14 +122,15 @@ const renderEntries = (zip: ZipParseResult, out: string[]): void => {
       return `<span class="smallNote">Unavailable</span>`;
     }
     const label = entry.compressionMethod === 8 ? "Decompress" : "Download";
-    return `<button type="button" class="tableButton zipExtractButton" data-zip-entry="${entry.index}">${label}</button>`;
+    return `<button type="button" class="tableButton zipExtractButton" data-zip-entry="${entry.index}">${label}</button> ` +
+      renderAnalyzeEntryButton("zipExtractButton", [["data-zip-entry", entry.index]]);
   };
   entries.forEach((entry: ZipCentralDirectoryEntry) => {
     const compSize = formatSize(entry.compressedSize);
     const uncompSize = formatSize(entry.uncompressedSize);
     const mod = escapeHtml(entry.modTimeIso || "-");
     out.push(
-      `<tr><td>${entry.index}</td><td>${escapeHtml(entry.fileName)}</td>` +
+      `<tr${renderEntryFileRange(entry)}><td>${entry.index}</td><td>${escapeHtml(entry.fileName)}</td>` +
         `<td>${escapeHtml(entry.compressionName)}</td>` +
         `<td>${compSize}</td><td>${uncompSize}</td>` +
         `<td>${mod}</td><td>${escapeHtml(describeFlags(entry))}</td>` +
@@ -0,0 +1,114 @@
+"use strict";
+
+import { once } from "node:events";
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { FORMAT_REGISTRY, type AnalyzerName } from "../analyzers/index.js";
+import { toStableJson } from "../json-utils.js";
+import {
+  NODE_HASH_ALGORITHMS,
+  createInspector,
+  isHashId,
+  walkPaths,
+  type HashId,
+  type InspectOptions,
+  type InspectRecord
+} from "./binary101/inspect.js";
+
+type InspectCliOptions = InspectOptions & {
+  paths: string[];
+  jsonLines: boolean;
+};
+
+const HELP_TEXT =
+  "Usage: npm run binary101 -- inspect <path...> [--analyzer <name> ...] [--hash <id|all> ...] [--jsonl]\n" +
+  "  Directories are walked recursively. --jsonl prints one JSON object per file instead of one document.\n" +
+  `  Hash ids: ${Object.keys(NODE_HASH_ALGORITHMS).join(", ")}.`;
+
+const routedAnalyzers = (): Set<AnalyzerName> =>
+  new Set(FORMAT_REGISTRY.flatMap(descriptor => descriptor.parser?.analyzers ?? []));
+
+const requiredValue = (args: string[], index: number, name: string): string => {
+  const value = args[index + 1];
+  if (!value) throw new Error(`${name} requires a value.`);
+  return value;
+};
+
+const readAnalyzerName = (value: string): AnalyzerName => {
+  const known = routedAnalyzers();
+  if (!known.has(value as AnalyzerName)) {
+    throw new Error(`Unknown analyzer: ${value}. Expected one of: ${[...known].sort().join(", ")}.`);
+  }
+  return value as AnalyzerName;
+};
+
+const readHashIds = (value: string): HashId[] => {
+  if (value === "all") return Object.keys(NODE_HASH_ALGORITHMS) as HashId[];
+  if (!isHashId(value)) throw new Error(`Unknown hash: ${value}.`);
+  return [value];
+};
+
+const parseInspectArguments = (args: string[]): InspectCliOptions | null => {
+  const [command, ...rest] = args;
+  if (!command || command === "--help" || command === "-h") return null;
+  if (command !== "inspect") throw new Error(`Unknown command: ${command}`);
+  const paths: string[] = [];
+  const analyzers = new Set<AnalyzerName>();
+  const hashes = new Set<HashId>();
+  let jsonLines = false;
+  for (let index = 0; index < rest.length; index += 1) {
+    const arg = rest[index] ?? "";
+    if (arg === "--help" || arg === "-h") return null;
+    if (arg === "--analyzer") analyzers.add(readAnalyzerName(requiredValue(rest, index++, "--analyzer")));
+    else if (arg === "--hash") readHashIds(requiredValue(rest, index++, "--hash")).forEach(id => hashes.add(id));
+    else if (arg === "--jsonl") jsonLines = true;
+    else if (arg.startsWith("--")) throw new Error(`Unknown argument: ${arg}`);
+    else paths.push(arg);
+  }
+  if (!paths.length) throw new Error("inspect requires at least one path.");
+  return { paths, analyzers: analyzers.size ? analyzers : null, hashes: [...hashes], jsonLines };
+};
+
+async function* inspectAll(options: InspectCliOptions): AsyncGenerator<InspectRecord> {
+  const inspect = createInspector(options);
+  for (const path of options.paths) {
+    for await (const filePath of walkPaths(path)) yield await inspect(filePath);
+  }
+}
+
+const writeRecords = async (
+  options: InspectCliOptions,
+  write: (text: string) => Promise<void>
+): Promise<boolean> => {
+  let failed = false;
+  const records: InspectRecord[] = [];
+  for await (const record of inspectAll(options)) {
+    failed ||= record.error != null;
+    if (options.jsonLines) await write(`${toStableJson(record)}\n`);
+    else records.push(record);
+  }
+  if (!options.jsonLines) await write(`${toStableJson({ files: records }, 2)}\n`);
+  return !failed;
+};
+
+const writeToStdout = async (text: string): Promise<void> => {
+  if (!process.stdout.write(text)) await once(process.stdout, "drain");
+};
+
+const main = async (): Promise<void> => {
+  const options = parseInspectArguments(process.argv.slice(2));
+  if (!options) {
+    process.stdout.write(`${HELP_TEXT}\n`);
+    return;
+  }
+  if (!(await writeRecords(options, writeToStdout))) process.exitCode = 1;
+};
+
+if (process.argv[1] && resolve(process.argv[1]) === resolve(fileURLToPath(import.meta.url))) {
+  main().catch(error => {
+    process.stderr.write(`${error instanceof Error ? error.stack ?? error.message : String(error)}\n`);
+    process.exitCode = 1;
+  });
+}
+
+export { parseInspectArguments, writeRecords };
@@ -0,0 +1,128 @@
+"use strict";
+
+import { createHash } from "node:crypto";
+import { createReadStream, openAsBlob } from "node:fs";
+import { readFile, readdir, stat } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  createParseForUi,
+  detectBinaryType,
+  type AnalyzerName,
+  type ParseForUiResult
+} from "../../analyzers/index.js";
+import { createXmlDomFormatRegistry } from "../../analyzers/format-registry/xmldom-registry.js";
+import { createPeImportMetadataLookup } from "../../analyzers/pe/imports/winapi-metadata.js";
+import { describeError } from "../../error-utils.js";
+
+type HashId = keyof typeof NODE_HASH_ALGORITHMS;
+
+type InspectOptions = {
+  analyzers: ReadonlySet<AnalyzerName> | null;
+  hashes: readonly HashId[];
+};
+
+type InspectRecord = {
+  path: string;
+  size?: number;
+  detectedType?: string;
+  hashes?: Partial<Record<HashId, string>>;
+  analyzer?: ParseForUiResult["analyzer"];
+  parsed?: ParseForUiResult["parsed"];
+  error?: string;
+};
+
+// The digest ids of the browser hash panel (ui/hash-controls.ts), mapped to OpenSSL digest names.
+const NODE_HASH_ALGORITHMS = {
+  md5: "md5",
+  sha1: "sha1",
+  sha224: "sha224",
+  sha256: "sha256",
+  sha384: "sha384",
+  sha512: "sha512",
+  sha512224: "sha512-224",
+  sha512256: "sha512-256"
+} as const;
+
+// Generated import metadata is served from public/ in the browser; Node reads the same files from disk.
+const PUBLIC_ASSET_DIRECTORY = resolve(dirname(fileURLToPath(import.meta.url)), "../../public");
+
+const readPublicJson = async (path: string): Promise<unknown | null> => {
+  try {
+    return JSON.parse(await readFile(join(PUBLIC_ASSET_DIRECTORY, path), "utf8")) as unknown;
+  } catch {
+    return null;
+  }
+};
+
+const isHashId = (value: string): value is HashId => Object.hasOwn(NODE_HASH_ALGORITHMS, value);
+
+// openAsBlob keeps the bytes on disk, so analyzers read only the ranges they slice.
+const openDiskFile = async (path: string): Promise<File> => {
+  const info = await stat(path);
+  return new File([await openAsBlob(path)], basename(path), { lastModified: info.mtimeMs });
+};
+
+const computeHashes = async (path: string, hashIds: readonly HashId[]): Promise<Partial<Record<HashId, string>>> => {
+  const hashes = hashIds.map(id => ({ id, hash: createHash(NODE_HASH_ALGORITHMS[id]) }));
+  for await (const chunk of createReadStream(path)) {
+    for (const { hash } of hashes) hash.update(chunk as Buffer);
+  }
+  return Object.fromEntries(hashes.map(({ id, hash }) => [id, hash.digest("hex")]));
+};
+
+// Unselected formats are dropped from the registry so their parsers never run. A format that
+// reports several analyzers (Matroska: webm or mkv) can still yield an unselected one, which is
+// reported as unparsed.
+const createSelectedParser = (analyzers: ReadonlySet<AnalyzerName> | null) => {
+  const registry = createXmlDomFormatRegistry(createPeImportMetadataLookup(readPublicJson));
+  const parse = createParseForUi(analyzers
+    ? registry.filter(({ parser }) => parser?.analyzers.some(analyzer => analyzers.has(analyzer)))
+    : registry);
+  return async (file: File): Promise<ParseForUiResult> => {
+    const result = await parse(file);
+    return !analyzers || (result.analyzer && analyzers.has(result.analyzer))
+      ? result
+      : { analyzer: null, parsed: null };
+  };
+};
+
+const createInspector = (options: InspectOptions) => {
+  const parseSelected = createSelectedParser(options.analyzers);
+  return async (path: string): Promise<InspectRecord> => {
+    try {
+      const file = await openDiskFile(path);
+      const detectedType = await detectBinaryType(file);
+      const hashes = options.hashes.length ? await computeHashes(path, options.hashes) : undefined;
+      const { analyzer, parsed } = await parseSelected(file);
+      return { path, size: file.size, detectedType, ...(hashes ? { hashes } : {}), analyzer, parsed };
+    } catch (error) {
+      return { path, error: describeError(error) };
+    }
+  };
+};
+
+// Directory entries are visited in name order so repeated runs list files identically.
+// Symbolic links are not followed, matching the file-type disk scan.
+async function* walkPaths(path: string): AsyncGenerator<string> {
+  const info = await stat(path).catch(() => null);
+  if (!info?.isDirectory()) {
+    yield path;
+    return;
+  }
+  const entries = await readdir(path, { withFileTypes: true }).catch(() => null);
+  if (!entries) {
+    // Reported through the per-file error record instead of ending the whole walk.
+    yield path;
+    return;
+  }
+  entries.sort((left, right) => (left.name < right.name ? -1 : left.name > right.name ? 1 : 0));
+  for (const entry of entries) {
+    const entryPath = join(path, entry.name);
+    if (entry.isDirectory()) yield* walkPaths(entryPath);
+    else if (entry.isFile()) yield entryPath;
+  }
+}
+
+export { NODE_HASH_ALGORITHMS, createInspector, isHashId, walkPaths };
+export type { HashId, InspectOptions, InspectRecord };
@@ -72,6 +72,8 @@ const ANALYZER_RULES: TypeRule[] = [
   { pattern: /^PCAP-NG capture file$/, canonical: "pcapng" },
   { pattern: /^PCAP capture file$/, canonical: "pcap" },
   { pattern: /^Windows shortcut/, canonical: "lnk" },
+  { pattern: /^Windows security catalog/, canonical: "catalog" },
+  { pattern: /^Microsoft PDB debug symbols$/, canonical: "pdb" },
   { pattern: /^WebAssembly binary/, canonical: "wasm" },
   { pattern: /^Android DEX bytecode$/, canonical: "dex" },
   { pattern: /^Windows Help file/, canonical: "hlp" },
@@ -169,6 +171,7 @@ const FILE_MIME_RULES: TypeRule[] = [
   { pattern: /^image\/vnd\.djvu$/, canonical: "djvu" },
   { pattern: /^application\/(vnd\.tcpdump\.pcap|x-pcapng)$/, canonical: "pcap" },
   { pattern: /^application\/x-ms-shortcut$/, canonical: "lnk" },
+  { pattern: /^application\/vnd\.ms-pki\.seccat$/, canonical: "catalog" },
   { pattern: /^application\/wasm$/, canonical: "wasm" },
   { pattern: /^application\/x-dex$/, canonical: "dex" },
   { pattern: /^application\/(?:winhlp|x-winhelp)$/, canonical: "hlp" },
@@ -1,15 +1,22 @@
 import { expect, test } from "@playwright/test";
 import { createHash } from "node:crypto";
 
+const emptyDigest = (nodeName: string): string => createHash(nodeName).update(Buffer.alloc(0)).digest("hex");
+
 const hashAlgorithms = [
-  ["MD5", "md5", "md5"],
-  ["SHA-1", "sha1", "sha1"],
-  ["SHA-224", "sha224", "sha224"],
-  ["SHA-256", "sha256", "sha256"],
-  ["SHA-384", "sha384", "sha384"],
-  ["SHA-512", "sha512", "sha512"],
-  ["SHA-512/224", "sha512224", "sha512-224"],
-  ["SHA-512/256", "sha512256", "sha512-256"]
+  ["MD5", "md5", emptyDigest("md5")],
+  ["SHA-1", "sha1", emptyDigest("sha1")],
+  ["SHA-224", "sha224", emptyDigest("sha224")],
+  ["SHA-256", "sha256", emptyDigest("sha256")],
+  ["SHA-384", "sha384", emptyDigest("sha384")],
+  ["SHA-512", "sha512", emptyDigest("sha512")],
+  ["SHA-512/224", "sha512224", emptyDigest("sha512-224")],
+  ["SHA-512/256", "sha512256", emptyDigest("sha512-256")],
+  ["BLAKE3", "blake3", "af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262"],
+  ["CRC32", "crc32", "00000000"],
+  ["xxHash64", "xxh64", "ef46db3751d8e999"],
+  ["ssdeep", "ssdeep", "3::"],
+  ["TLSH", "tlsh", "TNULL"]
 ] as const;
 
 void test("hashes every algorithm for a real empty file", async ({ page }) => {
@@ -24,15 +31,13 @@ void test("hashes every algorithm for a real empty file", async ({ page }) => {
   await expect(page.locator("#fileNameDetail")).toHaveText("empty.bin");
   await expect(page.locator("#fileSizeDetail")).toHaveText("0 B (0 bytes)");
   await expect(page.locator("#fileSourceDetail .opt")).toHaveText([
-    "Selection", "Paste", "Drop", "Navigation"
+    "Selection", "Paste", "Drop", "Navigation", "Entry"
   ]);
   await expect(page.locator("#fileSourceDetail .opt.sel")).toHaveText("Selection");
   await expect(page.locator("#fileObjectDetail .opt.sel")).toHaveText("File");
   await page.locator("#hashDetails > summary").click();
-  for (const [label, id, nodeName] of hashAlgorithms) {
+  for (const [label, id, digest] of hashAlgorithms) {
     await page.getByRole("button", { name: `Compute ${label}`, exact: true }).click();
-    await expect(page.locator(`#${id}Value`)).toHaveText(
-      createHash(nodeName).update(emptyBuffer).digest("hex")
-    );
+    await expect(page.locator(`#${id}Value`)).toHaveText(digest);
   }
 });
@@ -0,0 +1,157 @@
+"use strict";
+
+import * as asn1js from "asn1js";
+import {
+  Attribute,
+  EncapsulatedContentInfo,
+  IssuerAndSerialNumber,
+  SignedAndUnsignedAttributes,
+  SignedData,
+  SignerInfo
+} from "../../analyzers/pe/authenticode/pkijs-runtime.js";
+import type { AuthenticodeTrustStoreSnapshot } from "../../analyzers/pe/authenticode/trust-store.js";
+import {
+  CMS_CONTENT_TYPE_OID,
+  CMS_MESSAGE_DIGEST_OID,
+  SHA256_OID,
+  SPC_INDIRECT_DATA_OID,
+  hexToBytes,
+  toArrayBuffer
+} from "./pe-authenticode-cms-helpers.js";
+import { createCertificateChain, encodeContentInfo } from "./pe-authenticode-signed-cms-fixtures.js";
+
+// mscat.h object identifiers used by makecat output.
+const CTL_OID = "1.3.6.1.4.1.311.10.1";
+const CATALOG_LIST_OID = "1.3.6.1.4.1.311.12.1.1";
+const CATALOG_LIST_MEMBER_OID = "1.3.6.1.4.1.311.12.1.2";
+const CAT_NAMEVALUE_OID = "1.3.6.1.4.1.311.12.2.1";
+const CAT_MEMBERINFO_OID = "1.3.6.1.4.1.311.12.2.2";
+const SPC_PE_IMAGE_DATA_OID = "1.3.6.1.4.1.311.2.1.15";
+// CRYPTCAT_ATTR_NAMEASCII | CRYPTCAT_ATTR_DATAASCII | CRYPTCAT_ATTR_AUTHENTICATED as makecat writes them.
+const MAKECAT_ATTRIBUTE_FLAGS = 0x10010001;
+const PE_SUBJECT_GUID = "{C689AAB8-8E78-11D0-8C47-00C04FC295EE}";
+
+export interface CatalogFixtureMember {
+  // SHA-256 Authenticode digest of the member, lowercase hex.
+  digest: string;
+  fileName: string;
+}
+
+const utf16Bytes = (text: string): ArrayBuffer => {
+  const bytes = new Uint8Array((text.length + 1) * 2);
+  for (let index = 0; index < text.length; index += 1) bytes[index * 2] = text.charCodeAt(index);
+  return toArrayBuffer(bytes);
+};
+
+const oid = (value: string): asn1js.ObjectIdentifier => new asn1js.ObjectIdentifier({ value });
+
+const attribute = (type: string, value: asn1js.AsnType): asn1js.Sequence =>
+  new asn1js.Sequence({ value: [oid(type), new asn1js.Set({ value: [value] })] });
+
+const nameValue = (name: string, value: string): asn1js.Sequence =>
+  new asn1js.Sequence({
+    value: [
+      new asn1js.BmpString({ value: name }),
+      new asn1js.Integer({ value: MAKECAT_ATTRIBUTE_FLAGS }),
+      new asn1js.OctetString({ valueHex: utf16Bytes(value) })
+    ]
+  });
+
+const createMember = ({ digest, fileName }: CatalogFixtureMember): asn1js.Sequence =>
+  new asn1js.Sequence({
+    value: [
+      new asn1js.OctetString({ valueHex: utf16Bytes(digest.toUpperCase()) }),
+      new asn1js.Set({
+        value: [
+          attribute(CAT_NAMEVALUE_OID, nameValue("File", fileName)),
+          attribute(CAT_MEMBERINFO_OID, new asn1js.Sequence({
+            value: [new asn1js.BmpString({ value: PE_SUBJECT_GUID }), new asn1js.Integer({ value: 512 })]
+          })),
+          attribute(SPC_INDIRECT_DATA_OID, new asn1js.Sequence({
+            value: [
+              new asn1js.Sequence({ value: [oid(SPC_PE_IMAGE_DATA_OID)] }),
+              new asn1js.Sequence({
+                value: [
+                  new asn1js.Sequence({ value: [oid(SHA256_OID), new asn1js.Null()] }),
+                  new asn1js.OctetString({ valueHex: toArrayBuffer(hexToBytes(digest)) })
+                ]
+              })
+            ]
+          }))
+        ]
+      })
+    ]
+  });
+
+// CertificateTrustList with one catalog-wide "OS" attribute, as makecat emits for a driver package.
+export const createCertificateTrustList = (members: readonly CatalogFixtureMember[]): ArrayBuffer =>
+  new asn1js.Sequence({
+    value: [
+      new asn1js.Sequence({ value: [oid(CATALOG_LIST_OID)] }),
+      new asn1js.OctetString({ valueHex: toArrayBuffer(hexToBytes("00112233445566778899aabbccddeeff")) }),
+      new asn1js.UTCTime({ valueDate: new Date("2024-01-01T00:00:00Z") }),
+      new asn1js.Sequence({ value: [oid(CATALOG_LIST_MEMBER_OID), new asn1js.Null()] }),
+      new asn1js.Sequence({ value: members.map(createMember) }),
+      new asn1js.Constructed({
+        idBlock: { tagClass: 3, tagNumber: 0 },
+        value: [
+          new asn1js.Sequence({
+            value: [
+              new asn1js.Sequence({
+                value: [oid(CAT_NAMEVALUE_OID), new asn1js.OctetString({ valueHex: nameValue("OS", "_v100").toBER() })]
+              })
+            ]
+          })
+        ]
+      })
+    ]
+  }).toBER();
+
+export interface CatalogFixture {
+  bytes: Uint8Array;
+  // Trust store holding the fixture root, so the catalog chains to a trusted anchor.
+  trustStore: AuthenticodeTrustStoreSnapshot;
+}
+
+export const createCatalogFixture = async (members: readonly CatalogFixtureMember[]): Promise<CatalogFixture> => {
+  const chain = await createCertificateChain();
+  const list = createCertificateTrustList(members);
+  const signedData = new SignedData({
+    version: 1,
+    encapContentInfo: new EncapsulatedContentInfo({
+      eContentType: CTL_OID,
+      eContent: new asn1js.OctetString({ valueHex: list })
+    }),
+    certificates: [chain.signer, chain.root]
+  });
+  signedData.signerInfos.push(new SignerInfo({
+    version: 1,
+    sid: new IssuerAndSerialNumber({ issuer: chain.signer.issuer, serialNumber: chain.signer.serialNumber }),
+    signedAttrs: new SignedAndUnsignedAttributes({
+      type: 0,
+      attributes: [
+        new Attribute({ type: CMS_CONTENT_TYPE_OID, values: [oid(CTL_OID)] }),
+        new Attribute({
+          type: CMS_MESSAGE_DIGEST_OID,
+          values: [new asn1js.OctetString({ valueHex: await crypto.subtle.digest("SHA-256", list) })]
+        })
+      ]
+    })
+  }));
+  await signedData.sign(chain.signerPrivateKey, 0, "SHA-256");
+  return {
+    bytes: encodeContentInfo(signedData),
+    trustStore: {
+      schemaVersion: 1,
+      generatedAt: "2026-05-03T00:00:00.000Z",
+      source: "unit",
+      trustedCAs: [{
+        thumbprint: "001122",
+        subject: "CN=Binary101 Root CA",
+        derBase64: Buffer.from(chain.root.toSchema(true).toBER()).toString("base64"),
+        stores: ["Root"]
+      }],
+      revokedCAs: []
+    }
+  };
+};
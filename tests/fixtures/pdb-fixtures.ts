@@ -0,0 +1,135 @@
+"use strict";
+
+// Builds small MSF 7.00 PDBs: a superblock, two free block map blocks, the stream data, the
+// stream directory and its block map, laid out like link.exe output with 512-byte blocks.
+const MSF7_MAGIC = "Microsoft C/C++ MSF 7.00\r\n\x1aDS\0\0\0";
+const BLOCK_SIZE = 512;
+
+export const PDB_FIXTURE_GUID = "6f1c2a3b-4d5e-4f60-8172-93a4b5c6d7e8";
+export const PDB_FIXTURE_AGE = 3;
+
+const u16 = (value: number): number[] => [value & 0xff, (value >>> 8) & 0xff];
+const u32 = (value: number): number[] => [...u16(value & 0xffff), ...u16(value >>> 16)];
+const cstring = (text: string): number[] => [...[...text].map(char => char.charCodeAt(0)), 0];
+const align4 = (bytes: number[]): number[] => [...bytes, ...new Array<number>((4 - bytes.length % 4) % 4).fill(0)];
+const record = (kind: number, data: number[]): number[] => {
+  const body = align4([...u16(kind), ...data]);
+  return [...u16(body.length), ...body];
+};
+
+const guidBytes = (guid: string): number[] => {
+  const [data1 = "", data2 = "", data3 = "", data4a = "", data4b = ""] = guid.split("-");
+  const tail = `${data4a}${data4b}`.match(/../g)?.map(pair => parseInt(pair, 16)) ?? [];
+  return [...u32(parseInt(data1, 16)), ...u16(parseInt(data2, 16)), ...u16(parseInt(data3, 16)), ...tail];
+};
+
+// Version VC70, signature, age, GUID, a one-entry named stream map ("/names" -> 5), VC140 feature.
+const infoStream = (): number[] => [
+  ...u32(20000404), ...u32(0x5f3e0a11), ...u32(PDB_FIXTURE_AGE), ...guidBytes(PDB_FIXTURE_GUID),
+  ...u32(7), ...cstring("/names"),
+  ...u32(1), ...u32(1), ...u32(1), ...u32(1), ...u32(0), ...u32(0), ...u32(5),
+  ...u32(20140508)
+];
+
+const typeStream = (begin: number, records: number[]): number[] => {
+  const end = begin + (records.length ? 2 : 0);
+  return [
+    ...u32(20040203), ...u32(56), ...u32(begin), ...u32(end), ...u32(records.length),
+    ...u16(0xffff), ...u16(0xffff), ...u32(4), ...u32(0x3ffff), ...new Array<number>(24).fill(0),
+    ...records
+  ];
+};
+
+const moduleInfo = (name: string, symbolStream: number): number[] => align4([
+  ...u32(0),
+  ...u16(1), ...u16(0), ...u32(0x10), ...u32(0x40), ...u32(0x60500020), ...u16(0), ...u16(0), ...u32(0), ...u32(0),
+  ...u16(0), ...u16(symbolStream), ...u32(4), ...u32(0), ...u32(24), ...u16(1), ...u16(0),
+  ...u32(0), ...u32(0), ...u32(0),
+  ...cstring(name), ...cstring(name)
+]);
+
+const dbiStream = (): number[] => {
+  const modules = moduleInfo("C:\\build\\main.obj", 10);
+  const contributions = [
+    ...u32(0xeffe0000 + 19970605),
+    ...u16(1), ...u16(0), ...u32(0x10), ...u32(0x40), ...u32(0x60500020), ...u16(0), ...u16(0), ...u32(0), ...u32(0)
+  ];
+  // FPO, Exception, Fixup, OmapToSrc, OmapFromSrc, SectionHdr (8), then five nil streams.
+  const debugHeader = [...new Array<number>(5).fill(0xffff), 8, ...new Array<number>(5).fill(0xffff)].flatMap(u16);
+  return [
+    ...u32(0xffffffff), ...u32(19990903), ...u32(PDB_FIXTURE_AGE),
+    ...u16(6), ...u16(0x8000 | (14 << 8) | 29), ...u16(7), ...u16(0), ...u16(9), ...u16(0),
+    ...u32(modules.length), ...u32(contributions.length), ...u32(0), ...u32(0), ...u32(0), ...u32(0),
+    ...u32(debugHeader.length), ...u32(0), ...u16(0), ...u16(0x8664), ...u32(0),
+    ...modules, ...contributions, ...debugHeader
+  ];
+};
+
+const sectionHeader = (name: string, virtualAddress: number, virtualSize: number): number[] => [
+  ...[...name.padEnd(8, "\0")].map(char => char.charCodeAt(0)),
+  ...u32(virtualSize), ...u32(virtualAddress), ...new Array<number>(24).fill(0)
+];
+
+const publicSymbol = (flags: number, segment: number, offset: number, name: string): number[] =>
+  record(0x110e, [...u32(flags), ...u32(offset), ...u16(segment), ...cstring(name)]);
+
+const symbolRecords = (): number[] => [
+  ...publicSymbol(0x2, 1, 0x10, "main"),
+  ...publicSymbol(0x2, 1, 0x30, "helper"),
+  ...publicSymbol(0x0, 2, 0x4, "g_value"),
+  ...record(0x110d, [...u32(0x74), ...u32(0x4), ...u16(2), ...cstring("g_value")]),
+  ...record(0x1125, [...u32(0), ...u32(0x10), ...u16(1), ...cstring("main")])
+];
+
+const gsiHeader = (records: number): number[] =>
+  [...u32(0xffffffff), ...u32(0xeffe0000 + 19990810), ...u32(records * 8), ...u32(0)];
+
+const publicsStream = (): number[] => [
+  ...u32(0), ...u32(3 * 4), ...u32(0), ...u32(0), ...u16(0), ...u16(0), ...u32(0), ...u32(2),
+  ...gsiHeader(3)
+];
+
+// Stream 0 is the empty old directory; 1-4 are info, TPI, DBI and IPI; 5-10 are referenced by
+// the info stream's name map, the DBI header and the module record.
+export const createPdbStreams = (): (number[] | null)[] => [
+  [],
+  infoStream(),
+  typeStream(0x1000, [...record(0x1002, [...u32(0x74), ...u32(0x1000c)]), ...record(0x1201, u32(0))]),
+  dbiStream(),
+  typeStream(0x1000, []),
+  [...u32(0xeffeeffe), ...u32(1), ...u32(0)],
+  gsiHeader(2),
+  publicsStream(),
+  [...sectionHeader(".text", 0x1000, 0x200), ...sectionHeader(".data", 0x3000, 0x100)],
+  symbolRecords(),
+  u32(4)
+];
+
+const pad = (bytes: number[]): number[] =>
+  [...bytes, ...new Array<number>((BLOCK_SIZE - bytes.length % BLOCK_SIZE) % BLOCK_SIZE).fill(0)];
+
+export const buildPdb = (streams: (number[] | null)[] = createPdbStreams()): Uint8Array => {
+  const blocks: number[] = [...new Array<number>(3 * BLOCK_SIZE).fill(0)];
+  const blockLists = streams.map(stream => {
+    const first = blocks.length / BLOCK_SIZE;
+    const padded = pad(stream ?? []);
+    blocks.push(...padded);
+    return Array.from({ length: padded.length / BLOCK_SIZE }, (_, index) => first + index);
+  });
+  const directory = [
+    ...u32(streams.length),
+    ...streams.flatMap(stream => u32(stream ? stream.length : 0xffffffff)),
+    ...blockLists.flatMap(list => list.flatMap(u32))
+  ];
+  const directoryBlock = blocks.length / BLOCK_SIZE;
+  blocks.push(...pad(directory));
+  const blockMapAddress = blocks.length / BLOCK_SIZE;
+  blocks.push(...pad(u32(directoryBlock)));
+  const superBlock = [
+    ...[...MSF7_MAGIC].map(char => char.charCodeAt(0)),
+    ...u32(BLOCK_SIZE), ...u32(1), ...u32(blocks.length / BLOCK_SIZE), ...u32(directory.length), ...u32(0),
+    ...u32(blockMapAddress)
+  ];
+  blocks.splice(0, superBlock.length, ...superBlock);
+  return Uint8Array.from(blocks);
+};
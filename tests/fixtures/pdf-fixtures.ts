@@ -1,5 +1,7 @@
 "use strict";
 
+import { deflateSync } from "node:zlib";
+
 import { MockFile } from "../helpers/mock-file.js";
 
 const encoder = new TextEncoder();
@@ -23,3 +25,26 @@ export const createPdfWithBadXref = () => {
   ].join("\n");
   return new MockFile(encoder.encode(content), "bad-xref.pdf", "application/pdf");
 };
+
+// PDF 1.5 layout: no xref table; a FlateDecode cross-reference stream with the PNG Up predictor
+// lists objects 1, 2 and 4 by offset and object 3 inside object stream 4.
+export const createPdfWithCompressedXrefStream = () => {
+  const parts = [
+    "%PDF-1.5\n",
+    "1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n",
+    "2 0 obj\n<< /Type /Pages /Kids [] /Count 0 >>\nendobj\n",
+    "4 0 obj\n<< /Type /ObjStm /N 1 /First 4 /Length 24 >>\nstream\n3 0 << /Producer (x) >>\nendstream\nendobj\n"
+  ];
+  const offsets = parts.map((_, index) => parts.slice(0, index).join("").length);
+  const xrefOffset = parts.join("").length;
+  const rows = [[0, 0, 0, 0xff], [1, 0, offsets[1] ?? 0, 0], [1, 0, offsets[2] ?? 0, 0], [2, 0, 4, 0],
+    [1, 0, offsets[3] ?? 0, 0], [1, 0, xrefOffset, 0]];
+  const predicted = rows.flatMap((row, index) =>
+    [2, ...row.map((byte, column) => (byte - (rows[index - 1]?.[column] ?? 0)) & 0xff)]);
+  const data = deflateSync(Uint8Array.from(predicted));
+  const dictionary = "5 0 obj\n<< /Type /XRef /Size 6 /W [1 2 1] /Root 1 0 R /Filter /FlateDecode " +
+    `/DecodeParms << /Predictor 12 /Columns 4 >> /Length ${data.length} >>\nstream\n`;
+  const tail = `\nendstream\nendobj\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  const bytes = Buffer.concat([encoder.encode(parts.join("") + dictionary), data, encoder.encode(tail)]);
+  return new MockFile(new Uint8Array(bytes), "xref-stream-flate.pdf", "application/pdf");
+};
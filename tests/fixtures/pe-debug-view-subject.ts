@@ -1,7 +1,7 @@
 "use strict";
 
 import type {
-  PeCodeViewEntry,
+  PeCodeViewPdbReference,
   PeDebugDirectoryEntry,
   PePogoInfo,
   PeVcFeatureInfo
@@ -57,7 +57,7 @@ export const createDebugViewEntry = (
   pointerToRawData
 });
 
-export const createDebugViewCodeView = (id = 0): PeCodeViewEntry => ({
+export const createDebugViewCodeView = (id = 0): PeCodeViewPdbReference => ({
   signature: "RSDS",
   guid: `g-s${id.toString(36)}`,
   age: id,
@@ -110,7 +110,7 @@ export const createSectionCoveredRawOnlyDebugViewEntry = (
 
 export const createDebugViewSection = (
   entries: PeDebugDirectoryEntry[],
-  codeViewEntry: PeCodeViewEntry | null = null,
+  codeViewEntry: PeCodeViewPdbReference | null = null,
   warning: string | null = null
 ): NonNullable<PeWindowsParseResult["debug"]> => ({
   entry: codeViewEntry,
@@ -155,7 +155,7 @@ export const createInconsistentEmbeddedDebugViewSection = (section: PeSection) =
 
 export const createMappedCodeViewDebugViewSection = (
   section: PeSection,
-  codeView: PeCodeViewEntry,
+  codeView: PeCodeViewPdbReference,
   warning: string
 ) => createDebugViewSection([{
   ...createMappedDebugViewEntry(section, DEBUG_VIEW_TYPE_CODEVIEW, 0),
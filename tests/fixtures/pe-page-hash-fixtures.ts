@@ -0,0 +1,147 @@
+"use strict";
+
+import { createHash } from "node:crypto";
+import * as asn1js from "asn1js";
+import type { AuthenticodePageHashes } from "../../analyzers/pe/authenticode/index.js";
+import type { PeAuthenticodeParsedCore } from "../../analyzers/pe/authenticode/digest.js";
+import { inlinePeSectionName } from "../../analyzers/pe/sections/name.js";
+import { SHA256_OID, toArrayBuffer } from "./pe-authenticode-cms-helpers.js";
+import { MockFile } from "../helpers/mock-file.js";
+
+const PAGE_SIZE = 0x1000;
+// PE32 layout: optional header at 0x98, data directories 96 bytes into it.
+const OPT_OFF = 0x98;
+const DD_START_REL = 96;
+const SECURITY_INDEX = 4;
+export const PAGE_HASH_CHECKSUM_OFFSET = OPT_OFF + 64;
+const SECURITY_ENTRY_OFFSET = OPT_OFF + DD_START_REL + SECURITY_INDEX * 8;
+const SIZE_OF_HEADERS = 0x400;
+// .text spans a full page plus a 0x200-byte tail; .data is a single short page.
+export const PAGE_HASH_TEXT_OFFSET = 0x400;
+const TEXT_SIZE = 0x1200;
+export const PAGE_HASH_DATA_OFFSET = 0x1600;
+const DATA_SIZE = 0x200;
+const CERT_OFFSET = 0x1800;
+const CERT_SIZE = 0x100;
+
+const SPC_PE_IMAGE_DATA_OID = "1.3.6.1.4.1.311.2.1.15";
+const PAGE_HASHES_V1_OID = "1.3.6.1.4.1.311.2.3.1";
+const PAGE_HASHES_V2_OID = "1.3.6.1.4.1.311.2.3.2";
+const PAGE_HASHES_CLASS_ID = "a6b586d5b4a12466ae05a217da8e60d6";
+
+export interface PageHashFixture {
+  bytes: Uint8Array;
+  file: MockFile;
+  core: PeAuthenticodeParsedCore;
+  securityDir: { name: string; index: number; rva: number; size: number };
+  pageHashes: AuthenticodePageHashes;
+}
+
+const hashPage = (algorithm: "sha1" | "sha256", page: Uint8Array): string =>
+  createHash(algorithm).update(page).digest("hex");
+
+const padPage = (data: Uint8Array, length = PAGE_SIZE): Uint8Array => {
+  const page = new Uint8Array(length);
+  page.set(data);
+  return page;
+};
+
+// Page hashes computed the way signing tools do, independently of the analyzer code.
+const computeTable = (bytes: Uint8Array, algorithmName: "SHA-1" | "SHA-256"): AuthenticodePageHashes => {
+  const algorithm = algorithmName === "SHA-1" ? "sha1" : "sha256";
+  const header = [
+    ...bytes.subarray(0, PAGE_HASH_CHECKSUM_OFFSET),
+    ...bytes.subarray(PAGE_HASH_CHECKSUM_OFFSET + 4, SECURITY_ENTRY_OFFSET),
+    ...bytes.subarray(SECURITY_ENTRY_OFFSET + 8, SIZE_OF_HEADERS)
+  ];
+  const entries = [{ offset: 0, digest: hashPage(algorithm, padPage(Uint8Array.from(header), PAGE_SIZE - 12)) }];
+  for (const [start, size] of [[PAGE_HASH_TEXT_OFFSET, TEXT_SIZE], [PAGE_HASH_DATA_OFFSET, DATA_SIZE]] as const) {
+    for (let offset = start; offset < start + size; offset += PAGE_SIZE) {
+      const data = bytes.subarray(offset, Math.min(start + size, offset + PAGE_SIZE));
+      entries.push({ offset, digest: hashPage(algorithm, padPage(data)) });
+    }
+  }
+  entries.push({ offset: PAGE_HASH_DATA_OFFSET + DATA_SIZE, digest: "00".repeat(algorithm === "sha1" ? 20 : 32) });
+  return { version: algorithmName === "SHA-1" ? 1 : 2, algorithmName, entries };
+};
+
+export const createPageHashFixture = (algorithmName: "SHA-1" | "SHA-256" = "SHA-256"): PageHashFixture => {
+  const bytes = new Uint8Array(CERT_OFFSET + CERT_SIZE);
+  bytes.forEach((_, index) => { bytes[index] = (index * 7 + 3) & 0xff; });
+  const securityDir = { name: "SECURITY", index: SECURITY_INDEX, rva: CERT_OFFSET, size: CERT_SIZE };
+  const section = (name: string, pointerToRawData: number, sizeOfRawData: number, virtualAddress: number) => ({
+    name: inlinePeSectionName(name),
+    virtualSize: sizeOfRawData,
+    virtualAddress,
+    sizeOfRawData,
+    pointerToRawData,
+    characteristics: 0x60000020
+  });
+  return {
+    bytes,
+    file: new MockFile(bytes, "paged.sys"),
+    core: {
+      optOff: OPT_OFF,
+      ddStartRel: DD_START_REL,
+      dataDirs: [securityDir],
+      opt: { SizeOfHeaders: SIZE_OF_HEADERS },
+      sections: [
+        section(".text", PAGE_HASH_TEXT_OFFSET, TEXT_SIZE, 0x1000),
+        section(".data", PAGE_HASH_DATA_OFFSET, DATA_SIZE, 0x3000)
+      ]
+    },
+    securityDir,
+    pageHashes: computeTable(bytes, algorithmName)
+  };
+};
+
+const encodeTable = (pageHashes: AuthenticodePageHashes): ArrayBuffer => {
+  const digestLength = pageHashes.algorithmName === "SHA-1" ? 20 : 32;
+  const table = new Uint8Array(pageHashes.entries.length * (4 + digestLength));
+  const view = new DataView(table.buffer);
+  pageHashes.entries.forEach((entry, index) => {
+    const offset = index * (4 + digestLength);
+    view.setUint32(offset, entry.offset, true);
+    table.set(Buffer.from(entry.digest, "hex"), offset + 4);
+  });
+  return toArrayBuffer(table);
+};
+
+// SpcIndirectDataContent whose SPC_PE_IMAGE_DATA links to a serialized page hash table, as signtool /ph writes it.
+export const createSpcIndirectDataWithPageHashes = (
+  pageHashes: AuthenticodePageHashes,
+  fileDigest: Uint8Array
+): Uint8Array => {
+  const serialized = new asn1js.Set({
+    value: [new asn1js.Sequence({
+      value: [
+        new asn1js.ObjectIdentifier({ value: pageHashes.version === 1 ? PAGE_HASHES_V1_OID : PAGE_HASHES_V2_OID }),
+        new asn1js.Set({ value: [new asn1js.OctetString({ valueHex: encodeTable(pageHashes) })] })
+      ]
+    })]
+  }).toBER();
+  const moniker = new asn1js.Constructed({
+    idBlock: { tagClass: 3, tagNumber: 1 },
+    value: [
+      new asn1js.OctetString({ valueHex: toArrayBuffer(Buffer.from(PAGE_HASHES_CLASS_ID, "hex")) }),
+      new asn1js.OctetString({ valueHex: serialized })
+    ]
+  });
+  const peImageData = new asn1js.Sequence({
+    value: [
+      new asn1js.BitString({ valueHex: new ArrayBuffer(0) }),
+      new asn1js.Constructed({ idBlock: { tagClass: 3, tagNumber: 0 }, value: [moniker] })
+    ]
+  });
+  return new Uint8Array(new asn1js.Sequence({
+    value: [
+      new asn1js.Sequence({ value: [new asn1js.ObjectIdentifier({ value: SPC_PE_IMAGE_DATA_OID }), peImageData] }),
+      new asn1js.Sequence({
+        value: [
+          new asn1js.Sequence({ value: [new asn1js.ObjectIdentifier({ value: SHA256_OID }), new asn1js.Null()] }),
+          new asn1js.OctetString({ valueHex: toArrayBuffer(fileDigest) })
+        ]
+      })
+    ]
+  }).toBER());
+};
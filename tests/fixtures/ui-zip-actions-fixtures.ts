@@ -128,7 +128,8 @@ export const createZipParseResult = (entries: ZipCentralDirectoryEntry[]): Parse
       truncated: false,
       entries
     },
-    issues: []
+    issues: [],
+    diagnostics: []
   } satisfies ZipParseResult
 });
 
@@ -0,0 +1,123 @@
+"use strict";
+
+type FakeRequest = {
+  result?: unknown;
+  error: Error | null;
+  onsuccess?: () => void;
+  onerror?: () => void;
+  onupgradeneeded?: () => void;
+};
+type FakeKeyRange = { lower: string; upper: string };
+type FakeTransaction = {
+  error: Error | null;
+  oncomplete?: () => void;
+  onerror?: () => void;
+  onabort?: () => void;
+  objectStore: (name: string) => object;
+};
+type FakeStore = { keyPath: string | null; records: Map<string, unknown> };
+type FakeBrowserGlobals = { IDBKeyRange?: unknown };
+
+// Just enough of IndexedDB for the app's stores: named databases with out-of-line or keyPath
+// stores, get/getAll/count/put/delete (by key or bound key range) and transactions that complete
+// once their requests have settled. failNextCommit makes the next readwrite transaction abort
+// at commit, rolling its writes back the way a quota failure does.
+const createFakeIndexedDb = () => {
+  const databases = new Map<string, Map<string, FakeStore>>();
+  let commitError: Error | null = null;
+  let transactionCount = 0;
+
+  const settle = (produce: () => unknown): FakeRequest => {
+    const request: FakeRequest = { error: null };
+    queueMicrotask(() => {
+      request.result = produce();
+      request.onsuccess?.();
+    });
+    return request;
+  };
+
+  const inRange = (stored: string, key: string | FakeKeyRange): boolean =>
+    typeof key === "string" ? stored === key : stored >= key.lower && stored <= key.upper;
+
+  const objectStore = (stores: Map<string, FakeStore>, name: string) => {
+    const store = stores.get(name);
+    if (!store) throw new Error(`No object store named ${name}.`);
+    const { keyPath, records } = store;
+    return {
+      get: (key: string) => settle(() => records.get(key)),
+      getAll: () => settle(() => [...records.values()]),
+      count: (key: string | FakeKeyRange) =>
+        settle(() => [...records.keys()].filter(stored => inRange(stored, key)).length),
+      put: (value: Record<string, unknown>, key?: string) => settle(() => {
+        const storedKey = keyPath ? String(value[keyPath]) : key!;
+        records.set(storedKey, value);
+        return storedKey;
+      }),
+      delete: (key: string | FakeKeyRange) => settle(() => {
+        for (const stored of [...records.keys()]) if (inRange(stored, key)) records.delete(stored);
+      })
+    };
+  };
+
+  const createTransaction = (stores: Map<string, FakeStore>, mode: IDBTransactionMode): FakeTransaction => {
+    transactionCount += 1;
+    const snapshot = new Map([...stores].map(([name, store]) => [name, new Map(store.records)]));
+    const transaction: FakeTransaction = { error: null, objectStore: name => objectStore(stores, name) };
+    // Requests settle in microtasks, so a timer runs after every request issued so far.
+    setTimeout(() => {
+      if (mode === "readwrite" && commitError) {
+        transaction.error = commitError;
+        commitError = null;
+        snapshot.forEach((records, name) => { stores.get(name)!.records = records; });
+        transaction.onabort?.();
+        return;
+      }
+      transaction.oncomplete?.();
+    }, 0);
+    return transaction;
+  };
+
+  const openDatabase = (name: string) => {
+    const stores = databases.get(name) ?? new Map<string, FakeStore>();
+    databases.set(name, stores);
+    return {
+      createObjectStore: (storeName: string, options?: { keyPath?: string }) => {
+        stores.set(storeName, { keyPath: options?.keyPath ?? null, records: new Map() });
+      },
+      transaction: (_names: string | string[], mode: IDBTransactionMode = "readonly") =>
+        createTransaction(stores, mode),
+      close: () => undefined
+    };
+  };
+
+  const factory = {
+    open: (name: string) => {
+      const isNew = !databases.has(name);
+      const request: FakeRequest = { error: null, result: openDatabase(name) };
+      queueMicrotask(() => {
+        if (isNew) request.onupgradeneeded?.();
+        request.onsuccess?.();
+      });
+      return request;
+    },
+    deleteDatabase: (name: string) => settle(() => { databases.delete(name); })
+  };
+
+  return {
+    databases,
+    factory: factory as unknown as IDBFactory,
+    records: (database: string, store: string): Map<string, unknown> | undefined =>
+      databases.get(database)?.get(store)?.records,
+    failNextCommit: (error = new Error("QuotaExceededError")) => { commitError = error; },
+    transactionCount: () => transactionCount
+  };
+};
+
+const installFakeKeyRange = (): { restore: () => void } => {
+  const globals = globalThis as unknown as FakeBrowserGlobals;
+  const original = globals.IDBKeyRange;
+  globals.IDBKeyRange = { bound: (lower: string, upper: string): FakeKeyRange => ({ lower, upper }) };
+  return { restore: () => { globals.IDBKeyRange = original; } };
+};
+
+export { createFakeIndexedDb, installFakeKeyRange };
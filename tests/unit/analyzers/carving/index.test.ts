@@ -0,0 +1,127 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { scanEmbeddedContent } from "../../../../analyzers/carving/index.js";
+import type { CarvingScanOptions } from "../../../../analyzers/carving/types.js";
+import { createFileRangeReader } from "../../../../analyzers/file-range-reader.js";
+import { createElfFile } from "../../../fixtures/elf-sample-file.js";
+import { createGzipFile } from "../../../fixtures/gzip-fixtures.js";
+import { createGifFile, createVisiblePngFile, createWebpFile } from "../../../fixtures/image-sample-files.js";
+import { createPeFile } from "../../../fixtures/sample-files-pe.js";
+import { createZipWithEntries } from "../../../fixtures/zip-fixtures.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+const bytesOf = async (file: File): Promise<Uint8Array> => new Uint8Array(await file.arrayBuffer());
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const scan = async (bytes: Uint8Array, options: CarvingScanOptions = {}) => {
+  const file = new MockFile(bytes, "blob.bin");
+  return scanEmbeddedContent(file, createFileRangeReader(file, 0, file.size), options);
+};
+
+void test("scanEmbeddedContent carves PNG, ZIP, ELF and PE objects with their structural lengths", async () => {
+  const pe = await bytesOf(createPeFile());
+  const bytes = concat([
+    new Uint8Array(100).fill(0xaa),
+    await bytesOf(createVisiblePngFile()),
+    new Uint8Array(33),
+    await bytesOf(createZipWithEntries()),
+    new Uint8Array(7),
+    await bytesOf(createElfFile()),
+    new Uint8Array(9),
+    pe,
+    new Uint8Array(10)
+  ]);
+  const result = await scan(bytes);
+
+  assert.equal(result.scannedBytes, bytes.length);
+  assert.deepEqual(
+    result.objects.map(object => [object.start, object.size, object.lengthKnown]),
+    [[100, 93, true], [226, 234, true], [467, 259, true], [735, 1024, true]]
+  );
+  assert.deepEqual(result.objects.map(object => object.label.split(" ")[0]), ["PNG", "ZIP", "ELF", "PE32"]);
+  // The fixture's overlay is not part of the PE image.
+  assert.ok(result.objects[3]!.size < pe.length);
+  assert.match(result.objects[0]!.endDescription, /IEND/);
+});
+
+void test("scanEmbeddedContent ends GIF and RIFF objects at their trailer and chunk size", async () => {
+  const gif = await bytesOf(createGifFile());
+  const webp = await bytesOf(createWebpFile());
+  const riffEnd = 8 + new DataView(webp.buffer).getUint32(4, true);
+  const result = await scan(concat([new Uint8Array(16), gif, new Uint8Array(5), webp, new Uint8Array(3)]));
+
+  assert.deepEqual(
+    result.objects.map(object => [object.start, object.end]),
+    [[16, 16 + gif.length], [21 + gif.length, 21 + gif.length + riffEnd]]
+  );
+});
+
+void test("scanEmbeddedContent ends objects without a known length at the next object", async () => {
+  const gzip = await bytesOf(createGzipFile({ payload: new TextEncoder().encode("hello") }));
+  const png = await bytesOf(createVisiblePngFile());
+  const bytes = concat([new Uint8Array(8), gzip, new Uint8Array(4), png]);
+  const result = await scan(bytes);
+
+  const [first, second] = result.objects;
+  assert.equal(result.objects.length, 2);
+  assert.equal(first?.start, 8);
+  assert.equal(first?.lengthKnown, false);
+  assert.equal(first?.end, second?.start);
+  assert.equal(second?.end, bytes.length);
+});
+
+void test("scanEmbeddedContent keeps scanning the same window after objects without a known length", async () => {
+  const gzip = await bytesOf(createGzipFile({ payload: new TextEncoder().encode("hello") }));
+  const png = await bytesOf(createVisiblePngFile());
+  const bytes = concat([new Uint8Array(8), gzip, new Uint8Array(4), gzip, new Uint8Array(4), png]);
+  const file = new MockFile(bytes, "blob.bin");
+  const reader = createFileRangeReader(file, 0, file.size);
+  const windows: number[] = [];
+  const progress: number[] = [];
+  const result = await scanEmbeddedContent(file, {
+    ...reader,
+    read: (offset, size) => {
+      if (offset + size === bytes.length) windows.push(offset);
+      return reader.read(offset, size);
+    }
+  }, { onProgress: ({ bytesScanned }) => progress.push(bytesScanned) });
+
+  assert.deepEqual(result.objects.map(object => object.start), [8, 16 + 2 * gzip.length]);
+  assert.deepEqual(windows, [1]);
+  assert.deepEqual(progress, [bytes.length]);
+});
+
+void test("scanEmbeddedContent ignores the signature of the file itself and stray magic bytes", async () => {
+  const png = await bytesOf(createVisiblePngFile());
+  const damaged = png.slice(0, 40);
+  const result = await scan(concat([png, new Uint8Array(12), damaged, new Uint8Array(12)]));
+
+  assert.deepEqual(result.objects, []);
+});
+
+void test("scanEmbeddedContent reports progress and stops when aborted", async () => {
+  const controller = new AbortController();
+  const progress: number[] = [];
+  await assert.rejects(
+    scan(new Uint8Array(200_000), {
+      signal: controller.signal,
+      onProgress: ({ bytesScanned }) => {
+        progress.push(bytesScanned);
+        controller.abort();
+      }
+    }),
+    /aborted/
+  );
+  assert.equal(progress.length, 1);
+});
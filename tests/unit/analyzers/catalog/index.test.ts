@@ -0,0 +1,66 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { hasCatalogSignature, parseCatalog } from "../../../../analyzers/catalog/index.js";
+import { createCatalogFixture } from "../../../fixtures/catalog-fixtures.js";
+import { createSignedAuthenticodeCmsFixture } from "../../../fixtures/pe-authenticode-signed-cms-fixtures.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+const DRIVER_DIGEST = "5c".repeat(32);
+
+const viewOf = (bytes: Uint8Array): DataView => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+void test("hasCatalogSignature accepts catalogs but not plain Authenticode SignedData", async () => {
+  const { bytes } = await createCatalogFixture([{ digest: DRIVER_DIGEST, fileName: "driver.sys" }]);
+  const { payload } = await createSignedAuthenticodeCmsFixture();
+  assert.equal(hasCatalogSignature(viewOf(bytes)), true);
+  assert.equal(hasCatalogSignature(viewOf(payload)), false);
+  assert.equal(hasCatalogSignature(viewOf(new Uint8Array([0x30, 0x03, 0x02, 0x01, 0x00]))), false);
+});
+
+void test("parseCatalog reads members, attributes and a trusted signature", async () => {
+  const { bytes, trustStore } = await createCatalogFixture([
+    { digest: DRIVER_DIGEST, fileName: "driver.sys" },
+    { digest: "a1".repeat(32), fileName: "driver.inf" }
+  ]);
+  const catalog = await parseCatalog(new MockFile(bytes, "driver.cat"), trustStore);
+  assert.ok(catalog);
+  assert.deepEqual(catalog.warnings, []);
+  assert.deepEqual(catalog.subjectUsage, ["catalogList"]);
+  assert.equal(catalog.listIdentifier, "00112233445566778899aabbccddeeff");
+  assert.equal(catalog.thisUpdate, "2024-01-01T00:00:00Z");
+  assert.equal(catalog.subjectAlgorithm, "catalogListMember");
+  assert.deepEqual(catalog.attributes, [{ name: "OS", value: "_v100", flags: 0x10010001 }]);
+  assert.equal(catalog.members.length, 2);
+  const [driver] = catalog.members;
+  assert.equal(driver?.tag, DRIVER_DIGEST.toUpperCase());
+  assert.equal(driver?.digestAlgorithm, "SHA-256");
+  assert.equal(driver?.digest, DRIVER_DIGEST);
+  assert.equal(driver?.subjectType, "SPC_PE_IMAGE_DATA");
+  assert.equal(driver?.memberGuid, "{C689AAB8-8E78-11D0-8C47-00C04FC295EE}");
+  assert.deepEqual(driver?.attributes, [{ name: "File", value: "driver.sys", flags: 0x10010001 }]);
+  assert.equal(catalog.trust.status, "trusted");
+  assert.match(catalog.trust.reason, /Binary101 Root CA/);
+});
+
+void test("parseCatalog marks catalogs outside the trust store as untrusted", async () => {
+  const { bytes } = await createCatalogFixture([{ digest: DRIVER_DIGEST, fileName: "driver.sys" }]);
+  const catalog = await parseCatalog(new MockFile(bytes, "driver.cat"));
+  assert.equal(catalog?.trust.status, "untrusted");
+});
+
+void test("parseCatalog flags a catalog whose signature no longer verifies", async () => {
+  const { bytes, trustStore } = await createCatalogFixture([{ digest: DRIVER_DIGEST, fileName: "driver.sys" }]);
+  const tampered = new Uint8Array(bytes);
+  // The first member digest sits inside the signed CTL; changing it breaks the messageDigest attribute.
+  const digestOffset = tampered.findIndex((byte, index) => byte === 0x5c && tampered[index + 1] === 0x5c);
+  tampered[digestOffset] = 0x5d;
+  const catalog = await parseCatalog(new MockFile(tampered, "driver.cat"), trustStore);
+  assert.equal(catalog?.trust.status, "invalid");
+});
+
+void test("parseCatalog returns null for SignedData that does not carry a trust list", async () => {
+  const { payload } = await createSignedAuthenticodeCmsFixture();
+  assert.equal(await parseCatalog(new MockFile(payload, "signature.p7b")), null);
+});
@@ -0,0 +1,68 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  computePeCatalogDigests,
+  findCatalogMatches,
+  listCatalogDigestAlgorithms
+} from "../../../../analyzers/catalog/lookup.js";
+import type { CatalogMember, CatalogParseResult, LoadedCatalog } from "../../../../analyzers/catalog/types.js";
+import { createPeWithSectionAndIat } from "../../../fixtures/sample-files-pe.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+// tests/fixtures/sample-files-pe.ts: PE header at 0x40, so the PE32 CheckSum field sits at 0x40 + 4 + 20 + 64.
+const SAMPLE_CHECKSUM_OFFSET = 0x98;
+// The fixture's only section starts at raw offset 0x200.
+const SAMPLE_SECTION_OFFSET = 0x200;
+
+const member = (overrides: Partial<CatalogMember>): CatalogMember => ({
+  tag: "",
+  digestAlgorithm: null,
+  digest: null,
+  subjectType: null,
+  memberGuid: null,
+  attributes: [],
+  ...overrides
+});
+
+const loaded = (id: string, members: CatalogMember[]): LoadedCatalog => ({
+  id,
+  name: `${id}.cat`,
+  catalog: { members, trust: { status: "trusted", reason: "" } } as unknown as CatalogParseResult
+});
+
+void test("listCatalogDigestAlgorithms falls back to the tag length for members without indirect data", () => {
+  const catalogs = [
+    loaded("a", [member({ tag: "AA".repeat(32), digestAlgorithm: "SHA-256", digest: "aa".repeat(32) })]),
+    loaded("b", [member({ tag: "BB".repeat(20) }), member({ tag: "driver.inf" })])
+  ];
+  assert.deepEqual(listCatalogDigestAlgorithms(catalogs.map(({ catalog }) => catalog)), ["SHA-256", "SHA-1"]);
+});
+
+void test("findCatalogMatches compares digests case-insensitively per catalog", () => {
+  const first = loaded("first", [member({ tag: "CC".repeat(32), digestAlgorithm: "SHA-256", digest: "cc".repeat(32) })]);
+  const second = loaded("second", [member({ tag: "DD".repeat(20) })]);
+  const digests = new Map([["SHA-256", "CC".repeat(32)], ["SHA-1", "dd".repeat(20)]] as const);
+  assert.deepEqual(findCatalogMatches([first, second], digests).map(match => match.source.id), ["first", "second"]);
+  assert.deepEqual(findCatalogMatches([first], new Map([["SHA-256", "00".repeat(32)]])), []);
+});
+
+void test("computePeCatalogDigests hashes the Authenticode view of a PE image", async () => {
+  const bytes = createPeWithSectionAndIat();
+  const digests = await computePeCatalogDigests(new MockFile(bytes), ["SHA-256", "SHA-1"]);
+  assert.equal(digests?.get("SHA-256")?.length, 64);
+  assert.equal(digests?.get("SHA-1")?.length, 40);
+  const rechecksummed = new Uint8Array(bytes);
+  rechecksummed.set([~(bytes[SAMPLE_CHECKSUM_OFFSET] ?? 0) & 0xff], SAMPLE_CHECKSUM_OFFSET);
+  const unchanged = await computePeCatalogDigests(new MockFile(rechecksummed), ["SHA-256"]);
+  assert.equal(unchanged?.get("SHA-256"), digests?.get("SHA-256"));
+  const patched = new Uint8Array(bytes);
+  patched.set([~(bytes[SAMPLE_SECTION_OFFSET] ?? 0) & 0xff], SAMPLE_SECTION_OFFSET);
+  const changed = await computePeCatalogDigests(new MockFile(patched), ["SHA-256"]);
+  assert.notEqual(changed?.get("SHA-256"), digests?.get("SHA-256"));
+});
+
+void test("computePeCatalogDigests returns null for files that are not PE images", async () => {
+  assert.equal(await computePeCatalogDigests(new MockFile(new Uint8Array(64)), ["SHA-256"]), null);
+});
@@ -0,0 +1,47 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { calculateCoverageMap } from "../../../analyzers/coverage-map.js";
+import { createFileRangeReader } from "../../../analyzers/file-range-reader.js";
+import { parseForUi } from "../../../analyzers/parse-for-ui.js";
+import { describeStructures } from "../../../analyzers/structure-map/index.js";
+import { createPdfFile } from "../../fixtures/document-sample-files.js";
+import { MockFile } from "../../helpers/mock-file.js";
+
+const readerFor = (file: File) => createFileRangeReader(file, 0, file.size);
+
+void test("calculateCoverageMap separates zero padding from unexplained bytes", async () => {
+  const bytes = new Uint8Array(64);
+  bytes.fill(0x41, 40, 48);
+  const map = await calculateCoverageMap(readerFor(new MockFile(bytes)), [
+    { start: 0, end: 16, label: "Header" },
+    { start: 8, end: 24, label: "Table" },
+    { start: 36, end: 40, label: "Trailer" },
+    { start: 48, end: 64, label: "Overlay", unexplained: true }
+  ]);
+
+  assert.deepEqual(map, {
+    fileSize: 64,
+    explainedBytes: 28,
+    paddingBytes: 12,
+    unexplainedBytes: 24,
+    regions: [
+      { start: 24, end: 36, zeroFilled: true },
+      { start: 40, end: 64, zeroFilled: false }
+    ]
+  });
+});
+
+void test("calculateCoverageMap lists data appended after the PDF %%EOF marker", async () => {
+  const pdf = new Uint8Array(await createPdfFile().arrayBuffer());
+  const file = new MockFile(new Uint8Array([...pdf, ...new TextEncoder().encode("hidden")]), "appended.pdf");
+  const map = await calculateCoverageMap(readerFor(file), describeStructures(await parseForUi(file), file.size));
+
+  assert.deepEqual(map?.regions, [{ start: pdf.length, end: file.size, zeroFilled: false }]);
+});
+
+void test("calculateCoverageMap stops when a newer request replaces it", async () => {
+  const map = await calculateCoverageMap(readerFor(new MockFile(new Uint8Array(8))), [], { isCurrent: () => false });
+  assert.equal(map, null);
+});
@@ -0,0 +1,41 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { inspectData } from "../../../analyzers/data-inspector.js";
+
+const valuesOf = (bytes: number[], littleEndian = true): Record<string, string | null> =>
+  Object.fromEntries(inspectData(new Uint8Array(bytes), littleEndian).map(entry => [entry.label, entry.value]));
+
+void test("inspectData decodes integers and FILETIME in the selected byte order", () => {
+  // 116444736000000000 is the Unix epoch in 100 ns intervals since 1601-01-01.
+  const epoch = [0x00, 0x80, 0x3e, 0xd5, 0xde, 0xb1, 0x9d, 0x01];
+  const littleEndian = valuesOf(epoch);
+  assert.equal(littleEndian["Int16"], "-32768");
+  assert.equal(littleEndian["UInt16"], "32768");
+  assert.equal(littleEndian["UInt64"], "116444736000000000");
+  assert.equal(littleEndian["FILETIME"], "1970-01-01T00:00:00.000Z");
+  assert.equal(valuesOf(epoch, false)["UInt16"], "128");
+});
+
+void test("inspectData reports missing values near the end of the file", () => {
+  const values = valuesOf([0xe5, 0x8e, 0x26]);
+  assert.equal(values["UInt8"], "229");
+  assert.equal(values["UInt16"], "36581");
+  assert.equal(values["UInt32"], null);
+  assert.equal(values["GUID"], null);
+  assert.equal(values["ULEB128"], "624485 (3 bytes)");
+});
+
+void test("inspectData decodes signed LEB128 and rejects unterminated sequences", () => {
+  assert.equal(valuesOf([0xc0, 0xbb, 0x78])["SLEB128"], "-123456 (3 bytes)");
+  assert.equal(valuesOf([0x7f])["SLEB128"], "-1 (1 byte)");
+  assert.equal(valuesOf([0x80, 0x80])["ULEB128"], null);
+});
+
+void test("inspectData formats GUIDs with the Windows mixed-endian layout", () => {
+  const values = valuesOf([
+    0x33, 0x22, 0x11, 0x00, 0x55, 0x44, 0x77, 0x66, 0x88, 0x99, 0xaa, 0xbb, 0xcc, 0xdd, 0xee, 0xff
+  ]);
+  assert.equal(values["GUID"], "00112233-4455-6677-8899-aabbccddeeff");
+});
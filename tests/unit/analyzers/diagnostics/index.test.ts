@@ -0,0 +1,83 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { collectDiagnostics, countDiagnostics, diagnosticCode } from "../../../../analyzers/diagnostics/index.js";
+import { parseElf } from "../../../../analyzers/elf/index.js";
+import { createElfFile } from "../../../fixtures/elf-sample-file.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+void test("diagnosticCode keeps the wording and drops numbers, quoted values and stop words", () => {
+  assert.equal(diagnosticCode("zip", "Central directory entry 3 is truncated."), "zip.central-directory-entry-truncated");
+  assert.equal(diagnosticCode("pe", "Section \"UPX0\" has no raw data"), "pe.section-has-no-raw-data");
+  assert.equal(diagnosticCode("png", "0x10"), "png.message");
+});
+
+void test("collectDiagnostics puts reported diagnostics first and scrapes only the messages they do not cover", () => {
+  const diagnostics = collectDiagnostics("gzip", {
+    issues: ["Trailer is truncated.", "Header checksum looks odd."],
+    diagnostics: [
+      { code: "gzip.trailer-truncated", severity: "error", message: "Trailer is truncated.", offset: 40, length: 8 }
+    ],
+    members: [{ offset: 48, issues: ["Trailer is truncated."] }]
+  });
+
+  assert.deepEqual(diagnostics.map(({ code, source, offset }) => [code, source, offset]), [
+    ["gzip.trailer-truncated", "diagnostics", 40],
+    ["gzip.header-checksum-looks-odd", "issues", undefined]
+  ]);
+  assert.equal(diagnostics[0]?.length, 8);
+  assert.equal(diagnostics[0]?.specReference, "RFC 1952, GZIP file format");
+});
+
+void test("collectDiagnostics classifies messages by field and escalates unreadable structures", () => {
+  const diagnostics = collectDiagnostics("zip", {
+    issues: ["Central directory is truncated.", "Archive comment is empty."],
+    notes: ["Archive uses ZIP64 records."]
+  });
+
+  assert.deepEqual(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.source]), [
+    ["error", "issues"],
+    ["warning", "issues"],
+    ["info", "notes"]
+  ]);
+  assert.equal(diagnostics[0]?.specReference, "PKWARE APPNOTE.TXT");
+  assert.deepEqual(countDiagnostics(diagnostics), { error: 1, warning: 1, info: 1 });
+});
+
+void test("collectDiagnostics locates messages by quoted offset or by the owning structure", () => {
+  const diagnostics = collectDiagnostics("png", {
+    chunks: [
+      { offset: 8, length: 25, issues: ["CRC mismatch."] },
+      { offset: 33, issues: ["Unexpected byte at 0x40."] }
+    ],
+    issues: ["CRC mismatch."]
+  });
+
+  assert.deepEqual(diagnostics.map(({ source, offset, length }) => ({ source, offset, length })), [
+    { source: "issues", offset: undefined, length: undefined },
+    { source: "chunks[0].issues", offset: 8, length: 25 },
+    { source: "chunks[1].issues", offset: 0x40, length: undefined }
+  ]);
+});
+
+void test("collectDiagnostics keeps one copy of a message reported twice for the same bytes", () => {
+  const diagnostics = collectDiagnostics("pe", {
+    warnings: ["Checksum mismatch."],
+    headers: { warnings: ["Checksum mismatch."] },
+    data: new Uint8Array(4)
+  });
+  assert.equal(diagnostics.length, 1);
+});
+
+void test("collectDiagnostics reports a truncated ELF section header table as an error", async () => {
+  const bytes = new Uint8Array(await createElfFile().arrayBuffer());
+  const parsed = await parseElf(new MockFile(bytes.subarray(0, bytes.length - 30), "short.elf"));
+  assert.ok(parsed);
+  const diagnostics = collectDiagnostics("elf", parsed);
+
+  const truncated = diagnostics.find(diagnostic => diagnostic.code === "elf.section-header-table-truncated");
+  assert.equal(truncated?.severity, "error");
+  assert.equal(truncated?.offset, Number(parsed.header.shoff));
+  assert.equal(truncated?.source, "diagnostics");
+});
@@ -0,0 +1,40 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { BYTE_DIFF_CHUNK_BYTES, compareFileBytes } from "../../../../analyzers/diff/byte-ranges.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+void test("compareFileBytes reports changed runs and trailing bytes", async () => {
+  const left = new MockFile(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]));
+  const right = new MockFile(new Uint8Array([1, 9, 9, 4, 5, 6, 0, 8, 10, 11]));
+  const summary = await compareFileBytes(left, right);
+  assert.deepEqual(summary, {
+    comparedBytes: 8,
+    identicalBytes: 5,
+    changedBytes: 3,
+    leftOnlyBytes: 0,
+    rightOnlyBytes: 2,
+    changedRanges: [{ start: 1, end: 3 }, { start: 6, end: 7 }],
+    changedRangeCount: 2
+  });
+});
+
+void test("compareFileBytes joins a changed run that crosses a chunk boundary", async () => {
+  const leftBytes = new Uint8Array(BYTE_DIFF_CHUNK_BYTES + 4);
+  const rightBytes = leftBytes.slice();
+  rightBytes.fill(0xff, BYTE_DIFF_CHUNK_BYTES - 2, BYTE_DIFF_CHUNK_BYTES + 2);
+  const progress: number[] = [];
+  const summary = await compareFileBytes(new MockFile(leftBytes), new MockFile(rightBytes), {
+    onProgress: compared => progress.push(compared)
+  });
+  assert.deepEqual(summary.changedRanges, [{ start: BYTE_DIFF_CHUNK_BYTES - 2, end: BYTE_DIFF_CHUNK_BYTES + 2 }]);
+  assert.deepEqual(progress, [BYTE_DIFF_CHUNK_BYTES, BYTE_DIFF_CHUNK_BYTES + 4]);
+});
+
+void test("compareFileBytes stops when the comparison is aborted", async () => {
+  const controller = new AbortController();
+  controller.abort();
+  const file = new MockFile(new Uint8Array(4));
+  await assert.rejects(compareFileBytes(file, file, { signal: controller.signal }));
+});
@@ -0,0 +1,59 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { diffParsedFiles } from "../../../../analyzers/diff/index.js";
+import type { StructuralDiff } from "../../../../analyzers/diff/types.js";
+import { parseForUi } from "../../../../analyzers/parse-for-ui.js";
+import { createElfFile } from "../../../fixtures/elf-sample-file.js";
+import { createMachOFile } from "../../../fixtures/macho-fixtures.js";
+import { createPeWithSectionAndIat } from "../../../fixtures/sample-files-pe.js";
+import { createZipWithEntries } from "../../../fixtures/zip-fixtures.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+const diffFiles = async (left: MockFile, right: MockFile): Promise<StructuralDiff> =>
+  diffParsedFiles(
+    { file: left, result: await parseForUi(left) },
+    { file: right, result: await parseForUi(right) }
+  );
+
+const changedKeys = (diff: StructuralDiff, title: string): string[] =>
+  diff.tables.find(table => table.title === title)?.rows
+    .filter(row => row.status !== "same")
+    .map(row => row.key) ?? [];
+
+void test("diffParsedFiles reports PE header and section content changes", async () => {
+  const original = createPeWithSectionAndIat();
+  const patched = original.slice();
+  const peHeaderOffset = new DataView(patched.buffer).getUint32(0x3c, true);
+  new DataView(patched.buffer).setUint32(peHeaderOffset + 8, 0x12345678, true);
+  patched[0x250] = (patched[0x250] ?? 0) ^ 0xff;
+  const diff = await diffFiles(new MockFile(original, "a.exe"), new MockFile(patched, "b.exe"));
+  assert.equal(diff.sameFormat, true);
+  assert.deepEqual(changedKeys(diff, "Headers"), ["TimeDateStamp"]);
+  assert.deepEqual(changedKeys(diff, "Sections"), []);
+  assert.deepEqual(changedKeys(diff, "Section SHA-256"), [".text"]);
+  assert.deepEqual(changedKeys(diff, "Imports"), []);
+  assert.equal(diff.bytes.changedBytes, 5);
+  assert.equal(diff.bytes.changedRangeCount, 2);
+  assert.match(diff.similarity.left.ssdeep, /^\d+:/);
+  assert.ok((diff.similarity.ssdeepScore ?? 0) > 0);
+});
+
+void test("diffParsedFiles finds no structural changes between identical ELF and Mach-O files", async () => {
+  for (const createFile of [createElfFile, createMachOFile]) {
+    const diff = await diffFiles(createFile(), createFile());
+    assert.ok(diff.tables.length > 0);
+    assert.ok(diff.tables.every(table => table.changedCount === 0));
+    assert.equal(diff.bytes.identicalBytes, diff.bytes.comparedBytes);
+  }
+});
+
+void test("diffParsedFiles only compares bytes across different formats", async () => {
+  const diff = await diffFiles(createElfFile(), createZipWithEntries());
+  assert.equal(diff.sameFormat, false);
+  assert.deepEqual(diff.tables, []);
+  assert.equal(diff.left.analyzer, "elf");
+  assert.equal(diff.right.analyzer, "zip");
+  assert.ok(diff.bytes.changedBytes > 0);
+});
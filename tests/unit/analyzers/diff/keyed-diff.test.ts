@@ -0,0 +1,35 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createFactTable } from "../../../../analyzers/diff/facts.js";
+import { diffFactTables } from "../../../../analyzers/diff/keyed-diff.js";
+
+void test("createFactTable keeps repeated keys apart by occurrence", () => {
+  const table = createFactTable("Sections", [[".text", "a"], [".data", "b"], [".text", "c"]]);
+  assert.deepEqual([...table.facts], [[".text", "a"], [".data", "b"], [".text #2", "c"]]);
+});
+
+void test("diffFactTables aligns entries by key and reports their status", () => {
+  const [table, ...rest] = diffFactTables(
+    [createFactTable("Imports", [["a!x", "by name"], ["a!y", "by name"], ["b!z", "by ordinal"]])],
+    [createFactTable("Imports", [["a!x", "by name"], ["b!z", "by name"], ["c!w", "by name"]])]
+  );
+  assert.equal(rest.length, 0);
+  assert.deepEqual(table?.rows.map(row => [row.key, row.status]), [
+    ["a!x", "same"],
+    ["a!y", "removed"],
+    ["b!z", "changed"],
+    ["c!w", "added"]
+  ]);
+  assert.equal(table?.changedCount, 3);
+  assert.deepEqual(table?.rows[1], { key: "a!y", left: "by name", right: null, status: "removed" });
+});
+
+void test("diffFactTables keeps tables that only one file has", () => {
+  const tables = diffFactTables(
+    [createFactTable("Headers", [["Machine", "AMD64"]])],
+    [createFactTable("Headers", [["Machine", "AMD64"]]), createFactTable("Exports", [["Run", "ordinal 1"]])]
+  );
+  assert.deepEqual(tables.map(table => [table.title, table.changedCount]), [["Headers", 0], ["Exports", 1]]);
+});
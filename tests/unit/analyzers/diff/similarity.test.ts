@@ -0,0 +1,33 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { BYTE_DIFF_CHUNK_BYTES } from "../../../../analyzers/diff/byte-ranges.js";
+import { compareFileSimilarity } from "../../../../analyzers/diff/similarity.js";
+import { computeTextHashes } from "../../../../analyzers/hashes/index.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+const createBytes = (length: number, seed: number): Uint8Array =>
+  Uint8Array.from({ length }, (_, index) => (index * 31 + seed + (index >> 7)) & 0xff);
+
+void test("compareFileSimilarity hashes each file in chunks and reports progress", async () => {
+  const left = new MockFile(createBytes(BYTE_DIFF_CHUNK_BYTES + 5000, 1));
+  const right = new MockFile(createBytes(6000, 2));
+  const progress: number[] = [];
+  const summary = await compareFileSimilarity(left, right, {
+    onProgress: (hashed, total) => {
+      assert.equal(total, left.size + right.size);
+      progress.push(hashed);
+    }
+  });
+  assert.deepEqual(summary.left, await computeTextHashes(["ssdeep", "tlsh"], left));
+  assert.deepEqual(summary.right, await computeTextHashes(["ssdeep", "tlsh"], right));
+  assert.deepEqual(progress, [BYTE_DIFF_CHUNK_BYTES, left.size, left.size + right.size]);
+});
+
+void test("compareFileSimilarity stops when the comparison is aborted", async () => {
+  const controller = new AbortController();
+  controller.abort();
+  const file = new MockFile(new Uint8Array(4));
+  await assert.rejects(compareFileSimilarity(file, file, { signal: controller.signal }));
+});
@@ -2,6 +2,7 @@
 
 import assert from "node:assert/strict";
 import { test } from "node:test";
+import type { DiagnosticLog } from "../../../../analyzers/diagnostics/index.js";
 import {
   parseProgramHeadersWithGuards,
   parseSectionHeadersWithNames,
@@ -36,53 +37,59 @@ void test("resolveExtendedHeaderCounts reads values from section header #0", asy
   sectionZero.setUint32(44, 5, true); // real phnum
   const file = new MockFile(bytes, "ext.elf", "application/x-elf");
 
-  const issues: string[] = [];
+  const log: DiagnosticLog = { issues: [], diagnostics: [] };
   const resolved = await resolveExtendedHeaderCounts(
     file,
     baseHeader({ phnum: 0xffff, shoff: 64n, shnum: 0, shstrndx: 0xffff }),
     true,
     true,
-    issues,
+    log,
     64
   );
 
   assert.equal(resolved.phnum, 5);
   assert.equal(resolved.shnum, 7);
   assert.equal(resolved.shstrndx, 3);
-  assert.deepEqual(issues, []);
+  assert.deepEqual(log.issues, []);
 });
 
 void test("resolveExtendedHeaderCounts reports missing section table for extended numbering", async () => {
   const file = new MockFile(new Uint8Array(64), "ext-missing.elf", "application/x-elf");
-  const issues: string[] = [];
+  const log: DiagnosticLog = { issues: [], diagnostics: [] };
   const resolved = await resolveExtendedHeaderCounts(
     file,
     baseHeader({ phnum: 0xffff, shoff: 0n, shnum: 0, shstrndx: 0xffff }),
     true,
     true,
-    issues,
+    log,
     64
   );
 
   assert.equal(resolved.phnum, 0);
   assert.equal(resolved.shnum, 0);
   assert.equal(resolved.shstrndx, 0);
-  assert.ok(issues.some(issue => issue.includes("requires section header #0")));
+  assert.ok(log.issues.some(issue => issue.includes("requires section header #0")));
+  assert.deepEqual(log.diagnostics.map(({ code, offset }) => [code, offset]), [
+    ["elf.extended-numbering-section-table-missing", 0x28]
+  ]);
 });
 
 void test("parseProgramHeadersWithGuards rejects undersized entries", async () => {
   const file = new MockFile(new Uint8Array(256), "ph-small.elf", "application/x-elf");
-  const issues: string[] = [];
+  const log: DiagnosticLog = { issues: [], diagnostics: [] };
   const entries = await parseProgramHeadersWithGuards(
     file,
     baseHeader({ phoff: 64n, phnum: 1, phentsize: 16 }),
     true,
     true,
-    issues
+    log
   );
 
   assert.deepEqual(entries, []);
-  assert.ok(issues.some(issue => issue.includes("Program header entry size (16)")));
+  assert.ok(log.issues.some(issue => issue.includes("Program header entry size (16)")));
+  assert.deepEqual(log.diagnostics.map(({ code, offset }) => [code, offset]), [
+    ["elf.program-header-entry-size-too-small", 0x36]
+  ]);
 });
 
 void test("parseProgramHeadersWithGuards parses available program headers", async () => {
@@ -94,7 +101,7 @@ void test("parseProgramHeadersWithGuards parses available program headers", asyn
     baseHeader({ phoff: 64n, phnum: 1, phentsize: 56 }),
     true,
     true,
-    []
+    { issues: [], diagnostics: [] }
   );
 
   assert.equal(entries.length, 1);
@@ -125,7 +132,7 @@ void test("parseSectionHeadersWithNames resolves section names from string table
     baseHeader({ shoff: BigInt(tableOffset), shnum: 2, shentsize: 64, shstrndx: 1 }),
     true,
     true,
-    [],
+    { issues: [], diagnostics: [] },
     64
   );
 
@@ -136,16 +143,19 @@ void test("parseSectionHeadersWithNames resolves section names from string table
 
 void test("parseSectionHeadersWithNames rejects undersized section entries", async () => {
   const file = new MockFile(new Uint8Array(256), "sections-small.elf", "application/x-elf");
-  const issues: string[] = [];
+  const log: DiagnosticLog = { issues: [], diagnostics: [] };
   const sections = await parseSectionHeadersWithNames(
     file,
     baseHeader({ shoff: 64n, shnum: 1, shentsize: 16 }),
     true,
     true,
-    issues,
+    log,
     64
   );
 
   assert.deepEqual(sections, []);
-  assert.ok(issues.some(issue => issue.includes("Section header entry size (16)")));
+  assert.ok(log.issues.some(issue => issue.includes("Section header entry size (16)")));
+  assert.deepEqual(log.diagnostics.map(({ code, offset }) => [code, offset]), [
+    ["elf.section-header-entry-size-too-small", 0x3a]
+  ]);
 });
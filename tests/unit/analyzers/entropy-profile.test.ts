@@ -0,0 +1,51 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  ENTROPY_PROFILE_MAX_WINDOWS,
+  ENTROPY_PROFILE_MIN_STEP_BYTES,
+  calculateEntropyProfile,
+  entropyWindowStep
+} from "../../../analyzers/entropy-profile.js";
+import { createFileRangeReader } from "../../../analyzers/file-range-reader.js";
+import { MockFile } from "../../helpers/mock-file.js";
+
+const profileOf = async (bytes: Uint8Array) => {
+  const file = new MockFile(bytes);
+  const profile = await calculateEntropyProfile(createFileRangeReader(file, 0, file.size));
+  assert.ok(profile);
+  return profile;
+};
+
+void test("entropyWindowStep keeps a minimum step and caps the number of windows", () => {
+  assert.equal(entropyWindowStep(10), ENTROPY_PROFILE_MIN_STEP_BYTES);
+  const size = 10 * 1024 * 1024;
+  assert.ok(Math.ceil(size / entropyWindowStep(size)) <= ENTROPY_PROFILE_MAX_WINDOWS);
+});
+
+void test("calculateEntropyProfile slides overlapping windows and reports byte classes", async () => {
+  const bytes = new Uint8Array(5 * 256);
+  bytes.fill(0x41, 512, 1024);
+  bytes.forEach((_, index) => { if (index >= 1024) bytes[index] = index & 0xff; });
+  const profile = await profileOf(bytes);
+  assert.deepEqual([profile.step, profile.windowSize], [256, 512]);
+  assert.deepEqual(
+    profile.windows.map(window => [window.offset, window.length]),
+    [[0, 512], [256, 512], [512, 512], [768, 512], [1024, 256]]
+  );
+  const [zeros, zerosAndText, text, , random] = profile.windows;
+  assert.deepEqual([zeros?.entropy, zeros?.zero, zeros?.ascii], [0, 1, 0]);
+  assert.deepEqual([zerosAndText?.entropy, zerosAndText?.zero, zerosAndText?.ascii], [1, 0.5, 0.5]);
+  assert.deepEqual([text?.entropy, text?.ascii, text?.highBit], [0, 1, 0]);
+  assert.equal(random?.entropy, 8);
+  assert.equal(random?.highBit, 0.5);
+  assert.equal(random?.zero, 1 / 256);
+});
+
+void test("calculateEntropyProfile handles empty and superseded files", async () => {
+  assert.deepEqual((await profileOf(new Uint8Array(0))).windows, []);
+  const file = new MockFile(new Uint8Array(64));
+  const reader = createFileRangeReader(file, 0, file.size);
+  assert.equal(await calculateEntropyProfile(reader, { isCurrent: () => false }), null);
+});
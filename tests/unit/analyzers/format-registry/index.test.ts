@@ -0,0 +1,169 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  FORMAT_REGISTRY,
+  createDetectBinaryType,
+  createParseForUi,
+  type AnalyzerName,
+  type AnalyzerResult,
+  type FormatDescriptor
+} from "../../../../analyzers/index.js";
+import type { ElfParseResult } from "../../../../analyzers/elf/types.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+const createFile = (): MockFile => new MockFile(new Uint8Array([1, 2, 3, 4]), "sample.bin");
+
+const createElfResult = (): AnalyzerResult => ({
+  analyzer: "elf",
+  parsed: { fileSize: 4 } as unknown as ElfParseResult
+});
+
+const createParserFormat = (
+  id: string,
+  accepts: boolean,
+  result: AnalyzerResult | null,
+  calls: string[]
+): FormatDescriptor => ({
+  id,
+  parser: {
+    analyzers: ["elf"],
+    probe: () => {
+      calls.push(`probe:${id}`);
+      return accepts;
+    },
+    parse: () => {
+      calls.push(`parse:${id}`);
+      return Promise.resolve(result);
+    },
+    nestedAnalysis: false
+  }
+});
+
+const createLabelFormat = (id: string, label: string | null, calls: string[]): FormatDescriptor => ({
+  id,
+  label: () => {
+    calls.push(`label:${id}`);
+    return label;
+  }
+});
+
+void test("createParseForUi parses only formats whose probe accepts the file", async () => {
+  const calls: string[] = [];
+  const expected = createElfResult();
+  const parseForUi = createParseForUi([
+    createParserFormat("rejected", false, createElfResult(), calls),
+    createParserFormat("accepted", true, expected, calls)
+  ]);
+
+  const result = await parseForUi(createFile());
+
+  assert.equal(result, expected);
+  assert.deepEqual(calls, ["probe:rejected", "probe:accepted", "parse:accepted"]);
+});
+
+void test("createParseForUi falls through when a probed format fails to parse", async () => {
+  const calls: string[] = [];
+  const expected = createElfResult();
+  const parseForUi = createParseForUi([
+    createParserFormat("broken", true, null, calls),
+    createLabelFormat("label-only", "Label", calls),
+    createParserFormat("fallback", true, expected, calls)
+  ]);
+
+  const result = await parseForUi(createFile());
+
+  assert.equal(result, expected);
+  assert.deepEqual(calls, ["probe:broken", "parse:broken", "probe:fallback", "parse:fallback"]);
+});
+
+void test("createParseForUi reports no analyzer when nothing matches", async () => {
+  const parseForUi = createParseForUi([createParserFormat("rejected", false, null, [])]);
+
+  assert.deepEqual(await parseForUi(createFile()), { analyzer: null, parsed: null });
+});
+
+void test("createParseForUi reports probing and each parse attempt as progress", async () => {
+  const progress: unknown[] = [];
+  const parseForUi = createParseForUi([
+    createParserFormat("broken", true, null, []),
+    createParserFormat("rejected", false, null, []),
+    createParserFormat("accepted", true, createElfResult(), [])
+  ]);
+
+  await parseForUi(createFile(), { onProgress: event => progress.push(event) });
+
+  assert.deepEqual(progress, [
+    { stage: "probing" },
+    { stage: "parsing", formatId: "broken", analyzers: ["elf"] },
+    { stage: "parsing", formatId: "accepted", analyzers: ["elf"] }
+  ]);
+});
+
+void test("createParseForUi stops before the next phase once the signal aborts", async () => {
+  const calls: string[] = [];
+  const controller = new AbortController();
+  const parseForUi = createParseForUi([
+    {
+      id: "aborting",
+      parser: {
+        analyzers: ["elf"],
+        probe: () => {
+          controller.abort(new Error("cancelled"));
+          return true;
+        },
+        parse: () => Promise.resolve(createElfResult()),
+        nestedAnalysis: false
+      }
+    },
+    createParserFormat("later", true, createElfResult(), calls)
+  ]);
+
+  await assert.rejects(parseForUi(createFile(), { signal: controller.signal }), /cancelled/);
+  await assert.rejects(parseForUi(createFile(), { signal: controller.signal }), /cancelled/);
+  assert.deepEqual(calls, []);
+});
+
+void test("createDetectBinaryType returns the first label in registry order", async () => {
+  const calls: string[] = [];
+  const detectBinaryType = createDetectBinaryType([
+    createLabelFormat("silent", null, calls),
+    createParserFormat("parser-only", true, createElfResult(), calls),
+    createLabelFormat("first", "First label", calls),
+    createLabelFormat("second", "Second label", calls)
+  ]);
+
+  const label = await detectBinaryType(createFile());
+
+  assert.equal(label, "First label");
+  assert.deepEqual(calls, ["label:silent", "label:first"]);
+});
+
+void test("createDetectBinaryType handles empty and unrecognised files", async () => {
+  const calls: string[] = [];
+  const detectBinaryType = createDetectBinaryType([createLabelFormat("silent", null, calls)]);
+
+  assert.equal(await detectBinaryType(new MockFile(new Uint8Array(), "empty.bin")), "Empty file");
+  assert.equal(await detectBinaryType(createFile()), "Unknown binary type");
+  assert.deepEqual(calls, ["label:silent"]);
+});
+
+void test("FORMAT_REGISTRY uses unique ids and routes every analyzer", () => {
+  const ids = FORMAT_REGISTRY.map(descriptor => descriptor.id);
+  const routedAnalyzers = new Set<AnalyzerName>(
+    FORMAT_REGISTRY.flatMap(descriptor => descriptor.parser?.analyzers ?? [])
+  );
+
+  assert.equal(new Set(ids).size, ids.length);
+  // One per AnalyzerName member in analyzers/analyzer-types.ts.
+  assert.equal(routedAnalyzers.size, 35);
+});
+
+void test("FORMAT_REGISTRY marks formats with extractable inner payloads for nested analysis", () => {
+  const nestedAnalyzers = FORMAT_REGISTRY
+    .filter(descriptor => descriptor.parser?.nestedAnalysis)
+    .flatMap(descriptor => descriptor.parser?.analyzers ?? []);
+
+  assert.deepEqual([...new Set(nestedAnalyzers)].sort(), ["gzip", "iso9660", "pe", "sevenZip", "zip"]);
+});
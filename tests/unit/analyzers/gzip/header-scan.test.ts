@@ -47,7 +47,8 @@ void test("parseGzipOptionalHeader reads filename, comment, extra, and header cr
   const state: GzipHeaderScanState = {
     file: makeGzipFile(bytes),
     headerBytes: new Uint8Array(bytes.slice(0, RFC1952_BASE_HEADER_BYTES)),
-    issues: []
+    issues: [],
+    diagnostics: []
   };
   const header = createGzipHeader(state.headerBytes);
   await parseGzipOptionalHeader(state, header);
@@ -67,11 +68,15 @@ void test("parseGzipOptionalHeader reports truncated filename without throwing",
   const state: GzipHeaderScanState = {
     file: makeGzipFile(bytes),
     headerBytes: new Uint8Array(bytes.slice(0, RFC1952_BASE_HEADER_BYTES)),
-    issues: []
+    issues: [],
+    diagnostics: []
   };
   const header = createGzipHeader(state.headerBytes);
   await parseGzipOptionalHeader(state, header);
   assert.equal(header.truncated, true);
   assert.equal(header.fileName, "name");
   assert.match(state.issues.join("\n"), /Original filename is not NUL-terminated/);
+  assert.deepEqual(state.diagnostics.map(({ code, severity, offset }) => ({ code, severity, offset })), [
+    { code: "gzip.file-name-truncated", severity: "error", offset: RFC1952_BASE_HEADER_BYTES }
+  ]);
 });
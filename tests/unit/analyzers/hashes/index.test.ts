@@ -0,0 +1,17 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { computeTextHashes, isTextHashId } from "../../../../analyzers/hashes/index.js";
+
+void test("computeTextHashes streams the file once through every requested hash", async () => {
+  const hashes = await computeTextHashes(["crc32", "xxh64", "blake3", "ssdeep", "tlsh"], new Blob(["123456789"]));
+  assert.deepEqual(hashes, {
+    crc32: "cbf43926",
+    xxh64: "8cb841db40e6ae83",
+    blake3: "b7d65b48420d1033cb2595293263b6f72eabee20d55e699d0df1973b3c9deed1",
+    ssdeep: "3:OWS:OWS",
+    tlsh: "TNULL"
+  });
+  assert.equal(isTextHashId("sha256"), false);
+});
@@ -0,0 +1,54 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { compareSsdeep, createSsdeep, ssdeep } from "../../../../analyzers/hashes/ssdeep.js";
+
+const pseudoRandomBytes = (length: number): Uint8Array => {
+  let seed = 1;
+  return Uint8Array.from({ length }, () => (seed = (Math.imul(seed, 1103515245) + 12345) >>> 0) >>> 24);
+};
+
+void test("ssdeep matches the libfuzzy signatures of short inputs", () => {
+  assert.equal(ssdeep(new Uint8Array()), "3::");
+  assert.equal(
+    ssdeep(new TextEncoder().encode("Also called fuzzy hashes, CTPH can match inputs that have homologies.")),
+    "3:AXGBicFlIHBGcL6wCrFQEv:AXGH6xLsr2C"
+  );
+});
+
+void test("ssdeep keeps the pending trigger characters when the input ends on a zero rolling hash", () => {
+  // Seven trailing zero bytes empty the rolling window, so libfuzzy prints digest[dlen] and the
+  // next block size's halfdigest instead of the running piece hashes.
+  const bytes = new Uint8Array(20_008);
+  bytes.set(pseudoRandomBytes(20_000));
+  const signature = ssdeep(bytes);
+  assert.equal(
+    signature,
+    "384:8Z+ubnospHHvRJ76IMsSkkDi6dLtjoYqQJbalYlx1CHFLjpwu8xm5qZJ3yictYCi:8RbBHvTWasDldLt5QYVCHFL9wu8xPTXV"
+  );
+  assert.deepEqual(signature.split(":").map(part => part.length), [3, 64, 32]);
+});
+
+void test("createSsdeep picks a larger block size for larger inputs and streams in chunks", () => {
+  const bytes = pseudoRandomBytes(200_000);
+  const signature = ssdeep(bytes);
+  const [blockSize, first] = signature.split(":");
+  assert.ok(Number(blockSize) >= 3072);
+  assert.ok((first?.length ?? 0) >= 32);
+  const state = createSsdeep();
+  for (let offset = 0; offset < bytes.length; offset += 4096) state.update(bytes.subarray(offset, offset + 4096));
+  assert.equal(state.digest(), signature);
+});
+
+void test("compareSsdeep scores related signatures and rejects malformed ones", () => {
+  assert.equal(compareSsdeep("3:AXGBicFlgVNhBGcL6wCrFQEv:AXGHsNhxLsr2C", "3:AXGBicFlIHBGcL6wCrFQEv:AXGH6xLsr2C"), 22);
+  assert.equal(compareSsdeep("3:abc:def", "3:abc:def"), 100);
+  // Block sizes more than a factor of two apart cannot be compared.
+  assert.equal(compareSsdeep("3:AXGBicFlIHBGcL6wCrFQEv:AXGH6xLsr2C", "12:AXGBicFlIHBGcL6wCrFQEv:AXGH6xLsr2C"), 0);
+  assert.equal(compareSsdeep("not a signature", "3::"), null);
+  const bytes = pseudoRandomBytes(200_000);
+  const edited = bytes.slice();
+  edited.fill(0, 50_000, 52_000);
+  assert.ok((compareSsdeep(ssdeep(bytes), ssdeep(edited)) ?? 0) > 80);
+});
@@ -0,0 +1,53 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { TLSH_NULL, compareTlsh, createTlsh, tlsh } from "../../../../analyzers/hashes/tlsh.js";
+
+const pseudoRandomBytes = (length: number, initialSeed: number): Uint8Array => {
+  let seed = initialSeed;
+  return Uint8Array.from({ length }, () => (seed = (Math.imul(seed, 1103515245) + 12345) >>> 0) >>> 24);
+};
+
+void test("tlsh refuses inputs that are too short or too uniform", () => {
+  assert.equal(tlsh(new Uint8Array(49).map((_, index) => index)), TLSH_NULL);
+  assert.equal(tlsh(new Uint8Array(4096)), TLSH_NULL);
+});
+
+void test("tlsh matches the reference digest of a published TLSH test vector", () => {
+  // Input and digest from the TLSH JavaScript port's test suite; TLSH 4.x only adds the "T1" prefix.
+  const text = "The best documentation is the UNIX source. After all, this is what the " +
+    "system uses for documentation when it decides what to do next! The " +
+    "manuals paraphrase the source code, often having been written at " +
+    "different times and by different people than who wrote the code. " +
+    "Think of them as guidelines. Sometimes they are more like wishes... " +
+    "Nonetheless, it is all too common to turn to the source and find " +
+    "options and behaviors that are not documented in the manual. Sometimes " +
+    "you find options described in the manual that are unimplemented " +
+    "and ignored by the source.";
+  assert.equal(
+    tlsh(new TextEncoder().encode(text)),
+    "T16FF02BEF718027B0160B4391212923ED7F1A463D563B1549B86CF62973B197AD2731F8"
+  );
+});
+
+void test("tlsh prints a T1 digest and streams in chunks", () => {
+  const bytes = pseudoRandomBytes(20_000, 1);
+  const digest = tlsh(bytes);
+  assert.match(digest, /^T1[0-9A-F]{70}$/);
+  const state = createTlsh();
+  for (let offset = 0; offset < bytes.length; offset += 999) state.update(bytes.subarray(offset, offset + 999));
+  assert.equal(state.digest(), digest);
+});
+
+void test("compareTlsh keeps edited copies closer than unrelated data", () => {
+  const bytes = pseudoRandomBytes(20_000, 1);
+  const edited = bytes.slice();
+  edited.fill(7, 5_000, 6_000);
+  const digest = tlsh(bytes);
+  assert.equal(compareTlsh(digest, digest), 0);
+  const editedDistance = compareTlsh(digest, tlsh(edited)) ?? Infinity;
+  const unrelatedDistance = compareTlsh(digest, tlsh(pseudoRandomBytes(20_000, 99))) ?? 0;
+  assert.ok(editedDistance < unrelatedDistance);
+  assert.equal(compareTlsh(digest, TLSH_NULL), null);
+});
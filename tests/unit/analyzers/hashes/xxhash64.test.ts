@@ -0,0 +1,21 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createXxh64, xxh64 } from "../../../../analyzers/hashes/xxhash64.js";
+
+const encode = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+void test("xxh64 matches the reference vectors", () => {
+  assert.equal(xxh64(encode("")), 0xef46db3751d8e999n);
+  assert.equal(xxh64(encode("a")), 0xd24ec4f1a98c6e5bn);
+  assert.equal(xxh64(encode("abc")), 0x44bc2cf5ad770999n);
+  assert.equal(xxh64(encode("Nobody inspects the spammish repetition")), 0xfbcea83c8a378bf1n);
+});
+
+void test("createXxh64 gives the same digest however the input is split", () => {
+  const bytes = encode("0123456789abcdef".repeat(9) + "tail");
+  const state = createXxh64();
+  for (let offset = 0; offset < bytes.length; offset += 7) state.update(bytes.subarray(offset, offset + 7));
+  assert.equal(state.digest(), xxh64(bytes));
+});
@@ -1,7 +1,7 @@
 "use strict";
 import assert from "node:assert/strict";
 import { test } from "node:test";
-import { createParseForUi } from "../../../../analyzers/index.js";
+import { createFormatRegistry, createParseForUi } from "../../../../analyzers/index.js";
 import type { AnalyzerName, ParsedByAnalyzer } from "../../../../analyzers/index.js";
 import { createElfFile } from "../../../fixtures/elf-sample-file.js";
 import { createFb2File, createPdfFile } from "../../../fixtures/document-sample-files.js";
@@ -38,7 +38,7 @@ import { expectDefined } from "../../../helpers/expect-defined.js";
 import type { FlacMetadataBlockDetail } from "../../../../analyzers/flac/types.js";
 import type { LnkExtraDataBlock, LnkPropertyStoreBlock } from "../../../../analyzers/lnk/types.js";
 const textEncoder = new TextEncoder();
-const parseForUi = createParseForUi(parseFb2ForTests);
+const parseForUi = createParseForUi(createFormatRegistry(parseFb2ForTests));
 
 const isLnkPropertyStoreBlock = (block: LnkExtraDataBlock): block is LnkPropertyStoreBlock =>
   block.signature === 0xa0000009;
@@ -0,0 +1,66 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseKsyExpression } from "../../../../analyzers/kaitai/expression.js";
+
+void test("parseKsyExpression binds comparisons looser than bitwise operators", () => {
+  assert.deepEqual(parseKsyExpression("flags & 0x10 != 0"), {
+    kind: "binary",
+    operator: "!=",
+    left: {
+      kind: "binary",
+      operator: "&",
+      left: { kind: "name", name: "flags" },
+      right: { kind: "literal", value: 16 }
+    },
+    right: { kind: "literal", value: 0 }
+  });
+});
+
+void test("parseKsyExpression reads member access, calls, indexes, enum references and casts", () => {
+  assert.deepEqual(parseKsyExpression("_root.header.as<header>.items[1].to_s('ASCII')"), {
+    kind: "call",
+    object: {
+      kind: "index",
+      object: {
+        kind: "member",
+        object: { kind: "member", object: { kind: "name", name: "_root" }, name: "header" },
+        name: "items"
+      },
+      index: { kind: "literal", value: 1 }
+    },
+    name: "to_s",
+    args: [{ kind: "literal", value: "ASCII" }]
+  });
+  assert.deepEqual(parseKsyExpression("kind == file::kinds::text"), {
+    kind: "binary",
+    operator: "==",
+    left: { kind: "name", name: "kind" },
+    right: { kind: "enum", path: ["file", "kinds"], label: "text" }
+  });
+});
+
+void test("parseKsyExpression parses not, and, or and the ternary operator", () => {
+  assert.deepEqual(parseKsyExpression("not a and b or c ? 1 : 2"), {
+    kind: "ternary",
+    condition: {
+      kind: "binary",
+      operator: "or",
+      left: {
+        kind: "binary",
+        operator: "and",
+        left: { kind: "unary", operator: "not", operand: { kind: "name", name: "a" } },
+        right: { kind: "name", name: "b" }
+      },
+      right: { kind: "name", name: "c" }
+    },
+    then: { kind: "literal", value: 1 },
+    otherwise: { kind: "literal", value: 2 }
+  });
+});
+
+void test("parseKsyExpression rejects trailing tokens and unterminated strings", () => {
+  assert.throws(() => parseKsyExpression("a b"), /unexpected "b"/);
+  assert.throws(() => parseKsyExpression("'abc"), /unterminated string/);
+});
@@ -0,0 +1,225 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createFileRangeReader } from "../../../../analyzers/file-range-reader.js";
+import { interpretKsy } from "../../../../analyzers/kaitai/index.js";
+import { compileKsy } from "../../../../analyzers/kaitai/schema.js";
+import type { KaitaiNode, KaitaiResult } from "../../../../analyzers/kaitai/types.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+const interpret = async (source: string, bytes: number[]): Promise<KaitaiResult> => {
+  const { spec, issues } = compileKsy(source);
+  assert.deepEqual(issues, []);
+  assert.ok(spec);
+  const file = new MockFile(Uint8Array.from(bytes));
+  const result = await interpretKsy(createFileRangeReader(file, 0, file.size), spec);
+  assert.ok(result);
+  return result;
+};
+
+const child = (node: KaitaiNode | undefined, name: string): KaitaiNode => {
+  const found = node?.children?.find(candidate => candidate.name === name);
+  assert.ok(found, `missing ${name}`);
+  return found;
+};
+
+void test("interpretKsy reads integers, strings, enums and nested types with absolute offsets", async () => {
+  const result = await interpret([
+    "meta:",
+    "  id: record",
+    "  endian: be",
+    "seq:",
+    "  - id: magic",
+    "    contents: 'RC'",
+    "  - id: kind",
+    "    type: u1",
+    "    enum: kinds",
+    "  - id: body",
+    "    type: body",
+    "    size: 6",
+    "types:",
+    "  body:",
+    "    meta:",
+    "      endian: le",
+    "    seq:",
+    "      - id: value",
+    "        type: u2",
+    "      - id: name",
+    "        type: strz",
+    "        encoding: ASCII",
+    "enums:",
+    "  kinds:",
+    "    1: text",
+    "    2: binary"
+  ].join("\n"), [0x52, 0x43, 0x02, 0x34, 0x12, 0x61, 0x62, 0x00, 0xff]);
+  assert.deepEqual(result.issues, []);
+  assert.equal(result.root.size, 9);
+  assert.deepEqual(child(result.root, "kind").value, { kind: "enum", enumName: "kinds", value: 2, label: "binary" });
+  const body = child(result.root, "body");
+  assert.equal(body.typeName, "body");
+  assert.deepEqual([body.offset, body.size], [3, 6]);
+  assert.equal(child(body, "value").value, 0x1234);
+  assert.deepEqual([child(body, "name").value, child(body, "name").offset, child(body, "name").size], ["ab", 5, 3]);
+});
+
+void test("interpretKsy repeats until the end, a count or a condition and switches on a field", async () => {
+  const result = await interpret([
+    "meta:",
+    "  id: packets",
+    "seq:",
+    "  - id: count",
+    "    type: u1",
+    "  - id: sizes",
+    "    type: u1",
+    "    repeat: expr",
+    "    repeat-expr: count",
+    "  - id: records",
+    "    type: record",
+    "    repeat: until",
+    "    repeat-until: _.tag == 0",
+    "  - id: rest",
+    "    type: u1",
+    "    repeat: eos",
+    "types:",
+    "  record:",
+    "    seq:",
+    "      - id: tag",
+    "        type: u1",
+    "      - id: payload",
+    "        type:",
+    "          switch-on: tag",
+    "          cases:",
+    "            1: u1",
+    "            2: pair",
+    "  pair:",
+    "    seq:",
+    "      - id: a",
+    "        type: u1",
+    "      - id: b",
+    "        type: u1"
+  ].join("\n"), [2, 5, 6, 1, 9, 2, 3, 4, 0, 7, 8]);
+  assert.deepEqual(result.issues, []);
+  assert.deepEqual(child(result.root, "sizes").children?.map(item => item.value), [5, 6]);
+  const records = child(result.root, "records").children ?? [];
+  assert.deepEqual(records.map(record => [record.offset, record.size]), [[3, 2], [5, 3], [8, 1]]);
+  assert.equal(child(records[0], "payload").value, 9);
+  assert.equal(child(child(records[1], "payload"), "b").value, 4);
+  assert.equal(child(records[2], "payload").typeName, "none");
+  assert.deepEqual(child(result.root, "rest").children?.map(item => item.value), [7, 8]);
+});
+
+void test("interpretKsy reads bit fields, parameters and pos and value instances", async () => {
+  const result = await interpret([
+    "meta:",
+    "  id: bits",
+    "  endian: le",
+    "seq:",
+    "  - id: version",
+    "    type: b3",
+    "  - id: flags",
+    "    type: b5",
+    "  - id: table_offset",
+    "    type: u2",
+    "  - id: entry",
+    "    type: entry(version * 2)",
+    "instances:",
+    "  table:",
+    "    pos: table_offset",
+    "    type: u2",
+    "    repeat: expr",
+    "    repeat-expr: 2",
+    "  total:",
+    "    value: table[0] + table[1] + entry.scaled",
+    "types:",
+    "  entry:",
+    "    params:",
+    "      - id: factor",
+    "        type: u1",
+    "    seq:",
+    "      - id: raw",
+    "        type: u1",
+    "    instances:",
+    "      scaled:",
+    "        value: raw * factor"
+  ].join("\n"), [0b101_00011, 5, 0, 10, 0, 0x01, 0x00, 0x02, 0x00]);
+  assert.deepEqual(result.issues, []);
+  assert.equal(child(result.root, "version").value, 5);
+  assert.equal(child(result.root, "flags").value, 3);
+  const table = child(result.root, "table");
+  assert.equal(table.instance, true);
+  assert.deepEqual([table.offset, table.size], [5, 4]);
+  assert.deepEqual(table.children?.map(item => item.value), [1, 2]);
+  assert.equal(child(child(result.root, "entry"), "scaled").value, 100);
+  assert.equal(child(result.root, "total").value, 103);
+});
+
+void test("interpretKsy keeps the fields read before an error and stops there", async () => {
+  const result = await interpret([
+    "meta:",
+    "  id: broken",
+    "  endian: be",
+    "seq:",
+    "  - id: length",
+    "    type: u2",
+    "  - id: data",
+    "    size: length",
+    "  - id: never",
+    "    type: u1"
+  ].join("\n"), [0x00, 0x10, 0x01]);
+  assert.equal(child(result.root, "length").value, 16);
+  assert.match(child(result.root, "data").issue ?? "", /end of stream: 16 bytes needed at 0x2/);
+  assert.equal(result.root.children?.some(node => node.name === "never"), false);
+  assert.deepEqual(result.issues, ["broken.data: end of stream: 16 bytes needed at 0x2"]);
+});
+
+void test("compileKsy reports unsupported features and missing endianness at parse time", async () => {
+  const compiled = compileKsy("meta:\n  id: x\n  imports: [other]\nseq:\n  - id: a\n    type: u4");
+  assert.deepEqual(compiled.issues, ["meta.imports is not supported; imported types are unknown."]);
+  const file = new MockFile(Uint8Array.from([1, 2, 3, 4]));
+  const result = await interpretKsy(createFileRangeReader(file, 0, file.size), compiled.spec!);
+  assert.match(result?.issues[0] ?? "", /u4 needs an endianness/);
+});
+
+void test("compileKsy reports attribute and meta keys the interpreter ignores", () => {
+  const compiled = compileKsy([
+    "meta:",
+    "  id: x",
+    "  bit-endian: le",
+    "  ks-version: 0.10",
+    "seq:",
+    "  - id: magic",
+    "    type: u1",
+    "    valid: 0x7f",
+    "    -webide-representation: '{magic}'",
+    "  - id: name",
+    "    type: str",
+    "    size: 8",
+    "    pad-right: 0x20",
+    "    eos-error: false",
+    "  - id: header",
+    "    type: header",
+    "    terminator: 0",
+    "types:",
+    "  header:",
+    "    seq:",
+    "      - id: body",
+    "        size-eos: true",
+    "        io: _root._io"
+  ].join("\n"));
+  assert.ok(compiled.spec);
+  assert.deepEqual(compiled.issues, [
+    "x meta: \"bit-endian\" is not supported and is ignored",
+    "x.magic: \"valid\" is not supported and is ignored",
+    "x.name: \"pad-right\" is not supported and is ignored",
+    "x.name: \"eos-error\" is not supported and is ignored",
+    "x.header: \"terminator\" is only supported on str, strz and raw byte fields and is ignored",
+    "header.body: \"io\" is not supported and is ignored"
+  ]);
+});
+
+void test("interpretKsy returns null when the file is no longer current", async () => {
+  const { spec } = compileKsy("meta:\n  id: x\nseq:\n  - id: a\n    type: u1");
+  const file = new MockFile(Uint8Array.from([1]));
+  assert.equal(await interpretKsy(createFileRangeReader(file, 0, 1), spec!, { isCurrent: () => false }), null);
+});
@@ -0,0 +1,54 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseYaml } from "../../../../analyzers/kaitai/yaml.js";
+
+void test("parseYaml reads nested mappings, sequences and typed scalars", () => {
+  const document = parseYaml([
+    "# header comment",
+    "meta:",
+    "  id: sample   # trailing comment",
+    "  endian: le",
+    "seq:",
+    "  - id: magic",
+    "    contents: [0x7f, 'ELF']",
+    "  - id: count",
+    "    type: u4",
+    "    size: 0b1000",
+    "flags: {a: true, b: ~}",
+    "big: 0xffff_ffff_ffff_ffff"
+  ].join("\n"));
+  assert.deepEqual(document, {
+    meta: { id: "sample", endian: "le" },
+    seq: [
+      { id: "magic", contents: [0x7f, "ELF"] },
+      { id: "count", type: "u4", size: 8 }
+    ],
+    flags: { a: true, b: null },
+    big: 0xffff_ffff_ffff_ffffn
+  });
+});
+
+void test("parseYaml keeps quoted keys and block scalars", () => {
+  const document = parseYaml([
+    "cases:",
+    "  '\"IHDR\"': ihdr",
+    "  _: raw",
+    "doc: |",
+    "  First line",
+    "  second line",
+    "note: >",
+    "  folded",
+    "  text"
+  ].join("\n"));
+  assert.deepEqual(document, {
+    cases: { "\"IHDR\"": "ihdr", _: "raw" },
+    doc: "First line\nsecond line\n",
+    note: "folded text\n"
+  });
+});
+
+void test("parseYaml reports the line of a syntax error", () => {
+  assert.throws(() => parseYaml("seq:\n  - id: a\n  bad"), /line 3/i);
+});
@@ -0,0 +1,113 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { digestFile, summarizeKnownHashVerdict } from "../../../../analyzers/known-hashes/index.js";
+import { createKnownHashListParser, parseKnownHashList } from "../../../../analyzers/known-hashes/parser.js";
+import type { KnownHashList, KnownHashMatch } from "../../../../analyzers/known-hashes/types.js";
+
+const MD5_ABC = "900150983cd24fb0d6963f7d28e17f72";
+const SHA1_ABC = "a9993e364706816aba3e25717850c26c9cd0d89d";
+const SHA256_ABC = "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad";
+
+void test("parseKnownHashList reads checksum tool output and bare digests", () => {
+  const result = parseKnownHashList([
+    "\uFEFF# exported by sha256sum",
+    `${SHA256_ABC.toUpperCase()}  tools/abc.txt`,
+    `${MD5_ABC} *abc.bin`,
+    `SHA1 (abc.dat) = ${SHA1_ABC}`,
+    SHA1_ABC,
+    "not a hash",
+    ""
+  ].join("\r\n"));
+  assert.equal(result.format, "text");
+  assert.deepEqual(result.entries, [
+    { algorithm: "sha256", digest: SHA256_ABC, name: "tools/abc.txt" },
+    { algorithm: "md5", digest: MD5_ABC, name: "abc.bin" },
+    { algorithm: "sha1", digest: SHA1_ABC, name: "abc.dat" }
+  ]);
+  assert.equal(result.skippedLines, 1);
+});
+
+void test("parseKnownHashList rejects tagged lines whose digest length disagrees with the tag", () => {
+  const result = parseKnownHashList(`SHA256 (abc) = ${MD5_ABC}\n${MD5_ABC},abc.txt`);
+  assert.deepEqual(result.entries, [{ algorithm: "md5", digest: MD5_ABC, name: "abc.txt" }]);
+  assert.equal(result.skippedLines, 1);
+});
+
+void test("parseKnownHashList maps CSV header columns to digests and names", () => {
+  const result = parseKnownHashList([
+    "Path,SHA-256,MD5 Hash,Notes",
+    `"C:\\tools\\abc, copy.exe",${SHA256_ABC},${MD5_ABC},signed`,
+    "empty.exe,,,missing"
+  ].join("\n"));
+  assert.equal(result.format, "csv");
+  assert.deepEqual(result.entries, [
+    { algorithm: "sha256", digest: SHA256_ABC, name: "C:\\tools\\abc, copy.exe" },
+    { algorithm: "md5", digest: MD5_ABC, name: "C:\\tools\\abc, copy.exe" }
+  ]);
+  assert.equal(result.skippedLines, 1);
+});
+
+void test("parseKnownHashList recognizes NSRL RDS files", () => {
+  const result = parseKnownHashList([
+    "\"SHA-1\",\"MD5\",\"CRC32\",\"FileName\",\"FileSize\",\"ProductCode\",\"OpSystemCode\",\"SpecialCode\"",
+    `"${SHA1_ABC.toUpperCase()}","${MD5_ABC.toUpperCase()}","352441C2","abc.txt",3,1234,"358",""`,
+    `"${SHA1_ABC.toUpperCase()}","${MD5_ABC.toUpperCase()}","352441C2","abc.txt",3,5678,"358",""`
+  ].join("\n"));
+  assert.equal(result.format, "nsrl");
+  assert.deepEqual(result.entries, [
+    { algorithm: "sha1", digest: SHA1_ABC, name: "abc.txt" },
+    { algorithm: "md5", digest: MD5_ABC, name: "abc.txt" }
+  ]);
+  assert.equal(result.skippedLines, 0);
+});
+
+const createMatch = (verdict: KnownHashList["verdict"]): KnownHashMatch => ({
+  list: {
+    id: verdict,
+    name: `${verdict}.txt`,
+    verdict,
+    format: "text",
+    algorithms: ["md5"],
+    entryCount: 1,
+    importedAt: "2024-01-01T00:00:00.000Z"
+  },
+  entry: { algorithm: "md5", digest: MD5_ABC, name: null }
+});
+
+void test("summarizeKnownHashVerdict lets deny lists win over allow lists", () => {
+  assert.equal(summarizeKnownHashVerdict([]), null);
+  assert.equal(summarizeKnownHashVerdict([createMatch("good")]), "good");
+  assert.equal(summarizeKnownHashVerdict([createMatch("good"), createMatch("bad")]), "bad");
+});
+
+void test("digestFile computes the requested digests in one pass", async () => {
+  const digests = await digestFile(new Blob(["abc"]), ["sha256", "sha1", "md5"]);
+  assert.deepEqual(digests, [["sha256", SHA256_ABC], ["sha1", SHA1_ABC], ["md5", MD5_ABC]]);
+});
+
+void test("createKnownHashListParser reads a list fed in chunks split mid-line", () => {
+  const source = [
+    "\uFEFF\"SHA-1\",\"MD5\",\"CRC32\",\"FileName\",\"FileSize\",\"ProductCode\",\"OpSystemCode\",\"SpecialCode\"",
+    `"${SHA1_ABC.toUpperCase()}","${MD5_ABC.toUpperCase()}","352441C2","abc.txt",3,1234,"358",""`,
+    "\"not a hash\",\"\",\"\",\"x\",0,1,\"358\",\"\"",
+    `"${SHA1_ABC.toUpperCase()}","${MD5_ABC.toUpperCase()}","352441C2","abc, copy.txt",3,5678,"358",""`
+  ].join("\r\n");
+  for (const size of [1, 7, 64]) {
+    const parser = createKnownHashListParser();
+    const entries = [];
+    for (let offset = 0; offset < source.length; offset += size) {
+      entries.push(...parser.write(source.slice(offset, offset + size)));
+    }
+    entries.push(...parser.end());
+    assert.equal(parser.format(), "nsrl");
+    assert.equal(parser.skippedLines(), 1);
+    assert.deepEqual(entries, [
+      { algorithm: "sha1", digest: SHA1_ABC, name: "abc.txt" },
+      { algorithm: "md5", digest: MD5_ABC, name: "abc.txt" },
+      { algorithm: "sha1", digest: SHA1_ABC, name: "abc, copy.txt" },
+      { algorithm: "md5", digest: MD5_ABC, name: "abc, copy.txt" }
+    ]);
+  }
+});
@@ -0,0 +1,49 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseForUi, type ParseForUiResult } from "../../../analyzers/index.js";
+import {
+  fromTransferableParseResult,
+  toTransferableParseResult
+} from "../../../analyzers/parse-result-transfer.js";
+import { createPngFile } from "../../fixtures/image-sample-files.js";
+import { createPeDwarfFile } from "../../fixtures/pe-dwarf-file.js";
+import { createPeResourcePreviewFile } from "../../fixtures/pe-resource-preview-file.js";
+import { createPeFile } from "../../fixtures/sample-files-pe.js";
+import type { MockFile } from "../../helpers/mock-file.js";
+
+const roundTrip = (result: ParseForUiResult, file: MockFile): ParseForUiResult =>
+  fromTransferableParseResult(structuredClone(toTransferableParseResult(result)), file.size);
+
+void test("transferable PE results rebuild an equivalent RVA mapper", async () => {
+  for (const file of [createPeFile(), createPeDwarfFile(), createPeResourcePreviewFile()]) {
+    const original = await parseForUi(file);
+    assert.equal(original.analyzer, "pe");
+    assert.ok(original.parsed);
+
+    const revived = roundTrip(original, file);
+
+    assert.equal(revived.analyzer, "pe");
+    assert.ok(revived.parsed);
+    const rvas = [0, 0x3c, ...original.parsed.sections.flatMap(section => [
+      section.virtualAddress,
+      section.virtualAddress + section.sizeOfRawData - 1,
+      section.virtualAddress + section.sizeOfRawData
+    ]), 0xffff_ffff, -1, 1.5];
+    for (const rva of rvas) {
+      assert.equal(revived.parsed.rvaToOff(rva), original.parsed.rvaToOff(rva), `${file.name} RVA ${rva}`);
+    }
+    const { rvaToOff: _revivedMapper, ...revivedData } = revived.parsed;
+    const { rvaToOff: _originalMapper, ...originalData } = original.parsed;
+    assert.deepStrictEqual(revivedData, originalData);
+  }
+});
+
+void test("transferable results leave non-PE analyzers untouched", async () => {
+  const file = createPngFile();
+  const original = await parseForUi(file);
+
+  assert.equal(toTransferableParseResult(original), original);
+  assert.deepStrictEqual(roundTrip(original, file), original);
+});
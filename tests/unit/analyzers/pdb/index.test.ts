@@ -0,0 +1,98 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parsePdb } from "../../../../analyzers/pdb/index.js";
+import { hasPdbSignature } from "../../../../analyzers/pdb/msf.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+import {
+  PDB_FIXTURE_AGE,
+  PDB_FIXTURE_GUID,
+  buildPdb,
+  createPdbStreams
+} from "../../../fixtures/pdb-fixtures.js";
+
+const parseFixture = (bytes: Uint8Array) => parsePdb(new MockFile(bytes, "app.pdb"));
+
+void test("parsePdb reads the MSF directory, info stream and DBI module list", async () => {
+  const pdb = await parseFixture(buildPdb());
+
+  assert.ok(pdb);
+  assert.deepEqual(pdb.warnings, []);
+  assert.equal(pdb.msf.blockSize, 512);
+  assert.equal(pdb.msf.streamCount, 11);
+  assert.deepEqual(pdb.info && {
+    version: pdb.info.version,
+    age: pdb.info.age,
+    guid: pdb.info.guid,
+    namedStreams: pdb.info.namedStreams,
+    features: pdb.info.features
+  }, {
+    version: 20000404,
+    age: PDB_FIXTURE_AGE,
+    guid: PDB_FIXTURE_GUID,
+    namedStreams: [{ name: "/names", stream: 5 }],
+    features: ["VC140"]
+  });
+  assert.equal(pdb.dbi?.machine, 0x8664);
+  assert.equal(`${pdb.dbi?.buildMajor}.${pdb.dbi?.buildMinor}`, "14.29");
+  assert.deepEqual(pdb.dbi?.modules.map(module => [module.moduleName, module.symbolStream, module.lineBytes]), [
+    ["C:\\build\\main.obj", 10, 24]
+  ]);
+  assert.deepEqual(pdb.dbi?.sectionContributions, [
+    { section: 1, offset: 0x10, size: 0x40, characteristics: 0x60500020, module: 0 }
+  ]);
+  assert.deepEqual(pdb.dbi?.sections.map(section => [section.name, section.virtualAddress]), [
+    [".text", 0x1000],
+    [".data", 0x3000]
+  ]);
+});
+
+void test("parsePdb resolves public symbols to RVAs and counts globals and types", async () => {
+  const pdb = await parseFixture(buildPdb());
+  const symbols = pdb?.symbols;
+
+  assert.deepEqual(symbols?.publics.map(symbol => [symbol.name, symbol.rva, symbol.isFunction]), [
+    ["main", 0x1010, true],
+    ["helper", 0x1030, true],
+    ["g_value", 0x3004, false]
+  ]);
+  assert.deepEqual(symbols?.globalKinds.map(kind => `${kind.name}=${kind.count}`), ["S_GDATA32=1", "S_PROCREF=1"]);
+  assert.equal(symbols?.globalHashRecords, 2);
+  assert.equal(symbols?.publicHashRecords, 3);
+  assert.equal(symbols?.addressMapEntries, 3);
+  assert.equal(pdb?.types && pdb.types.typeIndexEnd - pdb.types.typeIndexBegin, 2);
+  assert.deepEqual(pdb?.types?.leafKinds.map(kind => kind.name), ["LF_POINTER", "LF_ARGLIST"]);
+  assert.equal(pdb?.ids?.leafKinds.length, 0);
+  assert.deepEqual(pdb?.streams.slice(5).map(stream => stream.name), [
+    "/names",
+    "Global symbol hash",
+    "Public symbol hash",
+    "Debug header: SectionHdr",
+    "Symbol records",
+    "Module: C:\\build\\main.obj"
+  ]);
+});
+
+void test("parsePdb keeps nil streams and warns about a truncated symbol record stream", async () => {
+  const streams = createPdbStreams();
+  streams[4] = null;
+  streams[9] = [...(streams[9] ?? []), 0x40, 0x00, 0x0e, 0x11];
+  const pdb = await parseFixture(buildPdb(streams));
+
+  assert.equal(pdb?.streams[4]?.size, null);
+  assert.equal(pdb?.ids, null);
+  assert.equal(pdb?.symbols?.publicCount, 3);
+  assert.match(pdb?.warnings.join(" | ") ?? "", /symbol record stream ends with a truncated record/);
+});
+
+void test("parsePdb rejects non-MSF input and reports an out-of-range stream directory", async () => {
+  assert.equal(await parseFixture(new TextEncoder().encode("Microsoft C/C++ program database 2.00\r\n\x1aJG\0\0")), null);
+  const bytes = buildPdb();
+  new DataView(bytes.buffer).setUint32(52, 0x1000, true);
+  const pdb = await parseFixture(bytes);
+
+  assert.equal(pdb?.info, null);
+  assert.equal(hasPdbSignature(new DataView(bytes.buffer)), true);
+  assert.match(pdb?.warnings.join(" | ") ?? "", /block map lies outside the file/);
+});
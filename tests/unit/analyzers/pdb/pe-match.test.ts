@@ -0,0 +1,37 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parsePdb } from "../../../../analyzers/pdb/index.js";
+import { createPePdbSymbols, matchPdbToPe } from "../../../../analyzers/pdb/pe-match.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+import { PDB_FIXTURE_AGE, PDB_FIXTURE_GUID, buildPdb } from "../../../fixtures/pdb-fixtures.js";
+import { createBasePe } from "../../../fixtures/pe-renderer-headers-fixture.js";
+
+const createPeWithRsds = (guid: string, age: number) => {
+  const pe = createBasePe();
+  pe.debug = { entries: [], entry: { signature: "RSDS", guid, age, path: "C:\\build\\app.pdb" }, rawDataRanges: [] };
+  return pe;
+};
+
+void test("matchPdbToPe compares the RSDS GUID and the DBI age", async () => {
+  const pdb = await parsePdb(new MockFile(buildPdb(), "app.pdb"));
+  assert.ok(pdb);
+
+  assert.equal(matchPdbToPe(pdb, createPeWithRsds(PDB_FIXTURE_GUID.toUpperCase(), PDB_FIXTURE_AGE)), "match");
+  assert.equal(matchPdbToPe(pdb, createPeWithRsds(PDB_FIXTURE_GUID, PDB_FIXTURE_AGE + 1)), "age-mismatch");
+  assert.equal(matchPdbToPe(pdb, createPeWithRsds("00000000-0000-0000-0000-000000000000", 1)), "guid-mismatch");
+  assert.equal(matchPdbToPe(pdb, createBasePe()), "no-rsds");
+});
+
+void test("createPePdbSymbols keys public names by RVA and prefers functions", async () => {
+  const pdb = await parsePdb(new MockFile(buildPdb(), "app.pdb"));
+  assert.ok(pdb?.symbols);
+  pdb.symbols.publics.unshift({ name: "data_alias", segment: 1, offset: 0x10, rva: 0x1010, isFunction: false, isCode: false });
+
+  const symbols = createPePdbSymbols(pdb, "app.pdb");
+
+  assert.equal(symbols.fileName, "app.pdb");
+  assert.equal(symbols.age, PDB_FIXTURE_AGE);
+  assert.deepEqual([...symbols.names], [[0x1010, "main"], [0x1030, "helper"], [0x3004, "g_value"]]);
+});
@@ -9,6 +9,7 @@ void test("parseHeader reads version and binary marker", () => {
   const header = parseHeader("%PDF-1.7\n%1234", issues);
   assert.strictEqual(header.version, "1.7");
   assert.strictEqual(header.binaryMarker, "%PDF-1.7");
+  assert.strictEqual(header.headerEnd, 14);
   assert.deepEqual(issues, []);
 });
 
@@ -16,6 +17,7 @@ void test("parseHeader reports malformed header", () => {
   const issues: string[] = [];
   const header = parseHeader("garbage", issues);
   assert.strictEqual(header.version, null);
+  assert.strictEqual(header.headerEnd, 0);
   assert.ok(issues.some(msg => msg.includes("Missing or malformed")));
 });
 
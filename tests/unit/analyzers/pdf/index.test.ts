@@ -4,7 +4,11 @@ import assert from "node:assert/strict";
 import { test } from "node:test";
 import { parsePdf } from "../../../../analyzers/pdf/index.js";
 import { createPdfFile } from "../../../fixtures/document-sample-files.js";
-import { createPdfMissingStartxref, createPdfWithBadXref } from "../../../fixtures/pdf-fixtures.js";
+import {
+  createPdfMissingStartxref,
+  createPdfWithBadXref,
+  createPdfWithCompressedXrefStream
+} from "../../../fixtures/pdf-fixtures.js";
 import { createPdfWithXrefStream } from "../../../fixtures/pdf-corrupt-stream.js";
 import { expectDefined } from "../../../helpers/expect-defined.js";
 
@@ -28,3 +32,13 @@ void test("parsePdf notes xref stream detection", async () => {
   const pdf = expectDefined(await parsePdf(createPdfWithXrefStream()));
   assert.ok(pdf.issues.some(issue => issue.toLowerCase().includes("cross-reference stream")));
 });
+
+void test("parsePdf decodes the entries of a compressed cross-reference stream", async () => {
+  const pdf = expectDefined(await parsePdf(createPdfWithCompressedXrefStream()));
+  assert.deepEqual(pdf.issues, []);
+  assert.strictEqual(pdf.xref?.kind, "stream");
+  assert.deepEqual(pdf.xref.entries.map(entry => [entry.objectNumber, entry.inUse]), [
+    [0, false], [1, true], [2, true], [4, true], [5, true]
+  ]);
+  assert.strictEqual(pdf.xref.entries[1]?.offset, "%PDF-1.5\n".length);
+});
@@ -0,0 +1,82 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseSpcIndirectDataContent } from "../../../../../analyzers/pe/authenticode/pkcs7-details.js";
+import {
+  createPageHashCheck,
+  verifyAuthenticodePageHashes
+} from "../../../../../analyzers/pe/authenticode/page-hash-verify.js";
+import {
+  PAGE_HASH_CHECKSUM_OFFSET,
+  PAGE_HASH_DATA_OFFSET,
+  PAGE_HASH_TEXT_OFFSET,
+  createPageHashFixture,
+  createSpcIndirectDataWithPageHashes
+} from "../../../../fixtures/pe-page-hash-fixtures.js";
+import { verifyAuthenticode } from "../../../../../analyzers/pe/authenticode/verify.js";
+import { createSignedAuthenticodeCmsFixture } from "../../../../fixtures/pe-authenticode-signed-cms-fixtures.js";
+import { MockFile } from "../../../../helpers/mock-file.js";
+
+void test("parseSpcIndirectDataContent decodes SHA-1 and SHA-256 page hash tables", () => {
+  for (const algorithmName of ["SHA-1", "SHA-256"] as const) {
+    const { pageHashes } = createPageHashFixture(algorithmName);
+    const warnings: string[] = [];
+    const spc = parseSpcIndirectDataContent(
+      createSpcIndirectDataWithPageHashes(pageHashes, new Uint8Array(32).fill(0xab)),
+      warnings
+    );
+    assert.deepEqual(spc.pageHashes, pageHashes);
+    assert.equal(spc.digestHex, "ab".repeat(32));
+    assert.deepEqual(warnings, []);
+  }
+});
+
+void test("verifyAuthenticodePageHashes matches every page of an untouched image", async () => {
+  const { file, core, securityDir, pageHashes } = createPageHashFixture();
+  const result = await verifyAuthenticodePageHashes(file, core, securityDir, pageHashes);
+  assert.equal(result.mismatchCount, 0);
+  assert.deepEqual(
+    result.pages.map(page => [page.offset, page.section, page.length]),
+    [[0, "Headers", 0x400], [PAGE_HASH_TEXT_OFFSET, ".text", 0x1000], [0x1400, ".text", 0x200],
+      [PAGE_HASH_DATA_OFFSET, ".data", 0x200]]
+  );
+  assert.equal(createPageHashCheck(result).status, "pass");
+});
+
+void test("verifyAuthenticodePageHashes localises tampering to the modified page", async () => {
+  const { bytes, core, securityDir, pageHashes } = createPageHashFixture("SHA-1");
+  const patched = new Uint8Array(bytes);
+  patched.set([0xcc], PAGE_HASH_DATA_OFFSET + 0x10);
+  // CheckSum is left out of the header page, so rewriting it does not count as tampering.
+  patched.set([0, 0, 0, 0], PAGE_HASH_CHECKSUM_OFFSET);
+  const result = await verifyAuthenticodePageHashes(new MockFile(patched), core, securityDir, pageHashes);
+  assert.equal(result.mismatchCount, 1);
+  assert.deepEqual(result.pages.filter(page => !page.matches).map(page => page.section), [".data"]);
+  const check = createPageHashCheck(result);
+  assert.equal(check.status, "fail");
+  assert.equal(check.detail, "1 of 4 pages differ (.data).");
+});
+
+void test("verifyAuthenticodePageHashes reports pages missing from and unknown to the signed table", async () => {
+  const { file, core, securityDir, pageHashes } = createPageHashFixture();
+  const entries = pageHashes.entries.filter(entry => entry.offset !== PAGE_HASH_DATA_OFFSET);
+  entries.splice(1, 0, { offset: 0x200, digest: "11".repeat(32) });
+  const result = await verifyAuthenticodePageHashes(file, core, securityDir, { ...pageHashes, entries });
+  const mismatches = result.pages.filter(page => !page.matches);
+  assert.deepEqual(mismatches.map(page => [page.offset, page.section, page.expectedDigest != null]), [
+    [0x200, "Headers", true],
+    [PAGE_HASH_DATA_OFFSET, ".data", false]
+  ]);
+});
+
+void test("verifyAuthenticode reports page hashes next to the image digest check", async () => {
+  const { payload } = await createSignedAuthenticodeCmsFixture();
+  const { file, core, securityDir, pageHashes } = createPageHashFixture();
+  const verified = await verifyAuthenticode(file, core, securityDir, { format: "pkcs7", pageHashes }, payload);
+  assert.equal(verified.pageHashes?.pages.length, 4);
+  assert.deepEqual(verified.checks?.slice(0, 2).map(check => [check.id, check.status]), [
+    ["file-digest-missing", "unknown"],
+    ["page-hashes", "pass"]
+  ]);
+});
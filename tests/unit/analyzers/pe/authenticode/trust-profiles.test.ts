@@ -0,0 +1,103 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { Certificate } from "../../../../../analyzers/pe/authenticode/pkijs-runtime.js";
+import { EncapsulatedContentInfo, SignedData } from "../../../../../analyzers/pe/authenticode/pkijs-runtime.js";
+import { decodePkcs7 } from "../../../../../analyzers/pe/authenticode/pkcs7.js";
+import { verifyPkcs7Signatures } from "../../../../../analyzers/pe/authenticode/pkijs.js";
+import { evaluateAuthenticodeTrustProfile } from "../../../../../analyzers/pe/authenticode/trust-policy.js";
+import {
+  describeAuthenticodeTrustVerdict,
+  parseTrustProfileCertificates,
+  trustProfileSnapshot,
+  type AuthenticodeTrustProfile
+} from "../../../../../analyzers/pe/authenticode/trust-profiles.js";
+import {
+  createCertificateChain,
+  createSignedData,
+  encodeContentInfo
+} from "../../../../fixtures/pe-authenticode-signed-cms-fixtures.js";
+
+const PKCS7_DATA_OID = "1.2.840.113549.1.7.1";
+
+const derOf = (certificate: Certificate): Uint8Array => new Uint8Array(certificate.toSchema(true).toBER());
+
+const pemOf = (label: string, der: Uint8Array): string =>
+  `-----BEGIN ${label}-----\n${Buffer.from(der).toString("base64").replace(/.{64}/g, "$&\n")}\n-----END ${label}-----\n`;
+
+const profileOf = async (name: string, files: Uint8Array[]): Promise<AuthenticodeTrustProfile> => ({
+  id: name,
+  name,
+  importedAt: "2026-01-01T00:00:00.000Z",
+  certificates: (await parseTrustProfileCertificates(files)).certificates,
+  selected: true
+});
+
+void test("parseTrustProfileCertificates reads PEM bundles, DER certificates and PKCS#7 bundles", async () => {
+  const chain = await createCertificateChain();
+  const pem = new TextEncoder().encode(
+    pemOf("CERTIFICATE", derOf(chain.root)) + pemOf("RSA PRIVATE KEY", new Uint8Array([1])) +
+    pemOf("CERTIFICATE", derOf(chain.signer))
+  );
+  const fromPem = await parseTrustProfileCertificates([pem]);
+  assert.deepEqual(fromPem.warnings, ["Skipped PEM block \"RSA PRIVATE KEY\"."]);
+  assert.deepEqual(fromPem.certificates.map(certificate => [certificate.subject, certificate.stores]), [
+    ["CN=Binary101 Root CA", ["Root"]],
+    ["CN=Binary101 Authenticode Signer", ["CA"]]
+  ]);
+  assert.match(fromPem.certificates[0]!.thumbprint, /^[0-9A-F]{40}$/);
+  assert.equal(fromPem.certificates[0]!.derBase64, Buffer.from(derOf(chain.root)).toString("base64"));
+
+  const p7b = encodeContentInfo(new SignedData({
+    version: 1,
+    encapContentInfo: new EncapsulatedContentInfo({ eContentType: PKCS7_DATA_OID }),
+    certificates: [chain.root, chain.timestamp]
+  }));
+  const combined = await parseTrustProfileCertificates([derOf(chain.root), p7b, pem]);
+  assert.deepEqual(combined.certificates.map(certificate => certificate.subject), [
+    "CN=Binary101 Root CA",
+    "CN=Binary101 Timestamp Authority",
+    "CN=Binary101 Authenticode Signer"
+  ]);
+  const garbage = await parseTrustProfileCertificates([new Uint8Array([0x04, 0x01, 0x00])]);
+  assert.deepEqual(garbage, {
+    certificates: [],
+    warnings: ["Input is not a DER encoded certificate or PKCS#7 bundle."]
+  });
+});
+
+void test("trust profiles give a per-profile verdict for an already verified signature", async () => {
+  const chain = await createCertificateChain();
+  const other = await createCertificateChain();
+  const payload = encodeContentInfo(await createSignedData("ab".repeat(32), chain));
+  const { certificates = [] } = decodePkcs7(payload);
+  const verification = await verifyPkcs7Signatures(payload);
+  const verdictFor = async (profile: AuthenticodeTrustProfile) => describeAuthenticodeTrustVerdict(
+    verification,
+    await evaluateAuthenticodeTrustProfile(certificates, trustProfileSnapshot(profile))
+  );
+
+  const ownRoot = await profileOf("Lab root", [derOf(chain.root)]);
+  assert.deepEqual(trustProfileSnapshot(ownRoot), {
+    schemaVersion: 1,
+    generatedAt: "2026-01-01T00:00:00.000Z",
+    source: "Lab root",
+    trustedCAs: ownRoot.certificates,
+    revokedCAs: []
+  });
+  assert.deepEqual(await verdictFor(ownRoot), { status: "trusted", reason: "Chains to CN=Binary101 Root CA." });
+  assert.deepEqual(await verdictFor(await profileOf("Pinned signer", [derOf(chain.signer)])), {
+    status: "trusted",
+    reason: "Chains to certificate 1."
+  });
+  assert.deepEqual(await verdictFor(await profileOf("Other root", [derOf(other.root)])), {
+    status: "untrusted",
+    reason: "Signer 1: the chain does not reach a trusted anchor."
+  });
+  assert.deepEqual(describeAuthenticodeTrustVerdict({ ...verification, fileDigestMatches: false }, undefined), {
+    status: "invalid",
+    reason: "The image digest does not match the signed digest."
+  });
+  assert.equal(describeAuthenticodeTrustVerdict(undefined, undefined).status, "invalid");
+});
@@ -0,0 +1,141 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseCodeViewEntry } from "../../../../../analyzers/pe/debug/codeview.js";
+import {
+  createExtraDebugPayloadSubject,
+  identityRvaToOff
+} from "../../../../fixtures/pe-debug-extra-payloads.js";
+
+const u16 = (value: number): number[] => [value & 0xff, (value >>> 8) & 0xff];
+const u32 = (value: number): number[] => [...u16(value & 0xffff), ...u16(value >>> 16)];
+const pascal = (text: string): number[] => [text.length, ...[...text].map(char => char.charCodeAt(0))];
+const symbolRecord = (type: number, data: number[]): number[] => [...u16(data.length + 2), ...u16(type), ...data];
+
+type Subsection = { type: number; module: number; data: number[] };
+
+// Lays out "NBxx", lfoDirectory, the subsection bodies and a directory that points at them.
+const createEmbeddedPayload = (signature: string, subsections: Subsection[]): Uint8Array => {
+  const bytes = [...[...signature].map(char => char.charCodeAt(0)), ...u32(0)];
+  const entries: number[] = [];
+  subsections.forEach(subsection => {
+    entries.push(...u16(subsection.type), ...u16(subsection.module));
+    entries.push(...u32(bytes.length), ...u32(subsection.data.length));
+    bytes.push(...subsection.data);
+  });
+  const directoryOffset = bytes.length;
+  bytes.push(...u16(16), ...u16(12), ...u32(subsections.length), ...u32(0), ...u32(0), ...entries);
+  bytes.splice(4, 4, ...u32(directoryOffset));
+  return Uint8Array.from(bytes);
+};
+
+const moduleSubsection = (module: number, name: string): Subsection => ({
+  type: 0x120,
+  module,
+  data: [
+    ...u16(0), ...u16(0), ...u16(1), ...u16(0x5643),
+    ...u16(1), ...u16(0), ...u32(0x10), ...u32(0x40), ...pascal(name)
+  ]
+});
+
+// One file, one segment, two line/offset pairs.
+const sourceModuleSubsection = (module: number, fileName: string): Subsection => {
+  const fileEntry = 4 + 4 + 8 + 4;
+  const lineBlock = fileEntry + 4 + 4 + 8 + 1 + fileName.length;
+  return {
+    type: 0x127,
+    module,
+    data: [
+      ...u16(1), ...u16(1), ...u32(fileEntry), ...u32(0x10), ...u32(0x50), ...u16(1), ...u16(0),
+      ...u16(1), ...u16(0), ...u32(lineBlock), ...u32(0x10), ...u32(0x50), ...pascal(fileName),
+      ...u16(1), ...u16(2), ...u32(0x10), ...u32(0x1c), ...u16(12), ...u16(14)
+    ]
+  };
+};
+
+const hashedSymbols = (records: number[]): number[] =>
+  [...u16(0), ...u16(0), ...u32(records.length), ...u32(0), ...u32(0), ...records];
+
+const parseSubject = async (payload: Uint8Array) => {
+  const warnings: string[] = [];
+  const subject = createExtraDebugPayloadSubject(payload, payload.length);
+  const result = await parseCodeViewEntry(
+    subject.file,
+    subject.file.size,
+    identityRvaToOff,
+    0,
+    subject.offset,
+    subject.declaredSize,
+    message => warnings.push(message)
+  );
+  return { result, warnings };
+};
+
+void test("parseCodeViewEntry decodes NB11 modules, symbols and line numbers", async () => {
+  const procedure = symbolRecord(0x100b, [...new Array<number>(24).fill(0), ...u32(0x1000), ...u32(0x10), ...u16(1), 0,
+    ...pascal("_main")]);
+  const publicSymbol = symbolRecord(0x1009, [...u32(0x1000), ...u32(0x10), ...u16(1), ...pascal("_main")]);
+  const udt = symbolRecord(0x1003, [...u32(0x1000), ...pascal("POINT")]);
+  const { result, warnings } = await parseSubject(createEmbeddedPayload("NB11", [
+    moduleSubsection(1, "C:\\build\\main.obj"),
+    { type: 0x125, module: 1, data: [...u32(1), ...procedure] },
+    sourceModuleSubsection(1, "C:\\src\\main.c"),
+    { type: 0x12a, module: 0xffff, data: hashedSymbols([...publicSymbol, ...udt]) },
+    { type: 0x121, module: 0xffff, data: u32(1) }
+  ]));
+
+  assert.deepEqual(warnings, []);
+  assert.ok(result && result.signature === "NB11");
+  assert.deepEqual(result.subsections.map(subsection => subsection.typeName),
+    ["sstModule", "sstAlignSym", "sstSrcModule", "sstGlobalPub", "sstTypes"]);
+  assert.deepEqual(result.modules, [{
+    index: 1,
+    name: "C:\\build\\main.obj",
+    library: 0,
+    segments: [{ segment: 1, offset: 0x10, size: 0x40 }]
+  }]);
+  assert.deepEqual(result.symbols, [
+    { kind: "procedure", name: "_main", segment: 1, offset: 0x10, module: 1 },
+    { kind: "public", name: "_main", segment: 1, offset: 0x10, module: null }
+  ]);
+  assert.deepEqual(result.sourceFiles, [{
+    module: 1,
+    name: "C:\\src\\main.c",
+    lines: [{ segment: 1, offset: 0x10, line: 12 }, { segment: 1, offset: 0x1c, line: 14 }]
+  }]);
+  assert.equal(result.symbolCount, 2);
+  assert.equal(result.lineCount, 2);
+});
+
+void test("parseCodeViewEntry decodes NB09 16-bit symbol records and warns about broken subsections", async () => {
+  const procedure = symbolRecord(0x0205, [...new Array<number>(24).fill(0), ...u32(0x20), ...u16(2), ...u16(0), 0,
+    ...pascal("WinMain")]);
+  const payload = createEmbeddedPayload("NB09", [
+    { type: 0x129, module: 0xffff, data: hashedSymbols([...procedure, ...u16(40), ...u16(0x0203)]) },
+    moduleSubsection(2, "startup.obj")
+  ]);
+  // Point the module subsection past the end of the payload.
+  const view = new DataView(payload.buffer);
+  const directory = view.getUint32(4, true);
+  view.setUint32(directory + 16 + 12 + 4, payload.length, true);
+
+  const { result, warnings } = await parseSubject(payload);
+
+  assert.ok(result && result.signature === "NB09");
+  assert.deepEqual(result.symbols, [{ kind: "procedure", name: "WinMain", segment: 2, offset: 0x20, module: null }]);
+  assert.deepEqual(result.modules, []);
+  assert.match(warnings.join(" | "), /symbol record runs past the end of its subsection/);
+  assert.match(warnings.join(" | "), /sstModule subsection lies outside the debug payload/);
+});
+
+void test("parseCodeViewEntry warns when the NB11 directory offset is outside the payload", async () => {
+  const payload = createEmbeddedPayload("NB11", []);
+  new DataView(payload.buffer).setUint32(4, 0x1000, true);
+
+  const { result, warnings } = await parseSubject(payload);
+
+  assert.ok(result && result.signature === "NB11");
+  assert.deepEqual(result.subsections, []);
+  assert.match(warnings.join(" | "), /directory offset is outside the debug payload/);
+});
@@ -55,7 +55,7 @@ void test("parseCodeViewEntry decodes legacy NB10 records", async () => {
 void test("parseCodeViewEntry reports unterminated NB10 paths but preserves text", async () => {
   const { result, warnings } = await parseSubject(createNb10Payload(new TextEncoder().encode("crtdll.pdb")));
 
-  assert.equal(result?.path, "crtdll.pdb");
+  assert.equal(result?.signature === "NB10" ? result.path : null, "crtdll.pdb");
   assert.match(warnings.join(" | "), /not NUL-terminated/i);
 });
 
@@ -73,7 +73,7 @@ void test("parseCodeViewEntry rejects unknown CodeView signatures with a warning
   const { result, warnings } = await parseSubject(payload);
 
   assert.equal(result, null);
-  assert.match(warnings.join(" | "), /signature is not RSDS or NB10/i);
+  assert.match(warnings.join(" | "), /signature is not RSDS, NB10, NB09 or NB11/i);
 });
 
 void test("parseCodeViewEntry rejects payloads that extend beyond file bounds", async () => {
@@ -84,3 +84,21 @@ void test("parseCodeViewEntry rejects payloads that extend beyond file bounds",
   assert.equal(result, null);
   assert.match(warnings.join(" | "), /outside file bounds/i);
 });
+
+void test("parseCodeViewEntry reads NB10 paths through AddressOfRawData when PointerToRawData is zero", async () => {
+  const payload = createNb10Payload(encodeNullTerminatedAscii("mapped.pdb"));
+  const subject = createExtraDebugPayloadSubject(payload, payload.length);
+  const warnings: string[] = [];
+  const result = await parseCodeViewEntry(
+    subject.file,
+    subject.file.size,
+    identityRvaToOff,
+    subject.offset,
+    0,
+    subject.declaredSize,
+    message => warnings.push(message)
+  );
+
+  assert.equal(result?.signature === "NB10" ? result.path : null, "mapped.pdb");
+  assert.deepEqual(warnings, []);
+});
@@ -80,7 +80,7 @@ void test("decodeDebugEntryPayload falls back to raw preview when known decoders
   );
 
   assert.deepEqual(result.rawPayload?.previewBytes.slice(0, 4), [0x4d, 0x41, 0x4c, 0x46]);
-  assert.match(warnings.join(" | "), /signature is not RSDS or NB10/i);
+  assert.match(warnings.join(" | "), /signature is not RSDS, NB10, NB09 or NB11/i);
 });
 
 void test("decodeDebugEntryPayload uses raw preview for unknown non-empty payload types", async () => {
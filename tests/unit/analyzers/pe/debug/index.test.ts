@@ -198,7 +198,7 @@ void test("parseDebugDirectory preserves every debug-directory entry instead of
       }
     ]
   );
-  assert.equal(expectDefined(result.entries?.[1]).codeView?.path, subject.path);
+  assert.equal(expectDefined(result.entries?.[1]).codeView, result.entry);
   assert.equal(expectDefined(result.entry).path, subject.path);
 });
 
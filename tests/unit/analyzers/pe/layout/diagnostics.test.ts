@@ -0,0 +1,53 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { collectPeLayoutDiagnostics } from "../../../../../analyzers/pe/layout/warnings.js";
+import {
+  createHeaderOnlyLayoutSubject,
+  createIndexedSection,
+  createWindowsLayoutSubject,
+  DEFAULT_FILE_ALIGNMENT,
+  DEFAULT_PE_HEADER_OFFSET,
+  DEFAULT_SECTION_ALIGNMENT,
+  getHeaderSpanSmallerThanDeclared
+} from "../../../../fixtures/pe-layout-warning-subject.js";
+
+// PE signature (4 bytes) and COFF file header (20 bytes) precede the optional header.
+const OPTIONAL_HEADER_OFFSET = DEFAULT_PE_HEADER_OFFSET + 4 + 20;
+const PE32_OPTIONAL_HEADER_SIZE = 0xe0;
+
+void test("collectPeLayoutDiagnostics points header warnings at the DOS and optional header fields", () => {
+  const headerOnly = createHeaderOnlyLayoutSubject(
+    DEFAULT_PE_HEADER_OFFSET + 2,
+    createIndexedSection(0, DEFAULT_SECTION_ALIGNMENT, 0)
+  );
+  assert.deepEqual(
+    collectPeLayoutDiagnostics(headerOnly).find(diagnostic => diagnostic.code === "pe.pe-header-misaligned"),
+    {
+      code: "pe.pe-header-misaligned",
+      severity: "warning",
+      message: "PE header offset e_lfanew 0x00000082 is not 8-byte aligned.",
+      offset: 0x3c
+    }
+  );
+
+  const pe = createWindowsLayoutSubject(
+    createIndexedSection(
+      0,
+      DEFAULT_SECTION_ALIGNMENT,
+      getHeaderSpanSmallerThanDeclared(1),
+      DEFAULT_FILE_ALIGNMENT,
+      getHeaderSpanSmallerThanDeclared(1)
+    )
+  );
+  pe.opt.SizeOfHeaders = getHeaderSpanSmallerThanDeclared(1);
+  const offsets = new Map(collectPeLayoutDiagnostics(pe).map(({ code, offset }) => [code, offset]));
+  assert.equal(offsets.get("pe.size-of-headers-too-small"), OPTIONAL_HEADER_OFFSET + 60);
+  // PointerToRawData is at +20 in the first section header, right after the optional header.
+  assert.equal(
+    offsets.get("pe.section-raw-pointer-misaligned"),
+    OPTIONAL_HEADER_OFFSET + PE32_OPTIONAL_HEADER_SIZE + 20
+  );
+  assert.equal(offsets.get("pe.section-raw-data-overlaps-headers"), getHeaderSpanSmallerThanDeclared(1));
+});
@@ -0,0 +1,76 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { analyzePolyglot } from "../../../../analyzers/polyglot/index.js";
+import { createGzipFile } from "../../../fixtures/gzip-fixtures.js";
+import { createVisiblePngFile } from "../../../fixtures/image-sample-files.js";
+import { createPeFile } from "../../../fixtures/sample-files-pe.js";
+import { createZipWithEntries } from "../../../fixtures/zip-fixtures.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+const bytesOf = async (file: File): Promise<Uint8Array> => new Uint8Array(await file.arrayBuffer());
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const ascii = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+void test("analyzePolyglot reports a PE with an appended ZIP as two separate claims", async () => {
+  const pe = await bytesOf(createPeFile());
+  const zip = await bytesOf(createZipWithEntries());
+  const analysis = await analyzePolyglot(new MockFile(concat(pe, zip), "setup.exe"));
+
+  assert.deepEqual(
+    analysis.interpretations.map(entry => [entry.label.split(" ")[0], entry.start, entry.end, entry.extentKnown]),
+    [["PE32", 0, 1024, true], ["ZIP", pe.length, pe.length + zip.length, true]]
+  );
+  assert.match(analysis.interpretations[1]!.evidence, /End of central directory/);
+  assert.deepEqual(analysis.overlaps, []);
+});
+
+void test("analyzePolyglot flags a ZIP that lies inside a PDF found within the first KiB", async () => {
+  const zip = await bytesOf(createZipWithEntries());
+  const pdfHead = ascii("%PDF-1.7\n1 0 obj\n<< /Length 0 >>\nstream\n");
+  const pdfTail = ascii("\nendstream\nendobj\ntrailer\n<< >>\n%%EOF\n");
+  const bytes = concat(ascii("junk!"), pdfHead, zip, pdfTail);
+  const analysis = await analyzePolyglot(new MockFile(bytes, "both.pdf"));
+
+  const [pdf, archive] = analysis.interpretations;
+  assert.equal(pdf?.label, "PDF document (v1.7)");
+  assert.equal(pdf?.start, 5);
+  assert.equal(pdf?.end, bytes.length);
+  assert.match(pdf?.evidence ?? "", /offset 0x5/);
+  assert.equal(archive?.start, 5 + pdfHead.length);
+  assert.deepEqual(analysis.overlaps, [
+    { first: 0, second: 1, start: 5 + pdfHead.length, end: 5 + pdfHead.length + zip.length }
+  ]);
+});
+
+void test("analyzePolyglot reads extents of signature hits and leaves unknown ones out of overlaps", async () => {
+  const png = await bytesOf(createVisiblePngFile());
+  const pngAnalysis = await analyzePolyglot(new MockFile(concat(png, new Uint8Array(7))));
+  assert.deepEqual(pngAnalysis.interpretations.map(entry => [entry.label, entry.end]), [["PNG image", png.length]]);
+
+  const gzip = await bytesOf(createGzipFile({ payload: ascii("hello") }));
+  const zip = await bytesOf(createZipWithEntries());
+  const gzipAnalysis = await analyzePolyglot(new MockFile(concat(gzip, zip)));
+  assert.equal(gzipAnalysis.interpretations.length, 2);
+  assert.equal(gzipAnalysis.interpretations[0]?.label, "gzip compressed data");
+  assert.equal(gzipAnalysis.interpretations[0]?.extentKnown, false);
+  assert.deepEqual(gzipAnalysis.overlaps, []);
+});
+
+void test("analyzePolyglot reports a ZIP found by both its local header and end record once", async () => {
+  const analysis = await analyzePolyglot(createZipWithEntries());
+  assert.equal(analysis.interpretations.length, 1);
+  assert.equal(analysis.interpretations[0]?.start, 0);
+  assert.deepEqual(await analyzePolyglot(new MockFile(new Uint8Array(0))), { interpretations: [], overlaps: [] });
+});
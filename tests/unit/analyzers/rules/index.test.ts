@@ -0,0 +1,70 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { ParseForUiResult } from "../../../../analyzers/analyzer-types.js";
+import type { ElfParseResult } from "../../../../analyzers/elf/types.js";
+import { evaluateRules } from "../../../../analyzers/rules/index.js";
+import { parseRuleSource } from "../../../../analyzers/rules/parser.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+const NO_RESULT: ParseForUiResult = { analyzer: null, parsed: null };
+
+const textFile = (text: string): MockFile =>
+  new MockFile(Uint8Array.from(text, char => char.charCodeAt(0)), "sample.bin");
+
+const matchedRuleNames = async (
+  source: string,
+  file: MockFile,
+  result: ParseForUiResult = NO_RESULT
+): Promise<string[]> => {
+  const ruleSet = parseRuleSource(source);
+  assert.deepEqual(ruleSet.issues, []);
+  const evaluation = await evaluateRules(ruleSet, file, result);
+  return evaluation?.matches.map(match => match.rule.name) ?? [];
+};
+
+void test("evaluateRules reports matched rules with their string offsets", async () => {
+  const file = textFile("MZ..abcabc..abc");
+  const ruleSet = parseRuleSource(`
+    rule three_abc { strings: $a = "abc" condition: #a == 3 and $a at 4 and $a in (10..12) }
+    rule header { strings: $mz = { 4D 5A } condition: $mz at 0 and uint16(0) == 0x5A4D }
+    rule absent { strings: $x = "xyz" $a = "abc" condition: all of them }
+  `);
+  const evaluation = await evaluateRules(ruleSet, file, NO_RESULT);
+  assert.deepEqual(evaluation?.matches.map(match => [match.rule.name, match.matches.map(hit => hit.offset)]), [
+    ["three_abc", [4, 7, 12]],
+    ["header", [0]]
+  ]);
+  assert.equal(evaluation?.ruleCount, 3);
+  assert.equal(evaluation?.scannedBytes, file.size);
+  assert.deepEqual(evaluation?.matches[1]?.matches[0], { id: "mz", offset: 0, length: 2, preview: "MZ" });
+});
+
+void test("evaluateRules tests fields of the file and the parse result", async () => {
+  const elf = {
+    header: { type: 3, machine: 62, entry: 0x1000n, flags: 0 },
+    sections: [
+      { name: ".text", type: 1, offset: 2n, size: 4n },
+      { name: ".bss", type: 8, offset: 0n, size: 100n }
+    ],
+    dynamic: { needed: ["libc.so.6", "libcrypto.so.3"], soname: null },
+    interpreter: { path: "/lib64/ld-linux-x86-64.so.2", issues: [] }
+  } as unknown as ElfParseResult;
+  const result: ParseForUiResult = { analyzer: "elf", parsed: elf };
+  const names = await matchedRuleNames(`
+    rule crypto { condition: elf.dynamic.needed contains "libcrypto" }
+    rule not_exe { condition: elf.type != 2 and elf.entry_point == 0x1000 }
+    rule interp { condition: elf.interpreter matches /ld-linux/ }
+    rule generic { condition: elf.header.machine == 62 and defined elf.interpreter.path }
+    rule in_text { strings: $a = "cd" condition: $a in section ".text" }
+    rule in_bss { strings: $a = "ab" condition: $a in section ".bss" }
+    rule no_soname { condition: not defined elf.soname and filesize < 10 and file.name == "SAMPLE.BIN" }
+  `, textFile("abcdef"), result);
+  assert.deepEqual(names, ["crypto", "not_exe", "interp", "generic", "in_text", "no_soname"]);
+});
+
+void test("evaluateRules stops when the evaluation is superseded", async () => {
+  const ruleSet = parseRuleSource("rule any { strings: $a = \"a\" condition: $a }");
+  assert.equal(await evaluateRules(ruleSet, textFile("a"), NO_RESULT, () => false), null);
+});
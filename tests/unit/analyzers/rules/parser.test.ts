@@ -0,0 +1,59 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseRuleSource } from "../../../../analyzers/rules/parser.js";
+
+void test("parseRuleSource reads tags, meta, strings and the condition of a rule", () => {
+  const { rules, issues } = parseRuleSource(`
+    import "pe"
+    // Comments are skipped.
+    private rule Suspicious_Loader : loader windows {
+      meta:
+        author = "analyst"
+        severity = 3
+      strings:
+        $mz = { 4D 5A }
+        $api = "VirtualAlloc" wide ascii nocase
+        $url = /https?:\\/\\/[a-z.]+/i
+      condition:
+        $mz at 0 and ($api or #url > 2) and pe.imports contains "kernel32.dll"
+    }
+  `);
+  assert.deepEqual(issues, []);
+  assert.equal(rules.length, 1);
+  const [rule] = rules;
+  assert.equal(rule?.name, "Suspicious_Loader");
+  assert.deepEqual(rule?.tags, ["loader", "windows"]);
+  assert.deepEqual(rule?.meta, [["author", "analyst"], ["severity", "3"]]);
+  assert.deepEqual(rule?.patterns.map(pattern => [pattern.id, pattern.kind]), [
+    ["mz", "hex"],
+    ["api", "text"],
+    ["url", "regex"]
+  ]);
+  assert.equal(rule?.condition.kind, "and");
+});
+
+void test("parseRuleSource reports broken rules by line and keeps loading the rest", () => {
+  const { rules, issues } = parseRuleSource([
+    "rule first { condition: $missing }",
+    "rule second { strings: $a = \"x\" fancy condition: $a }",
+    "rule third { condition: filesize > 1KB }",
+    "rule third { condition: true }"
+  ].join("\n"));
+  assert.deepEqual(rules.map(rule => rule.name), ["third"]);
+  assert.deepEqual(issues, [
+    "Line 1: undefined string $missing",
+    "Line 2: unsupported string modifier \"fancy\"",
+    "Line 4: duplicate rule name \"third\""
+  ]);
+  assert.deepEqual(rules[0]?.condition, { kind: "field", field: "file.size", operator: ">", value: 1024 });
+});
+
+void test("parseRuleSource rejects rules without a condition or with impossible string counts", () => {
+  const { rules, issues } = parseRuleSource(
+    "rule empty { strings: $a = \"a\" }\nrule many { strings: $a = \"a\" condition: 2 of them }"
+  );
+  assert.deepEqual(rules, []);
+  assert.deepEqual(issues, ["Line 1: rule empty has no condition", "Line 2: 2 of 1 strings can never match"]);
+});
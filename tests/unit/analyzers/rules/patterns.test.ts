@@ -0,0 +1,32 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { compileHexPattern, compileTextPattern } from "../../../../analyzers/rules/patterns.js";
+import { decodeLatin1 } from "../../../../binary-utils.js";
+
+const matchOffsets = (regex: RegExp, bytes: number[]): number[] =>
+  [...decodeLatin1(Uint8Array.from(bytes)).matchAll(regex)].map(match => match.index);
+
+void test("compileHexPattern supports wildcards, nibble wildcards, jumps and alternatives", () => {
+  const pattern = compileHexPattern("a", " E8 ?? [1-2] ( 4? | ?5 ) C3 ", 1);
+  assert.equal(pattern.source, "{ E8 ?? [1-2] ( 4? | ?5 ) C3 }");
+  assert.deepEqual(matchOffsets(pattern.regex, [0xe8, 0x00, 0x01, 0x4f, 0xc3]), [0]);
+  assert.deepEqual(matchOffsets(pattern.regex, [0x90, 0xe8, 0x00, 0x01, 0x02, 0x95, 0xc3]), [1]);
+  assert.deepEqual(matchOffsets(pattern.regex, [0xe8, 0x00, 0x01, 0x02, 0x03, 0x45, 0xc3]), []);
+});
+
+void test("compileHexPattern rejects malformed hex strings", () => {
+  assert.throws(() => compileHexPattern("a", "4D 5", 3), /Line 3: unexpected "5"/);
+  assert.throws(() => compileHexPattern("a", "4D [3-1] 5A", 3), /bounds reversed/);
+  assert.throws(() => compileHexPattern("a", "( 4D", 3), /unbalanced parentheses/);
+  assert.throws(() => compileHexPattern("a", "[2]", 3), /has no bytes/);
+});
+
+void test("compileTextPattern matches ASCII and UTF-16LE forms with nocase and fullword", () => {
+  const modifiers = new Set(["ascii", "wide", "nocase", "fullword"] as const);
+  const pattern = compileTextPattern("a", "cmd", modifiers, 1);
+  const text = Array.from("xcmd CMD.exe c\0m\0d\0", char => char.charCodeAt(0));
+  assert.deepEqual(matchOffsets(pattern.regex, text), [5, 13]);
+  assert.equal(pattern.source, "\"cmd\" ascii wide nocase fullword");
+});
@@ -0,0 +1,27 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { compileTextPattern } from "../../../../analyzers/rules/patterns.js";
+import { RULE_MATCH_LIMIT, RULE_SCAN_CHUNK_BYTES, scanRulePatterns } from "../../../../analyzers/rules/scan.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+const pattern = (text: string) => compileTextPattern("a", text, new Set(), 1);
+
+void test("scanRulePatterns finds a match that crosses a chunk boundary once", async () => {
+  const bytes = new Uint8Array(RULE_SCAN_CHUNK_BYTES + 16);
+  bytes.set([0x4b, 0x45, 0x59], RULE_SCAN_CHUNK_BYTES - 1);
+  const key = pattern("KEY");
+  const result = await scanRulePatterns(new MockFile(bytes), [key]);
+  assert.deepEqual(result?.matches.get(key)?.map(match => match.offset), [RULE_SCAN_CHUNK_BYTES - 1]);
+  assert.equal(result?.scannedBytes, bytes.length);
+});
+
+void test("scanRulePatterns records overlapping matches up to the match limit", async () => {
+  const repeated = pattern("aa");
+  const overlapping = await scanRulePatterns(new MockFile(new Uint8Array([0x61, 0x61, 0x61])), [repeated]);
+  assert.deepEqual(overlapping?.matches.get(repeated)?.map(match => match.offset), [0, 1]);
+  const many = await scanRulePatterns(new MockFile(new Uint8Array(RULE_MATCH_LIMIT + 10).fill(0x61)), [repeated]);
+  assert.equal(many?.matches.get(repeated)?.length, RULE_MATCH_LIMIT);
+  assert.ok(many?.truncated.has(repeated));
+});
@@ -40,12 +40,20 @@ void test("parseSqlite reports invalid page sizes and skips schema decoding", as
   assert.strictEqual(parsed.header.pageSizeBytes, null);
   assert.strictEqual(parsed.schemaPage, null);
   assert.ok(parsed.issues.some(issue => issue.toLowerCase().includes("page size")));
+  assert.deepEqual(
+    parsed.diagnostics.map(({ code, offset }) => [code, offset]),
+    [["sqlite.page-size-invalid", 16], ["sqlite.schema-page-skipped", 16]]
+  );
 });
 
 void test("parseSqlite keeps decoding when encoding or payloads are problematic", async () => {
   const unknownEncoding = await parseSqlite(createSqliteWithUnknownEncoding());
   assert.ok(unknownEncoding);
   assert.ok(unknownEncoding.issues.some(issue => issue.toLowerCase().includes("encoding")));
+  const encodingDiagnostic = unknownEncoding.diagnostics.find(
+    diagnostic => diagnostic.code === "sqlite.text-encoding-unknown"
+  );
+  assert.strictEqual(encodingDiagnostic?.offset, 56);
 
   const truncatedCell = await parseSqlite(createSqliteWithTruncatedCell());
   assert.ok(truncatedCell);
@@ -21,10 +21,10 @@ const createRecordPayload = (): DataView => {
 };
 
 void test("parseRecord decodes diverse serial types", () => {
-  const issues: string[] = [];
+  const log = { issues: [] as string[], diagnostics: [] };
   const columnNames = ["null", "float", "c0", "c1", "text", "blob"];
   const view = createRecordPayload();
-  const record = parseRecord(view, 0, view.byteLength, "UTF-8", issues, columnNames);
+  const record = parseRecord(view, 0, view.byteLength, "UTF-8", log, columnNames);
   assert.strictEqual(record.headerTruncated, false);
   assert.strictEqual(record.values[0]?.value, null);
   assert.strictEqual(record.values[1]?.value, 1.5);
@@ -32,7 +32,7 @@ void test("parseRecord decodes diverse serial types", () => {
   assert.strictEqual(record.values[3]?.value, 1);
   assert.strictEqual(record.values[4]?.value, "");
   assert.ok(record.values[5]?.value instanceof ArrayBuffer);
-  assert.ok(issues.length === 0);
+  assert.ok(log.issues.length === 0);
 });
 
 void test("parseRecord marks truncated headers when payload is short", () => {
@@ -40,8 +40,8 @@ void test("parseRecord marks truncated headers when payload is short", () => {
   const view = new DataView(buffer);
   view.setUint8(0, 10); // header size greater than payload
   view.setUint8(1, 1); // one serial type
-  const issues: string[] = [];
-  const record = parseRecord(view, 0, view.byteLength, "UTF-8", issues, ["only"]);
+  const log = { issues: [] as string[], diagnostics: [] };
+  const record = parseRecord(view, 0, view.byteLength, "UTF-8", log, ["only"]);
   assert.strictEqual(record.headerTruncated, true);
   assert.strictEqual(record.values[0]?.truncated, true);
 });
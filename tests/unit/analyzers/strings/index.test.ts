@@ -0,0 +1,88 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createFileRangeReader } from "../../../../analyzers/file-range-reader.js";
+import {
+  STRING_ENCODINGS,
+  STRING_SCAN_CHUNK_BYTES,
+  STRING_TEXT_LIMIT,
+  extractStrings,
+  type StringEncoding
+} from "../../../../analyzers/strings/index.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+const ascii = (text: string): number[] => Array.from(text, char => char.charCodeAt(0));
+const utf16le = (text: string): number[] => Array.from(text, char => [char.charCodeAt(0), 0]).flat();
+const utf16be = (text: string): number[] => Array.from(text, char => [0, char.charCodeAt(0)]).flat();
+
+const extract = async (bytes: Uint8Array, minLength = 4, encodings: readonly StringEncoding[] = STRING_ENCODINGS) => {
+  const file = new MockFile(bytes);
+  const result = await extractStrings(createFileRangeReader(file, 0, file.size), { minLength, encodings });
+  assert.ok(result);
+  return result;
+};
+
+void test("extractStrings reports ASCII, UTF-8 and UTF-16 strings in offset order", async () => {
+  const bytes = new Uint8Array([
+    0xff, ...ascii("hello"), 0x00, 0xff,
+    ...new TextEncoder().encode("grüße"), 0xff,
+    ...utf16le("wide!"), 0x01,
+    0x01, ...utf16be("BIG!")
+  ]);
+  const result = await extract(bytes);
+  assert.deepEqual(result.strings.map(entry => [entry.offset, entry.encoding, entry.text]), [
+    [1, "ascii", "hello"],
+    [8, "utf8", "grüße"],
+    [16, "utf16le", "wide!"],
+    [28, "utf16be", "BIG!"]
+  ]);
+  assert.equal(result.strings[1]?.byteLength, 7);
+  assert.equal(result.truncated, false);
+  assert.equal(result.scannedBytes, bytes.length);
+});
+
+void test("extractStrings honours the minimum length and the selected encodings", async () => {
+  const bytes = new Uint8Array([...ascii("abc"), 0x00, ...ascii("abcdef"), 0xff, ...utf16le("wide text")]);
+  assert.deepEqual((await extract(bytes, 4)).strings.map(entry => entry.text), ["abcdef", "wide text"]);
+  assert.deepEqual((await extract(bytes, 3, ["ascii"])).strings.map(entry => entry.text), ["abc", "abcdef"]);
+  assert.deepEqual((await extract(bytes, 7, ["ascii", "utf16le"])).strings.map(entry => entry.text), ["wide text"]);
+});
+
+void test("extractStrings joins a string that crosses a chunk boundary", async () => {
+  const bytes = new Uint8Array(STRING_SCAN_CHUNK_BYTES + 32);
+  bytes.set(ascii("boundary string"), STRING_SCAN_CHUNK_BYTES - 4);
+  const result = await extract(bytes, 4, ["ascii"]);
+  assert.deepEqual(result.strings.map(entry => [entry.offset, entry.byteLength, entry.text]), [
+    [STRING_SCAN_CHUNK_BYTES - 4, 15, "boundary string"]
+  ]);
+});
+
+void test("extractStrings joins a string longer than the read overlap across a chunk boundary", async () => {
+  const start = STRING_SCAN_CHUNK_BYTES - 100;
+  const length = 70 * 1024;
+  const text = Array.from({ length }, (_, index) => String.fromCharCode(0x61 + (index % 26))).join("");
+  const bytes = new Uint8Array(start + length + 8);
+  bytes.set(ascii(text), start);
+  const result = await extract(bytes, 4, ["ascii"]);
+  assert.deepEqual(result.strings.map(entry => [entry.offset, entry.byteLength, entry.text]), [
+    [start, length, text.slice(0, STRING_TEXT_LIMIT)]
+  ]);
+});
+
+void test("extractStrings keeps one reading of UTF-16 text shifted by a byte", async () => {
+  // Read from offset 1, "texts" in UTF-16LE is "exts" in UTF-16BE.
+  const bytes = new Uint8Array(utf16le("texts"));
+  const result = await extract(bytes, 4, ["utf16le", "utf16be"]);
+  assert.deepEqual(result.strings.map(entry => [entry.offset, entry.encoding]), [[0, "utf16le"]]);
+});
+
+void test("extractStrings returns null when superseded", async () => {
+  const file = new MockFile(new Uint8Array(ascii("superseded")));
+  const result = await extractStrings(createFileRangeReader(file, 0, file.size), {
+    minLength: 4,
+    encodings: STRING_ENCODINGS,
+    isCurrent: () => false
+  });
+  assert.equal(result, null);
+});
@@ -0,0 +1,124 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseForUi } from "../../../../analyzers/parse-for-ui.js";
+import { describeStructures, findStructuresAt } from "../../../../analyzers/structure-map/index.js";
+import { createElfFile } from "../../../fixtures/elf-sample-file.js";
+import { createMachOUniversalFile } from "../../../fixtures/macho-fixtures.js";
+import { createPdfFile } from "../../../fixtures/document-sample-files.js";
+import { createPdfWithCompressedXrefStream } from "../../../fixtures/pdf-fixtures.js";
+import { createVisiblePngFile } from "../../../fixtures/image-sample-files.js";
+import { createMp4File } from "../../../fixtures/mp4-fixtures.js";
+import { createSevenZipFile } from "../../../fixtures/rar-sevenzip-fixtures.js";
+import { createPeFile } from "../../../fixtures/sample-files-pe.js";
+import { createZipWithEntries } from "../../../fixtures/zip-fixtures.js";
+import type { MockFile } from "../../../helpers/mock-file.js";
+
+const describeFile = async (file: MockFile) => describeStructures(await parseForUi(file), file.size);
+
+const labelsAt = (ranges: Awaited<ReturnType<typeof describeFile>>, offset: number): string[] =>
+  findStructuresAt(ranges, offset).map(range => range.label);
+
+void test("describeStructures maps PE headers, sections and data directories", async () => {
+  const ranges = await describeFile(createPeFile());
+  assert.deepEqual(ranges.slice(0, 3).map(range => range.label), ["DOS header", "PE signature", "COFF file header"]);
+  assert.deepEqual(labelsAt(ranges, 0x3c), ["DOS header"]);
+  assert.deepEqual(labelsAt(ranges, 0x300), ["Section .text", "IAT directory"]);
+  assert.deepEqual(labelsAt(ranges, 0x400), ["Overlay"]);
+  assert.equal(findStructuresAt(ranges, 0x400)[0]?.unexplained, true);
+});
+
+void test("describeStructures maps ELF tables inside the segments that load them", async () => {
+  const file = createElfFile();
+  const ranges = await describeFile(file);
+  assert.deepEqual(labelsAt(ranges, 70), ["Segment 0 (PT_LOAD)", "Program header table"]);
+  assert.deepEqual(labelsAt(ranges, file.size - 1), ["Segment 0 (PT_LOAD)", "Section .shstrtab"]);
+});
+
+void test("describeStructures maps Mach-O slices with their headers and segments", async () => {
+  const ranges = await describeFile(createMachOUniversalFile());
+  assert.deepEqual(labelsAt(ranges, 8), ["Fat header"]);
+  assert.deepEqual(labelsAt(ranges, 8200), ["Slice 1", "Slice 1: Segment __TEXT", "Slice 1: Mach-O header"]);
+  assert.deepEqual(labelsAt(ranges, 9300), ["Slice 1", "Slice 1: Segment __LINKEDIT"]);
+});
+
+void test("describeStructures maps ZIP local headers, data and directory records", async () => {
+  const file = createZipWithEntries();
+  const ranges = await describeFile(file);
+  assert.deepEqual(labelsAt(ranges, 0), ["Local header: stored.txt"]);
+  assert.deepEqual(labelsAt(ranges, 40), ["File data: stored.txt"]);
+  assert.deepEqual(labelsAt(ranges, file.size - 1), ["End of central directory"]);
+});
+
+void test("describeStructures maps MP4 top-level boxes", async () => {
+  const file = createMp4File();
+  const ranges = await describeFile(file);
+  assert.deepEqual(ranges.map(range => range.label), ["Box ftyp", "Box moov", "Box mdat"]);
+  assert.deepEqual(labelsAt(ranges, file.size - 1), ["Box mdat"]);
+});
+
+void test("describeStructures maps the PNG signature and every chunk", async () => {
+  const file = createVisiblePngFile();
+  const ranges = await describeFile(file);
+  assert.deepEqual(labelsAt(ranges, 0), ["PNG signature"]);
+  assert.deepEqual(labelsAt(ranges, 8), ["Chunk IHDR"]);
+  assert.deepEqual(labelsAt(ranges, file.size - 1), ["Chunk IEND"]);
+});
+
+void test("describeStructures maps PDF objects up to the cross-reference section and %%EOF", async () => {
+  const file = createPdfFile();
+  const ranges = await describeFile(file);
+  assert.deepEqual(ranges.map(range => range.label), [
+    "PDF header", "Object 1 0", "Object 2 0", "Object 3 0", "Object 4 0", "Cross-reference table and trailer"
+  ]);
+  assert.equal(ranges[ranges.length - 1]?.end, file.size);
+});
+
+void test("describeStructures maps PDF objects listed by a cross-reference stream", async () => {
+  const file = createPdfWithCompressedXrefStream();
+  const ranges = await describeFile(file);
+  assert.deepEqual(ranges.map(range => range.label), [
+    "PDF header", "Object 1 0", "Object 2 0", "Object 4 0", "Cross-reference stream and trailer"
+  ]);
+  assert.deepEqual(ranges.slice(1).map(range => range.start), ranges.slice(0, -1).map(range => range.end));
+  assert.equal(ranges[ranges.length - 1]?.end, file.size);
+});
+
+void test("describeStructures maps the 7z signature header and next header", async () => {
+  const ranges = await describeFile(createSevenZipFile());
+  assert.deepEqual(ranges, [
+    { start: 0, end: 32, label: "Signature header" },
+    { start: 32, end: 34, label: "Next header" }
+  ]);
+});
+
+void test("describeStructures places 7z pack streams after the signature header", () => {
+  const ranges = describeStructures({
+    analyzer: "sevenZip",
+    parsed: {
+      startHeader: { absoluteNextHeaderOffset: 142n, nextHeaderSize: 30n },
+      nextHeader: { parsed: { kind: "header", sections: { mainStreamsInfo: { packInfo: {
+        packPos: 10n,
+        packSizes: [40n, 60n]
+      } } } } }
+    } as never
+  }, 200);
+  assert.deepEqual(ranges.map(({ start, end, label }) => [start, end, label]), [
+    [0, 32, "Signature header"],
+    [42, 82, "Pack stream 0"],
+    [82, 142, "Pack stream 1"],
+    [142, 172, "Next header"]
+  ]);
+});
+
+void test("describeStructures clips ranges to the file and ignores formats without a map", () => {
+  const ranges = describeStructures({
+    analyzer: "zip",
+    parsed: {
+      eocd: { offset: 10, commentLength: 100 }
+    } as never
+  }, 40);
+  assert.deepEqual(ranges, [{ start: 10, end: 40, label: "End of central directory" }]);
+  assert.deepEqual(describeStructures({ analyzer: null, parsed: null }, 40), []);
+});
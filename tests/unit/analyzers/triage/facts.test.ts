@@ -0,0 +1,51 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { ParseForUiResult } from "../../../../analyzers/analyzer-types.js";
+import { describeTriageFacts } from "../../../../analyzers/triage/facts.js";
+
+const asResult = (analyzer: string, parsed: unknown): ParseForUiResult =>
+  ({ analyzer, parsed }) as unknown as ParseForUiResult;
+
+void test("describeTriageFacts summarizes Windows PE images", () => {
+  const facts = describeTriageFacts(asResult("pe", {
+    coff: { Machine: 0x8664 },
+    opt: { Magic: 0x20b, Subsystem: 2 },
+    hasCert: true,
+    packers: {
+      reports: [
+        { id: "upx", warnings: [], findings: [{ name: "UPX" }] },
+        { id: "nsis-installer", warnings: [], findings: [{ name: "NSIS" }, { name: "NSIS" }] }
+      ]
+    }
+  }));
+  assert.deepEqual(facts, {
+    analyzer: "pe",
+    machine: "x86-64 (AMD64)",
+    subsystem: "Windows GUI",
+    signed: true,
+    packer: "UPX, NSIS",
+    interpreter: null,
+    archiveEntries: null
+  });
+});
+
+void test("describeTriageFacts reads ELF machine and interpreter", () => {
+  const facts = describeTriageFacts(asResult("elf", {
+    header: { machine: 62, machineName: "AMD x86-64" },
+    interpreter: { path: "/lib64/ld-linux-x86-64.so.2" }
+  }));
+  assert.equal(facts.machine, "AMD x86-64");
+  assert.equal(facts.interpreter, "/lib64/ld-linux-x86-64.so.2");
+  assert.equal(facts.signed, null);
+});
+
+void test("describeTriageFacts counts archive entries", () => {
+  assert.equal(describeTriageFacts(asResult("zip", { centralDirectory: { entries: [{}, {}] } })).archiveEntries, 2);
+  assert.equal(describeTriageFacts(asResult("zip", { centralDirectory: null })).archiveEntries, null);
+  assert.equal(describeTriageFacts(asResult("sevenZip", { structure: { files: [{}] } })).archiveEntries, 1);
+  assert.equal(describeTriageFacts(asResult("tar", { entries: [{}, {}, {}] })).archiveEntries, 3);
+  assert.equal(describeTriageFacts(asResult("iso9660", { traversal: { scannedFiles: 7 } })).archiveEntries, 7);
+  assert.deepEqual(describeTriageFacts({ analyzer: null, parsed: null }).analyzer, null);
+});
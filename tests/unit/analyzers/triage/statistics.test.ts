@@ -0,0 +1,100 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { renderTriageCsv, renderTriageJsonLines } from "../../../../analyzers/triage/export.js";
+import { summarizeTriage } from "../../../../analyzers/triage/statistics.js";
+import type { TriageFacts, TriageRecord } from "../../../../analyzers/triage/types.js";
+
+const peFacts = (signed: boolean): TriageFacts => ({
+  analyzer: "pe",
+  machine: "x86-64 (AMD64)",
+  subsystem: "Windows CUI",
+  signed,
+  packer: null,
+  interpreter: null,
+  archiveEntries: null
+});
+
+const createRecord = (path: string, overrides: Partial<TriageRecord>): TriageRecord => ({
+  path,
+  size: 100,
+  mimeType: null,
+  lastModified: null,
+  detectedType: "PE32+ executable",
+  error: null,
+  hashes: {},
+  knownHash: null,
+  facts: null,
+  ...overrides
+});
+
+const records: TriageRecord[] = [
+  createRecord("a.exe", { size: 2 * 1024 * 1024, facts: peFacts(true) }),
+  createRecord("b.exe", { size: 10, facts: peFacts(false) }),
+  createRecord("notes.txt", { detectedType: "Text file", facts: { ...peFacts(false), analyzer: null, signed: null } }),
+  createRecord("locked.bin", { size: null, detectedType: null, error: "Unable to read: denied" })
+];
+
+void test("summarizeTriage groups readable files by type, size and signing status", () => {
+  const statistics = summarizeTriage(records);
+  assert.equal(statistics.files, 3);
+  assert.equal(statistics.unreadable, 1);
+  assert.equal(statistics.totalBytes, 2 * 1024 * 1024 + 110);
+  assert.deepEqual(statistics.byType, [
+    { label: "PE32+ executable", count: 2, bytes: 2 * 1024 * 1024 + 10 },
+    { label: "Text file", count: 1, bytes: 100 }
+  ]);
+  assert.deepEqual(statistics.bySize.map(bucket => [bucket.label, bucket.count]), [
+    ["Under 4 KB", 2],
+    ["4 KB to 1 MB", 0],
+    ["1 MB to 16 MB", 1],
+    ["16 MB to 256 MB", 0],
+    ["256 MB and larger", 0]
+  ]);
+  assert.deepEqual(statistics.bySigning.map(bucket => [bucket.label, bucket.count]), [
+    ["Not a PE file", 1],
+    ["Signed", 1],
+    ["Unsigned", 1]
+  ]);
+  assert.deepEqual(summarizeTriage([createRecord("x", {})]).bySigning, [{ label: "Not parsed", count: 1, bytes: 100 }]);
+});
+
+void test("renderTriageCsv writes a header and quotes fields that need it", () => {
+  const csv = renderTriageCsv([
+    createRecord("dir/\"odd\", name.exe", { hashes: { md5: "900150983cd24fb0d6963f7d28e17f72" }, facts: peFacts(true) })
+  ]);
+  const [header, row, trailing] = csv.split("\r\n");
+  assert.equal(
+    header,
+    "path,size,mime_type,modified,detected_type,error,md5,sha1,sha256,known_hash," +
+      "analyzer,machine,subsystem,signed,packer,interpreter,archive_entries"
+  );
+  assert.equal(
+    row,
+    "\"dir/\"\"odd\"\", name.exe\",100,,,PE32+ executable,,900150983cd24fb0d6963f7d28e17f72,,,," +
+      "pe,x86-64 (AMD64),Windows CUI,true,,,"
+  );
+  assert.equal(trailing, "");
+});
+
+void test("renderTriageCsv neutralizes text cells a spreadsheet would run as formulas", () => {
+  const paths = ["=HYPERLINK(\"x\")", "+1", "-2", "@SUM(A1)", "\tpad", "\rline", "a=b"];
+  const rows = renderTriageCsv(paths.map(path => createRecord(path, { size: -1 }))).split("\r\n").slice(1, -1);
+  assert.deepEqual(rows.map(row => row.slice(0, row.indexOf(",-1,"))), [
+    "\"'=HYPERLINK(\"\"x\"\")\"",
+    "'+1",
+    "'-2",
+    "'@SUM(A1)",
+    "'\tpad",
+    "\"'\rline\"",
+    "a=b"
+  ]);
+});
+
+void test("renderTriageJsonLines writes one JSON object per record", () => {
+  const lines = renderTriageJsonLines(records.slice(0, 2)).split("\n");
+  assert.equal(lines.length, 3);
+  assert.equal(lines[2], "");
+  assert.deepEqual(JSON.parse(lines[0]!), records[0]);
+});
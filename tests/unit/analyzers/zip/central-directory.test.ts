@@ -2,6 +2,7 @@
 
 import assert from "node:assert/strict";
 import { test } from "node:test";
+import type { DiagnosticLog } from "../../../../analyzers/diagnostics/index.js";
 import { annotateEntryDataOffsets, parseCentralDirectoryEntries } from "../../../../analyzers/zip/central-directory.js";
 import type { ZipCentralDirectoryEntry } from "../../../../analyzers/zip/index.js";
 import { MockFile } from "../../../helpers/mock-file.js";
@@ -33,15 +34,27 @@ const buildCdEntry = (): DataView => {
 
 void test("parseCentralDirectoryEntries reads name, comment and ZIP64 extra", () => {
   const dv = buildCdEntry();
-  const issues: string[] = [];
-  const entries = parseCentralDirectoryEntries(dv, issues);
+  const log: DiagnosticLog = { issues: [], diagnostics: [] };
+  const entries = parseCentralDirectoryEntries(dv, 0, log);
   assert.strictEqual(entries.length, 1);
   const [entry] = entries;
   if (!entry) assert.fail("Entry not parsed");
   assert.strictEqual(entry.fileName, "file.txt");
   assert.strictEqual(entry.comment, "note");
   assert.strictEqual(typeof entry.uncompressedSize, "number");
-  assert.deepEqual(issues, []);
+  assert.deepEqual(log.issues, []);
+});
+
+void test("parseCentralDirectoryEntries reports a truncated entry at its file offset", () => {
+  const dv = buildCdEntry();
+  const log: DiagnosticLog = { issues: [], diagnostics: [] };
+  const truncated = new DataView(dv.buffer, dv.byteOffset, dv.byteLength - 2);
+  assert.deepEqual(parseCentralDirectoryEntries(truncated, 0x400, log), []);
+  assert.deepEqual(log.diagnostics.map(({ code, severity, offset, length }) => ({ code, severity, offset, length })), [
+    { code: "zip.central-directory-entry-truncated", severity: "error", offset: 0x400, length: dv.byteLength - 2 },
+    { code: "zip.central-directory-unexpected-data", severity: "warning", offset: 0x400, length: dv.byteLength - 2 }
+  ]);
+  assert.deepEqual(log.issues, log.diagnostics.map(diagnostic => diagnostic.message));
 });
 
 void test("annotateEntryDataOffsets sets data offsets and errors for bad headers", async () => {
@@ -3,6 +3,7 @@
 import assert from "node:assert/strict";
 import { test } from "node:test";
 import { MockFile } from "../../../helpers/mock-file.js";
+import type { DiagnosticLog } from "../../../../analyzers/diagnostics/index.js";
 import { findZip64Locator, parseEocd, parseZip64Eocd, readTailForEocd } from "../../../../analyzers/zip/eocd.js";
 
 const makeTail = async (bytes: Uint8Array) => {
@@ -47,10 +48,19 @@ void test("parseZip64Eocd validates signature and size", async () => {
   dv.setUint16(0x2c, 45, true);
   dv.setUint16(0x2e, 46, true);
   const file = new MockFile(bytes);
-  const issues: string[] = [];
+  const log: DiagnosticLog = { issues: [], diagnostics: [] };
   const locator = { offset: 0, diskWithEocd: 0, zip64EocdOffset: 0x20n, totalDisks: 1 };
-  const parsed = await parseZip64Eocd(file, locator, issues);
+  const parsed = await parseZip64Eocd(file, locator, log);
   assert.ok(parsed);
   assert.strictEqual(parsed?.versionMadeBy, 45);
-  assert.deepEqual(issues, []);
+  assert.deepEqual(log.issues, []);
+  dv.setUint32(0x20, 0, true);
+  assert.equal(await parseZip64Eocd(new MockFile(bytes), locator, log), null);
+  assert.deepEqual(log.diagnostics, [{
+    code: "zip.zip64-eocd-signature-mismatch",
+    severity: "error",
+    message: "ZIP64 EOCD signature mismatch.",
+    offset: 0x20,
+    length: 4
+  }]);
 });
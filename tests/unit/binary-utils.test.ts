@@ -5,6 +5,7 @@ import {
   alignUpTo,
   bufferToHex,
   collectPrintableRuns,
+  decodeLatin1,
   formatHumanSize,
   formatUnixSecondsOrDash,
   nowIsoString,
@@ -36,6 +37,13 @@ void test("collectPrintableRuns splits very long runs to stay bounded", () => {
   assert.deepStrictEqual(runs.map(run => run.length), [4097, 3]);
 });
 
+void test("decodeLatin1 maps every byte to one character, also past a decode slice", () => {
+  assert.strictEqual(decodeLatin1(new Uint8Array([0x41, 0x00, 0xe9, 0xff])), "A\u0000\u00e9\u00ff");
+  const long = decodeLatin1(new Uint8Array(0x2001).fill(0x42));
+  assert.strictEqual(long.length, 0x2001);
+  assert.ok(/^B+$/.test(long));
+});
+
 void test("formatUnixSecondsOrDash handles invalid and unusual timestamps", () => {
   assert.strictEqual(formatUnixSecondsOrDash(-1), "-");
   assert.strictEqual(formatUnixSecondsOrDash(NaN), "-");
@@ -0,0 +1,12 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { describeError } from "../../error-utils.js";
+
+void test("describeError prefers the Error message and falls back to the string form", () => {
+  assert.equal(describeError(new TypeError("Bad input")), "Bad input");
+  assert.equal(describeError(new Error("")), "Error");
+  assert.equal(describeError("aborted"), "aborted");
+  assert.equal(describeError(null), "null");
+});
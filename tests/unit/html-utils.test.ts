@@ -4,6 +4,7 @@ import { test } from "node:test";
 import {
   escapeHtml,
   renderDefinitionRow,
+  renderFileRangeAttributes,
   renderFlagChips,
   renderOptionChips
 } from "../../html-utils.js";
@@ -87,3 +88,11 @@ void test("escapeHtml handles non-string inputs", () => {
   assert.strictEqual(htmlNumber, "42");
   assert.strictEqual(htmlNull, "null");
 });
+
+void test("renderFileRangeAttributes marks valid byte ranges only", () => {
+  assert.strictEqual(renderFileRangeAttributes(0x200, 0x100), ' data-file-range-start="512" data-file-range-end="768"');
+  assert.strictEqual(renderFileRangeAttributes(16n, 4n), ' data-file-range-start="16" data-file-range-end="20"');
+  assert.strictEqual(renderFileRangeAttributes(0x200, 0), "");
+  assert.strictEqual(renderFileRangeAttributes(-1, 4), "");
+  assert.strictEqual(renderFileRangeAttributes(2n ** 64n, 4n), "");
+});
@@ -0,0 +1,33 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { toStableJson } from "../../json-utils.js";
+
+void test("toStableJson maps non-JSON analyzer values deterministically", () => {
+  const bytes = new Uint8Array([0x00, 0x7f, 0x80, 0xff]);
+  const value = {
+    offset: 0x1_0000_0000_0000n,
+    names: new Map<number, string>([[2, "two"], [1, "one"]]),
+    flags: new Set(["b", "a"]),
+    buffer: bytes.buffer,
+    view: new DataView(bytes.buffer, 1, 2),
+    signed: new Int8Array([-1]),
+    error: new RangeError("Out of bounds"),
+    mapper: () => 0,
+    missing: undefined
+  };
+
+  assert.equal(
+    toStableJson(value),
+    "{\"offset\":\"281474976710656n\",\"names\":[[2,\"two\"],[1,\"one\"]],\"flags\":[\"b\",\"a\"]," +
+      "\"buffer\":\"007f80ff\",\"view\":\"7f80\",\"signed\":\"ff\"," +
+      "\"error\":{\"name\":\"RangeError\",\"message\":\"Out of bounds\"}}"
+  );
+});
+
+void test("toStableJson converts values nested inside Maps and arrays", () => {
+  const value = [new Map([["size", 5n]]), [new Set([1n])]];
+
+  assert.equal(toStableJson(value, 2), JSON.stringify([[["size", "5n"]], [["1n"]]], null, 2));
+});
@@ -0,0 +1,33 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { CarvedObject } from "../../../analyzers/carving/types.js";
+import { renderCarvedObjects } from "../../../renderers/carving.js";
+
+const object = (overrides: Partial<CarvedObject>): CarvedObject => ({
+  start: 0x40,
+  end: 0x80,
+  size: 0x40,
+  label: "PNG image",
+  endDescription: "End comes from the PNG IEND chunk.",
+  lengthKnown: true,
+  ...overrides
+});
+
+void test("renderCarvedObjects lists each object with linked ranges and actions", () => {
+  const html = renderCarvedObjects([
+    object({}),
+    object({ start: 0x80, end: 0x100, size: 0x80, label: "gzip <data>", lengthKnown: false })
+  ]);
+  assert.match(html, /2 embedded objects found; 1 without a known length\./);
+  assert.match(html, /<tr data-file-range-start="64" data-file-range-end="128">/);
+  assert.match(html, /data-carved-start="128" data-carved-end="256"/);
+  assert.match(html, /gzip &lt;data>/);
+  assert.match(html, /IEND/);
+  assert.equal(html.match(/data-carved-download/g)?.length, 4);
+});
+
+void test("renderCarvedObjects explains an empty scan", () => {
+  assert.match(renderCarvedObjects([]), /No embedded file signature/);
+});
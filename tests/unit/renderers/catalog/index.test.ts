@@ -0,0 +1,30 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseCatalog } from "../../../../analyzers/catalog/index.js";
+import { renderCatalog, renderCatalogTrustBadge } from "../../../../renderers/catalog/index.js";
+import { createCatalogFixture } from "../../../fixtures/catalog-fixtures.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+
+void test("renderCatalog shows the overview, signer tree and member table", async () => {
+  const { bytes, trustStore } = await createCatalogFixture([{ digest: "5c".repeat(32), fileName: "<driver>.sys" }]);
+  const catalog = await parseCatalog(new MockFile(bytes, "driver.cat"), trustStore);
+  assert.ok(catalog);
+  const html = renderCatalog(catalog);
+  assert.match(html, /catalogTrustBadge--trusted/);
+  assert.match(html, /<span class="mono">OS<\/span>=_v100/);
+  assert.match(html, /Binary101 Authenticode Signer/);
+  assert.match(html, /<td>&lt;driver>\.sys<\/td><td>SHA-256<\/td><td class="mono">(5c){32}<\/td>/);
+  assert.doesNotMatch(html, /Warnings/);
+  assert.equal(renderCatalog(null), "");
+});
+
+void test("renderCatalogTrustBadge labels each trust status and keeps the reason as a tooltip", () => {
+  assert.equal(
+    renderCatalogTrustBadge({ status: "invalid", reason: "Signer 1: \"bad\"" }),
+    `<span class="catalogTrustBadge catalogTrustBadge--invalid" title="Signer 1: &quot;bad&quot;">` +
+      `Invalid signature</span>`
+  );
+  assert.match(renderCatalogTrustBadge({ status: "untrusted", reason: "" }), />Not trusted</);
+});
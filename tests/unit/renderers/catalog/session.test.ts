@@ -0,0 +1,49 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { CatalogMatch, CatalogParseResult, LoadedCatalog } from "../../../../analyzers/catalog/types.js";
+import { renderCatalogStatus, renderLoadedCatalogs } from "../../../../renderers/catalog/session.js";
+
+const loaded = (name: string, status: CatalogParseResult["trust"]["status"]): LoadedCatalog => ({
+  id: `${name}"id`,
+  name,
+  catalog: {
+    members: [],
+    thisUpdate: "2024-01-01T00:00:00Z",
+    trust: { status, reason: status === "trusted" ? "chains to root" : "no <root>" }
+  } as unknown as CatalogParseResult
+});
+
+const match = (source: LoadedCatalog): CatalogMatch => ({
+  source,
+  member: {
+    tag: "AA",
+    digestAlgorithm: "SHA-256",
+    digest: "aa",
+    subjectType: null,
+    memberGuid: null,
+    attributes: [{ name: "File", value: "ntfs.sys", flags: null }]
+  }
+});
+
+void test("renderCatalogStatus prefers trusted catalogs and names the member file", () => {
+  const html = renderCatalogStatus([match(loaded("evil.cat", "untrusted")), match(loaded("nt5.cat", "trusted"))], 2);
+  assert.match(html, /catalogTrustBadge--trusted/);
+  assert.match(html, /Signed via catalog nt5\.cat \(listed as <span class="mono">ntfs\.sys<\/span>\)/);
+  assert.doesNotMatch(html, /evil\.cat/);
+});
+
+void test("renderCatalogStatus explains untrusted, pending and missing lookups", () => {
+  assert.match(
+    renderCatalogStatus([match(loaded("self.cat", "untrusted"))], 1),
+    /Listed in catalog self\.cat .*which is not trusted: no &lt;root>/
+  );
+  assert.match(renderCatalogStatus(null, 3), /Checking against 3 catalogs\.\.\./);
+  assert.match(renderCatalogStatus([], 1), /not listed in any of 1 catalog</);
+});
+
+void test("renderLoadedCatalogs renders a remove button per catalog", () => {
+  assert.match(renderLoadedCatalogs([loaded("nt5.cat", "trusted")]), /data-catalog-remove="nt5\.cat&quot;id"/);
+  assert.match(renderLoadedCatalogs([]), /No catalogs loaded/);
+});
@@ -0,0 +1,36 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { CoverageMap } from "../../../analyzers/coverage-map.js";
+import { describeCoverageSummary, renderCoverageMap } from "../../../renderers/coverage-map.js";
+
+const map: CoverageMap = {
+  fileSize: 1000,
+  explainedBytes: 900,
+  paddingBytes: 60,
+  unexplainedBytes: 40,
+  regions: [
+    { start: 100, end: 160, zeroFilled: true },
+    { start: 960, end: 1000, zeroFilled: false }
+  ]
+};
+
+void test("describeCoverageSummary reports the interpreted share and unexplained regions", () => {
+  assert.equal(describeCoverageSummary(map), "90.0% interpreted, 1 unexplained region");
+});
+
+void test("renderCoverageMap draws every gap and lists only unexplained ones with hex view ranges", () => {
+  const html = renderCoverageMap(map);
+  assert.match(html, /90\.0% of the file is interpreted/);
+  assert.match(html, /<rect class="coverageMap__padding" x="100" y="0" width="60"/);
+  assert.match(html, /<rect class="coverageMap__unexplained" x="960" y="0" width="40"/);
+  assert.equal(html.match(/<tr data-file-range-start/g)?.length, 1);
+  assert.match(html, /data-file-range-start="960"/);
+});
+
+void test("renderCoverageMap notes a fully explained file", () => {
+  const html = renderCoverageMap({ ...map, regions: [], explainedBytes: 1000, paddingBytes: 0, unexplainedBytes: 0 });
+  assert.match(html, /Every byte outside zero padding belongs to a parsed structure\./);
+  assert.equal(renderCoverageMap({ ...map, fileSize: 0 }), `<p class="smallNote">The file is empty.</p>`);
+});
@@ -0,0 +1,42 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseRuleSource } from "../../../analyzers/rules/parser.js";
+import type { RuleEvaluation } from "../../../analyzers/rules/types.js";
+import { renderRuleEvaluation } from "../../../renderers/detection-rules.js";
+import { expectDefined } from "../../helpers/expect-defined.js";
+
+const rule = expectDefined(parseRuleSource(
+  "rule Dropper : windows { meta: note = \"a<b\" strings: $s = \"cmd\" condition: $s }"
+).rules[0]);
+
+const createEvaluation = (overrides: Partial<RuleEvaluation> = {}): RuleEvaluation => ({
+  matches: [{ rule, matches: [{ id: "s", offset: 0x1234, length: 3, preview: "cmd" }] }],
+  ruleCount: 2,
+  scannedBytes: 4096,
+  truncatedPatterns: [],
+  issues: [],
+  ...overrides
+});
+
+void test("renderRuleEvaluation lists matched rules with links to their offsets", () => {
+  const html = renderRuleEvaluation(createEvaluation());
+  assert.match(html, /1 of 2 rules matched \(4 KB \(4096 bytes\) scanned\)/);
+  assert.match(html, /<b>Dropper<\/b> <span class="smallNote">1 string match<\/span>/);
+  assert.match(html, /<span class="opt sel">windows<\/span>/);
+  assert.match(html, /<dt>note<\/dt><dd>a&lt;b<\/dd>/);
+  assert.match(html, /<tr data-file-range-start="4660" data-file-range-end="4663">/);
+  assert.match(html, /<td class="mono">0x00001234<\/td><td class="mono" title="&quot;cmd&quot;">\$s<\/td>/);
+});
+
+void test("renderRuleEvaluation shows issues, truncation and field-only matches", () => {
+  const html = renderRuleEvaluation(createEvaluation({
+    matches: [{ rule, matches: [] }],
+    truncatedPatterns: ["Dropper: $s"],
+    issues: ["Line 3: unexpected \"}\" in condition"]
+  }));
+  assert.match(html, /Matched on parsed fields only/);
+  assert.match(html, /recorded for Dropper: \$s/);
+  assert.match(html, /<li>Line 3: unexpected &quot;}&quot; in condition<\/li>/);
+});
@@ -0,0 +1,38 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { TriageStatistics } from "../../../analyzers/triage/types.js";
+import { renderTriageStatistics } from "../../../renderers/directory-triage.js";
+
+const emptyStatistics: TriageStatistics = {
+  files: 0,
+  totalBytes: 0,
+  unreadable: 0,
+  byType: [],
+  bySize: [],
+  bySigning: []
+};
+
+void test("renderTriageStatistics scales bars to the largest group", () => {
+  const html = renderTriageStatistics({
+    ...emptyStatistics,
+    files: 3,
+    totalBytes: 30,
+    unreadable: 1,
+    byType: [{ label: "<script>", count: 2, bytes: 20 }, { label: "Text file", count: 1, bytes: 10 }]
+  });
+  assert.match(html, /3 files, 30 B \(30 bytes\); 1 file could not be read\./);
+  assert.match(html, /<td>&lt;script><\/td><td class="directoryTriage__barCell"><span class="directoryTriage__bar" style="width:100%">/);
+  assert.match(html, /style="width:50%"/);
+  assert.match(html, /By signing status/);
+});
+
+void test("renderTriageStatistics folds rare types into one row", () => {
+  const byType = Array.from({ length: 15 }, (_, index) => ({ label: `Type ${index}`, count: 15 - index, bytes: 1 }));
+  const html = renderTriageStatistics({ ...emptyStatistics, files: 120, totalBytes: 15, byType });
+  assert.match(html, /<td>Type 10<\/td>/);
+  assert.doesNotMatch(html, /<td>Type 11<\/td>/);
+  assert.match(html, /<td>4 other types<\/td>/);
+  assert.match(renderTriageStatistics(emptyStatistics), /No readable files/);
+});
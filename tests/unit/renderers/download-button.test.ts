@@ -2,7 +2,7 @@
 
 import assert from "node:assert/strict";
 import { test } from "node:test";
-import { renderDownloadButton } from "../../../renderers/download-button.js";
+import { renderAnalyzeEntryButton, renderDownloadButton } from "../../../renderers/download-button.js";
 
 void test("renderDownloadButton renders shared download button markup", () => {
   const html = renderDownloadButton("Download <payload>", [
@@ -17,3 +17,14 @@ void test("renderDownloadButton renders shared download button markup", () => {
   assert.ok(html.includes("aria-label=\"Download &lt;payload>\""));
   assert.ok(html.includes("<svg aria-hidden=\"true\""));
 });
+
+void test("renderAnalyzeEntryButton mirrors the download attributes and marks the analyze action", () => {
+  assert.equal(
+    renderAnalyzeEntryButton("zipExtractButton", [["data-zip-entry", 3]]),
+    `<button type="button" class="tableButton analyzeEntryButton zipExtractButton" data-zip-entry="3" ` +
+    `data-entry-analyze>Analyze</button>`
+  );
+  assert.ok(renderAnalyzeEntryButton("", [["data-pe-overlay-download"]]).startsWith(
+    `<button type="button" class="tableButton analyzeEntryButton" data-pe-overlay-download data-entry-analyze>`
+  ));
+});
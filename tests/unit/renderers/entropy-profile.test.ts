@@ -0,0 +1,33 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { EntropyProfile } from "../../../analyzers/entropy-profile.js";
+import { renderEntropyProfile } from "../../../renderers/entropy-profile.js";
+
+const profile: EntropyProfile = {
+  fileSize: 1024,
+  windowSize: 1024,
+  step: 512,
+  windows: [
+    { offset: 0, length: 1024, entropy: 1, zero: 0.5, ascii: 0.5, highBit: 0 },
+    { offset: 512, length: 512, entropy: 7.9, zero: 0, ascii: 0.4, highBit: 0.5 }
+  ]
+};
+
+void test("renderEntropyProfile draws series, high-entropy windows and structure lanes", () => {
+  const html = renderEntropyProfile(profile, [
+    { start: 0, end: 1024, label: "Slice 0" },
+    { start: 512, end: 1024, label: "Section <data>" }
+  ]);
+  assert.match(html, /2 windows of 1024 bytes, one every 512 bytes; .*50\.0% of the file at or above 7\.2 bits\/byte/);
+  assert.match(html, /<rect class="entropyProfile__hot" x="500" y="0" width="500"/);
+  assert.match(html, /entropyProfile__series--entropy" points="500,105 750,1\.5"/);
+  assert.match(html, /entropyProfile__structure--lane1" x="500"/);
+  assert.match(html, /data-entropy-structure-start="512" data-entropy-structure-end="1024"><title>Section &lt;data>/);
+  assert.match(html, /data-entropy-profile-size="1024"/);
+});
+
+void test("renderEntropyProfile reports an empty file", () => {
+  assert.match(renderEntropyProfile({ fileSize: 0, windowSize: 512, step: 256, windows: [] }, []), /empty/);
+});
@@ -0,0 +1,43 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { Diagnostic } from "../../../analyzers/diagnostics/index.js";
+import { renderFindings } from "../../../renderers/findings.js";
+
+const diagnostic = (overrides: Partial<Diagnostic>): Diagnostic => ({
+  code: "zip.central-directory-truncated",
+  severity: "error",
+  message: "Central directory is truncated.",
+  source: "issues",
+  ...overrides
+});
+
+void test("renderFindings reports a clean parse in one line", () => {
+  const html = renderFindings([]);
+  assert.match(html, /class="findings"/);
+  assert.match(html, /The analyzer reported no problems\./);
+  assert.doesNotMatch(html, /<table/);
+});
+
+void test("renderFindings lists errors first with offsets, toggles and escaped messages", () => {
+  const html = renderFindings([
+    diagnostic({ severity: "info", code: "zip.note", message: "Uses <ZIP64>" }),
+    diagnostic({ offset: 0x40, length: 22, specReference: "PKWARE APPNOTE.TXT" })
+  ]);
+
+  assert.match(html, /<details class="findings__details" open>/);
+  assert.match(html, /data-findings-severity="error" aria-pressed="true">1 error</);
+  assert.match(html, /data-findings-severity="warning" aria-pressed="true" disabled>0 warnings</);
+  assert.match(html, /data-findings-severity="info" aria-pressed="true">1 note</);
+  assert.ok(html.indexOf("data-finding-severity=\"error\"") < html.indexOf("data-finding-severity=\"info\""));
+  assert.match(html, /0x0*40</);
+  assert.match(html, /Uses &lt;ZIP64>/);
+  assert.match(html, /PKWARE APPNOTE\.TXT/);
+});
+
+void test("renderFindings keeps the table collapsed when there are no errors", () => {
+  const html = renderFindings([diagnostic({ severity: "warning" })]);
+  assert.match(html, /<details class="findings__details">/);
+  assert.match(html, /<summary>1 finding<\/summary>/);
+});
@@ -0,0 +1,41 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { renderDataInspector, renderHexRows, renderStructurePath } from "../../../renderers/hex-view.js";
+
+void test("renderHexRows renders offsets, bytes and escaped ASCII with selection marks", () => {
+  const html = renderHexRows({
+    bytes: new Uint8Array([0x3c, 0x41, 0x00, 0x26, 0x22]),
+    offset: 0x20,
+    bytesPerRow: 4,
+    selection: { start: 0x21, end: 0x23 },
+    cursor: 0x21
+  });
+  assert.equal((html.match(/class="hexRow"/g) ?? []).length, 2);
+  assert.match(html, /<span class="hexRow__offset">00000020<\/span>/);
+  assert.match(html, /<span class="hexRow__offset">00000024<\/span>/);
+  assert.match(html, /class="hexCell hexCell--selected hexCell--cursor" data-hex-offset="33">41</);
+  assert.match(html, /class="hexCell hexCell--selected" data-hex-offset="34">00</);
+  assert.match(html, /data-hex-offset="32">&lt;</);
+  assert.match(html, /data-hex-offset="35">&amp;</);
+  assert.match(html, /data-hex-offset="36">&quot;</);
+  assert.equal((html.match(/hexCell--empty/g) ?? []).length, 3);
+});
+
+void test("renderStructurePath lists owners from outermost to innermost", () => {
+  const html = renderStructurePath([
+    { start: 0, end: 0x200, label: "Segment <0>" },
+    { start: 0x40, end: 0x78, label: "Program header table" }
+  ]);
+  assert.match(html, /<li><span>Segment &lt;0><\/span> <span class="hexStructurePath__range">00000000-000001ff/);
+  assert.ok(html.indexOf("Segment") < html.indexOf("Program header table"));
+  assert.match(renderStructurePath([]), /No parsed structure covers this byte/);
+});
+
+void test("renderDataInspector marks values that need more bytes than remain", () => {
+  const html = renderDataInspector(0x10, [{ label: "UInt8", value: "7" }, { label: "UInt32", value: null }]);
+  assert.match(html, /Offset 0x00000010 \(16\)/);
+  assert.match(html, /<th scope="row">UInt8<\/th><td class="mono">7<\/td>/);
+  assert.match(html, /<th scope="row">UInt32<\/th><td class="mono"><span class="dim">-<\/span><\/td>/);
+});
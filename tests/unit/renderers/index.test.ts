@@ -2,7 +2,7 @@
 
 import assert from "node:assert/strict";
 import { test } from "node:test";
-import { createParseForUi } from "../../../analyzers/index.js";
+import { createFormatRegistry, createParseForUi } from "../../../analyzers/index.js";
 import type { AnalyzerName, ParsedByAnalyzer } from "../../../analyzers/index.js";
 import { renderMachO } from "../../../renderers/macho/index.js";
 import {
@@ -55,7 +55,7 @@ import { encoder } from "../../fixtures/archive-fixture-helpers.js";
 import { parseFb2ForTests } from "../../helpers/fb2-test-parser.js";
 import { MockFile } from "../../helpers/mock-file.js";
 
-const parseForUi = createParseForUi(parseFb2ForTests);
+const parseForUi = createParseForUi(createFormatRegistry(parseFb2ForTests));
 
 const parseOnly = async <Name extends AnalyzerName>(
   file: File,
@@ -289,7 +289,7 @@ void test("renderZip shows extract actions and extraction notices", () => {
         }
       ]
     },
-    issues: []
+    issues: [], diagnostics: []
   };
 
   const html = renderZip(zip);
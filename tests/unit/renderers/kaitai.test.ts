@@ -0,0 +1,50 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { KaitaiResult } from "../../../analyzers/kaitai/types.js";
+import { formatKaitaiValue, renderKaitaiResult } from "../../../renderers/kaitai.js";
+
+void test("formatKaitaiValue shows numbers with hex, quoted strings, byte previews and enum labels", () => {
+  assert.equal(formatKaitaiValue(300), "300 (0x12c)");
+  assert.equal(formatKaitaiValue(7), "7");
+  assert.equal(formatKaitaiValue(2n ** 64n - 1n), "18446744073709551615 (0xffffffffffffffff)");
+  assert.equal(formatKaitaiValue("a\"b"), "\"a\\\"b\"");
+  assert.equal(formatKaitaiValue(Uint8Array.from([0, 0xab])), "00 ab");
+  assert.equal(formatKaitaiValue(new Uint8Array(20)), `${Array(16).fill("00").join(" ")} …`);
+  assert.equal(formatKaitaiValue({ kind: "enum", enumName: "kinds", value: 2, label: null }), "unknown (2)");
+});
+
+void test("renderKaitaiResult renders nested tables with file ranges, instances and issues", () => {
+  const result: KaitaiResult = {
+    root: {
+      name: "sample",
+      typeName: "sample",
+      offset: 0,
+      size: 6,
+      children: [
+        { name: "magic", typeName: "contents", offset: 0, size: 2, value: Uint8Array.from([0x4d, 0x5a]) },
+        {
+          name: "items",
+          typeName: "u2",
+          offset: 2,
+          size: 4,
+          children: [{ name: "[0]", typeName: "u2", offset: 2, size: 2, value: 1 }],
+          issue: "end of stream"
+        },
+        { name: "total", typeName: "value", offset: 0, size: 0, value: 1, instance: true }
+      ]
+    },
+    issues: ["sample.items: end of stream"],
+    nodeCount: 5
+  };
+  const html = renderKaitaiResult(result);
+  assert.match(html, /sample \(<span class="mono">sample<\/span>\): 5 fields over 6 bytes from 0x0/);
+  assert.match(html, /<details class="kaitai__node" open><summary>3 fields<\/summary>/);
+  assert.match(html, /<details class="kaitai__node"><summary>1 item<\/summary>/);
+  assert.match(html, /<tr data-file-range-start="0" data-file-range-end="2"><td>magic<\/td>/);
+  assert.match(html, /<span class="mono">4d 5a<\/span>/);
+  assert.match(html, /class="kaitai__failed"/);
+  assert.match(html, /<li>sample\.items: end of stream<\/li>/);
+  assert.match(html, /<tr><td>total <span class="dim">\(instance\)<\/span><\/td>/);
+});
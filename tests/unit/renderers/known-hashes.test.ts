@@ -0,0 +1,40 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { KnownHashList, KnownHashMatch } from "../../../analyzers/known-hashes/types.js";
+import { renderKnownHashLists, renderKnownHashStatus } from "../../../renderers/known-hashes.js";
+
+const list: KnownHashList = {
+  id: "deny\"<1>",
+  name: "iocs <2024>.csv",
+  verdict: "bad",
+  format: "nsrl",
+  algorithms: ["sha1", "md5"],
+  entryCount: 2,
+  importedAt: "2024-01-01T00:00:00.000Z"
+};
+
+const match: KnownHashMatch = {
+  list,
+  entry: { algorithm: "sha1", digest: "a9993e364706816aba3e25717850c26c9cd0d89d", name: "abc & co.exe" }
+};
+
+void test("renderKnownHashStatus shows the verdict with escaped list and entry names", () => {
+  const html = renderKnownHashStatus("bad", [match], ["sha1"], 1);
+  assert.match(html, /knownHashBadge--bad">Known bad</);
+  assert.match(html, /iocs &lt;2024>\.csv \(SHA-1, listed as <span class="mono">abc & co\.exe<\/span>\)/);
+});
+
+void test("renderKnownHashStatus describes pending and negative lookups", () => {
+  assert.match(renderKnownHashStatus(null, [], [], 2), /Checking against 2 lists\.\.\./);
+  assert.match(renderKnownHashStatus(null, [], ["sha256", "md5"], 1), /Not on any of 1 list \(SHA-256, MD5 checked\)/);
+});
+
+void test("renderKnownHashLists renders a row with a remove button per list", () => {
+  const html = renderKnownHashLists([list]);
+  assert.match(html, /<td>NSRL RDS<\/td>/);
+  assert.match(html, /<td>2 \(SHA-1, MD5\)<\/td>/);
+  assert.match(html, /data-known-hash-remove="deny&quot;&lt;1>"/);
+  assert.match(renderKnownHashLists([]), /No lists imported/);
+});
@@ -0,0 +1,40 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parsePdb } from "../../../../analyzers/pdb/index.js";
+import { renderPdb } from "../../../../renderers/pdb/index.js";
+import { getPdbPagedTableModel } from "../../../../renderers/pdb/paged-tables.js";
+import { MockFile } from "../../../helpers/mock-file.js";
+import { PDB_FIXTURE_GUID, buildPdb } from "../../../fixtures/pdb-fixtures.js";
+
+void test("renderPdb shows the matching identity, DBI details, symbol counts and type streams", async () => {
+  const pdb = await parsePdb(new MockFile(buildPdb(), "app.pdb"));
+  const html = renderPdb(pdb);
+
+  assert.ok(html.includes(PDB_FIXTURE_GUID.toUpperCase()));
+  assert.match(html, /20000404 \(VC70\)/);
+  assert.match(html, /\/names \(#5\)/);
+  assert.match(html, /14\.29 \(mspdb DLL build 0\)/);
+  assert.match(html, /Flags<\/dt><dd>-<\/dd>/);
+  assert.match(html, /S_GDATA32 &times; 1, S_PROCREF &times; 1/);
+  assert.match(html, /TPI stream.*2 \(indices 0x1000-0x1001\)/s);
+  assert.match(html, /LF_POINTER &times; 1, LF_ARGLIST &times; 1/);
+  for (const id of ["pdb-publics", "pdb-modules", "pdb-contributions", "pdb-streams"]) {
+    assert.ok(html.includes(`data-sort-state-key="${id}"`), id);
+  }
+  assert.equal(renderPdb(null), "");
+});
+
+void test("PDB paged tables list publics, modules, contributions and streams", async () => {
+  const pdb = await parsePdb(new MockFile(buildPdb(), "app.pdb"));
+  assert.ok(pdb);
+
+  const publics = getPdbPagedTableModel(pdb, "pdb-publics");
+  assert.equal(publics?.rowCount, 3);
+  assert.deepEqual(publics?.rowAt(0)?.cells.map(cell => cell.sortValue), ["main", "function", "0001:00000010", "0x00001010"]);
+  assert.equal(getPdbPagedTableModel(pdb, "pdb-modules")?.sortValueAt(0, 1), "C:\\build\\main.obj");
+  assert.equal(getPdbPagedTableModel(pdb, "pdb-contributions")?.sortValueAt(0, 3), "C:\\build\\main.obj");
+  assert.equal(getPdbPagedTableModel(pdb, "pdb-streams")?.sortValueAt(9, 2), "Symbol records");
+  assert.equal(getPdbPagedTableModel(pdb, "pdb-unknown"), null);
+});
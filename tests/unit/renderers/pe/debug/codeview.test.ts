@@ -0,0 +1,69 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { PeCodeViewEmbeddedEntry } from "../../../../../analyzers/pe/debug/codeview-embedded.js";
+import { getCodeViewTableModel, renderCodeViewFields } from "../../../../../renderers/pe/debug-codeview.js";
+import { getEntrySummary } from "../../../../../renderers/pe/debug-entry-summary.js";
+import { getPePagedTableModel } from "../../../../../renderers/pe/paged-tables.js";
+import { createDebugViewEntry } from "../../../../fixtures/pe-debug-view-subject.js";
+import { createBasePe } from "../../../../fixtures/pe-renderer-headers-fixture.js";
+
+const createEmbedded = (): PeCodeViewEmbeddedEntry => ({
+  signature: "NB11",
+  directoryOffset: 0x200,
+  subsections: [
+    { type: 0x120, typeName: "sstModule", module: 1, offset: 8, size: 32 },
+    { type: 0x120, typeName: "sstModule", module: 2, offset: 40, size: 32 },
+    { type: 0x12a, typeName: "sstGlobalPub", module: 0xffff, offset: 72, size: 64 }
+  ],
+  modules: [
+    { index: 1, name: "main.obj", library: 0, segments: [{ segment: 1, offset: 0x10, size: 0x40 }] },
+    { index: 2, name: "<lib>.obj", library: 1, segments: [] }
+  ],
+  symbols: [
+    { kind: "procedure", name: "_main", segment: 1, offset: 0x10, module: 1 },
+    { kind: "public", name: "_printf", segment: 1, offset: 0x80, module: null }
+  ],
+  sourceFiles: [{ module: 1, name: "main.c", lines: [{ segment: 1, offset: 0x10, line: 7 }] }],
+  symbolCount: 5,
+  lineCount: 1
+});
+
+void test("renderCodeViewFields lists embedded NB11 subsections, modules, symbols and lines", () => {
+  const out: string[] = [];
+  renderCodeViewFields(createEmbedded(), out, "pe-debug-entry-0-codeview");
+  const html = out.join("");
+
+  assert.match(html, /NB11/);
+  assert.match(html, /sstModule &times; 2, sstGlobalPub &times; 1/);
+  assert.match(html, /5 \(first 2 listed\)/);
+  assert.match(html, /<td>main\.obj<\/td><td>-<\/td><td class="mono">0001:00000010 \+0x40<\/td>/);
+  assert.match(html, /&lt;lib>\.obj/);
+  assert.match(html, /_main.*procedure.*0001:00000010.*main\.obj/);
+  assert.match(html, /_printf.*public.*\(global\)/);
+  assert.match(html, /main\.c<\/td><td data-sort-value="7">7<\/td>/);
+});
+
+void test("renderCodeViewFields labels the NB10 PDB 2.0 signature", () => {
+  const out: string[] = [];
+  renderCodeViewFields({ signature: "NB10", offset: 0, timestamp: 0x3aef6cec, age: 2, path: "" }, out, "cv");
+  const html = out.join("");
+
+  assert.match(html, /PDB 2\.0/);
+  assert.match(html, /PDB signature.*0x3aef6cec/);
+  assert.match(html, /\(no path\)/);
+});
+
+void test("CodeView symbol and line tables resolve through the PE paged table lookup", () => {
+  const pe = createBasePe();
+  const entry = { ...createDebugViewEntry(2, 0, 0x80, 0x200), codeView: createEmbedded() };
+  pe.debug = { entries: [entry], entry: null, rawDataRanges: [] };
+
+  const symbols = getPePagedTableModel(pe, "pe-debug-entry-0-codeview-symbols");
+  assert.equal(symbols?.rowCount, 2);
+  assert.equal(symbols?.sortValueAt(1, 0), "_printf");
+  assert.equal(getPePagedTableModel(pe, "pe-debug-entry-0-codeview-lines")?.rowCount, 1);
+  assert.equal(getCodeViewTableModel({ signature: "RSDS", guid: "", age: 1, path: "" }, "cv-symbols", "cv"), null);
+  assert.equal(getEntrySummary(entry), "Embedded CodeView NB11 debug information with 2 modules and 5 symbols.");
+});
@@ -163,6 +163,32 @@ void test("renderExports renders entries directly without a nested show wrapper"
   assert.ok(!html.includes("Show entries"));
 });
 
+void test("renderExports adds a PDB symbol column when a matching PDB supplied names", () => {
+  const exportsSection: Parameters<typeof renderExports>[0] = {
+    flags: 0,
+    timestamp: 0,
+    version: 0,
+    dllName: "demo.dll",
+    Base: 1,
+    NumberOfFunctions: 2,
+    NumberOfNames: 0,
+    namePointerTable: 0,
+    ordinalTable: 0,
+    entries: [
+      { ordinal: 1, name: null, rva: 0x1234, forwarder: null },
+      { ordinal: 2, name: null, rva: 0x2000, forwarder: null }
+    ],
+    issues: []
+  };
+  const out: string[] = [];
+  renderExports(exportsSection, out, new Map([[0x1234, "?Run@Demo@@QEAAXXZ"]]));
+  const html = out.join("");
+
+  assert.ok(html.includes("<th>PDB symbol</th>"));
+  assert.ok(html.includes("<td>0x00001234</td><td>?Run@Demo@@QEAAXXZ</td>"));
+  assert.ok(html.includes("<td>0x00002000</td><td>-</td>"));
+});
+
 void test("renderArchitectureDirectory and renderGlobalPtrDirectory explain their own directories", () => {
   const pe = {
     architecture: {
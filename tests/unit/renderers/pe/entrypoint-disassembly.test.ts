@@ -223,3 +223,29 @@ void test("renderEntrypointDisassembly keeps diagnostics when no table was rende
   assert.ok(!html.includes("<table"));
   assert.ok(html.includes("Failed to load iced-x86 disassembler."));
 });
+
+void test("renderEntrypointDisassembly names blocks from matching PDB publics", () => {
+  const pe = createPe({
+    pdbSymbols: { fileName: "app.pdb", guid: "", age: 1, names: new Map([[0x1000, "mainCRTStartup"]]) }
+  });
+  pe.entrypointDisassembly = {
+    bitness: 64,
+    entrypointRva: 0x1000,
+    bytesDecoded: 1,
+    instructionCount: 1,
+    blocks: [{
+      kind: "entrypoint",
+      startRva: 0x1000,
+      fileOffsetStart: 0x200,
+      instructions: [{ rva: 0x1000, fileOffset: 0x200, text: "ret" }]
+    }],
+    issues: []
+  };
+
+  const out: string[] = [];
+  renderEntrypointDisassembly(pe, out);
+  const html = out.join("");
+
+  assert.ok(html.includes(`<td>Entry point<br><span class="mono">mainCRTStartup</span></td>`));
+  assert.ok(html.includes(`<strong>Entry point</strong> <span class="mono">mainCRTStartup</span>: RVA`));
+});
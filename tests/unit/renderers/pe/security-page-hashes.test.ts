@@ -0,0 +1,43 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { AuthenticodeInfo } from "../../../../analyzers/pe/authenticode/index.js";
+import { renderPageHashesNode } from "../../../../renderers/pe/security-page-hashes.js";
+
+const auth: AuthenticodeInfo = {
+  format: "pkcs7",
+  pageHashes: {
+    version: 2,
+    algorithmName: "SHA-256",
+    entries: [{ offset: 0, digest: "aa" }, { offset: 0x400, digest: "bb" }, { offset: 0x600, digest: "00" }]
+  }
+};
+
+void test("renderPageHashesNode highlights mismatched pages and names their section", () => {
+  const html = renderPageHashesNode({
+    ...auth,
+    verification: {
+      pageHashes: {
+        algorithmName: "SHA-256",
+        pageSize: 0x1000,
+        mismatchCount: 1,
+        pages: [
+          { offset: 0, length: 0x400, section: "Headers", expectedDigest: "aa", computedDigest: "aa", matches: true },
+          { offset: 0x400, length: 0x200, section: ".text", expectedDigest: "bb", computedDigest: "cc", matches: false }
+        ]
+      }
+    }
+  });
+  assert.match(html, /SHA-256 \(v2\)/);
+  assert.match(html, /1 mismatch/);
+  assert.match(html, /Mismatched sections:<\/span> \.text/);
+  assert.match(html, /<details class="peSecurityPageHashes" open>/);
+  assert.match(html, /<tr class="peSecurityPageHash--mismatch"><td class="mono">0x00000400<\/td><td>\.text<\/td>/);
+  assert.match(html, /<td>Mismatch<\/td>/);
+});
+
+void test("renderPageHashesNode shows unchecked tables and nothing without page hashes", () => {
+  assert.match(renderPageHashesNode(auth), /Not checked/);
+  assert.equal(renderPageHashesNode({ format: "pkcs7" }), "");
+});
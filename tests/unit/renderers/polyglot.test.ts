@@ -0,0 +1,44 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { PolyglotAnalysis, PolyglotInterpretation } from "../../../analyzers/polyglot/index.js";
+import { describePolyglotSummary, renderPolyglotAnalysis } from "../../../renderers/polyglot.js";
+
+const entry = (overrides: Partial<PolyglotInterpretation>): PolyglotInterpretation => ({
+  label: "PDF document (v1.7)",
+  evidence: "PDF header at offset 0x5",
+  start: 5,
+  end: 0x200,
+  extentKnown: true,
+  extentDescription: "Ends at the last %%EOF marker.",
+  ...overrides
+});
+
+void test("renderPolyglotAnalysis warns about overlapping claims and links every range", () => {
+  const analysis: PolyglotAnalysis = {
+    interpretations: [entry({}), entry({ label: "ZIP <archive>", evidence: "End record", start: 0x40, end: 0x100 })],
+    overlaps: [{ first: 0, second: 1, start: 0x40, end: 0x100 }]
+  };
+  const html = renderPolyglotAnalysis(analysis);
+  assert.match(html, /polyglot__warning/);
+  assert.match(html, /PDF document \(v1\.7\) and ZIP &lt;archive> both claim/);
+  assert.match(html, /<li data-file-range-start="64" data-file-range-end="256">/);
+  assert.match(html, /<tr data-file-range-start="5" data-file-range-end="512">/);
+  assert.equal(describePolyglotSummary(analysis), "2 interpretations, 1 overlapping claim");
+});
+
+void test("renderPolyglotAnalysis explains separate claims and empty results", () => {
+  const analysis: PolyglotAnalysis = {
+    interpretations: [entry({ start: 0, end: 0x40 }), entry({ start: 0x40, extentKnown: false })],
+    overlaps: []
+  };
+  const html = renderPolyglotAnalysis(analysis);
+  assert.doesNotMatch(html, /polyglot__warning/);
+  assert.match(html, /separate byte ranges/);
+  assert.match(html, /smallNote dim/);
+  assert.equal(describePolyglotSummary(analysis), "2 interpretations");
+  const empty = { interpretations: [], overlaps: [] };
+  assert.match(renderPolyglotAnalysis(empty), /No signature or structure matched/);
+  assert.equal(describePolyglotSummary(empty), "No known format");
+});
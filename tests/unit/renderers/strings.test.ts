@@ -0,0 +1,46 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { ExtractedString } from "../../../analyzers/strings/index.js";
+import { createStringsTableModel, renderStringsCsv, STRINGS_TABLE_ID } from "../../../renderers/strings.js";
+import { renderPagedSortableTable } from "../../../renderers/paged-sortable-table.js";
+
+const strings: ExtractedString[] = [
+  { offset: 0x40, byteLength: 12, encoding: "utf16le", text: "a<b>\tc" },
+  { offset: 0x2000, byteLength: 9, encoding: "ascii", text: "say \"hi\", ok" }
+];
+
+const owner = (offset: number): string => (offset < 0x1000 ? "Section .text" : "");
+
+void test("createStringsTableModel renders linked offsets, owners and escaped text", () => {
+  const model = createStringsTableModel(strings, owner);
+  assert.equal(model.id, STRINGS_TABLE_ID);
+  assert.equal(model.rowCount, 2);
+  const html = renderPagedSortableTable(model);
+  assert.match(html, /data-file-range-start="64"/);
+  assert.match(html, /UTF-16LE/);
+  assert.match(html, /Section \.text/);
+  assert.match(html, /a&lt;b>\\tc/);
+  assert.doesNotMatch(html, /<b>/);
+  assert.equal(model.sortValueAt(1, 0), String(0x2000));
+  assert.equal(model.sortValueAt(1, 3), "");
+  assert.equal(model.rowAt(2), null);
+});
+
+void test("renderStringsCsv quotes fields that need it", () => {
+  assert.equal(
+    renderStringsCsv(strings, owner),
+    "offset,encoding,bytes,owner,text\r\n" +
+      "0x00000040,UTF-16LE,12,Section .text,a<b>\tc\r\n" +
+      "0x00002000,ASCII,9,,\"say \"\"hi\"\", ok\"\r\n"
+  );
+});
+
+void test("renderStringsCsv neutralizes extracted text a spreadsheet would run as a formula", () => {
+  const hostile = ["=HYPERLINK(\"x\")", "+1", "-2", "@SUM(A1)", "\tcmd", "\rcmd"].map((text, index) => ({
+    offset: index, byteLength: text.length, encoding: "ascii" as const, text
+  }));
+  const cells = renderStringsCsv(hostile, () => "").split("\r\n").slice(1, -1).map(row => row.split(",").slice(4).join(","));
+  assert.deepEqual(cells, ["\"'=HYPERLINK(\"\"x\"\")\"", "'+1", "'-2", "'@SUM(A1)", "'\tcmd", "\"'\rcmd\""]);
+});
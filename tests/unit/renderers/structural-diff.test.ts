@@ -0,0 +1,78 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { StructuralDiff } from "../../../analyzers/diff/types.js";
+import { renderStructuralDiff } from "../../../renderers/structural-diff.js";
+
+const createDiff = (overrides: Partial<StructuralDiff> = {}): StructuralDiff => ({
+  left: { name: "a<1>.exe", size: 2048, analyzer: "pe" },
+  right: { name: "b.exe", size: 2050, analyzer: "pe" },
+  sameFormat: true,
+  tables: [{
+    title: "Imports",
+    changedCount: 1,
+    rows: [
+      { key: "kernel32.dll!ExitProcess", left: "by name", right: "by name", status: "same" },
+      { key: "user32.dll!MessageBoxW", left: null, right: "by name", status: "added" }
+    ]
+  }],
+  bytes: {
+    comparedBytes: 2048,
+    identicalBytes: 2040,
+    changedBytes: 8,
+    leftOnlyBytes: 0,
+    rightOnlyBytes: 2,
+    changedRanges: [{ start: 0x40, end: 0x48 }],
+    changedRangeCount: 1
+  },
+  similarity: {
+    left: { ssdeep: "48:abcdefgh:abcd", tlsh: "T1AB" },
+    right: { ssdeep: "48:abcdefgx:abcx", tlsh: "TNULL" },
+    ssdeepScore: 88,
+    tlshDistance: null
+  },
+  ...overrides
+});
+
+void test("renderStructuralDiff lists changed entries and folds identical ones", () => {
+  const html = renderStructuralDiff(createDiff());
+  assert.match(html, /a&lt;1>\.exe/);
+  assert.match(html, /<details class="diffSection" open>/);
+  assert.match(html, /1 of 2 entries differ/);
+  assert.match(html, /<tr class="diffRow diffRow--added"><td>user32\.dll!MessageBoxW<\/td>/);
+  assert.match(html, /<details class="diffSection__same"><summary>1 identical entry<\/summary>/);
+  assert.match(html, /<td class="mono">0x00000040<\/td><td class="mono">0x00000047<\/td><td>8<\/td>/);
+  assert.match(html, /Only in right/);
+  assert.doesNotMatch(html, /Only in left/);
+});
+
+void test("renderStructuralDiff explains when only bytes could be compared", () => {
+  const html = renderStructuralDiff(createDiff({
+    right: { name: "b.zip", size: 10, analyzer: "zip" },
+    sameFormat: false,
+    tables: []
+  }));
+  assert.match(html, /parsed as pe and zip; only their bytes are compared/);
+  assert.doesNotMatch(html, /diffSection/);
+});
+
+void test("renderStructuralDiff notes ranges beyond the listing limit", () => {
+  const html = renderStructuralDiff(createDiff({
+    bytes: { ...createDiff().bytes, changedRangeCount: 1005 }
+  }));
+  assert.match(html, /1004 more changed ranges not shown/);
+});
+
+void test("renderStructuralDiff shows fuzzy hashes side by side", () => {
+  const html = renderStructuralDiff(createDiff());
+  assert.match(html, /<h3>Similarity<\/h3>/);
+  assert.match(html, /<td>ssdeep<\/td><td><span class="mono">48:abcdefgh:abcd<\/span><\/td>/);
+  assert.match(html, /Match score 88 of 100/);
+  assert.match(html, /Distance not available/);
+  const identical = renderStructuralDiff(createDiff({
+    similarity: { ...createDiff().similarity, ssdeepScore: 100, tlshDistance: 0 }
+  }));
+  assert.match(identical, /100 of 100 \(identical signatures\)/);
+  assert.match(identical, /Distance 0</);
+});
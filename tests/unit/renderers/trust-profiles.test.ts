@@ -0,0 +1,51 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { AuthenticodeTrustProfile } from "../../../analyzers/pe/authenticode/trust-profiles.js";
+import {
+  renderTrustProfiles,
+  renderTrustProfileVerdicts,
+  renderTrustVerdictBadge
+} from "../../../renderers/trust-profiles.js";
+
+const profile = (id: string, selected: boolean): AuthenticodeTrustProfile => ({
+  id,
+  name: `Lab <${id}>`,
+  importedAt: "2026-01-01T00:00:00.000Z",
+  certificates: [
+    { thumbprint: "AA", subject: "CN=Lab Root", stores: ["Root"] },
+    { thumbprint: "BB", subject: "CN=Lab Issuing", stores: ["CA"] },
+    { thumbprint: "CC", stores: ["CA"] }
+  ],
+  selected
+});
+
+void test("renderTrustVerdictBadge labels each verdict and keeps the reason as a tooltip", () => {
+  assert.equal(
+    renderTrustVerdictBadge({ status: "revoked", reason: "Certificate 2 is \"disallowed\"." }),
+    `<span class="trustVerdictBadge trustVerdictBadge--revoked" title="Certificate 2 is &quot;disallowed&quot;.">` +
+    `Disallowed</span>`
+  );
+  assert.match(renderTrustVerdictBadge({ status: "invalid", reason: "" }), />Invalid signature</);
+});
+
+void test("renderTrustProfileVerdicts lists every store and marks pending evaluations", () => {
+  const html = renderTrustProfileVerdicts([
+    { label: "Windows snapshot", detail: "Bundled", verdict: { status: "untrusted", reason: "No anchor." } },
+    { label: "Lab <root>", detail: "1 certificates", verdict: null }
+  ]);
+  assert.match(html, /Windows snapshot<div class="smallNote">Bundled<\/div>/);
+  assert.match(html, />Not trusted<\/span><\/td><td>No anchor\.<\/td>/);
+  assert.match(html, /Lab &lt;root>/);
+  assert.match(html, /Evaluating\.\.\./);
+});
+
+void test("renderTrustProfiles shows selection, certificate counts and remove buttons", () => {
+  const html = renderTrustProfiles([profile("one", true), profile("two", false)]);
+  assert.match(html, /data-trust-profile-select="one" checked/);
+  assert.doesNotMatch(html, /data-trust-profile-select="two" checked/);
+  assert.match(html, /title="CN=Lab Root\nCN=Lab Issuing\nCC">1 root, 2 intermediates</);
+  assert.match(html, /data-trust-profile-remove="two"/);
+  assert.match(renderTrustProfiles([]), /No trust profiles imported/);
+});
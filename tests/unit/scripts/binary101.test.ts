@@ -0,0 +1,71 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { parseInspectArguments, writeRecords } from "../../../scripts/binary101.js";
+import { createPngFile } from "../../fixtures/image-sample-files.js";
+
+void test("parseInspectArguments reads paths, analyzers, hashes and the JSON Lines switch", () => {
+  assert.deepEqual(
+    parseInspectArguments(["inspect", "a.exe", "--analyzer", "pe", "dir", "--hash", "md5", "--hash", "md5", "--jsonl"]),
+    { paths: ["a.exe", "dir"], analyzers: new Set(["pe"]), hashes: ["md5"], jsonLines: true }
+  );
+  assert.deepEqual(parseInspectArguments(["inspect", "a.exe", "--hash", "all"])?.hashes, [
+    "md5", "sha1", "sha224", "sha256", "sha384", "sha512", "sha512224", "sha512256"
+  ]);
+  assert.equal(parseInspectArguments(["inspect", "a.exe"])?.analyzers, null);
+});
+
+void test("parseInspectArguments returns null for help and rejects malformed input", () => {
+  assert.equal(parseInspectArguments([]), null);
+  assert.equal(parseInspectArguments(["inspect", "--help"]), null);
+  assert.throws(() => parseInspectArguments(["scan", "a.exe"]), /Unknown command: scan/);
+  assert.throws(() => parseInspectArguments(["inspect"]), /at least one path/);
+  assert.throws(() => parseInspectArguments(["inspect", "a", "--analyzer", "exe"]), /Unknown analyzer: exe/);
+  assert.throws(() => parseInspectArguments(["inspect", "a", "--hash", "crc"]), /Unknown hash: crc/);
+  assert.throws(() => parseInspectArguments(["inspect", "a", "--hash"]), /--hash requires a value/);
+  assert.throws(() => parseInspectArguments(["inspect", "a", "--verbose"]), /Unknown argument: --verbose/);
+});
+
+void test("writeRecords emits one JSON line per file and reports failures", async () => {
+  const directory = await mkdtemp(join(tmpdir(), "binary101-cli-"));
+  try {
+    const path = join(directory, "sample.png");
+    await writeFile(path, createPngFile().data);
+    const output: string[] = [];
+
+    const succeeded = await writeRecords(
+      { paths: [directory, join(directory, "absent.bin")], analyzers: null, hashes: [], jsonLines: true },
+      text => {
+        output.push(text);
+        return Promise.resolve();
+      }
+    );
+
+    assert.equal(succeeded, false);
+    const lines = output.map(line => JSON.parse(line) as { path: string; analyzer?: string; error?: string });
+    assert.deepEqual(lines.map(line => line.path), [path, join(directory, "absent.bin")]);
+    assert.equal(lines[0]?.analyzer, "png");
+    assert.match(lines[1]?.error ?? "", /ENOENT/);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+void test("writeRecords wraps all records in a single document by default", async () => {
+  const output: string[] = [];
+  const missing = join(tmpdir(), "binary101-cli-missing.bin");
+
+  await writeRecords({ paths: [missing], analyzers: null, hashes: [], jsonLines: false }, text => {
+    output.push(text);
+    return Promise.resolve();
+  });
+
+  assert.equal(output.length, 1);
+  assert.deepEqual(JSON.parse(output[0] ?? ""), {
+    files: [{ path: missing, error: `ENOENT: no such file or directory, stat '${missing}'` }]
+  });
+});
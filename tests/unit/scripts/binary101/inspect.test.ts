@@ -0,0 +1,85 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { createInspector, walkPaths } from "../../../../scripts/binary101/inspect.js";
+import { createFb2File } from "../../../fixtures/document-sample-files.js";
+import { createPngFile } from "../../../fixtures/image-sample-files.js";
+
+const withTemporaryDirectory = async (run: (directory: string) => Promise<void>): Promise<void> => {
+  const directory = await mkdtemp(join(tmpdir(), "binary101-inspect-"));
+  try {
+    await run(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+};
+
+void test("walkPaths lists directory trees in name order and passes file paths through", async () => {
+  await withTemporaryDirectory(async directory => {
+    await mkdir(join(directory, "b"));
+    await writeFile(join(directory, "b", "inner.bin"), "x");
+    await writeFile(join(directory, "c.bin"), "x");
+    await writeFile(join(directory, "a.bin"), "x");
+
+    const paths: string[] = [];
+    for await (const path of walkPaths(directory)) paths.push(path);
+
+    assert.deepEqual(paths, [join(directory, "a.bin"), join(directory, "b", "inner.bin"), join(directory, "c.bin")]);
+  });
+});
+
+void test("createInspector detects, hashes and parses a file from disk", async () => {
+  await withTemporaryDirectory(async directory => {
+    const png = createPngFile();
+    const path = join(directory, "sample.png");
+    await writeFile(path, png.data);
+
+    const record = await createInspector({ analyzers: null, hashes: ["sha256"] })(path);
+
+    assert.equal(record.path, path);
+    assert.equal(record.size, png.size);
+    assert.match(record.detectedType ?? "", /PNG/);
+    assert.deepEqual(record.hashes, { sha256: createHash("sha256").update(png.data).digest("hex") });
+    assert.equal(record.analyzer, "png");
+    assert.ok(record.parsed);
+  });
+});
+
+void test("createInspector parses XML-backed formats without a browser DOMParser", async () => {
+  await withTemporaryDirectory(async directory => {
+    const path = join(directory, "sample.fb2");
+    await writeFile(path, createFb2File().data);
+
+    const record = await createInspector({ analyzers: null, hashes: [] })(path);
+
+    assert.equal(record.analyzer, "fb2");
+    assert.equal(record.hashes, undefined);
+  });
+});
+
+void test("createInspector skips analyzers that were not selected", async () => {
+  await withTemporaryDirectory(async directory => {
+    const path = join(directory, "sample.png");
+    await writeFile(path, createPngFile().data);
+
+    const record = await createInspector({ analyzers: new Set(["elf"]), hashes: [] })(path);
+
+    assert.match(record.detectedType ?? "", /PNG/);
+    assert.equal(record.analyzer, null);
+    assert.equal(record.parsed, null);
+  });
+});
+
+void test("createInspector reports unreadable paths as error records", async () => {
+  const path = join(tmpdir(), "binary101-inspect-missing", "absent.bin");
+
+  const record = await createInspector({ analyzers: null, hashes: [] })(path);
+
+  assert.equal(record.path, path);
+  assert.match(record.error ?? "", /ENOENT/);
+});
@@ -0,0 +1,84 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  buildAnalysisReport,
+  isAnalysisReportFormat,
+  renderAnalysisReportHtml,
+  renderAnalysisReportJson,
+  renderAnalysisReportMarkdown,
+  reportFileName
+} from "../../../ui/analysis-report.js";
+import { parseForUi } from "../../../analyzers/index.js";
+import { createPngFile } from "../../fixtures/image-sample-files.js";
+
+const createReport = async () => {
+  const file = createPngFile();
+  return buildAnalysisReport({
+    file: new File([file], "sample <1>.png", { type: "image/png", lastModified: Date.UTC(2026, 0, 2) }),
+    detectedType: "PNG image",
+    details: [{ label: "File name", value: "sample <1>.png" }, { label: "Binary type", value: "PNG image" }],
+    hashes: { sha256: "ab".repeat(32), md5: "cd".repeat(16) },
+    result: await parseForUi(file),
+    generatedAt: "2026-10-19T10:00:00.000Z"
+  });
+};
+
+void test("buildAnalysisReport records file metadata, hashes and the parse result", async () => {
+  const report = await createReport();
+
+  assert.deepEqual(report.file, {
+    name: "sample <1>.png",
+    size: createPngFile().size,
+    mimeType: "image/png",
+    lastModified: "2026-01-02T00:00:00.000Z"
+  });
+  assert.equal(report.analyzer, "png");
+  assert.ok(report.parsed);
+});
+
+void test("renderAnalysisReportJson is stable JSON of the whole report", async () => {
+  const report = await createReport();
+  const parsed = JSON.parse(renderAnalysisReportJson(report)) as Record<string, unknown>;
+
+  assert.deepEqual(Object.keys(parsed), [
+    "generatedAt", "file", "detectedType", "details", "hashes", "analyzer", "diagnostics", "parsed"
+  ]);
+  assert.equal(renderAnalysisReportJson(report), renderAnalysisReportJson(report));
+});
+
+void test("renderAnalysisReportMarkdown lists details and hashes in algorithm order", async () => {
+  const markdown = renderAnalysisReportMarkdown(await createReport(), "### Header\n\nBody");
+
+  assert.match(markdown, /^# Binary101 report: sample \\<1\\>\.png\n/);
+  assert.match(markdown, /- \*\*File name\*\*: sample \\<1\\>\.png\n- \*\*Binary type\*\*: PNG image/);
+  assert.match(markdown, /\| MD5 \| `(?:cd){16}` \|\n\| SHA-256 \| `(?:ab){32}` \|/);
+  assert.match(markdown, /## PNG details\n\n### Header\n\nBody\n$/);
+});
+
+void test("renderAnalysisReportHtml builds an escaped offline document", async () => {
+  const html = renderAnalysisReportHtml(await createReport(), "<section>Rendered</section>", "body{color:red}</style>");
+
+  assert.match(html, /^<!doctype html>/);
+  assert.match(html, /content="default-src 'none'; img-src data:; style-src 'unsafe-inline'"/);
+  assert.match(html, /<title>Binary101 report: sample &lt;1>\.png<\/title>/);
+  assert.match(html, /<style>body\{color:red\}<\\\/style><\/style>/);
+  assert.match(html, /<dd id="analysisValue"><section>Rendered<\/section><\/dd>/);
+  assert.doesNotMatch(html, /<script/i);
+});
+
+void test("reports without analysis or hashes say so", async () => {
+  const report = { ...(await createReport()), hashes: {}, analyzer: null, parsed: null };
+
+  assert.match(renderAnalysisReportMarkdown(report, ""), /No hashes were computed\.[\s\S]*## Analysis details\n\n/);
+  assert.match(renderAnalysisReportHtml(report, "", ""), /No format-specific analysis is available/);
+});
+
+void test("reportFileName sanitizes the inspected name and adds the format extension", () => {
+  assert.equal(reportFileName("../dir/my file.exe", "markdown"), "my_file.exe.report.md");
+  assert.equal(reportFileName("", "json"), "file.report.json");
+  assert.equal(isAnalysisReportFormat("html"), true);
+  assert.equal(isAnalysisReportFormat("pdf"), false);
+  assert.equal(isAnalysisReportFormat(null), false);
+});
@@ -0,0 +1,117 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { CatalogParseResult } from "../../../analyzers/catalog/types.js";
+import type { AuthenticodeDigestAlgorithm } from "../../../analyzers/pe/authenticode/digest-algorithms.js";
+import type { ParseForUiResult } from "../../../analyzers/index.js";
+import { createCatalogsController } from "../../../ui/catalogs.js";
+
+class FakeElement {
+  files: File[] | null = null;
+  hidden = true;
+  innerHTML = "";
+  textContent: string | null = "";
+  value = "";
+  private readonly listeners = new Map<string, (event: { target: unknown }) => void>();
+  addEventListener(type: string, listener: (event: { target: unknown }) => void): void {
+    this.listeners.set(type, listener);
+  }
+  dispatch(type: string, target: unknown = this): void {
+    this.listeners.get(type)?.({ target });
+  }
+  click(): void {
+    this.dispatch("click");
+  }
+}
+
+const DRIVER_DIGEST = "5c".repeat(32);
+const PE_RESULT = { analyzer: "pe", parsed: null } as unknown as ParseForUiResult;
+
+const catalogFor = (digest: string): CatalogParseResult => ({
+  members: [{
+    tag: digest.toUpperCase(),
+    digestAlgorithm: "SHA-256",
+    digest,
+    subjectType: null,
+    memberGuid: null,
+    attributes: [{ name: "File", value: "driver.sys", flags: null }]
+  }],
+  thisUpdate: null,
+  trust: { status: "trusted", reason: "chains to root" }
+} as unknown as CatalogParseResult);
+
+const createPanel = (digest: string | null) => {
+  const elements = {
+    loadButtonElement: new FakeElement(),
+    fileInputElement: new FakeElement(),
+    summaryElement: new FakeElement(),
+    statusElement: new FakeElement(),
+    listsElement: new FakeElement(),
+    termElement: new FakeElement(),
+    detailElement: new FakeElement()
+  };
+  const requested: AuthenticodeDigestAlgorithm[][] = [];
+  let nextId = 0;
+  const controller = createCatalogsController({
+    loadButtonElement: elements.loadButtonElement as unknown as HTMLButtonElement,
+    fileInputElement: elements.fileInputElement as unknown as HTMLInputElement,
+    summaryElement: elements.summaryElement as unknown as HTMLElement,
+    statusElement: elements.statusElement as unknown as HTMLElement,
+    listsElement: elements.listsElement as unknown as HTMLElement,
+    termElement: elements.termElement as unknown as HTMLElement,
+    detailElement: elements.detailElement as unknown as HTMLElement,
+    parseCatalog: async file => file.name.endsWith(".cat") ? catalogFor(DRIVER_DIGEST) : null,
+    computeDigests: async (_file, algorithms) => {
+      requested.push([...algorithms]);
+      return digest == null ? null : new Map([["SHA-256", digest]]);
+    },
+    createId: () => `catalog-${++nextId}`
+  });
+  return { elements, controller, requested };
+};
+
+const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+const importFiles = async (elements: ReturnType<typeof createPanel>["elements"], files: File[]): Promise<void> => {
+  elements.fileInputElement.files = files;
+  elements.fileInputElement.dispatch("change");
+  await flush();
+};
+
+void test("catalogs controller hides the file row until catalogs are loaded", async () => {
+  const { elements, controller, requested } = createPanel(DRIVER_DIGEST);
+  await controller.show(new File(["MZ"], "driver.sys"), PE_RESULT);
+  assert.equal(elements.termElement.hidden, true);
+  assert.deepEqual(requested, []);
+});
+
+void test("catalogs controller imports catalogs and reports catalog-signed PE files", async () => {
+  const { elements, controller, requested } = createPanel(DRIVER_DIGEST);
+  await controller.show(new File(["MZ"], "driver.sys"), PE_RESULT);
+  await importFiles(elements, [new File(["x"], "driver.cat"), new File(["x"], "notes.txt")]);
+  assert.equal(elements.summaryElement.textContent, "1 catalog, 1 member");
+  assert.equal(elements.statusElement.textContent, "Not a security catalog: notes.txt.");
+  assert.match(elements.listsElement.innerHTML, /data-catalog-remove="catalog-1"/);
+  assert.deepEqual(requested, [["SHA-256"]]);
+  assert.equal(elements.termElement.hidden, false);
+  assert.match(elements.detailElement.innerHTML, /Signed via catalog driver\.cat/);
+
+  elements.listsElement.dispatch("click", {
+    closest: () => ({ getAttribute: () => "catalog-1" })
+  });
+  await flush();
+  assert.equal(elements.summaryElement.textContent, "No catalogs loaded");
+  assert.equal(elements.termElement.hidden, true);
+});
+
+void test("catalogs controller reports unlisted PE files and skips other formats", async () => {
+  const { elements, controller } = createPanel("00".repeat(32));
+  await importFiles(elements, [new File(["x"], "driver.cat")]);
+  await controller.show(new File(["MZ"], "other.exe"), PE_RESULT);
+  assert.match(elements.detailElement.innerHTML, /not listed in any of 1 catalog/);
+  await controller.show(new File(["x"], "notes.txt"), { analyzer: null, parsed: null });
+  assert.equal(elements.termElement.hidden, true);
+  controller.reset();
+  assert.equal(elements.detailElement.innerHTML, "");
+});
@@ -0,0 +1,62 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseForUi } from "../../../analyzers/parse-for-ui.js";
+import { createCoverageMapController, type CoverageMapConfig } from "../../../ui/coverage-map.js";
+import { createVisiblePngFile } from "../../fixtures/image-sample-files.js";
+import { MockFile } from "../../helpers/mock-file.js";
+
+type Listener = () => void;
+
+const createFakeElement = () => ({
+  open: false,
+  innerHTML: "",
+  textContent: "",
+  listeners: new Map<string, Listener>(),
+  addEventListener(name: string, listener: Listener) {
+    this.listeners.set(name, listener);
+  }
+});
+
+const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+const createHarness = () => {
+  const elements = {
+    detailsElement: createFakeElement(),
+    summaryElement: createFakeElement(),
+    statusElement: createFakeElement(),
+    resultsElement: createFakeElement()
+  };
+  const controller = createCoverageMapController(elements as unknown as CoverageMapConfig);
+  return { elements, controller };
+};
+
+void test("coverage map is built once the panel opens", async () => {
+  const { elements, controller } = createHarness();
+  const file = createVisiblePngFile();
+  controller.show(file, await parseForUi(file));
+  await flush();
+  assert.equal(elements.resultsElement.innerHTML, "");
+
+  elements.detailsElement.open = true;
+  elements.detailsElement.listeners.get("toggle")?.();
+  await flush();
+  assert.equal(elements.summaryElement.textContent, "100.0% interpreted, 0 unexplained regions");
+  assert.match(elements.resultsElement.innerHTML, /coverageMap__chart/);
+
+  controller.reset();
+  assert.equal(elements.resultsElement.innerHTML, "");
+  assert.equal(elements.summaryElement.textContent, "Interpreted and unexplained bytes");
+});
+
+void test("coverage map explains why formats without a structure map are skipped", async () => {
+  const { elements, controller } = createHarness();
+  elements.detailsElement.open = true;
+  const file = new MockFile(new TextEncoder().encode("plain text"), "notes.txt");
+  controller.show(file, await parseForUi(file));
+  await flush();
+  assert.equal(elements.summaryElement.textContent, "No structure map for this format");
+  assert.match(elements.statusElement.textContent, /needs a parsed PE, ELF/);
+  assert.equal(elements.resultsElement.innerHTML, "");
+});
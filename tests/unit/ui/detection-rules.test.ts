@@ -0,0 +1,84 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { ParseForUiResult } from "../../../analyzers/index.js";
+import { createDetectionRulesController, type DetectionRulesConfig } from "../../../ui/detection-rules.js";
+import { MockFile } from "../../helpers/mock-file.js";
+
+type Listener = (event: Event) => void;
+
+type FakeElement = {
+  open: boolean;
+  value: string;
+  innerHTML: string;
+  textContent: string;
+  files: File[];
+  listeners: Map<string, Listener>;
+  classList: { add(name: string): void; remove(name: string): void };
+  addEventListener(name: string, listener: Listener): void;
+  click(): void;
+};
+
+const createFakeElement = (): FakeElement => ({
+  open: false,
+  value: "",
+  innerHTML: "",
+  textContent: "",
+  files: [],
+  listeners: new Map(),
+  classList: { add: () => {}, remove: () => {} },
+  addEventListener(name, listener) {
+    this.listeners.set(name, listener);
+  },
+  click() {
+    this.listeners.get("click")?.({} as Event);
+  }
+});
+
+const NO_RESULT: ParseForUiResult = { analyzer: null, parsed: null };
+
+const createHarness = () => {
+  const elements = {
+    detailsElement: createFakeElement(),
+    sourceElement: createFakeElement(),
+    applyButtonElement: createFakeElement(),
+    loadButtonElement: createFakeElement(),
+    fileInputElement: createFakeElement(),
+    summaryElement: createFakeElement(),
+    resultsElement: createFakeElement()
+  };
+  const controller = createDetectionRulesController(elements as unknown as DetectionRulesConfig);
+  return { elements, controller };
+};
+
+const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+void test("detection rules run against each shown file after they are applied", async () => {
+  const { elements, controller } = createHarness();
+  elements.sourceElement.value = "rule has_mz { strings: $mz = \"MZ\" condition: $mz at 0 }";
+  elements.applyButtonElement.click();
+  await flush();
+  assert.equal(elements.summaryElement.textContent, "1 rule loaded");
+  await controller.show(new MockFile(new Uint8Array([0x4d, 0x5a, 0x90])), NO_RESULT);
+  assert.equal(elements.summaryElement.textContent, "1 of 1 rule matched");
+  assert.match(elements.resultsElement.innerHTML, /<b>has_mz<\/b>/);
+  await controller.show(new MockFile(new Uint8Array([0x7f, 0x45])), NO_RESULT);
+  assert.equal(elements.summaryElement.textContent, "0 of 1 rule matched");
+  controller.reset();
+  assert.equal(elements.resultsElement.innerHTML, "");
+  assert.equal(elements.summaryElement.textContent, "1 rule loaded");
+});
+
+void test("detection rules load a rule file and report its syntax errors", async () => {
+  const { elements } = createHarness();
+  const ruleFile = new MockFile(new TextEncoder().encode("rule broken { condition: }"), "rules.yar");
+  elements.fileInputElement.files = [ruleFile];
+  elements.fileInputElement.listeners.get("change")?.({} as Event);
+  await flush();
+  await flush();
+  assert.equal(elements.sourceElement.value, "rule broken { condition: }");
+  assert.equal(elements.detailsElement.open, true);
+  assert.equal(elements.summaryElement.textContent, "0 rules loaded");
+  assert.match(elements.resultsElement.innerHTML, /Line 1: unexpected &quot;}&quot; in condition/);
+});
@@ -2,6 +2,7 @@
 
 import assert from "node:assert/strict";
 import { test } from "node:test";
+import type { TriageRecord } from "../../../../analyzers/triage/types.js";
 import { scanDirectoryFileRows } from "../../../../ui/directory-file-scanning.js";
 import type { BrowserFileHandle, DirectoryRow } from "../../../../ui/directory-handles.js";
 import type { DirectoryFileCells } from "../../../../ui/directory-table-rendering.js";
@@ -98,3 +99,78 @@ void test("scanDirectoryFileRows reports detector failures and cancellation", as
   assert.equal(cells.typeCell.textContent, "Unable to detect: probe failed");
   assert.equal(cancelled, null);
 });
+
+void test("scanDirectoryFileRows records hashes and facts for deep triage scans", async () => {
+  const records: TriageRecord[] = [];
+  const rows: DirectoryRow[] = [
+    { kind: "file", path: "abc.txt", handle: new FakeFileHandle("abc.txt", new File(["abc"], "abc.txt")) },
+    { kind: "file", path: "gone.bin", handle: new FakeFileHandle("gone.bin", new Error("missing")) }
+  ];
+  await scanDirectoryFileRows(
+    {
+      progressWrapElement: new FakeElement() as unknown as HTMLElement,
+      progressElement: new FakeElement() as unknown as HTMLProgressElement,
+      progressTextElement: new FakeElement() as unknown as HTMLElement,
+      detectFileType: async () => "Text file",
+      describeFile: async () => { throw new Error("no parser"); },
+      triage: { isDeepScan: () => true, add: record => records.push(record) },
+      yieldToBrowser: async () => undefined
+    },
+    rows,
+    new Map([["abc.txt", createCells()], ["gone.bin", createCells()]]),
+    () => true
+  );
+
+  assert.equal(records.length, 2);
+  assert.equal(records[0]?.size, 3);
+  assert.equal(records[0]?.detectedType, "Text file");
+  assert.equal(records[0]?.hashes.sha256, "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  assert.equal(records[0]?.facts, null);
+  assert.equal(records[0]?.error, "Unable to parse: no parser");
+  assert.equal(records[1]?.size, null);
+  assert.equal(records[1]?.error, "Unable to read: missing");
+});
+
+void test("scanDirectoryFileRows reuses deep scan digests and keeps the row on a hashing failure", async () => {
+  const records: TriageRecord[] = [];
+  const lookups: Array<readonly string[] | undefined> = [];
+  const unreadable = new File(["abc"], "locked.bin");
+  unreadable.stream = () => { throw new Error("lock violation"); };
+  const lockedCells = createCells();
+  const rows: DirectoryRow[] = [
+    { kind: "file", path: "abc.txt", handle: new FakeFileHandle("abc.txt", new File(["abc"], "abc.txt")) },
+    { kind: "file", path: "locked.bin", handle: new FakeFileHandle("locked.bin", unreadable) }
+  ];
+  await scanDirectoryFileRows(
+    {
+      progressWrapElement: new FakeElement() as unknown as HTMLElement,
+      progressElement: new FakeElement() as unknown as HTMLProgressElement,
+      progressTextElement: new FakeElement() as unknown as HTMLElement,
+      detectFileType: async () => "Text file",
+      lookupKnownHashes: async (_file, digests) => {
+        lookups.push(digests);
+        return [];
+      },
+      describeFile: async () => { throw new Error("no parser"); },
+      triage: { isDeepScan: () => true, add: record => records.push(record) },
+      yieldToBrowser: async () => undefined
+    },
+    rows,
+    new Map([["abc.txt", createCells()], ["locked.bin", lockedCells]]),
+    () => true
+  );
+
+  assert.deepEqual(lookups, [
+    [
+      "900150983cd24fb0d6963f7d28e17f72",
+      "a9993e364706816aba3e25717850c26c9cd0d89d",
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    ],
+    undefined
+  ]);
+  assert.equal(lockedCells.typeCell.textContent, "Text file");
+  assert.equal(records[1]?.detectedType, "Text file");
+  assert.equal(records[1]?.knownHash, null);
+  assert.deepEqual(records[1]?.hashes, {});
+  assert.equal(records[1]?.error, "Unable to hash: lock violation");
+});
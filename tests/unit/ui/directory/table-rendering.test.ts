@@ -6,6 +6,7 @@ import {
   clearDirectoryTables,
   renderDirectoryTables,
   setFileMetadataCells,
+  setKnownHashBadge,
   setUnreadableFileCells
 } from "../../../../ui/directory-table-rendering.js";
 import type {
@@ -26,8 +27,8 @@ class FakeElement {
   tabIndex = -1;
   textContent: string | null = "";
   title = "";
-  append(...nodes: FakeElement[]): void {
-    this.children.push(...nodes);
+  append(...nodes: Array<FakeElement | string>): void {
+    this.children.push(...nodes.filter((node): node is FakeElement => typeof node !== "string"));
   }
   replaceChildren(...nodes: FakeElement[]): void {
     this.children.splice(0, this.children.length, ...nodes);
@@ -136,3 +137,34 @@ void test("directory table rendering reports unreadable files and clears section
     browser.restore();
   }
 });
+
+void test("setKnownHashBadge marks rows found on a hash list", () => {
+  const browser = installFakeDocument();
+  const elements = createElements();
+  try {
+    const fileCells = renderDirectoryTables(asTableElements(elements), [
+      { kind: "file", path: "dropper.exe", handle: new FakeFileHandle("dropper.exe") }
+    ]);
+    const cells = fileCells.get("dropper.exe");
+    assert.ok(cells);
+    setKnownHashBadge(cells, []);
+    assert.equal(cells.rowElement.dataset["knownHash"], undefined);
+    const list = {
+      id: "deny",
+      name: "iocs.txt",
+      verdict: "bad" as const,
+      format: "text" as const,
+      algorithms: ["md5" as const],
+      entryCount: 1,
+      importedAt: "2024-01-01T00:00:00.000Z"
+    };
+    setKnownHashBadge(cells, [{ list, entry: { algorithm: "md5", digest: "0".repeat(32), name: null } }]);
+    assert.equal(cells.rowElement.dataset["knownHash"], "bad");
+    const badge = (cells.typeCell as unknown as FakeElement).children.at(-1);
+    assert.equal(badge?.className, "knownHashBadge knownHashBadge--bad");
+    assert.equal(badge?.textContent, "Known bad");
+    assert.equal(badge?.title, "iocs.txt");
+  } finally {
+    browser.restore();
+  }
+});
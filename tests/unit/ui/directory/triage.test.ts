@@ -0,0 +1,82 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { TriageRecord } from "../../../../analyzers/triage/types.js";
+import { createDirectoryTriageController } from "../../../../ui/directory-triage.js";
+
+class FakeElement {
+  checked = false;
+  disabled = false;
+  innerHTML = "";
+  private readonly listeners = new Map<string, () => void>();
+  addEventListener(type: string, listener: () => void): void {
+    this.listeners.set(type, listener);
+  }
+  dispatch(type: string): void {
+    this.listeners.get(type)?.();
+  }
+}
+
+const record: TriageRecord = {
+  path: "bin/tool.exe",
+  size: 3,
+  mimeType: "application/x-msdownload",
+  lastModified: "2024-01-02T03:04:05.000Z",
+  detectedType: "PE32 executable",
+  error: null,
+  hashes: {},
+  knownHash: null,
+  facts: null
+};
+
+const createPanel = () => {
+  const elements = {
+    deepScanElement: new FakeElement(),
+    csvButtonElement: new FakeElement(),
+    jsonLinesButtonElement: new FakeElement(),
+    statisticsElement: new FakeElement()
+  };
+  const downloads: Array<{ blob: Blob; filename: string }> = [];
+  const controller = createDirectoryTriageController({
+    deepScanElement: elements.deepScanElement as unknown as HTMLInputElement,
+    csvButtonElement: elements.csvButtonElement as unknown as HTMLButtonElement,
+    jsonLinesButtonElement: elements.jsonLinesButtonElement as unknown as HTMLButtonElement,
+    statisticsElement: elements.statisticsElement as unknown as HTMLElement,
+    download: (blob, filename) => downloads.push({ blob, filename })
+  });
+  return { elements, downloads, controller };
+};
+
+void test("directory triage renders statistics and exports the finished scan", async () => {
+  const { elements, downloads, controller } = createPanel();
+  assert.equal(elements.csvButtonElement.disabled, true);
+  controller.start("My Folder");
+  assert.match(elements.statisticsElement.innerHTML, /Scanning/);
+  controller.add(record);
+  controller.finish();
+  assert.match(elements.statisticsElement.innerHTML, /PE32 executable/);
+  assert.equal(elements.csvButtonElement.disabled, false);
+  assert.equal(elements.jsonLinesButtonElement.disabled, false);
+
+  elements.csvButtonElement.dispatch("click");
+  elements.jsonLinesButtonElement.dispatch("click");
+  assert.deepEqual(downloads.map(download => download.filename), ["My_Folder-triage.csv", "My_Folder-triage.jsonl"]);
+  assert.match(await downloads[0]!.blob.text(), /^path,size,/);
+  assert.deepEqual(JSON.parse(await downloads[1]!.blob.text()), record);
+
+  controller.clear();
+  assert.equal(elements.statisticsElement.innerHTML, "");
+  assert.equal(elements.csvButtonElement.disabled, true);
+});
+
+void test("directory triage reports the deep scan option and its changes", () => {
+  const { elements, controller } = createPanel();
+  let changes = 0;
+  controller.onDeepScanChange(() => { changes += 1; });
+  assert.equal(controller.isDeepScan(), false);
+  elements.deepScanElement.checked = true;
+  elements.deepScanElement.dispatch("change");
+  assert.equal(controller.isDeepScan(), true);
+  assert.equal(changes, 1);
+});
@@ -0,0 +1,123 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { CarvedObject, CarvingScanOptions } from "../../../analyzers/carving/types.js";
+import { ANALYZE_ENTRY_ATTRIBUTE } from "../../../renderers/download-button.js";
+import type { NestedEntry } from "../../../ui/entry-delivery.js";
+import { createEmbeddedFilesController, type EmbeddedFilesConfig } from "../../../ui/embedded-files.js";
+import { MockFile } from "../../helpers/mock-file.js";
+
+type Listener = (event: Event) => void;
+
+type FakeElement = {
+  disabled: boolean;
+  hidden: boolean;
+  value: number;
+  max: number;
+  innerHTML: string;
+  textContent: string;
+  listeners: Map<string, Listener>;
+  addEventListener(name: string, listener: Listener): void;
+  fire(name: string, target?: unknown): void;
+};
+
+const createFakeElement = (): FakeElement => ({
+  disabled: false,
+  hidden: false,
+  value: 0,
+  max: 1,
+  innerHTML: "",
+  textContent: "",
+  listeners: new Map(),
+  addEventListener(name, listener) {
+    this.listeners.set(name, listener);
+  },
+  fire(name, target) {
+    this.listeners.get(name)?.({ target } as unknown as Event);
+  }
+});
+
+const createFakeButton = (attributes: Record<string, string>) => {
+  const button = {
+    getAttribute: (name: string): string | null => attributes[name] ?? null,
+    closest: () => button
+  };
+  return button;
+};
+
+const carved: CarvedObject = {
+  start: 4,
+  end: 10,
+  size: 6,
+  label: "PNG image",
+  endDescription: "End comes from the PNG IEND chunk.",
+  lengthKnown: true
+};
+
+const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+const createHarness = (scan: NonNullable<EmbeddedFilesConfig["scan"]>) => {
+  const elements = {
+    scanButton: createFakeElement(),
+    cancelButton: createFakeElement(),
+    progressElement: createFakeElement(),
+    statusElement: createFakeElement(),
+    resultsElement: createFakeElement()
+  };
+  const analyzed: NestedEntry[] = [];
+  const controller = createEmbeddedFilesController({
+    ...elements,
+    analyzeEntry: (entry: NestedEntry) => analyzed.push(entry),
+    scan
+  } as unknown as EmbeddedFilesConfig);
+  return { elements, analyzed, controller };
+};
+
+void test("embedded files scan on request and hand carved objects to the analyzer", async () => {
+  const { elements, analyzed, controller } = createHarness(async (_file, reader, options) => {
+    options?.onProgress?.({ bytesScanned: 8, totalBytes: reader.size, objectsFound: 1 });
+    return { objects: [carved], scannedBytes: reader.size };
+  });
+  controller.show(new MockFile(new Uint8Array(16), "dir/setup file.exe"));
+  assert.equal(elements.statusElement.textContent, "Not scanned.");
+  assert.equal(elements.resultsElement.innerHTML, "");
+
+  elements.scanButton.fire("click");
+  assert.equal(elements.scanButton.disabled, true);
+  assert.equal(elements.cancelButton.hidden, false);
+  await flush();
+  assert.equal(elements.progressElement.value, 8);
+  assert.match(elements.resultsElement.innerHTML, /1 embedded object found\./);
+  assert.match(elements.statusElement.textContent, /^Scanned /);
+  assert.equal(elements.scanButton.disabled, false);
+  assert.equal(elements.cancelButton.hidden, true);
+
+  elements.resultsElement.fire("click", createFakeButton({
+    "data-carved-start": "4",
+    "data-carved-end": "10",
+    [ANALYZE_ENTRY_ATTRIBUTE]: ""
+  }));
+  assert.equal(analyzed.length, 1);
+  assert.equal(analyzed[0]?.name, "setup_file.exe.carved-4-a.bin");
+  assert.equal(analyzed[0]?.label, "carved PNG image");
+  assert.equal(analyzed[0]?.blob.size, 6);
+});
+
+void test("embedded files scan can be cancelled", async () => {
+  let seenSignal: AbortSignal | undefined;
+  const { elements, controller } = createHarness((_file, _reader, options?: CarvingScanOptions) => {
+    seenSignal = options?.signal;
+    return new Promise((_resolve, reject) => {
+      options?.signal?.addEventListener("abort", () => reject(new Error("Embedded content scan aborted.")));
+    });
+  });
+  controller.show(new MockFile(new Uint8Array(16)));
+  elements.scanButton.fire("click");
+  elements.cancelButton.fire("click");
+  await flush();
+  assert.equal(seenSignal?.aborted, true);
+  assert.equal(elements.statusElement.textContent, "Scan cancelled.");
+  assert.equal(elements.resultsElement.innerHTML, "");
+  assert.equal(elements.cancelButton.hidden, true);
+});
@@ -0,0 +1,95 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseForUi } from "../../../analyzers/parse-for-ui.js";
+import { createEntropyProfileController, type EntropyProfileConfig } from "../../../ui/entropy-profile.js";
+import { createMp4File } from "../../fixtures/mp4-fixtures.js";
+
+type Listener = (event: Event) => void;
+
+const createFakeElement = () => ({
+  open: false,
+  innerHTML: "",
+  textContent: "",
+  listeners: new Map<string, Listener>(),
+  addEventListener(name: string, listener: Listener) {
+    this.listeners.set(name, listener);
+  }
+});
+
+const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+const createHarness = () => {
+  const details = { tagName: "DETAILS", open: false, parentElement: null };
+  const classes = new Set<string>();
+  const row = {
+    parentElement: details,
+    classList: { add: (name: string) => classes.add(name), remove: (name: string) => classes.delete(name) },
+    closest: () => row,
+    scrolled: false,
+    scrollIntoView() {
+      this.scrolled = true;
+    }
+  };
+  const selectors: string[] = [];
+  // Rows of the first page (Box mdat) are in the DOM; Box ftyp is on another page of a paged table.
+  const visibleStarts = new Set(["943"]);
+  const pagedRows: string[] = [];
+  const tableRoot = {
+    querySelector: (selector: string) => {
+      selectors.push(selector);
+      return [...visibleStarts].some(start => selector.includes(`start="${start}"`)) ? row : null;
+    }
+  };
+  const showPagedRow = (_root: unknown, html: string): boolean => {
+    pagedRows.push(html);
+    if (!html.includes("data-file-range-start=\"0\"")) return false;
+    visibleStarts.add("0");
+    return true;
+  };
+  const elements = {
+    detailsElement: createFakeElement(),
+    statusElement: createFakeElement(),
+    chartElement: createFakeElement()
+  };
+  const controller = createEntropyProfileController(
+    { ...elements, tableRoot, showPagedRow } as unknown as EntropyProfileConfig
+  );
+  return { elements, controller, details, row, classes, selectors, pagedRows };
+};
+
+const clickBand = (chart: ReturnType<typeof createFakeElement>, start: number, end: number): void => {
+  const band = { getAttribute: (name: string) => String(name.endsWith("start") ? start : end) };
+  chart.listeners.get("click")?.({ target: { closest: () => band } } as unknown as Event);
+};
+
+void test("entropy profile is calculated once the panel opens and bands jump to table rows", async () => {
+  const { elements, controller, details, row, classes, selectors, pagedRows } = createHarness();
+  const file = createMp4File();
+  controller.show(file, await parseForUi(file));
+  await flush();
+  assert.equal(elements.chartElement.innerHTML, "");
+  elements.detailsElement.open = true;
+  elements.detailsElement.listeners.get("toggle")?.({} as Event);
+  for (let attempt = 0; attempt < 5 && !elements.chartElement.innerHTML; attempt += 1) await flush();
+  assert.match(elements.chartElement.innerHTML, /Box moov/);
+  clickBand(elements.chartElement, 943, 959);
+  assert.deepEqual(selectors, ["[data-file-range-start=\"943\"][data-file-range-end=\"959\"]"]);
+  assert.equal(details.open, true);
+  assert.equal(row.scrolled, true);
+  assert.ok(classes.has("entropyJumpTarget"));
+  assert.equal(elements.statusElement.textContent, "Showing Box mdat.");
+  assert.deepEqual(pagedRows, []);
+  clickBand(elements.chartElement, 0, 24);
+  assert.deepEqual(pagedRows, ["data-file-range-start=\"0\" data-file-range-end=\"24\""]);
+  assert.equal(elements.statusElement.textContent, "Showing Box ftyp.");
+  const moov = /data-entropy-structure-start="(\d+)" data-entropy-structure-end="(\d+)"><title>Box moov/
+    .exec(elements.chartElement.innerHTML);
+  assert.ok(moov);
+  clickBand(elements.chartElement, Number(moov[1]), Number(moov[2]));
+  assert.equal(elements.statusElement.textContent, "No table row shows Box moov.");
+  controller.reset();
+  assert.equal(classes.size, 0);
+  assert.equal(elements.chartElement.innerHTML, "");
+});
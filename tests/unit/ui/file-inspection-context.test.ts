@@ -2,23 +2,104 @@
 
 import assert from "node:assert/strict";
 import { test } from "node:test";
+import type { InspectionContext } from "../../../ui/inspection-context.js";
 import { createFileInspectionContext } from "../../../ui/file-inspection-context.js";
 
-const createElementMap = (): Map<string, { hidden: boolean; innerHTML: string; textContent: string }> => new Map([
-  ["fileObjectDetail", { hidden: false, innerHTML: "", textContent: "" }],
-  ["fileRelativePathDetail", { hidden: false, innerHTML: "", textContent: "" }],
-  ["fileRelativePathTerm", { hidden: false, innerHTML: "", textContent: "" }],
-  ["fileSourceDetail", { hidden: false, innerHTML: "", textContent: "" }]
-]);
+type FakeElement = {
+  hidden: boolean;
+  innerHTML: string;
+  textContent: string;
+  listener?: (event: Event) => void;
+  addEventListener(name: string, listener: (event: Event) => void): void;
+};
 
-void test("file inspection context renders and clears file context", () => {
+const createFakeElement = (): FakeElement => ({
+  hidden: false,
+  innerHTML: "",
+  textContent: "",
+  addEventListener(_name, listener) {
+    this.listener = listener;
+  }
+});
+
+const createElementMap = (): Map<string, FakeElement> => new Map([
+  "fileObjectDetail",
+  "fileRelativePathDetail",
+  "fileRelativePathTerm",
+  "fileSourceDetail",
+  "fileEntryPathDetail",
+  "fileEntryPathTerm"
+].map(id => [id, createFakeElement()]));
+
+const createController = () => {
   const elements = createElementMap();
-  const context = createFileInspectionContext(id => elements.get(id) as unknown as HTMLElement);
-  context.render({ source: "navigation", object: "file", relativePath: "docs/readme.txt" });
+  const opened: Array<{ file: File; context: InspectionContext }> = [];
+  const controller = createFileInspectionContext(
+    id => elements.get(id) as unknown as HTMLElement,
+    async (file, context) => { opened.push({ file, context }); }
+  );
+  return { controller, elements, opened };
+};
+
+void test("file inspection context renders and clears file context", () => {
+  const { controller, elements } = createController();
+  controller.render(new File([], "readme.txt"), { source: "navigation", object: "file", relativePath: "docs/readme.txt" });
   assert.match(elements.get("fileSourceDetail")?.innerHTML ?? "", />Navigation<\/span>/);
   assert.match(elements.get("fileObjectDetail")?.innerHTML ?? "", />File<\/span>/);
   assert.equal(elements.get("fileRelativePathDetail")?.textContent, "docs/readme.txt");
-  context.clear();
+  assert.equal(elements.get("fileEntryPathTerm")?.hidden, true);
+  controller.clear();
   assert.equal(elements.get("fileSourceDetail")?.innerHTML, "");
   assert.equal(elements.get("fileRelativePathTerm")?.hidden, true);
 });
+
+void test("file inspection context opens entries as nested inspections with a breadcrumb", () => {
+  const { controller, elements, opened } = createController();
+  const setup = new File([], "setup.exe");
+  controller.render(setup, { source: "selection", object: "file" });
+  controller.openEntry({ blob: new Blob(["7z"]), name: "setup.exe.payload-400.7z", label: "overlay 7z" });
+  const archive = opened[0];
+  assert.ok(archive);
+  assert.equal(archive.file.name, "setup.exe.payload-400.7z");
+  assert.equal(archive.context.source, "entry");
+  controller.render(archive.file, archive.context);
+  controller.openEntry({ blob: new Blob(["MZ"]), name: "app.dll", label: "bin/app.dll" });
+  const library = opened[1];
+  assert.ok(library);
+  controller.render(library.file, library.context);
+
+  const path = elements.get("fileEntryPathDetail");
+  assert.equal(path?.hidden, false);
+  assert.equal(elements.get("fileEntryPathTerm")?.hidden, false);
+  assert.match(path?.innerHTML ?? "", /data-entry-path-index="0">setup\.exe<\/button>/);
+  assert.match(path?.innerHTML ?? "", /data-entry-path-index="1">overlay 7z<\/button>/);
+  assert.match(path?.innerHTML ?? "", /aria-current="location">bin\/app\.dll<\/span>/);
+  assert.match(elements.get("fileSourceDetail")?.innerHTML ?? "", /class="opt sel" aria-current="true">Entry</);
+});
+
+void test("file inspection context reopens a containing file from the breadcrumb", () => {
+  const globals = globalThis as unknown as Record<string, unknown>;
+  const originalElement = globals["Element"];
+  class FakeTarget {
+    closest(): FakeTarget { return this; }
+    getAttribute(): string { return "0"; }
+  }
+  globals["Element"] = FakeTarget;
+  try {
+    const { controller, elements, opened } = createController();
+    const setup = new File([], "setup.exe");
+    const rootContext: InspectionContext = { source: "drop", object: "file" };
+    controller.render(new File([], "inner.bin"), {
+      source: "entry", object: "file", label: "overlay", parent: { file: setup, context: rootContext }
+    });
+    let prevented = false;
+    elements.get("fileEntryPathDetail")?.listener?.({
+      target: new FakeTarget(),
+      preventDefault: () => { prevented = true; }
+    } as unknown as Event);
+    assert.equal(prevented, true);
+    assert.deepEqual(opened, [{ file: setup, context: rootContext }]);
+  } finally {
+    globals["Element"] = originalElement;
+  }
+});
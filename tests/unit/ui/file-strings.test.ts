@@ -0,0 +1,96 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { ParseForUiResult } from "../../../analyzers/index.js";
+import { createFileStringsController, type FileStringsConfig } from "../../../ui/file-strings.js";
+import { MockFile } from "../../helpers/mock-file.js";
+
+type Listener = (event: Event) => void;
+
+type FakeElement = {
+  open: boolean;
+  value: string;
+  checked: boolean;
+  disabled: boolean;
+  innerHTML: string;
+  textContent: string;
+  dataset: Record<string, string>;
+  listeners: Map<string, Listener>;
+  addEventListener(name: string, listener: Listener): void;
+  querySelectorAll(selector: string): Element[];
+  fire(name: string): void;
+};
+
+const createFakeElement = (dataset: Record<string, string> = {}): FakeElement => ({
+  open: false,
+  value: "",
+  checked: true,
+  disabled: false,
+  innerHTML: "",
+  textContent: "",
+  dataset,
+  listeners: new Map(),
+  addEventListener(name, listener) {
+    this.listeners.set(name, listener);
+  },
+  querySelectorAll: () => [],
+  fire(name) {
+    this.listeners.get(name)?.({} as Event);
+  }
+});
+
+const NO_RESULT: ParseForUiResult = { analyzer: null, parsed: null };
+const bytes = new Uint8Array([0x00, ...new TextEncoder().encode("first string"), 0x00, 0x73, 0x68, 0x00,
+  ...new TextEncoder().encode("second")]);
+
+const createHarness = () => {
+  const encodingInputs = ["ascii", "utf8", "utf16le", "utf16be"].map(name => createFakeElement({ stringsEncoding: name }));
+  const elements = {
+    detailsElement: createFakeElement(),
+    minLengthInput: createFakeElement(),
+    filterInput: createFakeElement(),
+    exportButton: createFakeElement(),
+    statusElement: createFakeElement(),
+    resultsElement: createFakeElement()
+  };
+  elements.minLengthInput.value = "4";
+  const controller = createFileStringsController({ ...elements, encodingInputs } as unknown as FileStringsConfig);
+  return { elements, encodingInputs, controller };
+};
+
+const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+void test("file strings are extracted only once the panel is opened", async () => {
+  const { elements, controller } = createHarness();
+  controller.show(new MockFile(bytes), NO_RESULT);
+  await flush();
+  assert.equal(elements.resultsElement.innerHTML, "");
+  elements.detailsElement.open = true;
+  elements.detailsElement.fire("toggle");
+  for (let attempt = 0; attempt < 5 && !elements.resultsElement.innerHTML; attempt += 1) await flush();
+  assert.equal(elements.statusElement.textContent, "2 strings.");
+  assert.match(elements.resultsElement.innerHTML, /first string/);
+  assert.equal(elements.exportButton.disabled, false);
+  elements.filterInput.value = "SECOND";
+  elements.filterInput.fire("input");
+  assert.equal(elements.statusElement.textContent, "1 of 2 strings match the filter.");
+  assert.doesNotMatch(elements.resultsElement.innerHTML, /first string/);
+  controller.reset();
+  assert.equal(elements.resultsElement.innerHTML, "");
+  assert.equal(elements.exportButton.disabled, true);
+});
+
+void test("file strings rerun with the new minimum length and encodings", async () => {
+  const { elements, encodingInputs, controller } = createHarness();
+  elements.detailsElement.open = true;
+  controller.show(new MockFile(bytes), NO_RESULT);
+  await flush();
+  // Clamped to the smallest supported minimum length of 2.
+  elements.minLengthInput.value = "1";
+  encodingInputs.slice(1).forEach(input => { input.checked = false; });
+  elements.minLengthInput.fire("change");
+  for (let attempt = 0; attempt < 5 && elements.statusElement.textContent.startsWith("Extracting"); attempt += 1) await flush();
+  assert.equal(elements.statusElement.textContent, "3 strings.");
+  assert.match(elements.resultsElement.innerHTML, />sh</);
+});
@@ -0,0 +1,42 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { handleFindingsFilterClick } from "../../../ui/findings-filter.js";
+
+const createFindings = () => {
+  const rows = [{ hidden: false }, { hidden: false }];
+  const queries: string[] = [];
+  const section = {
+    querySelectorAll: (selector: string) => {
+      queries.push(selector);
+      return rows;
+    }
+  };
+  const attributes = new Map([["data-findings-severity", "warning"], ["aria-pressed", "true"]]);
+  const toggle = {
+    getAttribute: (name: string) => attributes.get(name) ?? null,
+    setAttribute: (name: string, value: string) => attributes.set(name, value),
+    closest: (selector: string) => (selector === ".findings" ? section : null)
+  };
+  const target = { closest: (selector: string) => (selector.startsWith("button[") ? toggle : null) };
+  return { rows, queries, attributes, target: target as unknown as Element };
+};
+
+void test("handleFindingsFilterClick hides and shows the rows of the toggled severity", () => {
+  const { rows, queries, attributes, target } = createFindings();
+
+  assert.equal(handleFindingsFilterClick(target), true);
+  assert.equal(attributes.get("aria-pressed"), "false");
+  assert.deepEqual(rows, [{ hidden: true }, { hidden: true }]);
+  assert.deepEqual(queries, ["tr[data-finding-severity=\"warning\"]"]);
+
+  handleFindingsFilterClick(target);
+  assert.equal(attributes.get("aria-pressed"), "true");
+  assert.deepEqual(rows, [{ hidden: false }, { hidden: false }]);
+});
+
+void test("handleFindingsFilterClick ignores clicks outside the findings toggles", () => {
+  assert.equal(handleFindingsFilterClick(null), false);
+  assert.equal(handleFindingsFilterClick({ closest: () => null } as unknown as Element), false);
+});
@@ -0,0 +1,51 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseForUi } from "../../../analyzers/index.js";
+import { FORMAT_RENDERERS } from "../../../ui/format-renderers.js";
+import { renderAnalysisIntoUi } from "../../../ui/render-analysis.js";
+import { createCoffObjectFile } from "../../fixtures/coff-object-fixture.js";
+import { createMkvFile } from "../../fixtures/mkv-base-fixtures.js";
+
+void test("FORMAT_RENDERERS shares the Matroska renderer preview policy across WebM and MKV", () => {
+  assert.equal(FORMAT_RENDERERS.webm.preview, "video");
+  assert.equal(FORMAT_RENDERERS.mkv.preview, "video");
+  assert.notEqual(FORMAT_RENDERERS.webm.title, FORMAT_RENDERERS.mkv.title);
+});
+
+void test("renderAnalysisIntoUi skips previews the format does not support", async () => {
+  const parsed = await parseForUi(createCoffObjectFile());
+  const previewHtml = "<div>image preview</div>";
+  const guardedPreviews: unknown[] = [];
+  const termElement = { textContent: "", hidden: true } as unknown as HTMLElement;
+  const valueElement = { innerHTML: "", hidden: true } as unknown as HTMLElement;
+
+  renderAnalysisIntoUi(parsed, {
+    buildPreview: () => ({ kind: "image", html: previewHtml }),
+    attachGuards: preview => { guardedPreviews.push(preview); },
+    termElement,
+    valueElement
+  });
+
+  assert.equal(termElement.textContent, "COFF object details");
+  assert.equal(valueElement.innerHTML.includes(previewHtml), false);
+  assert.deepEqual(guardedPreviews, []);
+});
+
+void test("renderAnalysisIntoUi guards video previews for video formats", async () => {
+  const parsed = await parseForUi(createMkvFile());
+  const preview = { kind: "video" as const, html: "<div>video preview</div>" };
+  const guardedPreviews: unknown[] = [];
+  const termElement = { textContent: "", hidden: true } as unknown as HTMLElement;
+  const valueElement = { innerHTML: "", hidden: true } as unknown as HTMLElement;
+
+  renderAnalysisIntoUi(parsed, {
+    buildPreview: () => preview,
+    attachGuards: guardedPreview => { guardedPreviews.push(guardedPreview); },
+    termElement,
+    valueElement
+  });
+
+  assert.deepEqual(guardedPreviews, [preview]);
+});
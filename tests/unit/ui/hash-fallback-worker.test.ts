@@ -36,6 +36,15 @@ void test("handleHashWorkerMessage computes native algorithm fallbacks", async (
   );
 });
 
+void test("handleHashWorkerMessage returns fuzzy and checksum hashes as text", async () => {
+  const response = await handleHashWorkerMessage({
+    algorithmId: "blake3",
+    file: new File([], "empty.bin")
+  });
+
+  assert.deepEqual(response, { text: "af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262" });
+});
+
 void test("handleHashWorkerMessage rejects malformed requests", async () => {
   const response = await handleHashWorkerMessage({ algorithmId: "sha256" });
 
@@ -0,0 +1,40 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { HASH_ALGORITHMS, computeAndDisplayHash, type HashControls } from "../../../ui/hash-controls.js";
+
+const createControls = (label: string): { controls: HashControls; value: HTMLElement; copy: HTMLButtonElement } => {
+  const value = { textContent: "" } as HTMLElement;
+  const copy = { hidden: true } as HTMLButtonElement;
+  return {
+    controls: {
+      label,
+      valueElement: value,
+      buttonElement: { hidden: false, disabled: false, textContent: `Compute ${label}` } as HTMLButtonElement,
+      copyButtonElement: copy
+    },
+    value,
+    copy
+  };
+};
+
+void test("computeAndDisplayHash prints checksums and fuzzy hashes in their usual notation", async () => {
+  const file = new File([new TextEncoder().encode("123456789")], "digits.txt");
+  const expected: Array<[string, string]> = [
+    ["crc32", "cbf43926"],
+    ["xxh64", "8cb841db40e6ae83"],
+    ["blake3", "b7d65b48420d1033cb2595293263b6f72eabee20d55e699d0df1973b3c9deed1"],
+    ["ssdeep", "3:OWS:OWS"],
+    ["tlsh", "TNULL"]
+  ];
+
+  for (const [id, digest] of expected) {
+    const algorithm = HASH_ALGORITHMS.find(entry => entry.id === id);
+    assert.ok(algorithm);
+    const { controls, value, copy } = createControls(algorithm.label);
+    await computeAndDisplayHash(algorithm, file, controls);
+    assert.equal(value.textContent, digest);
+    assert.equal(copy.hidden, false);
+  }
+});
@@ -0,0 +1,45 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  MAX_HEX_SCROLL_HEIGHT,
+  createHexViewportLayout,
+  firstRowForScrollTop,
+  parseHexViewerOffset,
+  scrollTopForRow
+} from "../../../ui/hex-viewport.js";
+
+void test("createHexViewportLayout uses one pixel row per file row for small files", () => {
+  const layout = createHexViewportLayout(1000, 20, 16);
+  assert.equal(layout.rowCount, 63);
+  assert.equal(layout.contentHeight, 63 * 20);
+  assert.equal(firstRowForScrollTop(layout, 200), 10);
+  assert.equal(scrollTopForRow(layout, 10), 200);
+  assert.equal(firstRowForScrollTop(layout, 10_000), 63 - 16);
+});
+
+void test("createHexViewportLayout scales scrolling for files taller than the browser limit", () => {
+  const layout = createHexViewportLayout(64 * 1024 ** 3, 20, 16);
+  assert.equal(layout.contentHeight, MAX_HEX_SCROLL_HEIGHT);
+  const maxScrollTop = layout.contentHeight - 16 * 20;
+  assert.equal(firstRowForScrollTop(layout, maxScrollTop), layout.rowCount - 16);
+  const row = 1_000_000_000;
+  assert.ok(Math.abs(firstRowForScrollTop(layout, scrollTopForRow(layout, row)) - row) <= 1);
+});
+
+void test("createHexViewportLayout keeps empty files scrollable without rows", () => {
+  const layout = createHexViewportLayout(0, 20, 16);
+  assert.equal(layout.rowCount, 0);
+  assert.equal(layout.contentHeight, 320);
+  assert.equal(firstRowForScrollTop(layout, 50), 0);
+  assert.equal(scrollTopForRow(layout, 5), 0);
+});
+
+void test("parseHexViewerOffset accepts hexadecimal and decimal offsets", () => {
+  assert.equal(parseHexViewerOffset("0x1F0"), 0x1f0);
+  assert.equal(parseHexViewerOffset(" 4096 "), 4096);
+  assert.equal(parseHexViewerOffset("0x0000_0400"), 0x400);
+  assert.equal(parseHexViewerOffset("1f0"), null);
+  assert.equal(parseHexViewerOffset("-1"), null);
+});
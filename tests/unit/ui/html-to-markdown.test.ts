@@ -0,0 +1,58 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DOMParser as XmlDomParser } from "@xmldom/xmldom";
+import { escapeMarkdown, htmlNodeToMarkdown, type MarkdownSourceNode } from "../../../ui/html-to-markdown.js";
+
+const parseFragment = (html: string): MarkdownSourceNode =>
+  new XmlDomParser().parseFromString(`<div>${html}</div>`, "text/html")
+    .getElementsByTagName("div")[0] as unknown as MarkdownSourceNode;
+
+void test("htmlNodeToMarkdown turns details sections into nested headings", () => {
+  const markdown = htmlNodeToMarkdown(parseFragment(
+    "<details><summary><b>Headers</b></summary><p>Machine <code>x86-64</code></p>" +
+    "<details><summary>Flags</summary><div>Executable</div></details></details>"
+  ), 3);
+
+  assert.equal(markdown, "### Headers\n\nMachine `x86-64`\n\n#### Flags\n\nExecutable");
+});
+
+void test("htmlNodeToMarkdown renders definition lists and tables", () => {
+  const markdown = htmlNodeToMarkdown(parseFragment(
+    "<dl><dt>Entry point</dt><dd>0x1000</dd><dt>Flags</dt>" +
+    "<dd><span class=\"opt sel\">DLL</span><span class=\"opt dim\">EXE</span>" +
+    "<span class=\"opt sel\">NX</span></dd></dl>" +
+    "<table><thead><tr><th>Name</th><th>Size</th></tr></thead>" +
+    "<tbody><tr><td>.text</td><td>4 KB</td></tr><tr><td>a|b</td></tr></tbody></table>"
+  ));
+
+  assert.equal(
+    markdown,
+    "- **Entry point**: 0x1000\n- **Flags**: DLL NX\n\n" +
+    "| Name | Size |\n| --- | --- |\n| .text | 4 KB |\n| a\\|b |  |"
+  );
+});
+
+void test("htmlNodeToMarkdown drops controls, media and hidden elements", () => {
+  const markdown = htmlNodeToMarkdown(parseFragment(
+    "<p>Visible<button type=\"button\">Copy</button><span hidden=\"\">secret</span>" +
+    "<svg aria-hidden=\"true\"><path/></svg></p><video src=\"blob:x\"></video>" +
+    "<p aria-hidden=\"true\">decor</p><pre>line 1\n  line 2</pre>"
+  ));
+
+  assert.equal(markdown, "Visible\n\n```\nline 1\n  line 2\n```");
+});
+
+void test("htmlNodeToMarkdown keeps line breaks and external links", () => {
+  const markdown = htmlNodeToMarkdown(parseFragment(
+    "<p>First<br/>Second <a href=\"https://example.test/doc\">spec</a> " +
+    "<a href=\"#local\">local</a></p><ul><li>one</li><li><em>two</em></li></ul>"
+  ));
+
+  assert.equal(markdown, "First  \nSecond [spec](<https://example.test/doc>) local\n\n- one\n- *two*");
+});
+
+void test("escapeMarkdown escapes syntax characters but keeps identifiers readable", () => {
+  assert.equal(escapeMarkdown("IMAGE_FILE_DLL *x* [a] <b> _c_ `d`"), "IMAGE_FILE_DLL \\*x\\* \\[a\\] \\<b\\> \\_c\\_ \\`d\\`");
+});
@@ -83,3 +83,24 @@ void test("inspection navigation restores routes from browser history", () => {
   assert.deepEqual(openedDirectories, ["root"]);
   assert.deepEqual(emptyMessages, ["History entry is no longer available. Select the file or folder again."]);
 });
+
+void test("inspection navigation reports pushed and restored routes to the observer", async () => {
+  const history = new FakeHistory();
+  const targetWindow = new FakeWindow();
+  const observed: string[] = [];
+  const navigation = createInspectionNavigationController({
+    history,
+    targetWindow,
+    openDirectoryRoute: () => undefined,
+    openEmptyRoute: () => undefined,
+    openFileRoute: async () => undefined,
+    onOpenRoute: route => observed.push(route.kind === "file" ? route.file.name : route.kind)
+  });
+  navigation.initialize();
+  navigation.openDirectory(createDirectoryRoute("root"));
+  await navigation.openFile(new File(["a"], "alpha.txt"), { source: "selection", object: "file" });
+  targetWindow.dispatchPopState(history.pushedStates[0]);
+  targetWindow.dispatchPopState(history.replacedStates[0]);
+  targetWindow.dispatchPopState(null);
+  assert.deepEqual(observed, ["directory", "alpha.txt", "directory", "empty", "empty"]);
+});
@@ -0,0 +1,84 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createKaitaiController, type KaitaiConfig } from "../../../ui/kaitai.js";
+import { MockFile } from "../../helpers/mock-file.js";
+
+type Listener = (event: Event) => void;
+
+type FakeElement = {
+  open: boolean;
+  value: string;
+  innerHTML: string;
+  textContent: string;
+  files: File[];
+  listeners: Map<string, Listener>;
+  classList: { add(name: string): void; remove(name: string): void };
+  addEventListener(name: string, listener: Listener): void;
+  click(): void;
+};
+
+const createFakeElement = (): FakeElement => ({
+  open: false,
+  value: "",
+  innerHTML: "",
+  textContent: "",
+  files: [],
+  listeners: new Map(),
+  classList: { add: () => {}, remove: () => {} },
+  addEventListener(name, listener) {
+    this.listeners.set(name, listener);
+  },
+  click() {
+    this.listeners.get("click")?.({} as Event);
+  }
+});
+
+const createHarness = () => {
+  const elements = {
+    detailsElement: createFakeElement(),
+    sourceElement: createFakeElement(),
+    applyButtonElement: createFakeElement(),
+    loadButtonElement: createFakeElement(),
+    fileInputElement: createFakeElement(),
+    summaryElement: createFakeElement(),
+    resultsElement: createFakeElement()
+  };
+  const controller = createKaitaiController(elements as unknown as KaitaiConfig);
+  return { elements, controller };
+};
+
+const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+const DEFINITION = "meta:\n  id: pair\nseq:\n  - id: a\n    type: u1\n  - id: b\n    type: u1\n";
+
+void test("the Kaitai panel parses each shown file with the applied definition", async () => {
+  const { elements, controller } = createHarness();
+  elements.sourceElement.value = DEFINITION;
+  elements.applyButtonElement.click();
+  await flush();
+  assert.equal(elements.summaryElement.textContent, "pair loaded");
+  await controller.show(new MockFile(Uint8Array.from([1, 2])));
+  assert.equal(elements.summaryElement.textContent, "pair: 3 fields");
+  assert.match(elements.resultsElement.innerHTML, /data-file-range-start="1" data-file-range-end="2"><td>b<\/td>/);
+  await controller.show(new MockFile(Uint8Array.from([1])));
+  assert.equal(elements.summaryElement.textContent, "pair: 3 fields, stopped on an error");
+  assert.match(elements.resultsElement.innerHTML, /pair\.b: end of stream/);
+  controller.reset();
+  assert.equal(elements.resultsElement.innerHTML, "");
+  assert.equal(elements.summaryElement.textContent, "pair loaded");
+});
+
+void test("the Kaitai panel loads a .ksy file and reports definition errors", async () => {
+  const { elements } = createHarness();
+  const definition = new MockFile(new TextEncoder().encode("seq: [unclosed"), "broken.ksy");
+  elements.fileInputElement.files = [definition];
+  elements.fileInputElement.listeners.get("change")?.({} as Event);
+  await flush();
+  await flush();
+  assert.equal(elements.sourceElement.value, "seq: [unclosed");
+  assert.equal(elements.detailsElement.open, true);
+  assert.equal(elements.summaryElement.textContent, "Definition has errors");
+  assert.match(elements.resultsElement.innerHTML, /<li>YAML: /);
+});
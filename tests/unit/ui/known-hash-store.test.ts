@@ -0,0 +1,71 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { KnownHashList } from "../../../analyzers/known-hashes/types.js";
+import { createKnownHashStore } from "../../../ui/known-hash-store.js";
+import { createFakeIndexedDb, installFakeKeyRange } from "../../helpers/fake-indexed-db.js";
+
+const createList = (id: string, verdict: KnownHashList["verdict"]): KnownHashList => ({
+  id,
+  name: `${id}.txt`,
+  verdict,
+  format: "text",
+  algorithms: ["md5"],
+  entryCount: 1,
+  importedAt: "2024-01-01T00:00:00.000Z"
+});
+
+const details = ({ id: _id, entryCount: _count, ...rest }: KnownHashList) => rest;
+
+const DIGEST = "900150983cd24fb0d6963f7d28e17f72";
+
+void test("createKnownHashStore returns null without IndexedDB", () => {
+  assert.equal(createKnownHashStore(undefined), null);
+});
+
+void test("known hash store adds, looks up and removes lists", async () => {
+  const keyRange = installFakeKeyRange();
+  try {
+    const { records, factory } = createFakeIndexedDb();
+    const store = createKnownHashStore(factory);
+    assert.ok(store);
+    assert.deepEqual(await store.lists(), []);
+    const allow = createList("allow", "good");
+    const deny = createList("deny", "bad");
+    const allowWriter = store.importList("allow");
+    await allowWriter.write([{ algorithm: "md5", digest: DIGEST, name: "abc.txt" }]);
+    await allowWriter.write([{ algorithm: "md5", digest: DIGEST, name: "abc.txt" }]);
+    assert.deepEqual(await allowWriter.commit(details(allow)), allow);
+    const denyWriter = store.importList("deny");
+    await denyWriter.write([{ algorithm: "md5", digest: DIGEST, name: null }]);
+    await denyWriter.commit(details(deny));
+    assert.deepEqual(await store.lists(), [allow, deny]);
+    assert.deepEqual(await store.lookup([DIGEST, "0".repeat(32)]), [
+      { list: allow, entry: { algorithm: "md5", digest: DIGEST, name: "abc.txt" } },
+      { list: deny, entry: { algorithm: "md5", digest: DIGEST, name: null } }
+    ]);
+    await store.removeList("allow");
+    assert.deepEqual(await store.lists(), [deny]);
+    assert.deepEqual([...records("binary101-known-hashes", "hashes")!.keys()], [`deny:${DIGEST}`]);
+  } finally {
+    keyRange.restore();
+  }
+});
+
+void test("known hash store keeps uncommitted entries out of lookups and discards them", async () => {
+  const keyRange = installFakeKeyRange();
+  try {
+    const { records, factory } = createFakeIndexedDb();
+    const store = createKnownHashStore(factory);
+    assert.ok(store);
+    const writer = store.importList("partial");
+    await writer.write([{ algorithm: "md5", digest: DIGEST, name: null }]);
+    assert.deepEqual(await store.lookup([DIGEST]), []);
+    await writer.discard();
+    assert.deepEqual([...records("binary101-known-hashes", "hashes")!.keys()], []);
+    assert.deepEqual(await store.lists(), []);
+  } finally {
+    keyRange.restore();
+  }
+});
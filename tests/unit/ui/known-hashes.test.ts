@@ -0,0 +1,172 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { KnownHashEntry, KnownHashList } from "../../../analyzers/known-hashes/types.js";
+import type { KnownHashStore } from "../../../ui/known-hash-store.js";
+import { createKnownHashesController } from "../../../ui/known-hashes.js";
+
+class FakeElement {
+  disabled = false;
+  max = 1;
+  files: File[] | null = null;
+  hidden = true;
+  innerHTML = "";
+  textContent: string | null = "";
+  value: string | number = "";
+  private readonly listeners = new Map<string, (event: { target: unknown }) => void>();
+  addEventListener(type: string, listener: (event: { target: unknown }) => void): void {
+    this.listeners.set(type, listener);
+  }
+  dispatch(type: string, target: unknown = this): void {
+    this.listeners.get(type)?.({ target });
+  }
+  click(): void {
+    this.dispatch("click");
+  }
+}
+
+const createMemoryStore = (beforeWrite: () => Promise<void> = async () => undefined): KnownHashStore => {
+  const lists = new Map<string, { list: KnownHashList; entries: readonly KnownHashEntry[] }>();
+  return {
+    lists: async () => [...lists.values()].map(stored => stored.list),
+    importList: id => {
+      const entries: KnownHashEntry[] = [];
+      return {
+        write: async batch => {
+          await beforeWrite();
+          entries.push(...batch);
+        },
+        commit: async details => {
+          const list = { ...details, id, entryCount: entries.length };
+          lists.set(id, { list, entries });
+          return list;
+        },
+        discard: async () => { entries.length = 0; }
+      };
+    },
+    removeList: async id => { lists.delete(id); },
+    lookup: async digests => [...lists.values()].flatMap(({ list, entries }) =>
+      entries.filter(entry => digests.includes(entry.digest)).map(entry => ({ list, entry })))
+  };
+};
+
+const createPanel = (store: KnownHashStore | null) => {
+  const elements = {
+    verdictElement: new FakeElement(),
+    loadButtonElement: new FakeElement(),
+    cancelButtonElement: new FakeElement(),
+    progressElement: new FakeElement(),
+    fileInputElement: new FakeElement(),
+    summaryElement: new FakeElement(),
+    statusElement: new FakeElement(),
+    listsElement: new FakeElement(),
+    termElement: new FakeElement(),
+    detailElement: new FakeElement()
+  };
+  let nextId = 0;
+  const controller = createKnownHashesController({
+    verdictElement: elements.verdictElement as unknown as HTMLSelectElement,
+    loadButtonElement: elements.loadButtonElement as unknown as HTMLButtonElement,
+    cancelButtonElement: elements.cancelButtonElement as unknown as HTMLButtonElement,
+    progressElement: elements.progressElement as unknown as HTMLProgressElement,
+    fileInputElement: elements.fileInputElement as unknown as HTMLInputElement,
+    summaryElement: elements.summaryElement as unknown as HTMLElement,
+    statusElement: elements.statusElement as unknown as HTMLElement,
+    listsElement: elements.listsElement as unknown as HTMLElement,
+    termElement: elements.termElement as unknown as HTMLElement,
+    detailElement: elements.detailElement as unknown as HTMLElement,
+    store,
+    createId: () => `list-${++nextId}`,
+    now: () => "2024-01-01T00:00:00.000Z"
+  });
+  return { elements, controller };
+};
+
+const SHA256_ABC = "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad";
+
+const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+const importFile = async (elements: ReturnType<typeof createPanel>["elements"], file: File): Promise<void> => {
+  elements.fileInputElement.files = [file];
+  elements.fileInputElement.dispatch("change");
+  await flush();
+};
+
+void test("known hashes controller is disabled without a store", async () => {
+  const { elements, controller } = createPanel(null);
+  await controller.restore();
+  assert.equal(elements.loadButtonElement.disabled, true);
+  assert.match(elements.statusElement.textContent ?? "", /IndexedDB/);
+  assert.deepEqual(controller.show(new File(["abc"], "abc.txt")), []);
+  assert.equal(await controller.lookupFile(new File(["abc"], "abc.txt")), null);
+  assert.equal(elements.termElement.hidden, true);
+});
+
+void test("known hashes controller imports a list and flags the shown file", async () => {
+  const { elements, controller } = createPanel(createMemoryStore());
+  await controller.restore();
+  assert.equal(elements.summaryElement.textContent, "No lists loaded");
+  elements.verdictElement.value = "bad";
+  await importFile(elements, new File([`${SHA256_ABC}  dropper.exe\nnoise\n`], "iocs.txt"));
+  assert.equal(elements.summaryElement.textContent, "1 list, 1 hash");
+  assert.equal(
+    elements.statusElement.textContent,
+    "Imported 1 hashes from iocs.txt; 1 lines without a hash were skipped."
+  );
+  assert.match(elements.listsElement.innerHTML, /data-known-hash-remove="list-1"/);
+  assert.equal(elements.progressElement.value, 84);
+  assert.equal(elements.progressElement.hidden, true);
+  assert.equal(elements.loadButtonElement.disabled, false);
+
+  const file = new File(["abc"], "abc.txt");
+  assert.deepEqual(controller.show(file), ["sha256"]);
+  assert.equal(elements.termElement.hidden, false);
+  assert.match(elements.detailElement.innerHTML, /Checking against 1 list/);
+  await controller.check(file, "sha256", SHA256_ABC.toUpperCase());
+  assert.match(elements.detailElement.innerHTML, /knownHashBadge--bad/);
+  assert.match(elements.detailElement.innerHTML, /dropper\.exe/);
+  assert.equal((await controller.lookupFile(file))?.[0]?.list.id, "list-1");
+  assert.deepEqual(await controller.lookupFile(new File(["other"], "other.txt"), ["0".repeat(64)]), []);
+
+  elements.listsElement.dispatch("click", {
+    closest: () => ({ getAttribute: () => "list-1" })
+  });
+  await flush();
+  assert.equal(elements.summaryElement.textContent, "No lists loaded");
+  assert.equal(elements.termElement.hidden, true);
+});
+
+void test("known hashes controller reports files without hashes and ignores stale digests", async () => {
+  const { elements, controller } = createPanel(createMemoryStore());
+  await controller.restore();
+  await importFile(elements, new File(["hello"], "empty.txt"));
+  assert.equal(elements.statusElement.textContent, "No MD5, SHA-1 or SHA-256 values found in empty.txt.");
+  await importFile(elements, new File([SHA256_ABC], "allow.txt"));
+  const first = new File(["abc"], "first.txt");
+  controller.show(first);
+  controller.show(new File(["abc"], "second.txt"));
+  await controller.check(first, "sha256", SHA256_ABC);
+  assert.match(elements.detailElement.innerHTML, /Checking against 1 list/);
+  controller.reset();
+  assert.equal(elements.detailElement.hidden, true);
+});
+
+void test("known hashes controller cancels an import and drops the partial list", async () => {
+  let releaseWrite = (): void => undefined;
+  const { elements, controller } = createPanel(createMemoryStore(
+    () => new Promise(resolve => { releaseWrite = resolve; })
+  ));
+  await controller.restore();
+  elements.fileInputElement.files = [new File([`${SHA256_ABC}\n`], "iocs.txt")];
+  elements.fileInputElement.dispatch("change");
+  await flush();
+  assert.equal(elements.cancelButtonElement.hidden, false);
+  assert.equal(elements.loadButtonElement.disabled, true);
+  elements.cancelButtonElement.click();
+  releaseWrite();
+  await flush();
+  assert.equal(elements.statusElement.textContent, "Import cancelled; the partly imported list was removed.");
+  assert.equal(elements.summaryElement.textContent, "No lists loaded");
+  assert.equal(elements.cancelButtonElement.hidden, true);
+});
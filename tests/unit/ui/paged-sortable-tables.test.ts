@@ -4,7 +4,8 @@ import assert from "node:assert/strict";
 import { test } from "node:test";
 import {
   capturePagedSortableTableState,
-  enhancePagedSortableTables
+  enhancePagedSortableTables,
+  showPagedSortableTableRow
 } from "../../../ui/paged-sortable-tables.js";
 import type { PagedSortableTableModel } from "../../../ui/paged-sortable-table-state.js";
 
@@ -140,3 +141,19 @@ void test("enhancePagedSortableTables sorts, pages, and captures state", () => {
     assert.match(fakeBody.innerHTML, /alpha/);
   });
 });
+
+void test("showPagedSortableTableRow switches to the page holding a matching row", () => {
+  withFakeDom(() => {
+    fakeRoot.dataset = { pagedSortableTableId: "strings" };
+    fakeBody.innerHTML = "";
+    enhancePagedSortableTables(
+      fakeRoot as unknown as ParentNode,
+      tableId => tableId === "strings" ? createModel() : null
+    );
+    assert.doesNotMatch(fakeBody.innerHTML, /bravo/);
+
+    assert.equal(showPagedSortableTableRow(fakeRoot as unknown as ParentNode, "bravo"), true);
+    assert.match(fakeBody.innerHTML, /bravo/);
+    assert.equal(showPagedSortableTableRow(fakeRoot as unknown as ParentNode, "delta"), false);
+  });
+});
@@ -0,0 +1,158 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { ParseForUiOptions, ParseForUiResult } from "../../../analyzers/index.js";
+import {
+  createFileParseController,
+  describeParseProgress,
+  parseFileForUi,
+  runParseWorker
+} from "../../../ui/parse-worker-client.js";
+import type { ParseWorkerRequest } from "../../../ui/parse-worker.js";
+import { createPngFile } from "../../fixtures/image-sample-files.js";
+
+type Listener = (event: MessageEvent<unknown>) => void;
+
+class FakeParseWorker {
+  readonly posted: ParseWorkerRequest[] = [];
+  readonly listeners = new Map<string, Listener>();
+  terminated = false;
+
+  addEventListener(type: string, listener: Listener): void {
+    this.listeners.set(type, listener);
+  }
+
+  postMessage(value: ParseWorkerRequest): void {
+    this.posted.push(value);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  emit(type: "message" | "error", data?: unknown): void {
+    this.listeners.get(type)?.({ data } as MessageEvent<unknown>);
+  }
+}
+
+const createRequest = (): ParseWorkerRequest => ({
+  file: new File([new Uint8Array([1, 2, 3])], "sample.bin"),
+  assetBaseUrl: "https://example.test/binary101/"
+});
+
+const emptyResult: ParseForUiResult = { analyzer: null, parsed: null };
+
+void test("runParseWorker forwards progress and resolves with the worker result", async () => {
+  const worker = new FakeParseWorker();
+  const progress: unknown[] = [];
+  const request = createRequest();
+
+  const pending = runParseWorker(worker, request, { onProgress: event => progress.push(event) });
+  worker.emit("message", { progress: { stage: "probing" } });
+  worker.emit("message", { unrelated: true });
+  worker.emit("message", { result: emptyResult });
+
+  assert.deepEqual(await pending, emptyResult);
+  assert.deepEqual(worker.posted, [request]);
+  assert.deepEqual(progress, [{ stage: "probing" }]);
+  assert.equal(worker.terminated, true);
+});
+
+void test("runParseWorker rejects worker errors and failed worker startup", async () => {
+  const failingParse = new FakeParseWorker();
+  const failedParse = runParseWorker(failingParse, createRequest(), {});
+  failingParse.emit("message", { error: "Parser exploded." });
+  await assert.rejects(failedParse, /Parser exploded\./);
+  assert.equal(failingParse.terminated, true);
+
+  const brokenWorker = new FakeParseWorker();
+  const brokenStartup = runParseWorker(brokenWorker, createRequest(), {});
+  brokenWorker.emit("error");
+  await assert.rejects(brokenStartup, /Parsing worker failed\./);
+  assert.equal(brokenWorker.terminated, true);
+});
+
+void test("runParseWorker terminates the worker when the signal aborts", async () => {
+  const worker = new FakeParseWorker();
+  const controller = new AbortController();
+
+  const pending = runParseWorker(worker, createRequest(), { signal: controller.signal });
+  controller.abort(new Error("Superseded."));
+
+  await assert.rejects(pending, /Superseded\./);
+  assert.equal(worker.terminated, true);
+});
+
+void test("runParseWorker does not start a worker for an already aborted signal", async () => {
+  const worker = new FakeParseWorker();
+
+  await assert.rejects(
+    runParseWorker(worker, createRequest(), { signal: AbortSignal.abort(new Error("Too late.")) }),
+    /Too late\./
+  );
+  assert.deepEqual(worker.posted, []);
+  assert.equal(worker.terminated, true);
+});
+
+void test("parseFileForUi parses on the current thread when workers are unavailable", async () => {
+  const progress: unknown[] = [];
+
+  const result = await parseFileForUi(createPngFile(), { onProgress: event => progress.push(event) });
+
+  assert.equal(result.analyzer, "png");
+  assert.deepEqual(progress, [
+    { stage: "probing" },
+    { stage: "parsing", formatId: "png", analyzers: ["png"] }
+  ]);
+});
+
+void test("describeParseProgress names the format being parsed", () => {
+  assert.equal(describeParseProgress({ stage: "probing" }), "Parsing file details...");
+  assert.equal(
+    describeParseProgress({ stage: "parsing", formatId: "pe", analyzers: ["pe"] }),
+    "Parsing PE/COFF details..."
+  );
+});
+
+void test("createFileParseController aborts the previous parse when a new one starts", async () => {
+  const signals: AbortSignal[] = [];
+  const statuses: string[] = [];
+  const controller = createFileParseController((_file, options: ParseForUiOptions) => {
+    const { signal } = options;
+    assert.ok(signal);
+    signals.push(signal);
+    options.onProgress?.({ stage: "parsing", formatId: "zip", analyzers: ["zip"] });
+    return signals.length === 1
+      ? new Promise((_resolve, reject) => signal.addEventListener("abort", () => reject(signal.reason)))
+      : Promise.resolve(emptyResult);
+  });
+
+  const first = controller.parse(createPngFile(), status => statuses.push(status));
+  const second = controller.parse(createPngFile(), status => statuses.push(status));
+
+  await assert.rejects(first, { name: "AbortError" });
+  assert.deepEqual(await second, emptyResult);
+  assert.equal(signals[0]?.aborted, true);
+  assert.equal(signals[1]?.aborted, false);
+  assert.deepEqual(statuses, [
+    "Parsing file details...",
+    "Parsing ZIP details...",
+    "Parsing file details...",
+    "Parsing ZIP details..."
+  ]);
+});
+
+void test("createFileParseController cancel aborts the in-flight parse", async () => {
+  let observedSignal: AbortSignal | undefined;
+  const controller = createFileParseController((_file, { signal }) => {
+    observedSignal = signal;
+    return new Promise((_resolve, reject) => signal?.addEventListener("abort", () => reject(signal.reason)));
+  });
+
+  const pending = controller.parse(createPngFile(), () => undefined);
+  controller.cancel();
+
+  await assert.rejects(pending, { name: "AbortError" });
+  assert.equal(observedSignal?.aborted, true);
+});
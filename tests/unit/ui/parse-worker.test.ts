@@ -0,0 +1,79 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { attachParseWorkerListener, handleParseWorkerMessage } from "../../../ui/parse-worker.js";
+import type { ParseWorkerResponse } from "../../../ui/parse-worker.js";
+import { createFb2File } from "../../fixtures/document-sample-files.js";
+import { createElfFile } from "../../fixtures/elf-sample-file.js";
+import { createGzipFile } from "../../fixtures/gzip-fixtures.js";
+import { createPngFile } from "../../fixtures/image-sample-files.js";
+import { createPeFile } from "../../fixtures/sample-files-pe.js";
+import { createZipFile } from "../../fixtures/zip-fixtures.js";
+import type { MockFile } from "../../helpers/mock-file.js";
+
+// file: URLs make the import metadata fetch fail locally instead of reaching the network.
+const assetBaseUrl = "file:///binary101-test-assets/";
+
+const toFile = (mock: MockFile): File => new File([mock], mock.name, { type: mock.type });
+
+const collectResponses = async (value: unknown): Promise<ParseWorkerResponse[]> => {
+  const responses: ParseWorkerResponse[] = [];
+  await handleParseWorkerMessage(value, response => responses.push(response));
+  return responses;
+};
+
+void test("handleParseWorkerMessage rejects malformed requests", async () => {
+  assert.deepEqual(await collectResponses({ file: "sample.bin" }), [{ error: "Invalid parse request." }]);
+  assert.deepEqual(
+    await collectResponses({ file: new File([], "sample.bin") }),
+    [{ error: "Invalid parse request." }]
+  );
+});
+
+void test("handleParseWorkerMessage reports progress before the parse result", async () => {
+  const responses = await collectResponses({ file: toFile(createPngFile()), assetBaseUrl });
+
+  assert.deepEqual(responses.slice(0, 2), [
+    { progress: { stage: "probing" } },
+    { progress: { stage: "parsing", formatId: "png", analyzers: ["png"] } }
+  ]);
+  const last = responses.at(-1);
+  assert.ok(last && "result" in last);
+  assert.equal(last.result.analyzer, "png");
+});
+
+void test("handleParseWorkerMessage parses XML-backed formats without DOMParser", async () => {
+  const responses = await collectResponses({ file: toFile(createFb2File()), assetBaseUrl });
+
+  const last = responses.at(-1);
+  assert.ok(last && "result" in last);
+  assert.equal(last.result.analyzer, "fb2");
+});
+
+void test("handleParseWorkerMessage posts results that survive structured cloning", async () => {
+  const fixtures = [createPeFile(), createElfFile(), createZipFile(),
+    createGzipFile({ payload: new TextEncoder().encode("hello") }), createFb2File()];
+  for (const fixture of fixtures) {
+    const responses = await collectResponses({ file: toFile(fixture), assetBaseUrl });
+    const last = responses.at(-1);
+    assert.ok(last && "result" in last, `Expected a result for ${fixture.name}`);
+    assert.ok(last.result.analyzer, `Expected an analyzer for ${fixture.name}`);
+    assert.deepStrictEqual(structuredClone(last.result), last.result, fixture.name);
+  }
+});
+
+void test("attachParseWorkerListener posts every response", async () => {
+  let listener: ((event: MessageEvent<unknown>) => void) | undefined;
+  let resolveResponse: (response: ParseWorkerResponse) => void = () => undefined;
+  const response = new Promise<ParseWorkerResponse>(resolve => { resolveResponse = resolve; });
+
+  attachParseWorkerListener({
+    addEventListener: (_, nextListener) => { listener = nextListener; },
+    postMessage: resolveResponse
+  });
+  assert.ok(listener);
+  listener({ data: null } as MessageEvent<unknown>);
+
+  assert.deepEqual(await response, { error: "Invalid parse request." });
+});
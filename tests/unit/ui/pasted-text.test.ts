@@ -0,0 +1,73 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { decodePastedText } from "../../../ui/pasted-text.js";
+
+const MZ_HEADER = [0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00];
+
+const decode = (text: string): [string, number[]] | null => {
+  const decoded = decodePastedText(text);
+  return decoded ? [decoded.encoding, Array.from(decoded.bytes)] : null;
+};
+
+void test("decodePastedText reads xxd and hexdump -C output", () => {
+  assert.deepEqual(decode([
+    "00000000: 4d5a 9000 0300 0000 0400 0000 ffff 0000  MZ..............",
+    "00000010: b800                                     .."
+  ].join("\n")), ["xxd", [...MZ_HEADER, 0, 0, 4, 0, 0, 0, 0xff, 0xff, 0, 0, 0xb8, 0]]);
+  assert.deepEqual(decode([
+    "00000000  4d 5a 90 00 03 00 00 00  00 00 00 00 00 00 00 00  |MZ..............|",
+    "00000010  00 00 00 00 00 00 00 00  00 00 00 00 00 00 00 00  |................|",
+    "*",
+    "00000030  41 42                                             |AB|",
+    "00000032"
+  ].join("\n")), ["hexdump", [...MZ_HEADER, ...new Array<number>(42).fill(0), 0x41, 0x42]]);
+});
+
+void test("decodePastedText reads escaped strings and C and Python byte arrays", () => {
+  assert.deepEqual(decode("\\x4d\\x5a\\x90\\x00\\x03\\x00"), ["escaped", MZ_HEADER]);
+  assert.deepEqual(decode("data = b'MZ\\x90\\x00' b\"\\x03\\x00\""), ["escaped", MZ_HEADER]);
+  assert.deepEqual(decode("unsigned char buf[] = {\n  0x4d, 0x5a, 0x90, // header\n  0x00, 3, 0\n};"),
+    ["array", MZ_HEADER]);
+  assert.deepEqual(decode("bytes([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00])"), ["array", MZ_HEADER]);
+  assert.deepEqual(decode("{ 'M', 'Z', '\\x90', '\\0' }"), ["array", [0x4d, 0x5a, 0x90, 0x00]]);
+  assert.deepEqual(decode("{ 0115, 0132, 0220, 00, 03, 0 }"), ["array", MZ_HEADER]);
+  assert.equal(decode("{ 077, 08, 0, 1 }"), null);
+  assert.deepEqual(decode("byte[] data = new byte[] { 0x4d, 0x5a, 0x90, 0x00 };"), ["array", [0x4d, 0x5a, 0x90, 0x00]]);
+  assert.deepEqual(decode(`[${Array.from({ length: 16 }, (_, index) => index).join(", ")}]`),
+    ["array", Array.from({ length: 16 }, (_, index) => index)]);
+});
+
+void test("decodePastedText keeps prose and JSON with bracketed numbers as text", () => {
+  assert.equal(decode("Please check items [1, 2, 3, 4] before the release"), null);
+  assert.equal(decode("{\"ids\": [10, 20, 30, 40], \"name\": \"report\"}"), null);
+  assert.equal(decode("Meeting notes: agenda {1, 2, 3, 4}"), null);
+  assert.equal(decode("[10, 20, 30, 40]"), null);
+  assert.equal(decode("see { 0x4d, 0x5a, 0x90, 0x00 } in the dump"), null);
+});
+
+void test("decodePastedText reads plain hex, base64 and base64url", () => {
+  assert.deepEqual(decode("4d5a9000 0300"), ["hex", MZ_HEADER]);
+  assert.deepEqual(decode("4D:5A:90:00:03:00"), ["hex", MZ_HEADER]);
+  assert.deepEqual(decode("0x4d 0x5a 0x90 0x00 0x03 0x00"), ["hex", MZ_HEADER]);
+  assert.deepEqual(decode("TVqQAAMAAAAEAAAA//8AALgA\n"),
+    ["base64", [...MZ_HEADER, 0, 0, 4, 0, 0, 0, 0xff, 0xff, 0, 0, 0xb8, 0]]);
+  assert.deepEqual(decode("TVqQAAM="), ["base64", [0x4d, 0x5a, 0x90, 0x00, 0x03]]);
+  assert.deepEqual(decode("data:application/octet-stream;base64,TVqQAAMA"), ["base64", MZ_HEADER]);
+  assert.deepEqual(decode("_-_-_w"), ["base64url", [0xff, 0xef, 0xfe, 0xff]]);
+});
+
+void test("decodePastedText leaves prose, short words and malformed dumps alone", () => {
+  assert.equal(decode("hello world, this is a note"), null);
+  assert.equal(decode("clipboard"), null);
+  assert.equal(decode("cafe"), null);
+  assert.equal(decode("2024-10-19"), null);
+  assert.equal(decode("HelloWorld"), null);
+  assert.equal(decode("Password12"), null);
+  assert.equal(decode("getElementById"), null);
+  assert.equal(decode("12345678"), null);
+  assert.equal(decode("5551234567"), null);
+  assert.equal(decode("00000000: 4d5a 9000\n00000020: 0300"), null);
+  assert.equal(decode("{ 0x4d, 0x5a, 0x100, 0 }"), null);
+});
@@ -0,0 +1,36 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { ParseForUiResult } from "../../../analyzers/index.js";
+import { parsePdb } from "../../../analyzers/pdb/index.js";
+import { createPdbSymbolSession } from "../../../ui/pdb-symbols.js";
+import { MockFile } from "../../helpers/mock-file.js";
+import { PDB_FIXTURE_AGE, PDB_FIXTURE_GUID, buildPdb } from "../../fixtures/pdb-fixtures.js";
+import { createBasePe } from "../../fixtures/pe-renderer-headers-fixture.js";
+
+const createPeResult = (age: number): ParseForUiResult => {
+  const pe = createBasePe();
+  pe.debug = { entries: [], entry: { signature: "RSDS", guid: PDB_FIXTURE_GUID, age, path: "app.pdb" }, rawDataRanges: [] };
+  return { analyzer: "pe", parsed: pe };
+};
+
+void test("createPdbSymbolSession names functions of a PE opened after its matching PDB", async () => {
+  const session = createPdbSymbolSession();
+  const file = new MockFile(buildPdb(), "app.pdb");
+  const pdb = await parsePdb(file);
+  assert.ok(pdb);
+  const before = createPeResult(PDB_FIXTURE_AGE);
+  session.observe(new MockFile(new Uint8Array(0), "app.exe"), before);
+  session.observe(file, { analyzer: "pdb", parsed: pdb });
+  const matching = createPeResult(PDB_FIXTURE_AGE);
+  const stale = createPeResult(PDB_FIXTURE_AGE + 1);
+  session.observe(new MockFile(new Uint8Array(0), "app.exe"), matching);
+  session.observe(new MockFile(new Uint8Array(0), "old.exe"), stale);
+
+  assert.ok(before.analyzer === "pe" && before.parsed && !("pdbSymbols" in before.parsed));
+  assert.ok(matching.analyzer === "pe" && matching.parsed && "pdbSymbols" in matching.parsed);
+  assert.equal(matching.parsed.pdbSymbols?.fileName, "app.pdb");
+  assert.equal(matching.parsed.pdbSymbols?.names.get(0x1010), "main");
+  assert.ok(stale.analyzer === "pe" && stale.parsed && !("pdbSymbols" in stale.parsed));
+});
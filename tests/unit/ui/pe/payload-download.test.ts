@@ -4,6 +4,7 @@ import assert from "node:assert/strict";
 import { test } from "node:test";
 import type { ParseForUiResult } from "../../../../analyzers/index.js";
 import type { PeParseResult } from "../../../../analyzers/pe/index.js";
+import type { NestedEntry } from "../../../../ui/entry-delivery.js";
 import { createPePayloadDownloadClickHandler } from "../../../../ui/pe-payload-download.js";
 import { expectDefined } from "../../../helpers/expect-defined.js";
 import { MockFile } from "../../../helpers/mock-file.js";
@@ -114,6 +115,33 @@ void test("PE payload download slices the exact validated archive", async () =>
   }
 });
 
+void test("PE payload analyze button hands the payload to the nested analyzer", async () => {
+  const dom = installDownloadDom();
+  const messages: Array<string | null | undefined> = [];
+  const entries: NestedEntry[] = [];
+  try {
+    setPayloadAttributes(dom.button);
+    dom.button.setAttribute("data-entry-analyze", "");
+    const handler = createPePayloadDownloadClickHandler({
+      getFile: () => new MockFile(Uint8Array.of(0, 1, 2, 3, 4), "setup.exe"),
+      getParseResult: createParseResult,
+      setStatusMessage: message => messages.push(message),
+      analyzeEntry: entry => entries.push(entry)
+    });
+
+    handler({ target: dom.button } as unknown as Event);
+
+    const entry = expectDefined(entries[0]);
+    assert.equal(entry.label, "overlay 7z");
+    assert.equal(entry.name, "setup.exe.payload-1.7z");
+    assert.deepEqual(new Uint8Array(await entry.blob.arrayBuffer()), Uint8Array.of(1, 2, 3));
+    assert.equal(dom.getAnchor(), null);
+    assert.deepEqual(messages, [null]);
+  } finally {
+    dom.restore();
+  }
+});
+
 void test("PE payload download rejects tampered bounds and formats", () => {
   const dom = installDownloadDom();
   const messages: Array<string | null | undefined> = [];
@@ -0,0 +1,64 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { PolyglotAnalysis } from "../../../analyzers/polyglot/index.js";
+import { createPolyglotPanelController, type PolyglotPanelConfig } from "../../../ui/polyglot.js";
+import { MockFile } from "../../helpers/mock-file.js";
+
+const createFakeElement = () => {
+  const classes = new Set<string>();
+  return {
+    textContent: "",
+    innerHTML: "",
+    classes,
+    classList: {
+      remove: (name: string) => classes.delete(name),
+      toggle: (name: string, force: boolean) => (force ? classes.add(name) : classes.delete(name))
+    }
+  };
+};
+
+const overlapping: PolyglotAnalysis = {
+  interpretations: [
+    { label: "PDF document", evidence: "", start: 0, end: 20, extentKnown: true, extentDescription: "" },
+    { label: "ZIP archive", evidence: "", start: 4, end: 12, extentKnown: true, extentDescription: "" }
+  ],
+  overlaps: [{ first: 0, second: 1, start: 4, end: 12 }]
+};
+
+void test("polyglot panel flags overlapping claims in the summary", async () => {
+  const summaryElement = createFakeElement();
+  const resultsElement = createFakeElement();
+  const controller = createPolyglotPanelController({
+    summaryElement,
+    resultsElement,
+    analyze: () => Promise.resolve(overlapping)
+  } as unknown as PolyglotPanelConfig);
+  await controller.show(new MockFile(new Uint8Array(20)));
+  assert.equal(summaryElement.textContent, "2 interpretations, 1 overlapping claim");
+  assert.ok(summaryElement.classes.has("polyglot__summary--overlap"));
+  assert.match(resultsElement.innerHTML, /both claim/);
+  controller.reset();
+  assert.equal(summaryElement.textContent, "");
+  assert.equal(summaryElement.classes.size, 0);
+  assert.equal(resultsElement.innerHTML, "");
+});
+
+void test("polyglot panel ignores results for a file that is no longer shown", async () => {
+  const summaryElement = createFakeElement();
+  const resultsElement = createFakeElement();
+  let release: (analysis: PolyglotAnalysis) => void = () => undefined;
+  const controller = createPolyglotPanelController({
+    summaryElement,
+    resultsElement,
+    analyze: () => new Promise<PolyglotAnalysis>(resolve => { release = resolve; })
+  } as unknown as PolyglotPanelConfig);
+  const pending = controller.show(new MockFile(new Uint8Array(20)));
+  assert.equal(summaryElement.textContent, "Checking...");
+  controller.reset();
+  release(overlapping);
+  await pending;
+  assert.equal(summaryElement.textContent, "");
+  assert.equal(resultsElement.innerHTML, "");
+});
@@ -0,0 +1,142 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { ParseForUiResult } from "../../../analyzers/index.js";
+import { HASH_ALGORITHMS } from "../../../ui/hash-controls.js";
+import { createReportExportClickHandler } from "../../../ui/report-export.js";
+
+type FakeNode = {
+  tagName: string;
+  textContent: string;
+  hidden: boolean;
+  querySelectorAll: (selector: string) => FakeNode[];
+};
+
+const fakeNode = (tagName: string, textContent: string, hidden = false, chips: FakeNode[] = []): FakeNode => ({
+  tagName,
+  textContent,
+  hidden,
+  querySelectorAll: selector => (selector === ".opt.sel" ? chips : [])
+});
+
+const installReportExportStubs = () => {
+  const globals = globalThis as unknown as Record<string, unknown>;
+  const originals = {
+    Element: globals["Element"],
+    HTMLElement: globals["HTMLElement"],
+    document: globals["document"],
+    createObjectURL: URL.createObjectURL,
+    revokeObjectURL: URL.revokeObjectURL
+  };
+  const had = (name: string): boolean => Object.prototype.hasOwnProperty.call(globals, name);
+  const hadElement = had("Element");
+  const hadHtmlElement = had("HTMLElement");
+  const hadDocument = had("document");
+  class FakeElement {
+    constructor(readonly format: string) {}
+
+    closest(selector: string): FakeElement | null {
+      return selector === "[data-report-export]" ? this : null;
+    }
+
+    getAttribute(name: string): string | null {
+      return name === "data-report-export" ? this.format : null;
+    }
+  }
+  globals["Element"] = FakeElement;
+  globals["HTMLElement"] = FakeElement;
+  let anchor: { href: string; download: string; click: () => void } | null = null;
+  let createdBlob: Blob | null = null;
+  globals["document"] = {
+    body: { appendChild: (node: unknown) => node, removeChild: (node: unknown) => node },
+    createElement: () => {
+      anchor = { href: "", download: "", click: () => undefined };
+      return anchor;
+    }
+  };
+  URL.createObjectURL = (blob: Blob): string => {
+    createdBlob = blob;
+    return "blob:report";
+  };
+  URL.revokeObjectURL = () => {};
+  return {
+    button: (format: string) => new FakeElement(format),
+    getAnchor: () => anchor,
+    getCreatedBlob: () => createdBlob,
+    restore: () => {
+      if (hadElement) globals["Element"] = originals.Element;
+      else Reflect.deleteProperty(globals, "Element");
+      if (hadHtmlElement) globals["HTMLElement"] = originals.HTMLElement;
+      else Reflect.deleteProperty(globals, "HTMLElement");
+      if (hadDocument) globals["document"] = originals.document;
+      else Reflect.deleteProperty(globals, "document");
+      URL.createObjectURL = originals.createObjectURL;
+      URL.revokeObjectURL = originals.revokeObjectURL;
+    }
+  };
+};
+
+const createDeps = (file: File | null, messages: Array<string | null | undefined>) => ({
+  detailsListElement: {
+    children: [
+      fakeNode("DT", "File name"),
+      fakeNode("DD", " sample.bin "),
+      fakeNode("DT", "Relative path", true),
+      fakeNode("DD", "hidden/path", true),
+      fakeNode("DT", "Source"),
+      fakeNode("DD", "SelectionPasteDrop", false, [fakeNode("SPAN", "Paste")])
+    ]
+  } as unknown as HTMLElement,
+  analysisValueElement: { hidden: true } as unknown as HTMLElement,
+  hashControls: HASH_ALGORITHMS.slice(0, 2).map((algorithm, index) => ({
+    algorithm,
+    valueElement: { textContent: index === 0 ? "d41d8cd98f00b204e9800998ecf8427e" : "Error" } as HTMLElement,
+    copyButtonElement: { hidden: index !== 0 } as HTMLButtonElement
+  })),
+  getFile: () => file,
+  getParseResult: (): ParseForUiResult => ({ analyzer: null, parsed: null }),
+  getTypeLabel: () => "Unknown binary",
+  setStatusMessage: (message: string | null | undefined) => { messages.push(message); }
+});
+
+void test("report export downloads a JSON report with visible details and computed hashes", async () => {
+  const stubs = installReportExportStubs();
+  const messages: Array<string | null | undefined> = [];
+  try {
+    const handler = createReportExportClickHandler(createDeps(new File([], "../sample.bin"), messages));
+
+    handler({ target: stubs.button("json") } as unknown as Event);
+
+    assert.equal(stubs.getAnchor()?.download, "sample.bin.report.json");
+    const blob = stubs.getCreatedBlob();
+    assert.ok(blob);
+    assert.equal(blob.type, "application/json;charset=utf-8");
+    const report = JSON.parse(await blob.text()) as Record<string, unknown>;
+    assert.deepEqual(report["details"], [
+      { label: "File name", value: "sample.bin" },
+      { label: "Source", value: "Paste" }
+    ]);
+    assert.deepEqual(report["hashes"], { md5: "d41d8cd98f00b204e9800998ecf8427e" });
+    assert.equal(report["detectedType"], "Unknown binary");
+    assert.deepEqual(messages, [null]);
+  } finally {
+    stubs.restore();
+  }
+});
+
+void test("report export ignores unknown formats and reports a missing file", () => {
+  const stubs = installReportExportStubs();
+  const messages: Array<string | null | undefined> = [];
+  try {
+    createReportExportClickHandler(createDeps(new File([], "a.bin"), messages))(
+      { target: stubs.button("pdf") } as unknown as Event
+    );
+    createReportExportClickHandler(createDeps(null, messages))({ target: stubs.button("html") } as unknown as Event);
+
+    assert.equal(stubs.getAnchor(), null);
+    assert.deepEqual(messages, ["No file selected."]);
+  } finally {
+    stubs.restore();
+  }
+});
@@ -176,3 +176,29 @@ void test("selection inputs prefer pasted handles over the file fallback", async
     browser.restore();
   }
 });
+
+void test("selection inputs decode pasted hex dumps and base64 before opening them", async () => {
+  const browser = installFakeBrowser();
+  const openedFiles: File[] = [];
+  try {
+    attachSelectionInputs({
+      directoryInspection: createDirectoryInspection(async () => false, async () => true),
+      dropZoneElement: new FakeElement() as unknown as HTMLElement,
+      fileInputElement: new FakeInputElement() as unknown as HTMLInputElement,
+      openFile: async file => { openedFiles.push(file); },
+      setStatusMessage: () => undefined
+    });
+    browser.targetWindow.dispatch("paste", {
+      clipboardData: {
+        files: fileListFor([]),
+        items: [{ kind: "string", getAsString: (resolve: (text: string) => void) => resolve("TVqQAAM=") }]
+      }
+    } as unknown as ClipboardEvent);
+    await Promise.resolve();
+    await Promise.resolve();
+    assert.equal(openedFiles[0]?.name, "clipboard-base64.bin");
+    assert.deepEqual(new Uint8Array(await openedFiles[0]!.arrayBuffer()), Uint8Array.from([0x4d, 0x5a, 0x90, 0, 3]));
+  } finally {
+    browser.restore();
+  }
+});
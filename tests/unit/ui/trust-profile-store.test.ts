@@ -0,0 +1,41 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { AuthenticodeTrustProfile } from "../../../analyzers/pe/authenticode/trust-profiles.js";
+import { createTrustProfileStore } from "../../../ui/trust-profile-store.js";
+import { createFakeIndexedDb } from "../../helpers/fake-indexed-db.js";
+
+const profile = (id: string, selected: boolean): AuthenticodeTrustProfile => ({
+  id,
+  name: id,
+  importedAt: "2026-01-01T00:00:00.000Z",
+  certificates: [{ thumbprint: "AA", stores: ["Root"] }],
+  selected
+});
+
+void test("createTrustProfileStore returns null without IndexedDB", () => {
+  assert.equal(createTrustProfileStore(undefined), null);
+});
+
+void test("trust profile store adds, replaces and removes profiles", async () => {
+  const { records, factory } = createFakeIndexedDb();
+  const store = createTrustProfileStore(factory);
+  assert.ok(store);
+  assert.deepEqual(await store.profiles(), []);
+  await store.put(profile("lab", true));
+  await store.put(profile("vendor", true));
+  await store.put(profile("lab", false));
+  assert.deepEqual(await store.profiles(), [profile("lab", false), profile("vendor", true)]);
+  await store.remove("lab");
+  assert.deepEqual([...records("binary101-trust-profiles", "profiles")!.keys()], ["vendor"]);
+});
+
+void test("trust profile store rejects a put whose transaction fails to commit", async () => {
+  const { failNextCommit, factory } = createFakeIndexedDb();
+  const store = createTrustProfileStore(factory);
+  assert.ok(store);
+  failNextCommit();
+  await assert.rejects(store.put(profile("lab", true)), /QuotaExceededError/);
+  assert.deepEqual(await store.profiles(), []);
+});
@@ -0,0 +1,148 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { ParseForUiResult } from "../../../analyzers/index.js";
+import type { AuthenticodeInfo } from "../../../analyzers/pe/authenticode/index.js";
+import { decodePkcs7 } from "../../../analyzers/pe/authenticode/pkcs7.js";
+import { verifyPkcs7Signatures } from "../../../analyzers/pe/authenticode/pkijs.js";
+import type { AuthenticodeTrustProfile } from "../../../analyzers/pe/authenticode/trust-profiles.js";
+import type { TrustProfileStore } from "../../../ui/trust-profile-store.js";
+import { createTrustProfilesController } from "../../../ui/trust-profiles.js";
+import {
+  createCertificateChain,
+  createSignedData,
+  encodeContentInfo
+} from "../../fixtures/pe-authenticode-signed-cms-fixtures.js";
+
+class FakeElement {
+  files: File[] | null = null;
+  hidden = true;
+  disabled = false;
+  innerHTML = "";
+  textContent: string | null = "";
+  value = "";
+  private readonly listeners = new Map<string, (event: { target: unknown }) => void>();
+  addEventListener(type: string, listener: (event: { target: unknown }) => void): void {
+    this.listeners.set(type, listener);
+  }
+  dispatch(type: string, target: unknown = this): void {
+    this.listeners.get(type)?.({ target });
+  }
+  click(): void {
+    this.dispatch("click");
+  }
+}
+
+const createMemoryStore = (initial: AuthenticodeTrustProfile[] = []) => {
+  const records = new Map(initial.map(profile => [profile.id, profile]));
+  const store: TrustProfileStore = {
+    profiles: async () => [...records.values()],
+    put: async profile => { records.set(profile.id, profile); },
+    remove: async id => { records.delete(id); }
+  };
+  return { records, store };
+};
+
+const createPanel = (store: TrustProfileStore | null) => {
+  const elements = {
+    nameInputElement: new FakeElement(),
+    loadButtonElement: new FakeElement(),
+    fileInputElement: new FakeElement(),
+    summaryElement: new FakeElement(),
+    statusElement: new FakeElement(),
+    listsElement: new FakeElement(),
+    termElement: new FakeElement(),
+    detailElement: new FakeElement()
+  };
+  let nextId = 0;
+  const controller = createTrustProfilesController({
+    nameInputElement: elements.nameInputElement as unknown as HTMLInputElement,
+    loadButtonElement: elements.loadButtonElement as unknown as HTMLButtonElement,
+    fileInputElement: elements.fileInputElement as unknown as HTMLInputElement,
+    summaryElement: elements.summaryElement as unknown as HTMLElement,
+    statusElement: elements.statusElement as unknown as HTMLElement,
+    listsElement: elements.listsElement as unknown as HTMLElement,
+    termElement: elements.termElement as unknown as HTMLElement,
+    detailElement: elements.detailElement as unknown as HTMLElement,
+    store,
+    createId: () => `profile-${++nextId}`,
+    now: () => "2026-01-01T00:00:00.000Z"
+  });
+  return { elements, controller };
+};
+
+const flush = async (): Promise<void> => {
+  for (let round = 0; round < 20; round += 1) await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+const createSignedPe = async () => {
+  const chain = await createCertificateChain();
+  const payload = encodeContentInfo(await createSignedData("ab".repeat(32), chain));
+  const verification = await verifyPkcs7Signatures(payload);
+  const authenticode: AuthenticodeInfo = { ...decodePkcs7(payload), verification };
+  const result = {
+    analyzer: "pe",
+    parsed: { opt: { Magic: 0x10b }, security: { count: 1, certs: [{ authenticode }] } }
+  } as unknown as ParseForUiResult;
+  return { result, rootDer: new Uint8Array(chain.root.toSchema(true).toBER()) };
+};
+
+void test("trust profiles controller imports a profile and shows its verdict next to the Windows snapshot", async () => {
+  const { records, store } = createMemoryStore();
+  const { elements, controller } = createPanel(store);
+  const { result, rootDer } = await createSignedPe();
+  await controller.restore();
+  assert.equal(elements.summaryElement.textContent, "No profiles");
+  await controller.show(result);
+  assert.equal(elements.termElement.hidden, true);
+
+  elements.nameInputElement.value = "Lab PKI";
+  elements.fileInputElement.files = [new File([rootDer], "root.cer"), new File(["not a certificate"], "notes.txt")];
+  elements.fileInputElement.dispatch("change");
+  await flush();
+  assert.equal(records.get("profile-1")?.name, "Lab PKI");
+  assert.equal(elements.nameInputElement.value, "");
+  assert.match(elements.statusElement.textContent ?? "", /^Imported 1 certificate as Lab PKI\. Input is not/);
+  assert.equal(elements.summaryElement.textContent, "1 profile, 1 selected");
+  assert.equal(elements.termElement.hidden, false);
+  assert.match(elements.detailElement.innerHTML, /Windows snapshot.*Not bundled with this build.*>Not trusted</);
+  assert.match(elements.detailElement.innerHTML, /Lab PKI.*>Trusted<\/span><\/td><td>Chains to CN=Binary101 Root CA\./);
+
+  elements.listsElement.dispatch("change", { getAttribute: () => "profile-1", checked: false });
+  await flush();
+  assert.equal(records.get("profile-1")?.selected, false);
+  assert.equal(elements.summaryElement.textContent, "1 profile, 0 selected");
+  assert.equal(elements.termElement.hidden, true);
+
+  elements.listsElement.dispatch("click", { closest: () => ({ getAttribute: () => "profile-1" }) });
+  await flush();
+  assert.equal(records.size, 0);
+  assert.match(elements.listsElement.innerHTML, /No trust profiles imported/);
+});
+
+void test("trust profiles controller restores stored profiles and skips unsigned files", async () => {
+  const { store } = createMemoryStore([{
+    id: "stored",
+    name: "Stored",
+    importedAt: "2025-01-01T00:00:00.000Z",
+    certificates: [],
+    selected: true
+  }]);
+  const { elements, controller } = createPanel(store);
+  await controller.restore();
+  assert.equal(elements.summaryElement.textContent, "1 profile, 1 selected");
+  await controller.show({ analyzer: null, parsed: null });
+  assert.equal(elements.termElement.hidden, true);
+  const { result } = await createSignedPe();
+  await controller.show(result);
+  assert.match(elements.detailElement.innerHTML, /Stored.*>Not trusted</);
+  controller.reset();
+  assert.equal(elements.detailElement.innerHTML, "");
+});
+
+void test("trust profiles controller disables imports without IndexedDB", () => {
+  const { elements } = createPanel(null);
+  assert.equal(elements.loadButtonElement.disabled, true);
+  assert.match(elements.statusElement.textContent ?? "", /need IndexedDB/);
+});
@@ -0,0 +1,109 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createWorkspaceModel } from "../../../ui/workspace-model.js";
+import type { BrowserDirectoryHandle, BrowserFileHandle } from "../../../ui/directory-handles.js";
+import type { DirectoryInspectionRoute } from "../../../ui/directory-inspection-route.js";
+
+const createDirectoryHandle = (name: string): BrowserDirectoryHandle => ({
+  kind: "directory",
+  name,
+  entries: async function* () {}
+});
+
+const createRoute = (root: BrowserDirectoryHandle, ...children: string[]): DirectoryInspectionRoute => ({
+  context: { source: "selection", object: "directory" },
+  locations: [
+    { handle: root, name: root.name, relativePath: root.name },
+    ...children.map(child => ({ handle: createDirectoryHandle(child), name: child, relativePath: child }))
+  ]
+});
+
+void test("workspace model keeps one tab per opened file and remembers the active one", () => {
+  const model = createWorkspaceModel();
+  const first = new File(["a"], "first.bin");
+  const second = new File(["b"], "second.bin");
+  const firstTab = model.showFile(first, { source: "selection", object: "file" });
+  model.showFile(second, { source: "drop", object: "file" });
+  const reopened = model.showFile(first, { source: "navigation", object: "file", relativePath: "first.bin" });
+
+  assert.equal(reopened, firstTab);
+  assert.equal(reopened.context.source, "navigation");
+  assert.deepEqual(model.tabs().map(tab => tab.label), ["first.bin", "second.bin"]);
+  assert.equal(model.activeTab(), firstTab);
+  assert.equal(model.findFileTab(second)?.label, "second.bin");
+  model.showEmpty();
+  assert.equal(model.activeTab(), null);
+});
+
+void test("workspace model keeps a folder tab while navigating inside it", () => {
+  const model = createWorkspaceModel();
+  const root = createDirectoryHandle("project");
+  const tab = model.showDirectory(createRoute(root));
+  const nested = createRoute(root, "src");
+  assert.equal(model.showDirectory(nested), tab);
+  assert.equal(tab.route, nested);
+  assert.equal(tab.label, "project");
+  model.showDirectory(createRoute(createDirectoryHandle("other")));
+  assert.equal(model.tabs().length, 2);
+});
+
+void test("workspace model closes tabs and picks the neighbour of the active one", () => {
+  const model = createWorkspaceModel();
+  const tabs = ["a", "b", "c"].map(name => model.showFile(new File([], name), { source: "selection", object: "file" }));
+  const [first, second, third] = tabs;
+  assert.ok(first && second && third);
+  assert.deepEqual(model.close(first.id), { wasActive: false, next: null });
+  assert.deepEqual(model.close(third.id), { wasActive: true, next: second });
+  assert.equal(model.activeTab(), null);
+  assert.deepEqual(model.close("missing"), { wasActive: false, next: null });
+});
+
+void test("workspace model restores saved tabs and replaces them in place when reopened", () => {
+  const model = createWorkspaceModel();
+  model.showFile(new File([], "open.bin"), { source: "selection", object: "file" });
+  model.restore({
+    version: 1,
+    tabs: [
+      { kind: "file", label: "saved.exe", size: 4, lastModified: 1, type: "", handle: null },
+      { kind: "directory", label: "tools", handle: null }
+    ]
+  });
+  const saved = model.tabs()[1];
+  assert.equal(saved?.kind, "saved");
+  model.replaceWithNextShown(saved?.id ?? null);
+  model.showFile(new File(["MZ"], "saved.exe"), { source: "selection", object: "file" });
+  assert.deepEqual(model.tabs().map(tab => `${tab.kind}:${tab.label}`), [
+    "file:open.bin",
+    "file:saved.exe",
+    "saved:tools"
+  ]);
+  model.removeSavedTabs();
+  assert.deepEqual(model.tabs().map(tab => tab.label), ["open.bin", "saved.exe"]);
+});
+
+void test("workspace model serializes metadata and only the handles the lookup allows", () => {
+  const model = createWorkspaceModel();
+  const file = new File(["data"], "tool.dll", { type: "application/octet-stream", lastModified: 42 });
+  const fileHandle: BrowserFileHandle = { kind: "file", name: "tool.dll", getFile: () => Promise.resolve(file) };
+  const root = createDirectoryHandle("drivers");
+  model.showFile(file, { source: "selection", object: "file" });
+  model.showDirectory(createRoute(root, "x64"));
+  model.showFile(new File([], "pasted.bin", { lastModified: 7 }), { source: "paste", object: "file" });
+
+  const saved = model.serialize({
+    fileHandle: candidate => candidate === file ? fileHandle : null,
+    directoryHandle: route => route.locations[0]?.handle ?? null
+  });
+  assert.deepEqual(saved, {
+    version: 1,
+    tabs: [
+      {
+        kind: "file", label: "tool.dll", size: 4, lastModified: 42, type: "application/octet-stream", handle: fileHandle
+      },
+      { kind: "directory", label: "drivers", handle: root },
+      { kind: "file", label: "pasted.bin", size: 0, lastModified: 7, type: "", handle: null }
+    ]
+  });
+});
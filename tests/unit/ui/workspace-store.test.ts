@@ -0,0 +1,57 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createWorkspaceStore } from "../../../ui/workspace-store.js";
+import type { PersistedWorkspace } from "../../../ui/workspace-store.js";
+import { createFakeIndexedDb } from "../../helpers/fake-indexed-db.js";
+
+const state: PersistedWorkspace = {
+  workspace: {
+    version: 1,
+    tabs: [{ kind: "file", label: "setup.exe", size: 10, lastModified: 5, type: "", handle: null }]
+  },
+  preferences: { hexBigEndian: true }
+};
+
+void test("createWorkspaceStore returns null without IndexedDB", () => {
+  assert.equal(createWorkspaceStore(undefined), null);
+});
+
+void test("workspace store saves, loads and deletes the workspace", async () => {
+  const { databases, factory } = createFakeIndexedDb();
+  const store = createWorkspaceStore(factory);
+  assert.ok(store);
+  assert.equal(await store.load(), null);
+  await store.save(state);
+  assert.deepEqual(await store.load(), state);
+  await store.clear();
+  assert.equal(databases.size, 0);
+  assert.equal(await store.load(), null);
+});
+
+void test("workspace store ignores malformed saved state", async () => {
+  const { factory } = createFakeIndexedDb();
+  const store = createWorkspaceStore(factory);
+  assert.ok(store);
+  await store.save({ workspace: { version: 2 }, preferences: {} } as unknown as PersistedWorkspace);
+  assert.equal(await store.load(), null);
+  await store.save({
+    workspace: { version: 1, tabs: [{ kind: "file", label: "ok.bin" }, { kind: "unknown" }, null] },
+    preferences: { hexBigEndian: "yes", wrap: false }
+  } as unknown as PersistedWorkspace);
+  assert.deepEqual(await store.load(), {
+    workspace: { version: 1, tabs: [{ kind: "file", label: "ok.bin" }] },
+    preferences: { wrap: false }
+  });
+});
+
+void test("workspace store reports a save that fails when its transaction commits", async () => {
+  const { failNextCommit, factory } = createFakeIndexedDb();
+  const store = createWorkspaceStore(factory);
+  assert.ok(store);
+  await store.save(state);
+  failNextCommit();
+  await assert.rejects(store.save({ ...state, preferences: {} }), /QuotaExceededError/);
+  assert.deepEqual(await store.load(), state);
+});
@@ -0,0 +1,210 @@
+"use strict";
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createWorkspaceTabsController } from "../../../ui/workspace-tabs.js";
+import type { ParseForUiResult } from "../../../analyzers/index.js";
+import type { InspectionContext } from "../../../ui/inspection-context.js";
+import type { WorkspaceTabsConfig } from "../../../ui/workspace-tabs.js";
+import type { PersistedWorkspace, WorkspaceStore } from "../../../ui/workspace-store.js";
+
+type Listener = (event: Event) => void;
+
+type FakeElement = {
+  hidden: boolean;
+  checked: boolean;
+  disabled: boolean;
+  innerHTML: string;
+  listeners: Map<string, Listener>;
+  addEventListener(name: string, listener: Listener): void;
+};
+
+const createFakeElement = (): FakeElement => ({
+  hidden: false,
+  checked: false,
+  disabled: false,
+  innerHTML: "",
+  listeners: new Map(),
+  addEventListener(name, listener) {
+    this.listeners.set(name, listener);
+  }
+});
+
+class FakeTarget {
+  constructor(private readonly attributes: Record<string, string>) {}
+  closest(selector: string): FakeTarget | null {
+    return selector.slice(1, -1) in this.attributes ? this : null;
+  }
+  getAttribute(name: string): string | null {
+    return this.attributes[name] ?? null;
+  }
+}
+
+const withFakeElements = async (run: () => Promise<void> | void): Promise<void> => {
+  const globals = globalThis as unknown as Record<string, unknown>;
+  const originalElement = globals["Element"];
+  globals["Element"] = FakeTarget;
+  try {
+    await run();
+  } finally {
+    globals["Element"] = originalElement;
+  }
+};
+
+const createStore = (initial: PersistedWorkspace | null) => {
+  const saved: PersistedWorkspace[] = [];
+  let cleared = 0;
+  const store: WorkspaceStore = {
+    load: () => Promise.resolve(initial),
+    save: state => {
+      saved.push(state);
+      return Promise.resolve();
+    },
+    clear: () => {
+      cleared += 1;
+      return Promise.resolve();
+    }
+  };
+  return { saved, store, clearedCount: () => cleared };
+};
+
+const createController = (store: WorkspaceStore | null = null) => {
+  const elements = {
+    bar: createFakeElement(),
+    tabs: createFakeElement(),
+    toggle: createFakeElement(),
+    forget: createFakeElement(),
+    preferences: createFakeElement()
+  };
+  const preference = {
+    checked: false,
+    dataset: { workspacePreference: "hexBigEndian" },
+    events: [] as string[],
+    dispatchEvent(event: Event): boolean {
+      this.events.push(event.type);
+      return true;
+    }
+  };
+  const opened: Array<{ file: File; context: InspectionContext }> = [];
+  const statuses: Array<string | null | undefined> = [];
+  let emptyCount = 0;
+  let view = { openDetails: new Set<string>(), pagedTables: [] };
+  const config = {
+    barElement: elements.bar,
+    tabListElement: elements.tabs,
+    persistToggleElement: elements.toggle,
+    forgetButtonElement: elements.forget,
+    preferenceRoot: { ...elements.preferences, querySelectorAll: () => [preference] },
+    store,
+    captureView: () => view,
+    openFile: (file: File, context: InspectionContext) => {
+      opened.push({ file, context });
+      return Promise.resolve();
+    },
+    openDirectory: () => {},
+    openEmpty: () => { emptyCount += 1; },
+    setStatusMessage: (message: string | null | undefined) => { statuses.push(message); }
+  } as unknown as WorkspaceTabsConfig;
+  const controller = createWorkspaceTabsController(config);
+  const click = (attributes: Record<string, string>): void =>
+    elements.tabs.listeners.get("click")?.({ target: new FakeTarget(attributes) } as unknown as Event);
+  return {
+    controller, elements, opened, preference, statuses, click,
+    emptyCount: () => emptyCount,
+    setView: (next: typeof view) => { view = next; }
+  };
+};
+
+const fileRoute = (file: File) => ({ kind: "file" as const, file, context: { source: "selection", object: "file" } as const });
+
+void test("workspace tabs list opened files and keep their parse results and views", () => {
+  const { controller, elements, setView } = createController();
+  const first = new File(["MZ"], "first.exe");
+  const second = new File(["PK"], "<second>.zip");
+  const result: ParseForUiResult = { analyzer: null, parsed: null };
+  controller.handleRoute(fileRoute(first));
+  controller.storeParseResult(first, result);
+  const firstView = { openDetails: new Set(["Sections"]), pagedTables: [] };
+  setView(firstView);
+  controller.handleRoute(fileRoute(second));
+
+  assert.equal(elements.bar.hidden, false);
+  assert.match(elements.tabs.innerHTML, /data-workspace-tab="workspace-tab-1" title="File: first\.exe">first\.exe</);
+  assert.match(elements.tabs.innerHTML, /aria-current="true" title="File: &lt;second>\.zip">&lt;second>\.zip</);
+  assert.equal(controller.cachedParseResult(first), result);
+  assert.equal(controller.savedView(first), firstView);
+  assert.equal(controller.savedView(second), null);
+  assert.equal(controller.cachedParseResult(new File([], "other")), null);
+});
+
+void test("workspace tabs reopen a selected tab and move to a neighbour when the active one closes", async () => {
+  await withFakeElements(() => {
+    const { controller, elements, opened, click, emptyCount } = createController();
+    const first = new File([], "first.bin");
+    const second = new File([], "second.bin");
+    controller.handleRoute(fileRoute(first));
+    controller.handleRoute(fileRoute(second));
+    click({ "data-workspace-tab": "workspace-tab-1" });
+    assert.equal(opened[0]?.file, first);
+
+    click({ "data-workspace-close": "workspace-tab-2" });
+    assert.equal(opened[1]?.file, first);
+    assert.doesNotMatch(elements.tabs.innerHTML, /second\.bin/);
+    controller.handleRoute(fileRoute(first));
+    click({ "data-workspace-close": "workspace-tab-1" });
+    assert.equal(emptyCount(), 1);
+    assert.equal(elements.tabs.innerHTML, "");
+    assert.equal(elements.bar.hidden, true);
+  });
+});
+
+void test("workspace tabs restore a saved workspace and its preferences", async () => {
+  await withFakeElements(async () => {
+    const { store, saved } = createStore({
+      workspace: { version: 1, tabs: [{ kind: "file", label: "old.exe", size: 1, lastModified: 1, type: "", handle: null }] },
+      preferences: { hexBigEndian: true }
+    });
+    const { controller, elements, preference, statuses, click } = createController(store);
+    await controller.restore();
+
+    assert.equal(elements.toggle.checked, true);
+    assert.equal(preference.checked, true);
+    assert.deepEqual(preference.events, ["change"]);
+    assert.match(elements.tabs.innerHTML, /class="workspaceTab workspaceTabSaved"/);
+    click({ "data-workspace-tab": "workspace-tab-1" });
+    assert.match(String(statuses.at(-1)), /old\.exe was saved without file access/);
+
+    controller.handleRoute(fileRoute(new File(["x"], "new.bin")));
+    assert.deepEqual(saved.at(-1)?.workspace.tabs.map(tab => tab.label), ["old.exe", "new.bin"]);
+    assert.deepEqual(saved.at(-1)?.preferences, { hexBigEndian: true });
+  });
+});
+
+void test("workspace tabs only save when persistence is on and wipe the store when it is turned off", async () => {
+  const { store, saved, clearedCount } = createStore(null);
+  const { controller, elements } = createController(store);
+  await controller.restore();
+  controller.handleRoute(fileRoute(new File([], "a.bin")));
+  assert.equal(saved.length, 0);
+
+  elements.toggle.checked = true;
+  elements.toggle.listeners.get("change")?.(new Event("change"));
+  assert.equal(saved.length, 1);
+
+  elements.toggle.checked = false;
+  elements.toggle.listeners.get("change")?.(new Event("change"));
+  await Promise.resolve();
+  assert.equal(clearedCount(), 1);
+  elements.forget.listeners.get("click")?.(new Event("click"));
+  await Promise.resolve();
+  assert.equal(clearedCount(), 2);
+  assert.equal(elements.toggle.checked, false);
+});
+
+void test("workspace tabs disable persistence controls without IndexedDB", async () => {
+  const { controller, elements } = createController(null);
+  await controller.restore();
+  assert.equal(elements.toggle.disabled, true);
+  assert.equal(elements.forget.disabled, true);
+  assert.equal(elements.bar.hidden, true);
+});
@@ -110,6 +110,45 @@ void test("zip entry click handler extracts stored entries and sanitizes the dow
   }
 });
 
+void test("zip entry click handler hands analyzed entries to the nested analyzer", async () => {
+  const environment = installZipEnvironment();
+  const { messages, setStatusMessage } = createStatusSink();
+  const file = new File([new TextEncoder().encode("__DATA__")], "archive.zip");
+  const entry = createZipEntry({
+    fileName: "folder/result.bin",
+    compressedSize: 4,
+    uncompressedSize: 4,
+    dataOffset: 2,
+    dataLength: 4,
+    dataEnd: 6
+  });
+  const analyzed: Array<{ name: string; label: string; text: string }> = [];
+
+  try {
+    const analyzeButton = environment.button as HTMLButtonElement & { attributes: Map<string, string> };
+    analyzeButton.attributes.set("data-entry-analyze", "");
+    environment.button.textContent = "Analyze";
+    const handler = createZipEntryClickHandler({
+      getParseResult: () => createZipParseResult([entry]),
+      getFile: () => file,
+      setStatusMessage,
+      analyzeEntry: nested => {
+        void nested.blob.text().then(text => analyzed.push({ name: nested.name, label: nested.label, text }));
+      }
+    });
+
+    await handler({ target: environment.button } as unknown as Event);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    assert.deepEqual(analyzed, [{ name: "result.bin", label: "folder/result.bin", text: "DATA" }]);
+    assert.equal(environment.anchorRef(), null);
+    assert.deepEqual(messages, [null]);
+    assert.equal(environment.button.textContent, "Analyze");
+  } finally {
+    environment.restore();
+  }
+});
+
 void test("zip entry click handler decompresses deflated entries and falls back to entry.bin", async () => {
   const environment = installZipEnvironment();
   const globals = globalThis as unknown as Record<string, unknown>;
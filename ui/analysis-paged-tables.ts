@@ -2,8 +2,10 @@
 
 import type { ParseForUiResult } from "../analyzers/index.js";
 import type { CoffObjectParseResult } from "../analyzers/coff/types.js";
+import type { PdbParseResult } from "../analyzers/pdb/types.js";
 import type { PeParseResult } from "../analyzers/pe/index.js";
 import { getCoffPagedTableModel } from "../renderers/coff/paged-tables.js";
+import { getPdbPagedTableModel } from "../renderers/pdb/paged-tables.js";
 import { getPePagedTableModel } from "../renderers/pe/paged-tables.js";
 import {
   enhancePagedSortableTables,
@@ -35,6 +37,18 @@ const enhanceCoffPagedTables = (
   );
 };
 
+const enhancePdbPagedTables = (
+  root: ParentNode,
+  pdb: PdbParseResult,
+  snapshots: readonly PagedSortableTableSnapshot[] = []
+): void => {
+  enhancePagedSortableTables(
+    root,
+    tableId => getPdbPagedTableModel(pdb, tableId),
+    snapshots
+  );
+};
+
 export const enhanceAnalysisPagedTables = (
   root: ParentNode,
   result: ParseForUiResult,
@@ -44,5 +58,7 @@ export const enhanceAnalysisPagedTables = (
     enhancePeDisassemblyPagedTables(root, result.parsed, snapshots);
   } else if (result.analyzer === "coff") {
     enhanceCoffPagedTables(root, result.parsed, snapshots);
+  } else if (result.analyzer === "pdb") {
+    enhancePdbPagedTables(root, result.parsed, snapshots);
   }
 };
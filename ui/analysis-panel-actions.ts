@@ -1,41 +1,103 @@
 "use strict";
 
 import type { ParseForUiResult } from "../analyzers/index.js";
+import { isPeWindowsParseResult } from "../analyzers/pe/index.js";
 import { createElfDisassemblyController } from "./elf-disassembly.js";
 import {
   refreshElfInstructionSetsPanel,
   refreshPeDisassemblyPanels,
   refreshPeEntrypointDisassemblyPanel,
+  refreshPeInstructionSetsPanel,
   refreshPeOverlayPanel
 } from "./analysis-panel-refresh.js";
 import { createPeDisassemblyController } from "./pe-disassembly.js";
 import { createPeEntrypointDisassemblyController } from "./pe-entrypoint-disassembly.js";
 import { createPeOverlayScanActions } from "./pe-overlay-scan.js";
 
+type AnalysisPanelControllers = {
+  peDisassembly: ReturnType<typeof createPeDisassemblyController>;
+  peEntrypointDisassembly: ReturnType<typeof createPeEntrypointDisassemblyController>;
+  peOverlayScan: ReturnType<typeof createPeOverlayScanActions>;
+  elfDisassembly: ReturnType<typeof createElfDisassemblyController>;
+};
+
+const currentWindowsPe = (result: ParseForUiResult) =>
+  result.analyzer === "pe" && result.parsed && isPeWindowsParseResult(result.parsed) ? result.parsed : null;
+
+// Starts or cancels the analysis panel behind a clicked control; returns true when the click
+// belonged to one of the panels.
+const handleAnalysisPanelClick = (
+  controllers: AnalysisPanelControllers,
+  targetElement: Element | null,
+  file: File | null,
+  result: ParseForUiResult
+): boolean => {
+  if (targetElement?.closest("#peInstructionSetsAnalyzeButton")) {
+    const pe = currentWindowsPe(result);
+    if (!file || !pe) return true;
+    delete pe.disassembly;
+    refreshPeInstructionSetsPanel(pe);
+    controllers.peDisassembly.start(file, pe);
+    return true;
+  }
+  if (targetElement?.closest("#peInstructionSetsCancelButton")) {
+    controllers.peDisassembly.cancel();
+    return true;
+  }
+  if (targetElement?.closest("#peEntrypointDisassembleButton")) {
+    const pe = currentWindowsPe(result);
+    if (!file || !pe) return true;
+    delete pe.entrypointDisassembly;
+    refreshPeEntrypointDisassemblyPanel(pe);
+    controllers.peEntrypointDisassembly.start(file, pe);
+    return true;
+  }
+  if (controllers.peOverlayScan.handleClick(targetElement)) return true;
+  if (targetElement?.closest("#elfInstructionSetsAnalyzeButton")) {
+    if (!file || result.analyzer !== "elf" || !result.parsed) return true;
+    delete result.parsed.disassembly;
+    refreshElfInstructionSetsPanel(result.parsed);
+    controllers.elfDisassembly.start(file, result.parsed);
+    return true;
+  }
+  if (targetElement?.closest("#elfInstructionSetsCancelButton")) {
+    controllers.elfDisassembly.cancel();
+    return true;
+  }
+  return false;
+};
+
 export const createAnalysisPanelActions = (
   getCurrentFile: () => File | null,
   getCurrentParseResult: () => ParseForUiResult,
   setStatusMessage: (message: string | null | undefined) => void
-) => ({
-  peDisassembly: createPeDisassemblyController({
-    getCurrentFile,
-    getCurrentParseResult,
-    renderPanel: refreshPeDisassemblyPanels
-  }),
-  peEntrypointDisassembly: createPeEntrypointDisassemblyController({
-    getCurrentFile,
-    getCurrentParseResult,
-    renderPanel: refreshPeEntrypointDisassemblyPanel
-  }),
-  peOverlayScan: createPeOverlayScanActions({
-    getCurrentFile,
-    getCurrentParseResult,
-    renderPanel: refreshPeOverlayPanel,
-    setStatusMessage
-  }),
-  elfDisassembly: createElfDisassemblyController({
-    getCurrentFile,
-    getCurrentParseResult,
-    renderPanel: refreshElfInstructionSetsPanel
-  })
-});
+) => {
+  const controllers: AnalysisPanelControllers = {
+    peDisassembly: createPeDisassemblyController({
+      getCurrentFile,
+      getCurrentParseResult,
+      renderPanel: refreshPeDisassemblyPanels
+    }),
+    peEntrypointDisassembly: createPeEntrypointDisassemblyController({
+      getCurrentFile,
+      getCurrentParseResult,
+      renderPanel: refreshPeEntrypointDisassemblyPanel
+    }),
+    peOverlayScan: createPeOverlayScanActions({
+      getCurrentFile,
+      getCurrentParseResult,
+      renderPanel: refreshPeOverlayPanel,
+      setStatusMessage
+    }),
+    elfDisassembly: createElfDisassemblyController({
+      getCurrentFile,
+      getCurrentParseResult,
+      renderPanel: refreshElfInstructionSetsPanel
+    })
+  };
+  return {
+    ...controllers,
+    handleClick: (targetElement: Element | null): boolean =>
+      handleAnalysisPanelClick(controllers, targetElement, getCurrentFile(), getCurrentParseResult())
+  };
+};
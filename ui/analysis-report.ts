@@ -0,0 +1,162 @@
+"use strict";
+
+import { collectDiagnostics, type Diagnostic } from "../analyzers/diagnostics/index.js";
+import type { ParseForUiResult } from "../analyzers/index.js";
+import { escapeHtml } from "../html-utils.js";
+import { toStableJson } from "../json-utils.js";
+import { FORMAT_RENDERERS } from "./format-renderers.js";
+import { HASH_ALGORITHMS, type HashAlgorithmId } from "./hash-controls.js";
+import { escapeMarkdown } from "./html-to-markdown.js";
+
+type AnalysisReportFormat = "json" | "markdown" | "html";
+
+type AnalysisReportDetail = {
+  label: string;
+  value: string;
+};
+
+type AnalysisReport = {
+  generatedAt: string;
+  file: {
+    name: string;
+    size: number;
+    mimeType: string;
+    lastModified: string | null;
+  };
+  detectedType: string;
+  // The labelled fields of the file card as shown (inspection time, source, subtype, ...).
+  details: AnalysisReportDetail[];
+  hashes: Partial<Record<HashAlgorithmId, string>>;
+  analyzer: ParseForUiResult["analyzer"];
+  // The Findings summary shown above the analysis.
+  diagnostics: Diagnostic[];
+  parsed: ParseForUiResult["parsed"];
+};
+
+type AnalysisReportInput = {
+  file: File;
+  detectedType: string;
+  details: AnalysisReportDetail[];
+  hashes: Partial<Record<HashAlgorithmId, string>>;
+  result: ParseForUiResult;
+  generatedAt: string;
+};
+
+const REPORT_FORMATS: Readonly<Record<AnalysisReportFormat, { extension: string; mimeType: string }>> = {
+  json: { extension: "json", mimeType: "application/json" },
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  html: { extension: "html", mimeType: "text/html" }
+};
+
+const NO_ANALYSIS_TEXT = "No format-specific analysis is available for this file.";
+
+// The exported page must render without the app: nothing is fetched, only inline styles and
+// data: images (the PE icon) are allowed.
+const REPORT_CONTENT_SECURITY_POLICY = "default-src 'none'; img-src data:; style-src 'unsafe-inline'";
+
+const isAnalysisReportFormat = (value: string | null): value is AnalysisReportFormat =>
+  value != null && Object.hasOwn(REPORT_FORMATS, value);
+
+const formatLastModified = (lastModified: number): string | null =>
+  Number.isFinite(lastModified) && lastModified > 0 ? new Date(lastModified).toISOString() : null;
+
+const buildAnalysisReport = (input: AnalysisReportInput): AnalysisReport => ({
+  generatedAt: input.generatedAt,
+  file: {
+    name: input.file.name,
+    size: input.file.size,
+    mimeType: input.file.type,
+    lastModified: formatLastModified(input.file.lastModified)
+  },
+  detectedType: input.detectedType,
+  details: input.details,
+  hashes: input.hashes,
+  analyzer: input.result.analyzer,
+  diagnostics: input.result.analyzer ? collectDiagnostics(input.result.analyzer, input.result.parsed) : [],
+  parsed: input.result.parsed
+});
+
+const reportTitle = (report: AnalysisReport): string =>
+  `Binary101 report: ${report.file.name || "(unnamed file)"}`;
+
+const analysisTitle = (report: AnalysisReport): string =>
+  report.analyzer ? FORMAT_RENDERERS[report.analyzer].title : "Analysis details";
+
+const reportHashes = (report: AnalysisReport): AnalysisReportDetail[] =>
+  HASH_ALGORITHMS.flatMap(algorithm => {
+    const value = report.hashes[algorithm.id];
+    return value ? [{ label: algorithm.label, value }] : [];
+  });
+
+const reportFileName = (name: string, format: AnalysisReportFormat): string => {
+  const raw = name.split(/[\\/]/).pop()?.trim() || "file";
+  const baseName = raw.replace(/[^a-z0-9._-]+/gi, "_") || "file";
+  return `${baseName}.report.${REPORT_FORMATS[format].extension}`;
+};
+
+const renderAnalysisReportJson = (report: AnalysisReport): string => `${toStableJson(report, 2)}\n`;
+
+const renderMarkdownHashes = (report: AnalysisReport): string => {
+  const hashes = reportHashes(report);
+  if (!hashes.length) return "No hashes were computed.";
+  return [
+    "| Algorithm | Value |",
+    "| --- | --- |",
+    ...hashes.map(({ label, value }) => `| ${escapeMarkdown(label)} | \`${value}\` |`)
+  ].join("\n");
+};
+
+const renderAnalysisReportMarkdown = (report: AnalysisReport, analysisMarkdown: string): string => [
+  `# ${escapeMarkdown(reportTitle(report))}`,
+  `Generated ${report.generatedAt}.`,
+  "## File",
+  report.details.map(({ label, value }) => `- **${escapeMarkdown(label)}**: ${escapeMarkdown(value)}`).join("\n"),
+  "## File hashes",
+  renderMarkdownHashes(report),
+  `## ${escapeMarkdown(analysisTitle(report))}`,
+  analysisMarkdown || NO_ANALYSIS_TEXT
+].filter(Boolean).join("\n\n") + "\n";
+
+const renderHtmlDefinitions = (details: AnalysisReportDetail[]): string =>
+  details.map(({ label, value }) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join("");
+
+const renderHtmlHashes = (report: AnalysisReport): string => {
+  const hashes = reportHashes(report);
+  const body = hashes.length
+    ? `<dl>${hashes.map(({ label, value }) =>
+      `<dt>${escapeHtml(label)}</dt><dd class="hashRow"><span class="hashValue">${escapeHtml(value)}</span></dd>`
+    ).join("")}</dl>`
+    : `<dl><dd>No hashes were computed.</dd></dl>`;
+  return `<details class="hashDetails" open><summary><span class="detailsSummaryTitle">File hashes</span>` +
+    `</summary>${body}</details>`;
+};
+
+// `styles` is the page stylesheet text so the snapshot keeps the app's layout and themes.
+const renderAnalysisReportHtml = (report: AnalysisReport, analysisHtml: string, styles: string): string => {
+  const title = reportTitle(report);
+  return "<!doctype html>\n" +
+    `<html lang="en"><head><meta charset="utf-8">` +
+    `<meta http-equiv="Content-Security-Policy" content="${REPORT_CONTENT_SECURITY_POLICY}">` +
+    `<meta name="color-scheme" content="light dark">` +
+    `<meta name="viewport" content="width=device-width,initial-scale=1">` +
+    `<title>${escapeHtml(title)}</title><style>${styles.replace(/<\/style/gi, "<\\/style")}</style></head>` +
+    `<body><header><h1>${escapeHtml(title)}</h1>` +
+    `<p>Generated ${escapeHtml(report.generatedAt)}. Static snapshot; interactive controls are not included.</p>` +
+    `</header><main><section id="resultsSection"><article id="fileInfoCard">` +
+    `<div class="filePrimaryInfo"><dl>${renderHtmlDefinitions(report.details)}</dl></div>` +
+    renderHtmlHashes(report) +
+    `<dl><dt id="analysisTerm">${escapeHtml(analysisTitle(report))}</dt>` +
+    `<dd id="analysisValue">${analysisHtml || `<p>${NO_ANALYSIS_TEXT}</p>`}</dd></dl>` +
+    `</article></section></main></body></html>\n`;
+};
+
+export {
+  REPORT_FORMATS,
+  buildAnalysisReport,
+  isAnalysisReportFormat,
+  renderAnalysisReportHtml,
+  renderAnalysisReportJson,
+  renderAnalysisReportMarkdown,
+  reportFileName
+};
+export type { AnalysisReport, AnalysisReportDetail, AnalysisReportFormat, AnalysisReportInput };
@@ -0,0 +1,149 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzers/index.js";
+import { parseCatalog as parseCatalogFile } from "../analyzers/catalog/index.js";
+import {
+  computePeCatalogDigests,
+  findCatalogMatches,
+  listCatalogDigestAlgorithms
+} from "../analyzers/catalog/lookup.js";
+import type { CatalogParseResult, LoadedCatalog } from "../analyzers/catalog/types.js";
+import type { AuthenticodeDigestAlgorithm } from "../analyzers/pe/authenticode/digest-algorithms.js";
+import { escapeHtml } from "../html-utils.js";
+import { renderCatalogStatus, renderLoadedCatalogs } from "../renderers/catalog/session.js";
+import { describeError } from "../error-utils.js";
+
+interface CatalogsConfig {
+  readonly loadButtonElement: HTMLButtonElement;
+  readonly fileInputElement: HTMLInputElement;
+  readonly summaryElement: HTMLElement;
+  readonly statusElement: HTMLElement;
+  readonly listsElement: HTMLElement;
+  // "Catalog" row of the file info card.
+  readonly termElement: HTMLElement;
+  readonly detailElement: HTMLElement;
+  readonly parseCatalog?: (file: File) => Promise<CatalogParseResult | null>;
+  readonly computeDigests?: (
+    file: File,
+    algorithms: readonly AuthenticodeDigestAlgorithm[]
+  ) => Promise<Map<AuthenticodeDigestAlgorithm, string> | null>;
+  readonly createId?: () => string;
+}
+
+interface CatalogsController {
+  // Looks the shown file up in the loaded catalogs when it is a PE image.
+  show(file: File, result: ParseForUiResult): Promise<void>;
+  reset(): void;
+}
+
+const describeCatalogs = (catalogs: readonly LoadedCatalog[]): string => {
+  if (!catalogs.length) return "No catalogs loaded";
+  const memberCount = catalogs.reduce((total, { catalog }) => total + catalog.members.length, 0);
+  return `${catalogs.length} catalog${catalogs.length === 1 ? "" : "s"}, ` +
+    `${memberCount} member${memberCount === 1 ? "" : "s"}`;
+};
+
+const attachCatalogControls = (
+  config: CatalogsConfig,
+  importFiles: (files: readonly File[]) => Promise<void>,
+  removeCatalog: (id: string) => void
+): void => {
+  config.loadButtonElement.addEventListener("click", () => config.fileInputElement.click());
+  config.fileInputElement.addEventListener("change", () => {
+    const files = Array.from(config.fileInputElement.files ?? []);
+    config.fileInputElement.value = "";
+    if (files.length) void importFiles(files);
+  });
+  config.listsElement.addEventListener("click", event => {
+    const target = event.target as Element | null;
+    const id = target?.closest?.("[data-catalog-remove]")?.getAttribute("data-catalog-remove");
+    if (id) removeCatalog(id);
+  });
+};
+
+const createCatalogsController = (config: CatalogsConfig): CatalogsController => {
+  const parseCatalog = config.parseCatalog ?? (file => parseCatalogFile(file));
+  const computeDigests = config.computeDigests ?? computePeCatalogDigests;
+  let catalogs: LoadedCatalog[] = [];
+  let shownFile: File | null = null;
+  let lookupGeneration = 0;
+  const setRow = (html: string | null): void => {
+    config.termElement.hidden = html == null;
+    config.detailElement.hidden = html == null;
+    config.detailElement.innerHTML = html ?? "";
+  };
+  const lookupShown = async (): Promise<void> => {
+    const file = shownFile;
+    const generation = ++lookupGeneration;
+    if (!file || !catalogs.length) {
+      setRow(null);
+      return;
+    }
+    const loaded = catalogs;
+    setRow(renderCatalogStatus(null, loaded.length));
+    try {
+      const digests = await computeDigests(file, listCatalogDigestAlgorithms(loaded.map(({ catalog }) => catalog)));
+      if (generation !== lookupGeneration) return;
+      setRow(digests ? renderCatalogStatus(findCatalogMatches(loaded, digests), loaded.length) : null);
+    } catch (error) {
+      if (generation !== lookupGeneration) return;
+      setRow(`<span class="dim">Catalog lookup failed: ${escapeHtml(describeError(error))}</span>`);
+    }
+  };
+  const renderCatalogs = (): void => {
+    config.summaryElement.textContent = describeCatalogs(catalogs);
+    config.listsElement.innerHTML = renderLoadedCatalogs(catalogs);
+  };
+  const importFiles = async (files: readonly File[]): Promise<void> => {
+    config.statusElement.textContent = "Importing...";
+    const skipped: string[] = [];
+    try {
+      for (const file of files) {
+        const catalog = await parseCatalog(file);
+        if (!catalog) {
+          skipped.push(file.name);
+          continue;
+        }
+        catalogs = [...catalogs, { id: (config.createId ?? (() => crypto.randomUUID()))(), name: file.name, catalog }];
+      }
+      config.statusElement.textContent = skipped.length
+        ? `Not a security catalog: ${skipped.join(", ")}.`
+        : "";
+    } catch (error) {
+      config.statusElement.textContent = `Import failed: ${describeError(error)}`;
+    }
+    renderCatalogs();
+    await lookupShown();
+  };
+  const removeCatalog = (id: string): void => {
+    catalogs = catalogs.filter(catalog => catalog.id !== id);
+    renderCatalogs();
+    void lookupShown();
+  };
+  attachCatalogControls(config, importFiles, removeCatalog);
+  return {
+    show: async (file, result) => {
+      shownFile = result.analyzer === "pe" ? file : null;
+      await lookupShown();
+    },
+    reset: () => {
+      shownFile = null;
+      lookupGeneration += 1;
+      setRow(null);
+    }
+  };
+};
+
+const bindCatalogsPanel = (getElement: (id: string) => HTMLElement): CatalogsController =>
+  createCatalogsController({
+    loadButtonElement: getElement("catalogLoadButton") as HTMLButtonElement,
+    fileInputElement: getElement("catalogFileInput") as HTMLInputElement,
+    summaryElement: getElement("catalogSummary"),
+    statusElement: getElement("catalogStatus"),
+    listsElement: getElement("catalogLists"),
+    termElement: getElement("fileCatalogTerm"),
+    detailElement: getElement("fileCatalogDetail")
+  });
+
+export { bindCatalogsPanel, createCatalogsController };
+export type { CatalogsConfig, CatalogsController };
@@ -0,0 +1,92 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzers/index.js";
+import { calculateCoverageMap } from "../analyzers/coverage-map.js";
+import { createFileRangeReader } from "../analyzers/file-range-reader.js";
+import { describeStructures, hasStructureMap, type StructureRange } from "../analyzers/structure-map/index.js";
+import { describeCoverageSummary, renderCoverageMap } from "../renderers/coverage-map.js";
+import { describeError } from "../error-utils.js";
+
+interface CoverageMapConfig {
+  readonly detailsElement: HTMLDetailsElement;
+  readonly summaryElement: HTMLElement;
+  readonly statusElement: HTMLElement;
+  readonly resultsElement: HTMLElement;
+  readonly calculate?: typeof calculateCoverageMap;
+}
+
+interface CoverageMapController {
+  show(file: File, result: ParseForUiResult): void;
+  reset(): void;
+}
+
+interface CoverageTarget {
+  file: File;
+  structures: StructureRange[];
+  rendered: boolean;
+}
+
+const DEFAULT_SUMMARY = "Interpreted and unexplained bytes";
+const UNSUPPORTED_SUMMARY = "No structure map for this format";
+
+// Gaps are read to tell zero padding from unexplained data, so the map is built only while the
+// panel is open.
+const createCoverageMapController = (config: CoverageMapConfig): CoverageMapController => {
+  const calculate = config.calculate ?? calculateCoverageMap;
+  let target: CoverageTarget | null = null;
+  let generation = 0;
+  const run = async (): Promise<void> => {
+    const currentGeneration = ++generation;
+    const current = target;
+    if (!current || current.rendered || !config.detailsElement.open) return;
+    const isCurrent = (): boolean => generation === currentGeneration;
+    config.statusElement.textContent = "Mapping parsed structures...";
+    try {
+      const map = await calculate(
+        createFileRangeReader(current.file, 0, current.file.size),
+        current.structures,
+        { isCurrent }
+      );
+      if (!map || !isCurrent()) return;
+      current.rendered = true;
+      config.summaryElement.textContent = describeCoverageSummary(map);
+      config.resultsElement.innerHTML = renderCoverageMap(map);
+      config.statusElement.textContent = "";
+    } catch (error) {
+      if (isCurrent()) config.statusElement.textContent = `Coverage mapping failed: ${describeError(error)}`;
+    }
+  };
+  config.detailsElement.addEventListener("toggle", () => { void run(); });
+  const reset = (): void => {
+    target = null;
+    generation += 1;
+    config.summaryElement.textContent = DEFAULT_SUMMARY;
+    config.statusElement.textContent = "";
+    config.resultsElement.innerHTML = "";
+  };
+  return {
+    show: (file, result) => {
+      reset();
+      if (!hasStructureMap(result)) {
+        config.summaryElement.textContent = UNSUPPORTED_SUMMARY;
+        config.statusElement.textContent =
+          "The coverage map needs a parsed PE, ELF, Mach-O, ZIP, 7z, PNG, MP4 or PDF file.";
+        return;
+      }
+      target = { file, structures: describeStructures(result, file.size), rendered: false };
+      void run();
+    },
+    reset
+  };
+};
+
+const bindCoverageMapPanel = (getElement: (id: string) => HTMLElement): CoverageMapController =>
+  createCoverageMapController({
+    detailsElement: getElement("coverageDetails") as HTMLDetailsElement,
+    summaryElement: getElement("coverageSummary"),
+    statusElement: getElement("coverageStatus"),
+    resultsElement: getElement("coverageResults")
+  });
+
+export { bindCoverageMapPanel, createCoverageMapController };
+export type { CoverageMapConfig, CoverageMapController };
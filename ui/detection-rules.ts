@@ -0,0 +1,120 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzers/index.js";
+import { evaluateRules } from "../analyzers/rules/index.js";
+import { parseRuleSource } from "../analyzers/rules/parser.js";
+import type { RuleSet } from "../analyzers/rules/types.js";
+import { renderRuleEvaluation, renderRuleIssues } from "../renderers/detection-rules.js";
+import { describeError } from "../error-utils.js";
+
+interface DetectionRulesConfig {
+  readonly detailsElement: HTMLDetailsElement;
+  readonly sourceElement: HTMLTextAreaElement;
+  readonly applyButtonElement: HTMLButtonElement;
+  readonly loadButtonElement: HTMLButtonElement;
+  readonly fileInputElement: HTMLInputElement;
+  readonly summaryElement: HTMLElement;
+  readonly resultsElement: HTMLElement;
+  readonly evaluate?: typeof evaluateRules;
+}
+
+interface DetectionRulesController {
+  show(file: File, result: ParseForUiResult): Promise<void>;
+  reset(): void;
+}
+
+interface RuleTarget {
+  file: File;
+  result: ParseForUiResult;
+}
+
+const describeRuleCount = (count: number): string => `${count} rule${count === 1 ? "" : "s"}`;
+
+const hasDraggedFiles = (event: DragEvent): boolean =>
+  Array.from(event.dataTransfer?.types ?? []).includes("Files");
+
+// Rules stay loaded while other files are inspected; each newly shown file is scanned with them.
+const createDetectionRulesController = (config: DetectionRulesConfig): DetectionRulesController => {
+  const evaluate = config.evaluate ?? evaluateRules;
+  let ruleSet: RuleSet | null = null;
+  let target: RuleTarget | null = null;
+  let generation = 0;
+  const describeLoadedRules = (): string => (ruleSet ? `${describeRuleCount(ruleSet.rules.length)} loaded` : "No rules loaded");
+  const run = async (): Promise<void> => {
+    const currentGeneration = ++generation;
+    const currentRules = ruleSet;
+    if (!currentRules || !target) return;
+    if (!currentRules.rules.length) {
+      config.resultsElement.innerHTML = renderRuleIssues(currentRules.issues);
+      return;
+    }
+    config.resultsElement.textContent = "Scanning file...";
+    try {
+      const isCurrent = (): boolean => generation === currentGeneration;
+      const evaluation = await evaluate(currentRules, target.file, target.result, isCurrent);
+      if (!evaluation || !isCurrent()) return;
+      config.resultsElement.innerHTML = renderRuleEvaluation(evaluation);
+      config.summaryElement.textContent =
+        `${evaluation.matches.length} of ${describeRuleCount(evaluation.ruleCount)} matched`;
+    } catch (error) {
+      if (generation === currentGeneration) config.resultsElement.textContent = `Rule scan failed: ${describeError(error)}`;
+    }
+  };
+  const applyRules = async (): Promise<void> => {
+    const source = config.sourceElement.value;
+    ruleSet = source.trim() ? parseRuleSource(source) : null;
+    config.summaryElement.textContent = describeLoadedRules();
+    if (target) {
+      await run();
+      return;
+    }
+    generation += 1;
+    config.resultsElement.innerHTML = ruleSet ? renderRuleIssues(ruleSet.issues) : "";
+  };
+  const loadRuleFile = async (file: File): Promise<void> => {
+    try {
+      config.sourceElement.value = await file.text();
+    } catch (error) {
+      config.resultsElement.textContent = `Unable to read rule file: ${describeError(error)}`;
+      return;
+    }
+    config.detailsElement.open = true;
+    await applyRules();
+  };
+  config.applyButtonElement.addEventListener("click", () => { void applyRules(); });
+  config.loadButtonElement.addEventListener("click", () => config.fileInputElement.click());
+  config.fileInputElement.addEventListener("change", () => {
+    const [file] = Array.from(config.fileInputElement.files ?? []);
+    config.fileInputElement.value = "";
+    if (file) void loadRuleFile(file);
+  });
+  // Dropped text is inserted by the browser as usual; a dropped file replaces the rules.
+  ["dragenter", "dragover"].forEach(eventName => config.sourceElement.addEventListener(eventName, event => {
+    if (!hasDraggedFiles(event as DragEvent)) return;
+    event.preventDefault();
+    config.sourceElement.classList.add("dragover");
+  }));
+  config.sourceElement.addEventListener("dragleave", () => config.sourceElement.classList.remove("dragover"));
+  config.sourceElement.addEventListener("drop", event => {
+    config.sourceElement.classList.remove("dragover");
+    const [file] = Array.from((event as DragEvent).dataTransfer?.files ?? []);
+    if (!file) return;
+    event.preventDefault();
+    void loadRuleFile(file);
+  });
+  return {
+    show: async (file, result) => {
+      target = { file, result };
+      await run();
+    },
+    reset: () => {
+      target = null;
+      generation += 1;
+      config.resultsElement.innerHTML = ruleSet ? renderRuleIssues(ruleSet.issues) : "";
+      config.summaryElement.textContent = describeLoadedRules();
+    }
+  };
+};
+
+export { createDetectionRulesController };
+export type { DetectionRulesConfig, DetectionRulesController };
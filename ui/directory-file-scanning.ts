@@ -1,19 +1,35 @@
 "use strict";
 
-import { detectBinaryType } from "../analyzers/index.js";
+import { detectBinaryType, parseForUi } from "../analyzers/index.js";
+import { digestFile, summarizeKnownHashVerdict } from "../analyzers/known-hashes/index.js";
+import type { KnownHashMatch, KnownHashVerdict } from "../analyzers/known-hashes/types.js";
+import { describeTriageFacts } from "../analyzers/triage/facts.js";
+import type { TriageFacts, TriageRecord } from "../analyzers/triage/types.js";
 import { formatAccessError } from "./directory-handles.js";
-import { setFileMetadataCells, setUnreadableFileCells } from "./directory-table-rendering.js";
+import { setFileMetadataCells, setKnownHashBadge, setUnreadableFileCells } from "./directory-table-rendering.js";
 import type { DirectoryFileRow, DirectoryRow } from "./directory-handles.js";
 import type { DirectoryFileCells } from "./directory-table-rendering.js";
 
 type FileTypeDetector = (file: File) => Promise<string>;
 type TimeSource = () => number;
 
+// Receives one record per scanned file for the folder overview and export.
+interface DirectoryTriageRecorder {
+  // Whether each file is also hashed and parsed, not only type-detected.
+  isDeepScan(): boolean;
+  add(record: TriageRecord): void;
+}
+
 interface DirectoryFileScanConfig {
   progressWrapElement: HTMLElement;
   progressElement: HTMLProgressElement;
   progressTextElement: HTMLElement;
   detectFileType?: FileTypeDetector;
+  // Looks a file up in the imported known-hash lists, hashing it unless its digests are passed;
+  // resolves to null when none are loaded.
+  lookupKnownHashes?: (file: File, digests?: readonly string[]) => Promise<KnownHashMatch[] | null>;
+  triage?: DirectoryTriageRecorder;
+  describeFile?: (file: File) => Promise<TriageFacts>;
   now?: TimeSource;
   yieldToBrowser?: () => Promise<void>;
 }
@@ -49,6 +65,88 @@ const updateProgress = (
   config.progressTextElement.textContent = `Scanned ${processedFiles} / ${totalFiles} files`;
 };
 
+// A failed lookup leaves the row without a badge; the type column already says what was found.
+const markKnownHashes = async (
+  config: DirectoryFileScanConfig,
+  cells: DirectoryFileCells,
+  file: File,
+  digests: readonly string[] | undefined
+): Promise<KnownHashVerdict | null> => {
+  try {
+    const matches = await config.lookupKnownHashes?.(file, digests);
+    if (!matches) return null;
+    setKnownHashBadge(cells, matches);
+    return summarizeKnownHashVerdict(matches);
+  } catch {
+    // Hash lists are advisory in the folder listing.
+    return null;
+  }
+};
+
+const describeFileFacts = async (file: File): Promise<TriageFacts> => describeTriageFacts(await parseForUi(file));
+
+// Deep scans read every file in full twice: one pass computes the digests, which the known-hash
+// lookup reuses, and the parser makes the other. Failures are recorded without touching the row.
+const addDeepScanHashes = async (record: TriageRecord, file: File): Promise<string[] | undefined> => {
+  try {
+    const digests = await digestFile(file, ["md5", "sha1", "sha256"]);
+    record.hashes = Object.fromEntries(digests);
+    return digests.map(([, digest]) => digest);
+  } catch (error) {
+    record.error ??= `Unable to hash: ${formatAccessError(error)}`;
+    return undefined;
+  }
+};
+
+const addDeepScanFacts = async (config: DirectoryFileScanConfig, record: TriageRecord, file: File): Promise<void> => {
+  try {
+    record.facts = await (config.describeFile ?? describeFileFacts)(file);
+  } catch (error) {
+    record.error ??= `Unable to parse: ${formatAccessError(error)}`;
+  }
+};
+
+const scanFileRow = async (
+  config: DirectoryFileScanConfig,
+  row: DirectoryFileRow,
+  cells: DirectoryFileCells,
+  detector: FileTypeDetector
+): Promise<TriageRecord> => {
+  const record: TriageRecord = {
+    path: row.path,
+    size: null,
+    mimeType: null,
+    lastModified: null,
+    detectedType: null,
+    error: null,
+    hashes: {},
+    knownHash: null,
+    facts: null
+  };
+  try {
+    const file = await row.handle.getFile();
+    setFileMetadataCells(cells, file);
+    record.size = file.size;
+    record.mimeType = file.type || null;
+    record.lastModified = Number.isFinite(file.lastModified) ? new Date(file.lastModified).toISOString() : null;
+    try {
+      record.detectedType = await detector(file);
+      cells.typeCell.textContent = record.detectedType;
+    } catch (error) {
+      record.error = `Unable to detect: ${formatAccessError(error)}`;
+      cells.typeCell.textContent = record.error;
+    }
+    const deepScan = config.triage?.isDeepScan() ?? false;
+    const digests = deepScan ? await addDeepScanHashes(record, file) : undefined;
+    record.knownHash = await markKnownHashes(config, cells, file, digests);
+    if (deepScan) await addDeepScanFacts(config, record, file);
+  } catch (error) {
+    record.error = `Unable to read: ${formatAccessError(error)}`;
+    setUnreadableFileCells(cells, formatAccessError(error));
+  }
+  return record;
+};
+
 const scanDirectoryFileRows = async (
   config: DirectoryFileScanConfig,
   rows: readonly DirectoryRow[],
@@ -66,17 +164,8 @@ const scanDirectoryFileRows = async (
     const startedMs = now();
     const cells = fileCells.get(row.path);
     if (!cells) continue;
-    try {
-      const file = await row.handle.getFile();
-      setFileMetadataCells(cells, file);
-      try {
-        cells.typeCell.textContent = await detector(file);
-      } catch (error) {
-        cells.typeCell.textContent = `Unable to detect: ${formatAccessError(error)}`;
-      }
-    } catch (error) {
-      setUnreadableFileCells(cells, formatAccessError(error));
-    }
+    const record = await scanFileRow(config, row, cells, detector);
+    if (isCurrent()) config.triage?.add(record);
     updateProgress(config, files.length, index + 1, state, now() - startedMs);
     await (config.yieldToBrowser ?? (() => new Promise<void>(resolve => setTimeout(resolve, 0))))();
   }
@@ -84,4 +173,4 @@ const scanDirectoryFileRows = async (
 };
 
 export { scanDirectoryFileRows };
-export type { DirectoryFileScanConfig };
+export type { DirectoryFileScanConfig, DirectoryTriageRecorder };
@@ -221,7 +221,29 @@ const getDroppedFileSystemHandles = async (
     );
 };
 
-export { collectDirectoryRows, formatAccessError, getDroppedDirectoryHandle, getDroppedFileSystemHandles };
+// Files opened from a folder remember the handle they came from so the workspace can save it.
+const fileHandles = new WeakMap<File, BrowserFileHandle>();
+
+const rememberFileHandle = (file: File, handle: BrowserFileHandle): void => {
+  fileHandles.set(file, handle);
+};
+
+const findFileHandle = (file: File): BrowserFileHandle | null => fileHandles.get(file) ?? null;
+
+// Only real File System Access handles survive structured cloning into IndexedDB; the virtual
+// roots built for selected, dropped or pasted files do not.
+const isStorableHandle = (handle: BrowserFileSystemHandle): boolean =>
+  typeof FileSystemHandle === "function" && handle instanceof FileSystemHandle;
+
+export {
+  collectDirectoryRows,
+  findFileHandle,
+  formatAccessError,
+  getDroppedDirectoryHandle,
+  getDroppedFileSystemHandles,
+  isStorableHandle,
+  rememberFileHandle
+};
 export type {
   BrowserDirectoryHandle,
   BrowserFileHandle,
@@ -1,5 +1,5 @@
 "use strict";
-import { collectDirectoryRows, formatAccessError, getDroppedFileSystemHandles } from "./directory-handles.js";
+import { collectDirectoryRows, formatAccessError, getDroppedFileSystemHandles, rememberFileHandle } from "./directory-handles.js";
 import { scanDirectoryFileRows } from "./directory-file-scanning.js";
 import {
   createDirectoryRootForFiles,
@@ -15,41 +15,36 @@ import {
 } from "./directory-inspection-route.js";
 import { enhanceSortableTables, handleSortableTableClick } from "./sortable-tables.js";
 import type {
+  BrowserDirectoryHandle,
   DirectoryDropItemList,
   DirectoryFileRow,
   DirectoryFolderRow,
   DirectoryRow
 } from "./directory-handles.js";
+import type { DirectoryFileScanConfig } from "./directory-file-scanning.js";
 import type { DirectoryTableElements } from "./directory-table-rendering.js";
+import type { DirectoryTriageController } from "./directory-triage.js";
 import type {
   DirectInspectionSource,
   InspectionContext,
   InspectionContextElements,
   TransferInspectionSource
 } from "./inspection-context.js";
-import type { BrowserDirectoryHandle } from "./directory-handles.js";
 import type { DirectoryInspectionRoute, DirectoryLocation } from "./directory-inspection-route.js";
 type StatusWriter = (message: string | null | undefined) => void;
-type FileTypeDetector = (file: File) => Promise<string>;
 type FileOpener = (file: File, context: InspectionContext) => Promise<void>;
 type DirectoryOpener = (route: DirectoryInspectionRoute) => void;
-type TimeSource = () => number;
-interface DirectoryInspectionConfig extends DirectoryTableElements {
+interface DirectoryInspectionConfig extends DirectoryTableElements, DirectoryFileScanConfig {
   openButtonElement: HTMLButtonElement;
   cardElement: HTMLElement;
   nameElement: HTMLElement;
   contextElements: InspectionContextElements;
   summaryElement: HTMLElement;
-  progressWrapElement: HTMLElement;
-  progressElement: HTMLProgressElement;
-  progressTextElement: HTMLElement;
   resetFileInspection: () => void;
   setStatusMessage: StatusWriter;
   openFile: FileOpener;
   openDirectory: DirectoryOpener;
-  detectFileType?: FileTypeDetector;
-  now?: TimeSource;
-  yieldToBrowser?: () => Promise<void>;
+  triage?: DirectoryTriageController;
 }
 interface DirectoryInspectionController {
   cancel(): void;
@@ -108,6 +103,7 @@ const inspectDirectoryLocation = async (
   renderInspectionContext(config.contextElements, state.context);
   config.summaryElement.textContent = "Listing folder...";
   clearDirectoryTables(config);
+  config.triage?.start(location.name);
   config.progressWrapElement.hidden = true;
   const rows = await collectDirectoryRows(location.handle, isCurrent);
   if (!rows) return;
@@ -119,6 +115,7 @@ const inspectDirectoryLocation = async (
   config.setStatusMessage("Scanning file types...");
   const scannedFiles = await scanDirectoryFileRows(config, rows, fileCells, isCurrent);
   if (scannedFiles == null) return;
+  config.triage?.finish();
   updateSummary(config.summaryElement, rows, scannedFiles);
   config.setStatusMessage(`Folder scan complete: ${scannedFiles} file${scannedFiles === 1 ? "" : "s"}.`);
 };
@@ -144,6 +141,9 @@ class DirectoryInspectionControllerImpl implements DirectoryInspectionController
       const target = event.target instanceof Element ? event.target : null;
       if (this.activateRow(target)) event.preventDefault();
     });
+    config.triage?.onDeepScanChange(() => {
+      if (this.state.locations.length) void this.inspectCurrentLocation(++this.generation);
+    });
   }
   cancel(): void {
     this.generation += 1;
@@ -154,7 +154,7 @@ class DirectoryInspectionControllerImpl implements DirectoryInspectionController
     this.state.locations = []; this.state.context = null;
     this.state.fileRows = new Map();
     this.state.folderRows = new Map();
-    clearDirectoryTables(this.config);
+    clearDirectoryTables(this.config); this.config.triage?.clear();
     this.config.progressWrapElement.hidden = true;
     renderInspectionContext(this.config.contextElements, null);
   }
@@ -238,8 +238,8 @@ class DirectoryInspectionControllerImpl implements DirectoryInspectionController
     try {
       this.config.setStatusMessage(`Opening ${path}...`);
       const file = await row.handle.getFile();
-      if (this.generation !== currentGeneration) return;
-      if (!location) return;
+      if (this.generation !== currentGeneration || !location) return;
+      rememberFileHandle(file, row.handle);
       await this.config.openFile(file, {
         source: "navigation",
         object: "file",
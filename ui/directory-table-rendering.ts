@@ -1,6 +1,9 @@
 "use strict";
 
 import { formatHumanSize } from "../binary-utils.js";
+import { summarizeKnownHashVerdict } from "../analyzers/known-hashes/index.js";
+import type { KnownHashMatch } from "../analyzers/known-hashes/types.js";
+import { KNOWN_HASH_VERDICT_LABELS } from "../renderers/known-hashes.js";
 import type {
   DirectoryFileRow,
   DirectoryFolderRow,
@@ -155,10 +158,24 @@ const setUnreadableFileCells = (cells: DirectoryFileCells, message: string): voi
   cells.typeCell.textContent = `Unable to read: ${message}`;
 };
 
+// Appends a "Known good" / "Known bad" badge after the detected type; the title names the lists.
+const setKnownHashBadge = (cells: DirectoryFileCells, matches: readonly KnownHashMatch[]): void => {
+  const verdict = summarizeKnownHashVerdict(matches);
+  if (!verdict) return;
+  const badge = document.createElement("span");
+  badge.className = `knownHashBadge knownHashBadge--${verdict}`;
+  badge.textContent = KNOWN_HASH_VERDICT_LABELS[verdict];
+  badge.title = [...new Set(matches.filter(match => match.list.verdict === verdict).map(match => match.list.name))]
+    .join(", ");
+  cells.typeCell.append(" ", badge);
+  cells.rowElement.dataset["knownHash"] = verdict;
+};
+
 export {
   clearDirectoryTables,
   renderDirectoryTables,
   setFileMetadataCells,
+  setKnownHashBadge,
   setUnreadableFileCells
 };
 export type { DirectoryFileCells, DirectoryTableElements };
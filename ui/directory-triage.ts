@@ -0,0 +1,77 @@
+"use strict";
+
+import { renderTriageCsv, renderTriageJsonLines } from "../analyzers/triage/export.js";
+import { summarizeTriage } from "../analyzers/triage/statistics.js";
+import type { TriageRecord } from "../analyzers/triage/types.js";
+import { renderTriageStatistics } from "../renderers/directory-triage.js";
+import type { DirectoryTriageRecorder } from "./directory-file-scanning.js";
+import { triggerDownload } from "./entry-delivery.js";
+
+interface DirectoryTriageConfig {
+  readonly deepScanElement: HTMLInputElement;
+  readonly csvButtonElement: HTMLButtonElement;
+  readonly jsonLinesButtonElement: HTMLButtonElement;
+  readonly statisticsElement: HTMLElement;
+  readonly download?: (blob: Blob, filename: string) => void;
+}
+
+interface DirectoryTriageController extends DirectoryTriageRecorder {
+  // Starts collecting a new scan of the named folder; earlier records are dropped.
+  start(name: string): void;
+  finish(): void;
+  clear(): void;
+  onDeepScanChange(listener: () => void): void;
+}
+
+const exportBaseName = (name: string): string =>
+  `${name.replace(/[^a-z0-9._-]+/gi, "_").replace(/^_+|_+$/g, "") || "folder"}-triage`;
+
+// The folder overview: aggregate charts for the last complete scan and CSV / JSON Lines export
+// of every scanned row.
+const createDirectoryTriageController = (config: DirectoryTriageConfig): DirectoryTriageController => {
+  let records: TriageRecord[] = [];
+  let name = "";
+  const setExportEnabled = (enabled: boolean): void => {
+    config.csvButtonElement.disabled = !enabled;
+    config.jsonLinesButtonElement.disabled = !enabled;
+  };
+  const exportRecords = (text: string, extension: string, type: string): void => {
+    (config.download ?? triggerDownload)(new Blob([text], { type }), `${exportBaseName(name)}.${extension}`);
+  };
+  config.csvButtonElement.addEventListener("click", () =>
+    exportRecords(renderTriageCsv(records), "csv", "text/csv"));
+  config.jsonLinesButtonElement.addEventListener("click", () =>
+    exportRecords(renderTriageJsonLines(records), "jsonl", "application/jsonl"));
+  setExportEnabled(false);
+  return {
+    isDeepScan: () => config.deepScanElement.checked,
+    add: record => { records.push(record); },
+    start: folderName => {
+      records = [];
+      name = folderName;
+      setExportEnabled(false);
+      config.statisticsElement.innerHTML = `<p class="smallNote">Scanning...</p>`;
+    },
+    finish: () => {
+      config.statisticsElement.innerHTML = renderTriageStatistics(summarizeTriage(records));
+      setExportEnabled(records.length > 0);
+    },
+    clear: () => {
+      records = [];
+      setExportEnabled(false);
+      config.statisticsElement.innerHTML = "";
+    },
+    onDeepScanChange: listener => config.deepScanElement.addEventListener("change", listener)
+  };
+};
+
+const bindDirectoryTriagePanel = (getElement: (id: string) => HTMLElement): DirectoryTriageController =>
+  createDirectoryTriageController({
+    deepScanElement: getElement("directoryTriageDeepScan") as HTMLInputElement,
+    csvButtonElement: getElement("directoryTriageCsvButton") as HTMLButtonElement,
+    jsonLinesButtonElement: getElement("directoryTriageJsonLinesButton") as HTMLButtonElement,
+    statisticsElement: getElement("directoryTriageStatistics")
+  });
+
+export { bindDirectoryTriagePanel, createDirectoryTriageController };
+export type { DirectoryTriageConfig, DirectoryTriageController };
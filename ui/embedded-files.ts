@@ -0,0 +1,141 @@
+"use strict";
+
+import { scanEmbeddedContent } from "../analyzers/carving/index.js";
+import type { CarvedObject, CarvingScanProgress } from "../analyzers/carving/types.js";
+import { createFileRangeReader } from "../analyzers/file-range-reader.js";
+import { formatHumanSize } from "../binary-utils.js";
+import { renderCarvedObjects } from "../renderers/carving.js";
+import { describeError } from "../error-utils.js";
+import { deliverEntry, type EntryAnalyzer } from "./entry-delivery.js";
+
+interface EmbeddedFilesConfig {
+  readonly scanButton: HTMLButtonElement;
+  readonly cancelButton: HTMLButtonElement;
+  readonly progressElement: HTMLProgressElement;
+  readonly statusElement: HTMLElement;
+  readonly resultsElement: HTMLElement;
+  readonly analyzeEntry?: EntryAnalyzer;
+  readonly scan?: typeof scanEmbeddedContent;
+}
+
+interface EmbeddedFilesController {
+  show(file: File): void;
+  reset(): void;
+}
+
+const sanitizeBaseName = (name: string): string => {
+  const raw = name.split(/[\\/]/).pop()?.trim() || "file";
+  return raw.replace(/[^a-z0-9._-]+/gi, "_") || "file";
+};
+
+const readOffset = (element: Element, name: string): number | null => {
+  const value = element.getAttribute(name);
+  return value != null && /^\d+$/.test(value) ? Number(value) : null;
+};
+
+const describeProgress = (progress: CarvingScanProgress): string =>
+  `Scanning... ${progress.totalBytes ? Math.round((progress.bytesScanned / progress.totalBytes) * 100) : 0}% ` +
+  `(${formatHumanSize(progress.bytesScanned)} / ${formatHumanSize(progress.totalBytes)}), ` +
+  `${progress.objectsFound} found.`;
+
+// Scans only on request: the walk reads the whole file and probes every candidate offset.
+const createEmbeddedFilesController = (config: EmbeddedFilesConfig): EmbeddedFilesController => {
+  const scan = config.scan ?? scanEmbeddedContent;
+  let file: File | null = null;
+  let objects: readonly CarvedObject[] = [];
+  let abortController: AbortController | null = null;
+  const setBusy = (busy: boolean): void => {
+    config.scanButton.disabled = busy || !file;
+    config.cancelButton.hidden = !busy;
+    config.progressElement.hidden = !busy;
+  };
+  const cancel = (): void => {
+    abortController?.abort();
+    abortController = null;
+    setBusy(false);
+  };
+  const start = async (): Promise<void> => {
+    const current = file;
+    if (!current) return;
+    cancel();
+    const localAbort = new AbortController();
+    abortController = localAbort;
+    objects = [];
+    config.resultsElement.innerHTML = "";
+    config.statusElement.textContent = "Scanning...";
+    setBusy(true);
+    try {
+      const result = await scan(current, createFileRangeReader(current, 0, current.size), {
+        signal: localAbort.signal,
+        onProgress: progress => {
+          if (localAbort.signal.aborted) return;
+          config.progressElement.max = Math.max(1, progress.totalBytes);
+          config.progressElement.value = progress.bytesScanned;
+          config.statusElement.textContent = describeProgress(progress);
+        }
+      });
+      if (localAbort.signal.aborted || file !== current) return;
+      objects = result.objects;
+      config.resultsElement.innerHTML = renderCarvedObjects(objects);
+      config.statusElement.textContent = `Scanned ${formatHumanSize(result.scannedBytes)}.`;
+    } catch (error) {
+      if (!localAbort.signal.aborted) config.statusElement.textContent = `Embedded file scan failed: ${describeError(error)}`;
+    } finally {
+      if (abortController === localAbort) {
+        abortController = null;
+        setBusy(false);
+      }
+    }
+  };
+  config.scanButton.addEventListener("click", () => { void start(); });
+  config.cancelButton.addEventListener("click", () => {
+    cancel();
+    config.statusElement.textContent = "Scan cancelled.";
+  });
+  config.resultsElement.addEventListener("click", event => {
+    const button = (event.target as Element | null)?.closest?.("[data-carved-download]");
+    if (!button || !file) return;
+    const startOffset = readOffset(button, "data-carved-start");
+    const endOffset = readOffset(button, "data-carved-end");
+    const object = objects.find(candidate => candidate.start === startOffset && candidate.end === endOffset);
+    if (!object) return;
+    deliverEntry(button, {
+      blob: file.slice(object.start, object.end, "application/octet-stream"),
+      name: `${sanitizeBaseName(file.name)}.carved-${object.start.toString(16)}-${object.end.toString(16)}.bin`,
+      label: `carved ${object.label}`
+    }, config.analyzeEntry);
+  });
+  const reset = (): void => {
+    cancel();
+    file = null;
+    objects = [];
+    config.statusElement.textContent = "";
+    config.resultsElement.innerHTML = "";
+    setBusy(false);
+  };
+  return {
+    show: nextFile => {
+      reset();
+      file = nextFile;
+      config.statusElement.textContent = "Not scanned.";
+      setBusy(false);
+    },
+    reset
+  };
+};
+
+const bindEmbeddedFilesPanel = (
+  getElement: (id: string) => HTMLElement,
+  analyzeEntry: EntryAnalyzer
+): EmbeddedFilesController =>
+  createEmbeddedFilesController({
+    scanButton: getElement("carvingScanButton") as HTMLButtonElement,
+    cancelButton: getElement("carvingCancelButton") as HTMLButtonElement,
+    progressElement: getElement("carvingProgress") as HTMLProgressElement,
+    statusElement: getElement("carvingStatus"),
+    resultsElement: getElement("carvingResults"),
+    analyzeEntry
+  });
+
+export { bindEmbeddedFilesPanel, createEmbeddedFilesController };
+export type { EmbeddedFilesConfig, EmbeddedFilesController };
@@ -0,0 +1,161 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzers/index.js";
+import { calculateEntropyProfile } from "../analyzers/entropy-profile.js";
+import { createFileRangeReader } from "../analyzers/file-range-reader.js";
+import { describeStructures, findStructuresAt, type StructureRange } from "../analyzers/structure-map/index.js";
+import { renderEntropyProfile } from "../renderers/entropy-profile.js";
+import { describeError } from "../error-utils.js";
+import { showPagedSortableTableRow } from "./paged-sortable-tables.js";
+
+interface EntropyProfileConfig {
+  readonly detailsElement: HTMLDetailsElement;
+  readonly statusElement: HTMLElement;
+  readonly chartElement: HTMLElement;
+  // Analysis output searched for the table row of a clicked structure.
+  readonly tableRoot: HTMLElement;
+  readonly calculate?: typeof calculateEntropyProfile;
+  readonly showPagedRow?: typeof showPagedSortableTableRow;
+}
+
+interface EntropyProfileController {
+  show(file: File, result: ParseForUiResult): void;
+  reset(): void;
+}
+
+interface EntropyTarget {
+  file: File;
+  structures: StructureRange[];
+  rendered: boolean;
+}
+
+const JUMP_TARGET_CLASS = "entropyJumpTarget";
+
+const findRangeRow = (root: HTMLElement, range: StructureRange): HTMLElement | null => {
+  const element = root.querySelector<HTMLElement>(
+    `[data-file-range-start="${range.start}"][data-file-range-end="${range.end}"]`
+  );
+  return element?.closest<HTMLElement>("tr") ?? element;
+};
+
+// Rows of paged tables exist only for the page shown, so when no range has a row in the DOM the
+// page holding one is shown before looking again.
+const locateRangeRow = (
+  root: HTMLElement,
+  ranges: readonly StructureRange[],
+  showPagedRow: typeof showPagedSortableTableRow
+): { range: StructureRange; row: HTMLElement } | null => {
+  for (const range of ranges) {
+    const row = findRangeRow(root, range);
+    if (row) return { range, row };
+  }
+  for (const range of ranges) {
+    if (!showPagedRow(root, `data-file-range-start="${range.start}" data-file-range-end="${range.end}"`)) continue;
+    const row = findRangeRow(root, range);
+    if (row) return { range, row };
+  }
+  return null;
+};
+
+const openAncestors = (element: HTMLElement): void => {
+  for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+    if (parent.tagName === "DETAILS") (parent as HTMLDetailsElement).open = true;
+  }
+};
+
+// A click on a band names its structure; elsewhere on the chart the owners of the byte under
+// the pointer are tried from the most specific outwards.
+const rangesAtClick = (event: MouseEvent, structures: readonly StructureRange[]): StructureRange[] => {
+  const target = event.target as Element | null;
+  const band = target?.closest?.("[data-entropy-structure-start]");
+  if (band) {
+    const start = Number(band.getAttribute("data-entropy-structure-start"));
+    const end = Number(band.getAttribute("data-entropy-structure-end"));
+    return structures.filter(range => range.start === start && range.end === end);
+  }
+  const chart = target?.closest?.("[data-entropy-profile-size]");
+  if (!chart) return [];
+  const bounds = chart.getBoundingClientRect();
+  const fileSize = Number(chart.getAttribute("data-entropy-profile-size"));
+  if (!bounds.width || !fileSize) return [];
+  const fraction = Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width));
+  return findStructuresAt(structures, Math.min(fileSize - 1, Math.floor(fraction * fileSize))).reverse();
+};
+
+// The profile reads the whole file, so it is calculated only while the panel is open.
+const createEntropyProfileController = (config: EntropyProfileConfig): EntropyProfileController => {
+  const calculate = config.calculate ?? calculateEntropyProfile;
+  const showPagedRow = config.showPagedRow ?? showPagedSortableTableRow;
+  let target: EntropyTarget | null = null;
+  let generation = 0;
+  let jumpTarget: HTMLElement | null = null;
+  const run = async (): Promise<void> => {
+    const currentGeneration = ++generation;
+    const current = target;
+    if (!current || current.rendered || !config.detailsElement.open) return;
+    const isCurrent = (): boolean => generation === currentGeneration;
+    config.statusElement.textContent = "Calculating entropy...";
+    try {
+      const profile = await calculate(createFileRangeReader(current.file, 0, current.file.size), {
+        isCurrent,
+        onProgress: (scanned, total) => {
+          if (isCurrent()) config.statusElement.textContent = `Calculating entropy... ${Math.floor((scanned / total) * 100)}%`;
+        }
+      });
+      if (!profile || !isCurrent()) return;
+      current.rendered = true;
+      config.chartElement.innerHTML = renderEntropyProfile(profile, current.structures);
+      config.statusElement.textContent = "";
+    } catch (error) {
+      if (isCurrent()) config.statusElement.textContent = `Entropy calculation failed: ${describeError(error)}`;
+    }
+  };
+  const jump = (event: MouseEvent): void => {
+    if (!target) return;
+    const ranges = rangesAtClick(event, target.structures);
+    if (!ranges.length) return;
+    const match = locateRangeRow(config.tableRoot, ranges, showPagedRow);
+    if (!match) {
+      config.statusElement.textContent = `No table row shows ${ranges[0]?.label ?? "this range"}.`;
+      return;
+    }
+    jumpTarget?.classList.remove(JUMP_TARGET_CLASS);
+    jumpTarget = match.row;
+    jumpTarget.classList.add(JUMP_TARGET_CLASS);
+    openAncestors(jumpTarget);
+    jumpTarget.scrollIntoView({ block: "center" });
+    config.statusElement.textContent = `Showing ${match.range.label}.`;
+  };
+  config.detailsElement.addEventListener("toggle", () => { void run(); });
+  config.chartElement.addEventListener("click", jump);
+  const reset = (): void => {
+    target = null;
+    generation += 1;
+    jumpTarget?.classList.remove(JUMP_TARGET_CLASS);
+    jumpTarget = null;
+    config.statusElement.textContent = "";
+    config.chartElement.innerHTML = "";
+  };
+  return {
+    show: (file, result) => {
+      reset();
+      target = { file, structures: describeStructures(result, file.size), rendered: false };
+      void run();
+    },
+    reset
+  };
+};
+
+const bindEntropyProfilePanel = (
+  getElement: (id: string) => HTMLElement,
+  tableRoot: HTMLElement
+): EntropyProfileController =>
+  createEntropyProfileController({
+    detailsElement: getElement("entropyDetails") as HTMLDetailsElement,
+    statusElement: getElement("entropyStatus"),
+    chartElement: getElement("entropyChart"),
+    tableRoot
+  });
+
+export { bindEntropyProfilePanel, createEntropyProfileController };
+export type { EntropyProfileConfig, EntropyProfileController };
@@ -0,0 +1,40 @@
+"use strict";
+
+import { ANALYZE_ENTRY_ATTRIBUTE } from "../renderers/download-button.js";
+
+interface NestedEntry {
+  readonly blob: Blob;
+  // Suggested file name, used both for the download and for the nested inspection.
+  readonly name: string;
+  // Breadcrumb label, e.g. "overlay 7z" or the archive member path.
+  readonly label: string;
+}
+
+type EntryAnalyzer = (entry: NestedEntry) => void;
+
+const triggerDownload = (blob: Blob, suggestedName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = suggestedName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const isAnalyzeEntryButton = (button: Element): boolean =>
+  button.getAttribute(ANALYZE_ENTRY_ATTRIBUTE) != null;
+
+// Analyze buttons share the data attributes of their download sibling, so every entry handler
+// extracts the bytes once and only the final hand-off differs.
+const deliverEntry = (button: Element, entry: NestedEntry, analyzeEntry: EntryAnalyzer | undefined): void => {
+  if (analyzeEntry && isAnalyzeEntryButton(button)) {
+    analyzeEntry(entry);
+    return;
+  }
+  triggerDownload(entry.blob, entry.name);
+};
+
+export { deliverEntry, isAnalyzeEntryButton, triggerDownload };
+export type { EntryAnalyzer, NestedEntry };
@@ -0,0 +1,45 @@
+"use strict";
+
+import { escapeHtml } from "../html-utils.js";
+import type { InspectionContext } from "./inspection-context.js";
+
+interface EntryPathStep {
+  readonly file: File;
+  readonly context: InspectionContext;
+}
+
+const ENTRY_PATH_INDEX_ATTRIBUTE = "data-entry-path-index";
+
+// Walks the parent chain of a nested inspection, outermost file first.
+const listEntryPath = (file: File, context: InspectionContext): EntryPathStep[] => {
+  const steps: EntryPathStep[] = [{ file, context }];
+  let step: InspectionContext = context;
+  while (step.source === "entry") {
+    steps.unshift(step.parent);
+    step = step.parent.context;
+  }
+  return steps;
+};
+
+const describeEntryPathStep = (step: EntryPathStep): string =>
+  step.context.source === "entry" ? step.context.label : step.file.name || "(unnamed)";
+
+// Earlier steps are buttons so users can jump back to any containing file; the current entry is
+// plain text.
+const renderEntryPath = (steps: readonly EntryPathStep[]): string =>
+  steps.map((step, index) => {
+    const label = escapeHtml(describeEntryPathStep(step));
+    return index === steps.length - 1
+      ? `<span class="entryPath__current" aria-current="location">${label}</span>`
+      : `<button type="button" class="entryPath__step" ${ENTRY_PATH_INDEX_ATTRIBUTE}="${index}">${label}</button>`;
+  }).join(`<span class="entryPath__separator" aria-hidden="true"> &rsaquo; </span>`);
+
+const readEntryPathIndex = (target: EventTarget | null): number | null => {
+  if (!(target instanceof Element)) return null;
+  const value = target.closest(`[${ENTRY_PATH_INDEX_ATTRIBUTE}]`)?.getAttribute(ENTRY_PATH_INDEX_ATTRIBUTE);
+  if (value == null || !/^\d+$/.test(value)) return null;
+  return Number(value);
+};
+
+export { listEntryPath, readEntryPathIndex, renderEntryPath };
+export type { EntryPathStep };
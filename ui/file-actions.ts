@@ -13,11 +13,13 @@ import { createPePayloadDownloadClickHandler } from "./pe-payload-download.js";
 import { createPeInnoSetupDownloadClickHandler } from "./pe-inno-setup-download.js";
 import { createSevenZipEntryClickHandler } from "./sevenz-actions.js";
 import { createZipEntryClickHandler } from "./zip-actions.js";
+import type { EntryAnalyzer } from "./entry-delivery.js";
 
 type FileActionDeps = {
   getParseResult: () => ParseForUiResult;
   getFile: () => File | null;
   setStatusMessage: (message: string | null | undefined) => void;
+  analyzeEntry?: EntryAnalyzer;
 };
 
 type AsyncEventHandler = (event: Event) => Promise<void>;
@@ -0,0 +1,83 @@
+"use strict";
+
+import { diffParsedFiles } from "../analyzers/diff/index.js";
+import { renderStructuralDiff } from "../renderers/structural-diff.js";
+import { describeError } from "../error-utils.js";
+import { describeParseProgress, parseFileForUi } from "./parse-worker-client.js";
+
+type StatusWriter = (message: string | null | undefined) => void;
+
+interface FileCompareConfig {
+  readonly openButtonElement: HTMLButtonElement;
+  readonly inputElement: HTMLInputElement;
+  readonly cardElement: HTMLElement;
+  readonly bodyElement: HTMLElement;
+  // Hides the single-file and folder views before the comparison is shown.
+  readonly beforeShow: () => void;
+  readonly setStatusMessage: StatusWriter;
+  readonly parseFile?: typeof parseFileForUi;
+}
+
+interface FileCompareController {
+  compare(left: File, right: File): Promise<void>;
+  hide(): void;
+}
+
+const createFileCompareController = (config: FileCompareConfig): FileCompareController => {
+  const parseFile = config.parseFile ?? parseFileForUi;
+  let abortController: AbortController | null = null;
+  const hide = (): void => {
+    abortController?.abort();
+    abortController = null;
+    config.cardElement.hidden = true;
+    config.bodyElement.innerHTML = "";
+  };
+  const compare = async (left: File, right: File): Promise<void> => {
+    hide();
+    config.beforeShow();
+    const controller = new AbortController();
+    abortController = controller;
+    const { signal } = controller;
+    const report = (message: string): void => { if (!signal.aborted) config.setStatusMessage(message); };
+    config.cardElement.hidden = false;
+    try {
+      const parseSide = (file: File, side: string) => parseFile(file, {
+        signal,
+        onProgress: progress => report(`${side} file: ${describeParseProgress(progress)}`)
+      });
+      const leftResult = await parseSide(left, "Left");
+      const rightResult = await parseSide(right, "Right");
+      report("Comparing files...");
+      const diff = await diffParsedFiles({ file: left, result: leftResult }, { file: right, result: rightResult }, {
+        signal,
+        onByteProgress: (compared, total) =>
+          report(`Comparing bytes... ${total ? Math.floor((compared / total) * 100) : 100}%`),
+        onSimilarityProgress: (hashed, total) =>
+          report(`Computing fuzzy hashes... ${total ? Math.floor((hashed / total) * 100) : 100}%`)
+      });
+      if (signal.aborted) return;
+      config.bodyElement.innerHTML = renderStructuralDiff(diff);
+      config.setStatusMessage(null);
+    } catch (error) {
+      if (signal.aborted) return;
+      config.setStatusMessage(`Comparison failed: ${describeError(error)}`);
+    } finally {
+      if (abortController === controller) abortController = null;
+    }
+  };
+  config.openButtonElement.addEventListener("click", () => config.inputElement.click());
+  config.inputElement.addEventListener("change", () => {
+    const files = Array.from(config.inputElement.files ?? []);
+    config.inputElement.value = "";
+    const [left, right] = files;
+    if (files.length !== 2 || !left || !right) {
+      config.setStatusMessage("Select exactly two files to compare.");
+      return;
+    }
+    void compare(left, right);
+  });
+  return { compare, hide };
+};
+
+export { createFileCompareController };
+export type { FileCompareConfig, FileCompareController };
@@ -1,15 +1,34 @@
 "use strict";
 
+import type { NestedEntry } from "./entry-delivery.js";
+import { listEntryPath, readEntryPathIndex, renderEntryPath, type EntryPathStep } from "./entry-path.js";
 import { renderInspectionContext } from "./inspection-context.js";
 import type { InspectionContext, InspectionContextElements } from "./inspection-context.js";
 
+type FileOpener = (file: File, context: InspectionContext) => Promise<void>;
+
 interface FileInspectionContextController {
   clear(): void;
-  render(context: InspectionContext): void;
+  // Opens an extracted archive member or payload as a nested inspection of the current file.
+  openEntry(entry: NestedEntry): void;
+  render(file: File, context: InspectionContext): void;
+}
+
+interface EntryPathElements {
+  readonly detailElement: HTMLElement;
+  readonly termElement: HTMLElement;
 }
 
+const renderEntryPathRow = (elements: EntryPathElements, steps: readonly EntryPathStep[]): void => {
+  const nested = steps.length > 1;
+  elements.termElement.hidden = !nested;
+  elements.detailElement.hidden = !nested;
+  elements.detailElement.innerHTML = nested ? renderEntryPath(steps) : "";
+};
+
 const createFileInspectionContext = (
-  getElement: (id: string) => HTMLElement
+  getElement: (id: string) => HTMLElement,
+  openFile: FileOpener
 ): FileInspectionContextController => {
   const elements: InspectionContextElements = {
     objectElement: getElement("fileObjectDetail"),
@@ -17,9 +36,35 @@ const createFileInspectionContext = (
     relativePathTermElement: getElement("fileRelativePathTerm"),
     sourceElement: getElement("fileSourceDetail")
   };
+  const entryPathElements: EntryPathElements = {
+    detailElement: getElement("fileEntryPathDetail"),
+    termElement: getElement("fileEntryPathTerm")
+  };
+  let steps: EntryPathStep[] = [];
+  entryPathElements.detailElement.addEventListener("click", event => {
+    const index = readEntryPathIndex(event.target);
+    const step = index == null ? null : steps[index];
+    if (!step) return;
+    event.preventDefault();
+    void openFile(step.file, step.context);
+  });
   return {
-    clear: () => { renderInspectionContext(elements, null); },
-    render: context => { renderInspectionContext(elements, context); }
+    clear: () => {
+      steps = [];
+      renderInspectionContext(elements, null);
+      renderEntryPathRow(entryPathElements, steps);
+    },
+    openEntry: entry => {
+      const current = steps[steps.length - 1];
+      if (!current) return;
+      const file = new File([entry.blob], entry.name, { type: entry.blob.type });
+      void openFile(file, { source: "entry", object: "file", label: entry.label, parent: current });
+    },
+    render: (file, context) => {
+      steps = listEntryPath(file, context);
+      renderInspectionContext(elements, context);
+      renderEntryPathRow(entryPathElements, steps);
+    }
   };
 };
 
@@ -0,0 +1,59 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzers/index.js";
+import { bindCoverageMapPanel } from "./coverage-map.js";
+import { bindEmbeddedFilesPanel } from "./embedded-files.js";
+import { bindEntropyProfilePanel } from "./entropy-profile.js";
+import type { EntryAnalyzer } from "./entry-delivery.js";
+import { bindFileStringsPanel } from "./file-strings.js";
+import { bindKaitaiPanel } from "./kaitai.js";
+import { bindPolyglotPanel } from "./polyglot.js";
+
+interface FilePanelDeps {
+  // Rendered analysis, where the entropy chart looks for the table row of a structure.
+  readonly analysisElement: HTMLElement;
+  readonly linkRanges: (element: HTMLElement) => void;
+  readonly analyzeEntry: EntryAnalyzer;
+}
+
+interface FilePanels {
+  show(file: File, result: ParseForUiResult): void;
+  reset(): void;
+}
+
+// The panels under the analysis (Kaitai definitions, interpretations, coverage, strings, entropy,
+// embedded files) all work on the raw bytes of the current file and are shown and reset together.
+const bindFilePanels = (getElement: (id: string) => HTMLElement, deps: FilePanelDeps): FilePanels => {
+  const kaitai = bindKaitaiPanel(getElement);
+  const polyglot = bindPolyglotPanel(getElement);
+  const coverage = bindCoverageMapPanel(getElement);
+  const strings = bindFileStringsPanel(getElement);
+  const entropy = bindEntropyProfilePanel(getElement, deps.analysisElement);
+  const embeddedFiles = bindEmbeddedFilesPanel(getElement, deps.analyzeEntry);
+  deps.linkRanges(getElement("kaitaiResults"));
+  deps.linkRanges(getElement("polyglotResults"));
+  deps.linkRanges(getElement("coverageResults"));
+  deps.linkRanges(getElement("stringsResults"));
+  deps.linkRanges(getElement("carvingResults"));
+  return {
+    show: (file, result) => {
+      void kaitai.show(file);
+      void polyglot.show(file);
+      coverage.show(file, result);
+      strings.show(file, result);
+      entropy.show(file, result);
+      embeddedFiles.show(file);
+    },
+    reset: () => {
+      kaitai.reset();
+      polyglot.reset();
+      coverage.reset();
+      strings.reset();
+      entropy.reset();
+      embeddedFiles.reset();
+    }
+  };
+};
+
+export { bindFilePanels };
+export type { FilePanelDeps, FilePanels };
@@ -0,0 +1,173 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzers/index.js";
+import { createFileRangeReader } from "../analyzers/file-range-reader.js";
+import {
+  STRING_ENCODINGS,
+  STRING_RESULT_LIMIT,
+  extractStrings,
+  type ExtractedString,
+  type StringEncoding,
+  type StringExtraction
+} from "../analyzers/strings/index.js";
+import { describeStructures, findStructuresAt } from "../analyzers/structure-map/index.js";
+import { renderPagedSortableTable } from "../renderers/paged-sortable-table.js";
+import { createStringsTableModel, renderStringsCsv, type StringOwnerLookup } from "../renderers/strings.js";
+import { describeError } from "../error-utils.js";
+import { triggerDownload } from "./entry-delivery.js";
+import { enhancePagedSortableTables } from "./paged-sortable-tables.js";
+
+interface FileStringsConfig {
+  readonly detailsElement: HTMLDetailsElement;
+  readonly minLengthInput: HTMLInputElement;
+  readonly encodingInputs: readonly HTMLInputElement[];
+  readonly filterInput: HTMLInputElement;
+  readonly exportButton: HTMLButtonElement;
+  readonly statusElement: HTMLElement;
+  readonly resultsElement: HTMLElement;
+  readonly extract?: typeof extractStrings;
+}
+
+interface FileStringsController {
+  show(file: File, result: ParseForUiResult): void;
+  reset(): void;
+}
+
+interface StringsTarget {
+  file: File;
+  owner: StringOwnerLookup;
+  extraction: StringExtraction | null;
+}
+
+const DEFAULT_MIN_LENGTH = 4;
+const MIN_LENGTH_RANGE = { min: 2, max: 256 };
+
+const isStringEncoding = (value: string | undefined): value is StringEncoding =>
+  STRING_ENCODINGS.includes(value as StringEncoding);
+
+// Offsets are looked up once each; sorting by owner asks for every row.
+const createOwnerLookup = (file: File, result: ParseForUiResult): StringOwnerLookup => {
+  const ranges = describeStructures(result, file.size);
+  const cache = new Map<number, string>();
+  return offset => {
+    let label = cache.get(offset);
+    if (label === undefined) {
+      label = findStructuresAt(ranges, offset).at(-1)?.label ?? "";
+      cache.set(offset, label);
+    }
+    return label;
+  };
+};
+
+const readMinLength = (input: HTMLInputElement): number => {
+  const value = Number(input.value);
+  if (!Number.isInteger(value)) return DEFAULT_MIN_LENGTH;
+  return Math.min(MIN_LENGTH_RANGE.max, Math.max(MIN_LENGTH_RANGE.min, value));
+};
+
+const filterStrings = (strings: readonly ExtractedString[], filter: string): readonly ExtractedString[] => {
+  const needle = filter.trim().toLowerCase();
+  return needle ? strings.filter(entry => entry.text.toLowerCase().includes(needle)) : strings;
+};
+
+const describeExtraction = (extraction: StringExtraction, shown: number): string => {
+  const total = extraction.strings.length;
+  const filtered = shown === total ? `${total} strings` : `${shown} of ${total} strings match the filter`;
+  return extraction.truncated
+    ? `${filtered}; stopped after ${STRING_RESULT_LIMIT} strings at offset 0x${extraction.scannedBytes.toString(16)}.`
+    : `${filtered}.`;
+};
+
+// Extraction reads the whole file, so it starts only when the panel is open and reruns
+// when the minimum length or the encodings change.
+const createFileStringsController = (config: FileStringsConfig): FileStringsController => {
+  const extract = config.extract ?? extractStrings;
+  let target: StringsTarget | null = null;
+  let generation = 0;
+  const visibleStrings = (): readonly ExtractedString[] =>
+    filterStrings(target?.extraction?.strings ?? [], config.filterInput.value);
+  const renderTable = (): void => {
+    const extraction = target?.extraction;
+    if (!target || !extraction) return;
+    const strings = visibleStrings();
+    const model = createStringsTableModel(strings, target.owner);
+    config.statusElement.textContent = describeExtraction(extraction, strings.length);
+    config.resultsElement.innerHTML = strings.length ? renderPagedSortableTable(model) : "";
+    enhancePagedSortableTables(config.resultsElement, () => model);
+    config.exportButton.disabled = !strings.length;
+  };
+  const run = async (): Promise<void> => {
+    const currentGeneration = ++generation;
+    const current = target;
+    if (!current || !config.detailsElement.open) return;
+    current.extraction = null;
+    config.exportButton.disabled = true;
+    config.resultsElement.innerHTML = "";
+    config.statusElement.textContent = "Extracting strings...";
+    const isCurrent = (): boolean => generation === currentGeneration;
+    try {
+      const extraction = await extract(createFileRangeReader(current.file, 0, current.file.size), {
+        minLength: readMinLength(config.minLengthInput),
+        encodings: config.encodingInputs
+          .filter(input => input.checked)
+          .map(input => input.dataset["stringsEncoding"])
+          .filter(isStringEncoding),
+        isCurrent,
+        onProgress: (scanned, total) => {
+          if (isCurrent()) config.statusElement.textContent = `Extracting strings... ${Math.floor((scanned / total) * 100)}%`;
+        }
+      });
+      if (!extraction || !isCurrent()) return;
+      current.extraction = extraction;
+      renderTable();
+    } catch (error) {
+      if (isCurrent()) config.statusElement.textContent = `String extraction failed: ${describeError(error)}`;
+    }
+  };
+  config.detailsElement.addEventListener("toggle", () => {
+    if (config.detailsElement.open && target && !target.extraction) void run();
+  });
+  const rerun = (): void => {
+    if (target) target.extraction = null;
+    void run();
+  };
+  config.minLengthInput.addEventListener("change", rerun);
+  config.encodingInputs.forEach(input => input.addEventListener("change", rerun));
+  config.filterInput.addEventListener("input", renderTable);
+  config.exportButton.addEventListener("click", () => {
+    if (!target?.extraction) return;
+    const csv = renderStringsCsv(visibleStrings(), target.owner);
+    triggerDownload(new Blob([csv], { type: "text/csv" }), `${target.file.name || "file"}.strings.csv`);
+  });
+  const reset = (): void => {
+    target = null;
+    generation += 1;
+    config.statusElement.textContent = "";
+    config.resultsElement.innerHTML = "";
+    config.exportButton.disabled = true;
+  };
+  return {
+    show: (file, result) => {
+      reset();
+      target = { file, owner: createOwnerLookup(file, result), extraction: null };
+      void run();
+    },
+    reset
+  };
+};
+
+const bindFileStringsPanel = (getElement: (id: string) => HTMLElement): FileStringsController => {
+  const detailsElement = getElement("stringsDetails") as HTMLDetailsElement;
+  return createFileStringsController({
+    detailsElement,
+    minLengthInput: getElement("stringsMinLength") as HTMLInputElement,
+    encodingInputs: Array.from(detailsElement.querySelectorAll<HTMLInputElement>("input[data-strings-encoding]")),
+    filterInput: getElement("stringsFilter") as HTMLInputElement,
+    exportButton: getElement("stringsExportButton") as HTMLButtonElement,
+    statusElement: getElement("stringsStatus"),
+    resultsElement: getElement("stringsResults")
+  });
+};
+
+export { bindFileStringsPanel, createFileStringsController };
+export type { FileStringsConfig, FileStringsController };
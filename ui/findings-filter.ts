@@ -0,0 +1,19 @@
+"use strict";
+
+import { FINDING_ROW_SEVERITY_ATTRIBUTE, FINDINGS_SEVERITY_ATTRIBUTE } from "../renderers/findings.js";
+
+// Severity toggles of the Findings summary: a pressed toggle shows the rows of its severity.
+const handleFindingsFilterClick = (targetElement: Element | null): boolean => {
+  const toggle = targetElement?.closest?.(`button[${FINDINGS_SEVERITY_ATTRIBUTE}]`);
+  const section = toggle?.closest(".findings");
+  if (!toggle || !section) return false;
+  const severity = toggle.getAttribute(FINDINGS_SEVERITY_ATTRIBUTE);
+  const shown = toggle.getAttribute("aria-pressed") !== "true";
+  toggle.setAttribute("aria-pressed", String(shown));
+  section.querySelectorAll<HTMLElement>(`tr[${FINDING_ROW_SEVERITY_ATTRIBUTE}="${severity}"]`).forEach(row => {
+    row.hidden = !shown;
+  });
+  return true;
+};
+
+export { handleFindingsFilterClick };
@@ -0,0 +1,93 @@
+"use strict";
+
+import type { AnalyzerName, AnalyzerParseMap } from "../analyzers/index.js";
+import { renderMachO } from "../renderers/macho/index.js";
+import {
+  renderAni,
+  renderAsf,
+  renderAvi,
+  renderBmp,
+  renderCatalog,
+  renderCoff,
+  renderElf,
+  renderFb2,
+  renderFlac,
+  renderGif,
+  renderGzip,
+  renderIso9660,
+  renderJpeg,
+  renderLnk,
+  renderMkv,
+  renderMp3,
+  renderMp4,
+  renderMpegPs,
+  renderMz,
+  renderPcap,
+  renderPcapNg,
+  renderPdb,
+  renderPdf,
+  renderPe,
+  renderPng,
+  renderRar,
+  renderSevenZip,
+  renderSqlite,
+  renderTar,
+  renderTga,
+  renderWav,
+  renderWebm,
+  renderWebp,
+  renderZip
+} from "../renderers/index.js";
+
+// Which browser preview is shown above the analysis: "media" accepts audio or video, and
+// video-capable previews get error guards because inline playback support varies by codec.
+type PreviewSupport = "none" | "image" | "audio" | "video" | "media";
+
+interface FormatRenderer<Name extends AnalyzerName> {
+  readonly title: string;
+  readonly render: (parsed: AnalyzerParseMap[Name]) => string;
+  readonly preview: PreviewSupport;
+}
+
+type FormatRendererMap = { readonly [Name in AnalyzerName]: FormatRenderer<Name> };
+
+const FORMAT_RENDERERS: FormatRendererMap = {
+  coff: { title: "COFF object details", render: renderCoff, preview: "none" },
+  pe: { title: "PE/COFF details", render: renderPe, preview: "none" },
+  mz: { title: "MS-DOS MZ details", render: renderMz, preview: "none" },
+  elf: { title: "ELF details", render: renderElf, preview: "none" },
+  macho: { title: "Mach-O details", render: renderMachO, preview: "none" },
+  zip: { title: "ZIP details", render: renderZip, preview: "none" },
+  sevenZip: { title: "7z details", render: renderSevenZip, preview: "none" },
+  tar: { title: "TAR details", render: renderTar, preview: "none" },
+  iso9660: { title: "ISO-9660 details", render: renderIso9660, preview: "none" },
+  gzip: { title: "gzip details", render: renderGzip, preview: "none" },
+  rar: { title: "RAR details", render: renderRar, preview: "none" },
+  jpeg: { title: "JPEG details", render: renderJpeg, preview: "image" },
+  gif: { title: "GIF details", render: renderGif, preview: "image" },
+  png: { title: "PNG details", render: renderPng, preview: "image" },
+  bmp: { title: "BMP details", render: renderBmp, preview: "image" },
+  tga: { title: "TGA details", render: renderTga, preview: "none" },
+  webp: { title: "WebP details", render: renderWebp, preview: "image" },
+  ani: { title: "ANI details", render: renderAni, preview: "image" },
+  webm: { title: "WebM details", render: renderWebm, preview: "video" },
+  mkv: { title: "Matroska (MKV) details", render: renderMkv, preview: "video" },
+  mp4: { title: "MP4 details", render: renderMp4, preview: "video" },
+  mpegps: { title: "MPEG Program Stream details", render: renderMpegPs, preview: "video" },
+  avi: { title: "AVI details", render: renderAvi, preview: "video" },
+  asf: { title: "ASF details", render: renderAsf, preview: "media" },
+  sqlite: { title: "SQLite details", render: renderSqlite, preview: "none" },
+  fb2: { title: "FB2 details", render: renderFb2, preview: "none" },
+  lnk: { title: "Windows shortcut details", render: renderLnk, preview: "none" },
+  catalog: { title: "Security catalog details", render: renderCatalog, preview: "none" },
+  pdb: { title: "PDB debug symbol details", render: renderPdb, preview: "none" },
+  pcap: { title: "PCAP details", render: renderPcap, preview: "none" },
+  pcapng: { title: "PCAP-NG details", render: renderPcapNg, preview: "none" },
+  pdf: { title: "PDF details", render: renderPdf, preview: "none" },
+  mp3: { title: "MP3 details", render: renderMp3, preview: "audio" },
+  flac: { title: "FLAC details", render: renderFlac, preview: "audio" },
+  wav: { title: "WAV details", render: renderWav, preview: "audio" }
+};
+
+export { FORMAT_RENDERERS };
+export type { FormatRenderer, FormatRendererMap, PreviewSupport };
@@ -1,11 +1,13 @@
 "use strict";
 
 import type { ParseForUiResult } from "../analyzers/index.js";
+import { deliverEntry, type EntryAnalyzer } from "./entry-delivery.js";
 
 type GzipDeps = {
   getParseResult: () => ParseForUiResult;
   getFile: () => File | null;
   setStatusMessage: (message: string | null | undefined) => void;
+  analyzeEntry?: EntryAnalyzer;
 };
 
 const sanitizeDownloadName = (name: string): string => {
@@ -46,18 +48,7 @@ const decompressGzipToBlob = async (file: File): Promise<Blob> => {
   return new Response(stream).blob();
 };
 
-const triggerDownload = (blob: Blob, suggestedName: string): void => {
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = suggestedName;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-};
-
-const createGzipClickHandler = ({ getParseResult, getFile, setStatusMessage }: GzipDeps) =>
+const createGzipClickHandler = ({ getParseResult, getFile, setStatusMessage, analyzeEntry }: GzipDeps) =>
   async (event: Event): Promise<void> => {
     const target = event.target;
     if (!(target instanceof Element)) return;
@@ -87,7 +78,7 @@ const createGzipClickHandler = ({ getParseResult, getFile, setStatusMessage }: G
     button.textContent = "Decompressing...";
     try {
       const blob = await decompressGzipToBlob(file);
-      triggerDownload(blob, suggestedName);
+      deliverEntry(button, { blob, name: suggestedName, label: suggestedName }, analyzeEntry);
       setStatusMessage(null);
     } catch (error) {
       const message = error instanceof Error && error.message ? error.message : String(error);
@@ -3,12 +3,13 @@
 import { md5, sha1 } from "@noble/hashes/legacy.js";
 import { sha224, sha256, sha384, sha512, sha512_224, sha512_256 } from "@noble/hashes/sha2.js";
 import type { CHash } from "@noble/hashes/utils.js";
+import { computeTextHashes, isTextHashId, type TextHashId } from "../analyzers/hashes/index.js";
 import { bufferToHex } from "../binary-utils.js";
 import { updateAccessibleTooltipButton } from "./accessible-tooltips.js";
 
 type HashAlgorithmId =
   "md5" | "sha1" | "sha224" | "sha256" | "sha384" | "sha512" |
-  "sha512224" | "sha512256";
+  "sha512224" | "sha512256" | TextHashId;
 
 type NativeHashAlgorithmOption = {
   id: HashAlgorithmId;
@@ -18,6 +19,8 @@ type NativeHashAlgorithmOption = {
 
 type FallbackHashId = HashAlgorithmId;
 
+type DigestHashId = Exclude<FallbackHashId, TextHashId>;
+
 type FallbackHashAlgorithmOption = {
   id: FallbackHashId;
   label: string;
@@ -34,7 +37,7 @@ type HashControls = {
 };
 
 type FileDigest = {
-  value: Uint8Array;
+  text: string;
   usedNativeFallback: boolean;
 };
 
@@ -46,10 +49,15 @@ const HASH_ALGORITHMS: readonly HashAlgorithmOption[] = [
   { id: "sha384", label: "SHA-384", nativeAlgorithm: "SHA-384" },
   { id: "sha512", label: "SHA-512", nativeAlgorithm: "SHA-512" },
   { id: "sha512224", label: "SHA-512/224" },
-  { id: "sha512256", label: "SHA-512/256" }
+  { id: "sha512256", label: "SHA-512/256" },
+  { id: "blake3", label: "BLAKE3" },
+  { id: "crc32", label: "CRC32" },
+  { id: "xxh64", label: "xxHash64" },
+  { id: "ssdeep", label: "ssdeep" },
+  { id: "tlsh", label: "TLSH" }
 ] as const;
 
-const FALLBACK_HASHES: Readonly<Record<FallbackHashId, CHash>> = {
+const FALLBACK_HASHES: Readonly<Record<DigestHashId, CHash>> = {
   md5,
   sha1,
   sha224,
@@ -116,10 +124,12 @@ const computeNativeFileDigest = async (
 const isNativeReadFailure = (error: unknown): boolean =>
   error instanceof DOMException && error.name === "NotReadableError";
 
-const getWorkerDigest = (value: unknown): Uint8Array | null => {
+// Digest algorithms answer with raw bytes, fuzzy and checksum algorithms with their printed form.
+const getWorkerDigest = (value: unknown): string | null => {
   if (!value || typeof value !== "object") return null;
-  const result = value as { digest?: unknown };
-  return result.digest instanceof ArrayBuffer ? new Uint8Array(result.digest) : null;
+  const result = value as { digest?: unknown; text?: unknown };
+  if (result.digest instanceof ArrayBuffer) return bufferToHex(result.digest);
+  return typeof result.text === "string" ? result.text : null;
 };
 
 const getWorkerError = (value: unknown): string => {
@@ -131,7 +141,7 @@ const getWorkerError = (value: unknown): string => {
 const computeWorkerFallbackDigest = (
   algorithmId: FallbackHashId,
   file: File
-): Promise<Uint8Array> => new Promise((resolve, reject) => {
+): Promise<string> => new Promise((resolve, reject) => {
   const worker = new Worker(
     new URL("./hash-fallback-worker.ts", import.meta.url),
     { type: "module" }
@@ -152,12 +162,19 @@ const computeWorkerFallbackDigest = (
   worker.postMessage({ algorithmId, file });
 });
 
+const computeInlineDigest = async (
+  algorithmId: FallbackHashId,
+  file: File
+): Promise<string> => isTextHashId(algorithmId)
+  ? (await computeTextHashes([algorithmId], file))[algorithmId]
+  : bufferToHex(await computeFallbackFileDigest(FALLBACK_HASHES[algorithmId], file));
+
 const computeFallbackDigest = (
   algorithmId: FallbackHashId,
   file: File
-): Promise<Uint8Array> =>
+): Promise<string> =>
   typeof Worker === "undefined"
-    ? computeFallbackFileDigest(FALLBACK_HASHES[algorithmId], file)
+    ? computeInlineDigest(algorithmId, file)
     : computeWorkerFallbackDigest(algorithmId, file);
 
 const computeNativeDigestWithFallback = async (
@@ -166,12 +183,12 @@ const computeNativeDigestWithFallback = async (
 ): Promise<FileDigest> => {
   try {
     return {
-      value: await computeNativeFileDigest(algorithm.nativeAlgorithm, file),
+      text: bufferToHex(await computeNativeFileDigest(algorithm.nativeAlgorithm, file)),
       usedNativeFallback: false
     };
   } catch (error) {
     if (!isNativeReadFailure(error)) throw error;
-    return { value: await computeFallbackDigest(algorithm.id, file), usedNativeFallback: true };
+    return { text: await computeFallbackDigest(algorithm.id, file), usedNativeFallback: true };
   }
 };
 
@@ -180,7 +197,7 @@ const computeFileDigest = async (
   file: File
 ): Promise<FileDigest> => "nativeAlgorithm" in algorithm
   ? computeNativeDigestWithFallback(algorithm, file)
-  : { value: await computeFallbackDigest(algorithm.id, file), usedNativeFallback: false };
+  : { text: await computeFallbackDigest(algorithm.id, file), usedNativeFallback: false };
 
 const formatHashError = (error: unknown): string => {
   if (!(error instanceof Error)) return String(error);
@@ -192,26 +209,28 @@ const computeAndDisplayHash = async (
   file: File | null,
   { valueElement, buttonElement, copyButtonElement, nativeHashBadgeElement }: HashControls,
   canDisplayResult: () => boolean = (): boolean => true
-): Promise<void> => {
+): Promise<string | null> => {
   if (!file) {
     valueElement.textContent = "No file selected.";
-    return;
+    return null;
   }
   buttonElement.disabled = true;
   buttonElement.textContent = "Working...";
   try {
     const digest = await computeFileDigest(algorithm, file);
-    if (!canDisplayResult()) return;
-    valueElement.textContent = bufferToHex(digest.value);
+    if (!canDisplayResult()) return null;
+    valueElement.textContent = digest.text;
     if (nativeHashBadgeElement && digest.usedNativeFallback) showFallbackHashBadge(nativeHashBadgeElement);
     copyButtonElement.hidden = false;
     buttonElement.hidden = true;
+    return digest.text;
   } catch (error) {
-    if (!canDisplayResult()) return;
+    if (!canDisplayResult()) return null;
     valueElement.textContent = `Hash failed: ${formatHashError(error)}`;
     buttonElement.disabled = false;
     buttonElement.textContent = "Retry";
     copyButtonElement.hidden = true;
+    return null;
   }
 };
 
@@ -227,5 +246,5 @@ const copyHashToClipboard = async (
   }
 };
 
-export type { HashAlgorithmOption, HashControls };
+export type { HashAlgorithmId, HashAlgorithmOption, HashControls };
 export { HASH_ALGORITHMS, computeAndDisplayHash, copyHashToClipboard, resetHashDisplay };
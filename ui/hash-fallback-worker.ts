@@ -3,24 +3,27 @@
 import { md5, sha1 } from "@noble/hashes/legacy.js";
 import { sha224, sha256, sha384, sha512, sha512_224, sha512_256 } from "@noble/hashes/sha2.js";
 import type { CHash } from "@noble/hashes/utils.js";
+import { computeTextHashes, isTextHashId, type TextHashId } from "../analyzers/hashes/index.js";
 
-type FallbackHashId =
+type DigestHashId =
   "md5" | "sha1" | "sha224" | "sha256" | "sha384" | "sha512" |
   "sha512224" | "sha512256";
 
+type FallbackHashId = DigestHashId | TextHashId;
+
 type HashWorkerRequest = {
   algorithmId: FallbackHashId;
   file: File;
 };
 
-type HashWorkerResponse = { digest: ArrayBuffer } | { error: string };
+type HashWorkerResponse = { digest: ArrayBuffer } | { text: string } | { error: string };
 
 type HashWorkerScope = {
   addEventListener: (type: "message", listener: (event: MessageEvent<unknown>) => void) => void;
   postMessage: (value: HashWorkerResponse) => void;
 };
 
-const FALLBACK_HASHES: Readonly<Record<FallbackHashId, CHash>> = {
+const FALLBACK_HASHES: Readonly<Record<DigestHashId, CHash>> = {
   md5,
   sha1,
   sha224,
@@ -32,7 +35,7 @@ const FALLBACK_HASHES: Readonly<Record<FallbackHashId, CHash>> = {
 };
 
 const isFallbackHashId = (value: unknown): value is FallbackHashId =>
-  typeof value === "string" && Object.hasOwn(FALLBACK_HASHES, value);
+  isTextHashId(value) || (typeof value === "string" && Object.hasOwn(FALLBACK_HASHES, value));
 
 const isWorkerRequest = (value: unknown): value is HashWorkerRequest => {
   if (!value || typeof value !== "object") return false;
@@ -40,7 +43,7 @@ const isWorkerRequest = (value: unknown): value is HashWorkerRequest => {
   return request.file instanceof File && isFallbackHashId(request.algorithmId);
 };
 
-const computeDigest = async ({ algorithmId, file }: HashWorkerRequest): Promise<Uint8Array> => {
+const computeDigest = async (algorithmId: DigestHashId, file: File): Promise<Uint8Array> => {
   const hash = FALLBACK_HASHES[algorithmId].create();
   const reader = file.stream().getReader();
   try {
@@ -57,8 +60,10 @@ const computeDigest = async ({ algorithmId, file }: HashWorkerRequest): Promise<
 
 const handleHashWorkerMessage = async (value: unknown): Promise<HashWorkerResponse> => {
   if (!isWorkerRequest(value)) return { error: "Invalid fallback hash request." };
+  const { algorithmId, file } = value;
   try {
-    return { digest: (await computeDigest(value)).buffer as ArrayBuffer };
+    if (isTextHashId(algorithmId)) return { text: (await computeTextHashes([algorithmId], file))[algorithmId] };
+    return { digest: (await computeDigest(algorithmId, file)).buffer as ArrayBuffer };
   } catch (error) {
     return { error: String(error) };
   }
@@ -0,0 +1,73 @@
+"use strict";
+
+import { addAccessibleTooltipToButton } from "./accessible-tooltips.js";
+import {
+  HASH_ALGORITHMS,
+  computeAndDisplayHash,
+  copyHashToClipboard,
+  resetHashDisplay,
+  type HashAlgorithmOption,
+  type HashControls
+} from "./hash-controls.js";
+import type { KnownHashesController } from "./known-hashes.js";
+
+interface HashPanelDeps {
+  readonly getCurrentFile: () => File | null;
+  readonly setStatusMessage: (message: string | null) => void;
+  readonly knownHashes: KnownHashesController;
+}
+
+type HashPanelControl = HashControls & { readonly algorithm: HashAlgorithmOption };
+
+interface HashPanel {
+  readonly controls: readonly HashPanelControl[];
+  // Resets the digests and computes the ones the loaded hash lists need for a verdict.
+  show(file: File): void;
+  reset(): void;
+}
+
+// The "File hashes" card: one compute and copy button per algorithm. Every digest shown is also
+// looked up in the imported hash lists.
+const bindHashPanel = (getElement: (id: string) => HTMLElement, deps: HashPanelDeps): HashPanel => {
+  const controls: HashPanelControl[] = HASH_ALGORITHMS.map(algorithm => ({
+    algorithm,
+    label: algorithm.label,
+    valueElement: getElement(`${algorithm.id}Value`),
+    buttonElement: getElement(`${algorithm.id}ComputeButton`) as HTMLButtonElement,
+    copyButtonElement: getElement(`${algorithm.id}CopyButton`) as HTMLButtonElement,
+    nativeHashBadgeElement: document.getElementById(`${algorithm.id}NativeBadge`) as HTMLButtonElement | null ?? undefined
+  }));
+  const compute = (control: HashPanelControl): void => {
+    const file = deps.getCurrentFile();
+    void computeAndDisplayHash(control.algorithm, file, control, () => deps.getCurrentFile() === file)
+      .then(digest => {
+        if (file && digest) void deps.knownHashes.check(file, control.algorithm.id, digest);
+      });
+  };
+  controls.forEach(control => {
+    if (control.nativeHashBadgeElement) {
+      addAccessibleTooltipToButton(control.nativeHashBadgeElement, control.nativeHashBadgeElement.title);
+    }
+    control.buttonElement.addEventListener("click", () => compute(control));
+    control.copyButtonElement.addEventListener("click", () => {
+      void copyHashToClipboard(control.valueElement).then(status => {
+        deps.setStatusMessage(status === "copied" ? `${control.label} copied.` : "Clipboard copy failed.");
+      });
+    });
+  });
+  const reset = (): void => {
+    resetHashDisplay(...controls);
+    deps.knownHashes.reset();
+  };
+  return {
+    controls,
+    show: file => {
+      const algorithms = deps.knownHashes.show(file);
+      controls.filter(control => algorithms.some(id => id === control.algorithm.id)).forEach(compute);
+    },
+    reset
+  };
+};
+
+export { bindHashPanel };
+export type { HashPanel, HashPanelDeps };
@@ -0,0 +1,39 @@
+"use strict";
+
+import { renderHexViewerShell } from "../renderers/hex-view.js";
+
+export type HexViewerElements = {
+  details: HTMLDetailsElement;
+  viewport: HTMLElement;
+  rows: HTMLElement;
+  spacer: HTMLElement;
+  structures: HTMLElement;
+  inspector: HTMLElement;
+  selectionLabel: HTMLElement;
+  gotoInput: HTMLInputElement;
+  bigEndianInput: HTMLInputElement;
+};
+
+const requireElement = <T extends HTMLElement>(parent: ParentNode, selector: string): T => {
+  const element = parent.querySelector<T>(selector);
+  if (!element) throw new Error(`Hex viewer markup is missing ${selector}.`);
+  return element;
+};
+
+// Renders the viewer shell into the panel and returns its parts; missing markup is a page bug.
+export const queryHexViewerElements = (details: HTMLDetailsElement): HexViewerElements => {
+  const container = requireElement(details, "[data-hex-viewer]");
+  container.innerHTML = renderHexViewerShell();
+  const part = <T extends HTMLElement>(selector: string): T => requireElement<T>(container, selector);
+  return {
+    details,
+    viewport: part("[data-hex-viewport]"),
+    rows: part("[data-hex-rows]"),
+    spacer: part("[data-hex-spacer]"),
+    structures: part("[data-hex-structures]"),
+    inspector: part("[data-hex-inspector]"),
+    selectionLabel: part("[data-hex-selection-label]"),
+    gotoInput: part<HTMLInputElement>("[data-hex-goto]"),
+    bigEndianInput: part<HTMLInputElement>("[data-hex-big-endian]")
+  };
+};
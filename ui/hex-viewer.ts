@@ -0,0 +1,275 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzers/index.js";
+import { DATA_INSPECTOR_BYTE_LENGTH, inspectData } from "../analyzers/data-inspector.js";
+import { createFileRangeReader, type FileRangeReader } from "../analyzers/file-range-reader.js";
+import { describeStructures, findStructuresAt, type StructureRange } from "../analyzers/structure-map/index.js";
+import {
+  HEX_STRUCTURES_PLACEHOLDER_HTML,
+  formatHexOffset,
+  renderDataInspector,
+  renderHexRows,
+  renderStructurePath
+} from "../renderers/hex-view.js";
+import { describeError } from "../error-utils.js";
+import {
+  HEX_BYTES_PER_ROW,
+  createHexViewportLayout,
+  firstRowForScrollTop,
+  parseHexViewerOffset,
+  scrollTopForRow,
+  type HexViewportLayout
+} from "./hex-viewport.js";
+import { queryHexViewerElements, type HexViewerElements } from "./hex-viewer-elements.js";
+
+type ByteRange = { start: number; end: number };
+
+export type HexViewerController = {
+  show: (file: File, result: ParseForUiResult) => void;
+  reset: () => void;
+  // Lets ranges rendered outside the analysis output (e.g. rule matches) reveal bytes too.
+  linkRanges: (element: HTMLElement) => void;
+};
+
+type HexViewerState = {
+  reader: FileRangeReader | null;
+  structures: StructureRange[];
+  layout: HexViewportLayout;
+  selection: ByteRange | null;
+  cursor: number | null;
+  // Scaled scrolling cannot address every row of a huge file, so revealed rows are pinned
+  // until the user scrolls away from the position that was set for them.
+  pinnedRow: { row: number; scrollTop: number } | null;
+  rowsGeneration: number;
+  inspectorGeneration: number;
+  renderQueued: boolean;
+  highlightedRangeElement: Element | null;
+};
+
+type HexViewer = { elements: HexViewerElements; state: HexViewerState };
+
+// Must match the .hexRow height in style.css.
+const HEX_ROW_HEIGHT_PX = 20;
+const HEX_VISIBLE_ROWS = 16;
+// Rows shown above a revealed range so it does not start on the first visible line.
+const HEX_REVEAL_CONTEXT_ROWS = 2;
+
+const FILE_RANGE_SELECTOR = "[data-file-range-start]";
+const INTERACTIVE_SELECTOR = "a, button, input, select, summary, textarea";
+
+const emptyLayout = (): HexViewportLayout => createHexViewportLayout(0, HEX_ROW_HEIGHT_PX, HEX_VISIBLE_ROWS);
+
+const readFileRange = (element: Element): ByteRange | null => {
+  const start = Number(element.getAttribute("data-file-range-start"));
+  const end = Number(element.getAttribute("data-file-range-end"));
+  return Number.isSafeInteger(start) && Number.isSafeInteger(end) && start >= 0 && end > start
+    ? { start, end }
+    : null;
+};
+
+const describeReadError = (error: unknown): string =>
+  `Unable to read file bytes: ${describeError(error)}`;
+
+const describeSelection = (selection: ByteRange | null): string =>
+  selection
+    ? `Selected 0x${formatHexOffset(selection.start)}-0x${formatHexOffset(selection.end - 1)} ` +
+      `(${selection.end - selection.start} bytes)`
+    : "";
+
+const firstVisibleRow = ({ elements, state }: HexViewer): number => {
+  const { scrollTop } = elements.viewport;
+  if (state.pinnedRow && Math.abs(scrollTop - state.pinnedRow.scrollTop) < 1) return state.pinnedRow.row;
+  state.pinnedRow = null;
+  return firstRowForScrollTop(state.layout, scrollTop);
+};
+
+const renderRows = async (viewer: HexViewer): Promise<void> => {
+  const { elements, state } = viewer;
+  const reader = state.reader;
+  if (!reader || !elements.details.open) return;
+  const generation = ++state.rowsGeneration;
+  const offset = firstVisibleRow(viewer) * HEX_BYTES_PER_ROW;
+  try {
+    const bytes = await reader.readBytes(offset, state.layout.visibleRows * HEX_BYTES_PER_ROW);
+    if (generation !== state.rowsGeneration) return;
+    elements.rows.innerHTML = renderHexRows({
+      bytes, offset, bytesPerRow: HEX_BYTES_PER_ROW, selection: state.selection, cursor: state.cursor
+    });
+  } catch (error) {
+    if (generation === state.rowsGeneration) elements.rows.textContent = describeReadError(error);
+  }
+};
+
+const scheduleRender = (viewer: HexViewer): void => {
+  if (viewer.state.renderQueued) return;
+  viewer.state.renderQueued = true;
+  requestAnimationFrame(() => {
+    viewer.state.renderQueued = false;
+    void renderRows(viewer);
+  });
+};
+
+const renderInspector = async ({ elements, state }: HexViewer): Promise<void> => {
+  const { reader, cursor } = state;
+  if (!reader || cursor == null) return;
+  const generation = ++state.inspectorGeneration;
+  try {
+    const bytes = await reader.readBytes(cursor, DATA_INSPECTOR_BYTE_LENGTH);
+    if (generation !== state.inspectorGeneration) return;
+    elements.structures.innerHTML = renderStructurePath(findStructuresAt(state.structures, cursor));
+    elements.inspector.innerHTML = renderDataInspector(cursor, inspectData(bytes, !elements.bigEndianInput.checked));
+  } catch (error) {
+    if (generation === state.inspectorGeneration) elements.inspector.textContent = describeReadError(error);
+  }
+};
+
+const scrollToRow = ({ elements, state }: HexViewer, row: number): void => {
+  const lastFirstRow = Math.max(0, state.layout.rowCount - state.layout.visibleRows);
+  elements.viewport.scrollTop = scrollTopForRow(state.layout, row);
+  state.pinnedRow = { row: Math.min(lastFirstRow, Math.max(0, row)), scrollTop: elements.viewport.scrollTop };
+};
+
+const ensureRowVisible = (viewer: HexViewer, row: number): void => {
+  const firstRow = firstVisibleRow(viewer);
+  const { visibleRows } = viewer.state.layout;
+  if (row < firstRow) scrollToRow(viewer, row);
+  else if (row >= firstRow + visibleRows) scrollToRow(viewer, row - visibleRows + 1);
+};
+
+const update = (viewer: HexViewer): void => {
+  viewer.elements.selectionLabel.textContent = describeSelection(viewer.state.selection);
+  scheduleRender(viewer);
+  void renderInspector(viewer);
+};
+
+// Moving the cursor selects the most specific parsed structure that owns the byte.
+const moveCursor = (viewer: HexViewer, offset: number): void => {
+  const { state } = viewer;
+  if (!state.reader?.size) return;
+  state.cursor = Math.min(state.reader.size - 1, Math.max(0, offset));
+  const owner = findStructuresAt(state.structures, state.cursor).at(-1);
+  state.selection = owner ? { start: owner.start, end: owner.end } : null;
+  ensureRowVisible(viewer, Math.floor(state.cursor / HEX_BYTES_PER_ROW));
+  update(viewer);
+};
+
+const reveal = (viewer: HexViewer, range: ByteRange): void => {
+  const { elements, state } = viewer;
+  if (!state.reader || range.start >= state.reader.size) return;
+  state.selection = { start: range.start, end: Math.min(range.end, state.reader.size) };
+  state.cursor = range.start;
+  elements.details.open = true;
+  scrollToRow(viewer, Math.floor(range.start / HEX_BYTES_PER_ROW) - HEX_REVEAL_CONTEXT_ROWS);
+  elements.details.scrollIntoView({ block: "nearest" });
+  update(viewer);
+};
+
+const cursorStep = (key: string, cursor: number, size: number, visibleRows: number): number | null => {
+  const page = visibleRows * HEX_BYTES_PER_ROW;
+  const steps: Record<string, number> = {
+    ArrowLeft: -1, ArrowRight: 1, ArrowUp: -HEX_BYTES_PER_ROW, ArrowDown: HEX_BYTES_PER_ROW,
+    PageUp: -page, PageDown: page, Home: -cursor, End: size - 1 - cursor
+  };
+  return steps[key] ?? null;
+};
+
+const goToTypedOffset = (viewer: HexViewer): void => {
+  const { elements, state } = viewer;
+  const offset = parseHexViewerOffset(elements.gotoInput.value);
+  if (offset == null || !state.reader || offset >= state.reader.size) {
+    elements.selectionLabel.textContent = elements.gotoInput.value.trim() ? "Offset is outside the file." : "";
+    return;
+  }
+  moveCursor(viewer, offset);
+};
+
+const handleAnalysisClick = (viewer: HexViewer, event: Event): void => {
+  const target = event.target as Element | null;
+  const rangeElement = target?.closest?.(FILE_RANGE_SELECTOR);
+  if (!rangeElement || !viewer.state.reader || target?.closest(INTERACTIVE_SELECTOR)) return;
+  const range = readFileRange(rangeElement);
+  if (!range) return;
+  viewer.state.highlightedRangeElement?.classList.remove("fileRangeSelected");
+  viewer.state.highlightedRangeElement = rangeElement;
+  rangeElement.classList.add("fileRangeSelected");
+  reveal(viewer, range);
+};
+
+const attachHexViewerEvents = (viewer: HexViewer, analysisValueElement: HTMLElement): void => {
+  const { elements, state } = viewer;
+  elements.viewport.addEventListener("scroll", () => scheduleRender(viewer));
+  elements.details.addEventListener("toggle", () => { if (elements.details.open) scheduleRender(viewer); });
+  elements.rows.addEventListener("click", event => {
+    const cell = (event.target as Element | null)?.closest?.("[data-hex-offset]");
+    if (!cell) return;
+    moveCursor(viewer, Number(cell.getAttribute("data-hex-offset")));
+    elements.viewport.focus({ preventScroll: true });
+  });
+  elements.viewport.addEventListener("keydown", event => {
+    if (state.cursor == null || !state.reader) return;
+    const step = cursorStep(event.key, state.cursor, state.reader.size, state.layout.visibleRows);
+    if (step == null) return;
+    event.preventDefault();
+    moveCursor(viewer, state.cursor + step);
+  });
+  elements.gotoInput.addEventListener("change", () => goToTypedOffset(viewer));
+  elements.gotoInput.addEventListener("keydown", event => {
+    if (event.key !== "Enter") return;
+    event.preventDefault();
+    goToTypedOffset(viewer);
+  });
+  elements.bigEndianInput.addEventListener("change", () => { void renderInspector(viewer); });
+  analysisValueElement.addEventListener("click", event => handleAnalysisClick(viewer, event));
+};
+
+const resetHexViewer = ({ elements, state }: HexViewer): void => {
+  Object.assign(state, {
+    reader: null, structures: [], layout: emptyLayout(), selection: null, cursor: null, pinnedRow: null,
+    rowsGeneration: state.rowsGeneration + 1,
+    inspectorGeneration: state.inspectorGeneration + 1,
+    highlightedRangeElement: null
+  });
+  elements.details.open = false;
+  elements.viewport.scrollTop = 0;
+  elements.spacer.style.height = "0px";
+  elements.rows.innerHTML = "";
+  elements.structures.innerHTML = HEX_STRUCTURES_PLACEHOLDER_HTML;
+  elements.inspector.innerHTML = "";
+  elements.selectionLabel.textContent = "";
+  elements.gotoInput.value = "";
+};
+
+export const createHexViewerController = (
+  detailsElement: HTMLDetailsElement,
+  analysisValueElement: HTMLElement
+): HexViewerController => {
+  const viewer: HexViewer = {
+    elements: queryHexViewerElements(detailsElement),
+    state: {
+      reader: null,
+      structures: [],
+      layout: emptyLayout(),
+      selection: null,
+      cursor: null,
+      pinnedRow: null,
+      rowsGeneration: 0,
+      inspectorGeneration: 0,
+      renderQueued: false,
+      highlightedRangeElement: null
+    }
+  };
+  attachHexViewerEvents(viewer, analysisValueElement);
+  return {
+    reset: () => resetHexViewer(viewer),
+    linkRanges: element => element.addEventListener("click", event => handleAnalysisClick(viewer, event)),
+    show: (file, result) => {
+      resetHexViewer(viewer);
+      const { state } = viewer;
+      state.reader = createFileRangeReader(file, 0, file.size);
+      state.structures = describeStructures(result, file.size);
+      state.layout = createHexViewportLayout(file.size, HEX_ROW_HEIGHT_PX, HEX_VISIBLE_ROWS);
+      const viewportHeight = state.layout.visibleRows * state.layout.rowHeight;
+      viewer.elements.spacer.style.height = `${state.layout.contentHeight - viewportHeight}px`;
+    }
+  };
+};
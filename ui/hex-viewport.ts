@@ -0,0 +1,57 @@
+"use strict";
+
+export const HEX_BYTES_PER_ROW = 16;
+
+// Browsers clamp element heights (Firefox near 17.9 million CSS pixels, Chromium near 33.5
+// million), so taller files scroll through a scaled spacer instead of one pixel row per row.
+export const MAX_HEX_SCROLL_HEIGHT = 8_000_000;
+
+export type HexViewportLayout = {
+  rowCount: number;
+  rowHeight: number;
+  visibleRows: number;
+  // Height of the scrollable content, viewport included.
+  contentHeight: number;
+};
+
+export const createHexViewportLayout = (
+  fileSize: number,
+  rowHeight: number,
+  visibleRows: number
+): HexViewportLayout => {
+  const rowCount = Math.ceil(Math.max(0, fileSize) / HEX_BYTES_PER_ROW);
+  const viewportHeight = visibleRows * rowHeight;
+  return {
+    rowCount,
+    rowHeight,
+    visibleRows,
+    contentHeight: Math.max(viewportHeight, Math.min(rowCount * rowHeight, MAX_HEX_SCROLL_HEIGHT))
+  };
+};
+
+const maxFirstRow = (layout: HexViewportLayout): number => Math.max(0, layout.rowCount - layout.visibleRows);
+
+const maxScrollTop = (layout: HexViewportLayout): number =>
+  Math.max(0, layout.contentHeight - layout.visibleRows * layout.rowHeight);
+
+export const firstRowForScrollTop = (layout: HexViewportLayout, scrollTop: number): number => {
+  const scrollRange = maxScrollTop(layout);
+  if (!scrollRange) return 0;
+  const ratio = Math.min(1, Math.max(0, scrollTop / scrollRange));
+  return Math.round(ratio * maxFirstRow(layout));
+};
+
+export const scrollTopForRow = (layout: HexViewportLayout, row: number): number => {
+  const lastFirstRow = maxFirstRow(layout);
+  if (!lastFirstRow) return 0;
+  return (Math.min(lastFirstRow, Math.max(0, row)) / lastFirstRow) * maxScrollTop(layout);
+};
+
+// Accepts "0x"-prefixed hexadecimal or plain decimal, the two notations the analysis views print.
+export const parseHexViewerOffset = (text: string): number | null => {
+  const value = text.trim().replace(/_/g, "");
+  const parsed = /^0x[0-9a-f]+$/i.test(value)
+    ? Number.parseInt(value.slice(2), 16)
+    : /^\d+$/.test(value) ? Number(value) : Number.NaN;
+  return Number.isSafeInteger(parsed) ? parsed : null;
+};
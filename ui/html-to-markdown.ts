@@ -0,0 +1,244 @@
+"use strict";
+
+// Converts rendered analysis markup into GitHub-flavoured Markdown for exported reports.
+// Only the structure the renderers emit is mapped: headings, <details> sections, definition
+// lists, tables, lists and preformatted text. Controls, media and hidden elements are dropped,
+// and option chips keep only the selected values (unselected "dim" chips are omitted).
+
+interface MarkdownSourceNode {
+  readonly nodeType: number;
+  readonly nodeName: string;
+  readonly childNodes: ArrayLike<MarkdownSourceNode>;
+  readonly textContent: string | null;
+  getAttribute?(name: string): string | null;
+}
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+const SKIPPED_ELEMENTS = new Set([
+  "audio", "button", "canvas", "input", "noscript", "progress", "script", "select", "style", "svg",
+  "template", "textarea", "video"
+]);
+
+const BLOCK_ELEMENTS = new Set([
+  "article", "blockquote", "details", "div", "dl", "figure", "footer", "h1", "h2", "h3", "h4", "h5",
+  "h6", "header", "hr", "main", "nav", "ol", "p", "pre", "section", "table", "ul"
+]);
+
+const tagName = (node: MarkdownSourceNode): string => node.nodeName.toLowerCase();
+
+const attribute = (node: MarkdownSourceNode, name: string): string | null => node.getAttribute?.(name) ?? null;
+
+const childrenOf = (node: MarkdownSourceNode): MarkdownSourceNode[] => Array.from(node.childNodes);
+
+const elementChildren = (node: MarkdownSourceNode): MarkdownSourceNode[] =>
+  childrenOf(node).filter(child => child.nodeType === ELEMENT_NODE);
+
+const hasClass = (node: MarkdownSourceNode, className: string): boolean =>
+  (attribute(node, "class") ?? "").split(/\s+/).includes(className);
+
+const isRenderedElement = (node: MarkdownSourceNode): boolean =>
+  node.nodeType === ELEMENT_NODE &&
+  !SKIPPED_ELEMENTS.has(tagName(node)) &&
+  attribute(node, "hidden") == null &&
+  attribute(node, "aria-hidden") !== "true" &&
+  !(hasClass(node, "opt") && hasClass(node, "dim"));
+
+const isBlock = (node: MarkdownSourceNode): boolean =>
+  isRenderedElement(node) && BLOCK_ELEMENTS.has(tagName(node));
+
+// Underscores are escaped only at word edges: GFM never reads intraword ones as emphasis,
+// and identifiers such as IMAGE_FILE_DLL stay readable.
+const escapeMarkdown = (text: string): string =>
+  text.replace(/[\\`*[\]<>|]/g, "\\$&").replace(/(?<![A-Za-z0-9])_|_(?![A-Za-z0-9])/g, "\\_");
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, " ");
+
+const codeSpan = (text: string): string => {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  return text.startsWith("`") || text.endsWith("`") ? `${fence} ${text} ${fence}` : `${fence}${text}${fence}`;
+};
+
+const emphasize = (text: string, marker: string): string => {
+  const match = /^(\s*)(.*?)(\s*)$/s.exec(text);
+  return match?.[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+};
+
+const renderLink = (node: MarkdownSourceNode, text: string): string => {
+  const href = attribute(node, "href") ?? "";
+  return /^https?:\/\//i.test(href) && text.trim() ? `[${text.trim()}](<${href.replace(/[<>\s]/g, encodeURI)}>)` : text;
+};
+
+const inlineMarkdown = (node: MarkdownSourceNode): string => {
+  if (node.nodeType === TEXT_NODE) return escapeMarkdown(collapseWhitespace(node.textContent ?? ""));
+  if (!isRenderedElement(node)) return "";
+  const inner = (): string => childrenOf(node).map(inlineMarkdown).join("");
+  switch (tagName(node)) {
+    case "br":
+      return "\n";
+    case "code": {
+      const text = collapseWhitespace(node.textContent ?? "").trim();
+      return text ? codeSpan(text) : "";
+    }
+    case "b":
+    case "strong":
+      return emphasize(inner(), "**");
+    case "em":
+    case "i":
+      return emphasize(inner(), "*");
+    case "a":
+      return renderLink(node, inner());
+    case "img":
+      return escapeMarkdown(attribute(node, "alt") ?? "");
+    default:
+      // Chips are rendered back to back without whitespace; keep them apart.
+      return hasClass(node, "opt") ? ` ${inner()} ` : inner();
+  }
+};
+
+const normalizeInline = (text: string): string =>
+  text
+    .split("\n")
+    .map(line => line.replace(/ {2,}/g, " ").trim())
+    .filter(line => line.length > 0)
+    .join("  \n");
+
+const blocksOf = (nodes: readonly MarkdownSourceNode[], level: number): string[] => {
+  const blocks: string[] = [];
+  let inline = "";
+  const flush = (): void => {
+    const text = normalizeInline(inline);
+    if (text) blocks.push(text);
+    inline = "";
+  };
+  for (const node of nodes) {
+    if (!isBlock(node)) {
+      inline += inlineMarkdown(node);
+      continue;
+    }
+    flush();
+    blocks.push(...elementBlocks(node, level));
+  }
+  flush();
+  return blocks;
+};
+
+const flatText = (node: MarkdownSourceNode, level: number): string =>
+  blocksOf(childrenOf(node), level).join(" ").replace(/\s*\n\s*/g, " ");
+
+// Headings and list terms are already emphasized, so bold runs inside them are unwrapped.
+const withoutStrong = (text: string): string => text.replace(/\*\*(.+?)\*\*/g, "$1");
+
+const heading = (level: number, text: string): string =>
+  `${"#".repeat(Math.min(6, Math.max(1, level)))} ${withoutStrong(text)}`;
+
+const detailsBlocks = (node: MarkdownSourceNode, level: number): string[] => {
+  const children = childrenOf(node);
+  const summary = children.find(child => child.nodeType === ELEMENT_NODE && tagName(child) === "summary");
+  const title = summary ? flatText(summary, level) : "";
+  const body = blocksOf(children.filter(child => child !== summary), level + 1);
+  return title ? [heading(level, title), ...body] : body;
+};
+
+const definitionListBlocks = (node: MarkdownSourceNode, level: number): string[] => {
+  const blocks: string[] = [];
+  let items: string[] = [];
+  let term = "";
+  const flushItems = (): void => {
+    if (items.length) blocks.push(items.join("\n"));
+    items = [];
+  };
+  for (const child of elementChildren(node).filter(isRenderedElement)) {
+    if (tagName(child) === "dt") {
+      term = flatText(child, level);
+      continue;
+    }
+    if (tagName(child) !== "dd") continue;
+    const valueBlocks = blocksOf(childrenOf(child), level);
+    const label = term ? `**${withoutStrong(term)}**` : "";
+    if (valueBlocks.length <= 1 && !valueBlocks.some(block => block.includes("\n"))) {
+      const value = valueBlocks[0] ?? "";
+      if (label || value) items.push(`- ${[label, value].filter(Boolean).join(": ")}`);
+      continue;
+    }
+    if (label) items.push(`- ${label}`);
+    flushItems();
+    blocks.push(...valueBlocks);
+  }
+  flushItems();
+  return blocks;
+};
+
+const tableRows = (node: MarkdownSourceNode): MarkdownSourceNode[] =>
+  elementChildren(node).flatMap(child => {
+    const name = tagName(child);
+    if (name === "tr") return [child];
+    return name === "thead" || name === "tbody" || name === "tfoot" ? tableRows(child) : [];
+  });
+
+const tableBlocks = (node: MarkdownSourceNode, level: number): string[] => {
+  const rows = tableRows(node)
+    .filter(isRenderedElement)
+    .map(row => elementChildren(row)
+      .filter(cell => tagName(cell) === "th" || tagName(cell) === "td")
+      .map(cell => flatText(cell, level)));
+  const caption = elementChildren(node).find(child => tagName(child) === "caption");
+  const captionBlocks = caption ? [flatText(caption, level)].filter(Boolean) : [];
+  const width = Math.max(0, ...rows.map(row => row.length));
+  if (!width) return captionBlocks;
+  const line = (cells: string[]): string =>
+    `| ${Array.from({ length: width }, (_, index) => cells[index] ?? "").join(" | ")} |`;
+  const [header = [], ...body] = rows;
+  const separator = `| ${Array.from({ length: width }, () => "---").join(" | ")} |`;
+  return [...captionBlocks, [line(header), separator, ...body.map(line)].join("\n")];
+};
+
+const listBlocks = (node: MarkdownSourceNode, level: number): string[] => {
+  const ordered = tagName(node) === "ol";
+  const items = elementChildren(node)
+    .filter(child => tagName(child) === "li" && isRenderedElement(child))
+    .map((item, index) => `${ordered ? `${index + 1}.` : "-"} ${flatText(item, level)}`);
+  return items.length ? [items.join("\n")] : [];
+};
+
+const preformattedBlock = (node: MarkdownSourceNode): string[] => {
+  const text = (node.textContent ?? "").replace(/\n$/, "");
+  if (!text) return [];
+  const longestRun = Math.max(0, ...(text.match(/`{3,}/g) ?? []).map(run => run.length));
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return [`${fence}\n${text}\n${fence}`];
+};
+
+function elementBlocks(node: MarkdownSourceNode, level: number): string[] {
+  const name = tagName(node);
+  if (/^h[1-6]$/.test(name)) {
+    const text = flatText(node, level);
+    return text ? [heading(Math.max(level, Number(name[1])), text)] : [];
+  }
+  switch (name) {
+    case "details":
+      return detailsBlocks(node, level);
+    case "dl":
+      return definitionListBlocks(node, level);
+    case "table":
+      return tableBlocks(node, level);
+    case "ul":
+    case "ol":
+      return listBlocks(node, level);
+    case "pre":
+      return preformattedBlock(node);
+    case "hr":
+      return ["---"];
+    default:
+      return blocksOf(childrenOf(node), level);
+  }
+}
+
+// `headingLevel` is the level used for top-level <details> summaries inside `node`.
+const htmlNodeToMarkdown = (node: MarkdownSourceNode, headingLevel = 2): string =>
+  blocksOf(childrenOf(node), headingLevel).join("\n\n");
+
+export { escapeMarkdown, htmlNodeToMarkdown };
+export type { MarkdownSourceNode };
@@ -0,0 +1,63 @@
+"use strict";
+
+// Name, version and upgrade step of one of the app's IndexedDB databases.
+interface IndexedDbSchema {
+  readonly name: string;
+  readonly version: number;
+  upgrade(database: IDBDatabase): void;
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed."));
+  });
+
+// A request's success only means the change is queued; it is durable once the transaction
+// completes, and a transaction can still abort at commit (for example on quota).
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error("IndexedDB transaction failed."));
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction was aborted."));
+  });
+
+const openDatabase = (factory: IDBFactory, schema: IndexedDbSchema): Promise<IDBDatabase> => {
+  const request = factory.open(schema.name, schema.version);
+  request.onupgradeneeded = () => schema.upgrade(request.result);
+  return requestResult(request);
+};
+
+const withDatabase = async <T>(
+  factory: IDBFactory,
+  schema: IndexedDbSchema,
+  action: (database: IDBDatabase) => Promise<T>
+): Promise<T> => {
+  const database = await openDatabase(factory, schema);
+  try {
+    return await action(database);
+  } finally {
+    database.close();
+  }
+};
+
+// Runs one request in a transaction of its own and resolves with its result once that
+// transaction has committed.
+const withObjectStore = <T>(
+  factory: IDBFactory,
+  schema: IndexedDbSchema,
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> =>
+  withDatabase(factory, schema, async database => {
+    const transaction = database.transaction(storeName, mode);
+    const [result] = await Promise.all([
+      requestResult(action(transaction.objectStore(storeName))),
+      transactionDone(transaction)
+    ]);
+    return result;
+  });
+
+export { openDatabase, requestResult, transactionDone, withDatabase, withObjectStore };
+export type { IndexedDbSchema };
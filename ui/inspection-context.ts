@@ -1,7 +1,7 @@
 "use strict";
 
-type InspectionSource = "selection" | "paste" | "drop" | "navigation";
-type DirectInspectionSource = Exclude<InspectionSource, "navigation">;
+type InspectionSource = "selection" | "paste" | "drop" | "navigation" | "entry";
+type DirectInspectionSource = Exclude<InspectionSource, "navigation" | "entry">;
 type TransferInspectionSource = Extract<DirectInspectionSource, "paste" | "drop">;
 type InspectionObject = "file" | "directory" | "collection";
 
@@ -10,7 +10,21 @@ type InspectionContext =
     readonly source: DirectInspectionSource;
     readonly object: InspectionObject;
   }
-  | { readonly source: "navigation"; readonly object: InspectionObject; readonly relativePath: string };
+  | { readonly source: "navigation"; readonly object: InspectionObject; readonly relativePath: string }
+  | {
+    readonly source: "entry";
+    readonly object: "file";
+    // Describes where the bytes came from inside the parent, e.g. "overlay 7z" or a member path.
+    readonly label: string;
+    readonly parent: InspectionParent;
+  };
+
+// The file an archive member or embedded payload was extracted from, with its own context so
+// nested inspections form a chain back to the file the user opened.
+interface InspectionParent {
+  readonly file: File;
+  readonly context: InspectionContext;
+}
 
 interface InspectionContextElements {
   readonly objectElement: HTMLElement;
@@ -23,7 +37,8 @@ const inspectionSourceLabels: Readonly<Record<InspectionSource, string>> = {
   selection: "Selection",
   paste: "Paste",
   drop: "Drop",
-  navigation: "Navigation"
+  navigation: "Navigation",
+  entry: "Entry"
 };
 
 const inspectionObjectLabels: Readonly<Record<InspectionObject, string>> = {
@@ -67,6 +82,7 @@ export type {
   InspectionContext,
   InspectionContextElements,
   InspectionObject,
+  InspectionParent,
   InspectionSource,
   TransferInspectionSource
 };
@@ -15,6 +15,8 @@ interface InspectionNavigationConfig {
   readonly openDirectoryRoute: DirectoryRouteOpener;
   readonly openEmptyRoute: EmptyRouteOpener;
   readonly openFileRoute: FileRouteOpener;
+  // Observes every route that becomes current, whether pushed or restored from history.
+  readonly onOpenRoute?: (route: InspectionRoute) => void;
 }
 
 interface InspectionNavigationController {
@@ -43,6 +45,7 @@ const createInspectionNavigationController = (
     return routeId;
   };
   const openRoute = (route: InspectionRoute): void => {
+    config.onOpenRoute?.(route);
     if (route.kind === "empty") {
       config.openEmptyRoute(null);
       return;
@@ -59,6 +62,7 @@ const createInspectionNavigationController = (
       openRoute(route);
       return;
     }
+    config.onOpenRoute?.({ kind: "empty" });
     config.openEmptyRoute(UNAVAILABLE_ROUTE_MESSAGE);
   };
   const historyController = createInspectionHistoryController({
@@ -68,13 +72,19 @@ const createInspectionNavigationController = (
   });
   return {
     initialize: () => historyController.initialize(storeRoute({ kind: "empty" })),
-    openDirectory: route => historyController.push(storeRoute({ kind: "directory", directory: route })),
+    openDirectory: route => {
+      const directoryRoute: InspectionRoute = { kind: "directory", directory: route };
+      config.onOpenRoute?.(directoryRoute);
+      historyController.push(storeRoute(directoryRoute));
+    },
     openFile: async (file, context) => {
-      historyController.push(storeRoute({ kind: "file", file, context }));
+      const fileRoute: InspectionRoute = { kind: "file", file, context };
+      config.onOpenRoute?.(fileRoute);
+      historyController.push(storeRoute(fileRoute));
       await config.openFileRoute(file, context);
     }
   };
 };
 
 export { createInspectionNavigationController };
-export type { InspectionNavigationConfig, InspectionNavigationController };
+export type { InspectionNavigationConfig, InspectionNavigationController, InspectionRoute };
@@ -5,12 +5,14 @@ import { formatHumanSize } from "../binary-utils.js";
 import { escapeHtml } from "../html-utils.js";
 import { scanDirectoryBytes } from "../analyzers/iso9660/directory-records.js";
 import type { Iso9660StringEncoding } from "../analyzers/iso9660/types.js";
+import { deliverEntry, type EntryAnalyzer } from "./entry-delivery.js";
 import { renderIso9660DirectoryListing } from "./iso9660-directory-listing.js";
 
 type Iso9660Deps = {
   getParseResult: () => ParseForUiResult;
   getFile: () => File | null;
   setStatusMessage: (message: string | null | undefined) => void;
+  analyzeEntry?: EntryAnalyzer;
 };
 
 type Iso9660ExtractionBounds = {
@@ -35,17 +37,6 @@ const parseNumberAttr = (value: string | null): number | null => {
   return Number.isFinite(parsed) ? parsed : null;
 };
 
-const triggerDownload = (blob: Blob, suggestedName: string): void => {
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = suggestedName;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-};
-
 const findIso9660ActionButton = (target: EventTarget | null): HTMLButtonElement | null => {
   if (!(target instanceof Element)) return null;
   const extractButton = target.closest("button.isoExtractButton");
@@ -212,8 +203,9 @@ const extractIso9660Entry = async (
   button: HTMLButtonElement,
   file: File,
   bounds: Iso9660ExtractionBounds,
-  setStatusMessage: Iso9660Deps["setStatusMessage"]
+  deps: Iso9660Deps
 ): Promise<void> => {
+  const { setStatusMessage } = deps;
   const end = bounds.offset + bounds.length;
   if (!Number.isFinite(bounds.offset) || bounds.offset < 0) {
     setStatusMessage("ISO-9660 entry offset is invalid.");
@@ -227,15 +219,15 @@ const extractIso9660Entry = async (
     setStatusMessage("ISO-9660 entry starts past end of file.");
     return;
   }
-  await downloadIso9660Entry(button, file, bounds.offset, end, bounds.suggestedName, setStatusMessage);
+  await downloadIso9660Entry(button, file, bounds.offset, end, bounds.suggestedName, deps);
 };
 
 const startIso9660Extraction = async (
   button: HTMLButtonElement,
-  getFile: Iso9660Deps["getFile"],
-  iso: Extract<ParseForUiResult, { analyzer: "iso9660" }>["parsed"],
-  setStatusMessage: Iso9660Deps["setStatusMessage"]
+  deps: Iso9660Deps,
+  iso: Extract<ParseForUiResult, { analyzer: "iso9660" }>["parsed"]
 ): Promise<void> => {
+  const { getFile, setStatusMessage } = deps;
   const bounds = getIso9660ExtractionBounds(button, iso, setStatusMessage);
   if (!bounds) return;
   if (bounds.fileFlags != null && (bounds.fileFlags & 0x80) !== 0) {
@@ -247,7 +239,7 @@ const startIso9660Extraction = async (
     setStatusMessage("No file selected.");
     return;
   }
-  await extractIso9660Entry(button, file, bounds, setStatusMessage);
+  await extractIso9660Entry(button, file, bounds, deps);
 };
 
 const downloadIso9660Entry = async (
@@ -256,13 +248,14 @@ const downloadIso9660Entry = async (
   offset: number,
   end: number,
   suggestedName: string | null,
-  setStatusMessage: Iso9660Deps["setStatusMessage"]
+  { setStatusMessage, analyzeEntry }: Iso9660Deps
 ): Promise<void> => {
   const originalText = button.textContent;
   button.disabled = true;
   button.textContent = "Preparing...";
   try {
-    triggerDownload(file.slice(offset, end), sanitizeDownloadName(suggestedName || "entry.bin"));
+    const name = sanitizeDownloadName(suggestedName || "entry.bin");
+    deliverEntry(button, { blob: file.slice(offset, end), name, label: suggestedName || name }, analyzeEntry);
     setStatusMessage(null);
   } catch (error) {
     const message = error instanceof Error && error.message ? error.message : String(error);
@@ -273,8 +266,9 @@ const downloadIso9660Entry = async (
   }
 };
 
-const createIso9660EntryClickHandler = ({ getParseResult, getFile, setStatusMessage }: Iso9660Deps) =>
+const createIso9660EntryClickHandler = (deps: Iso9660Deps) =>
   async (event: Event): Promise<void> => {
+    const { getParseResult, getFile, setStatusMessage } = deps;
     const button = findIso9660ActionButton(event.target);
     if (!button) return;
     const parseResult = getParseResult();
@@ -294,7 +288,7 @@ const createIso9660EntryClickHandler = ({ getParseResult, getFile, setStatusMess
       return;
     }
     if (action !== "extract") return;
-    await startIso9660Extraction(button, getFile, iso, setStatusMessage);
+    await startIso9660Extraction(button, deps, iso);
   };
 
 export { createIso9660EntryClickHandler };
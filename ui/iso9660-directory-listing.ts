@@ -2,6 +2,7 @@
 
 import { formatHumanSize, toHex64 } from "../binary-utils.js";
 import { renderFlagChips, escapeHtml } from "../html-utils.js";
+import { renderAnalyzeEntryButton } from "../renderers/download-button.js";
 import type { Iso9660DirectoryEntrySummary } from "../analyzers/iso9660/types.js";
 
 const FILE_FLAGS: Array<[number, string, string]> = [
@@ -59,11 +60,17 @@ const renderFileAction = (
     return `<span class="smallNote">Unavailable</span>`;
   }
   if ((entry.fileFlags & 0x80) !== 0) return `<span class="smallNote">Multi-extent</span>`;
+  const attributes: ReadonlyArray<readonly [string, number | string]> = [
+    ["data-iso-action", "extract"],
+    ["data-iso-offset", entry.extentLocationLba * isoBlockSize],
+    ["data-iso-length", entry.dataLength],
+    ["data-iso-name", name],
+    ["data-iso-flags", entry.fileFlags]
+  ];
   return (
-    `<button type="button" class="tableButton isoExtractButton" data-iso-action="extract"` +
-      ` data-iso-offset="${escapeHtml(String(entry.extentLocationLba * isoBlockSize))}"` +
-      ` data-iso-length="${escapeHtml(String(entry.dataLength))}"` +
-      ` data-iso-name="${escapeHtml(name)}" data-iso-flags="${escapeHtml(String(entry.fileFlags))}">Download</button>`
+    `<button type="button" class="tableButton isoExtractButton"` +
+      attributes.map(([attribute, value]) => ` ${attribute}="${escapeHtml(String(value))}"`).join("") +
+      `>Download</button> ${renderAnalyzeEntryButton("isoExtractButton", attributes)}`
   );
 };
 
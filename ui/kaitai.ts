@@ -0,0 +1,127 @@
+"use strict";
+
+import { createFileRangeReader } from "../analyzers/file-range-reader.js";
+import { interpretKsy } from "../analyzers/kaitai/index.js";
+import { compileKsy } from "../analyzers/kaitai/schema.js";
+import type { KsyCompileResult } from "../analyzers/kaitai/types.js";
+import { renderKaitaiIssues, renderKaitaiResult } from "../renderers/kaitai.js";
+import { describeError } from "../error-utils.js";
+
+interface KaitaiConfig {
+  readonly detailsElement: HTMLDetailsElement;
+  readonly sourceElement: HTMLTextAreaElement;
+  readonly applyButtonElement: HTMLButtonElement;
+  readonly loadButtonElement: HTMLButtonElement;
+  readonly fileInputElement: HTMLInputElement;
+  readonly summaryElement: HTMLElement;
+  readonly resultsElement: HTMLElement;
+  readonly interpret?: typeof interpretKsy;
+}
+
+interface KaitaiController {
+  show(file: File): Promise<void>;
+  reset(): void;
+}
+
+const hasDraggedFiles = (event: DragEvent): boolean =>
+  Array.from(event.dataTransfer?.types ?? []).includes("Files");
+
+// The definition stays loaded while other files are inspected; each newly shown file is parsed with it.
+const createKaitaiController = (config: KaitaiConfig): KaitaiController => {
+  const interpret = config.interpret ?? interpretKsy;
+  let compiled: KsyCompileResult | null = null;
+  let target: File | null = null;
+  let generation = 0;
+  const describeDefinition = (): string => {
+    if (!compiled) return "No definition loaded";
+    return compiled.spec ? `${compiled.spec.id} loaded` : "Definition has errors";
+  };
+  const run = async (): Promise<void> => {
+    const currentGeneration = ++generation;
+    const spec = compiled?.spec;
+    const file = target;
+    if (!compiled || !file) return;
+    if (!spec) {
+      config.resultsElement.innerHTML = renderKaitaiIssues(compiled.issues);
+      return;
+    }
+    config.resultsElement.textContent = "Parsing file...";
+    try {
+      const isCurrent = (): boolean => generation === currentGeneration;
+      const result = await interpret(createFileRangeReader(file, 0, file.size), spec, { isCurrent });
+      if (!result || !isCurrent()) return;
+      config.resultsElement.innerHTML = renderKaitaiIssues(compiled.issues) + renderKaitaiResult(result);
+      config.summaryElement.textContent = `${spec.id}: ${result.nodeCount} field${result.nodeCount === 1 ? "" : "s"}` +
+        (result.issues.length ? ", stopped on an error" : "");
+    } catch (error) {
+      if (generation === currentGeneration) config.resultsElement.textContent = `Parsing failed: ${describeError(error)}`;
+    }
+  };
+  const applyDefinition = async (): Promise<void> => {
+    const source = config.sourceElement.value;
+    compiled = source.trim() ? compileKsy(source) : null;
+    config.summaryElement.textContent = describeDefinition();
+    if (target) {
+      await run();
+      return;
+    }
+    generation += 1;
+    config.resultsElement.innerHTML = compiled ? renderKaitaiIssues(compiled.issues) : "";
+  };
+  const loadDefinitionFile = async (file: File): Promise<void> => {
+    try {
+      config.sourceElement.value = await file.text();
+    } catch (error) {
+      config.resultsElement.textContent = `Unable to read definition: ${describeError(error)}`;
+      return;
+    }
+    config.detailsElement.open = true;
+    await applyDefinition();
+  };
+  config.applyButtonElement.addEventListener("click", () => { void applyDefinition(); });
+  config.loadButtonElement.addEventListener("click", () => config.fileInputElement.click());
+  config.fileInputElement.addEventListener("change", () => {
+    const [file] = Array.from(config.fileInputElement.files ?? []);
+    config.fileInputElement.value = "";
+    if (file) void loadDefinitionFile(file);
+  });
+  ["dragenter", "dragover"].forEach(eventName => config.sourceElement.addEventListener(eventName, event => {
+    if (!hasDraggedFiles(event as DragEvent)) return;
+    event.preventDefault();
+    config.sourceElement.classList.add("dragover");
+  }));
+  config.sourceElement.addEventListener("dragleave", () => config.sourceElement.classList.remove("dragover"));
+  config.sourceElement.addEventListener("drop", event => {
+    config.sourceElement.classList.remove("dragover");
+    const [file] = Array.from((event as DragEvent).dataTransfer?.files ?? []);
+    if (!file) return;
+    event.preventDefault();
+    void loadDefinitionFile(file);
+  });
+  return {
+    show: async file => {
+      target = file;
+      await run();
+    },
+    reset: () => {
+      target = null;
+      generation += 1;
+      config.resultsElement.innerHTML = compiled ? renderKaitaiIssues(compiled.issues) : "";
+      config.summaryElement.textContent = describeDefinition();
+    }
+  };
+};
+
+const bindKaitaiPanel = (getElement: (id: string) => HTMLElement): KaitaiController =>
+  createKaitaiController({
+    detailsElement: getElement("kaitaiDetails") as HTMLDetailsElement,
+    sourceElement: getElement("kaitaiSource") as HTMLTextAreaElement,
+    applyButtonElement: getElement("kaitaiApplyButton") as HTMLButtonElement,
+    loadButtonElement: getElement("kaitaiLoadButton") as HTMLButtonElement,
+    fileInputElement: getElement("kaitaiFileInput") as HTMLInputElement,
+    summaryElement: getElement("kaitaiSummary"),
+    resultsElement: getElement("kaitaiResults")
+  });
+
+export { bindKaitaiPanel, createKaitaiController };
+export type { KaitaiConfig, KaitaiController };
@@ -0,0 +1,90 @@
+"use strict";
+
+import { createKnownHashListParser } from "../analyzers/known-hashes/parser.js";
+import type {
+  KnownHashAlgorithm,
+  KnownHashEntry,
+  KnownHashList,
+  KnownHashVerdict
+} from "../analyzers/known-hashes/types.js";
+import type { KnownHashStore } from "./known-hash-store.js";
+
+// Entries written per IndexedDB transaction while importing.
+const IMPORT_BATCH_SIZE = 5000;
+
+const KNOWN_HASH_ALGORITHM_ORDER: readonly KnownHashAlgorithm[] = ["sha256", "sha1", "md5"];
+
+interface KnownHashImportOptions {
+  readonly id: string;
+  readonly verdict: KnownHashVerdict;
+  readonly importedAt: string;
+  readonly signal?: AbortSignal;
+  // Called after each chunk with the number of bytes of the list file read so far.
+  readonly onProgress?: (bytesRead: number) => void;
+}
+
+interface KnownHashImportResult {
+  // null when the file holds no usable hashes.
+  readonly list: KnownHashList | null;
+  readonly skippedLines: number;
+}
+
+// Streams the list file through the parser and stores its entries in bounded batches, so neither
+// the text nor the entries of a multi-gigabyte NSRL RDS file are held in memory at once. A failed
+// or cancelled import removes the entries it already stored.
+const importKnownHashList = async (
+  store: KnownHashStore,
+  file: File,
+  options: KnownHashImportOptions
+): Promise<KnownHashImportResult> => {
+  const parser = createKnownHashListParser();
+  const writer = store.importList(options.id);
+  const algorithms = new Set<KnownHashAlgorithm>();
+  let batch: KnownHashEntry[] = [];
+  let written = 0;
+  let bytesRead = 0;
+  const flush = async (): Promise<void> => {
+    const entries = batch;
+    batch = [];
+    entries.forEach(entry => algorithms.add(entry.algorithm));
+    await writer.write(entries);
+    written += entries.length;
+  };
+  const countBytes = new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>({
+    transform: (chunk, controller) => {
+      bytesRead += chunk.byteLength;
+      controller.enqueue(chunk);
+    }
+  });
+  const reader = file.stream().pipeThrough(countBytes).pipeThrough(new TextDecoderStream()).getReader();
+  try {
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      options.signal?.throwIfAborted();
+      for (const entry of parser.write(result.value)) batch.push(entry);
+      if (batch.length >= IMPORT_BATCH_SIZE) await flush();
+      options.onProgress?.(bytesRead);
+    }
+    for (const entry of parser.end()) batch.push(entry);
+    if (batch.length) await flush();
+    options.signal?.throwIfAborted();
+    if (!written) {
+      await writer.discard();
+      return { list: null, skippedLines: parser.skippedLines() };
+    }
+    const list = await writer.commit({
+      name: file.name,
+      verdict: options.verdict,
+      format: parser.format(),
+      algorithms: KNOWN_HASH_ALGORITHM_ORDER.filter(algorithm => algorithms.has(algorithm)),
+      importedAt: options.importedAt
+    });
+    return { list, skippedLines: parser.skippedLines() };
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    await writer.discard().catch(() => undefined);
+    throw error;
+  }
+};
+
+export { importKnownHashList, KNOWN_HASH_ALGORITHM_ORDER };
+export type { KnownHashImportOptions, KnownHashImportResult };
@@ -0,0 +1,115 @@
+"use strict";
+
+import type { KnownHashEntry, KnownHashList, KnownHashMatch } from "../analyzers/known-hashes/types.js";
+import {
+  openDatabase,
+  requestResult,
+  transactionDone,
+  withDatabase,
+  type IndexedDbSchema
+} from "./indexed-db.js";
+
+// Writes one imported list. Entries are invisible to lookups until commit records the list.
+interface KnownHashListWriter {
+  // Stores one batch of entries in a transaction of its own.
+  write(entries: readonly KnownHashEntry[]): Promise<void>;
+  // Records the list with the number of distinct digests written and closes the writer; after a
+  // failed commit the writer stays open for discard.
+  commit(list: Omit<KnownHashList, "id" | "entryCount">): Promise<KnownHashList>;
+  // Deletes what was written for an import that failed or was cancelled, and closes the writer.
+  discard(): Promise<void>;
+}
+
+interface KnownHashStore {
+  lists(): Promise<KnownHashList[]>;
+  importList(id: string): KnownHashListWriter;
+  removeList(id: string): Promise<void>;
+  // Matches of any of the digests (lowercase hex) in any stored list.
+  lookup(digests: readonly string[]): Promise<KnownHashMatch[]>;
+}
+
+const DATABASE_NAME = "binary101-known-hashes";
+const LIST_STORE = "lists";
+const HASH_STORE = "hashes";
+
+// Entries are keyed "<list id>:<digest>" so that a lookup is one get per list, duplicate digests
+// in a list collapse into one record and removing a list is one key-range delete.
+const entryKey = (listId: string, digest: string): string => `${listId}:${digest}`;
+const listRange = (listId: string): IDBKeyRange =>
+  IDBKeyRange.bound(entryKey(listId, ""), entryKey(listId, "\uffff"));
+
+const KNOWN_HASH_DATABASE: IndexedDbSchema = {
+  name: DATABASE_NAME,
+  version: 1,
+  upgrade: database => {
+    database.createObjectStore(LIST_STORE, { keyPath: "id" });
+    database.createObjectStore(HASH_STORE);
+  }
+};
+
+const deleteList = async (database: IDBDatabase, id: string): Promise<void> => {
+  const transaction = database.transaction([LIST_STORE, HASH_STORE], "readwrite");
+  const done = transactionDone(transaction);
+  transaction.objectStore(HASH_STORE).delete(listRange(id));
+  transaction.objectStore(LIST_STORE).delete(id);
+  await done;
+};
+
+// Keeps one connection open for the whole import instead of reopening it for every batch.
+const createListWriter = (factory: IDBFactory, id: string): KnownHashListWriter => {
+  const opened = openDatabase(factory, KNOWN_HASH_DATABASE);
+  const close = async (): Promise<void> => { (await opened).close(); };
+  return {
+    write: async entries => {
+      const transaction = (await opened).transaction(HASH_STORE, "readwrite");
+      const done = transactionDone(transaction);
+      const hashes = transaction.objectStore(HASH_STORE);
+      for (const entry of entries) hashes.put(entry, entryKey(id, entry.digest));
+      await done;
+    },
+    commit: async details => {
+      const transaction = (await opened).transaction([LIST_STORE, HASH_STORE], "readwrite");
+      const done = transactionDone(transaction);
+      const entryCount = await requestResult(transaction.objectStore(HASH_STORE).count(listRange(id)));
+      const list: KnownHashList = { ...details, id, entryCount };
+      transaction.objectStore(LIST_STORE).put(list);
+      await done;
+      await close();
+      return list;
+    },
+    discard: async () => {
+      try {
+        await deleteList(await opened, id);
+      } finally {
+        await close();
+      }
+    }
+  };
+};
+
+const createKnownHashStore = (
+  factory: IDBFactory | undefined = globalThis.indexedDB
+): KnownHashStore | null => {
+  if (!factory) return null;
+  return {
+    lists: () => withDatabase(factory, KNOWN_HASH_DATABASE, database =>
+      requestResult(database.transaction(LIST_STORE, "readonly").objectStore(LIST_STORE).getAll() as
+        IDBRequest<KnownHashList[]>)),
+    importList: id => createListWriter(factory, id),
+    removeList: id => withDatabase(factory, KNOWN_HASH_DATABASE, database => deleteList(database, id)),
+    lookup: digests => withDatabase(factory, KNOWN_HASH_DATABASE, async database => {
+      const transaction = database.transaction([LIST_STORE, HASH_STORE], "readonly");
+      const lists = await requestResult(transaction.objectStore(LIST_STORE).getAll() as IDBRequest<KnownHashList[]>);
+      const hashes = transaction.objectStore(HASH_STORE);
+      const found = await Promise.all(lists.flatMap(list => digests.map(async digest => {
+        const request = hashes.get(entryKey(list.id, digest)) as IDBRequest<KnownHashEntry | undefined>;
+        const entry = await requestResult(request);
+        return entry ? [{ list, entry }] : [];
+      })));
+      return found.flat();
+    })
+  };
+};
+
+export { createKnownHashStore };
+export type { KnownHashListWriter, KnownHashStore };
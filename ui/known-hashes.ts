@@ -0,0 +1,251 @@
+"use strict";
+
+import { digestFile, isKnownHashAlgorithm, summarizeKnownHashVerdict } from "../analyzers/known-hashes/index.js";
+import type {
+  KnownHashAlgorithm,
+  KnownHashList,
+  KnownHashMatch,
+  KnownHashVerdict
+} from "../analyzers/known-hashes/types.js";
+import { formatHumanSize } from "../binary-utils.js";
+import { renderKnownHashLists, renderKnownHashStatus } from "../renderers/known-hashes.js";
+import { describeError } from "../error-utils.js";
+import { importKnownHashList, KNOWN_HASH_ALGORITHM_ORDER } from "./known-hash-import.js";
+import { createKnownHashStore, type KnownHashStore } from "./known-hash-store.js";
+
+interface KnownHashesConfig {
+  readonly verdictElement: HTMLSelectElement;
+  readonly loadButtonElement: HTMLButtonElement;
+  readonly cancelButtonElement: HTMLButtonElement;
+  readonly progressElement: HTMLProgressElement;
+  readonly fileInputElement: HTMLInputElement;
+  readonly summaryElement: HTMLElement;
+  readonly statusElement: HTMLElement;
+  readonly listsElement: HTMLElement;
+  // "Known hash" row of the file info card.
+  readonly termElement: HTMLElement;
+  readonly detailElement: HTMLElement;
+  readonly store: KnownHashStore | null;
+  readonly createId?: () => string;
+  readonly now?: () => string;
+}
+
+interface KnownHashesController {
+  restore(): Promise<void>;
+  // Starts the verdict for a newly shown file; returns the digests the hash panel should compute.
+  show(file: File): KnownHashAlgorithm[];
+  // Looks up a digest the hash panel computed for the shown file.
+  check(file: File, algorithm: string, digest: string): Promise<void>;
+  // Looks up a file outside the hash panel, hashing it unless its digests are passed; null when no
+  // lists are loaded.
+  lookupFile(file: File, digests?: readonly string[]): Promise<KnownHashMatch[] | null>;
+  reset(): void;
+}
+
+interface ShownFile {
+  readonly file: File;
+  readonly digests: Map<KnownHashAlgorithm, string>;
+  matches: KnownHashMatch[];
+}
+
+const describeImport = (list: KnownHashList, skippedLines: number): string =>
+  `Imported ${list.entryCount} hashes from ${list.name}` +
+  (skippedLines ? `; ${skippedLines} lines without a hash were skipped.` : ".");
+
+const describeLists = (lists: readonly KnownHashList[]): string => {
+  if (!lists.length) return "No lists loaded";
+  const hashCount = lists.reduce((total, list) => total + list.entryCount, 0);
+  return `${lists.length} list${lists.length === 1 ? "" : "s"}, ${hashCount} hash${hashCount === 1 ? "" : "es"}`;
+};
+
+const describeProgress = (file: File, bytesRead: number): string =>
+  `Importing ${file.name}... ${file.size ? Math.round((bytesRead / file.size) * 100) : 0}% ` +
+  `(${formatHumanSize(bytesRead)} / ${formatHumanSize(file.size)})`;
+
+// Imports one list file, reporting progress in the panel; resolves with the stored list, or null
+// when the file holds no hashes.
+const importListFile = async (
+  config: KnownHashesConfig,
+  store: KnownHashStore,
+  file: File,
+  verdict: KnownHashVerdict,
+  signal: AbortSignal
+): Promise<KnownHashList | null> => {
+  config.progressElement.max = Math.max(1, file.size);
+  config.progressElement.value = 0;
+  config.statusElement.textContent = describeProgress(file, 0);
+  const { list, skippedLines } = await importKnownHashList(store, file, {
+    id: (config.createId ?? (() => crypto.randomUUID()))(),
+    verdict,
+    importedAt: (config.now ?? (() => new Date().toISOString()))(),
+    signal,
+    onProgress: bytesRead => {
+      config.progressElement.value = bytesRead;
+      config.statusElement.textContent = describeProgress(file, bytesRead);
+    }
+  });
+  config.statusElement.textContent = list
+    ? describeImport(list, skippedLines)
+    : `No MD5, SHA-1 or SHA-256 values found in ${file.name}.`;
+  return list;
+};
+
+// Imports the files one after another with the selected verdict; resolves with the lists stored
+// before a failure or cancellation stopped the run.
+const importListFiles = async (
+  config: KnownHashesConfig,
+  store: KnownHashStore,
+  files: readonly File[],
+  signal: AbortSignal
+): Promise<KnownHashList[]> => {
+  const verdict: KnownHashVerdict = config.verdictElement.value === "good" ? "good" : "bad";
+  const imported: KnownHashList[] = [];
+  try {
+    for (const file of files) {
+      const list = await importListFile(config, store, file, verdict, signal);
+      if (list) imported.push(list);
+    }
+  } catch (error) {
+    config.statusElement.textContent = signal.aborted
+      ? "Import cancelled; the partly imported list was removed."
+      : `Import failed: ${describeError(error)}`;
+  }
+  return imported;
+};
+
+const attachListControls = (
+  config: KnownHashesConfig,
+  importFiles: (files: readonly File[]) => Promise<void>,
+  cancelImport: () => void,
+  removeList: (id: string) => Promise<void>
+): void => {
+  config.loadButtonElement.disabled = !config.store;
+  if (!config.store) config.statusElement.textContent = "Hash lists need IndexedDB, which this browser does not provide.";
+  config.loadButtonElement.addEventListener("click", () => config.fileInputElement.click());
+  config.cancelButtonElement.addEventListener("click", cancelImport);
+  config.fileInputElement.addEventListener("change", () => {
+    const files = Array.from(config.fileInputElement.files ?? []);
+    config.fileInputElement.value = "";
+    if (files.length) void importFiles(files);
+  });
+  config.listsElement.addEventListener("click", event => {
+    const target = event.target as Element | null;
+    const id = target?.closest?.("[data-known-hash-remove]")?.getAttribute("data-known-hash-remove");
+    if (id) void removeList(id);
+  });
+};
+
+const createKnownHashesController = (config: KnownHashesConfig): KnownHashesController => {
+  const { store } = config;
+  let lists: KnownHashList[] = [];
+  let shown: ShownFile | null = null;
+  let lookupGeneration = 0;
+  let importAbort: AbortController | null = null;
+  const listedAlgorithms = (): KnownHashAlgorithm[] =>
+    KNOWN_HASH_ALGORITHM_ORDER.filter(algorithm => lists.some(list => list.algorithms.includes(algorithm)));
+  const renderShown = (): void => {
+    const visible = Boolean(shown && lists.length);
+    config.termElement.hidden = !visible;
+    config.detailElement.hidden = !visible;
+    if (!shown || !visible) {
+      config.detailElement.innerHTML = "";
+      return;
+    }
+    config.detailElement.innerHTML = renderKnownHashStatus(
+      summarizeKnownHashVerdict(shown.matches), shown.matches, [...shown.digests.keys()], lists.length
+    );
+  };
+  const renderLists = (): void => {
+    config.summaryElement.textContent = describeLists(lists);
+    config.listsElement.innerHTML = renderKnownHashLists(lists);
+    renderShown();
+  };
+  const lookupShown = async (): Promise<void> => {
+    const target = shown;
+    if (!store || !target || !lists.length) return;
+    const generation = ++lookupGeneration;
+    const matches = await store.lookup([...target.digests.values()]);
+    if (generation !== lookupGeneration || shown !== target) return;
+    target.matches = matches;
+    renderShown();
+  };
+  const setImporting = (abort: AbortController | null): void => {
+    importAbort = abort;
+    config.loadButtonElement.disabled = Boolean(abort) || !store;
+    config.cancelButtonElement.hidden = !abort;
+    config.progressElement.hidden = !abort;
+  };
+  const importFiles = async (files: readonly File[]): Promise<void> => {
+    if (!store || importAbort) return;
+    const abort = new AbortController();
+    setImporting(abort);
+    const imported = await importListFiles(config, store, files, abort.signal).finally(() => setImporting(null));
+    lists = [...lists, ...imported];
+    renderLists();
+    await lookupShown();
+  };
+  const removeList = async (id: string): Promise<void> => {
+    if (!store) return;
+    try {
+      await store.removeList(id);
+      lists = lists.filter(list => list.id !== id);
+      config.statusElement.textContent = "";
+    } catch (error) {
+      config.statusElement.textContent = `Unable to remove the list: ${describeError(error)}`;
+    }
+    renderLists();
+    if (shown) shown.matches = shown.matches.filter(match => match.list.id !== id);
+    renderShown();
+  };
+  attachListControls(config, importFiles, () => importAbort?.abort(), removeList);
+  return {
+    restore: async () => {
+      if (!store) return;
+      try {
+        lists = await store.lists();
+      } catch (error) {
+        config.statusElement.textContent = `Unable to read stored hash lists: ${describeError(error)}`;
+      }
+      renderLists();
+    },
+    show: file => {
+      shown = { file, digests: new Map(), matches: [] };
+      renderShown();
+      return listedAlgorithms();
+    },
+    check: async (file, algorithm, digest) => {
+      if (!shown || shown.file !== file || !isKnownHashAlgorithm(algorithm)) return;
+      shown.digests.set(algorithm, digest.toLowerCase());
+      await lookupShown();
+    },
+    lookupFile: async (file, digests) => {
+      const algorithms = listedAlgorithms();
+      if (!store || !algorithms.length) return null;
+      if (digests) return store.lookup(digests);
+      return store.lookup((await digestFile(file, algorithms)).map(([, digest]) => digest));
+    },
+    reset: () => {
+      shown = null;
+      lookupGeneration += 1;
+      renderShown();
+    }
+  };
+};
+
+const bindKnownHashesPanel = (getElement: (id: string) => HTMLElement): KnownHashesController =>
+  createKnownHashesController({
+    verdictElement: getElement("knownHashVerdict") as HTMLSelectElement,
+    loadButtonElement: getElement("knownHashLoadButton") as HTMLButtonElement,
+    cancelButtonElement: getElement("knownHashCancelButton") as HTMLButtonElement,
+    progressElement: getElement("knownHashProgress") as HTMLProgressElement,
+    fileInputElement: getElement("knownHashFileInput") as HTMLInputElement,
+    summaryElement: getElement("knownHashSummary"),
+    statusElement: getElement("knownHashStatus"),
+    listsElement: getElement("knownHashLists"),
+    termElement: getElement("fileKnownHashTerm"),
+    detailElement: getElement("fileKnownHashDetail"),
+    store: createKnownHashStore()
+  });
+
+export { bindKnownHashesPanel, createKnownHashesController };
+export type { KnownHashesConfig, KnownHashesController };
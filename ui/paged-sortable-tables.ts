@@ -67,6 +67,26 @@ export const capturePagedSortableTableState = (
     })
     .filter((entry): entry is PagedSortableTableSnapshot => entry != null);
 
+// Switches the first paged table under root whose rows include the given markup (for example a
+// file range attribute pair) to the page with that row; returns false when no table has it.
+export const showPagedSortableTableRow = (root: ParentNode, html: string): boolean => {
+  for (const element of root.querySelectorAll<HTMLElement>(ROOT_SELECTOR)) {
+    const runtime = runtimeByElement.get(element);
+    if (!runtime) continue;
+    const { model } = runtime;
+    const order = sortedIndexes(runtime) ?? Array.from({ length: model.rowCount }, (_, index) => index);
+    const position = order.findIndex(rowIndex => {
+      const row = model.rowAt(rowIndex);
+      return Boolean(row?.additionalRowsHtml?.includes(html) || row?.cells.some(cell => cell.html.includes(html)));
+    });
+    if (position < 0) continue;
+    runtime.state = { ...runtime.state, pageIndex: Math.floor(position / model.pageSize) };
+    renderRuntime(element, runtime);
+    return true;
+  }
+  return false;
+};
+
 const handleClick = (element: HTMLElement, event: Event): void => {
   const target = event.target instanceof Element ? event.target : null;
   const column = target?.closest<HTMLElement>("[data-paged-sortable-column]");
@@ -0,0 +1,110 @@
+"use strict";
+
+import {
+  parseForUi,
+  type ParseForUiOptions,
+  type ParseForUiProgress,
+  type ParseForUiResult
+} from "../analyzers/index.js";
+import { fromTransferableParseResult } from "../analyzers/parse-result-transfer.js";
+import { FORMAT_RENDERERS } from "./format-renderers.js";
+import type { ParseWorkerRequest, ParseWorkerResponse } from "./parse-worker.js";
+
+type ParseWorkerPort = {
+  addEventListener: {
+    (type: "message", listener: (event: MessageEvent<unknown>) => void): void;
+    (type: "error", listener: () => void): void;
+  };
+  postMessage: (value: ParseWorkerRequest) => void;
+  terminate: () => void;
+};
+
+type ParseFile = (file: File, options: ParseForUiOptions) => Promise<ParseForUiResult>;
+
+export type FileParseController = {
+  cancel: () => void;
+  parse: (file: File, setStatusMessage: (message: string) => void) => Promise<ParseForUiResult>;
+};
+
+const isWorkerResponse = (value: unknown): value is ParseWorkerResponse =>
+  !!value && typeof value === "object" && ("progress" in value || "result" in value || "error" in value);
+
+// The worker is single-use: it is terminated once it answers, fails, or the caller aborts.
+export const runParseWorker = (
+  worker: ParseWorkerPort,
+  request: ParseWorkerRequest,
+  options: ParseForUiOptions
+): Promise<ParseForUiResult> => new Promise((resolve, reject) => {
+  const { signal, onProgress } = options;
+  const settle = (): void => {
+    worker.terminate();
+    signal?.removeEventListener("abort", abort);
+  };
+  const abort = (): void => {
+    settle();
+    reject(signal?.reason);
+  };
+  if (signal?.aborted) {
+    abort();
+    return;
+  }
+  signal?.addEventListener("abort", abort, { once: true });
+  worker.addEventListener("error", () => {
+    settle();
+    reject(new Error("Parsing worker failed."));
+  });
+  worker.addEventListener("message", event => {
+    const response = event.data;
+    if (!isWorkerResponse(response)) return;
+    if ("progress" in response) {
+      onProgress?.(response.progress);
+      return;
+    }
+    settle();
+    if ("result" in response) resolve(fromTransferableParseResult(response.result, request.file.size));
+    else reject(new Error(response.error));
+  });
+  worker.postMessage(request);
+});
+
+// Falls back to main-thread parsing where module workers are unavailable (Node, old browsers).
+export const parseFileForUi: ParseFile = (file, options) =>
+  typeof Worker === "undefined"
+    ? parseForUi(file, options)
+    : runParseWorker(
+      new Worker(new URL("./parse-worker.ts", import.meta.url), { type: "module" }),
+      { file, assetBaseUrl: document.baseURI },
+      options
+    );
+
+export const describeParseProgress = (progress: ParseForUiProgress): string => {
+  if (progress.stage === "probing") return "Parsing file details...";
+  const [analyzer] = progress.analyzers;
+  return analyzer ? `Parsing ${FORMAT_RENDERERS[analyzer].title}...` : "Parsing file details...";
+};
+
+// Starting a new parse aborts the previous one, so only the newest file reports progress.
+export const createFileParseController = (parseFile: ParseFile = parseFileForUi): FileParseController => {
+  let abortController: AbortController | null = null;
+  const cancel = (): void => {
+    abortController?.abort();
+    abortController = null;
+  };
+  const parse = async (file: File, setStatusMessage: (message: string) => void): Promise<ParseForUiResult> => {
+    cancel();
+    const controller = new AbortController();
+    abortController = controller;
+    setStatusMessage("Parsing file details...");
+    try {
+      return await parseFile(file, {
+        signal: controller.signal,
+        onProgress: progress => {
+          if (!controller.signal.aborted) setStatusMessage(describeParseProgress(progress));
+        }
+      });
+    } finally {
+      if (abortController === controller) abortController = null;
+    }
+  };
+  return { cancel, parse };
+};
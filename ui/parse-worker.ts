@@ -0,0 +1,60 @@
+"use strict";
+
+import { createParseForUi, type ParseForUiProgress } from "../analyzers/index.js";
+import { setAssetBaseUrl } from "../analyzers/asset-url.js";
+import { createXmlDomFormatRegistry } from "../analyzers/format-registry/xmldom-registry.js";
+import { toTransferableParseResult, type TransferableParseResult } from "../analyzers/parse-result-transfer.js";
+import { describeError } from "../error-utils.js";
+
+type ParseWorkerRequest = {
+  file: File;
+  assetBaseUrl: string;
+};
+
+type ParseWorkerResponse =
+  | { progress: ParseForUiProgress }
+  | { result: TransferableParseResult }
+  | { error: string };
+
+type ParseWorkerScope = {
+  addEventListener: (type: "message", listener: (event: MessageEvent<unknown>) => void) => void;
+  postMessage: (value: ParseWorkerResponse) => void;
+};
+
+const parseInWorker = createParseForUi(createXmlDomFormatRegistry());
+
+const isWorkerRequest = (value: unknown): value is ParseWorkerRequest => {
+  if (!value || typeof value !== "object") return false;
+  const request = value as Partial<ParseWorkerRequest>;
+  return request.file instanceof File && typeof request.assetBaseUrl === "string";
+};
+
+const handleParseWorkerMessage = async (
+  value: unknown,
+  postMessage: (response: ParseWorkerResponse) => void
+): Promise<void> => {
+  if (!isWorkerRequest(value)) {
+    postMessage({ error: "Invalid parse request." });
+    return;
+  }
+  try {
+    setAssetBaseUrl(value.assetBaseUrl);
+    const result = await parseInWorker(value.file, { onProgress: progress => postMessage({ progress }) });
+    postMessage({ result: toTransferableParseResult(result) });
+  } catch (error) {
+    postMessage({ error: describeError(error) });
+  }
+};
+
+const attachParseWorkerListener = (scope: ParseWorkerScope): void => {
+  scope.addEventListener("message", event => {
+    void handleParseWorkerMessage(event.data, response => scope.postMessage(response));
+  });
+};
+
+if (typeof self !== "undefined") {
+  attachParseWorkerListener(self as unknown as ParseWorkerScope);
+}
+
+export type { ParseWorkerRequest, ParseWorkerResponse };
+export { attachParseWorkerListener, handleParseWorkerMessage };
@@ -0,0 +1,200 @@
+"use strict";
+
+type PastedTextEncoding = "xxd" | "hexdump" | "array" | "escaped" | "hex" | "base64" | "base64url";
+
+interface DecodedPastedText {
+  readonly encoding: PastedTextEncoding;
+  readonly bytes: Uint8Array<ArrayBuffer>;
+}
+
+// Below this many bytes a paste is more likely a word than an encoded sample.
+const MIN_DECODED_BYTES = 4;
+// Shorter base64 without padding or symbols is more likely an identifier, date or number.
+const MIN_BASE64_CHARS = 24;
+// A list of plain decimals needs this many items to pass for a byte array rather than data.
+const MIN_DECIMAL_ARRAY_ITEMS = 16;
+const HEX_PAIR = /^[0-9a-f]{2}$/i;
+const ESCAPES: Readonly<Record<string, number>> = {
+  n: 0x0a, r: 0x0d, t: 0x09, "0": 0x00, a: 0x07, b: 0x08, f: 0x0c, v: 0x0b, "\\": 0x5c, "'": 0x27, "\"": 0x22
+};
+
+const toLines = (text: string): string[] => text.split(/\r\n|\r|\n/).map(line => line.trimEnd()).filter(Boolean);
+
+// Drops a declaration such as `unsigned char buf[] =` or `data =` in front of a literal.
+const stripAssignment = (text: string): string => {
+  const equals = text.indexOf("=");
+  return equals >= 0 && !/["']/.test(text.slice(0, equals)) ? text.slice(equals + 1) : text;
+};
+
+const parseCharLiteral = (item: string): number => {
+  const body = /^'(\\x[0-9a-f]{2}|\\.|.)'$/i.exec(item)?.[1];
+  if (!body) return Number.NaN;
+  if (body.length === 1) return body.charCodeAt(0);
+  return body.startsWith("\\x") ? Number.parseInt(body.slice(2), 16) : ESCAPES[body[1]!] ?? Number.NaN;
+};
+
+// A C integer literal (0x4d, 077 octal, 77) or a character literal.
+const parseArrayItem = (item: string): number => {
+  if (/^0x[0-9a-f]{1,2}$/i.test(item)) return Number.parseInt(item.slice(2), 16);
+  if (/^0[0-7]{1,3}$/.test(item)) return Number.parseInt(item, 8);
+  if (/^(?:0|[1-9]\d{0,2})$/.test(item)) return Number(item);
+  return parseCharLiteral(item);
+};
+
+const parseHexGroups = (groups: string): number[] | null => {
+  const digits = groups.replace(/\s+/g, "");
+  if (!/^(?:[0-9a-f]{2})+$/i.test(digits)) return null;
+  return Array.from({ length: digits.length / 2 }, (_, index) =>
+    Number.parseInt(digits.slice(index * 2, index * 2 + 2), 16));
+};
+
+// `xxd` output: "00000010: 4d5a 9000 0300  MZ....". The hex columns end at the first double space.
+const decodeXxd = (lines: readonly string[]): number[] | null => {
+  const bytes: number[] = [];
+  for (const line of lines) {
+    const match = /^([0-9a-f]{4,16}):\s(.*)$/i.exec(line);
+    if (!match) return null;
+    const offset = Number.parseInt(match[1]!, 16);
+    if (offset !== bytes.length) return null;
+    const rest = match[2]!;
+    const end = rest.indexOf("  ");
+    const values = parseHexGroups(end < 0 ? rest : rest.slice(0, end));
+    if (!values) return null;
+    bytes.push(...values);
+  }
+  return bytes;
+};
+
+// `hexdump -C` output: offset, up to 16 bytes in two groups, "|ascii|". A "*" line stands for
+// repeats of the line above, up to the next offset; the last line is the total length.
+const decodeHexdump = (lines: readonly string[]): number[] | null => {
+  const bytes: number[] = [];
+  let previous: number[] = [];
+  let repeating = false;
+  for (const line of lines) {
+    if (line === "*") {
+      repeating = true;
+      continue;
+    }
+    const match = /^([0-9a-f]{7,16})((?:\s{1,2}[0-9a-f]{2}){0,16})(?:\s+\|.*\|)?$/i.exec(line);
+    if (!match) return null;
+    const offset = Number.parseInt(match[1]!, 16);
+    if (repeating) {
+      if (!previous.length || (offset - bytes.length) % previous.length !== 0) return null;
+      while (bytes.length < offset) bytes.push(...previous);
+      repeating = false;
+    }
+    if (offset !== bytes.length) return null;
+    previous = match[2] ? parseHexGroups(match[2]) ?? [] : [];
+    bytes.push(...previous);
+  }
+  return repeating ? null : bytes;
+};
+
+// C and Python byte arrays: `{ 0x4d, 0x5a, 77 }`, `[0x4d, 0x5a]`, `bytes([...])`, `'\x4d'`. The
+// literal has to be the whole paste, apart from a declaration, a call wrapper and a trailing ";".
+const decodeArray = (text: string): number[] | null => {
+  const source = stripAssignment(text.replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\/|#[^\n]*/g, ""))
+    .trim()
+    .replace(/;$/, "")
+    .trim();
+  const unwrapped = /^[A-Za-z_][\w.]*\s*\(([\s\S]*)\)$/.exec(source)?.[1]?.trim() ?? source;
+  const literal = unwrapped.replace(/^new\s+[\w.]+\s*\[\s*\]\s*/, "");
+  const body = /^\{([^{}[\]]*)\}$|^\[([^{}[\]]*)\]$/.exec(literal);
+  if (!body) return null;
+  const items = (body[1] ?? body[2] ?? "").split(",").map(item => item.trim()).filter(Boolean);
+  // Plain decimal lists are common in prose and data; hex, octal or character items mark bytes.
+  const byteLike = items.some(item => /^(?:0x|0[0-7]|')/i.test(item));
+  if (!byteLike && items.length < MIN_DECIMAL_ARRAY_ITEMS) return null;
+  const bytes = items.map(parseArrayItem);
+  return bytes.every(byte => Number.isInteger(byte) && byte >= 0 && byte <= 0xff) ? bytes : null;
+};
+
+// `\x..` escapes, bare or as one or more quoted C/Python string literals (b"MZ\x90\x00" "\x03").
+const decodeEscapes = (text: string): number[] | null => {
+  const trimmed = stripAssignment(text).trim();
+  if (/^(?:\\x[0-9a-f]{2}\s*)+$/i.test(trimmed)) {
+    return Array.from(trimmed.matchAll(/\\x([0-9a-f]{2})/gi), match => Number.parseInt(match[1]!, 16));
+  }
+  const literals = Array.from(trimmed.matchAll(/b?(["'])((?:\\.|(?!\1)[^\\])*)\1/g));
+  const rest = trimmed.replace(/b?(["'])((?:\\.|(?!\1)[^\\])*)\1/g, "").replace(/[\s+;()=]|\bb\b/g, "");
+  if (!literals.length || rest || !literals.some(match => match[2]!.includes("\\x"))) return null;
+  const bytes: number[] = [];
+  for (const [, , body] of literals) {
+    if (body === undefined) return null;
+    for (let index = 0; index < body.length; index += 1) {
+      const char = body.charAt(index);
+      if (char !== "\\") {
+        const code = char.charCodeAt(0);
+        if (code > 0x7f) return null;
+        bytes.push(code);
+      } else if (body[index + 1] === "x" && HEX_PAIR.test(body.slice(index + 2, index + 4))) {
+        bytes.push(Number.parseInt(body.slice(index + 2, index + 4), 16));
+        index += 3;
+      } else {
+        const escaped = ESCAPES[body[index + 1] ?? ""];
+        if (escaped === undefined) return null;
+        bytes.push(escaped);
+        index += 1;
+      }
+    }
+  }
+  return bytes;
+};
+
+// Hex digits in pairs separated by whitespace, with optional 0x prefixes, or bytes joined by ":"
+// or "-" (4d:5a:90). A bare run of decimal digits is a number, not hex.
+const decodePlainHex = (text: string): number[] | null => {
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed)) return null;
+  if (/[:-]/.test(trimmed)) {
+    const joined = /^[0-9a-f]{2}(?:([:-])[0-9a-f]{2})(?:\1[0-9a-f]{2})*$/i.test(trimmed);
+    return joined ? parseHexGroups(trimmed.replace(/[:-]/g, "")) : null;
+  }
+  return parseHexGroups(trimmed.replace(/(^|\s)0x/gi, "$1"));
+};
+
+const decodeBase64 = (text: string): DecodedPastedText | null => {
+  const trimmed = text.trim();
+  // A data: URL says what follows is base64, so the guesses below are skipped.
+  const dataUrl = /^data:[^,]*;base64,/i.test(trimmed);
+  const lines = toLines(trimmed.replace(/^data:[^,]*;base64,/i, "")).map(line => line.trim());
+  // Encoded blobs are wrapped at line ends; a space inside a line means prose.
+  if (!lines.length || lines.some(line => /\s/.test(line))) return null;
+  const joined = lines.join("");
+  // Dates and hyphenated words contain "-" too, so only "_" or a long run marks base64url.
+  const url = /_/.test(joined) || (/-/.test(joined) && joined.length >= MIN_BASE64_CHARS);
+  if (!(url ? /^[A-Za-z0-9_-]+={0,2}$/ : /^[A-Za-z0-9+/]+={0,2}$/).test(joined)) return null;
+  // Words, identifiers such as "getElementById" and digit runs are valid base64 too; short input
+  // needs padding or a symbol, and letters-only input a digit or a capital inside the text.
+  if (!dataUrl && joined.length < MIN_BASE64_CHARS && !/[+/=_]/.test(joined)) return null;
+  if (!dataUrl && joined.length < 32 && !/[0-9+/=_-]|[a-z][A-Z]/.test(joined)) return null;
+  const unpadded = joined.replace(/=+$/, "");
+  if (unpadded.length % 4 === 1 || (joined.includes("=") && joined.length % 4 !== 0)) return null;
+  const standard = url ? unpadded.replace(/-/g, "+").replace(/_/g, "/") : unpadded;
+  const binary = atob(standard.padEnd(Math.ceil(standard.length / 4) * 4, "="));
+  return { encoding: url ? "base64url" : "base64", bytes: Uint8Array.from(binary, char => char.charCodeAt(0)) };
+};
+
+// Recognises the textual encodings samples arrive in (tickets, chats, source code) and returns the
+// bytes they encode, or null when the text should be inspected as it is.
+const decodePastedText = (text: string): DecodedPastedText | null => {
+  const lines = toLines(text);
+  if (!lines.length) return null;
+  const candidates: Array<[PastedTextEncoding, () => number[] | null]> = [
+    ["xxd", () => decodeXxd(lines)],
+    ["hexdump", () => decodeHexdump(lines)],
+    ["escaped", () => decodeEscapes(text)],
+    ["array", () => decodeArray(text)],
+    ["hex", () => decodePlainHex(text)]
+  ];
+  for (const [encoding, decode] of candidates) {
+    const bytes = decode();
+    if (bytes && bytes.length >= MIN_DECODED_BYTES) return { encoding, bytes: Uint8Array.from(bytes) };
+  }
+  const base64 = decodeBase64(text);
+  return base64 && base64.bytes.length >= MIN_DECODED_BYTES ? base64 : null;
+};
+
+export { decodePastedText };
+export type { DecodedPastedText, PastedTextEncoding };
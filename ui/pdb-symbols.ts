@@ -0,0 +1,37 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzers/index.js";
+import { createPePdbSymbols, matchPdbToPe } from "../analyzers/pdb/pe-match.js";
+import type { PdbParseResult, PePdbSymbols } from "../analyzers/pdb/types.js";
+import { isPeWindowsParseResult } from "../analyzers/pe/index.js";
+
+interface LoadedPdb {
+  fileName: string;
+  pdb: PdbParseResult;
+  // Built on the first matching image and shared by later ones.
+  symbols: PePdbSymbols | null;
+}
+
+interface PdbSymbolSession {
+  // Remembers opened PDBs and attaches matching public names to PE results before they render.
+  observe(file: File, result: ParseForUiResult): void;
+}
+
+export const createPdbSymbolSession = (): PdbSymbolSession => {
+  // Keyed by GUID; reopening a rebuilt PDB with the same GUID replaces the older one.
+  const loaded = new Map<string, LoadedPdb>();
+  return {
+    observe(file, result) {
+      if (result.analyzer === "pdb" && result.parsed?.info?.guid) {
+        loaded.set(result.parsed.info.guid, { fileName: file.name, pdb: result.parsed, symbols: null });
+        return;
+      }
+      if (result.analyzer !== "pe" || !result.parsed || !isPeWindowsParseResult(result.parsed)) return;
+      const pe = result.parsed;
+      const entry = [...loaded.values()].find(candidate => matchPdbToPe(candidate.pdb, pe) === "match");
+      if (!entry) return;
+      entry.symbols ??= createPePdbSymbols(entry.pdb, entry.fileName);
+      pe.pdbSymbols = entry.symbols;
+    }
+  };
+};
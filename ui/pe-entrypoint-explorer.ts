@@ -29,7 +29,7 @@ export const enhancePeEntrypointExplorer = (
   pe: PeWindowsParseResult
 ): void => {
   if (!pe.entrypointDisassembly) return;
-  const blocks = visibleEntrypointBlocks(pe.entrypointDisassembly.blocks);
+  const blocks = visibleEntrypointBlocks(pe.entrypointDisassembly.blocks, pe.pdbSymbols?.names);
   for (const element of explorerElements(root)) {
     const runtime = {
       blocks,
@@ -114,7 +114,7 @@ const renderWindowsLazyMarkup = (
     case PE_LAZY_SECTION_KEYS.resources:
       return pe.resources ? renderToString(out => renderResources(pe.resources!, out)) : "";
     case PE_LAZY_SECTION_KEYS.exports:
-      return pe.exports ? renderToString(out => renderExports(pe.exports!, out)) : "";
+      return pe.exports ? renderToString(out => renderExports(pe.exports!, out, pe.pdbSymbols?.names)) : "";
     case PE_LAZY_SECTION_KEYS.tls:
       return pe.tls ? renderToString(out => renderTls(pe.tls!, out)) : "";
     case PE_LAZY_SECTION_KEYS.reloc:
@@ -281,3 +281,15 @@ export const refreshPeLazySection = (
   if (sectionDetails(section)?.open) mountSection(section, pe);
   return true;
 };
+
+// Fills every section body, open or not, without the interactive state restore. Used on a
+// detached copy of the analysis (report export), so the live sections stay lazy.
+export const renderAllPeLazySections = (root: ParentNode, pe: PeParseResult): void => {
+  root.querySelectorAll<HTMLElement>("[data-pe-lazy-section]").forEach(section => {
+    const body = sectionBody(section);
+    const key = section.dataset["peLazySection"] as PeLazySectionKey | undefined;
+    if (!body || !key || section.dataset["peLazyMounted"] === "true") return;
+    body.innerHTML = extractBodyHtml(renderLazySectionMarkup(pe, key), sectionTitle(section));
+    section.dataset["peLazyMounted"] = "true";
+  });
+};
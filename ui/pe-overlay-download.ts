@@ -1,11 +1,13 @@
 "use strict";
 
 import type { ParseForUiResult } from "../analyzers/index.js";
+import { deliverEntry, type EntryAnalyzer } from "./entry-delivery.js";
 
 type PeOverlayDownloadDeps = {
   getParseResult: () => ParseForUiResult;
   getFile: () => File | null;
   setStatusMessage: (message: string | null | undefined) => void;
+  analyzeEntry?: EntryAnalyzer;
 };
 
 const sanitizeBaseName = (name: string): string => {
@@ -20,32 +22,24 @@ const parseOffsetAttribute = (button: HTMLElement, name: string): number | null
   return Number.isSafeInteger(parsed) && parsed >= 0 ? parsed : null;
 };
 
-const triggerDownload = (blob: Blob, filename: string): void => {
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-};
-
-const isKnownOverlayDownloadRange = (
+// Returns the breadcrumb label of a known overlay range or detected payload, or null when the
+// requested bytes are not one of them.
+const describeKnownOverlayRange = (
   parseResult: ParseForUiResult,
   start: number,
   end: number
-): boolean => {
+): string | null => {
   const ranges = parseResult.analyzer === "pe" ? parseResult.parsed?.overlay?.ranges ?? [] : [];
-  const isOverlayRange = ranges.some(range =>
-    (range.start === start && range.end === end) ||
-    range.findings.some(finding => finding.start === start && finding.end === end)
-  );
-  return isOverlayRange;
+  for (const range of ranges) {
+    if (range.start === start && range.end === end) return "overlay";
+    const finding = range.findings.find(candidate => candidate.start === start && candidate.end === end);
+    if (finding) return `overlay ${finding.detectedType}`;
+  }
+  return null;
 };
 
 export const createPeOverlayDownloadClickHandler =
-  ({ getParseResult, getFile, setStatusMessage }: PeOverlayDownloadDeps) =>
+  ({ getParseResult, getFile, setStatusMessage, analyzeEntry }: PeOverlayDownloadDeps) =>
   (event: Event): void => {
     const target = event.target;
     if (!(target instanceof Element)) return;
@@ -58,15 +52,15 @@ export const createPeOverlayDownloadClickHandler =
     }
     const start = parseOffsetAttribute(button, "data-overlay-start");
     const end = parseOffsetAttribute(button, "data-overlay-end");
-    const parseResult = getParseResult();
-    const hasMatchingRange = start != null && end != null && isKnownOverlayDownloadRange(parseResult, start, end);
-    if (start == null || end == null || end <= start || !hasMatchingRange) {
+    const label = start != null && end != null ? describeKnownOverlayRange(getParseResult(), start, end) : null;
+    if (start == null || end == null || end <= start || label == null) {
       setStatusMessage("PE overlay range is not available.");
       return;
     }
-    triggerDownload(
-      file.slice(start, end, "application/octet-stream"),
-      `${sanitizeBaseName(file.name)}.overlay-${start.toString(16)}-${end.toString(16)}.bin`
-    );
+    deliverEntry(button, {
+      blob: file.slice(start, end, "application/octet-stream"),
+      name: `${sanitizeBaseName(file.name)}.overlay-${start.toString(16)}-${end.toString(16)}.bin`,
+      label
+    }, analyzeEntry);
     setStatusMessage(null);
   };
@@ -2,18 +2,20 @@
 
 import type { ParseForUiResult } from "../analyzers/index.js";
 import { isPeWindowsParseResult } from "../analyzers/pe/index.js";
-import type { PePayloadFormat } from "../analyzers/pe/payloads.js";
+import type { PeExtractedPayload, PePayloadFormat } from "../analyzers/pe/payloads.js";
+import { deliverEntry, type EntryAnalyzer } from "./entry-delivery.js";
 
 type PePayloadDownloadDeps = {
   getParseResult: () => ParseForUiResult;
   getFile: () => File | null;
   setStatusMessage: (message: string | null | undefined) => void;
+  analyzeEntry?: EntryAnalyzer;
 };
 
-const FORMAT_DETAILS: Readonly<Record<PePayloadFormat, { extension: string; mediaType: string }>> = {
-  pe: { extension: "bin", mediaType: "application/octet-stream" },
-  rar: { extension: "rar", mediaType: "application/vnd.rar" },
-  sevenzip: { extension: "7z", mediaType: "application/x-7z-compressed" }
+const FORMAT_DETAILS: Readonly<Record<PePayloadFormat, { extension: string; mediaType: string; label: string }>> = {
+  pe: { extension: "bin", mediaType: "application/octet-stream", label: "PE" },
+  rar: { extension: "rar", mediaType: "application/vnd.rar", label: "RAR" },
+  sevenzip: { extension: "7z", mediaType: "application/x-7z-compressed", label: "7z" }
 };
 
 const parseOffset = (button: HTMLElement, name: string): number | null => {
@@ -31,33 +33,22 @@ const parseFormat = (button: HTMLElement): PePayloadFormat | null => {
 const sanitizeBaseName = (name: string): string =>
   name.split(/[\\/]/).pop()?.trim().replace(/[^a-z0-9._-]+/gi, "_") || "file";
 
-const triggerDownload = (blob: Blob, filename: string): void => {
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-};
-
-const hasValidatedPayload = (
+const findValidatedPayload = (
   result: ParseForUiResult,
   start: number,
   end: number,
   format: PePayloadFormat
-): boolean => {
+): PeExtractedPayload | null => {
   if (result.analyzer !== "pe" || !result.parsed || !isPeWindowsParseResult(result.parsed)) {
-    return false;
+    return null;
   }
-  return result.parsed.payloads?.entries.some(payload =>
+  return result.parsed.payloads?.entries.find(payload =>
     payload.start === start && payload.end === end && payload.format === format
-  ) ?? false;
+  ) ?? null;
 };
 
 export const createPePayloadDownloadClickHandler =
-  ({ getParseResult, getFile, setStatusMessage }: PePayloadDownloadDeps) =>
+  ({ getParseResult, getFile, setStatusMessage, analyzeEntry }: PePayloadDownloadDeps) =>
   (event: Event): void => {
     const target = event.target;
     if (!(target instanceof Element)) return;
@@ -71,15 +62,18 @@ export const createPePayloadDownloadClickHandler =
     const start = parseOffset(button, "data-payload-start");
     const end = parseOffset(button, "data-payload-end");
     const format = parseFormat(button);
-    if (start == null || end == null || end <= start || !format ||
-        !hasValidatedPayload(getParseResult(), start, end, format)) {
+    const payload = start != null && end != null && end > start && format
+      ? findValidatedPayload(getParseResult(), start, end, format)
+      : null;
+    if (start == null || end == null || !format || !payload) {
       setStatusMessage("PE payload is not available.");
       return;
     }
     const details = FORMAT_DETAILS[format];
-    triggerDownload(
-      file.slice(start, end, details.mediaType),
-      `${sanitizeBaseName(file.name)}.payload-${start.toString(16)}.${details.extension}`
-    );
+    deliverEntry(button, {
+      blob: file.slice(start, end, details.mediaType),
+      name: `${sanitizeBaseName(file.name)}.payload-${start.toString(16)}.${details.extension}`,
+      label: `${payload.provenance.location} ${details.label}`
+    }, analyzeEntry);
     setStatusMessage(null);
   };
@@ -0,0 +1,59 @@
+"use strict";
+
+import { analyzePolyglot } from "../analyzers/polyglot/index.js";
+import { describePolyglotSummary, renderPolyglotAnalysis } from "../renderers/polyglot.js";
+import { describeError } from "../error-utils.js";
+
+interface PolyglotPanelConfig {
+  readonly summaryElement: HTMLElement;
+  readonly resultsElement: HTMLElement;
+  readonly analyze?: typeof analyzePolyglot;
+}
+
+interface PolyglotPanelController {
+  show(file: File): Promise<void>;
+  reset(): void;
+}
+
+const OVERLAP_CLASS = "polyglot__summary--overlap";
+
+// The probes read a few small windows of the file, so every shown file is checked right away
+// and the summary can warn about overlapping claims while the panel is closed.
+const createPolyglotPanelController = (config: PolyglotPanelConfig): PolyglotPanelController => {
+  const analyze = config.analyze ?? analyzePolyglot;
+  let generation = 0;
+  const reset = (): void => {
+    generation += 1;
+    config.summaryElement.textContent = "";
+    config.summaryElement.classList.remove(OVERLAP_CLASS);
+    config.resultsElement.innerHTML = "";
+  };
+  return {
+    show: async file => {
+      reset();
+      const currentGeneration = generation;
+      config.summaryElement.textContent = "Checking...";
+      try {
+        const analysis = await analyze(file);
+        if (currentGeneration !== generation) return;
+        config.summaryElement.textContent = describePolyglotSummary(analysis);
+        config.summaryElement.classList.toggle(OVERLAP_CLASS, analysis.overlaps.length > 0);
+        config.resultsElement.innerHTML = renderPolyglotAnalysis(analysis);
+      } catch (error) {
+        if (currentGeneration !== generation) return;
+        config.summaryElement.textContent = "Check failed";
+        config.resultsElement.textContent = `Interpretation check failed: ${describeError(error)}`;
+      }
+    },
+    reset
+  };
+};
+
+const bindPolyglotPanel = (getElement: (id: string) => HTMLElement): PolyglotPanelController =>
+  createPolyglotPanelController({
+    summaryElement: getElement("polyglotSummary"),
+    resultsElement: getElement("polyglotResults")
+  });
+
+export { bindPolyglotPanel, createPolyglotPanelController };
+export type { PolyglotPanelConfig, PolyglotPanelController };
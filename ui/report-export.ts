@@ -0,0 +1,137 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzers/index.js";
+import { nowIsoString } from "../binary-utils.js";
+import { describeError } from "../error-utils.js";
+import {
+  REPORT_FORMATS,
+  buildAnalysisReport,
+  isAnalysisReportFormat,
+  renderAnalysisReportHtml,
+  renderAnalysisReportJson,
+  renderAnalysisReportMarkdown,
+  reportFileName,
+  type AnalysisReport,
+  type AnalysisReportDetail,
+  type AnalysisReportFormat
+} from "./analysis-report.js";
+import { triggerDownload } from "./entry-delivery.js";
+import type { HashAlgorithmId, HashAlgorithmOption } from "./hash-controls.js";
+import { htmlNodeToMarkdown } from "./html-to-markdown.js";
+import { renderAllPeLazySections } from "./pe-lazy-sections.js";
+
+type ReportHashControl = {
+  algorithm: HashAlgorithmOption;
+  valueElement: HTMLElement;
+  copyButtonElement: HTMLButtonElement;
+};
+
+type ReportExportDeps = {
+  detailsListElement: HTMLElement;
+  analysisValueElement: HTMLElement;
+  hashControls: readonly ReportHashControl[];
+  getFile: () => File | null;
+  getParseResult: () => ParseForUiResult;
+  getTypeLabel: () => string;
+  setStatusMessage: (message: string | null | undefined) => void;
+};
+
+// Sortable headers keep their label; every other control is meaningless in a static report.
+const EXPORT_REMOVED_SELECTOR = "button, input, select, textarea, audio, video, progress, img[src^='blob:']";
+
+const readDetailValue = (element: Element): string => {
+  const selectedChips = Array.from(element.querySelectorAll(".opt.sel"));
+  const text = selectedChips.length
+    ? selectedChips.map(chip => chip.textContent?.trim() ?? "").join(", ")
+    : element.textContent ?? "";
+  return text.replace(/\s+/g, " ").trim();
+};
+
+const readDetails = (listElement: HTMLElement): AnalysisReportDetail[] => {
+  const details: AnalysisReportDetail[] = [];
+  let label = "";
+  for (const child of Array.from(listElement.children)) {
+    if ((child as HTMLElement).hidden) continue;
+    if (child.tagName === "DT") label = child.textContent?.trim() ?? "";
+    else if (child.tagName === "DD" && label) details.push({ label, value: readDetailValue(child) });
+  }
+  return details;
+};
+
+// A hash counts as computed once its copy button is shown; errors leave the button hidden.
+const readComputedHashes = (
+  controls: readonly ReportHashControl[]
+): Partial<Record<HashAlgorithmId, string>> =>
+  Object.fromEntries(controls
+    .filter(control => !control.copyButtonElement.hidden && control.valueElement.textContent)
+    .map(control => [control.algorithm.id, control.valueElement.textContent?.trim() ?? ""]));
+
+const cloneAnalysisForExport = (analysisValueElement: HTMLElement, result: ParseForUiResult): HTMLElement => {
+  const clone = analysisValueElement.cloneNode(true) as HTMLElement;
+  if (result.analyzer === "pe" && result.parsed) renderAllPeLazySections(clone, result.parsed);
+  clone.querySelectorAll(".sortableTableHeaderButton").forEach(button => {
+    button.replaceWith(button.querySelector(".sortableTableHeaderLabel")?.textContent ?? button.textContent ?? "");
+  });
+  clone.querySelectorAll(EXPORT_REMOVED_SELECTOR).forEach(element => element.remove());
+  clone.querySelectorAll("details").forEach(details => { details.open = true; });
+  return clone;
+};
+
+const collectDocumentStyles = (): string =>
+  Array.from(document.styleSheets).map(sheet => {
+    try {
+      return Array.from(sheet.cssRules, rule => rule.cssText).join("\n");
+    } catch {
+      // Cross-origin sheets cannot be read; the report falls back to browser defaults for them.
+      return "";
+    }
+  }).join("\n");
+
+const renderReport = (
+  report: AnalysisReport,
+  format: AnalysisReportFormat,
+  analysisValueElement: HTMLElement,
+  result: ParseForUiResult
+): string => {
+  if (format === "json") return renderAnalysisReportJson(report);
+  const analysis = analysisValueElement.hidden ? null : cloneAnalysisForExport(analysisValueElement, result);
+  return format === "markdown"
+    ? renderAnalysisReportMarkdown(report, analysis ? htmlNodeToMarkdown(analysis, 3) : "")
+    : renderAnalysisReportHtml(report, analysis?.innerHTML ?? "", collectDocumentStyles());
+};
+
+export const createReportExportClickHandler =
+  (deps: ReportExportDeps) =>
+  (event: Event): void => {
+    const target = event.target;
+    if (!(target instanceof Element)) return;
+    const button = target.closest("[data-report-export]");
+    if (!(button instanceof HTMLElement)) return;
+    const format = button.getAttribute("data-report-export");
+    if (!isAnalysisReportFormat(format)) return;
+    const file = deps.getFile();
+    if (!file) {
+      deps.setStatusMessage("No file selected.");
+      return;
+    }
+    try {
+      const result = deps.getParseResult();
+      const report = buildAnalysisReport({
+        file,
+        detectedType: deps.getTypeLabel(),
+        details: readDetails(deps.detailsListElement),
+        hashes: readComputedHashes(deps.hashControls),
+        result,
+        generatedAt: nowIsoString()
+      });
+      const content = renderReport(report, format, deps.analysisValueElement, result);
+      triggerDownload(
+        new Blob([content], { type: `${REPORT_FORMATS[format].mimeType};charset=utf-8` }),
+        reportFileName(file.name, format)
+      );
+      deps.setStatusMessage(null);
+    } catch (error) {
+      const message = describeError(error);
+      deps.setStatusMessage(`Report export failed: ${message}`);
+    }
+  };
@@ -2,6 +2,7 @@
 
 import type { DirectoryInspectionController } from "./directory-inspection.js";
 import type { DirectInspectionSource, InspectionContext } from "./inspection-context.js";
+import { decodePastedText } from "./pasted-text.js";
 
 type StatusWriter = (message: string | null | undefined) => void;
 type FileOpener = (file: File, context: InspectionContext) => Promise<void>;
@@ -76,10 +77,12 @@ const handlePaste = async (
     config.setStatusMessage("Paste: empty text.");
     return;
   }
-  await config.openFile(
-    new File([text], "clipboard.bin", { type: "application/octet-stream" }),
-    { source: "paste", object: "file" }
-  );
+  // Hex dumps, base64 and byte array literals are inspected as the bytes they encode.
+  const decoded = decodePastedText(text);
+  const file = decoded
+    ? new File([decoded.bytes], `clipboard-${decoded.encoding}.bin`, { type: "application/octet-stream" })
+    : new File([text], "clipboard.bin", { type: "application/octet-stream" });
+  await config.openFile(file, { source: "paste", object: "file" });
 };
 
 const attachSelectionInputs = (config: SelectionInputConfig): void => {
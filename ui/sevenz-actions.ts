@@ -4,11 +4,13 @@ import type { ParseForUiResult } from "../analyzers/index.js";
 import type { SevenZipFileSummary, SevenZipFolderSummary } from "../analyzers/sevenz/index.js";
 import { decompressLzmaWithProperties } from "../analyzers/sevenz/lzma.js";
 import { toSafeNumber } from "../analyzers/sevenz/readers.js";
+import { deliverEntry, type EntryAnalyzer } from "./entry-delivery.js";
 
 type SevenZipDeps = {
   getParseResult: () => ParseForUiResult;
   getFile: () => File | null;
   setStatusMessage: (message: string | null | undefined) => void;
+  analyzeEntry?: EntryAnalyzer;
 };
 
 const DECIMAL_RADIX = 10;
@@ -90,18 +92,7 @@ const extractEntry = async (
   return new Blob([buffer]);
 };
 
-const triggerDownload = (blob: Blob, suggestedName: string): void => {
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = suggestedName;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-};
-
-const createSevenZipEntryClickHandler = ({ getParseResult, getFile, setStatusMessage }: SevenZipDeps) =>
+const createSevenZipEntryClickHandler = ({ getParseResult, getFile, setStatusMessage, analyzeEntry }: SevenZipDeps) =>
   async (event: Event): Promise<void> => {
     const target = event.target;
     if (!(target instanceof HTMLElement)) return;
@@ -129,7 +120,8 @@ const createSevenZipEntryClickHandler = ({ getParseResult, getFile, setStatusMes
     button.disabled = true;
     button.textContent = "Decompressing...";
     try {
-      triggerDownload(await extractEntry(file, folder, entry), sanitizeDownloadName(entry));
+      const blob = await extractEntry(file, folder, entry);
+      deliverEntry(button, { blob, name: sanitizeDownloadName(entry), label: entry.name }, analyzeEntry);
       setStatusMessage(null);
     } catch (error) {
       const message = error instanceof Error && error.message ? error.message : String(error);
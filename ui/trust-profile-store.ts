@@ -0,0 +1,45 @@
+"use strict";
+
+import type { AuthenticodeTrustProfile } from "../analyzers/pe/authenticode/trust-profiles.js";
+import { withObjectStore, type IndexedDbSchema } from "./indexed-db.js";
+
+interface TrustProfileStore {
+  profiles(): Promise<AuthenticodeTrustProfile[]>;
+  // Adds a profile or replaces the stored one with the same id.
+  put(profile: AuthenticodeTrustProfile): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+const DATABASE_NAME = "binary101-trust-profiles";
+const PROFILE_STORE = "profiles";
+
+const TRUST_PROFILE_DATABASE: IndexedDbSchema = {
+  name: DATABASE_NAME,
+  version: 1,
+  upgrade: database => { database.createObjectStore(PROFILE_STORE, { keyPath: "id" }); }
+};
+
+const withProfileStore = <T>(
+  factory: IDBFactory,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => withObjectStore(factory, TRUST_PROFILE_DATABASE, PROFILE_STORE, mode, action);
+
+const createTrustProfileStore = (
+  factory: IDBFactory | undefined = globalThis.indexedDB
+): TrustProfileStore | null => {
+  if (!factory) return null;
+  return {
+    profiles: () =>
+      withProfileStore(factory, "readonly", store => store.getAll() as IDBRequest<AuthenticodeTrustProfile[]>),
+    put: async profile => {
+      await withProfileStore(factory, "readwrite", store => store.put(profile));
+    },
+    remove: async id => {
+      await withProfileStore(factory, "readwrite", store => store.delete(id));
+    }
+  };
+};
+
+export { createTrustProfileStore };
+export type { TrustProfileStore };
@@ -0,0 +1,238 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzers/index.js";
+import { isPeWindowsParseResult } from "../analyzers/pe/index.js";
+import type { AuthenticodeInfo } from "../analyzers/pe/authenticode/index.js";
+import { evaluateAuthenticodeTrustProfile } from "../analyzers/pe/authenticode/trust-policy.js";
+import {
+  describeAuthenticodeTrustVerdict,
+  parseTrustProfileCertificates,
+  trustProfileSnapshot,
+  type AuthenticodeTrustProfile
+} from "../analyzers/pe/authenticode/trust-profiles.js";
+import {
+  renderTrustProfiles,
+  renderTrustProfileVerdicts,
+  type TrustProfileVerdictRow
+} from "../renderers/trust-profiles.js";
+import { describeError } from "../error-utils.js";
+import { createTrustProfileStore, type TrustProfileStore } from "./trust-profile-store.js";
+
+interface TrustProfilesConfig {
+  readonly nameInputElement: HTMLInputElement;
+  readonly loadButtonElement: HTMLButtonElement;
+  readonly fileInputElement: HTMLInputElement;
+  readonly summaryElement: HTMLElement;
+  readonly statusElement: HTMLElement;
+  readonly listsElement: HTMLElement;
+  // "Trust profiles" row of the file info card.
+  readonly termElement: HTMLElement;
+  readonly detailElement: HTMLElement;
+  readonly store: TrustProfileStore | null;
+  readonly createId?: () => string;
+  readonly now?: () => string;
+}
+
+interface TrustProfilesController {
+  restore(): Promise<void>;
+  // Evaluates the shown file's Authenticode signature against the selected profiles.
+  show(result: ParseForUiResult): Promise<void>;
+  reset(): void;
+}
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const describeProfiles = (profiles: readonly AuthenticodeTrustProfile[]): string => {
+  if (!profiles.length) return "No profiles";
+  const selected = profiles.filter(profile => profile.selected).length;
+  return `${plural(profiles.length, "profile")}, ${selected} selected`;
+};
+
+// The first signature of a Windows PE; nested and secondary WIN_CERTIFICATE entries are not evaluated.
+const findAuthenticode = (result: ParseForUiResult): AuthenticodeInfo | null => {
+  if (result.analyzer !== "pe" || !result.parsed || !isPeWindowsParseResult(result.parsed)) return null;
+  return result.parsed.security?.certs.find(certificate => certificate.authenticode)?.authenticode ?? null;
+};
+
+const windowsSnapshotRow = (auth: AuthenticodeInfo): TrustProfileVerdictRow => ({
+  label: "Windows snapshot",
+  detail: auth.verification?.trustPolicy
+    ? `Bundled, generated ${auth.verification.trustPolicy.generatedAt}`
+    : "Not bundled with this build",
+  verdict: describeAuthenticodeTrustVerdict(auth.verification, auth.verification?.trustPolicy)
+});
+
+const profileDetail = (profile: AuthenticodeTrustProfile): string =>
+  `${plural(profile.certificates.length, "certificate")}, imported ${profile.importedAt}`;
+
+const evaluateProfile = async (
+  auth: AuthenticodeInfo,
+  profile: AuthenticodeTrustProfile
+): Promise<TrustProfileVerdictRow> => {
+  const detail = profileDetail(profile);
+  try {
+    const trustPolicy = await evaluateAuthenticodeTrustProfile(auth.certificates ?? [], trustProfileSnapshot(profile));
+    return { label: profile.name, detail, verdict: describeAuthenticodeTrustVerdict(auth.verification, trustPolicy) };
+  } catch (error) {
+    return { label: profile.name, detail, verdict: { status: "invalid", reason: describeError(error) } };
+  }
+};
+
+// Stores every certificate of the imported files as one selected profile; null when none were found.
+const importProfile = async (
+  config: TrustProfilesConfig,
+  store: TrustProfileStore,
+  files: readonly File[]
+): Promise<AuthenticodeTrustProfile | null> => {
+  const parsed = await parseTrustProfileCertificates(
+    await Promise.all(files.map(async file => new Uint8Array(await file.arrayBuffer())))
+  );
+  if (!parsed.certificates.length) {
+    config.statusElement.textContent = `No certificates found in ${files.map(file => file.name).join(", ")}.` +
+      (parsed.warnings.length ? ` ${parsed.warnings.join(" ")}` : "");
+    return null;
+  }
+  const profile: AuthenticodeTrustProfile = {
+    id: (config.createId ?? (() => crypto.randomUUID()))(),
+    name: config.nameInputElement.value.trim() || files[0]!.name,
+    importedAt: (config.now ?? (() => new Date().toISOString()))(),
+    certificates: parsed.certificates,
+    selected: true
+  };
+  await store.put(profile);
+  config.nameInputElement.value = "";
+  config.statusElement.textContent = `Imported ${plural(parsed.certificates.length, "certificate")} as ${profile.name}.` +
+    (parsed.warnings.length ? ` ${parsed.warnings.join(" ")}` : "");
+  return profile;
+};
+
+const attachProfileControls = (
+  config: TrustProfilesConfig,
+  importFiles: (files: readonly File[]) => Promise<void>,
+  removeProfile: (id: string) => Promise<void>,
+  selectProfile: (id: string, selected: boolean) => Promise<void>
+): void => {
+  config.loadButtonElement.disabled = !config.store;
+  if (!config.store) config.statusElement.textContent = "Trust profiles need IndexedDB, which this browser lacks.";
+  config.loadButtonElement.addEventListener("click", () => config.fileInputElement.click());
+  config.fileInputElement.addEventListener("change", () => {
+    const files = Array.from(config.fileInputElement.files ?? []);
+    config.fileInputElement.value = "";
+    if (files.length) void importFiles(files);
+  });
+  config.listsElement.addEventListener("click", event => {
+    const target = event.target as Element | null;
+    const id = target?.closest?.("[data-trust-profile-remove]")?.getAttribute("data-trust-profile-remove");
+    if (id) void removeProfile(id);
+  });
+  config.listsElement.addEventListener("change", event => {
+    const target = event.target as HTMLInputElement | null;
+    const id = target?.getAttribute?.("data-trust-profile-select");
+    if (id) void selectProfile(id, target?.checked === true);
+  });
+};
+
+const createTrustProfilesController = (config: TrustProfilesConfig): TrustProfilesController => {
+  const { store } = config;
+  let profiles: AuthenticodeTrustProfile[] = [];
+  let shown: AuthenticodeInfo | null = null;
+  let evaluationGeneration = 0;
+  const setRow = (html: string | null): void => {
+    config.termElement.hidden = html == null;
+    config.detailElement.hidden = html == null;
+    config.detailElement.innerHTML = html ?? "";
+  };
+  const evaluateShown = async (): Promise<void> => {
+    const auth = shown;
+    const generation = ++evaluationGeneration;
+    const selected = profiles.filter(profile => profile.selected);
+    if (!auth || !selected.length) {
+      setRow(null);
+      return;
+    }
+    const pending = selected.map(profile => ({ label: profile.name, detail: profileDetail(profile), verdict: null }));
+    setRow(renderTrustProfileVerdicts([windowsSnapshotRow(auth), ...pending]));
+    const rows: TrustProfileVerdictRow[] = [];
+    for (const profile of selected) rows.push(await evaluateProfile(auth, profile));
+    if (generation !== evaluationGeneration) return;
+    setRow(renderTrustProfileVerdicts([windowsSnapshotRow(auth), ...rows]));
+  };
+  const renderProfiles = (): void => {
+    config.summaryElement.textContent = describeProfiles(profiles);
+    config.listsElement.innerHTML = renderTrustProfiles(profiles);
+  };
+  const importFiles = async (files: readonly File[]): Promise<void> => {
+    if (!store) return;
+    config.statusElement.textContent = "Importing...";
+    try {
+      const profile = await importProfile(config, store, files);
+      if (profile) profiles = [...profiles, profile];
+    } catch (error) {
+      config.statusElement.textContent = `Import failed: ${describeError(error)}`;
+    }
+    renderProfiles();
+    await evaluateShown();
+  };
+  const removeProfile = async (id: string): Promise<void> => {
+    if (!store) return;
+    try {
+      await store.remove(id);
+      profiles = profiles.filter(profile => profile.id !== id);
+      config.statusElement.textContent = "";
+    } catch (error) {
+      config.statusElement.textContent = `Unable to remove the profile: ${describeError(error)}`;
+    }
+    renderProfiles();
+    await evaluateShown();
+  };
+  const selectProfile = async (id: string, selected: boolean): Promise<void> => {
+    const profile = profiles.find(candidate => candidate.id === id);
+    if (!store || !profile) return;
+    const updated = { ...profile, selected };
+    profiles = profiles.map(candidate => candidate.id === id ? updated : candidate);
+    try {
+      await store.put(updated);
+    } catch (error) {
+      config.statusElement.textContent = `Unable to save the selection: ${describeError(error)}`;
+    }
+    config.summaryElement.textContent = describeProfiles(profiles);
+    await evaluateShown();
+  };
+  attachProfileControls(config, importFiles, removeProfile, selectProfile);
+  return {
+    restore: async () => {
+      if (!store) return;
+      try {
+        profiles = await store.profiles();
+      } catch (error) {
+        config.statusElement.textContent = `Unable to read stored trust profiles: ${describeError(error)}`;
+      }
+      renderProfiles();
+    },
+    show: async result => {
+      shown = findAuthenticode(result);
+      await evaluateShown();
+    },
+    reset: () => {
+      shown = null;
+      evaluationGeneration += 1;
+      setRow(null);
+    }
+  };
+};
+
+const bindTrustProfilesPanel = (getElement: (id: string) => HTMLElement): TrustProfilesController =>
+  createTrustProfilesController({
+    nameInputElement: getElement("trustProfileName") as HTMLInputElement,
+    loadButtonElement: getElement("trustProfileLoadButton") as HTMLButtonElement,
+    fileInputElement: getElement("trustProfileFileInput") as HTMLInputElement,
+    summaryElement: getElement("trustProfileSummary"),
+    statusElement: getElement("trustProfileStatus"),
+    listsElement: getElement("trustProfileLists"),
+    termElement: getElement("fileTrustProfilesTerm"),
+    detailElement: getElement("fileTrustProfilesDetail"),
+    store: createTrustProfileStore()
+  });
+
+export { bindTrustProfilesPanel, createTrustProfilesController };
+export type { TrustProfilesConfig, TrustProfilesController };
@@ -0,0 +1,185 @@
+"use strict";
+
+import type { ParseForUiResult } from "../analyzers/index.js";
+import type { BrowserDirectoryHandle, BrowserFileHandle } from "./directory-handles.js";
+import type { DirectoryInspectionRoute } from "./directory-inspection-route.js";
+import type { InspectionContext } from "./inspection-context.js";
+import type { PagedSortableTableSnapshot } from "./paged-sortable-tables.js";
+
+// What the analysis view looked like when the user left a tab.
+interface WorkspaceViewState {
+  readonly openDetails: Set<string>;
+  readonly pagedTables: readonly PagedSortableTableSnapshot[];
+}
+
+interface SavedFileTab {
+  readonly kind: "file";
+  readonly label: string;
+  readonly size: number;
+  readonly lastModified: number;
+  readonly type: string;
+  readonly handle: BrowserFileHandle | null;
+}
+
+interface SavedDirectoryTab {
+  readonly kind: "directory";
+  readonly label: string;
+  readonly handle: BrowserDirectoryHandle | null;
+}
+
+type SavedWorkspaceTab = SavedFileTab | SavedDirectoryTab;
+
+interface SavedWorkspace {
+  readonly version: 1;
+  readonly tabs: readonly SavedWorkspaceTab[];
+}
+
+interface WorkspaceFileTab {
+  readonly id: string;
+  readonly kind: "file";
+  readonly label: string;
+  readonly file: File;
+  context: InspectionContext;
+  parseResult: ParseForUiResult | null;
+  view: WorkspaceViewState | null;
+}
+
+interface WorkspaceDirectoryTab {
+  readonly id: string;
+  readonly kind: "directory";
+  readonly label: string;
+  route: DirectoryInspectionRoute;
+}
+
+// A tab restored from local persistence; it has no bytes until the user reopens it.
+interface WorkspaceSavedTab {
+  readonly id: string;
+  readonly kind: "saved";
+  readonly label: string;
+  readonly saved: SavedWorkspaceTab;
+}
+
+type WorkspaceTab = WorkspaceFileTab | WorkspaceDirectoryTab | WorkspaceSavedTab;
+
+interface WorkspaceHandleLookup {
+  fileHandle(file: File): BrowserFileHandle | null;
+  directoryHandle(route: DirectoryInspectionRoute): BrowserDirectoryHandle | null;
+}
+
+interface WorkspaceModel {
+  tabs(): readonly WorkspaceTab[];
+  activeTab(): WorkspaceTab | null;
+  findFileTab(file: File): WorkspaceFileTab | null;
+  showFile(file: File, context: InspectionContext): WorkspaceFileTab;
+  showDirectory(route: DirectoryInspectionRoute): WorkspaceDirectoryTab;
+  showEmpty(): void;
+  // Removes a tab and returns the tab that should be shown instead when it was the active one.
+  close(id: string): { wasActive: boolean; next: WorkspaceTab | null };
+  // The next file or directory shown takes the place of this saved tab.
+  replaceWithNextShown(id: string | null): void;
+  restore(saved: SavedWorkspace): void;
+  removeSavedTabs(): void;
+  serialize(handles: WorkspaceHandleLookup): SavedWorkspace;
+}
+
+const directoryRootHandle = (route: DirectoryInspectionRoute): BrowserDirectoryHandle | null =>
+  route.locations[0]?.handle ?? null;
+
+const describeDirectoryRoute = (route: DirectoryInspectionRoute): string =>
+  route.locations[0]?.name || "Folder";
+
+const serializeTab = (tab: WorkspaceTab, handles: WorkspaceHandleLookup): SavedWorkspaceTab => {
+  if (tab.kind === "saved") return tab.saved;
+  if (tab.kind === "directory") {
+    return { kind: "directory", label: tab.label, handle: handles.directoryHandle(tab.route) };
+  }
+  return {
+    kind: "file",
+    label: tab.label,
+    size: tab.file.size,
+    lastModified: tab.file.lastModified,
+    type: tab.file.type,
+    handle: handles.fileHandle(tab.file)
+  };
+};
+
+const createWorkspaceModel = (): WorkspaceModel => {
+  let tabs: WorkspaceTab[] = [];
+  let activeId: string | null = null;
+  let replacedId: string | null = null;
+  let nextTabNumber = 0;
+  const createId = (): string => {
+    nextTabNumber += 1;
+    return `workspace-tab-${nextTabNumber}`;
+  };
+  const insert = <Tab extends WorkspaceTab>(tab: Tab): Tab => {
+    const replacedIndex = tabs.findIndex(candidate => candidate.id === replacedId);
+    replacedId = null;
+    if (replacedIndex >= 0) tabs.splice(replacedIndex, 1, tab);
+    else tabs.push(tab);
+    return tab;
+  };
+  const activate = <Tab extends WorkspaceTab>(tab: Tab): Tab => {
+    activeId = tab.id;
+    return tab;
+  };
+  const findFileTab = (file: File): WorkspaceFileTab | null =>
+    tabs.find((tab): tab is WorkspaceFileTab => tab.kind === "file" && tab.file === file) ?? null;
+  return {
+    tabs: () => tabs,
+    activeTab: () => tabs.find(tab => tab.id === activeId) ?? null,
+    findFileTab,
+    showFile: (file, context) => {
+      const existing = findFileTab(file);
+      if (existing) {
+        existing.context = context;
+        return activate(existing);
+      }
+      const label = file.name || "(unnamed)";
+      return activate(insert<WorkspaceFileTab>({
+        id: createId(), kind: "file", label, file, context, parseResult: null, view: null
+      }));
+    },
+    // Navigating inside a folder keeps its tab, so directory tabs are keyed by their root handle.
+    showDirectory: route => {
+      const root = directoryRootHandle(route);
+      const existing = tabs.find((tab): tab is WorkspaceDirectoryTab =>
+        tab.kind === "directory" && root != null && directoryRootHandle(tab.route) === root);
+      if (existing) {
+        existing.route = route;
+        return activate(existing);
+      }
+      return activate(insert<WorkspaceDirectoryTab>({
+        id: createId(), kind: "directory", label: describeDirectoryRoute(route), route
+      }));
+    },
+    showEmpty: () => { activeId = null; },
+    close: id => {
+      const index = tabs.findIndex(tab => tab.id === id);
+      if (index < 0) return { wasActive: false, next: null };
+      const wasActive = id === activeId;
+      tabs = tabs.filter(tab => tab.id !== id);
+      if (!wasActive) return { wasActive, next: null };
+      activeId = null;
+      return { wasActive, next: tabs[index] ?? tabs[index - 1] ?? null };
+    },
+    replaceWithNextShown: id => { replacedId = id; },
+    restore: saved => {
+      saved.tabs.forEach(tab => tabs.push({ id: createId(), kind: "saved", label: tab.label, saved: tab }));
+    },
+    removeSavedTabs: () => { tabs = tabs.filter(tab => tab.kind !== "saved"); },
+    serialize: handles => ({ version: 1, tabs: tabs.map(tab => serializeTab(tab, handles)) })
+  };
+};
+
+export { createWorkspaceModel };
+export type {
+  SavedWorkspace,
+  SavedWorkspaceTab,
+  WorkspaceFileTab,
+  WorkspaceHandleLookup,
+  WorkspaceModel,
+  WorkspaceSavedTab,
+  WorkspaceTab,
+  WorkspaceViewState
+};
@@ -0,0 +1,64 @@
+"use strict";
+
+import { requestResult, withObjectStore, type IndexedDbSchema } from "./indexed-db.js";
+import type { SavedWorkspace, SavedWorkspaceTab } from "./workspace-model.js";
+
+// Values of the checkboxes marked with data-workspace-preference, keyed by that attribute.
+type WorkspacePreferences = Readonly<Record<string, boolean>>;
+
+interface PersistedWorkspace {
+  readonly workspace: SavedWorkspace;
+  readonly preferences: WorkspacePreferences;
+}
+
+interface WorkspaceStore {
+  load(): Promise<PersistedWorkspace | null>;
+  save(state: PersistedWorkspace): Promise<void>;
+  // Deletes the whole database so nothing about previously opened files stays behind.
+  clear(): Promise<void>;
+}
+
+const DATABASE_NAME = "binary101-workspace";
+const STORE_NAME = "state";
+const STATE_KEY = "workspace";
+
+const WORKSPACE_DATABASE: IndexedDbSchema = {
+  name: DATABASE_NAME,
+  version: 1,
+  upgrade: database => { database.createObjectStore(STORE_NAME); }
+};
+
+const isSavedTab = (value: unknown): value is SavedWorkspaceTab => {
+  if (!value || typeof value !== "object") return false;
+  const tab = value as Partial<SavedWorkspaceTab>;
+  return (tab.kind === "file" || tab.kind === "directory") && typeof tab.label === "string";
+};
+
+const readPersistedWorkspace = (value: unknown): PersistedWorkspace | null => {
+  if (!value || typeof value !== "object") return null;
+  const candidate = value as { workspace?: Partial<SavedWorkspace>; preferences?: unknown };
+  const tabs = candidate.workspace?.tabs;
+  if (candidate.workspace?.version !== 1 || !Array.isArray(tabs)) return null;
+  const preferences = candidate.preferences && typeof candidate.preferences === "object"
+    ? Object.fromEntries(Object.entries(candidate.preferences).filter(([, flag]) => typeof flag === "boolean"))
+    : {};
+  return { workspace: { version: 1, tabs: tabs.filter(isSavedTab) }, preferences };
+};
+
+const createWorkspaceStore = (
+  factory: IDBFactory | undefined = globalThis.indexedDB
+): WorkspaceStore | null => {
+  if (!factory) return null;
+  return {
+    load: async () => readPersistedWorkspace(
+      await withObjectStore(factory, WORKSPACE_DATABASE, STORE_NAME, "readonly", store => store.get(STATE_KEY))
+    ),
+    save: async state => {
+      await withObjectStore(factory, WORKSPACE_DATABASE, STORE_NAME, "readwrite", store => store.put(state, STATE_KEY));
+    },
+    clear: async () => { await requestResult(factory.deleteDatabase(DATABASE_NAME)); }
+  };
+};
+
+export { createWorkspaceStore };
+export type { PersistedWorkspace, WorkspacePreferences, WorkspaceStore };
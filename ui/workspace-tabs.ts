@@ -0,0 +1,234 @@
+"use strict";
+
+import { escapeHtml } from "../html-utils.js";
+import { findFileHandle, formatAccessError, isStorableHandle, rememberFileHandle } from "./directory-handles.js";
+import { createDirectoryInspectionRoute, createRootDirectoryLocation } from "./directory-inspection-route.js";
+import { createWorkspaceModel } from "./workspace-model.js";
+import type { ParseForUiResult } from "../analyzers/index.js";
+import type { BrowserFileSystemHandle } from "./directory-handles.js";
+import type { DirectoryInspectionRoute } from "./directory-inspection-route.js";
+import type { InspectionContext } from "./inspection-context.js";
+import type { InspectionRoute } from "./inspection-navigation.js";
+import type {
+  WorkspaceHandleLookup,
+  WorkspaceModel,
+  WorkspaceSavedTab,
+  WorkspaceTab,
+  WorkspaceViewState
+} from "./workspace-model.js";
+import type { WorkspacePreferences, WorkspaceStore } from "./workspace-store.js";
+
+type StatusWriter = (message: string | null | undefined) => void;
+
+interface WorkspaceTabsConfig {
+  barElement: HTMLElement;
+  tabListElement: HTMLElement;
+  persistToggleElement: HTMLInputElement;
+  forgetButtonElement: HTMLButtonElement;
+  // Checkboxes marked with data-workspace-preference inside this root are saved with the workspace.
+  preferenceRoot: ParentNode;
+  store: WorkspaceStore | null;
+  // Returns null when no analysis is shown, so a cleared view never replaces a remembered one.
+  captureView: () => WorkspaceViewState | null;
+  openFile: (file: File, context: InspectionContext) => Promise<void>;
+  openDirectory: (route: DirectoryInspectionRoute) => void;
+  openEmpty: () => void;
+  setStatusMessage: StatusWriter;
+}
+
+interface WorkspaceTabsController {
+  // Observes inspection navigation so every opened file or folder gets (or reuses) a tab.
+  handleRoute(route: InspectionRoute): void;
+  cachedParseResult(file: File): ParseForUiResult | null;
+  savedView(file: File): WorkspaceViewState | null;
+  storeParseResult(file: File, result: ParseForUiResult): void;
+  restore(): Promise<void>;
+}
+
+// queryPermission/requestPermission exist only on real File System Access handles.
+interface PermissionHandle {
+  queryPermission?(descriptor: { mode: "read" }): Promise<PermissionState>;
+  requestPermission?(descriptor: { mode: "read" }): Promise<PermissionState>;
+}
+
+const PREFERENCE_SELECTOR = "input[data-workspace-preference]";
+
+const ensureReadPermission = async (handle: BrowserFileSystemHandle): Promise<boolean> => {
+  const permissions = handle as BrowserFileSystemHandle & PermissionHandle;
+  if (typeof permissions.queryPermission !== "function") return true;
+  if (await permissions.queryPermission({ mode: "read" }) === "granted") return true;
+  return typeof permissions.requestPermission === "function" &&
+    await permissions.requestPermission({ mode: "read" }) === "granted";
+};
+
+const storableHandle = <Handle extends BrowserFileSystemHandle>(handle: Handle | null): Handle | null =>
+  handle && isStorableHandle(handle) ? handle : null;
+
+const readPreferences = (root: ParentNode): WorkspacePreferences => Object.fromEntries(
+  Array.from(root.querySelectorAll<HTMLInputElement>(PREFERENCE_SELECTOR))
+    .map(input => [input.dataset["workspacePreference"] ?? "", input.checked])
+);
+
+const applyPreferences = (root: ParentNode, preferences: WorkspacePreferences): void => {
+  root.querySelectorAll<HTMLInputElement>(PREFERENCE_SELECTOR).forEach(input => {
+    const checked = preferences[input.dataset["workspacePreference"] ?? ""];
+    if (checked === undefined || input.checked === checked) return;
+    input.checked = checked;
+    input.dispatchEvent(new Event("change", { bubbles: true }));
+  });
+};
+
+const describeTab = (tab: WorkspaceTab): string => {
+  if (tab.kind === "file") return `File: ${tab.label}`;
+  if (tab.kind === "directory") return `Folder: ${tab.label}`;
+  return tab.saved.handle ? `Saved ${tab.saved.kind}: select to reopen` : `Saved ${tab.saved.kind}: select it again`;
+};
+
+const renderWorkspaceTab = (tab: WorkspaceTab, active: boolean): string => {
+  const id = escapeHtml(tab.id);
+  const label = escapeHtml(tab.label);
+  const classes = `workspaceTab${active ? " workspaceTabActive" : ""}${tab.kind === "saved" ? " workspaceTabSaved" : ""}`;
+  return `<span class="${classes}">` +
+    `<button type="button" class="workspaceTabSelect" data-workspace-tab="${id}"` +
+    `${active ? ' aria-current="true"' : ""} title="${escapeHtml(describeTab(tab))}">${label}</button>` +
+    `<button type="button" class="workspaceTabClose" data-workspace-close="${id}" ` +
+    `aria-label="Close ${label}" title="Close">&times;</button></span>`;
+};
+
+const readTabAttribute = (target: EventTarget | null, attribute: string): string | null => {
+  if (typeof Element === "undefined" || !(target instanceof Element)) return null;
+  return target.closest(`[${attribute}]`)?.getAttribute(attribute) ?? null;
+};
+
+// Asks for read access again, then opens the saved file or folder in place of its placeholder tab.
+const reopenSavedTab = async (
+  model: WorkspaceModel,
+  config: WorkspaceTabsConfig,
+  tab: WorkspaceSavedTab
+): Promise<void> => {
+  const { saved } = tab;
+  if (!saved.handle) {
+    config.setStatusMessage(`${saved.label} was saved without file access. Select it again to reopen it.`);
+    return;
+  }
+  try {
+    if (!await ensureReadPermission(saved.handle)) {
+      config.setStatusMessage(`Permission to read ${saved.label} was not granted.`);
+      return;
+    }
+    model.replaceWithNextShown(tab.id);
+    if (saved.kind === "directory") {
+      const context: InspectionContext = { source: "selection", object: "directory" };
+      const root = createRootDirectoryLocation(saved.handle, context);
+      config.openDirectory(createDirectoryInspectionRoute(context, [root]));
+      return;
+    }
+    const file = await saved.handle.getFile();
+    rememberFileHandle(file, saved.handle);
+    await config.openFile(file, { source: "selection", object: "file" });
+  } catch (error) {
+    model.replaceWithNextShown(null);
+    config.setStatusMessage(`Unable to reopen ${saved.label}: ${formatAccessError(error)}`);
+  }
+};
+
+const createWorkspaceTabsController = (config: WorkspaceTabsConfig): WorkspaceTabsController => {
+  const model = createWorkspaceModel();
+  const { store, persistToggleElement } = config;
+  const handles: WorkspaceHandleLookup = {
+    fileHandle: file => storableHandle(findFileHandle(file)),
+    directoryHandle: route => storableHandle(route.locations[0]?.handle ?? null)
+  };
+  const persistenceEnabled = (): boolean => store != null && persistToggleElement.checked;
+  const render = (): void => {
+    const tabs = model.tabs();
+    const active = model.activeTab();
+    config.tabListElement.innerHTML = tabs.map(tab => renderWorkspaceTab(tab, tab === active)).join("");
+    config.barElement.hidden = tabs.length === 0 && !persistenceEnabled();
+  };
+  const save = (): void => {
+    if (!store || !persistenceEnabled()) return;
+    const state = { workspace: model.serialize(handles), preferences: readPreferences(config.preferenceRoot) };
+    store.save(state).catch((error: unknown) => {
+      config.setStatusMessage(`Unable to save the workspace: ${formatAccessError(error)}`);
+    });
+  };
+  const forget = async (): Promise<void> => {
+    persistToggleElement.checked = false;
+    model.removeSavedTabs();
+    render();
+    try {
+      await store?.clear();
+      config.setStatusMessage("Saved workspace removed from this device.");
+    } catch (error) {
+      config.setStatusMessage(`Unable to remove the saved workspace: ${formatAccessError(error)}`);
+    }
+  };
+  const selectTab = (tab: WorkspaceTab): void => {
+    if (tab.kind === "file") void config.openFile(tab.file, tab.context);
+    else if (tab.kind === "directory") config.openDirectory(tab.route);
+    else void reopenSavedTab(model, config, tab);
+  };
+  const closeTab = (id: string): void => {
+    const { wasActive, next } = model.close(id);
+    if (wasActive && next) selectTab(next);
+    else if (wasActive) config.openEmpty();
+    render();
+    save();
+  };
+  config.tabListElement.addEventListener("click", event => {
+    const closeId = readTabAttribute(event.target, "data-workspace-close");
+    if (closeId) {
+      closeTab(closeId);
+      return;
+    }
+    const tabId = readTabAttribute(event.target, "data-workspace-tab");
+    const tab = model.tabs().find(candidate => candidate.id === tabId);
+    if (tab) selectTab(tab);
+  });
+  persistToggleElement.addEventListener("change", () => {
+    if (persistToggleElement.checked) save();
+    else void forget();
+    render();
+  });
+  config.forgetButtonElement.addEventListener("click", () => { void forget(); });
+  config.preferenceRoot.addEventListener("change", event => {
+    if (readTabAttribute(event.target, "data-workspace-preference")) save();
+  });
+  return {
+    handleRoute: route => {
+      const active = model.activeTab();
+      const view = active?.kind === "file" ? config.captureView() : null;
+      if (active?.kind === "file" && view) active.view = view;
+      if (route.kind === "file") model.showFile(route.file, route.context);
+      else if (route.kind === "directory") model.showDirectory(route.directory);
+      else model.showEmpty();
+      render();
+      save();
+    },
+    cachedParseResult: file => model.findFileTab(file)?.parseResult ?? null,
+    savedView: file => model.findFileTab(file)?.view ?? null,
+    storeParseResult: (file, result) => {
+      const tab = model.findFileTab(file);
+      if (tab) tab.parseResult = result;
+    },
+    restore: async () => {
+      persistToggleElement.disabled = store == null;
+      config.forgetButtonElement.disabled = store == null;
+      try {
+        const persisted = await store?.load();
+        if (persisted) {
+          model.restore(persisted.workspace);
+          persistToggleElement.checked = true;
+          applyPreferences(config.preferenceRoot, persisted.preferences);
+        }
+      } catch (error) {
+        config.setStatusMessage(`Unable to restore the saved workspace: ${formatAccessError(error)}`);
+      }
+      render();
+    }
+  };
+};
+
+export { createWorkspaceTabsController };
+export type { WorkspaceTabsConfig, WorkspaceTabsController };
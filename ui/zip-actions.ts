@@ -2,11 +2,13 @@
 
 import type { ParseForUiResult } from "../analyzers/index.js";
 import type { ZipCentralDirectoryEntry } from "../analyzers/zip/index.js";
+import { deliverEntry, type EntryAnalyzer } from "./entry-delivery.js";
 
 type ZipDeps = {
   getParseResult: () => ParseForUiResult;
   getFile: () => File | null;
   setStatusMessage: (message: string | null | undefined) => void;
+  analyzeEntry?: EntryAnalyzer;
 };
 
 const sanitizeDownloadName = (entry: ZipCentralDirectoryEntry): string => {
@@ -45,18 +47,7 @@ const decompressZipEntry = async (
   return new Response(stream).blob();
 };
 
-const triggerDownload = (blob: Blob, suggestedName: string): void => {
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = suggestedName;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-};
-
-const createZipEntryClickHandler = ({ getParseResult, getFile, setStatusMessage }: ZipDeps) =>
+const createZipEntryClickHandler = ({ getParseResult, getFile, setStatusMessage, analyzeEntry }: ZipDeps) =>
   async (event: Event): Promise<void> => {
     const target = event.target;
     if (!(target instanceof HTMLElement)) return;
@@ -92,7 +83,7 @@ const createZipEntryClickHandler = ({ getParseResult, getFile, setStatusMessage
     try {
       const compressedBlob = await sliceZipEntryBlob(file, entry);
       const blob = await decompressZipEntry(entry, compressedBlob);
-      triggerDownload(blob, sanitizeDownloadName(entry));
+      deliverEntry(target, { blob, name: sanitizeDownloadName(entry), label: entry.fileName || "entry" }, analyzeEntry);
       setStatusMessage(null);
     } catch (error) {
       const message = error instanceof Error && error.message ? error.message : String(error);